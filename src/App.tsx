@@ -5,6 +5,7 @@ import { TooltipProvider } from '@/components/ui/tooltip';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { ModuleAccessProvider } from '@/contexts/ModuleAccessContext';
+import { FormattingProvider } from '@/contexts/FormattingContext';
 import { ErrorNotificationProvider } from '@/contexts/ErrorNotificationContext';
 import ErrorBoundaryWithNotifications from '@/components/ErrorBoundary';
 import { ErrorNotificationContainer } from '@/components/ErrorNotification';
@@ -31,12 +32,20 @@ const VendorList = lazy(() => import('@/pages/Vendors/VendorList'));
 const VendorForm = lazy(() => import('@/pages/Vendors/VendorForm'));
 const OrderList = lazy(() => import('@/pages/Orders/OrderList'));
 const OrderForm = lazy(() => import('@/pages/Orders/OrderForm'));
+const SuggestedOrders = lazy(() => import('@/pages/Orders/SuggestedOrders'));
 const LicenseList = lazy(() => import('@/pages/Licenses/LicenseList'));
 const LicenseForm = lazy(() => import('@/pages/Licenses/LicenseForm'));
+const LicenseRenewalReport = lazy(() => import('@/pages/Licenses/LicenseRenewalReport'));
 const SalaryList = lazy(() => import('@/pages/Salary/SalaryList'));
 const SalaryForm = lazy(() => import('@/pages/Salary/SalaryForm'));
 const DeliveryList = lazy(() => import('@/pages/Delivery/DeliveryList'));
 const DeliveryForm = lazy(() => import('@/pages/Delivery/DeliveryForm'));
+const TankReconciliation = lazy(() => import('@/pages/Delivery/TankReconciliation'));
+const FuelPriceBook = lazy(() => import('@/pages/Sales/FuelPriceBook'));
+const SalesReviewQueue = lazy(() => import('@/pages/Sales/SalesReviewQueue'));
+const CashShortOver = lazy(() => import('@/pages/Sales/CashShortOver'));
+const BankDeposits = lazy(() => import('@/pages/Sales/BankDeposits'));
+const CardSettlements = lazy(() => import('@/pages/Sales/CardSettlements'));
 const AppSettings = lazy(() => import('@/pages/Settings/AppSettings'));
 
 // Admin pages (lazy loaded)
@@ -46,6 +55,7 @@ const SiteManagement = lazy(() => import('@/pages/Admin/SiteManagement'));
 const SystemLogs = lazy(() => import('@/pages/Admin/SystemLogs'));
 const SecuritySettings = lazy(() => import('@/pages/Admin/SecuritySettings'));
 const SMSManagement = lazy(() => import('@/pages/Admin/SMSManagement'));
+const JobScheduler = lazy(() => import('@/pages/Admin/JobScheduler'));
 const UserValidationTestPage = lazy(() => import('@/pages/Admin/UserValidationTestPage'));
 const AuthDiagnosticPage = lazy(() => import('@/pages/AuthDiagnosticPage'));
 const ModuleAccessPage = lazy(() => import('@/pages/Admin/ModuleAccessPage'));
@@ -229,6 +239,31 @@ const AppRouter = () => {
                 <SalesReportForm />
               </Suspense>
             } />
+            <Route path="sales/fuel-prices" element={
+            <Suspense fallback={<PageLoader />}>
+                <FuelPriceBook />
+              </Suspense>
+            } />
+            <Route path="sales/review" element={
+            <Suspense fallback={<PageLoader />}>
+                <SalesReviewQueue />
+              </Suspense>
+            } />
+            <Route path="sales/short-over" element={
+            <Suspense fallback={<PageLoader />}>
+                <CashShortOver />
+              </Suspense>
+            } />
+            <Route path="sales/deposits" element={
+            <Suspense fallback={<PageLoader />}>
+                <BankDeposits />
+              </Suspense>
+            } />
+            <Route path="sales/card-settlements" element={
+            <Suspense fallback={<PageLoader />}>
+                <CardSettlements />
+              </Suspense>
+            } />
             
             {/* Vendors */}
             <Route path="vendors" element={
@@ -258,6 +293,11 @@ const AppRouter = () => {
                 <OrderForm />
               </Suspense>
             } />
+            <Route path="orders/suggested" element={
+            <Suspense fallback={<PageLoader />}>
+                <SuggestedOrders />
+              </Suspense>
+            } />
             <Route path="orders/:id/edit" element={
             <Suspense fallback={<PageLoader />}>
                 <OrderForm />
@@ -280,6 +320,11 @@ const AppRouter = () => {
                 <LicenseForm />
               </Suspense>
             } />
+            <Route path="licenses/renewal-spend" element={
+            <Suspense fallback={<PageLoader />}>
+                <LicenseRenewalReport />
+              </Suspense>
+            } />
             
             {/* Salary */}
             <Route path="salary" element={
@@ -314,6 +359,11 @@ const AppRouter = () => {
                 <DeliveryForm />
               </Suspense>
             } />
+            <Route path="delivery/reconciliation" element={
+            <Suspense fallback={<PageLoader />}>
+                <TankReconciliation />
+              </Suspense>
+            } />
             
             {/* Settings */}
             <Route path="settings" element={
@@ -375,6 +425,11 @@ const AppRouter = () => {
                 <SMSManagement />
               </Suspense>
             } />
+            <Route path="admin/job-scheduler" element={
+            <Suspense fallback={<PageLoader />}>
+                <JobScheduler />
+              </Suspense>
+            } />
             <Route path="admin/user-validation" element={
             <Suspense fallback={<PageLoader />}>
                 <UserValidationTestPage />
@@ -440,9 +495,11 @@ function App() {
         <ErrorNotificationProvider>
           <ErrorBoundaryWithNotifications componentName="Application">
             <AuthProvider>
-              <ModuleAccessProvider>
-                <AppRouter />
-              </ModuleAccessProvider>
+              <FormattingProvider>
+                <ModuleAccessProvider>
+                  <AppRouter />
+                </ModuleAccessProvider>
+              </FormattingProvider>
             </AuthProvider>
           </ErrorBoundaryWithNotifications>
           <ErrorNotificationContainer />
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle } from
+'@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NumberInput } from '@/components/ui/number-input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { Landmark } from 'lucide-react';
+import EnhancedFileUpload from '@/components/EnhancedFileUpload';
+import { bankDepositService, DepositReceipt } from '@/services/bankDepositService';
+import type { SalesReportRow } from '@/services/supabase/tableRegistry';
+import { DepositReport, sumCashCollected } from '@/utils/bankDeposits';
+import { roundMoney, toDateKey } from '@/utils/valueHelpers';
+
+interface BankDepositDialogProps {
+  station: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const BankDepositDialog: React.FC<BankDepositDialogProps> = ({ station, isOpen, onClose, onSaved }) => {
+  const { user } = useAuth();
+  const { formatDate, formatCurrency } = useFormatting();
+  const [openReports, setOpenReports] = useState<SalesReportRow[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [depositDate, setDepositDate] = useState(today());
+  const [bagNumber, setBagNumber] = useState('');
+  const [amount, setAmount] = useState(0);
+  const [notes, setNotes] = useState('');
+  const [receipt, setReceipt] = useState<DepositReceipt | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && station) {
+      setSelectedIds([]);
+      setDepositDate(today());
+      setBagNumber('');
+      setAmount(0);
+      setNotes('');
+      setReceipt(null);
+      setLoading(true);
+      bankDepositService.getOpenReports(station).
+      then(setOpenReports).
+      catch((error) => console.error('Error loading undeposited reports:', error)).
+      finally(() => setLoading(false));
+    }
+  }, [isOpen, station]);
+
+  const selectedReports = openReports.filter((report) => selectedIds.includes(report.id!));
+  const expected = sumCashCollected(selectedReports as DepositReport[]);
+
+  // Keep the amount in step with the selected shifts until it is edited by hand
+  const toggleReport = (id: number, checked: boolean) => {
+    const nextIds = checked ? [...selectedIds, id] : selectedIds.filter((selected) => selected !== id);
+    if (amount === expected) {
+      setAmount(sumCashCollected(openReports.filter((report) => nextIds.includes(report.id!)) as DepositReport[]));
+    }
+    setSelectedIds(nextIds);
+  };
+
+  const handleFileUpload = async (file: File) => {
+    try {
+      setUploading(true);
+      const { data, error } = await window.ezsite.apis.upload({
+        filename: `deposits/${station}/${Date.now()}_${file.name}`,
+        file
+      });
+      if (error) throw error;
+
+      setReceipt({ url: data as string, fileName: file.name });
+    } catch (error) {
+      console.error('Error uploading deposit receipt:', error);
+      toast({
+        title: "Error",
+        description: "Failed to upload bank receipt",
+        variant: "destructive"
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { error } = await bankDepositService.createDeposit(
+      { station, deposit_date: depositDate, bag_number: bagNumber, amount, report_ids: selectedIds, notes },
+      receipt,
+      { id: user?.ID, email: user?.Email || 'unknown' }
+    );
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    const variance = roundMoney(amount - expected);
+    toast({
+      title: "Deposit Recorded",
+      description: variance === 0 ?
+      `Bag ${bagNumber.trim()} matches the cash collected` :
+      `Bag ${bagNumber.trim()} is ${variance < 0 ? 'short' : 'over'} ${formatCurrency(Math.abs(variance))} against the cash collected`
+    });
+    onSaved?.();
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Landmark className="w-5 h-5" />
+            <span>Record Bank Deposit</span>
+          </DialogTitle>
+          <DialogDescription>
+            {station} — select the shifts whose cash is in the bag
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Shift Reports *</Label>
+            {loading ?
+            <div className="h-24 bg-gray-100 rounded animate-pulse"></div> :
+            openReports.length === 0 ?
+            <p className="text-sm text-gray-500 border rounded-lg p-3">Every shift report is already on a deposit.</p> :
+
+            <div className="border rounded-lg divide-y max-h-56 overflow-y-auto">
+                {openReports.map((report) =>
+              <label key={report.id} className="flex items-center justify-between p-2 text-sm cursor-pointer hover:bg-gray-50">
+                    <span className="flex items-center space-x-2">
+                      <Checkbox
+                    checked={selectedIds.includes(report.id!)}
+                    onCheckedChange={(checked) => toggleReport(report.id!, checked === true)} />
+                      <span>
+                        {formatDate(toDateKey(report.report_date))} · {report.shift || 'DAY'} · {report.employee_name}
+                      </span>
+                    </span>
+                    <span className="font-medium">{formatCurrency(report.cash_collection_on_hand)}</span>
+                  </label>
+              )}
+              </div>
+            }
+            <p className="text-xs text-gray-500">
+              Cash collected on {selectedIds.length} selected shift(s): {formatCurrency(expected)}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="deposit_date">Deposit Date *</Label>
+              <Input id="deposit_date" type="date" value={depositDate} onChange={(e) => setDepositDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deposit_bag_number">Bag Number *</Label>
+              <Input id="deposit_bag_number" value={bagNumber} onChange={(e) => setBagNumber(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deposit_amount">Amount Deposited ($) *</Label>
+              <NumberInput
+                id="deposit_amount"
+                step={0.01}
+                precision={2}
+                min={0}
+                value={amount}
+                onChange={(value) => setAmount(value || 0)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Bank Receipt</Label>
+            <EnhancedFileUpload
+              onFileSelect={handleFileUpload}
+              accept=".pdf,.jpg,.jpeg,.png,image/*"
+              label="Upload Bank Receipt"
+              currentFile={receipt?.fileName}
+              maxSize={10}
+              disabled={uploading} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="deposit_notes">Notes</Label>
+            <Textarea id="deposit_notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || uploading || selectedIds.length === 0}>
+            <Landmark className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Record Deposit'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>);
+
+};
+
+export default BankDepositDialog;
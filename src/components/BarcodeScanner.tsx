@@ -3,6 +3,8 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Camera, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useBarcodeWedge } from '@/hooks/use-barcode-wedge';
+import { BARCODE_FORMAT_LABELS, BarcodeResult, decodeImage, isValidCheckDigit } from '@/utils/barcodeDecoder';
 import ErrorBoundaryWithNotifications from './ErrorBoundary';
 
 interface BarcodeScannerProps {
@@ -11,68 +13,116 @@ interface BarcodeScannerProps {
   disabled?: boolean;
 }
 
+// How often a video frame is decoded, and the width frames are scaled down to
+const SCAN_INTERVAL_MS = 150;
+const MAX_FRAME_WIDTH = 800;
+// A code must be read from this many consecutive frames before it is accepted
+const CONFIRMATIONS = 2;
+
 const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onScan, triggerText = "Scan Barcode", disabled = false }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isOpen, setIsOpen] = useState(false);
-  const [stream, setStream] = useState<MediaStream | null>(null);
+  // A ref, not state, so cleanup and the scan loop always stop the live stream
+  const streamRef = useRef<MediaStream | null>(null);
   const [isScanning, setIsScanning] = useState(false);
+  const [cameraError, setCameraError] = useState(false);
   const { toast } = useToast();
 
   const startCamera = async () => {
     try {
+      setCameraError(false);
       const mediaStream = await navigator.mediaDevices.getUserMedia({
         video: { facingMode: 'environment' }
       });
 
       if (videoRef.current) {
         videoRef.current.srcObject = mediaStream;
-        setStream(mediaStream);
+        streamRef.current = mediaStream;
         setIsScanning(true);
+      } else {
+        mediaStream.getTracks().forEach((track) => track.stop());
       }
     } catch (error) {
       console.error('Error accessing camera:', error);
+      setCameraError(true);
       toast({
         variant: "destructive",
         title: "Camera Error",
-        description: "Unable to access camera. Please check permissions."
+        description: "Unable to access camera. You can still scan with a USB barcode scanner."
       });
     }
   };
 
   const stopCamera = () => {
-    if (stream) {
-      stream.getTracks().forEach((track) => track.stop());
-      setStream(null);
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
       setIsScanning(false);
     }
   };
 
-  const captureFrame = () => {
-    if (videoRef.current && canvasRef.current) {
+  const acceptBarcode = (result: BarcodeResult | {text: string;format?: undefined;}) => {
+    onScan(result.text);
+    setIsOpen(false);
+    stopCamera();
+
+    toast({
+      title: "Barcode Scanned",
+      description: result.format ?
+      `Detected ${BARCODE_FORMAT_LABELS[result.format]} barcode: ${result.text}` :
+      `Detected barcode: ${result.text}`
+    });
+  };
+
+  // Keyboard-wedge input has no symbology, but numeric UPC/EAN lengths can
+  // still be checked
+  const handleWedgeScan = (barcode: string) => {
+    const code = barcode.trim();
+    if (/^\d+$/.test(code) && [8, 12, 13].includes(code.length) && !isValidCheckDigit(code)) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Barcode",
+        description: `${code} has an invalid check digit. Please scan again.`
+      });
+      return;
+    }
+    acceptBarcode({ text: code });
+  };
+
+  useBarcodeWedge(handleWedgeScan, isOpen);
+
+  // Decode frames continuously while the camera is running
+  useEffect(() => {
+    if (!isScanning) return;
+
+    let lastText: string | null = null;
+    let matches = 0;
+    let done = false;
+
+    const interval = setInterval(() => {
       const video = videoRef.current;
       const canvas = canvasRef.current;
-      const context = canvas.getContext('2d');
-
-      if (context) {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        context.drawImage(video, 0, 0);
-
-        // Simple barcode detection simulation
-        // In a real implementation, you would use a library like ZXing or QuaggaJS
-        const simulatedBarcode = Math.random().toString(36).substr(2, 12).toUpperCase();
-        onScan(simulatedBarcode);
-        setIsOpen(false);
-        stopCamera();
-
-        toast({
-          title: "Barcode Scanned",
-          description: `Detected barcode: ${simulatedBarcode}`
-        });
+      const context = canvas?.getContext('2d', { willReadFrequently: true });
+      if (done || !video || !canvas || !context || !video.videoWidth) return;
+
+      const scale = Math.min(1, MAX_FRAME_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const result = decodeImage(context.getImageData(0, 0, canvas.width, canvas.height));
+      if (!result) return;
+      matches = result.text === lastText ? matches + 1 : 1;
+      lastText = result.text;
+      if (matches >= CONFIRMATIONS) {
+        done = true;
+        acceptBarcode(result);
       }
-    }
-  };
+    }, SCAN_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isScanning]);
 
   useEffect(() => {
     if (isOpen) {
@@ -105,32 +155,35 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onScan, triggerText = "
                 ref={videoRef}
                 autoPlay
                 playsInline
+                muted
                 className="w-full h-full object-cover" />
 
             <canvas
                 ref={canvasRef}
                 className="hidden" />
 
+            {isScanning &&
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <div className="w-4/5 h-1/3 border-2 border-white border-dashed rounded-lg" />
+              </div>
+              }
             {!isScanning &&
               <div className="absolute inset-0 flex items-center justify-center text-white">
                 <div className="text-center">
                   <Camera className="w-12 h-12 mx-auto mb-2" />
-                  <p>Initializing camera...</p>
+                  <p>{cameraError ? 'Camera unavailable' : 'Initializing camera...'}</p>
                 </div>
               </div>
               }
           </div>
           <div className="flex space-x-2">
-            <Button onClick={captureFrame} disabled={!isScanning}>
-              Capture
-            </Button>
             <Button variant="outline" onClick={() => setIsOpen(false)}>
               <X className="w-4 h-4 mr-2" />
               Cancel
             </Button>
           </div>
           <p className="text-sm text-muted-foreground text-center">
-            Position the barcode within the camera view and click Capture
+            Hold the barcode inside the frame; it is read automatically. A USB barcode scanner also works while this window is open.
           </p>
         </div>
       </DialogContent>
@@ -140,4 +193,4 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onScan, triggerText = "
 
 };
 
-export default BarcodeScanner;
\ No newline at end of file
+export default BarcodeScanner;
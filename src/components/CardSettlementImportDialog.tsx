@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle } from
+'@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { useStationStore } from '@/hooks/use-station-store';
+import { AlertTriangle, Upload } from 'lucide-react';
+import EnhancedFileUpload from '@/components/EnhancedFileUpload';
+import { cardSettlementService } from '@/services/cardSettlementService';
+import { CARD_TYPE_LABELS, parseSettlementCsv, SettlementParseResult } from '@/utils/cardSettlements';
+
+interface CardSettlementImportDialogProps {
+  defaultStation: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+// Lines shown in the preview before importing
+const PREVIEW_LINES = 20;
+
+const CardSettlementImportDialog: React.FC<CardSettlementImportDialogProps> = ({
+  defaultStation,
+  isOpen,
+  onClose,
+  onImported
+}) => {
+  const { user } = useAuth();
+  const { formatCurrency } = useFormatting();
+  const { getFilteredStationOptions } = useStationStore();
+  const stations = getFilteredStationOptions(false).map((option) => option.value);
+
+  const [station, setStation] = useState('');
+  const [processor, setProcessor] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [fileText, setFileText] = useState('');
+  const [parsed, setParsed] = useState<SettlementParseResult | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStation(defaultStation !== 'ALL' ? defaultStation : '');
+      setProcessor('');
+      setFile(null);
+      setFileText('');
+      setParsed(null);
+    }
+  }, [isOpen, defaultStation]);
+
+  // Re-parse when the fallback station or processor changes
+  useEffect(() => {
+    if (fileText) {
+      setParsed(parseSettlementCsv(fileText, station, processor.trim() || null));
+    }
+  }, [fileText, station, processor]);
+
+  const handleFileSelect = async (selected: File) => {
+    if (!selected.name.toLowerCase().endsWith('.csv')) {
+      toast({ title: "Invalid File Type", description: "Please select the processor's CSV export", variant: "destructive" });
+      return;
+    }
+    setFile(selected);
+    setFileText(await selected.text());
+  };
+
+  const handleImport = async () => {
+    if (!parsed || !file) return;
+    setImporting(true);
+    const { imported, skipped, error } = await cardSettlementService.importSettlements(
+      parsed.records,
+      file.name,
+      { id: user?.ID, email: user?.Email || 'unknown' }
+    );
+    setImporting(false);
+
+    if (error) {
+      toast({ title: "Import Failed", description: error, variant: "destructive" });
+      return;
+    }
+    toast({
+      title: "Settlements Imported",
+      description: `${imported} line(s) imported${skipped > 0 ? `, ${skipped} already imported line(s) skipped` : ''}`
+    });
+    onImported?.();
+    onClose();
+  };
+
+  const records = parsed?.records || [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Upload className="w-5 h-5" />
+            <span>Import Card Settlements</span>
+          </DialogTitle>
+          <DialogDescription>
+            Upload the processor's settlement CSV; each batch line is matched to the shift reports by station and date
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Station</Label>
+              <Select value={station} onValueChange={setStation}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Used when the file has no station column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stations.map((option) =>
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlement_processor">Processor</Label>
+              <Input
+                id="settlement_processor"
+                value={processor}
+                onChange={(e) => setProcessor(e.target.value)}
+                placeholder="e.g. Worldpay, Heartland" />
+            </div>
+          </div>
+
+          <EnhancedFileUpload
+            onFileSelect={handleFileSelect}
+            accept=".csv,text/csv"
+            label="Select Settlement CSV"
+            currentFile={file?.name}
+            maxSize={10} />
+
+          {parsed && parsed.errors.length > 0 &&
+          <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <p className="font-medium">{parsed.errors.length} line(s) could not be read and will be skipped</p>
+                <ul className="list-disc ml-4 text-xs mt-1">
+                  {parsed.errors.slice(0, 5).map((error) => <li key={error}>{error}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          }
+
+          {records.length > 0 &&
+          <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Station</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Card</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {records.slice(0, PREVIEW_LINES).map((record, index) =>
+                <TableRow key={index}>
+                      <TableCell>{record.business_date}</TableCell>
+                      <TableCell>{record.station}</TableCell>
+                      <TableCell>{record.batch_number}</TableCell>
+                      <TableCell>{CARD_TYPE_LABELS[record.card_type]}</TableCell>
+                      <TableCell>
+                        {record.record_type === 'sale' ?
+                    'Sale' :
+                    <Badge variant={record.record_type === 'chargeback' ? 'destructive' : 'secondary'}>
+                            {record.record_type === 'chargeback' ? 'Chargeback' : 'Refund'}
+                          </Badge>
+                    }
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(record.gross_amount)}</TableCell>
+                    </TableRow>
+                )}
+                </TableBody>
+              </Table>
+              {records.length > PREVIEW_LINES &&
+            <p className="text-xs text-gray-500 p-2">…and {records.length - PREVIEW_LINES} more line(s)</p>
+            }
+            </div>
+          }
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importing || records.length === 0}>
+            <Upload className="w-4 h-4 mr-2" />
+            {importing ? 'Importing...' : `Import ${records.length} Line(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>);
+
+};
+
+export default CardSettlementImportDialog;
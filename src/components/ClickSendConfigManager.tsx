@@ -8,6 +8,8 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from '@/hooks/use-toast';
+import { smsRelayClient } from '@/services/smsRelayClient';
+import { smsConfigRepository } from '@/services/repositories';
 import {
   Settings,
   Send,
@@ -21,28 +23,19 @@ import {
   Shield } from
 'lucide-react';
 
+// Sender settings kept in sms_config; the credentials are SMS relay secrets
 interface ClickSendConfig {
   id?: number;
-  service_provider: string;
-  api_key: string;
-  username: string;
   from_number: string;
   is_enabled: boolean;
   daily_limit: number;
-  emergency_contacts: string;
-  alert_types: string;
 }
 
 const ClickSendConfigManager: React.FC = () => {
   const [config, setConfig] = useState<ClickSendConfig>({
-    service_provider: 'ClickSend',
-    api_key: '54DC23E4-34D7-C6B1-0601-112E36A46B49', // Pre-filled with provided API key
-    username: 'mobil3801beach@gmail.com', // Pre-filled with provided username
-    from_number: 'DFS', // Pre-filled with provided source
-    is_enabled: true, // Auto-enable since credentials are provided
-    daily_limit: 100,
-    emergency_contacts: '[]',
-    alert_types: '{}'
+    from_number: 'DFS',
+    is_enabled: true,
+    daily_limit: 100
   });
 
   const [loading, setLoading] = useState(false);
@@ -53,38 +46,27 @@ const ClickSendConfigManager: React.FC = () => {
 
   useEffect(() => {
     loadConfiguration();
-    // Auto-test connection with provided credentials
+    // Auto-test the relay connection
     checkConnection();
   }, []);
 
   const loadConfiguration = async () => {
     try {
       setLoading(true);
-      const { data, error } = await window.ezsite.apis.tablePage(24060, {
-        PageNo: 1,
-        PageSize: 1,
-        OrderByField: 'id',
-        IsAsc: false,
-        Filters: []
-      });
+      const { rows, error } = await smsConfigRepository.page({ orderBy: 'id', ascending: false, pageSize: 1 });
 
       if (error) throw new Error(error);
 
-      if (data?.List && data.List.length > 0) {
-        const configData = data.List[0];
+      if (rows.length > 0) {
+        const configData = rows[0];
         setConfig({
           id: configData.id,
-          service_provider: 'ClickSend', // Always ClickSend
-          api_key: '54DC23E4-34D7-C6B1-0601-112E36A46B49', // Keep provided API key
-          username: 'mobil3801beach@gmail.com', // Keep provided username
           from_number: configData.from_number || 'DFS',
           is_enabled: configData.is_enabled !== false, // Default to true
-          daily_limit: configData.daily_limit || 100,
-          emergency_contacts: configData.emergency_contacts || '[]',
-          alert_types: configData.alert_types || '{}'
+          daily_limit: configData.daily_limit || 100
         });
       } else {
-        // Auto-save the provided credentials on first load
+        // Auto-save the default sender settings on first load
         await saveConfiguration();
       }
     } catch (error) {
@@ -104,22 +86,16 @@ const ClickSendConfigManager: React.FC = () => {
       setLoading(true);
 
       const configData = {
-        ...config,
-        service_provider: 'ClickSend',
-        last_updated: new Date().toISOString(),
-        created_by: 1
+        service_name: 'ClickSend',
+        from_number: config.from_number,
+        is_enabled: config.is_enabled,
+        daily_limit: config.daily_limit
       };
 
-      if (config.id) {
-        const { error } = await window.ezsite.apis.tableUpdate(24060, {
-          ID: config.id,
-          ...configData
-        });
-        if (error) throw new Error(error);
-      } else {
-        const { error } = await window.ezsite.apis.tableCreate(24060, configData);
-        if (error) throw new Error(error);
-      }
+      const { error } = config.id ?
+      await smsConfigRepository.update(config.id, configData) :
+      await smsConfigRepository.create(configData);
+      if (error) throw new Error(error);
 
       toast({
         title: "Success",
@@ -128,7 +104,7 @@ const ClickSendConfigManager: React.FC = () => {
 
       await loadConfiguration();
 
-      if (config.is_enabled && config.api_key && config.username) {
+      if (config.is_enabled) {
         await checkConnection();
       }
     } catch (error) {
@@ -147,33 +123,21 @@ const ClickSendConfigManager: React.FC = () => {
     try {
       setLoading(true);
 
-      // Use provided credentials for connection test
-      const username = '54DC23E4-34D7-C6B1-0601-112E36A46B49';
-      const apiKey = 'mobil3801beach@gmail.com';
-
-      // Test ClickSend API connection
-      const credentials = btoa(`${username}:${apiKey}`);
-      const response = await fetch('https://rest.clicksend.com/v3/account', {
-        method: 'GET',
-        headers: {
-          'Authorization': `Basic ${credentials}`,
-          'Content-Type': 'application/json'
-        }
-      });
+      // The relay holds the ClickSend credentials; an account lookup confirms they work
+      const account = await smsRelayClient.getAccount();
 
-      if (response.ok) {
-        const result = await response.json();
+      if (account.success) {
         setConnectionStatus('connected');
-        setAccountBalance(result.data?.balance || 0);
+        setAccountBalance(account.balance || 0);
         toast({
           title: "Connection Successful",
-          description: "Successfully connected to ClickSend with your provided credentials"
+          description: "Successfully connected to ClickSend through the SMS relay"
         });
       } else {
         setConnectionStatus('error');
         toast({
           title: "Connection Failed",
-          description: "Failed to connect to ClickSend. Please check your credentials.",
+          description: account.error || "Failed to connect to ClickSend. Please check the SMS relay secrets.",
           variant: "destructive"
         });
       }
@@ -212,46 +176,20 @@ const ClickSendConfigManager: React.FC = () => {
     try {
       setTesting(true);
 
-      // Use provided credentials for test SMS
-      const credentials = btoa(`mobil3801beach@gmail.com:54DC23E4-34D7-C6B1-0601-112E36A46B49`);
-      const smsData = {
-        messages: [{
-          source: "DFS", // Using provided source
-          to: testPhone,
-          body: `DFS Manager Test SMS - ${new Date().toLocaleString()}. ClickSend is working correctly with your provided credentials!`
-        }]
-      };
+      // Sent and logged to SMS history by the relay
+      const result = await smsRelayClient.send(
+        testPhone,
+        `DFS Manager Test SMS - ${new Date().toLocaleString()}. ClickSend is working correctly!`,
+        'test'
+      );
 
-      const response = await fetch('https://rest.clicksend.com/v3/sms/send', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${credentials}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(smsData)
-      });
-
-      const result = await response.json();
-
-      if (response.ok && result.data?.messages?.[0]?.status === 'SUCCESS') {
+      if (result.success) {
         toast({
           title: "Test SMS Sent",
           description: `Test message sent successfully to ${testPhone}`
         });
-
-        // Log to SMS history
-        await window.ezsite.apis.tableCreate(24062, {
-          recipient_phone: testPhone,
-          message_content: smsData.messages[0].body,
-          message_type: 'test',
-          status: 'Sent',
-          sent_at: new Date().toISOString(),
-          sms_provider_id: result.data.messages[0].message_id,
-          cost: result.data.messages[0].message_price || 0,
-          sent_by: 1
-        });
       } else {
-        throw new Error(result.data?.messages?.[0]?.custom_string || 'Failed to send test SMS');
+        throw new Error(result.error || 'Failed to send test SMS');
       }
     } catch (error) {
       console.error('Test SMS error:', error);
@@ -304,7 +242,7 @@ const ClickSendConfigManager: React.FC = () => {
             </Badge>
           </CardTitle>
           <CardDescription>
-            Your ClickSend SMS service is pre-configured with your provided credentials
+            Your ClickSend SMS service sends through the SMS relay, which holds the provider credentials
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -336,7 +274,7 @@ const ClickSendConfigManager: React.FC = () => {
                       <User className="h-5 w-5 text-blue-500" />
                       <div>
                         <p className="font-medium">Account</p>
-                        <p className="text-sm text-muted-foreground">mobil3801beach@gmail.com</p>
+                        <p className="text-sm text-muted-foreground">Managed by SMS relay</p>
                       </div>
                     </div>
                   </CardContent>
@@ -360,7 +298,7 @@ const ClickSendConfigManager: React.FC = () => {
               <Alert>
                 <Shield className="h-4 w-4" />
                 <AlertDescription>
-                  Your ClickSend SMS service is pre-configured and ready to use. All SMS functionality will use your provided credentials automatically.
+                  ClickSend credentials are stored as secrets on the SMS relay server function. All SMS functionality sends through the relay automatically.
                 </AlertDescription>
               </Alert>
             </TabsContent>
@@ -380,11 +318,11 @@ const ClickSendConfigManager: React.FC = () => {
                   <Input
                     id="username"
                     type="text"
-                    value={config.username}
+                    value="CLICKSEND_USERNAME"
                     disabled
                     className="bg-gray-50" />
 
-                  <p className="text-xs text-muted-foreground">Pre-configured</p>
+                  <p className="text-xs text-muted-foreground">Set as an SMS relay secret</p>
                 </div>
 
                 <div className="space-y-2">
@@ -394,12 +332,12 @@ const ClickSendConfigManager: React.FC = () => {
                   </Label>
                   <Input
                     id="api_key"
-                    type="password"
-                    value={config.api_key}
+                    type="text"
+                    value="CLICKSEND_API_KEY"
                     disabled
                     className="bg-gray-50" />
 
-                  <p className="text-xs text-muted-foreground">Pre-configured</p>
+                  <p className="text-xs text-muted-foreground">Set as an SMS relay secret</p>
                 </div>
 
                 <div className="space-y-2">
@@ -499,7 +437,7 @@ const ClickSendConfigManager: React.FC = () => {
                 <Alert>
                     <CheckCircle className="h-4 w-4" />
                     <AlertDescription>
-                      ClickSend is configured and ready to send SMS messages with your provided credentials.
+                      ClickSend is configured and ready to send SMS messages through the SMS relay.
                     </AlertDescription>
                   </Alert>
                 }
@@ -9,20 +9,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { smsRelayClient } from '@/services/smsRelayClient';
+import { smsConfigRepository } from '@/services/repositories';
+import type { SmsConfigRow } from '@/services/supabase/tableRegistry';
 import {
   Settings,
   CheckCircle,
   AlertCircle,
   Loader2,
-  Key,
   Phone,
   Shield,
   AlertTriangle,
   RefreshCw,
-  ExternalLink,
-  Copy,
-  Eye,
-  EyeOff } from
+  ExternalLink } from
 'lucide-react';
 
 interface ValidationResult {
@@ -40,9 +39,8 @@ interface ConfigValidation {
 }
 
 const ClickSendConfigValidator: React.FC = () => {
+  // ClickSend credentials are SMS relay secrets; only the sender settings are kept in sms_config
   const [config, setConfig] = useState({
-    username: '',
-    apiKey: '',
     fromNumber: '',
     testMode: true,
     webhookUrl: ''
@@ -51,8 +49,7 @@ const ClickSendConfigValidator: React.FC = () => {
   const [validation, setValidation] = useState<ConfigValidation | null>(null);
   const [validating, setValidating] = useState(false);
   const [saving, setSaving] = useState(false);
-  const [showApiKey, setShowApiKey] = useState(false);
-  const [existingConfig, setExistingConfig] = useState<any>(null);
+  const [existingConfig, setExistingConfig] = useState<SmsConfigRow | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -61,22 +58,19 @@ const ClickSendConfigValidator: React.FC = () => {
 
   const loadExistingConfiguration = async () => {
     try {
-      const { data, error } = await window.ezsite.apis.tablePage(24060, {
-        PageNo: 1,
-        PageSize: 1,
-        OrderByField: 'id',
-        IsAsc: false,
-        Filters: [{ name: 'is_enabled', op: 'Equal', value: true }]
+      const { rows, error } = await smsConfigRepository.page({
+        filters: smsConfigRepository.where().equal('is_enabled', true),
+        orderBy: 'id',
+        ascending: false,
+        pageSize: 1
       });
 
       if (error) throw new Error(error);
 
-      if (data?.List && data.List.length > 0) {
-        const existing = data.List[0];
+      if (rows.length > 0) {
+        const existing = rows[0];
         setExistingConfig(existing);
         setConfig({
-          username: existing.username || '',
-          apiKey: existing.api_key || '',
           fromNumber: existing.from_number || '',
           testMode: existing.test_mode ?? true,
           webhookUrl: existing.webhook_url || ''
@@ -95,52 +89,32 @@ const ClickSendConfigValidator: React.FC = () => {
       let score = 0;
       const recommendations: string[] = [];
 
-      // Validate Username
-      if (!config.username) {
-        issues.push({
-          field: 'username',
-          valid: false,
-          message: 'Username is required',
-          suggestion: 'Get your username from ClickSend Console > Account Settings'
-        });
-      } else if (config.username.length < 3) {
-        issues.push({
-          field: 'username',
-          valid: false,
-          message: 'Username should be at least 3 characters long',
-          suggestion: 'Verify you copied the correct username from ClickSend Console'
-        });
-      } else {
-        issues.push({
-          field: 'username',
-          valid: true,
-          message: 'Username format is valid'
-        });
-        score += 25;
-      }
-
-      // Validate API Key
-      if (!config.apiKey) {
-        issues.push({
-          field: 'apiKey',
-          valid: false,
-          message: 'API Key is required',
-          suggestion: 'Get your API Key from ClickSend Console > API Credentials'
-        });
-      } else if (config.apiKey.length < 10) {
+      // The relay holds the ClickSend credentials, so they are checked by an
+      // account lookup through the relay rather than by their format here
+      try {
+        const relayResult = await testClickSendConnection();
+        if (relayResult.success) {
+          issues.push({
+            field: 'relay',
+            valid: true,
+            message: 'SMS relay connected to ClickSend with its stored credentials'
+          });
+          score += 50;
+        } else {
+          issues.push({
+            field: 'relay',
+            valid: false,
+            message: relayResult.error || 'SMS relay could not connect to ClickSend',
+            suggestion: 'Set CLICKSEND_USERNAME and CLICKSEND_API_KEY as secrets on the sms-relay function'
+          });
+        }
+      } catch (error) {
         issues.push({
-          field: 'apiKey',
+          field: 'relay',
           valid: false,
-          message: 'API Key appears to be too short',
-          suggestion: 'Verify you copied the complete API Key from ClickSend Console'
+          message: 'Error checking the SMS relay: ' + (error instanceof Error ? error.message : 'Unknown error'),
+          suggestion: 'Check that the sms-relay function is deployed'
         });
-      } else {
-        issues.push({
-          field: 'apiKey',
-          valid: true,
-          message: 'API Key format is valid'
-        });
-        score += 25;
       }
 
       // Validate From Number
@@ -164,36 +138,7 @@ const ClickSendConfigValidator: React.FC = () => {
           valid: true,
           message: 'From number format is valid'
         });
-        score += 25;
-      }
-
-      // Test API Connection
-      if (config.username && config.apiKey) {
-        try {
-          const testResult = await testClickSendConnection();
-          if (testResult.success) {
-            issues.push({
-              field: 'connection',
-              valid: true,
-              message: 'Successfully connected to ClickSend API'
-            });
-            score += 25;
-          } else {
-            issues.push({
-              field: 'connection',
-              valid: false,
-              message: testResult.error || 'Failed to connect to ClickSend API',
-              suggestion: 'Verify your username and API key are correct'
-            });
-          }
-        } catch (error) {
-          issues.push({
-            field: 'connection',
-            valid: false,
-            message: 'Error testing connection: ' + (error instanceof Error ? error.message : 'Unknown error'),
-            suggestion: 'Check your internet connection and credentials'
-          });
-        }
+        score += 50;
       }
 
       // Webhook URL validation (optional)
@@ -252,25 +197,9 @@ const ClickSendConfigValidator: React.FC = () => {
 
   const testClickSendConnection = async (): Promise<{success: boolean;error?: string;}> => {
     try {
-      const credentials = btoa(`${config.username}:${config.apiKey}`);
-
-      const response = await fetch('https://rest.clicksend.com/v3/account', {
-        method: 'GET',
-        headers: {
-          'Authorization': `Basic ${credentials}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (response.ok) {
-        return { success: true };
-      } else {
-        const errorData = await response.json();
-        return {
-          success: false,
-          error: errorData.message || `HTTP ${response.status}: ${response.statusText}`
-        };
-      }
+      // The relay tests the credentials stored in its secrets, not the ones typed here
+      const account = await smsRelayClient.getAccount();
+      return account.success ? { success: true } : { success: false, error: account.error || 'SMS relay connection failed' };
     } catch (error) {
       return {
         success: false,
@@ -293,25 +222,18 @@ const ClickSendConfigValidator: React.FC = () => {
 
     try {
       const configData = {
-        service_provider: 'ClickSend',
-        username: config.username,
-        api_key: config.apiKey,
+        service_name: 'ClickSend',
         from_number: config.fromNumber,
         is_enabled: true,
         test_mode: config.testMode,
         webhook_url: config.webhookUrl || '',
-        daily_limit: 1000,
-        created_by: 1
+        daily_limit: existingConfig?.daily_limit || 1000
       };
 
-      if (existingConfig?.id) {
-        await window.ezsite.apis.tableUpdate(24060, {
-          ID: existingConfig.id,
-          ...configData
-        });
-      } else {
-        await window.ezsite.apis.tableCreate(24060, configData);
-      }
+      const { error } = existingConfig?.id ?
+      await smsConfigRepository.update(existingConfig.id, configData) :
+      await smsConfigRepository.create(configData);
+      if (error) throw new Error(error);
 
       toast({
         title: "✅ Configuration Saved",
@@ -332,14 +254,6 @@ const ClickSendConfigValidator: React.FC = () => {
     }
   };
 
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text);
-    toast({
-      title: "Copied",
-      description: "Text copied to clipboard"
-    });
-  };
-
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-600';
     if (score >= 60) return 'text-yellow-600';
@@ -369,53 +283,15 @@ const ClickSendConfigValidator: React.FC = () => {
           </TabsList>
 
           <TabsContent value="config" className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="username">
-                  <Key className="w-4 h-4 inline mr-1" />
-                  Username
-                </Label>
-                <div className="flex space-x-2">
-                  <Input
-                    id="username"
-                    placeholder="Your ClickSend username"
-                    value={config.username}
-                    onChange={(e) => setConfig((prev) => ({ ...prev, username: e.target.value }))} />
-
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => copyToClipboard(config.username)}
-                    disabled={!config.username}>
-
-                    <Copy className="w-4 h-4" />
-                  </Button>
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="apiKey">
-                  <Shield className="w-4 h-4 inline mr-1" />
-                  API Key
-                </Label>
-                <div className="flex space-x-2">
-                  <Input
-                    id="apiKey"
-                    type={showApiKey ? "text" : "password"}
-                    placeholder="Your ClickSend API key"
-                    value={config.apiKey}
-                    onChange={(e) => setConfig((prev) => ({ ...prev, apiKey: e.target.value }))} />
-
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setShowApiKey(!showApiKey)}>
-
-                    {showApiKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                  </Button>
-                </div>
-              </div>
+            <Alert>
+              <Shield className="h-4 w-4" />
+              <AlertDescription>
+                The ClickSend username and API key are stored as secrets on the SMS relay server function.
+                Validation checks them through the relay.
+              </AlertDescription>
+            </Alert>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="fromNumber">
                   <Phone className="w-4 h-4 inline mr-1" />
@@ -575,7 +451,7 @@ const ClickSendConfigValidator: React.FC = () => {
                     <li>Sign up for a ClickSend account at <a href="https://www.clicksend.com" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline inline-flex items-center">clicksend.com <ExternalLink className="w-3 h-3 ml-1" /></a></li>
                     <li>Go to the ClickSend Dashboard</li>
                     <li>Navigate to Developers → API Credentials</li>
-                    <li>Copy your Username and API Key</li>
+                    <li>Set your Username and API Key as the CLICKSEND_USERNAME and CLICKSEND_API_KEY secrets of the sms-relay function</li>
                     <li>Purchase a phone number from Numbers → Buy Numbers</li>
                     <li>Copy the phone number in E.164 format (+1234567890)</li>
                   </ol>
@@ -588,7 +464,7 @@ const ClickSendConfigValidator: React.FC = () => {
                   <div className="space-y-3 text-sm">
                     <div>
                       <div className="font-medium text-red-600">❌ "Authentication failed"</div>
-                      <div>Check that username and API key are correctly copied from ClickSend Console</div>
+                      <div>Check the CLICKSEND_USERNAME and CLICKSEND_API_KEY secrets of the sms-relay function against ClickSend Console</div>
                     </div>
                     <div>
                       <div className="font-medium text-red-600">❌ "Invalid from number"</div>
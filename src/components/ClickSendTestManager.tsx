@@ -12,12 +12,12 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from '@/hooks/use-toast';
 import { MessageSquare, Send, CheckCircle, XCircle, AlertTriangle, Phone, Settings, TestTube, RefreshCw, Zap, Users } from 'lucide-react';
 import { clickSendSmsService } from '@/services/clickSendSmsService';
+import { smsConfigRepository } from '@/services/repositories';
 
+// Sender settings kept in sms_config; the credentials are SMS relay secrets
 interface ClickSendConfig {
   id: number;
-  service_provider: string;
-  username: string;
-  api_key: string;
+  service_name: string;
   from_number: string;
   is_enabled: boolean;
   test_mode: boolean;
@@ -61,23 +61,20 @@ const ClickSendTestManager: React.FC = () => {
 
   const loadConfiguration = async () => {
     try {
-      const { data, error } = await window.ezsite.apis.tablePage(24060, {
-        PageNo: 1,
-        PageSize: 1,
-        OrderByField: 'id',
-        IsAsc: false,
-        Filters: [{ name: 'is_enabled', op: 'Equal', value: true }]
+      const { rows, error } = await smsConfigRepository.page({
+        filters: smsConfigRepository.where().equal('is_enabled', true),
+        orderBy: 'id',
+        ascending: false,
+        pageSize: 1
       });
 
       if (error) throw error;
 
-      if (data?.List && data.List.length > 0) {
-        const configData = data.List[0];
+      if (rows.length > 0) {
+        const configData = rows[0];
         setConfig({
-          id: configData.id,
-          service_provider: configData.service_provider,
-          username: configData.username,
-          api_key: configData.api_key,
+          id: configData.id!,
+          service_name: configData.service_name,
           from_number: configData.from_number,
           is_enabled: configData.is_enabled,
           test_mode: configData.test_mode,
@@ -137,14 +134,6 @@ const ClickSendTestManager: React.FC = () => {
       return;
     }
 
-    if (!config.username || config.username.length < 3) {
-      errors.push('Invalid or missing ClickSend username');
-    }
-
-    if (!config.api_key || config.api_key.length < 10) {
-      errors.push('Invalid or missing ClickSend API key');
-    }
-
     if (!config.from_number || !config.from_number.match(/^\+[1-9]\d{1,14}$/)) {
       errors.push('Invalid or missing From Phone Number (must be in E.164 format)');
     }
@@ -395,9 +384,9 @@ const ClickSendTestManager: React.FC = () => {
               {/* Configuration Details */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>Username</Label>
+                  <Label>Provider</Label>
                   <div className="font-mono text-sm bg-muted p-2 rounded">
-                    {config.username ? `${config.username.substring(0, 10)}...` : 'Not configured'}
+                    {config.service_name || 'ClickSend'} (credentials held by the SMS relay)
                   </div>
                 </div>
                 <div className="space-y-2">
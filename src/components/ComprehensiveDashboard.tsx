@@ -6,6 +6,15 @@ import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useStationStore } from '@/hooks/use-station-store';
+import { fuelConfigurationService } from '@/services/fuelConfigurationService';
+import {
+  buildFuelConfiguration,
+  formatGradeKey,
+  getDeliveryVolumes,
+  getGradeCapacity,
+  getTankGrades,
+  StationFuelConfiguration } from
+'@/utils/fuelGrades';
 import {
   BarChart,
   Bar,
@@ -81,6 +90,7 @@ interface DeliveryData {
   regular_tank_volume: number;
   plus_tank_volume: number;
   super_tank_volume: number;
+  fuel_deliveries?: Record<string, {tank_volume: number;delivered: number;}>;
 }
 
 interface LicenseData {
@@ -102,6 +112,9 @@ interface ProductData {
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D'];
 
+// Gauge scale for tanks without a configured capacity
+const DEFAULT_TANK_CAPACITY = 10000;
+
 const ComprehensiveDashboard: React.FC = () => {
   const { stations } = useStationStore();
   // Extract station names from store for compatibility with existing logic
@@ -116,6 +129,14 @@ const ComprehensiveDashboard: React.FC = () => {
   const [selectedStation, setSelectedStation] = useState<string>('ALL');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [fuelConfigurations, setFuelConfigurations] = useState<Record<string, StationFuelConfiguration>>({});
+
+  // Load each station's grades and tanks for the tank gauges
+  useEffect(() => {
+    Promise.all(STATIONS.map((station) => fuelConfigurationService.getConfiguration(station))).
+    then((configurations) => setFuelConfigurations(Object.fromEntries(configurations.map((config) => [config.station, config])))).
+    catch((configError) => console.error('Error loading fuel configurations:', configError));
+  }, [STATIONS.join()]);
 
   // Fetch all dashboard data
   useEffect(() => {
@@ -255,13 +276,16 @@ const ComprehensiveDashboard: React.FC = () => {
 
       if (!latest) return { station, tanks: [] };
 
+      const configuration = fuelConfigurations[station] || buildFuelConfiguration(station, [], []);
+      const volumes = getDeliveryVolumes(latest);
       return {
         station,
-        tanks: [
-        { type: 'Regular', current: latest.regular_tank_volume, delivered: latest.regular_delivered },
-        { type: 'Plus', current: latest.plus_tank_volume, delivered: latest.plus_delivered },
-        { type: 'Super', current: latest.super_tank_volume, delivered: latest.super_delivered }]
-
+        tanks: getTankGrades(configuration).map((grade) => ({
+          type: grade.label,
+          current: volumes[grade.grade]?.tank_volume || 0,
+          delivered: volumes[grade.grade]?.delivered || 0,
+          capacity: getGradeCapacity(configuration, grade.grade) || DEFAULT_TANK_CAPACITY
+        }))
       };
     });
 
@@ -332,6 +356,15 @@ const ComprehensiveDashboard: React.FC = () => {
   const salesChartData = processSalesData();
   const salaryByStation = processSalaryData();
   const tankData = processDeliveryData();
+
+  // Recent deliveries with one bar per grade delivered
+  const deliveryHistory = deliveryData.slice(0, 10).map((delivery) => ({
+    date: new Date(delivery.delivery_date).toLocaleDateString(),
+    ...Object.fromEntries(Object.entries(getDeliveryVolumes(delivery)).map(([grade, volume]) => [grade, volume.delivered]))
+  }));
+  const deliveredGrades = Array.from(new Set(deliveryData.slice(0, 10).flatMap((delivery) =>
+  Object.entries(getDeliveryVolumes(delivery)).filter(([, volume]) => volume.delivered > 0).map(([grade]) => grade)
+  )));
   const licenseExpiryData = processLicenseData();
   const inventoryData = processInventoryData();
   const employeeMetrics = calculateEmployeeMetrics();
@@ -433,7 +466,7 @@ const ComprehensiveDashboard: React.FC = () => {
           <CardContent>
             <div className="text-2xl font-bold">
               {deliveryData.reduce((sum, item) =>
-              sum + item.regular_delivered + item.plus_delivered + item.super_delivered, 0
+              sum + Object.values(getDeliveryVolumes(item)).reduce((total, volume) => total + volume.delivered, 0), 0
               ).toLocaleString()}
             </div>
             <p className="text-xs text-muted-foreground">Gallons this period</p>
@@ -595,7 +628,7 @@ const ComprehensiveDashboard: React.FC = () => {
                         <span className="font-medium">{tank.type}</span>
                         <span>{tank.current.toLocaleString()} gal</span>
                       </div>
-                      <Progress value={tank.current / 10000 * 100} className="h-2" />
+                      <Progress value={tank.current / tank.capacity * 100} className="h-2" />
                       <div className="text-xs text-gray-600">
                         Last delivery: {tank.delivered.toLocaleString()} gallons
                       </div>
@@ -613,20 +646,15 @@ const ComprehensiveDashboard: React.FC = () => {
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={deliveryData.slice(0, 10).map((delivery) => ({
-                  date: new Date(delivery.delivery_date).toLocaleDateString(),
-                  regular: delivery.regular_delivered,
-                  plus: delivery.plus_delivered,
-                  super: delivery.super_delivered
-                }))}>
+                <BarChart data={deliveryHistory}>
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="date" angle={-45} textAnchor="end" height={80} />
                   <YAxis />
                   <Tooltip />
                   <Legend />
-                  <Bar dataKey="regular" fill="#8884d8" name="Regular" />
-                  <Bar dataKey="plus" fill="#82ca9d" name="Plus" />
-                  <Bar dataKey="super" fill="#ffc658" name="Super" />
+                  {deliveredGrades.map((grade, index) =>
+                  <Bar key={grade} dataKey={grade} fill={COLORS[index % COLORS.length]} name={formatGradeKey(grade)} />
+                  )}
                 </BarChart>
               </ResponsiveContainer>
             </CardContent>
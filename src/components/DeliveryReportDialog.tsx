@@ -5,6 +5,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { useStationStore } from '@/hooks/use-station-store';
+import { useFuelConfiguration } from '@/hooks/use-fuel-configuration';
+import { getDeliveryVolumes, getTankGrades, withRecordedGrades } from '@/utils/fuelGrades';
 import {
   Truck,
   Calendar,
@@ -28,6 +30,7 @@ interface DeliveryRecord {
   regular_delivered: number;
   plus_delivered: number;
   super_delivered: number;
+  fuel_deliveries?: Record<string, {tank_volume: number;delivered: number;}>;
   delivery_notes: string;
   created_by: number;
 }
@@ -38,11 +41,20 @@ interface DeliveryReportDialogProps {
   delivery: DeliveryRecord | null;
 }
 
+// Panel colors cycled through the station's grades
+const GRADE_STYLES = [
+{ print: 'fuel-regular', panel: 'bg-blue-50', border: 'border-blue-200', value: 'text-blue-600', label: 'text-blue-800' },
+{ print: 'fuel-plus', panel: 'bg-green-50', border: 'border-green-200', value: 'text-green-600', label: 'text-green-800' },
+{ print: 'fuel-super', panel: 'bg-purple-50', border: 'border-purple-200', value: 'text-purple-600', label: 'text-purple-800' }];
+
+
 const DeliveryReportDialog: React.FC<DeliveryReportDialogProps> = ({
   open,
   onOpenChange,
   delivery
 }) => {
+  const { configuration } = useFuelConfiguration(delivery?.station || '');
+
   if (!delivery) return null;
 
   // Use centralized station store for color functions
@@ -61,12 +73,23 @@ const DeliveryReportDialog: React.FC<DeliveryReportDialogProps> = ({
     return num.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
   };
 
+  const volumes = getDeliveryVolumes(delivery);
+  const grades = withRecordedGrades(
+    getTankGrades(configuration),
+    Object.keys(volumes).filter((grade) => volumes[grade].tank_volume || volumes[grade].delivered)
+  ).map((grade, index) => ({
+    ...grade,
+    before: volumes[grade.grade]?.tank_volume || 0,
+    delivered: volumes[grade.grade]?.delivered || 0,
+    style: GRADE_STYLES[index % GRADE_STYLES.length]
+  }));
+
   const getTotalDelivered = () => {
-    return delivery.regular_delivered + delivery.plus_delivered + delivery.super_delivered;
+    return grades.reduce((sum, grade) => sum + grade.delivered, 0);
   };
 
   const getTotalTankVolume = () => {
-    return delivery.regular_tank_volume + delivery.plus_tank_volume + delivery.super_tank_volume;
+    return grades.reduce((sum, grade) => sum + grade.before, 0);
   };
 
   const handlePrint = () => {
@@ -131,18 +154,12 @@ const DeliveryReportDialog: React.FC<DeliveryReportDialogProps> = ({
           <div class="section">
             <div class="section-title">Tank Volumes Before Delivery</div>
             <div class="fuel-grid">
-              <div class="fuel-item fuel-regular">
-                <div class="fuel-amount">${formatNumber(delivery.regular_tank_volume)}</div>
-                <div class="fuel-label">Regular Tank (gal)</div>
-              </div>
-              <div class="fuel-item fuel-plus">
-                <div class="fuel-amount">${formatNumber(delivery.plus_tank_volume)}</div>
-                <div class="fuel-label">Plus Tank (gal)</div>
-              </div>
-              <div class="fuel-item fuel-super">
-                <div class="fuel-amount">${formatNumber(delivery.super_tank_volume)}</div>
-                <div class="fuel-label">Super Tank (gal)</div>
+              ${grades.map((grade) => `
+              <div class="fuel-item ${grade.style.print}">
+                <div class="fuel-amount">${formatNumber(grade.before)}</div>
+                <div class="fuel-label">${grade.label} Tank (gal)</div>
               </div>
+              `).join('')}
               <div class="fuel-item">
                 <div class="fuel-amount">${formatNumber(getTotalTankVolume())}</div>
                 <div class="fuel-label">Total Volume (gal)</div>
@@ -153,18 +170,12 @@ const DeliveryReportDialog: React.FC<DeliveryReportDialogProps> = ({
           <div class="section">
             <div class="section-title">Fuel Delivered</div>
             <div class="fuel-grid">
-              <div class="fuel-item fuel-regular">
-                <div class="fuel-amount">${formatNumber(delivery.regular_delivered)}</div>
-                <div class="fuel-label">Regular Delivered (gal)</div>
-              </div>
-              <div class="fuel-item fuel-plus">
-                <div class="fuel-amount">${formatNumber(delivery.plus_delivered)}</div>
-                <div class="fuel-label">Plus Delivered (gal)</div>
-              </div>
-              <div class="fuel-item fuel-super">
-                <div class="fuel-amount">${formatNumber(delivery.super_delivered)}</div>
-                <div class="fuel-label">Super Delivered (gal)</div>
+              ${grades.map((grade) => `
+              <div class="fuel-item ${grade.style.print}">
+                <div class="fuel-amount">${formatNumber(grade.delivered)}</div>
+                <div class="fuel-label">${grade.label} Delivered (gal)</div>
               </div>
+              `).join('')}
               <div class="fuel-item fuel-total">
                 <div class="fuel-amount">${formatNumber(getTotalDelivered())}</div>
                 <div class="fuel-label">Total Delivered (gal)</div>
@@ -284,26 +295,14 @@ const DeliveryReportDialog: React.FC<DeliveryReportDialogProps> = ({
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                <div className="text-center p-4 bg-blue-50 rounded-lg">
-                  <div className="text-2xl font-bold text-blue-600">
-                    {formatNumber(delivery.regular_tank_volume)}
-                  </div>
-                  <div className="text-sm text-blue-800">Regular Tank (gal)</div>
-                </div>
-                
-                <div className="text-center p-4 bg-green-50 rounded-lg">
-                  <div className="text-2xl font-bold text-green-600">
-                    {formatNumber(delivery.plus_tank_volume)}
+                {grades.map((grade) =>
+                <div key={grade.grade} className={`text-center p-4 rounded-lg ${grade.style.panel}`}>
+                    <div className={`text-2xl font-bold ${grade.style.value}`}>
+                      {formatNumber(grade.before)}
+                    </div>
+                    <div className={`text-sm ${grade.style.label}`}>{grade.label} Tank (gal)</div>
                   </div>
-                  <div className="text-sm text-green-800">Plus Tank (gal)</div>
-                </div>
-                
-                <div className="text-center p-4 bg-purple-50 rounded-lg">
-                  <div className="text-2xl font-bold text-purple-600">
-                    {formatNumber(delivery.super_tank_volume)}
-                  </div>
-                  <div className="text-sm text-purple-800">Super Tank (gal)</div>
-                </div>
+                )}
                 
                 <div className="text-center p-4 bg-gray-50 rounded-lg">
                   <div className="text-2xl font-bold text-gray-600">
@@ -325,26 +324,14 @@ const DeliveryReportDialog: React.FC<DeliveryReportDialogProps> = ({
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                <div className="text-center p-4 bg-blue-50 rounded-lg border-2 border-blue-200">
-                  <div className="text-3xl font-bold text-blue-600">
-                    {formatNumber(delivery.regular_delivered)}
-                  </div>
-                  <div className="text-sm text-blue-800 font-medium">Regular Delivered (gal)</div>
-                </div>
-                
-                <div className="text-center p-4 bg-green-50 rounded-lg border-2 border-green-200">
-                  <div className="text-3xl font-bold text-green-600">
-                    {formatNumber(delivery.plus_delivered)}
-                  </div>
-                  <div className="text-sm text-green-800 font-medium">Plus Delivered (gal)</div>
-                </div>
-                
-                <div className="text-center p-4 bg-purple-50 rounded-lg border-2 border-purple-200">
-                  <div className="text-3xl font-bold text-purple-600">
-                    {formatNumber(delivery.super_delivered)}
+                {grades.map((grade) =>
+                <div key={grade.grade} className={`text-center p-4 rounded-lg border-2 ${grade.style.panel} ${grade.style.border}`}>
+                    <div className={`text-3xl font-bold ${grade.style.value}`}>
+                      {formatNumber(grade.delivered)}
+                    </div>
+                    <div className={`text-sm font-medium ${grade.style.label}`}>{grade.label} Delivered (gal)</div>
                   </div>
-                  <div className="text-sm text-purple-800 font-medium">Super Delivered (gal)</div>
-                </div>
+                )}
                 
                 <div className="text-center p-4 bg-orange-50 rounded-lg border-2 border-orange-200">
                   <div className="text-3xl font-bold text-orange-600">
@@ -366,66 +353,34 @@ const DeliveryReportDialog: React.FC<DeliveryReportDialogProps> = ({
                 <div>
                   <h4 className="font-semibold text-gray-700 mb-2">Tank Capacity Utilization</h4>
                   <div className="space-y-2">
-                    <div className="flex justify-between">
-                      <span className="text-sm">Regular:</span>
-                      <span className="text-sm font-medium">
-                        {delivery.regular_tank_volume > 0 ?
-                        `${(delivery.regular_delivered / (delivery.regular_tank_volume + delivery.regular_delivered) * 100).toFixed(1)}%` :
+                    {grades.map((grade) =>
+                    <div key={grade.grade} className="flex justify-between">
+                        <span className="text-sm">{grade.label}:</span>
+                        <span className="text-sm font-medium">
+                          {grade.before > 0 ?
+                        `${(grade.delivered / (grade.before + grade.delivered) * 100).toFixed(1)}%` :
                         'N/A'
                         }
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-sm">Plus:</span>
-                      <span className="text-sm font-medium">
-                        {delivery.plus_tank_volume > 0 ?
-                        `${(delivery.plus_delivered / (delivery.plus_tank_volume + delivery.plus_delivered) * 100).toFixed(1)}%` :
-                        'N/A'
-                        }
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-sm">Super:</span>
-                      <span className="text-sm font-medium">
-                        {delivery.super_tank_volume > 0 ?
-                        `${(delivery.super_delivered / (delivery.super_tank_volume + delivery.super_delivered) * 100).toFixed(1)}%` :
-                        'N/A'
-                        }
-                      </span>
-                    </div>
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
 
                 <div>
                   <h4 className="font-semibold text-gray-700 mb-2">Delivery Breakdown</h4>
                   <div className="space-y-2">
-                    <div className="flex justify-between">
-                      <span className="text-sm">Regular:</span>
-                      <span className="text-sm font-medium">
-                        {getTotalDelivered() > 0 ?
-                        `${(delivery.regular_delivered / getTotalDelivered() * 100).toFixed(1)}%` :
-                        '0%'
-                        }
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-sm">Plus:</span>
-                      <span className="text-sm font-medium">
-                        {getTotalDelivered() > 0 ?
-                        `${(delivery.plus_delivered / getTotalDelivered() * 100).toFixed(1)}%` :
+                    {grades.map((grade) =>
+                    <div key={grade.grade} className="flex justify-between">
+                        <span className="text-sm">{grade.label}:</span>
+                        <span className="text-sm font-medium">
+                          {getTotalDelivered() > 0 ?
+                        `${(grade.delivered / getTotalDelivered() * 100).toFixed(1)}%` :
                         '0%'
                         }
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-sm">Super:</span>
-                      <span className="text-sm font-medium">
-                        {getTotalDelivered() > 0 ?
-                        `${(delivery.super_delivered / getTotalDelivered() * 100).toFixed(1)}%` :
-                        '0%'
-                        }
-                      </span>
-                    </div>
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -21,7 +21,6 @@ import {
   AlertCircle,
   Clock,
   Zap,
-  BarChart3,
   RefreshCw,
   Plus,
   Edit,
@@ -30,193 +29,73 @@ import {
   Pause,
   Eye } from
 'lucide-react';
-
-interface EmailAutomationConfig {
-  id?: number;
-  automation_name: string;
-  email_type: string;
-  is_active: boolean;
-  from_email: string;
-  from_name: string;
-  trigger_condition: string;
-  trigger_value: number;
-  frequency_hours: number;
-  template_id?: number;
-  recipient_groups: string;
-  last_run?: string;
-  next_run?: string;
-  total_sent: number;
-  success_rate: number;
-  created_by?: number;
-}
-
-interface EmailTemplate {
-  id?: number;
-  template_name: string;
-  template_type: string;
-  subject: string;
-  html_content: string;
-  text_content: string;
-  is_active: boolean;
-  variables: string;
-  created_by?: number;
-}
-
-interface EmailStats {
-  totalSent: number;
-  successRate: number;
-  deliveryRate: number;
-  openRate: number;
-  lastSent: string;
-  queuedEmails: number;
-}
+import { emailAutomationService, EmailAutomationStats, summarizeEmailStats } from '@/services/emailAutomationService';
+import { RECURRING_JOB_KEYS } from '@/services/jobSchedulerService';
+import type { EmailAutomationLogRow, EmailAutomationRow, EmailTemplateRow } from '@/services/supabase/tableRegistry';
 
 const EmailAutomationManager: React.FC = () => {
-  const [automations, setAutomations] = useState<EmailAutomationConfig[]>([]);
-  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
-  const [stats, setStats] = useState<EmailStats>({
-    totalSent: 0,
-    successRate: 0,
-    deliveryRate: 0,
-    openRate: 0,
-    lastSent: '',
-    queuedEmails: 0
-  });
+  const [automations, setAutomations] = useState<EmailAutomationRow[]>([]);
+  const [templates, setTemplates] = useState<EmailTemplateRow[]>([]);
+  const [recentLogs, setRecentLogs] = useState<EmailAutomationLogRow[]>([]);
+  const [stats, setStats] = useState<EmailAutomationStats>(summarizeEmailStats([]));
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('overview');
-  const [editingAutomation, setEditingAutomation] = useState<EmailAutomationConfig | null>(null);
-  const [editingTemplate, setEditingTemplate] = useState<EmailTemplate | null>(null);
   const [testEmailSending, setTestEmailSending] = useState<number | null>(null);
+  const [running, setRunning] = useState(false);
   const { toast } = useToast();
 
   // Load data on component mount
   useEffect(() => {
-    loadAutomations();
-    loadTemplates();
-    loadStats();
+    loadData();
   }, []);
 
-  const loadAutomations = async () => {
+  const loadData = async () => {
     try {
-      // Since email automation tables don't exist yet, we'll create them first
-      console.log('Loading email automations...');
-      // For now, use mock data until tables are created
-      setAutomations([
-      {
-        id: 1,
-        automation_name: 'License Expiry Alerts',
-        email_type: 'License Alert',
-        is_active: true,
-        from_email: 'alerts@dfsmanager.com',
-        from_name: 'DFS Manager Alerts',
-        trigger_condition: 'days_before_expiry',
-        trigger_value: 30,
-        frequency_hours: 24,
-        recipient_groups: 'station_managers,admin',
-        total_sent: 45,
-        success_rate: 98.5,
-        last_run: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-        next_run: new Date(Date.now() + 22 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        id: 2,
-        automation_name: 'Daily Sales Reports',
-        email_type: 'Sales Report',
-        is_active: true,
-        from_email: 'reports@dfsmanager.com',
-        from_name: 'DFS Manager Reports',
-        trigger_condition: 'daily_schedule',
-        trigger_value: 8,
-        frequency_hours: 24,
-        recipient_groups: 'management',
-        total_sent: 120,
-        success_rate: 99.2,
-        last_run: new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString(),
-        next_run: new Date(Date.now() + 18 * 60 * 60 * 1000).toISOString()
-      }]
+      const [automationRows, templateRows, logRows] = await Promise.all([
+      emailAutomationService.getAutomations(),
+      emailAutomationService.getTemplates(),
+      emailAutomationService.getRecentLogs()]
       );
+      setAutomations(automationRows);
+      setTemplates(templateRows);
+      setRecentLogs(logRows);
+      setStats(summarizeEmailStats(automationRows));
     } catch (error) {
-      console.error('Error loading automations:', error);
+      console.error('Error loading email automations:', error);
       toast({
         title: "Error",
         description: "Failed to load email automations",
         variant: "destructive"
       });
+    } finally {
+      setLoading(false);
     }
   };
 
-  const loadTemplates = async () => {
+  const handleRunNow = async () => {
+    setRunning(true);
     try {
-      console.log('Loading email templates...');
-      // Mock template data
-      setTemplates([
-      {
-        id: 1,
-        template_name: 'License Expiry Alert',
-        template_type: 'License Alert',
-        subject: 'License Expiring Soon - {license_name}',
-        html_content: `
-            <h2>License Expiry Alert</h2>
-            <p>Dear {recipient_name},</p>
-            <p>This is a reminder that the license <strong>{license_name}</strong> for station <strong>{station_name}</strong> will expire on <strong>{expiry_date}</strong>.</p>
-            <p>Please take immediate action to renew this license to avoid any business disruption.</p>
-            <p>Days remaining: <strong>{days_remaining}</strong></p>
-            <hr>
-            <p>DFS Manager System</p>
-          `,
-        text_content: 'License {license_name} for {station_name} expires on {expiry_date}. Days remaining: {days_remaining}',
-        is_active: true,
-        variables: 'license_name,station_name,expiry_date,days_remaining,recipient_name'
-      },
-      {
-        id: 2,
-        template_name: 'Daily Sales Summary',
-        template_type: 'Sales Report',
-        subject: 'Daily Sales Report - {report_date}',
-        html_content: `
-            <h2>Daily Sales Report</h2>
-            <p>Sales summary for {report_date}</p>
-            <table border="1" style="border-collapse: collapse; width: 100%;">
-              <tr><th>Station</th><th>Total Sales</th><th>Fuel Sales</th><th>Store Sales</th></tr>
-              <tr><td>{station_name}</td><td>${total_sales}</td><td>${fuel_sales}</td><td>${store_sales}</td></tr>
-            </table>
-            <p>Generated automatically by DFS Manager</p>
-          `,
-        text_content: 'Daily sales for {report_date}: Total: ${total_sales}, Fuel: ${fuel_sales}, Store: ${store_sales}',
-        is_active: true,
-        variables: 'report_date,station_name,total_sales,fuel_sales,store_sales'
-      }]
-      );
+      const result = await emailAutomationService.runNow();
+      const outcome = result.outcomes?.find((entry) => entry.jobKey === RECURRING_JOB_KEYS.emailAutomations);
+      if (!result.success || outcome?.status === 'failed') {
+        throw new Error(outcome?.error || result.error || 'Email automation run failed');
+      }
+      toast({
+        title: "Automations Run",
+        description: outcome?.result ?
+        `${outcome.result.sent || 0} sent, ${outcome.result.failed || 0} failed` :
+        'No automations were due'
+      });
+      await loadData();
     } catch (error) {
-      console.error('Error loading templates:', error);
+      console.error('Error running email automations:', error);
       toast({
         title: "Error",
-        description: "Failed to load email templates",
+        description: error instanceof Error ? error.message : "Failed to run email automations",
         variant: "destructive"
       });
-    }
-  };
-
-  const loadStats = async () => {
-    try {
-      // Calculate stats from automations
-      const totalSent = automations.reduce((sum, auto) => sum + auto.total_sent, 0);
-      const avgSuccessRate = automations.length > 0 ?
-      automations.reduce((sum, auto) => sum + auto.success_rate, 0) / automations.length :
-      0;
-
-      setStats({
-        totalSent,
-        successRate: avgSuccessRate,
-        deliveryRate: 96.8,
-        openRate: 78.3,
-        lastSent: automations.length > 0 ? automations[0].last_run || '' : '',
-        queuedEmails: 12
-      });
-    } catch (error) {
-      console.error('Error loading stats:', error);
     } finally {
-      setLoading(false);
+      setRunning(false);
     }
   };
 
@@ -226,24 +105,16 @@ const EmailAutomationManager: React.FC = () => {
       const automation = automations.find((a) => a.id === automationId);
       if (!automation) return;
 
-      const { error } = await window.ezsite.apis.sendEmail({
-        from: `${automation.from_name} <${automation.from_email}>`,
-        to: [automation.from_email], // Send to self for testing
-        subject: `TEST: ${automation.automation_name} - ${new Date().toLocaleString()}`,
-        html: `
-          <h2>Email Automation Test</h2>
-          <p>This is a test email for the automation: <strong>${automation.automation_name}</strong></p>
-          <p><strong>Type:</strong> ${automation.email_type}</p>
-          <p><strong>Trigger:</strong> ${automation.trigger_condition} = ${automation.trigger_value}</p>
-          <p><strong>Frequency:</strong> Every ${automation.frequency_hours} hours</p>
-          <p><strong>Recipients:</strong> ${automation.recipient_groups}</p>
-          <hr>
-          <p>Test sent at: ${new Date().toLocaleString()}</p>
-          <p>DFS Manager Email Automation System</p>
-        `
-      });
+      // Sent to the automation's own from address (used as Reply-To), rendered with the template's preview data
+      const template = templates.find((t) => t.id === automation.template_id);
+      if (!template) throw new Error('This automation has no template');
+      const result = await emailAutomationService.sendTestEmail(
+        template,
+        automation.from_email,
+        `${automation.from_name} <${automation.from_email}>`
+      );
 
-      if (error) throw error;
+      if (!result.success) throw new Error(result.error);
 
       toast({
         title: "Test Email Sent",
@@ -253,7 +124,7 @@ const EmailAutomationManager: React.FC = () => {
       console.error('Error sending test email:', error);
       toast({
         title: "Error",
-        description: "Failed to send test email",
+        description: error instanceof Error && error.message ? error.message : "Failed to send test email",
         variant: "destructive"
       });
     } finally {
@@ -263,6 +134,9 @@ const EmailAutomationManager: React.FC = () => {
 
   const toggleAutomation = async (id: number, active: boolean) => {
     try {
+      const { error } = await emailAutomationService.setAutomationActive(id, active);
+      if (error) throw new Error(error);
+
       setAutomations((prev) => prev.map((auto) =>
       auto.id === id ? { ...auto, is_active: active } : auto
       ));
@@ -359,10 +233,10 @@ const EmailAutomationManager: React.FC = () => {
             <Card>
               <CardContent className="p-4">
                 <div className="flex items-center space-x-3">
-                  <BarChart3 className="w-8 h-8 text-purple-600" />
+                  <AlertCircle className="w-8 h-8 text-red-600" />
                   <div>
-                    <p className="text-sm text-gray-600">Open Rate</p>
-                    <p className="text-2xl font-bold text-purple-600">{stats.openRate}%</p>
+                    <p className="text-sm text-gray-600">Failed</p>
+                    <p className="text-2xl font-bold text-red-600">{stats.totalFailed}</p>
                   </div>
                 </div>
               </CardContent>
@@ -373,8 +247,8 @@ const EmailAutomationManager: React.FC = () => {
                 <div className="flex items-center space-x-3">
                   <Clock className="w-8 h-8 text-orange-600" />
                   <div>
-                    <p className="text-sm text-gray-600">Queued</p>
-                    <p className="text-2xl font-bold text-orange-600">{stats.queuedEmails}</p>
+                    <p className="text-sm text-gray-600">Due Now</p>
+                    <p className="text-2xl font-bold text-orange-600">{stats.dueAutomations}</p>
                   </div>
                 </div>
               </CardContent>
@@ -388,6 +262,13 @@ const EmailAutomationManager: React.FC = () => {
                 <Zap className="w-5 h-5" />
                 <span>Active Automations</span>
                 <Badge variant="secondary">{automations.filter((a) => a.is_active).length} Active</Badge>
+                <Button size="sm" variant="outline" className="ml-auto" onClick={handleRunNow} disabled={running}>
+                  {running ?
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> :
+                  <Play className="w-4 h-4 mr-2" />
+                  }
+                  Run Due Now
+                </Button>
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -406,7 +287,7 @@ const EmailAutomationManager: React.FC = () => {
                     </div>
                     <div className="flex items-center space-x-2">
                       <Badge className="bg-green-100 text-green-800">
-                        {automation.success_rate}% success
+                        {Number(automation.success_rate || 0)}% success
                       </Badge>
                       <Button
                       size="sm"
@@ -484,11 +365,11 @@ const EmailAutomationManager: React.FC = () => {
                         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                           <div>
                             <p className="text-gray-600">Total Sent</p>
-                            <p className="font-medium">{automation.total_sent}</p>
+                            <p className="font-medium">{automation.total_sent || 0}</p>
                           </div>
                           <div>
                             <p className="text-gray-600">Success Rate</p>
-                            <p className="font-medium">{automation.success_rate}%</p>
+                            <p className="font-medium">{Number(automation.success_rate || 0)}%</p>
                           </div>
                           <div>
                             <p className="text-gray-600">Last Run</p>
@@ -581,20 +462,6 @@ const EmailAutomationManager: React.FC = () => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  <div>
-                    <div className="flex justify-between text-sm mb-1">
-                      <span>Delivery Rate</span>
-                      <span>{stats.deliveryRate}%</span>
-                    </div>
-                    <Progress value={stats.deliveryRate} className="h-2" />
-                  </div>
-                  <div>
-                    <div className="flex justify-between text-sm mb-1">
-                      <span>Open Rate</span>
-                      <span>{stats.openRate}%</span>
-                    </div>
-                    <Progress value={stats.openRate} className="h-2" />
-                  </div>
                   <div>
                     <div className="flex justify-between text-sm mb-1">
                       <span>Success Rate</span>
@@ -602,6 +469,16 @@ const EmailAutomationManager: React.FC = () => {
                     </div>
                     <Progress value={stats.successRate} className="h-2" />
                   </div>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <p className="text-gray-600">Sent</p>
+                      <p className="font-medium">{stats.totalSent}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600">Last Sent</p>
+                      <p className="font-medium">{formatTimeAgo(stats.lastSent)}</p>
+                    </div>
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -612,16 +489,19 @@ const EmailAutomationManager: React.FC = () => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
-                  {automations.slice(0, 5).map((automation) =>
-                  <div key={automation.id} className="flex items-center justify-between">
+                  {recentLogs.length === 0 &&
+                  <p className="text-sm text-gray-600">No automated emails have been sent yet.</p>
+                  }
+                  {recentLogs.slice(0, 5).map((log) =>
+                  <div key={log.id} className="flex items-center justify-between">
                       <div>
-                        <p className="font-medium text-sm">{automation.automation_name}</p>
+                        <p className="font-medium text-sm">{log.subject}</p>
                         <p className="text-xs text-gray-600">
-                          {formatTimeAgo(automation.last_run || '')}
+                          {log.recipient_email} • {formatTimeAgo(log.sent_at)}
                         </p>
                       </div>
-                      <Badge className="bg-green-100 text-green-800">
-                        Sent
+                      <Badge className={log.status === 'Sent' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                        {log.status}
                       </Badge>
                     </div>
                   )}
@@ -24,21 +24,11 @@ import {
   Save,
   RefreshCw } from
 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { emailAutomationService, renderEmailTemplate } from '@/services/emailAutomationService';
+import type { EmailTemplateRow } from '@/services/supabase/tableRegistry';
 
-interface EmailTemplate {
-  id?: number;
-  template_name: string;
-  template_type: string;
-  subject: string;
-  html_content: string;
-  text_content: string;
-  is_active: boolean;
-  variables: string;
-  preview_data: string;
-  usage_count: number;
-  last_used: string;
-  created_by?: number;
-}
+type EmailTemplate = EmailTemplateRow;
 
 interface TemplatePreviewData {
   [key: string]: string;
@@ -54,6 +44,7 @@ const EmailTemplateManager: React.FC = () => {
   const [saving, setSaving] = useState(false);
   const [activeTab, setActiveTab] = useState('html');
   const { toast } = useToast();
+  const { user } = useAuth();
 
   // Template types
   const templateTypes = [
@@ -81,157 +72,7 @@ const EmailTemplateManager: React.FC = () => {
 
   const loadTemplates = async () => {
     try {
-      console.log('Loading email templates...');
-      // Mock data until database tables are created
-      setTemplates([
-      {
-        id: 1,
-        template_name: 'License Expiry Alert',
-        template_type: 'License Alert',
-        subject: 'URGENT: License "{license_name}" expires in {days_remaining} days',
-        html_content: `
-            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-              <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; text-align: center;">
-                <h1 style="margin: 0; font-size: 24px;">🚨 License Expiry Alert</h1>
-              </div>
-              
-              <div style="padding: 30px; background: #f8f9fa;">
-                <h2 style="color: #333; margin-top: 0;">Dear {recipient_name},</h2>
-                
-                <div style="background: #fff; padding: 20px; border-left: 4px solid #ff6b6b; margin: 20px 0;">
-                  <h3 style="color: #ff6b6b; margin-top: 0;">License Expiring Soon!</h3>
-                  <p><strong>License:</strong> {license_name}</p>
-                  <p><strong>Station:</strong> {station_name}</p>
-                  <p><strong>Expiry Date:</strong> {expiry_date}</p>
-                  <p><strong>Days Remaining:</strong> <span style="color: #ff6b6b; font-size: 18px; font-weight: bold;">{days_remaining}</span></p>
-                </div>
-                
-                <p>Please take immediate action to renew this license to avoid any business disruption.</p>
-                
-                <div style="text-align: center; margin: 30px 0;">
-                  <a href="#" style="background: #667eea; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; font-weight: bold;">View License Details</a>
-                </div>
-              </div>
-              
-              <div style="background: #333; color: #ccc; padding: 20px; text-align: center; font-size: 12px;">
-                <p>This is an automated message from DFS Manager System</p>
-                <p>© ${new Date().getFullYear()} DFS Manager. All rights reserved.</p>
-              </div>
-            </div>
-          `,
-        text_content: 'URGENT: License "{license_name}" for {station_name} expires on {expiry_date}. Days remaining: {days_remaining}. Please renew immediately.',
-        is_active: true,
-        variables: 'license_name,station_name,expiry_date,days_remaining,recipient_name',
-        preview_data: JSON.stringify({
-          license_name: 'Business License 2024',
-          station_name: 'MOBIL Station',
-          expiry_date: '2024-03-15',
-          days_remaining: '15',
-          recipient_name: 'John Manager'
-        }),
-        usage_count: 45,
-        last_used: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        id: 2,
-        template_name: 'Daily Sales Summary',
-        template_type: 'Sales Report',
-        subject: 'Daily Sales Report - {station_name} ({report_date})',
-        html_content: `
-            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-              <div style="background: linear-gradient(135deg, #4facfe 0%, #00f2fe 100%); color: white; padding: 20px; text-align: center;">
-                <h1 style="margin: 0; font-size: 24px;">📊 Daily Sales Report</h1>
-              </div>
-              
-              <div style="padding: 30px; background: #f8f9fa;">
-                <h2 style="color: #333; margin-top: 0;">Sales Summary for {report_date}</h2>
-                <h3 style="color: #666;">Station: {station_name}</h3>
-                
-                <div style="background: #fff; padding: 20px; border-radius: 8px; margin: 20px 0; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
-                  <table style="width: 100%; border-collapse: collapse;">
-                    <tr style="background: #f1f5f9;">
-                      <th style="padding: 12px; text-align: left; border-bottom: 2px solid #e2e8f0;">Category</th>
-                      <th style="padding: 12px; text-align: right; border-bottom: 2px solid #e2e8f0;">Amount</th>
-                    </tr>
-                    <tr>
-                      <td style="padding: 12px; border-bottom: 1px solid #e2e8f0;">Total Sales</td>
-                      <td style="padding: 12px; text-align: right; border-bottom: 1px solid #e2e8f0; font-weight: bold; color: #059669;">${total_sales}</td>
-                    </tr>
-                    <tr>
-                      <td style="padding: 12px; border-bottom: 1px solid #e2e8f0;">Fuel Sales</td>
-                      <td style="padding: 12px; text-align: right; border-bottom: 1px solid #e2e8f0;">${fuel_sales}</td>
-                    </tr>
-                    <tr>
-                      <td style="padding: 12px; border-bottom: 1px solid #e2e8f0;">Store Sales</td>
-                      <td style="padding: 12px; text-align: right; border-bottom: 1px solid #e2e8f0;">${store_sales}</td>
-                    </tr>
-                  </table>
-                </div>
-                
-                <p style="color: #666; font-style: italic;">Generated automatically by DFS Manager at {timestamp}</p>
-              </div>
-              
-              <div style="background: #333; color: #ccc; padding: 20px; text-align: center; font-size: 12px;">
-                <p>DFS Manager - Automated Sales Reporting</p>
-              </div>
-            </div>
-          `,
-        text_content: 'Daily Sales Report for {station_name} on {report_date}: Total Sales: ${total_sales}, Fuel: ${fuel_sales}, Store: ${store_sales}',
-        is_active: true,
-        variables: 'report_date,station_name,total_sales,fuel_sales,store_sales,timestamp',
-        preview_data: JSON.stringify({
-          report_date: '2024-02-15',
-          station_name: 'AMOCO ROSEDALE',
-          total_sales: '12,450.75',
-          fuel_sales: '8,230.50',
-          store_sales: '4,220.25',
-          timestamp: new Date().toLocaleString()
-        }),
-        usage_count: 120,
-        last_used: new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        id: 3,
-        template_name: 'System Maintenance Alert',
-        template_type: 'System Notification',
-        subject: 'Scheduled Maintenance - {system_name}',
-        html_content: `
-            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-              <div style="background: linear-gradient(135deg, #f093fb 0%, #f5576c 100%); color: white; padding: 20px; text-align: center;">
-                <h1 style="margin: 0; font-size: 24px;">⚠️ System Maintenance Notice</h1>
-              </div>
-              
-              <div style="padding: 30px; background: #f8f9fa;">
-                <h2 style="color: #333; margin-top: 0;">Scheduled Maintenance</h2>
-                
-                <div style="background: #fff; padding: 20px; border-left: 4px solid #f59e0b; margin: 20px 0;">
-                  <h3 style="color: #f59e0b; margin-top: 0;">System: {system_name}</h3>
-                  <p><strong>Type:</strong> {notification_type}</p>
-                  <p><strong>Scheduled Time:</strong> {timestamp}</p>
-                  <p><strong>Message:</strong> {message}</p>
-                </div>
-                
-                <p>Please plan accordingly and save any work in progress.</p>
-              </div>
-              
-              <div style="background: #333; color: #ccc; padding: 20px; text-align: center; font-size: 12px;">
-                <p>DFS Manager System Notifications</p>
-              </div>
-            </div>
-          `,
-        text_content: 'System Maintenance: {system_name} - {notification_type} at {timestamp}. {message}',
-        is_active: true,
-        variables: 'system_name,notification_type,timestamp,message',
-        preview_data: JSON.stringify({
-          system_name: 'DFS Manager Portal',
-          notification_type: 'Database Maintenance',
-          timestamp: '2024-02-20 02:00 AM',
-          message: 'System will be unavailable for approximately 30 minutes'
-        }),
-        usage_count: 8,
-        last_used: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()
-      }]
-      );
+      setTemplates(await emailAutomationService.getTemplates());
     } catch (error) {
       console.error('Error loading templates:', error);
       toast({
@@ -254,8 +95,9 @@ const EmailTemplateManager: React.FC = () => {
       is_active: true,
       variables: '',
       preview_data: '{}',
+      created_by: null,
       usage_count: 0,
-      last_used: ''
+      last_used: null
     });
     setIsDialogOpen(true);
   };
@@ -270,37 +112,24 @@ const EmailTemplateManager: React.FC = () => {
 
     setSaving(true);
     try {
-      if (editingTemplate.id) {
-        // Update existing template
-        setTemplates((prev) => prev.map((t) =>
-        t.id === editingTemplate.id ? { ...editingTemplate } : t
-        ));
-        toast({
-          title: "Template Updated",
-          description: "Email template has been updated successfully"
-        });
-      } else {
-        // Create new template
-        const newTemplate = {
-          ...editingTemplate,
-          id: Math.max(...templates.map((t) => t.id || 0)) + 1,
-          usage_count: 0,
-          last_used: ''
-        };
-        setTemplates((prev) => [...prev, newTemplate]);
-        toast({
-          title: "Template Created",
-          description: "New email template has been created successfully"
-        });
-      }
+      const { error } = await emailAutomationService.saveTemplate(editingTemplate, user?.ID);
+      if (error) throw new Error(error);
+
+      toast({
+        title: editingTemplate.id ? "Template Updated" : "Template Created",
+        description: editingTemplate.id ?
+        "Email template has been updated successfully" :
+        "New email template has been created successfully"
+      });
 
       setIsDialogOpen(false);
       setEditingTemplate(null);
+      await loadTemplates();
     } catch (error) {
       console.error('Error saving template:', error);
       toast({
         title: "Error",
-        description: "Failed to save template",
+        description: error instanceof Error && error.message ? error.message : "Failed to save template",
         variant: "destructive"
       });
     } finally {
@@ -322,6 +151,9 @@ const EmailTemplateManager: React.FC = () => {
 
   const deleteTemplate = async (id: number) => {
     try {
+      const { error } = await emailAutomationService.deleteTemplate(id);
+      if (error) throw new Error(error);
+
       setTemplates((prev) => prev.filter((t) => t.id !== id));
       toast({
         title: "Template Deleted",
@@ -337,56 +169,30 @@ const EmailTemplateManager: React.FC = () => {
     }
   };
 
+  // Sent to the signed-in user, rendered with the template's preview data
   const sendTestEmail = async (template: EmailTemplate) => {
     try {
-      const testData = JSON.parse(template.preview_data || '{}');
-      let processedSubject = template.subject;
-      let processedContent = template.html_content;
-
-      // Replace variables in subject and content
-      Object.entries(testData).forEach(([key, value]) => {
-        const placeholder = `{${key}}`;
-        processedSubject = processedSubject.replace(new RegExp(placeholder, 'g'), value as string);
-        processedContent = processedContent.replace(new RegExp(placeholder, 'g'), value as string);
-      });
-
-      const { error } = await window.ezsite.apis.sendEmail({
-        from: 'DFS Manager <support@ezsite.ai>',
-        to: ['support@ezsite.ai'], // Send to configured email
-        subject: `TEST: ${processedSubject}`,
-        html: processedContent,
-        text: template.text_content
-      });
-
-      if (error) throw error;
+      if (!user?.Email) throw new Error('Your account has no email address');
+      const result = await emailAutomationService.sendTestEmail(template, user.Email);
+      if (!result.success) throw new Error(result.error);
 
       toast({
         title: "Test Email Sent",
-        description: `Test email sent successfully for template: ${template.template_name}`
+        description: `Test email for ${template.template_name} sent to ${user.Email}`
       });
     } catch (error) {
       console.error('Error sending test email:', error);
       toast({
         title: "Error",
-        description: "Failed to send test email",
+        description: error instanceof Error && error.message ? error.message : "Failed to send test email",
         variant: "destructive"
       });
     }
   };
 
   const generatePreview = (template: EmailTemplate) => {
-    if (!template.preview_data) return template.html_content;
-
     try {
-      const data = JSON.parse(template.preview_data);
-      let preview = template.html_content;
-
-      Object.entries(data).forEach(([key, value]) => {
-        const placeholder = `{${key}}`;
-        preview = preview.replace(new RegExp(placeholder, 'g'), value as string);
-      });
-
-      return preview;
+      return renderEmailTemplate(template.html_content, JSON.parse(template.preview_data || '{}'));
     } catch {
       return template.html_content;
     }
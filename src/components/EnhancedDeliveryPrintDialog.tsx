@@ -5,6 +5,8 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { useStationStore } from '@/hooks/use-station-store';
+import { useFuelConfiguration } from '@/hooks/use-fuel-configuration';
+import { getAfterDeliveryFinals, getDeliveryVolumes, getTankGrades, withRecordedGrades } from '@/utils/fuelGrades';
 import { Printer, X, Truck, Fuel, Calendar, FileText, MapPin, Gauge, BarChart3, AlertTriangle } from 'lucide-react';
 
 interface DeliveryRecord {
@@ -18,6 +20,7 @@ interface DeliveryRecord {
   regular_delivered: number;
   plus_delivered: number;
   super_delivered: number;
+  fuel_deliveries?: Record<string, {tank_volume: number;delivered: number;}>;
   delivery_notes: string;
   created_by: number;
 }
@@ -31,6 +34,7 @@ interface AfterDeliveryReport {
   regular_tank_final: number;
   plus_tank_final: number;
   super_tank_final: number;
+  tank_finals?: Record<string, number>;
   tank_temperature: number;
   verification_status: string;
   discrepancy_notes: string;
@@ -47,12 +51,18 @@ interface EnhancedDeliveryPrintDialogProps {
   afterDeliveryReport?: AfterDeliveryReport | null;
 }
 
+// Card and text colors cycled through the station's grades
+const FUEL_CARD_CLASSES = ['fuel-regular', 'fuel-plus', 'fuel-super'];
+const FUEL_TEXT_CLASSES = ['text-blue-600', 'text-green-600', 'text-purple-600'];
+
 const EnhancedDeliveryPrintDialog: React.FC<EnhancedDeliveryPrintDialogProps> = ({
   open,
   onOpenChange,
   delivery,
   afterDeliveryReport
 }) => {
+  const { configuration } = useFuelConfiguration(delivery?.station || '');
+
   if (!delivery) return null;
 
   // Use centralized station store for color functions
@@ -97,23 +107,37 @@ const EnhancedDeliveryPrintDialog: React.FC<EnhancedDeliveryPrintDialogProps> =
     }
   };
 
+  // Per-grade figures for the station's tank grades plus any other grade on the record
+  const volumes = getDeliveryVolumes(delivery);
+  const finals = afterDeliveryReport ? getAfterDeliveryFinals(afterDeliveryReport) : {};
+  const grades = withRecordedGrades(
+    getTankGrades(configuration),
+    Object.keys(volumes).filter((grade) => volumes[grade].tank_volume || volumes[grade].delivered || finals[grade])
+  ).map((grade, index) => {
+    const before = volumes[grade.grade]?.tank_volume || 0;
+    const delivered = volumes[grade.grade]?.delivered || 0;
+    return {
+      ...grade,
+      before,
+      delivered,
+      expected: before + delivered,
+      actual: finals[grade.grade] || 0,
+      cardClass: FUEL_CARD_CLASSES[index % FUEL_CARD_CLASSES.length],
+      textClass: FUEL_TEXT_CLASSES[index % FUEL_TEXT_CLASSES.length]
+    };
+  });
+
   // Calculate totals and comparisons
-  const totalTankVolumeBefore = delivery.regular_tank_volume + delivery.plus_tank_volume + delivery.super_tank_volume;
-  const totalDelivered = delivery.regular_delivered + delivery.plus_delivered + delivery.super_delivered;
+  const totalTankVolumeBefore = grades.reduce((sum, grade) => sum + grade.before, 0);
+  const totalDelivered = grades.reduce((sum, grade) => sum + grade.delivered, 0);
   const expectedTotalAfter = totalTankVolumeBefore + totalDelivered;
 
   // After delivery calculations (if available)
-  const totalAfterDelivery = afterDeliveryReport ?
-  afterDeliveryReport.regular_tank_final + afterDeliveryReport.plus_tank_final + afterDeliveryReport.super_tank_final : 0;
+  const totalAfterDelivery = afterDeliveryReport ? grades.reduce((sum, grade) => sum + grade.actual, 0) : 0;
 
   const volumeDiscrepancy = afterDeliveryReport ? Math.abs(expectedTotalAfter - totalAfterDelivery) : 0;
   const hasVolumeDiscrepancy = volumeDiscrepancy > 5; // 5 gallon tolerance
 
-  // Individual tank expected vs actual
-  const regularExpected = delivery.regular_tank_volume + delivery.regular_delivered;
-  const plusExpected = delivery.plus_tank_volume + delivery.plus_delivered;
-  const superExpected = delivery.super_tank_volume + delivery.super_delivered;
-
   const handlePrint = () => {
     const printContent = `
       <!DOCTYPE html>
@@ -380,18 +404,12 @@ const EnhancedDeliveryPrintDialog: React.FC<EnhancedDeliveryPrintDialogProps> =
               <span class="section-title">Tank Volumes Before Delivery</span>
             </div>
             <div class="fuel-grid">
-              <div class="fuel-card fuel-regular">
-                <div class="fuel-amount">${formatNumber(delivery.regular_tank_volume)}</div>
-                <div class="fuel-label">Regular Tank (gal)</div>
-              </div>
-              <div class="fuel-card fuel-plus">
-                <div class="fuel-amount">${formatNumber(delivery.plus_tank_volume)}</div>
-                <div class="fuel-label">Plus Tank (gal)</div>
-              </div>
-              <div class="fuel-card fuel-super">
-                <div class="fuel-amount">${formatNumber(delivery.super_tank_volume)}</div>
-                <div class="fuel-label">Super Tank (gal)</div>
+              ${grades.map((grade) => `
+              <div class="fuel-card ${grade.cardClass}">
+                <div class="fuel-amount">${formatNumber(grade.before)}</div>
+                <div class="fuel-label">${grade.label} Tank (gal)</div>
               </div>
+              `).join('')}
               <div class="fuel-card fuel-total">
                 <div class="fuel-amount">${formatNumber(totalTankVolumeBefore)}</div>
                 <div class="fuel-label">Total Volume (gal)</div>
@@ -405,18 +423,12 @@ const EnhancedDeliveryPrintDialog: React.FC<EnhancedDeliveryPrintDialogProps> =
               <span class="section-title">Fuel Delivered</span>
             </div>
             <div class="fuel-grid">
-              <div class="fuel-card fuel-regular">
-                <div class="fuel-amount">${formatNumber(delivery.regular_delivered)}</div>
-                <div class="fuel-label">Regular Delivered (gal)</div>
-              </div>
-              <div class="fuel-card fuel-plus">
-                <div class="fuel-amount">${formatNumber(delivery.plus_delivered)}</div>
-                <div class="fuel-label">Plus Delivered (gal)</div>
-              </div>
-              <div class="fuel-card fuel-super">
-                <div class="fuel-amount">${formatNumber(delivery.super_delivered)}</div>
-                <div class="fuel-label">Super Delivered (gal)</div>
+              ${grades.map((grade) => `
+              <div class="fuel-card ${grade.cardClass}">
+                <div class="fuel-amount">${formatNumber(grade.delivered)}</div>
+                <div class="fuel-label">${grade.label} Delivered (gal)</div>
               </div>
+              `).join('')}
               <div class="fuel-card fuel-total">
                 <div class="fuel-amount">${formatNumber(totalDelivered)}</div>
                 <div class="fuel-label">Total Delivered (gal)</div>
@@ -442,36 +454,18 @@ const EnhancedDeliveryPrintDialog: React.FC<EnhancedDeliveryPrintDialogProps> =
                 </tr>
               </thead>
               <tbody>
+                ${grades.map((grade) => `
                 <tr>
-                  <td><strong>Regular</strong></td>
-                  <td>${formatNumber(delivery.regular_tank_volume)}</td>
-                  <td>${formatNumber(delivery.regular_delivered)}</td>
-                  <td>${formatNumber(regularExpected)}</td>
-                  <td>${formatNumber(afterDeliveryReport.regular_tank_final)}</td>
-                  <td class="${Math.abs(regularExpected - afterDeliveryReport.regular_tank_final) <= 2 ? 'status-verified' : 'status-error'}">
-                    ${formatNumber(Math.abs(regularExpected - afterDeliveryReport.regular_tank_final))}
-                  </td>
-                </tr>
-                <tr>
-                  <td><strong>Plus</strong></td>
-                  <td>${formatNumber(delivery.plus_tank_volume)}</td>
-                  <td>${formatNumber(delivery.plus_delivered)}</td>
-                  <td>${formatNumber(plusExpected)}</td>
-                  <td>${formatNumber(afterDeliveryReport.plus_tank_final)}</td>
-                  <td class="${Math.abs(plusExpected - afterDeliveryReport.plus_tank_final) <= 2 ? 'status-verified' : 'status-error'}">
-                    ${formatNumber(Math.abs(plusExpected - afterDeliveryReport.plus_tank_final))}
-                  </td>
-                </tr>
-                <tr>
-                  <td><strong>Super</strong></td>
-                  <td>${formatNumber(delivery.super_tank_volume)}</td>
-                  <td>${formatNumber(delivery.super_delivered)}</td>
-                  <td>${formatNumber(superExpected)}</td>
-                  <td>${formatNumber(afterDeliveryReport.super_tank_final)}</td>
-                  <td class="${Math.abs(superExpected - afterDeliveryReport.super_tank_final) <= 2 ? 'status-verified' : 'status-error'}">
-                    ${formatNumber(Math.abs(superExpected - afterDeliveryReport.super_tank_final))}
+                  <td><strong>${grade.label}</strong></td>
+                  <td>${formatNumber(grade.before)}</td>
+                  <td>${formatNumber(grade.delivered)}</td>
+                  <td>${formatNumber(grade.expected)}</td>
+                  <td>${formatNumber(grade.actual)}</td>
+                  <td class="${Math.abs(grade.expected - grade.actual) <= 2 ? 'status-verified' : 'status-error'}">
+                    ${formatNumber(Math.abs(grade.expected - grade.actual))}
                   </td>
                 </tr>
+                `).join('')}
                 <tr style="border-top: 2px solid #374151; font-weight: bold;">
                   <td><strong>TOTAL</strong></td>
                   <td>${formatNumber(totalTankVolumeBefore)}</td>
@@ -616,27 +610,15 @@ const EnhancedDeliveryPrintDialog: React.FC<EnhancedDeliveryPrintDialogProps> =
 
           {/* Summary Cards */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-            <Card>
-              <CardContent className="p-4 text-center">
-                <Fuel className="h-8 w-8 mx-auto text-blue-600 mb-2" />
-                <div className="text-2xl font-bold text-blue-600">{formatNumber(delivery.regular_delivered)}</div>
-                <div className="text-sm text-gray-600">Regular Delivered</div>
-              </CardContent>
-            </Card>
-            <Card>
-              <CardContent className="p-4 text-center">
-                <Fuel className="h-8 w-8 mx-auto text-green-600 mb-2" />
-                <div className="text-2xl font-bold text-green-600">{formatNumber(delivery.plus_delivered)}</div>
-                <div className="text-sm text-gray-600">Plus Delivered</div>
-              </CardContent>
-            </Card>
-            <Card>
-              <CardContent className="p-4 text-center">
-                <Fuel className="h-8 w-8 mx-auto text-purple-600 mb-2" />
-                <div className="text-2xl font-bold text-purple-600">{formatNumber(delivery.super_delivered)}</div>
-                <div className="text-sm text-gray-600">Super Delivered</div>
-              </CardContent>
-            </Card>
+            {grades.map((grade) =>
+            <Card key={grade.grade}>
+                <CardContent className="p-4 text-center">
+                  <Fuel className={`h-8 w-8 mx-auto mb-2 ${grade.textClass}`} />
+                  <div className={`text-2xl font-bold ${grade.textClass}`}>{formatNumber(grade.delivered)}</div>
+                  <div className="text-sm text-gray-600">{grade.label} Delivered</div>
+                </CardContent>
+              </Card>
+            )}
             <Card>
               <CardContent className="p-4 text-center">
                 <BarChart3 className="h-8 w-8 mx-auto text-orange-600 mb-2" />
@@ -696,18 +678,12 @@ const EnhancedDeliveryPrintDialog: React.FC<EnhancedDeliveryPrintDialogProps> =
                 <CardTitle className="text-sm">Tank Volumes Before</CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Regular:</span>
-                  <span className="font-medium">{formatNumber(delivery.regular_tank_volume)} gal</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>Plus:</span>
-                  <span className="font-medium">{formatNumber(delivery.plus_tank_volume)} gal</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>Super:</span>
-                  <span className="font-medium">{formatNumber(delivery.super_tank_volume)} gal</span>
-                </div>
+                {grades.map((grade) =>
+                <div key={grade.grade} className="flex justify-between text-sm">
+                    <span>{grade.label}:</span>
+                    <span className="font-medium">{formatNumber(grade.before)} gal</span>
+                  </div>
+                )}
                 <Separator />
                 <div className="flex justify-between text-sm font-semibold">
                   <span>Total:</span>
@@ -721,18 +697,12 @@ const EnhancedDeliveryPrintDialog: React.FC<EnhancedDeliveryPrintDialogProps> =
                 <CardTitle className="text-sm">Fuel Delivered</CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Regular:</span>
-                  <span className="font-medium text-blue-600">{formatNumber(delivery.regular_delivered)} gal</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>Plus:</span>
-                  <span className="font-medium text-green-600">{formatNumber(delivery.plus_delivered)} gal</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>Super:</span>
-                  <span className="font-medium text-purple-600">{formatNumber(delivery.super_delivered)} gal</span>
-                </div>
+                {grades.map((grade) =>
+                <div key={grade.grade} className="flex justify-between text-sm">
+                    <span>{grade.label}:</span>
+                    <span className={`font-medium ${grade.textClass}`}>{formatNumber(grade.delivered)} gal</span>
+                  </div>
+                )}
                 <Separator />
                 <div className="flex justify-between text-sm font-semibold">
                   <span>Total:</span>
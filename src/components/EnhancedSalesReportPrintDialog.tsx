@@ -5,6 +5,9 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { useStationStore } from '@/hooks/use-station-store';
+import { useFuelConfiguration } from '@/hooks/use-fuel-configuration';
+import { getSalesGallons, sumGallons, withRecordedGrades } from '@/utils/fuelGrades';
+import { formatCurrency, formatDate as formatPreferredDate, formatDateTime } from '@/utils/userPreferences';
 import { Printer, X, DollarSign, Fuel, TrendingUp, Receipt, Calculator, FileText, AlertCircle } from 'lucide-react';
 
 interface EnhancedSalesReport {
@@ -26,6 +29,7 @@ interface EnhancedSalesReport {
   regular_gallons: number;
   super_gallons: number;
   diesel_gallons: number;
+  fuel_gallons?: Record<string, number>;
   total_gallons: number;
   expenses_data: string;
   day_report_file_id: number;
@@ -60,6 +64,8 @@ const EnhancedSalesReportPrintDialog: React.FC<EnhancedSalesReportPrintDialogPro
   onOpenChange,
   report
 }) => {
+  const { configuration } = useFuelConfiguration(report?.station || '');
+
   if (!report) return null;
 
   // Use centralized station store for color functions
@@ -67,19 +73,8 @@ const EnhancedSalesReportPrintDialog: React.FC<EnhancedSalesReportPrintDialogPro
 
   const formatDate = (dateString: string) => {
     if (!dateString) return 'N/A';
-    return new Date(dateString).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount || 0);
+    const weekday = new Date(dateString).toLocaleDateString('en-US', { weekday: 'long' });
+    return `${weekday}, ${formatPreferredDate(dateString)}`;
   };
 
   const formatNumber = (num: number) => {
@@ -117,7 +112,9 @@ const EnhancedSalesReportPrintDialog: React.FC<EnhancedSalesReportPrintDialogPro
 
   // Calculate payment method totals
   const totalPaymentMethods = report.credit_card_amount + report.debit_card_amount + report.mobile_amount + report.cash_amount;
-  const totalFuelSales = report.regular_gallons + report.super_gallons + report.diesel_gallons;
+  const fuelGallons = getSalesGallons(report);
+  const fuelGrades = withRecordedGrades(configuration.grades, Object.keys(fuelGallons).filter((grade) => fuelGallons[grade]));
+  const totalFuelSales = sumGallons(fuelGallons);
 
   // Verification checks
   const isPaymentBalanced = Math.abs(totalPaymentMethods + report.grocery_sales - report.total_sales) <= 0.01;
@@ -443,18 +440,11 @@ const EnhancedSalesReportPrintDialog: React.FC<EnhancedSalesReportPrintDialogPro
                 <span class="section-title">Fuel & Store Sales</span>
               </div>
               <div class="compact-grid">
+                ${fuelGrades.map((grade) => `
                 <div class="data-card">
-                  <div class="data-label">Regular Gallons</div>
-                  <div class="data-value gallons">${formatNumber(report.regular_gallons)} gal</div>
-                </div>
-                <div class="data-card">
-                  <div class="data-label">Super Gallons</div>
-                  <div class="data-value gallons">${formatNumber(report.super_gallons)} gal</div>
-                </div>
-                <div class="data-card">
-                  <div class="data-label">Diesel Gallons</div>
-                  <div class="data-value gallons">${formatNumber(report.diesel_gallons)} gal</div>
-                </div>
+                  <div class="data-label">${grade.label} Gallons</div>
+                  <div class="data-value gallons">${formatNumber(fuelGallons[grade.grade])} gal</div>
+                </div>`).join('')}
                 <div class="data-card">
                   <div class="data-label">Grocery Sales</div>
                   <div class="data-value currency">${formatCurrency(report.grocery_sales)}</div>
@@ -543,7 +533,7 @@ const EnhancedSalesReportPrintDialog: React.FC<EnhancedSalesReportPrintDialogPro
           ` : ''}
 
           <div class="footer">
-            <div>Report ID: #${report.ID} | Generated: ${new Date().toLocaleString()} | User: #${report.created_by}</div>
+            <div>Report ID: #${report.ID} | Generated: ${formatDateTime(new Date())} | User: #${report.created_by}</div>
             <div style="font-style: italic;">DFS Manager Portal v2.0 - Official Business Document</div>
           </div>
         </body>
@@ -686,18 +676,12 @@ const EnhancedSalesReportPrintDialog: React.FC<EnhancedSalesReportPrintDialogPro
                 <CardTitle className="text-sm">Fuel Sales</CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Regular:</span>
-                  <span className="font-medium">{formatNumber(report.regular_gallons)} gal</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>Super:</span>
-                  <span className="font-medium">{formatNumber(report.super_gallons)} gal</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>Diesel:</span>
-                  <span className="font-medium">{formatNumber(report.diesel_gallons)} gal</span>
-                </div>
+                {fuelGrades.map((grade) =>
+                <div key={grade.grade} className="flex justify-between text-sm">
+                    <span>{grade.label}:</span>
+                    <span className="font-medium">{formatNumber(fuelGallons[grade.grade])} gal</span>
+                  </div>
+                )}
                 <Separator />
                 <div className="flex justify-between text-sm font-semibold">
                   <span>Total:</span>
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { DollarSign } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { fuelPriceService, FuelMarginReport } from '@/services/fuelPriceService';
+import { marginCentsPerGallon } from '@/utils/fuelMargins';
+import FuelMarginTrendChart from '@/components/FuelMarginTrendChart';
+
+interface FuelMarginTrendCardProps {
+  station: string;
+  days?: number;
+}
+
+const isoDate = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Fuel margin per gallon over the last few weeks for the dashboard
+ */
+const FuelMarginTrendCard: React.FC<FuelMarginTrendCardProps> = ({ station, days = 30 }) => {
+  const navigate = useNavigate();
+  const [report, setReport] = useState<FuelMarginReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const toDate = new Date();
+    const fromDate = new Date(toDate.getTime() - days * 24 * 60 * 60 * 1000);
+    setLoading(true);
+    fuelPriceService.getMarginReport(station, isoDate(fromDate), isoDate(toDate)).
+    then(setReport).
+    catch((error) => console.error('Error loading fuel margins:', error)).
+    finally(() => setLoading(false));
+  }, [station, days]);
+
+  const trend = report?.trend || [];
+  const totals = trend.reduce((sum, point) => ({
+    gallons: sum.gallons + point.gallons,
+    revenue: sum.revenue + point.revenue,
+    cost: sum.cost + point.cost
+  }), { gallons: 0, revenue: 0, cost: 0 });
+  const periodMargin = marginCentsPerGallon(totals.revenue, totals.cost, totals.gallons);
+  const latest = [...trend].reverse().find((point) => point.centsPerGallon !== null);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <DollarSign className="h-5 w-5" />
+          <h3 className="text-lg font-semibold">Fuel Margin</h3>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => navigate('/sales/fuel-prices')}>
+          Price Book
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div>
+          <p className="text-sm text-gray-600">Last {days} days</p>
+          <p className="text-2xl font-bold">{periodMargin === null ? '—' : `${periodMargin.toFixed(1)}¢/gal`}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Latest day</p>
+          <p className={`text-2xl font-bold ${(latest?.centsPerGallon || 0) < 0 ? 'text-red-600' : ''}`}>
+            {latest ? `${latest.centsPerGallon!.toFixed(1)}¢/gal` : '—'}
+          </p>
+        </div>
+      </div>
+      <FuelMarginTrendChart trend={trend} loading={loading} height={200} />
+    </Card>);
+
+};
+
+export default FuelMarginTrendCard;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { MarginTrendPoint } from '@/utils/fuelMargins';
+
+interface FuelMarginTrendChartProps {
+  trend: Array<Pick<MarginTrendPoint, 'date' | 'gallons' | 'centsPerGallon'>>;
+  loading?: boolean;
+  height?: number;
+}
+
+const formatDay = (date: string) =>
+new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const FuelMarginTrendChart: React.FC<FuelMarginTrendChartProps> = ({ trend, loading = false, height = 260 }) => {
+  if (loading) {
+    return <div className="bg-gray-100 rounded animate-pulse" style={{ height }}></div>;
+  }
+
+  if (trend.every((point) => point.centsPerGallon === null)) {
+    return (
+      <div className="flex items-center justify-center text-sm text-gray-500" style={{ height }}>
+        No margin yet — record pump prices and delivery costs to see the trend
+      </div>);
+
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={trend}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="date" tickFormatter={formatDay} />
+        <YAxis unit="¢" />
+        <Tooltip
+          labelFormatter={(date: string) => formatDay(date)}
+          formatter={(value: number, _name, item) => [
+          `${value.toFixed(1)}¢ on ${(item.payload.gallons as number).toLocaleString()} gal`,
+          'Margin']
+          } />
+        <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="4 4" />
+        <Line type="monotone" dataKey="centsPerGallon" stroke="#2563eb" strokeWidth={2} dot={false} connectNulls />
+      </LineChart>
+    </ResponsiveContainer>);
+
+};
+
+export default FuelMarginTrendChart;
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle } from
+'@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NumberInput } from '@/components/ui/number-input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { RefreshCcw } from 'lucide-react';
+import EnhancedFileUpload from '@/components/EnhancedFileUpload';
+import { licenseRenewalService, RenewableLicense, RenewalDocument } from '@/services/licenseRenewalService';
+import { RenewalInput, validateRenewalInput } from '@/utils/licenseRenewals';
+
+interface LicenseRenewalDialogProps {
+  license: (RenewableLicense & {license_name: string;}) | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onRenewed?: () => void;
+}
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+// Default the new term to one year after the current expiry
+const defaultInput = (license: RenewableLicense | null): RenewalInput => {
+  const currentExpiry = license?.expiry_date ? new Date(license.expiry_date) : new Date();
+  const newExpiry = new Date(currentExpiry);
+  newExpiry.setFullYear(newExpiry.getFullYear() + 1);
+  return {
+    newIssueDate: toDateInput(new Date()),
+    newExpiryDate: toDateInput(newExpiry),
+    renewalCost: 0,
+    paymentDate: toDateInput(new Date()),
+    paymentReference: '',
+    notes: ''
+  };
+};
+
+const LicenseRenewalDialog: React.FC<LicenseRenewalDialogProps> = ({ license, isOpen, onClose, onRenewed }) => {
+  const { user } = useAuth();
+  const [input, setInput] = useState<RenewalInput>(defaultInput(license));
+  const [certificate, setCertificate] = useState<RenewalDocument | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setInput(defaultInput(license));
+      setCertificate(null);
+    }
+  }, [isOpen, license]);
+
+  const updateInput = (field: keyof RenewalInput, value: string | number) => {
+    setInput((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleFileUpload = async (file: File) => {
+    try {
+      setUploading(true);
+      const { data, error } = await window.ezsite.apis.upload({
+        filename: `licenses/${license?.ID}/${Date.now()}_${file.name}`,
+        file
+      });
+      if (error) throw error;
+
+      setCertificate({ url: data as string, fileName: file.name });
+    } catch (error) {
+      console.error('Error uploading renewal certificate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to upload certificate",
+        variant: "destructive"
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRenew = async () => {
+    if (!license) return;
+
+    const validationError = validateRenewalInput(input, license.expiry_date);
+    if (validationError) {
+      toast({ title: "Invalid Renewal", description: validationError, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await licenseRenewalService.renewLicense(license, input, certificate, user?.Email || 'unknown');
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "❌ Renewal Failed", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "✅ License Renewed",
+      description: `${license.license_name} now expires on ${new Date(input.newExpiryDate).toLocaleDateString()}`
+    });
+    onRenewed?.();
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <RefreshCcw className="w-5 h-5" />
+            <span>Renew License</span>
+          </DialogTitle>
+          <DialogDescription>
+            {license?.license_name} — currently expires {license?.expiry_date ? new Date(license.expiry_date).toLocaleDateString() : 'N/A'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="renewal_issue_date">New Issue Date</Label>
+            <Input
+              id="renewal_issue_date"
+              type="date"
+              value={input.newIssueDate}
+              onChange={(e) => updateInput('newIssueDate', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="renewal_expiry_date">New Expiry Date *</Label>
+            <Input
+              id="renewal_expiry_date"
+              type="date"
+              value={input.newExpiryDate}
+              onChange={(e) => updateInput('newExpiryDate', e.target.value)}
+              required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="renewal_cost">Cost Paid ($)</Label>
+            <NumberInput
+              id="renewal_cost"
+              step="0.01"
+              min={0}
+              value={input.renewalCost}
+              onChange={(value) => updateInput('renewalCost', value || 0)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="renewal_payment_date">Payment Date</Label>
+            <Input
+              id="renewal_payment_date"
+              type="date"
+              value={input.paymentDate}
+              onChange={(e) => updateInput('paymentDate', e.target.value)} />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="renewal_payment_reference">Payment Reference</Label>
+            <Input
+              id="renewal_payment_reference"
+              value={input.paymentReference}
+              onChange={(e) => updateInput('paymentReference', e.target.value)}
+              placeholder="Check number, receipt or confirmation number" />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label>New Certificate</Label>
+            <EnhancedFileUpload
+              onFileSelect={handleFileUpload}
+              accept=".pdf,.doc,.docx,.jpg,.jpeg,.png,image/*"
+              label="Upload Renewed Certificate"
+              currentFile={certificate?.fileName}
+              maxSize={10}
+              disabled={uploading} />
+            <p className="text-xs text-gray-500">The previous certificate is kept as an earlier version.</p>
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="renewal_notes">Notes</Label>
+            <Textarea
+              id="renewal_notes"
+              value={input.notes}
+              onChange={(e) => updateInput('notes', e.target.value)}
+              rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleRenew} disabled={saving || uploading}>
+            <RefreshCcw className="w-4 h-4 mr-2" />
+            {saving ? 'Renewing...' : 'Renew License'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>);
+
+};
+
+export default LicenseRenewalDialog;
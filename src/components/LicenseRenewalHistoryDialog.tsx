@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle } from
+'@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { History, FileIcon, ExternalLink } from 'lucide-react';
+import { licenseRenewalService } from '@/services/licenseRenewalService';
+import type { LicenseDocumentRow } from '@/services/supabase/tableRegistry';
+import type { RenewalTimelineEntry } from '@/utils/licenseRenewals';
+
+interface LicenseRenewalHistoryDialogProps {
+  license: {ID: number;license_name: string;} | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleDateString() : 'N/A';
+
+const formatCurrency = (value: number) =>
+new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(Number(value) || 0);
+
+const LicenseRenewalHistoryDialog: React.FC<LicenseRenewalHistoryDialogProps> = ({ license, isOpen, onClose }) => {
+  const [timeline, setTimeline] = useState<RenewalTimelineEntry[]>([]);
+  const [documents, setDocuments] = useState<LicenseDocumentRow[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && license) {
+      loadHistory(license.ID);
+    }
+  }, [isOpen, license]);
+
+  const loadHistory = async (licenseId: number) => {
+    try {
+      setLoading(true);
+      const result = await licenseRenewalService.getTimeline(licenseId);
+      setTimeline(result.timeline);
+      setDocuments(result.documents);
+    } catch (error) {
+      console.error('Error loading renewal history:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load renewal history",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <History className="w-5 h-5" />
+            <span>Renewal History</span>
+          </DialogTitle>
+          <DialogDescription>{license?.license_name}</DialogDescription>
+        </DialogHeader>
+
+        {loading ?
+        <div className="space-y-3">
+            {[...Array(3)].map((_, i) =>
+          <div key={i} className="h-14 bg-gray-100 rounded animate-pulse"></div>
+          )}
+          </div> :
+
+        <div className="space-y-6">
+            {timeline.length === 0 ?
+          <p className="text-sm text-gray-500 text-center py-4">This license has not been renewed yet.</p> :
+
+          <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+                {timeline.map(({ renewal, document }) =>
+            <li key={renewal.id} className="ml-4">
+                    <div className="absolute w-3 h-3 bg-blue-500 rounded-full -left-1.5 mt-1.5"></div>
+                    <p className="text-sm text-gray-500">Renewed {formatDate(renewal.renewed_at)} by {renewal.renewed_by || 'unknown'}</p>
+                    <p className="font-medium">
+                      Expiry {formatDate(renewal.previous_expiry_date)} → {formatDate(renewal.new_expiry_date)}
+                    </p>
+                    <p className="text-sm">
+                      {formatCurrency(renewal.renewal_cost)} paid {formatDate(renewal.payment_date)}
+                      {renewal.payment_reference ? ` (ref ${renewal.payment_reference})` : ''}
+                    </p>
+                    {document &&
+              <p className="text-sm flex items-center space-x-1 text-blue-700">
+                        <FileIcon className="w-4 h-4" />
+                        <span>Certificate v{document.version_number}: {document.file_name}</span>
+                      </p>
+              }
+                    {renewal.notes && <p className="text-sm text-gray-600 mt-1">{renewal.notes}</p>}
+                  </li>
+            )}
+              </ol>
+          }
+
+            <div>
+              <h4 className="font-medium mb-2">Certificate Versions</h4>
+              {documents.length === 0 ?
+            <p className="text-sm text-gray-500">No certificate versions recorded.</p> :
+
+            <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Version</TableHead>
+                      <TableHead>File</TableHead>
+                      <TableHead>Valid</TableHead>
+                      <TableHead>Uploaded</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {documents.map((document) =>
+                <TableRow key={document.id}>
+                        <TableCell>
+                          v{document.version_number}
+                          {document.is_current && <Badge className="ml-2 bg-green-500 text-white">Current</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          {document.document_url ?
+                    <a
+                      href={document.document_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center space-x-1 text-blue-600 hover:underline">
+                              <span>{document.file_name}</span>
+                              <ExternalLink className="w-3 h-3" />
+                            </a> :
+
+                    <span>{document.file_name || `Document ID: ${document.document_file_id}`}</span>
+                    }
+                        </TableCell>
+                        <TableCell>{formatDate(document.valid_from)} – {formatDate(document.valid_until)}</TableCell>
+                        <TableCell>{formatDate(document.uploaded_at)}</TableCell>
+                      </TableRow>
+                )}
+                  </TableBody>
+                </Table>
+            }
+            </div>
+          </div>
+        }
+      </DialogContent>
+    </Dialog>);
+
+};
+
+export default LicenseRenewalHistoryDialog;
@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Package } from 'lucide-react';
+import { purchaseOrderService, OrderLineItem } from '@/services/purchaseOrderService';
+
+interface OrderLineItemsTableProps {
+  orderId: number;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount || 0);
+};
+
+const OrderLineItemsTable: React.FC<OrderLineItemsTableProps> = ({ orderId }) => {
+  const [lines, setLines] = useState<OrderLineItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadLines = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const result = await purchaseOrderService.getOrderLines(orderId);
+        if (!cancelled) setLines(result);
+      } catch (err) {
+        console.error('Error loading order lines:', err);
+        if (!cancelled) setError('Failed to load order lines');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadLines();
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId]);
+
+  if (loading) {
+    return <div className="h-16 bg-gray-100 rounded animate-pulse"></div>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (lines.length === 0) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-gray-500">
+        <Package className="w-4 h-4" />
+        <span>No line items recorded for this order</span>
+      </div>);
+
+  }
+
+  return (
+    <div className="border rounded-lg overflow-hidden w-full">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>#</TableHead>
+            <TableHead>Product</TableHead>
+            <TableHead>Unit Type</TableHead>
+            <TableHead className="text-right">Qty</TableHead>
+            <TableHead className="text-right">Unit Cost</TableHead>
+            <TableHead className="text-right">Subtotal</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lines.map((line) =>
+          <TableRow key={line.id ?? line.line_number}>
+              <TableCell>{line.line_number}</TableCell>
+              <TableCell>
+                <p className="font-medium">{line.product_name}</p>
+                <p className="text-xs text-gray-500">{line.product_code || `Product #${line.product_id}`}</p>
+              </TableCell>
+              <TableCell>
+                <Badge variant="outline">
+                  {line.unit_type}
+                  {line.unit_type === 'cases' && line.units_per_case > 1 ? ` of ${line.units_per_case}` : ''}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-right">{line.quantity}</TableCell>
+              <TableCell className="text-right">{formatCurrency(line.unit_cost)}</TableCell>
+              <TableCell className="text-right font-medium">{formatCurrency(line.subtotal)}</TableCell>
+            </TableRow>
+          )}
+          <TableRow>
+            <TableCell colSpan={5} className="text-right font-semibold">Total</TableCell>
+            <TableCell className="text-right font-bold">
+              {formatCurrency(purchaseOrderService.calculateTotal(lines))}
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>);
+
+};
+
+export default OrderLineItemsTable;
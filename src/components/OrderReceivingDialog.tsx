@@ -0,0 +1,347 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle } from
+'@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NumberInput } from '@/components/ui/number-input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { PackageCheck, ScanLine, CheckCheck } from 'lucide-react';
+import { purchaseOrderService, OrderLineItem } from '@/services/purchaseOrderService';
+import { orderReceivingService, OrderReceipt, PRODUCTS_TABLE_ID } from '@/services/orderReceivingService';
+import { getReceiptQuantityError } from '@/utils/purchaseOrders';
+
+interface OrderReceivingDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orderId: number;
+  orderNumber: string;
+  onReceived?: () => void;
+}
+
+interface ProductBarcodes {
+  id: number;
+  bar_code_case: string;
+  bar_code_unit: string;
+}
+
+interface ReceiptEntry {
+  quantity: number;
+  unitCost: number;
+}
+
+const OrderReceivingDialog: React.FC<OrderReceivingDialogProps> = ({
+  isOpen,
+  onClose,
+  orderId,
+  orderNumber,
+  onReceived
+}) => {
+  const [lines, setLines] = useState<OrderLineItem[]>([]);
+  const [barcodes, setBarcodes] = useState<ProductBarcodes[]>([]);
+  const [entries, setEntries] = useState<Record<number, ReceiptEntry>>({});
+  const [receipts, setReceipts] = useState<OrderReceipt[]>([]);
+  const [scanValue, setScanValue] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const { userProfile } = useAuth();
+
+  useEffect(() => {
+    if (isOpen && orderId) {
+      loadReceivingData();
+    }
+  }, [isOpen, orderId]);
+
+  const loadReceivingData = async () => {
+    try {
+      setLoading(true);
+      const [orderLines, orderReceipts] = await Promise.all([
+      purchaseOrderService.getOrderLines(orderId),
+      orderReceivingService.getReceipts(orderId)]
+      );
+
+      setLines(orderLines);
+      setReceipts(orderReceipts);
+      setNotes('');
+      setEntries(Object.fromEntries(orderLines.map((line) => [
+      line.id,
+      { quantity: 0, unitCost: line.unit_cost }]
+      )));
+
+      const productIds = orderLines.map((line) => line.product_id);
+      if (productIds.length > 0) {
+        const { data, error } = await window.ezsite.apis.tablePage(PRODUCTS_TABLE_ID, {
+          PageNo: 1,
+          PageSize: productIds.length,
+          Filters: [{ name: 'id', op: 'In', value: productIds }]
+        });
+        if (error) throw error;
+        setBarcodes(data?.List || []);
+      }
+    } catch (error) {
+      console.error('Error loading order for receiving:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load order lines for receiving",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+      setTimeout(() => scanInputRef.current?.focus(), 100);
+    }
+  };
+
+  const updateEntry = (lineId: number, changes: Partial<ReceiptEntry>) => {
+    setEntries((prev) => ({
+      ...prev,
+      [lineId]: { ...prev[lineId], ...changes }
+    }));
+  };
+
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = scanValue.trim();
+    if (!code) return;
+
+    const product = barcodes.find((p) => p.bar_code_case === code || p.bar_code_unit === code);
+    const line = product && lines.find((l) => l.product_id === product.id && orderReceivingService.getRemainingQuantity(l) > 0);
+
+    if (!product || !line) {
+      toast({
+        title: "Not on this order",
+        description: `Barcode ${code} does not match an open line on order #${orderNumber}`,
+        variant: "destructive"
+      });
+      setScanValue('');
+      return;
+    }
+
+    // A case barcode scanned against a line ordered in pieces receives a full case
+    const step = product.bar_code_case === code && line.unit_type !== 'cases' ? line.units_per_case || 1 : 1;
+    const current = entries[line.id!]?.quantity || 0;
+    updateEntry(line.id!, { quantity: current + step });
+    setScanValue('');
+  };
+
+  const receiveAllRemaining = () => {
+    setEntries((prev) => {
+      const next = { ...prev };
+      lines.forEach((line) => {
+        next[line.id!] = { ...next[line.id!], quantity: orderReceivingService.getRemainingQuantity(line) };
+      });
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    const inputs = lines.
+    filter((line) => (entries[line.id!]?.quantity || 0) > 0).
+    map((line) => ({
+      line,
+      quantityReceived: entries[line.id!].quantity,
+      unitCost: entries[line.id!].unitCost
+    }));
+
+    if (inputs.length === 0) {
+      toast({
+        title: "Nothing to receive",
+        description: "Enter or scan the quantities received before posting.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const overReceived = inputs.
+    map((input) => getReceiptQuantityError(input.line, input.quantityReceived)).
+    find(Boolean);
+    if (overReceived) {
+      toast({
+        title: "Quantity exceeds order",
+        description: overReceived,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const result = await orderReceivingService.receiveOrder(orderId, inputs, userProfile?.user_id || null, notes);
+
+      if (result.errors.length > 0) {
+        console.error('Receiving errors:', result.errors);
+        toast({
+          title: "Receiving completed with errors",
+          description: `${result.linesReceived} line(s) posted. ${result.errors.length} error(s): ${result.errors[0]}`,
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Order received",
+          description: `${result.receiptNumber}: ${result.unitsAdded} units added to stock. Order is now ${result.orderStatus}.`
+        });
+      }
+
+      onReceived?.();
+      onClose();
+    } catch (error) {
+      console.error('Error receiving order:', error);
+      toast({
+        title: "Error",
+        description: "Failed to post received quantities",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <PackageCheck className="w-5 h-5" />
+            <span>Receive Order #{orderNumber}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Scan or enter the quantities received. Anything not received stays on backorder.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ?
+        <div className="space-y-4">
+            {[...Array(3)].map((_, i) =>
+          <div key={i} className="h-12 bg-gray-100 rounded animate-pulse"></div>
+          )}
+          </div> :
+
+        <div className="space-y-4">
+            <form onSubmit={handleScan} className="flex items-center space-x-2">
+              <div className="relative flex-1">
+                <ScanLine className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                <Input
+                ref={scanInputRef}
+                value={scanValue}
+                onChange={(e) => setScanValue(e.target.value)}
+                placeholder="Scan or type a barcode and press Enter"
+                className="pl-10" />
+              </div>
+              <Button type="submit" variant="outline">Add</Button>
+              <Button type="button" variant="outline" onClick={receiveAllRemaining}>
+                <CheckCheck className="w-4 h-4 mr-2" />
+                Receive All
+              </Button>
+            </form>
+
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Ordered</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Backorder</TableHead>
+                    <TableHead>Receive Now</TableHead>
+                    <TableHead>Unit Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => {
+                  const remaining = orderReceivingService.getRemainingQuantity(line);
+                  const entry = entries[line.id!] || { quantity: 0, unitCost: line.unit_cost };
+                  const backorder = Math.max(0, remaining - entry.quantity);
+                  return (
+                    <TableRow key={line.id}>
+                        <TableCell>
+                          <p className="font-medium">{line.product_name}</p>
+                          <p className="text-xs text-gray-500">{line.unit_type}</p>
+                        </TableCell>
+                        <TableCell className="text-right">{line.quantity}</TableCell>
+                        <TableCell className="text-right">{line.quantity_received || 0}</TableCell>
+                        <TableCell className="text-right">
+                          {backorder > 0 ?
+                        <Badge className="bg-amber-500 text-white">{backorder}</Badge> :
+                        <Badge className="bg-green-500 text-white">0</Badge>
+                        }
+                        </TableCell>
+                        <TableCell>
+                          <NumberInput
+                          value={entry.quantity}
+                          onChange={(value) => updateEntry(line.id!, { quantity: value })}
+                          min={0}
+                          max={remaining}
+                          disabled={remaining <= 0}
+                          className="w-24" />
+                        </TableCell>
+                        <TableCell>
+                          <NumberInput
+                          value={entry.unitCost}
+                          onChange={(value) => updateEntry(line.id!, { unitCost: value })}
+                          min={0}
+                          step="0.01"
+                          disabled={remaining <= 0}
+                          className="w-28" />
+                        </TableCell>
+                      </TableRow>);
+
+                })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="receiving-notes">Receiving Notes</Label>
+              <Input
+              id="receiving-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Invoice number, damaged items, driver notes..." />
+            </div>
+
+            {receipts.length > 0 &&
+          <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">Previous Receipts</p>
+                <div className="space-y-1">
+                  {receipts.map((receipt) => {
+                const line = lines.find((l) => l.id === receipt.order_item_id);
+                return (
+                  <div key={receipt.id} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded">
+                        <span>
+                          {receipt.receipt_number} • {line?.product_name || `Product #${receipt.product_id}`}
+                        </span>
+                        <span className="text-gray-600">
+                          +{receipt.quantity_received} ({receipt.units_added} units) • {new Date(receipt.received_at).toLocaleString()}
+                        </span>
+                      </div>);
+
+              })}
+                </div>
+              </div>
+          }
+          </div>
+        }
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving || loading}>
+            <PackageCheck className="w-4 h-4 mr-2" />
+            {saving ? 'Posting...' : 'Post Receipt'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>);
+
+};
+
+export default OrderReceivingDialog;
@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { DollarSign, RefreshCw, TrendingDown, TrendingUp } from 'lucide-react';
+import { format } from 'date-fns';
+import { productHistoryService } from '@/services/productHistoryService';
+import { PRICE_FIELDS, PriceChange, summarizePriceChanges } from '@/utils/productHistory';
+
+interface PriceChangeReportProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  price: 'Price',
+  case_price: 'Case Price',
+  unit_price: 'Unit Price',
+  retail_price: 'Retail Price'
+};
+
+const formatPrice = (price: number | null) => price === null ? '-' : `$${price.toFixed(2)}`;
+
+const PriceChangeReport: React.FC<PriceChangeReportProps> = ({ isOpen, onClose }) => {
+  const [changes, setChanges] = useState<PriceChange[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [days, setDays] = useState('30');
+  const [field, setField] = useState('all');
+
+  useEffect(() => {
+    if (isOpen) {
+      loadChanges();
+    }
+  }, [isOpen, days, field]);
+
+  const loadChanges = async () => {
+    setLoading(true);
+    try {
+      const to = new Date();
+      const from = new Date(to.getTime() - parseInt(days) * 24 * 60 * 60 * 1000);
+      setChanges(await productHistoryService.getPriceChanges(from, to, field === 'all' ? PRICE_FIELDS : [field]));
+    } catch (error) {
+      console.error('Error loading price changes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load price changes",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const summary = useMemo(() => summarizePriceChanges(changes), [changes]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="flex items-center space-x-2">
+            <DollarSign className="w-5 h-5" />
+            <span>Price Change Report</span>
+          </DialogTitle>
+          <DialogDescription>
+            Price and cost changes across all products
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2 flex-shrink-0">
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="365">Last 12 months</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={field} onValueChange={setField}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All prices</SelectItem>
+              {PRICE_FIELDS.map((priceField) =>
+              <SelectItem key={priceField} value={priceField}>{FIELD_LABELS[priceField]}</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={loadChanges} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 flex-shrink-0">
+          <Card>
+            <CardContent className="pt-4 text-center">
+              <div className="text-2xl font-bold text-blue-600">{summary.totalChanges}</div>
+              <div className="text-sm text-gray-500">Changes ({summary.productsAffected} products)</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-4 text-center">
+              <div className="text-2xl font-bold text-red-600">{summary.increases}</div>
+              <div className="text-sm text-gray-500">Increases</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-4 text-center">
+              <div className="text-2xl font-bold text-green-600">{summary.decreases}</div>
+              <div className="text-sm text-gray-500">Decreases</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-4 text-center">
+              <div className="text-2xl font-bold text-gray-700">{summary.averageChangePercent.toFixed(2)}%</div>
+              <div className="text-sm text-gray-500">Average Change</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex-1 overflow-auto border rounded-lg">
+          {loading ?
+          <div className="flex items-center justify-center py-12 text-gray-500">
+              <RefreshCw className="w-5 h-5 mr-2 animate-spin" />
+              Loading price changes...
+            </div> :
+          changes.length === 0 ?
+          <div className="text-center py-12 text-gray-500">
+              No price changes in this period
+            </div> :
+
+          <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Field</TableHead>
+                  <TableHead className="text-right">Old</TableHead>
+                  <TableHead className="text-right">New</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead>Changed By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changes.map((change) =>
+              <TableRow key={change.id}>
+                    <TableCell className="text-sm text-gray-600 whitespace-nowrap">
+                      {format(new Date(change.changedAt), 'MMM dd, yyyy h:mm aa')}
+                    </TableCell>
+                    <TableCell className="font-medium">{change.productName}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{FIELD_LABELS[change.field] || change.field}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatPrice(change.oldPrice)}</TableCell>
+                    <TableCell className="text-right">{formatPrice(change.newPrice)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {change.change === null ? '-' :
+                  <span className={`inline-flex items-center ${change.change > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {change.change > 0 ?
+                    <TrendingUp className="w-4 h-4 mr-1" /> :
+                    <TrendingDown className="w-4 h-4 mr-1" />}
+                          {change.change > 0 ? '+' : ''}{change.change.toFixed(2)}
+                          {change.changePercent !== null && ` (${change.changePercent > 0 ? '+' : ''}${change.changePercent.toFixed(2)}%)`}
+                        </span>
+                  }
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{change.changedBy}</TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          }
+        </div>
+      </DialogContent>
+    </Dialog>);
+
+};
+
+export default PriceChangeReport;
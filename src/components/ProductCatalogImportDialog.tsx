@@ -0,0 +1,412 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { ArrowRight, CheckCircle, Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { productImportService, ProductImportResult } from '@/services/productImportService';
+import { readSpreadsheetFile } from '@/utils/spreadsheet';
+import {
+  buildImportErrorReport,
+  ColumnMapping,
+  ImportExistingProduct,
+  ImportRowError,
+  planProductImport,
+  PRODUCT_IMPORT_FIELDS,
+  ProductImportPlan,
+  suggestColumnMapping } from
+'@/utils/productImport';
+
+interface ProductCatalogImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after an import has created or updated products */
+  onImported?: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'importing' | 'done';
+
+const FIELD_LABELS: Record<string, string> = {
+  ...Object.fromEntries(PRODUCT_IMPORT_FIELDS.map(({ field, label }) => [field, label])),
+  unit_price: 'Unit Price'
+};
+
+const PRICE_FIELDS = ['case_price', 'unit_price', 'retail_price'];
+
+const formatValue = (field: string, value: string | number | null | undefined) => {
+  if (value === null || value === undefined || value === '') return '-';
+  return PRICE_FIELDS.includes(field) ? `$${Number(value).toFixed(2)}` : String(value);
+};
+
+const ProductCatalogImportDialog: React.FC<ProductCatalogImportDialogProps> = ({ isOpen, onClose, onImported }) => {
+  const { userProfile } = useAuth();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [loadingFile, setLoadingFile] = useState(false);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [existingProducts, setExistingProducts] = useState<ImportExistingProduct[]>([]);
+  const [plan, setPlan] = useState<ProductImportPlan | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(null);
+    setPlan(null);
+    setProgress({ done: 0, total: 0 });
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    if (step === 'importing') return;
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setLoadingFile(true);
+    try {
+      const [rows, existing] = await Promise.all([
+      readSpreadsheetFile(file),
+      productImportService.getExistingProducts()]
+      );
+      if (rows.length < 2) {
+        throw new Error('The file needs a header row and at least one product row');
+      }
+      setFileName(file.name);
+      setHeaders(rows[0].map((header) => header.trim()));
+      setDataRows(rows.slice(1));
+      setMapping(suggestColumnMapping(rows[0]));
+      setExistingProducts(existing);
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        variant: "destructive",
+        title: "Could Not Read File",
+        description: error instanceof Error ? error.message : "Failed to read the file."
+      });
+    } finally {
+      setLoadingFile(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleDryRun = () => {
+    if (!mapping) return;
+    if (mapping.bar_code_unit === null && mapping.product_name === null) {
+      toast({
+        variant: "destructive",
+        title: "Mapping Required",
+        description: "Map at least the barcode or product name column."
+      });
+      return;
+    }
+    setPlan(planProductImport(dataRows, mapping, existingProducts));
+    setStep('preview');
+  };
+
+  const handleCommit = async () => {
+    if (!plan) return;
+    setStep('importing');
+    try {
+      const importResult = await productImportService.commitImport(plan, {
+        createdBy: userProfile?.user_id,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+      setResult(importResult);
+      setStep('done');
+      if (importResult.created + importResult.updated > 0) {
+        onImported?.();
+      }
+      toast({
+        title: "Import Complete",
+        description: `${importResult.created} created, ${importResult.updated} updated, ${importResult.errors.length} rows not imported.`
+      });
+    } catch (error) {
+      console.error('Product import failed:', error);
+      toast({
+        variant: "destructive",
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Failed to import products."
+      });
+      setStep('preview');
+    }
+  };
+
+  const downloadErrorReport = (errors: ImportRowError[]) => {
+    const blob = new Blob([buildImportErrorReport(errors)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName.replace(/\.[^.]+$/, '') || 'product_import'}_errors.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const renderErrors = (errors: ImportRowError[]) =>
+  errors.length === 0 ?
+  <p className="text-sm text-gray-500 py-6 text-center">No errors</p> :
+
+  <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Row</TableHead>
+            <TableHead>Product</TableHead>
+            <TableHead>Barcode</TableHead>
+            <TableHead>Error</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {errors.map((error) =>
+      <TableRow key={`${error.rowNumber}-${error.message}`}>
+              <TableCell>{error.rowNumber}</TableCell>
+              <TableCell>{error.productName || '-'}</TableCell>
+              <TableCell className="font-mono text-xs">{error.barcode || '-'}</TableCell>
+              <TableCell className="text-red-600 text-sm">{error.message}</TableCell>
+            </TableRow>
+      )}
+        </TableBody>
+      </Table>;
+
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="flex items-center space-x-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            <span>Import Product Catalog</span>
+          </DialogTitle>
+          <DialogDescription>
+            Load a vendor price list from CSV or Excel. Rows are matched to existing products by barcode;
+            matched products keep their names and price changes are recorded in product history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto space-y-4">
+          {step === 'upload' &&
+          <div className="border-2 border-dashed rounded-lg p-8 text-center space-y-4">
+              {loadingFile ?
+            <Loader2 className="w-10 h-10 text-gray-400 mx-auto animate-spin" /> :
+            <Upload className="w-10 h-10 text-gray-400 mx-auto" />}
+              <div>
+                <Label htmlFor="catalog-file" className="text-base">Choose a .csv or .xlsx file</Label>
+                <p className="text-sm text-gray-500 mt-1">The first row must contain the column headers</p>
+              </div>
+              <Input
+              id="catalog-file"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileChange}
+              disabled={loadingFile}
+              className="max-w-sm mx-auto" />
+            </div>
+          }
+
+          {step === 'mapping' && mapping &&
+          <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                <span className="font-medium">{fileName}</span>: {dataRows.length} rows. Choose the column for each product field.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product Field</TableHead>
+                    <TableHead>File Column</TableHead>
+                    <TableHead>First Row</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {PRODUCT_IMPORT_FIELDS.map(({ field, label }) =>
+                <TableRow key={field}>
+                      <TableCell className="font-medium">{label}</TableCell>
+                      <TableCell>
+                        <Select
+                      value={mapping[field] === null ? 'none' : String(mapping[field])}
+                      onValueChange={(value) => setMapping({ ...mapping, [field]: value === 'none' ? null : parseInt(value) })}>
+                          <SelectTrigger className="w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Do not import</SelectItem>
+                            {headers.map((header, index) =>
+                        <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                        )}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-500">
+                        {mapping[field] === null ? '-' : dataRows[0]?.[mapping[field]!] || '-'}
+                      </TableCell>
+                    </TableRow>
+                )}
+                </TableBody>
+              </Table>
+            </div>
+          }
+
+          {step === 'preview' && plan &&
+          <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Badge className="bg-green-100 text-green-800">{plan.creates.length} new</Badge>
+                <Badge className="bg-blue-100 text-blue-800">{plan.updates.length} updates</Badge>
+                <Badge variant="secondary">{plan.unchanged} unchanged</Badge>
+                <Badge className="bg-red-100 text-red-800">{plan.errors.length} errors</Badge>
+              </div>
+              <p className="text-sm text-gray-600">
+                This is a dry run. Nothing has been saved yet.
+              </p>
+              <Tabs defaultValue={plan.updates.length > 0 ? 'updates' : plan.creates.length > 0 ? 'creates' : 'errors'}>
+                <TabsList>
+                  <TabsTrigger value="updates">Updates ({plan.updates.length})</TabsTrigger>
+                  <TabsTrigger value="creates">New Products ({plan.creates.length})</TabsTrigger>
+                  <TabsTrigger value="errors">Errors ({plan.errors.length})</TabsTrigger>
+                </TabsList>
+                <TabsContent value="updates">
+                  {plan.updates.length === 0 ?
+                <p className="text-sm text-gray-500 py-6 text-center">No existing products change</p> :
+
+                <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Row</TableHead>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Changes</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {plan.updates.map((update) =>
+                    <TableRow key={update.rowNumber}>
+                            <TableCell>{update.rowNumber}</TableCell>
+                            <TableCell className="font-medium">{update.productName}</TableCell>
+                            <TableCell>
+                              <div className="space-y-1">
+                                {update.changes.map((change) =>
+                          <div key={change.field} className="flex items-center space-x-2 text-sm">
+                                    <span className="text-gray-500 w-28">{FIELD_LABELS[change.field] || change.field}</span>
+                                    <span className="text-red-700">{formatValue(change.field, change.oldValue)}</span>
+                                    <ArrowRight className="w-3 h-3 text-gray-400" />
+                                    <span className="text-green-700">{formatValue(change.field, change.newValue)}</span>
+                                  </div>
+                          )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                    )}
+                      </TableBody>
+                    </Table>
+                }
+                </TabsContent>
+                <TabsContent value="creates">
+                  {plan.creates.length === 0 ?
+                <p className="text-sm text-gray-500 py-6 text-center">No new products</p> :
+
+                <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Row</TableHead>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Barcode</TableHead>
+                          <TableHead className="text-right">Case Price</TableHead>
+                          <TableHead className="text-right">Units</TableHead>
+                          <TableHead className="text-right">Retail Price</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {plan.creates.map((create) =>
+                    <TableRow key={create.rowNumber}>
+                            <TableCell>{create.rowNumber}</TableCell>
+                            <TableCell className="font-medium">{create.values.product_name}</TableCell>
+                            <TableCell className="font-mono text-xs">{create.values.bar_code_unit || '-'}</TableCell>
+                            <TableCell className="text-right">{formatValue('case_price', create.values.case_price)}</TableCell>
+                            <TableCell className="text-right">{formatValue('unit_per_case', create.values.unit_per_case)}</TableCell>
+                            <TableCell className="text-right">{formatValue('retail_price', create.values.retail_price)}</TableCell>
+                          </TableRow>
+                    )}
+                      </TableBody>
+                    </Table>
+                }
+                </TabsContent>
+                <TabsContent value="errors">{renderErrors(plan.errors)}</TabsContent>
+              </Tabs>
+            </div>
+          }
+
+          {step === 'importing' &&
+          <div className="py-8 space-y-4">
+              <div className="flex items-center justify-center space-x-2 text-gray-600">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                <span>Importing {progress.done} of {progress.total} products...</span>
+              </div>
+              <Progress value={progress.total > 0 ? progress.done / progress.total * 100 : 0} />
+            </div>
+          }
+
+          {step === 'done' && result &&
+          <div className="space-y-4">
+              <div className="flex items-center space-x-2 text-green-700">
+                <CheckCircle className="w-5 h-5" />
+                <span>
+                  {result.created} products created and {result.updated} updated.
+                  {result.errors.length > 0 && ` ${result.errors.length} rows were not imported.`}
+                </span>
+              </div>
+              {result.errors.length > 0 && renderErrors(result.errors)}
+            </div>
+          }
+        </div>
+
+        <div className="flex justify-between pt-4 border-t flex-shrink-0">
+          <div>
+            {step === 'mapping' &&
+            <Button variant="outline" onClick={reset}>Choose Another File</Button>
+            }
+            {step === 'preview' &&
+            <Button variant="outline" onClick={() => setStep('mapping')}>Back to Mapping</Button>
+            }
+          </div>
+          <div className="flex space-x-2">
+            {(step === 'preview' && plan?.errors.length || step === 'done' && result?.errors.length) ?
+            <Button variant="outline" onClick={() => downloadErrorReport(step === 'done' ? result!.errors : plan!.errors)}>
+                <Download className="w-4 h-4 mr-2" />
+                Error Report
+              </Button> :
+            null}
+            {step === 'mapping' &&
+            <Button onClick={handleDryRun}>Run Dry Run</Button>
+            }
+            {step === 'preview' && plan &&
+            <Button
+              onClick={handleCommit}
+              disabled={plan.creates.length + plan.updates.length === 0}
+              className="bg-brand-600 hover:bg-brand-700 text-white">
+                Import {plan.creates.length + plan.updates.length} Products
+              </Button>
+            }
+            {step !== 'importing' &&
+            <Button variant="outline" onClick={handleClose}>{step === 'done' ? 'Close' : 'Cancel'}</Button>
+            }
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>);
+
+};
+
+export default ProductCatalogImportDialog;
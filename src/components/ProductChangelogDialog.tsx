@@ -8,18 +8,9 @@ import { Separator } from '@/components/ui/separator';
 import { toast } from '@/hooks/use-toast';
 import { FileText, Calendar, User, Clock, TrendingUp, X, RefreshCw } from 'lucide-react';
 import { format } from 'date-fns';
-
-interface ChangelogEntry {
-  ID: number;
-  product_id: number;
-  field_name: string;
-  old_value: string;
-  new_value: string;
-  change_timestamp: string;
-  changed_by: number;
-  change_type: string;
-  change_summary: string;
-}
+import { productHistoryService } from '@/services/productHistoryService';
+import { changedByLabel, groupChangesByDay, PRICE_FIELDS } from '@/utils/productHistory';
+import type { ProductLogRow } from '@/services/supabase/tableRegistry';
 
 interface ProductChangelogDialogProps {
   isOpen: boolean;
@@ -34,9 +25,8 @@ const ProductChangelogDialog: React.FC<ProductChangelogDialogProps> = ({
   productId,
   productName
 }) => {
-  const [changes, setChanges] = useState<ChangelogEntry[]>([]);
+  const [changes, setChanges] = useState<ProductLogRow[]>([]);
   const [loading, setLoading] = useState(false);
-  const [userNames, setUserNames] = useState<{[key: number]: string;}>({});
 
   useEffect(() => {
     if (isOpen && productId) {
@@ -47,26 +37,7 @@ const ProductChangelogDialog: React.FC<ProductChangelogDialogProps> = ({
   const fetchChangelog = async () => {
     setLoading(true);
     try {
-      // Fetch changelog entries for this product
-      const { data, error } = await window.ezsite.apis.tablePage('24010', {
-        PageNo: 1,
-        PageSize: 100,
-        OrderByField: 'change_timestamp',
-        IsAsc: false,
-        Filters: [
-        { name: 'product_id', op: 'Equal', value: productId }]
-
-      });
-
-      if (error) throw error;
-
-      const changelogEntries = data?.List || [];
-      setChanges(changelogEntries);
-
-      // Fetch user names for all users who made changes
-      const userIds = [...new Set(changelogEntries.map((change: ChangelogEntry) => change.changed_by).filter(id => typeof id === 'number'))];
-      await fetchUserNames(userIds);
-
+      setChanges(await productHistoryService.getProductHistory(productId));
     } catch (error) {
       console.error('Error fetching changelog:', error);
       toast({
@@ -79,40 +50,6 @@ const ProductChangelogDialog: React.FC<ProductChangelogDialogProps> = ({
     }
   };
 
-  const fetchUserNames = async (userIds: number[]) => {
-    try {
-      const names: {[key: number]: string;} = {};
-
-      // Fetch user profiles to get names
-      for (const userId of userIds) {
-        try {
-          const { data, error } = await window.ezsite.apis.tablePage('11725', {
-            PageNo: 1,
-            PageSize: 1,
-            OrderByField: 'id',
-            IsAsc: true,
-            Filters: [
-            { name: 'user_id', op: 'Equal', value: userId }]
-
-          });
-
-          if (!error && data?.List?.[0]) {
-            const profile = data.List[0];
-            names[userId] = `${profile.employee_id || 'Unknown'} (ID: ${userId})`;
-          } else {
-            names[userId] = `User ${userId}`;
-          }
-        } catch (error) {
-          names[userId] = `User ${userId}`;
-        }
-      }
-
-      setUserNames(names);
-    } catch (error) {
-      console.error('Error fetching user names:', error);
-    }
-  };
-
   const formatFieldName = (fieldName: string) => {
     const fieldMap: {[key: string]: string;} = {
       'last_shopping_date': 'Last Shopping Date',
@@ -129,7 +66,10 @@ const ProductChangelogDialog: React.FC<ProductChangelogDialogProps> = ({
       'department': 'Department',
       'description': 'Description',
       'quantity_in_stock': 'Stock Quantity',
-      'minimum_stock': 'Minimum Stock'
+      'minimum_stock': 'Minimum Stock',
+      'bar_code_case': 'Case Barcode',
+      'bar_code_unit': 'Unit Barcode',
+      'price': 'Price'
     };
     return fieldMap[fieldName] || fieldName.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
   };
@@ -158,19 +98,6 @@ const ProductChangelogDialog: React.FC<ProductChangelogDialogProps> = ({
     return value;
   };
 
-  const getChangeTypeColor = (changeType: string) => {
-    switch (changeType.toLowerCase()) {
-      case 'create':
-        return 'bg-green-100 text-green-800';
-      case 'update':
-        return 'bg-blue-100 text-blue-800';
-      case 'delete':
-        return 'bg-red-100 text-red-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
-
   const getValueChangeIndicator = (fieldName: string, oldValue: string, newValue: string) => {
     if (fieldName.includes('price')) {
       const oldNum = parseFloat(oldValue);
@@ -186,21 +113,7 @@ const ProductChangelogDialog: React.FC<ProductChangelogDialogProps> = ({
     return null;
   };
 
-  const groupChangesByDate = (changes: ChangelogEntry[]) => {
-    const grouped: {[key: string]: ChangelogEntry[];} = {};
-
-    changes.forEach((change) => {
-      const date = format(new Date(change.change_timestamp), 'yyyy-MM-dd');
-      if (!grouped[date]) {
-        grouped[date] = [];
-      }
-      grouped[date].push(change);
-    });
-
-    return Object.entries(grouped).sort(([a], [b]) => b.localeCompare(a));
-  };
-
-  const groupedChanges = groupChangesByDate(changes);
+  const groupedChanges = groupChangesByDay(changes);
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -265,15 +178,15 @@ const ProductChangelogDialog: React.FC<ProductChangelogDialogProps> = ({
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-green-600">
-                        {changes.filter((c) => c.change_type === 'create').length}
+                        {changes.filter((c) => PRICE_FIELDS.includes(c.field_name)).length}
                       </div>
-                      <div className="text-sm text-gray-500">Created</div>
+                      <div className="text-sm text-gray-500">Price Changes</div>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-yellow-600">
-                        {changes.filter((c) => c.change_type === 'update').length}
+                        {new Set(changes.map((c) => changedByLabel(c))).size}
                       </div>
-                      <div className="text-sm text-gray-500">Updated</div>
+                      <div className="text-sm text-gray-500">Changed By</div>
                     </div>
                   </div>
                 </CardContent>
@@ -286,37 +199,33 @@ const ProductChangelogDialog: React.FC<ProductChangelogDialogProps> = ({
                     <CardHeader>
                       <CardTitle className="flex items-center space-x-2 text-base">
                         <Calendar className="w-4 h-4" />
-                        <span>{format(new Date(date), 'EEEE, MMMM dd, yyyy')}</span>
+                        <span>{format(new Date(`${date}T00:00:00`), 'EEEE, MMMM dd, yyyy')}</span>
                         <Badge variant="secondary">{dateChanges.length} changes</Badge>
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-3">
                         {dateChanges.map((change) =>
-                    <div key={change.ID} className="border rounded-lg p-4">
+                    <div key={change.id} className="border rounded-lg p-4">
                             <div className="flex items-start justify-between mb-3">
                               <div className="flex items-center space-x-2">
-                                <Badge className={getChangeTypeColor(change.change_type)}>
-                                  {change.change_type.toUpperCase()}
-                                </Badge>
-                                <span className="font-medium">
+                                <Badge className="bg-blue-100 text-blue-800">
                                   {formatFieldName(change.field_name)}
-                                </span>
+                                </Badge>
                               </div>
                               <div className="text-sm text-gray-500 flex items-center space-x-4">
                                 <div className="flex items-center space-x-1">
                                   <Clock className="w-3 h-3" />
-                                  <span>{format(new Date(change.change_timestamp), 'h:mm aa')}</span>
+                                  <span>{format(new Date(change.change_date), 'h:mm aa')}</span>
                                 </div>
                                 <div className="flex items-center space-x-1">
                                   <User className="w-3 h-3" />
-                                  <span>{userNames[change.changed_by] || `User ${change.changed_by}`}</span>
+                                  <span>{changedByLabel(change)}</span>
                                 </div>
                               </div>
                             </div>
                             
-                            {change.change_type === 'update' &&
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                                 <div>
                                   <div className="text-gray-500 mb-1">Previous Value:</div>
                                   <div className="bg-red-50 border border-red-200 rounded px-3 py-2">
@@ -331,22 +240,6 @@ const ProductChangelogDialog: React.FC<ProductChangelogDialogProps> = ({
                                   </div>
                                 </div>
                               </div>
-                      }
-                            
-                            {change.change_type === 'create' &&
-                      <div className="text-sm">
-                                <div className="text-gray-500 mb-1">Initial Value:</div>
-                                <div className="bg-blue-50 border border-blue-200 rounded px-3 py-2">
-                                  {formatValue(change.field_name, change.new_value)}
-                                </div>
-                              </div>
-                      }
-                            
-                            {change.change_summary &&
-                      <div className="mt-3 text-sm text-gray-600">
-                                <strong>Summary:</strong> {change.change_summary}
-                              </div>
-                      }
                           </div>
                     )}
                       </div>
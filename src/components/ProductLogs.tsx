@@ -9,17 +9,10 @@ import {
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { toast } from '@/hooks/use-toast';
-import { Calendar, TrendingUp, DollarSign, Package, ArrowRight } from 'lucide-react';
-
-interface ProductLog {
-  ID: number;
-  product_id: number;
-  field_name: string;
-  old_value: string;
-  new_value: string;
-  change_date: string;
-  changed_by: number;
-}
+import { Calendar, TrendingUp, DollarSign, Package, ArrowRight, Barcode } from 'lucide-react';
+import { productHistoryService } from '@/services/productHistoryService';
+import { changedByLabel } from '@/utils/productHistory';
+import type { ProductLogRow } from '@/services/supabase/tableRegistry';
 
 interface ProductLogsProps {
   isOpen: boolean;
@@ -29,7 +22,7 @@ interface ProductLogsProps {
 }
 
 const ProductLogs: React.FC<ProductLogsProps> = ({ isOpen, onClose, productId, productName }) => {
-  const [logs, setLogs] = useState<ProductLog[]>([]);
+  const [logs, setLogs] = useState<ProductLogRow[]>([]);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -41,25 +34,7 @@ const ProductLogs: React.FC<ProductLogsProps> = ({ isOpen, onClose, productId, p
   const loadProductLogs = async () => {
     try {
       setLoading(true);
-      console.log('Loading product logs for product ID:', productId);
-
-      const { data, error } = await window.ezsite.apis.tablePage('11756', {
-        PageNo: 1,
-        PageSize: 100,
-        OrderByField: 'change_date',
-        IsAsc: false,
-        Filters: [
-        { name: 'product_id', op: 'Equal', value: productId }]
-
-      });
-
-      if (error) {
-        console.error('API error loading logs:', error);
-        throw error;
-      }
-
-      console.log('Loaded logs:', data?.List || []);
-      setLogs(data?.List || []);
+      setLogs(await productHistoryService.getProductHistory(productId));
     } catch (error) {
       console.error('Error loading product logs:', error);
       toast({
@@ -108,12 +83,18 @@ const ProductLogs: React.FC<ProductLogsProps> = ({ isOpen, onClose, productId, p
     switch (fieldName) {
       case 'last_shopping_date':
         return <Calendar className="w-4 h-4" />;
+      case 'price':
       case 'case_price':
       case 'unit_price':
       case 'retail_price':
         return <DollarSign className="w-4 h-4" />;
       case 'unit_per_case':
+      case 'quantity_in_stock':
+      case 'minimum_stock':
         return <Package className="w-4 h-4" />;
+      case 'bar_code_case':
+      case 'bar_code_unit':
+        return <Barcode className="w-4 h-4" />;
       case 'profit_margin':
         return <TrendingUp className="w-4 h-4" />;
       default:
@@ -129,6 +110,14 @@ const ProductLogs: React.FC<ProductLogsProps> = ({ isOpen, onClose, productId, p
         return 'Case Price';
       case 'unit_per_case':
         return 'Unit Per Case';
+      case 'quantity_in_stock':
+        return 'Quantity In Stock';
+      case 'minimum_stock':
+        return 'Minimum Stock';
+      case 'bar_code_case':
+        return 'Case Barcode';
+      case 'bar_code_unit':
+        return 'Unit Barcode';
       case 'unit_price':
         return 'Unit Price';
       case 'retail_price':
@@ -148,6 +137,8 @@ const ProductLogs: React.FC<ProductLogsProps> = ({ isOpen, onClose, productId, p
         return 'bg-green-100 text-green-800';
       case 'unit_per_case':
         return 'bg-purple-100 text-purple-800';
+      case 'quantity_in_stock':
+        return 'bg-teal-100 text-teal-800';
       case 'unit_price':
         return 'bg-orange-100 text-orange-800';
       case 'retail_price':
@@ -197,11 +188,12 @@ const ProductLogs: React.FC<ProductLogsProps> = ({ isOpen, onClose, productId, p
                     <TableHead>Old Value</TableHead>
                     <TableHead className="text-center">→</TableHead>
                     <TableHead>New Value</TableHead>
+                    <TableHead>Changed By</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {logs.map((log) =>
-                <TableRow key={log.ID}>
+                <TableRow key={log.id}>
                       <TableCell>
                         <div className="flex items-center space-x-2">
                           {getFieldIcon(log.field_name)}
@@ -226,6 +218,9 @@ const ProductLogs: React.FC<ProductLogsProps> = ({ isOpen, onClose, productId, p
                           {formatValue(log.field_name, log.new_value)}
                         </span>
                       </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {changedByLabel(log)}
+                      </TableCell>
                     </TableRow>
                 )}
                 </TableBody>
@@ -45,7 +45,9 @@ const SMSAlertStatus: React.FC<SMSAlertStatusProps> = ({ className = '' }) => {
         PageSize: 100,
         OrderByField: 'id',
         IsAsc: false,
-        Filters: [{ name: 'is_active', op: 'Equal', value: true }]
+        Filters: [
+        { name: 'is_active', op: 'Equal', value: true },
+        { name: 'alert_type', op: 'Equal', value: 'license_expiry' }]
       });
 
       if (!settingsResponse.error) {
@@ -6,6 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
+import { smsRelayClient } from '@/services/smsRelayClient';
 import {
   CheckCircle,
   XCircle,
@@ -120,34 +121,24 @@ const SMSDiagnosticTool: React.FC = () => {
 
   const testClickSendCredentials = async (): Promise<DiagnosticResult> => {
     try {
-      const credentials = btoa('mobil3801beach@gmail.com:54DC23E4-34D7-C6B1-0601-112E36A46B49');
+      // Credentials are held by the SMS relay; a successful account lookup proves they are valid
+      const account = await smsRelayClient.getAccount();
 
-      const response = await fetch('https://rest.clicksend.com/v3/account', {
-        method: 'GET',
-        headers: {
-          'Authorization': `Basic ${credentials}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      const result = await response.json();
-
-      if (response.ok && result.data) {
+      if (account.success) {
         return {
           test: 'ClickSend Credentials',
           status: 'success',
-          message: 'ClickSend API credentials are valid',
+          message: 'SMS relay credentials are valid',
           details: {
-            accountId: result.data.user_id,
-            country: result.data.country,
-            balance: result.data.balance
+            provider: account.provider,
+            balance: account.balance
           }
         };
       } else {
         return {
           test: 'ClickSend Credentials',
           status: 'error',
-          message: result.response_msg || `HTTP ${response.status}: ${response.statusText}`
+          message: account.error || 'SMS relay could not reach the provider'
         };
       }
     } catch (error) {
@@ -161,20 +152,10 @@ const SMSDiagnosticTool: React.FC = () => {
 
   const testAccountBalance = async (): Promise<DiagnosticResult> => {
     try {
-      const credentials = btoa('mobil3801beach@gmail.com:54DC23E4-34D7-C6B1-0601-112E36A46B49');
-
-      const response = await fetch('https://rest.clicksend.com/v3/account', {
-        method: 'GET',
-        headers: {
-          'Authorization': `Basic ${credentials}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      const result = await response.json();
+      const account = await smsRelayClient.getAccount();
 
-      if (response.ok && result.data) {
-        const balance = result.data.balance || 0;
+      if (account.success) {
+        const balance = account.balance || 0;
 
         if (balance <= 0) {
           return {
@@ -297,58 +278,20 @@ const SMSDiagnosticTool: React.FC = () => {
 
     setLoading(true);
     try {
-      const credentials = btoa('mobil3801beach@gmail.com:54DC23E4-34D7-C6B1-0601-112E36A46B49');
-
-      const smsData = {
-        messages: [{
-          source: 'DFS',
-          to: testPhone,
-          body: `DFS Manager SMS Test - ${new Date().toLocaleString()}. This is a test message to verify SMS functionality.`
-        }]
-      };
-
-      const response = await fetch('https://rest.clicksend.com/v3/sms/send', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${credentials}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(smsData)
-      });
-
-      const result = await response.json();
-
-      if (response.ok && result.data?.messages?.[0]) {
-        const messageResult = result.data.messages[0];
-
-        // Log the test SMS
-        await window.ezsite.apis.tableCreate(24202, {
-          recipient_phone: testPhone,
-          message_content: smsData.messages[0].body,
-          sender_name: 'DFS',
-          status: messageResult.status === 'SUCCESS' ? 'Sent' : 'Failed',
-          sent_at: new Date().toISOString(),
-          message_id: messageResult.message_id || '',
-          clicksend_message_id: messageResult.message_id || '',
-          cost: parseFloat(messageResult.message_price) || 0,
-          error_message: messageResult.status !== 'SUCCESS' ? messageResult.custom_string || 'Unknown error' : '',
-          message_type: 'diagnostic_test',
-          sent_by_user_id: 1
+      // The relay sends from the configured sender ID and records the message in SMS history
+      const result = await smsRelayClient.send(
+        testPhone,
+        `DFS Manager SMS Test - ${new Date().toLocaleString()}. This is a test message to verify SMS functionality.`,
+        'diagnostic_test'
+      );
+
+      if (result.success) {
+        toast({
+          title: "Test SMS Sent Successfully",
+          description: `Test SMS sent to ${testPhone}. Message ID: ${result.messageId}. Cost: $${(result.cost || 0).toFixed(4)}`
         });
-
-        if (messageResult.status === 'SUCCESS') {
-          toast({
-            title: "Test SMS Sent Successfully",
-            description: `Test SMS sent to ${testPhone}. Message ID: ${messageResult.message_id}. Cost: $${(parseFloat(messageResult.message_price) || 0).toFixed(4)}`
-          });
-        } else {
-          throw new Error(messageResult.custom_string || messageResult.status || 'Failed to send SMS');
-        }
       } else {
-        const errorMessage = result.response_msg ||
-        result.error_message ||
-        `HTTP ${response.status}: ${response.statusText}`;
-        throw new Error(errorMessage);
+        throw new Error(result.error || 'Failed to send SMS');
       }
     } catch (error) {
       toast({
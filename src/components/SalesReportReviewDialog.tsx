@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle } from
+'@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { CheckCircle2, ClipboardCheck, Unlock, XCircle } from 'lucide-react';
+import { salesReportReviewService } from '@/services/salesReportReviewService';
+import type { SalesReportReviewRow } from '@/services/supabase/tableRegistry';
+import { ACTION_LABELS, getReviewActions, ReviewAction } from '@/utils/salesReportWorkflow';
+import SalesReportStatusBadge from '@/components/SalesReportStatusBadge';
+
+export interface ReviewDialogReport {
+  ID: number;
+  report_date: string;
+  station: string;
+  shift: string;
+  employee_name: string;
+  total_sales: number;
+  total_gallons: number;
+  total_short_over: number;
+  status?: string | null;
+  submitted_by?: string | null;
+  submitted_at?: string | null;
+}
+
+interface SalesReportReviewDialogProps {
+  report: ReviewDialogReport | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onReviewed: () => void;
+}
+
+const formatDate = (value: string | null | undefined) => value ? new Date(value).toLocaleDateString() : 'N/A';
+const formatDateTime = (value: string | null | undefined) => value ? new Date(value).toLocaleString() : 'N/A';
+
+const formatCurrency = (value: number) =>
+new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(Number(value) || 0);
+
+const SalesReportReviewDialog: React.FC<SalesReportReviewDialogProps> = ({ report, isOpen, onClose, onReviewed }) => {
+  const { user, isManager } = useAuth();
+  const [reviews, setReviews] = useState<SalesReportReviewRow[]>([]);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState<ReviewAction | null>(null);
+
+  useEffect(() => {
+    if (isOpen && report) {
+      setComment('');
+      salesReportReviewService.getReviews(report.ID).
+      then(setReviews).
+      catch((error) => console.error('Error loading review history:', error));
+    }
+  }, [isOpen, report]);
+
+  if (!report) return null;
+
+  // Only managers can approve, reject or reopen; others just see the history
+  const actions = isManager() ? getReviewActions(report) : [];
+
+  const handleAction = async (action: ReviewAction) => {
+    const reviewReport = { id: report.ID, station: report.station, report_date: report.report_date, status: report.status };
+    const reviewer = { id: user?.ID, email: user?.Email || 'unknown' };
+    setSaving(action);
+    const { error } = action === 'approve' ?
+    await salesReportReviewService.approve(reviewReport, comment, reviewer) :
+    action === 'reject' ?
+    await salesReportReviewService.reject(reviewReport, comment, reviewer) :
+    await salesReportReviewService.reopen(reviewReport, comment, reviewer);
+    setSaving(null);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Success", description: `Sales report ${ACTION_LABELS[action].toLowerCase()}` });
+    onReviewed();
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ClipboardCheck className="w-5 h-5" />
+            <span>Review Sales Report</span>
+          </DialogTitle>
+          <DialogDescription>
+            {report.station} · {formatDate(report.report_date)} · {report.shift || 'DAY'} shift
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <p className="text-gray-500">Employee</p>
+              <p className="font-medium">{report.employee_name}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Status</p>
+              <SalesReportStatusBadge status={report.status} />
+            </div>
+            <div>
+              <p className="text-gray-500">Total Sales</p>
+              <p className="font-medium">{formatCurrency(report.total_sales)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Short / Over</p>
+              <p className={`font-medium ${(report.total_short_over || 0) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatCurrency(report.total_short_over)}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">Gallons</p>
+              <p className="font-medium">{(Number(report.total_gallons) || 0).toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Submitted</p>
+              <p className="font-medium">{formatDateTime(report.submitted_at)} {report.submitted_by ? `by ${report.submitted_by}` : ''}</p>
+            </div>
+          </div>
+
+          {reviews.length > 0 &&
+          <div>
+              <h4 className="font-medium mb-2">History</h4>
+              <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+                {reviews.map((review) =>
+              <li key={review.id} className="ml-4">
+                    <div className="absolute w-3 h-3 bg-blue-500 rounded-full -left-1.5 mt-1.5"></div>
+                    <p className="text-sm">
+                      <span className="font-medium">{ACTION_LABELS[review.action as ReviewAction] || review.action}</span>
+                      {' '}by {review.performed_by || 'unknown'} · {formatDateTime(review.performed_at)}
+                    </p>
+                    {review.comment && <p className="text-sm text-gray-600">{review.comment}</p>}
+                  </li>
+              )}
+              </ol>
+            </div>
+          }
+
+          {actions.length > 0 &&
+          <div className="space-y-2">
+              <Label htmlFor="review_comment">
+                {actions.includes('reopen') ? 'Reason for reopening *' : 'Comments (required to reject)'}
+              </Label>
+              <Textarea
+              id="review_comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder={actions.includes('reopen') ? 'Why does this report need to change?' : 'Notes for the employee'}
+              rows={3} />
+            </div>
+          }
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          {actions.includes('reject') &&
+          <Button variant="destructive" onClick={() => handleAction('reject')} disabled={saving !== null}>
+              <XCircle className="w-4 h-4 mr-2" />
+              {saving === 'reject' ? 'Rejecting...' : 'Reject'}
+            </Button>
+          }
+          {actions.includes('approve') &&
+          <Button onClick={() => handleAction('approve')} disabled={saving !== null} className="bg-green-600 hover:bg-green-700">
+              <CheckCircle2 className="w-4 h-4 mr-2" />
+              {saving === 'approve' ? 'Approving...' : 'Approve'}
+            </Button>
+          }
+          {actions.includes('reopen') &&
+          <Button onClick={() => handleAction('reopen')} disabled={saving !== null}>
+              <Unlock className="w-4 h-4 mr-2" />
+              {saving === 'reopen' ? 'Reopening...' : 'Reopen'}
+            </Button>
+          }
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>);
+
+};
+
+export default SalesReportReviewDialog;
@@ -7,12 +7,14 @@ import { FileText, Upload, CheckCircle, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import EnhancedFileUpload from '@/components/EnhancedFileUpload';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { isVeederRootTextFile, parseVeederRootReport, VeederRootReport } from '@/utils/veederRoot';
 
 interface DocumentUpload {
   name: string;
   field: string;
   fileId?: number;
   required: boolean;
+  accept?: string;
 }
 
 interface DocumentsUploadSectionProps {
@@ -23,11 +25,14 @@ interface DocumentsUploadSectionProps {
     scratchOffReportFileId?: number | string;
   };
   onChange: (field: string, fileId: number | string) => void;
+  // Called with the parsed report when a Veeder-Root text export is uploaded
+  onVeederRootParsed?: (report: VeederRootReport) => void;
 }
 
 const DocumentsUploadSection: React.FC<DocumentsUploadSectionProps> = ({
   documents,
-  onChange
+  onChange,
+  onVeederRootParsed
 }) => {
   const { toast } = useToast();
 
@@ -42,7 +47,8 @@ const DocumentsUploadSection: React.FC<DocumentsUploadSectionProps> = ({
     name: 'Veeder Root Report',
     field: 'veederRootFileId',
     fileId: documents.veederRootFileId,
-    required: true
+    required: true,
+    accept: '.pdf,.jpg,.jpeg,.png,.doc,.docx,.txt,.prn,text/plain,image/*'
   },
   {
     name: 'Lotto Report',
@@ -68,6 +74,10 @@ const DocumentsUploadSection: React.FC<DocumentsUploadSectionProps> = ({
       if (uploadResult.error) throw uploadResult.error;
       onChange(field, uploadResult.data);
 
+      if (field === 'veederRootFileId' && onVeederRootParsed && isVeederRootTextFile(file)) {
+        readVeederRootReport(file);
+      }
+
       toast({
         title: 'Success',
         description: `${field.replace('FileId', '').replace(/([A-Z])/g, ' $1').replace(/^./, (str) => str.toUpperCase())} uploaded successfully`
@@ -82,6 +92,22 @@ const DocumentsUploadSection: React.FC<DocumentsUploadSectionProps> = ({
     }
   };
 
+  const readVeederRootReport = async (file: File) => {
+    try {
+      const report = parseVeederRootReport(await file.text());
+      if (report.inventory.length === 0 && report.deliveries.length === 0) {
+        toast({
+          title: 'No Tank Data Found',
+          description: 'The file was saved, but no Veeder-Root inventory or delivery report was recognized in it'
+        });
+        return;
+      }
+      onVeederRootParsed?.(report);
+    } catch (error) {
+      console.error('Error reading Veeder-Root report:', error);
+    }
+  };
+
   const getStatus = (document: DocumentUpload) => {
     if (document.fileId) {
       return {
@@ -153,7 +179,7 @@ const DocumentsUploadSection: React.FC<DocumentsUploadSectionProps> = ({
                 <div className="space-y-2">
                   <EnhancedFileUpload
                     onFileSelect={(file) => uploadDocument(document.field, file)}
-                    accept=".pdf,.jpg,.jpeg,.png,.doc,.docx,image/*"
+                    accept={document.accept || '.pdf,.jpg,.jpeg,.png,.doc,.docx,image/*'}
                     label={document.fileId ? 'Re-upload Document' : 'Upload Document'}
                     maxSize={15}
                     className="w-full" />
@@ -2,26 +2,44 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { NumberInput } from '@/components/ui/number-input';
+import { Button } from '@/components/ui/button';
 import { Gauge, Info } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { FuelGradeConfig, getGradeLabel, GradeGallons, sumGallons, withRecordedGrades } from '@/utils/fuelGrades';
+import type { GradeTankLevel } from '@/utils/veederRoot';
+
+const GRID_COLUMNS = ['md:grid-cols-1', 'md:grid-cols-2', 'md:grid-cols-3', 'md:grid-cols-4'];
 
 interface GasTankReportSectionProps {
-  values: {
-    regularGallons: number;
-    superGallons: number;
-    dieselGallons: number;
-  };
-  onChange: (field: string, value: number) => void;
+  // Grades sold at the station, from its fuel configuration
+  grades: FuelGradeConfig[];
+  values: GradeGallons;
+  onChange: (grade: string, value: number) => void;
+  // Tank levels confirmed from the uploaded Veeder-Root report
+  tankLevels?: GradeTankLevel[];
+  onReviewTankLevels?: () => void;
+  // Pump prices in effect on the report date, from the price book
+  pumpPrices?: Record<string, number>;
 }
 
 const GasTankReportSection: React.FC<GasTankReportSectionProps> = ({
+  grades,
   values,
-  onChange
+  onChange,
+  tankLevels = [],
+  onReviewTankLevels,
+  pumpPrices = {}
 }) => {
   const isMobile = useIsMobile();
 
-  // Total Gallon Sold - Auto calculated (Regular + Super + Diesel)
-  const totalGallonsSold = values.regularGallons + values.superGallons + values.dieselGallons;
+  // Gallons recorded for a grade the station no longer sells stay visible so
+  // older reports can still be edited
+  const displayGrades = withRecordedGrades(grades, Object.keys(values).filter((grade) => values[grade]));
+
+  // Total Gallon Sold - Auto calculated across all grades
+  const totalGallonsSold = sumGallons(values);
+  const pricedGrades = displayGrades.filter((grade) => pumpPrices[grade.grade] !== undefined);
+  const fuelSalesAtPumpPrices = pricedGrades.reduce((sum, grade) => sum + (values[grade.grade] || 0) * pumpPrices[grade.grade], 0);
 
   return (
     <div className="space-y-4">
@@ -33,43 +51,26 @@ const GasTankReportSection: React.FC<GasTankReportSectionProps> = ({
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className={`grid grid-cols-1 ${isMobile ? 'gap-4' : 'md:grid-cols-3 gap-4'}`}>
-            <div className="space-y-2">
-              <Label htmlFor="regular">Regular (Gallons) *</Label>
-              <NumberInput
-                id="regular"
-                value={values.regularGallons}
-                onChange={(value) => onChange('regularGallons', value || 0)}
-                allowNegative={true}
-                step={0.01}
-                precision={2}
-                required />
-
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="super">Super (Gallons) *</Label>
-              <NumberInput
-                id="super"
-                value={values.superGallons}
-                onChange={(value) => onChange('superGallons', value || 0)}
-                allowNegative={true}
-                step={0.01}
-                precision={2}
-                required />
-
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="diesel">Diesel (Gallons) *</Label>
-              <NumberInput
-                id="diesel"
-                value={values.dieselGallons}
-                onChange={(value) => onChange('dieselGallons', value || 0)}
+          <div className={`grid grid-cols-1 ${isMobile ? 'gap-4' : `${GRID_COLUMNS[Math.min(Math.max(displayGrades.length, 1), 4) - 1]} gap-4`}`}>
+            {displayGrades.map((grade) =>
+            <div key={grade.grade} className="space-y-2">
+                <Label htmlFor={`gallons_${grade.grade}`}>
+                  {grade.label} (Gallons) *{grade.is_blended && <span className="text-xs text-gray-500"> blended</span>}
+                </Label>
+                <NumberInput
+                id={`gallons_${grade.grade}`}
+                value={values[grade.grade] || 0}
+                onChange={(value) => onChange(grade.grade, value || 0)}
                 allowNegative={true}
                 step={0.01}
                 precision={2}
                 required />
 
-            </div>
+                {pumpPrices[grade.grade] !== undefined &&
+              <div className="text-xs text-gray-600">@ ${pumpPrices[grade.grade].toFixed(3)}/gal</div>
+              }
+              </div>
+            )}
           </div>
           
           <div className="pt-4 border-t border-red-200">
@@ -78,9 +79,42 @@ const GasTankReportSection: React.FC<GasTankReportSectionProps> = ({
               <div className="text-2xl font-bold text-red-800">{totalGallonsSold.toFixed(2)} gal</div>
             </div>
             <div className="text-sm text-gray-600 mt-1">
-              Regular + Super + Diesel = {totalGallonsSold.toFixed(2)} gallons
+              {displayGrades.map((grade) => grade.label).join(' + ')} = {totalGallonsSold.toFixed(2)} gallons
             </div>
+            {pricedGrades.length > 0 &&
+            <div className="text-sm text-gray-600 mt-1">
+                Fuel sales at pump prices: ${fuelSalesAtPumpPrices.toFixed(2)}
+                {pricedGrades.length < displayGrades.length && ' (some grades have no price)'}
+              </div>
+            }
           </div>
+
+          {tankLevels.length > 0 &&
+          <div className="pt-4 border-t border-red-200 space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="font-semibold">Tank Levels (Veeder-Root)</Label>
+                {onReviewTankLevels &&
+              <Button type="button" variant="outline" size="sm" onClick={onReviewTankLevels}>
+                    Review
+                  </Button>
+              }
+              </div>
+              <div className={`grid grid-cols-1 ${isMobile ? 'gap-2' : 'md:grid-cols-3 gap-3'}`}>
+                {tankLevels.map((level) =>
+              <div key={level.grade} className="rounded-lg border border-red-200 bg-white p-3 text-sm">
+                    <div className="font-medium">{getGradeLabel(grades, level.grade)}</div>
+                    <div>Volume: {level.volume.toFixed(2)} gal</div>
+                    <div>Water: {level.waterInches.toFixed(2)} in</div>
+                    {level.deliveryIncrease > 0 && <div>Delivered: {level.deliveryIncrease.toFixed(2)} gal</div>}
+                  </div>
+              )}
+              </div>
+              <div className="flex items-center space-x-1 text-xs text-gray-600">
+                <Info className="w-3 h-3" />
+                <span>Saved as the day's tank readings when the report is submitted.</span>
+              </div>
+            </div>
+          }
         </CardContent>
       </Card>
 
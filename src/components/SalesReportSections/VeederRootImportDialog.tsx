@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle } from
+'@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { NumberInput } from '@/components/ui/number-input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import { getGradeLabel, StationFuelConfiguration } from '@/utils/fuelGrades';
+import { GradeTankLevel, summarizeTankLevels, VeederRootReport } from '@/utils/veederRoot';
+
+interface VeederRootImportDialogProps {
+  report: VeederRootReport | null;
+  reportDate: string;
+  configuration: StationFuelConfiguration;
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (levels: GradeTankLevel[]) => void;
+}
+
+const formatGallons = (value: number | null) => value === null ? '-' : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const VeederRootImportDialog: React.FC<VeederRootImportDialogProps> = ({
+  report,
+  reportDate,
+  configuration,
+  isOpen,
+  onClose,
+  onConfirm
+}) => {
+  const [levels, setLevels] = useState<GradeTankLevel[]>([]);
+
+  // Default layouts have no real tank numbers, so grades come from product labels
+  const tanks = configuration.isDefault ? [] : configuration.tanks;
+
+  useEffect(() => {
+    setLevels(report ? summarizeTankLevels(report, tanks) : []);
+  }, [report, configuration]);
+
+  const updateLevel = (grade: string, field: 'volume' | 'waterInches' | 'deliveryIncrease', value: number) => {
+    setLevels((prev) => prev.map((level) => level.grade === grade ? { ...level, [field]: value || 0 } : level));
+  };
+
+  const dateMismatch = report?.reportDate && reportDate && report.reportDate !== reportDate;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Gauge className="w-5 h-5" />
+            <span>Confirm Veeder-Root Readings</span>
+          </DialogTitle>
+          <DialogDescription>
+            Check the values read from the tank monitor report. They are saved as the day's tank readings with the sales report.
+          </DialogDescription>
+        </DialogHeader>
+
+        {dateMismatch &&
+        <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              The printout is dated {report?.reportDate}, but this sales report is for {reportDate}.
+            </AlertDescription>
+          </Alert>
+        }
+
+        {report?.warnings.map((warning) =>
+        <Alert key={warning}>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{warning}</AlertDescription>
+          </Alert>
+        )}
+
+        {report && report.inventory.length > 0 &&
+        <div className="space-y-2">
+            <h4 className="font-medium">In-Tank Inventory</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tank</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Volume</TableHead>
+                  <TableHead className="text-right">Ullage</TableHead>
+                  <TableHead className="text-right">Water (in)</TableHead>
+                  <TableHead className="text-right">Temp (°F)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.inventory.map((entry) =>
+              <TableRow key={entry.tankNumber}>
+                    <TableCell>{entry.tankNumber}</TableCell>
+                    <TableCell>{entry.product}</TableCell>
+                    <TableCell className="text-right">{formatGallons(entry.volume)}</TableCell>
+                    <TableCell className="text-right">{formatGallons(entry.ullage)}</TableCell>
+                    <TableCell className="text-right">{entry.waterInches ?? '-'}</TableCell>
+                    <TableCell className="text-right">{entry.temperature ?? '-'}</TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          </div>
+        }
+
+        {report && report.deliveries.length > 0 &&
+        <div className="space-y-2">
+            <h4 className="font-medium">Deliveries</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tank</TableHead>
+                  <TableHead>Start</TableHead>
+                  <TableHead>End</TableHead>
+                  <TableHead className="text-right">Increase</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.deliveries.map((entry, index) =>
+              <TableRow key={`${entry.tankNumber}-${index}`}>
+                    <TableCell>{entry.tankNumber} ({entry.product})</TableCell>
+                    <TableCell>{entry.startedAt || '-'}</TableCell>
+                    <TableCell>{entry.endedAt || '-'}</TableCell>
+                    <TableCell className="text-right">{formatGallons(entry.increase)}</TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          </div>
+        }
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Readings to Save</h4>
+          {levels.length === 0 ?
+          <p className="text-sm text-muted-foreground">No tank volumes or deliveries were recognized in this file.</p> :
+
+          <div className="space-y-3">
+              {levels.map((level) =>
+            <div key={level.grade} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end border rounded-lg p-3">
+                  <div>
+                    <div className="font-medium">{getGradeLabel(configuration.grades, level.grade)}</div>
+                    <div className="text-xs text-muted-foreground">Tank {level.tanks.join(', ')}</div>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-muted-foreground">Volume (gal)</label>
+                    <NumberInput value={level.volume} onChange={(value) => updateLevel(level.grade, 'volume', value)} step={0.01} precision={2} />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-muted-foreground">Water (in)</label>
+                    <NumberInput value={level.waterInches} onChange={(value) => updateLevel(level.grade, 'waterInches', value)} step={0.01} precision={2} />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-muted-foreground">Delivered (gal)</label>
+                    <NumberInput value={level.deliveryIncrease} onChange={(value) => updateLevel(level.grade, 'deliveryIncrease', value)} step={0.01} precision={2} />
+                  </div>
+                </div>
+            )}
+            </div>
+          }
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Ignore</Button>
+          <Button onClick={() => onConfirm(levels)} disabled={levels.length === 0}>
+            Confirm Readings
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>);
+
+};
+
+export default VeederRootImportDialog;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { getReportStatus, SalesReportStatus, STATUS_LABELS } from '@/utils/salesReportWorkflow';
+
+const STATUS_CLASSES: Record<SalesReportStatus, string> = {
+  submitted: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  approved: 'bg-green-100 text-green-800 border-green-300',
+  rejected: 'bg-red-100 text-red-800 border-red-300',
+  reopened: 'bg-blue-100 text-blue-800 border-blue-300'
+};
+
+const SalesReportStatusBadge: React.FC<{status?: string | null;}> = ({ status }) => {
+  const reportStatus = getReportStatus({ status });
+  return (
+    <Badge variant="outline" className={STATUS_CLASSES[reportStatus]}>
+      {STATUS_LABELS[reportStatus]}
+    </Badge>);
+
+};
+
+export default SalesReportStatusBadge;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { ShortOverTrendPoint } from '@/utils/cashShortOver';
+
+interface ShortOverTrendChartProps {
+  trend: ShortOverTrendPoint[];
+  loading?: boolean;
+  height?: number;
+}
+
+const formatDay = (date: string) =>
+new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const ShortOverTrendChart: React.FC<ShortOverTrendChartProps> = ({ trend, loading = false, height = 260 }) => {
+  if (loading) {
+    return <div className="bg-gray-100 rounded animate-pulse" style={{ height }}></div>;
+  }
+
+  if (trend.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-sm text-gray-500" style={{ height }}>
+        No shifts in this period
+      </div>);
+
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <ComposedChart data={trend}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="date" tickFormatter={formatDay} />
+        <YAxis unit="$" />
+        <Tooltip
+          labelFormatter={(date: string) => formatDay(date)}
+          formatter={(value: number, name: string) => [`$${value.toFixed(2)}`, name]} />
+        <ReferenceLine y={0} stroke="#6b7280" />
+        <Bar dataKey="short" name="Short" fill="#ef4444" />
+        <Bar dataKey="over" name="Over" fill="#22c55e" />
+        <Line type="monotone" dataKey="net" name="Net" stroke="#2563eb" strokeWidth={2} dot={false} />
+      </ComposedChart>
+    </ResponsiveContainer>);
+
+};
+
+export default ShortOverTrendChart;
@@ -8,6 +8,8 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from '@/hooks/use-toast';
+import { smsRelayClient } from '@/services/smsRelayClient';
+import { smsConfigRepository } from '@/services/repositories';
 import {
   Settings,
   Send,
@@ -20,28 +22,19 @@ import {
   User } from
 'lucide-react';
 
+// Sender settings kept in sms_config; the credentials are SMS relay secrets
 interface SinchConfig {
   id?: number;
-  service_provider: string;
-  api_key: string;
-  username: string;
   from_number: string;
   is_enabled: boolean;
   daily_limit: number;
-  emergency_contacts: string;
-  alert_types: string;
 }
 
 const SinchConfigManager: React.FC = () => {
   const [config, setConfig] = useState<SinchConfig>({
-    service_provider: 'Sinch ClickSend',
-    api_key: '',
-    username: '',
     from_number: '',
     is_enabled: false,
-    daily_limit: 100,
-    emergency_contacts: '[]',
-    alert_types: '{}'
+    daily_limit: 100
   });
 
   const [loading, setLoading] = useState(false);
@@ -57,31 +50,20 @@ const SinchConfigManager: React.FC = () => {
   const loadConfiguration = async () => {
     try {
       setLoading(true);
-      const { data, error } = await window.ezsite.apis.tablePage(24060, {
-        PageNo: 1,
-        PageSize: 1,
-        OrderByField: 'id',
-        IsAsc: false,
-        Filters: []
-      });
+      const { rows, error } = await smsConfigRepository.page({ orderBy: 'id', ascending: false, pageSize: 1 });
 
       if (error) throw new Error(error);
 
-      if (data?.List && data.List.length > 0) {
-        const configData = data.List[0];
+      if (rows.length > 0) {
+        const configData = rows[0];
         setConfig({
           id: configData.id,
-          service_provider: configData.service_provider || 'Sinch ClickSend',
-          api_key: configData.api_key || '',
-          username: configData.username || '',
           from_number: configData.from_number || '',
           is_enabled: configData.is_enabled || false,
-          daily_limit: configData.daily_limit || 100,
-          emergency_contacts: configData.emergency_contacts || '[]',
-          alert_types: configData.alert_types || '{}'
+          daily_limit: configData.daily_limit || 100
         });
 
-        if (configData.is_enabled && configData.api_key && configData.username) {
+        if (configData.is_enabled) {
           await checkConnection();
         }
       }
@@ -102,22 +84,16 @@ const SinchConfigManager: React.FC = () => {
       setLoading(true);
 
       const configData = {
-        ...config,
-        service_provider: 'Sinch ClickSend',
-        last_updated: new Date().toISOString(),
-        created_by: 1
+        service_name: 'ClickSend',
+        from_number: config.from_number,
+        is_enabled: config.is_enabled,
+        daily_limit: config.daily_limit
       };
 
-      if (config.id) {
-        const { error } = await window.ezsite.apis.tableUpdate(24060, {
-          ID: config.id,
-          ...configData
-        });
-        if (error) throw new Error(error);
-      } else {
-        const { error } = await window.ezsite.apis.tableCreate(24060, configData);
-        if (error) throw new Error(error);
-      }
+      const { error } = config.id ?
+      await smsConfigRepository.update(config.id, configData) :
+      await smsConfigRepository.create(configData);
+      if (error) throw new Error(error);
 
       toast({
         title: "Success",
@@ -126,7 +102,7 @@ const SinchConfigManager: React.FC = () => {
 
       await loadConfiguration();
 
-      if (config.is_enabled && config.api_key && config.username) {
+      if (config.is_enabled) {
         await checkConnection();
       }
     } catch (error) {
@@ -145,26 +121,12 @@ const SinchConfigManager: React.FC = () => {
     try {
       setLoading(true);
 
-      // Basic validation
-      if (!config.api_key || !config.username) {
-        setConnectionStatus('error');
-        return;
-      }
+      // Provider credentials are held by the SMS relay
+      const account = await smsRelayClient.getAccount();
 
-      // Test API connection
-      const credentials = btoa(`${config.username}:${config.api_key}`);
-      const response = await fetch('https://rest.clicksend.com/v3/account', {
-        method: 'GET',
-        headers: {
-          'Authorization': `Basic ${credentials}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (response.ok) {
-        const result = await response.json();
+      if (account.success) {
         setConnectionStatus('connected');
-        setAccountBalance(result.data?.balance || 0);
+        setAccountBalance(account.balance || 0);
         toast({
           title: "Connection Successful",
           description: "Successfully connected to Sinch ClickSend"
@@ -173,7 +135,7 @@ const SinchConfigManager: React.FC = () => {
         setConnectionStatus('error');
         toast({
           title: "Connection Failed",
-          description: "Failed to connect to Sinch ClickSend. Please check your credentials.",
+          description: account.error || "Failed to connect to Sinch ClickSend. Please check the SMS relay secrets.",
           variant: "destructive"
         });
       }
@@ -212,48 +174,19 @@ const SinchConfigManager: React.FC = () => {
     try {
       setTesting(true);
 
-      const credentials = btoa(`${config.username}:${config.api_key}`);
-      const smsData = {
-        messages: [
-        {
-          from: config.from_number,
-          to: testPhone,
-          body: `DFS Manager Test SMS - ${new Date().toLocaleString()}. Sinch ClickSend is working correctly!`,
-          source: 'javascript'
-        }]
+      const result = await smsRelayClient.send(
+        testPhone,
+        `DFS Manager Test SMS - ${new Date().toLocaleString()}. Sinch ClickSend is working correctly!`,
+        'test'
+      );
 
-      };
-
-      const response = await fetch('https://rest.clicksend.com/v3/sms/send', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${credentials}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(smsData)
-      });
-
-      const result = await response.json();
-
-      if (response.ok && result.data?.messages?.[0]?.status === 'SUCCESS') {
+      if (result.success) {
         toast({
           title: "Test SMS Sent",
           description: `Test message sent successfully to ${testPhone}`
         });
-
-        // Log to SMS history
-        await window.ezsite.apis.tableCreate(24062, {
-          recipient_phone: testPhone,
-          message_content: smsData.messages[0].body,
-          message_type: 'test',
-          status: 'Sent',
-          sent_at: new Date().toISOString(),
-          sms_provider_id: result.data.messages[0].message_id,
-          cost: result.data.messages[0].message_price || 0,
-          sent_by: 1
-        });
       } else {
-        throw new Error(result.data?.messages?.[0]?.custom_string || 'Failed to send test SMS');
+        throw new Error(result.error || 'Failed to send test SMS');
       }
     } catch (error) {
       console.error('Test SMS error:', error);
@@ -328,9 +261,11 @@ const SinchConfigManager: React.FC = () => {
                   <Input
                     id="username"
                     type="text"
-                    placeholder="Your Sinch ClickSend username"
-                    value={config.username}
-                    onChange={(e) => setConfig({ ...config, username: e.target.value })} />
+                    value="CLICKSEND_USERNAME"
+                    disabled
+                    className="bg-gray-50" />
+
+                  <p className="text-xs text-muted-foreground">Set as an SMS relay secret</p>
 
                 </div>
 
@@ -341,10 +276,12 @@ const SinchConfigManager: React.FC = () => {
                   </Label>
                   <Input
                     id="api_key"
-                    type="password"
-                    placeholder="Your Sinch ClickSend API key"
-                    value={config.api_key}
-                    onChange={(e) => setConfig({ ...config, api_key: e.target.value })} />
+                    type="text"
+                    value="CLICKSEND_API_KEY"
+                    disabled
+                    className="bg-gray-50" />
+
+                  <p className="text-xs text-muted-foreground">Set as an SMS relay secret</p>
 
                 </div>
 
@@ -389,7 +326,7 @@ const SinchConfigManager: React.FC = () => {
                 <Button
                   variant="outline"
                   onClick={checkConnection}
-                  disabled={loading || !config.api_key || !config.username}
+                  disabled={loading}
                   className="flex items-center gap-2">
 
                   <CheckCircle className="h-4 w-4" />
@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle } from
+'@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NumberInput } from '@/components/ui/number-input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { Fuel, Plus, Save, Trash2 } from 'lucide-react';
+import { fuelConfigurationService } from '@/services/fuelConfigurationService';
+import {
+  FuelGradeConfig,
+  FuelTankConfig,
+  toGradeKey,
+  validateFuelConfiguration } from
+'@/utils/fuelGrades';
+
+interface StationFuelConfigurationDialogProps {
+  station: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** A grade being edited; new grades take their key from the label */
+interface GradeDraft extends FuelGradeConfig {
+  isNew: boolean;
+}
+
+const gradeKey = (grade: GradeDraft) => grade.isNew ? toGradeKey(grade.label) : grade.grade;
+
+const StationFuelConfigurationDialog: React.FC<StationFuelConfigurationDialogProps> = ({ station, isOpen, onClose }) => {
+  const [grades, setGrades] = useState<GradeDraft[]>([]);
+  const [tanks, setTanks] = useState<FuelTankConfig[]>([]);
+  const [isDefault, setIsDefault] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !station) return;
+    setLoading(true);
+    fuelConfigurationService.getConfiguration(station).
+    then((configuration) => {
+      setGrades(configuration.grades.map((grade) => ({ ...grade, isNew: false })));
+      setTanks(configuration.tanks.map((tank) => ({ ...tank })));
+      setIsDefault(configuration.isDefault);
+    }).
+    catch((error) => console.error('Error loading fuel configuration:', error)).
+    finally(() => setLoading(false));
+  }, [isOpen, station]);
+
+  const tankGradeOptions = grades.filter((grade) => !grade.is_blended && gradeKey(grade));
+
+  const updateGrade = (index: number, changes: Partial<GradeDraft>) => {
+    setGrades((prev) => prev.map((grade, i) => i === index ? { ...grade, ...changes } : grade));
+  };
+
+  const updateTank = (index: number, changes: Partial<FuelTankConfig>) => {
+    setTanks((prev) => prev.map((tank, i) => i === index ? { ...tank, ...changes } : tank));
+  };
+
+  const addGrade = () => {
+    setGrades((prev) => [...prev, { grade: '', label: '', is_blended: false, sort_order: prev.length + 1, isNew: true }]);
+  };
+
+  const addTank = () => {
+    const nextNumber = tanks.reduce((max, tank) => Math.max(max, Number(tank.tank_number) || 0), 0) + 1;
+    setTanks((prev) => [...prev, { tank_number: nextNumber, grade: tankGradeOptions[0] ? gradeKey(tankGradeOptions[0]) : '', capacity_gallons: 0 }]);
+  };
+
+  const toConfigGrades = (): FuelGradeConfig[] => grades.map(({ isNew, ...grade }) => ({ ...grade, grade: gradeKey({ isNew, ...grade }) }));
+
+  const errors = validateFuelConfiguration(toConfigGrades(), tanks);
+
+  const handleSave = async () => {
+    if (!station) return;
+    setSaving(true);
+    const { error } = await fuelConfigurationService.saveConfiguration(station, toConfigGrades(), tanks);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Fuel Configuration Saved", description: `Grades and tanks updated for ${station}` });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[820px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Fuel className="w-5 h-5" />
+            <span>Fuel Grades & Tanks — {station}</span>
+          </DialogTitle>
+          <DialogDescription>
+            The grades this station sells and the tanks that hold them. Sales reports, deliveries and tank reconciliation follow this setup.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isDefault && !loading &&
+        <Alert>
+            <AlertDescription>
+              This station uses the default layout. Saving stores it as the station's own configuration.
+            </AlertDescription>
+          </Alert>
+        }
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">Grades</h4>
+            <Button size="sm" variant="outline" onClick={addGrade} disabled={loading}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Grade
+            </Button>
+          </div>
+          {grades.map((grade, index) =>
+          <div key={index} className="border rounded-lg p-3 space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                <div className="space-y-1">
+                  <Label>Name</Label>
+                  <Input value={grade.label} onChange={(e) => updateGrade(index, { label: e.target.value })} placeholder="e.g. Super 93" />
+                </div>
+                <div className="flex items-center space-x-2 pb-2">
+                  <Switch
+                  checked={grade.is_blended}
+                  onCheckedChange={(checked) => updateGrade(index, { is_blended: checked })} />
+                  <Label>Blended at the dispenser</Label>
+                </div>
+                <div className="flex justify-end">
+                  <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setGrades((prev) => prev.filter((_, i) => i !== index))}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              {grade.is_blended &&
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label>Low Grade</Label>
+                    <Select value={grade.blend_low_grade || ''} onValueChange={(value) => updateGrade(index, { blend_low_grade: value })}>
+                      <SelectTrigger><SelectValue placeholder="Select grade" /></SelectTrigger>
+                      <SelectContent>
+                        {tankGradeOptions.map((option) =>
+                    <SelectItem key={gradeKey(option)} value={gradeKey(option)}>{option.label}</SelectItem>
+                    )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>High Grade</Label>
+                    <Select value={grade.blend_high_grade || ''} onValueChange={(value) => updateGrade(index, { blend_high_grade: value })}>
+                      <SelectTrigger><SelectValue placeholder="Select grade" /></SelectTrigger>
+                      <SelectContent>
+                        {tankGradeOptions.map((option) =>
+                    <SelectItem key={gradeKey(option)} value={gradeKey(option)}>{option.label}</SelectItem>
+                    )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>High Grade Share (%)</Label>
+                    <NumberInput
+                  min={0}
+                  max={100}
+                  value={grade.blend_high_percent || 0}
+                  onChange={(value) => updateGrade(index, { blend_high_percent: value || 0 })} />
+                  </div>
+                </div>
+            }
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">Tanks</h4>
+            <Button size="sm" variant="outline" onClick={addTank} disabled={loading || tankGradeOptions.length === 0}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Tank
+            </Button>
+          </div>
+          {tanks.map((tank, index) =>
+          <div key={index} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end border rounded-lg p-3">
+              <div className="space-y-1">
+                <Label>Tank Number</Label>
+                <NumberInput
+                min={1}
+                precision={0}
+                value={tank.tank_number}
+                onChange={(value) => updateTank(index, { tank_number: value || 0 })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Grade</Label>
+                <Select value={tank.grade} onValueChange={(value) => updateTank(index, { grade: value })}>
+                  <SelectTrigger><SelectValue placeholder="Select grade" /></SelectTrigger>
+                  <SelectContent>
+                    {tankGradeOptions.map((option) =>
+                  <SelectItem key={gradeKey(option)} value={gradeKey(option)}>{option.label}</SelectItem>
+                  )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Capacity (gal)</Label>
+                <NumberInput
+                min={0}
+                value={tank.capacity_gallons}
+                onChange={(value) => updateTank(index, { capacity_gallons: value || 0 })} />
+              </div>
+              <div className="flex justify-end">
+                <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setTanks((prev) => prev.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {errors.length > 0 && !loading &&
+        <Alert variant="destructive">
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {errors.map((error) => <li key={error}>{error}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        }
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading || errors.length > 0}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Configuration'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>);
+
+};
+
+export default StationFuelConfigurationDialog;
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Fuel, ShoppingCart, DollarSign, TrendingUp, Clock, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useStationStore } from '@/hooks/use-station-store';
+import { getSalesGallons, sumGallons } from '@/utils/fuelGrades';
 
 interface SalesData {
   ID: number;
@@ -89,7 +90,7 @@ const StationSalesBoxes: React.FC = () => {
         );
 
         const totalGallons = stationReports.reduce((sum: number, report: SalesData) =>
-        sum + (report.regular_gallons || 0) + (report.super_gallons || 0) + (report.diesel_gallons || 0), 0
+        sum + sumGallons(getSalesGallons(report)), 0
         );
 
         const cashOnHand = stationReports.reduce((sum: number, report: SalesData) =>
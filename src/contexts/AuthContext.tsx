@@ -1,12 +1,20 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
 import { supabaseAdapter } from '@/services/supabase/supabaseAdapter';
 import AuditLoggerService from '@/services/auditLogger';
+import { securitySettingsService } from '@/services/securitySettingsService';
 import { safeToLowerCase, errorLog } from '@/utils/safe-string-utils';
+import { formatPasswordErrors, isSessionExpired, validatePassword } from '@/utils/securityPolicy';
+import { mergeUserPreferences, UserPreferences } from '@/utils/userPreferences';
 
 const auditLogger = AuditLoggerService.getInstance();
 
+// Last user activity (ms), shared by every tab for the idle session timeout
+const LAST_ACTIVITY_KEY = 'dfs_last_activity';
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'];
+const SESSION_CHECK_INTERVAL_MS = 30 * 1000;
+
 interface User {
   ID: string; // Changed to UUID string
   Name: string;
@@ -36,6 +44,7 @@ interface UserProfile {
   profile_image_id?: string | null; // Changed to UUID string
   permissions?: string[] | any; // Added for station access control
   stationAccess?: string[]; // Added for station access control
+  preferences?: Partial<UserPreferences> | null;
 }
 
 interface AuthContextType {
@@ -56,6 +65,9 @@ interface AuthContextType {
   // Dual role checking methods
   checkRoleFromBothSources: (roleToCheck: string) => boolean;
   synchronizeRoles: () => Promise<void>;
+  // Display and notification preferences, defaults filled in
+  preferences: UserPreferences;
+  updatePreferences: (preferences: UserPreferences) => Promise<{error: string | null;}>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -84,6 +96,7 @@ export const AuthProvider: React.FC<{children: React.ReactNode;}> = ({ children
   const { toast } = useToast();
 
   const isAuthenticated = !!user && !!userProfile;
+  const preferences = useMemo(() => mergeUserPreferences(userProfile?.preferences), [userProfile?.preferences]);
 
   const clearError = () => {
     setAuthError(null);
@@ -233,6 +246,69 @@ export const AuthProvider: React.FC<{children: React.ReactNode;}> = ({ children
     initializeAuth();
   }, []);
 
+  const markActivity = () => {
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+  };
+
+  // Sign out without the usual logout toast, e.g. when the session times out
+  const endSession = async (title: string, description: string) => {
+    if (user) {
+      try {
+        await auditLogger.logLogout(user.Email, user.ID);
+      } catch (auditError) {
+        console.warn('Failed to log logout:', auditError);
+      }
+    }
+    await supabase.auth.signOut();
+    localStorage.removeItem(LAST_ACTIVITY_KEY);
+    setUser(null);
+    setUserProfile(GUEST_PROFILE);
+    toast({ title, description, variant: "destructive" });
+  };
+
+  // Enforce the idle session timeout and the IP allowlist while signed in
+  useEffect(() => {
+    if (!user) return;
+
+    let timeoutMinutes = 0;
+    let lastWrite = 0;
+    let ended = false;
+
+    const expireIfIdle = () => {
+      if (!ended && isSessionExpired(Number(localStorage.getItem(LAST_ACTIVITY_KEY)), timeoutMinutes)) {
+        ended = true;
+        endSession("Session Expired", `You were signed out after ${timeoutMinutes} minutes of inactivity`);
+      }
+    };
+
+    // Throttled so constant scrolling does not hammer localStorage
+    const handleActivity = () => {
+      if (Date.now() - lastWrite > 15 * 1000) {
+        lastWrite = Date.now();
+        expireIfIdle();
+        if (!ended) markActivity();
+      }
+    };
+
+    securitySettingsService.getSettings().then(async (settings) => {
+      timeoutMinutes = settings.accountSecurity.sessionTimeout;
+      expireIfIdle();
+
+      const { allowed, ip } = await securitySettingsService.checkIpAllowed(settings);
+      if (!allowed && !ended) {
+        ended = true;
+        endSession("Access Restricted", `Sign-in is not allowed from this network (${ip})`);
+      }
+    });
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    const interval = setInterval(expireIfIdle, SESSION_CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      clearInterval(interval);
+    };
+  }, [user?.ID]);
+
   const login = async (email: string, password: string): Promise<boolean> => {
     // Prevent multiple concurrent login attempts
     if (loginInProgress) {
@@ -247,27 +323,42 @@ export const AuthProvider: React.FC<{children: React.ReactNode;}> = ({ children
       // Small delay to prevent rapid successive calls
       await new Promise((resolve) => setTimeout(resolve, 100));
 
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password
-      });
-
-      if (error) {
+      const rejectLogin = async (message: string) => {
         // Try to log failed login, but don't fail login if audit logging fails
         try {
-          await auditLogger.logLogin(email, false, undefined, error.message);
+          await auditLogger.logLogin(email, false, undefined, message);
         } catch (auditError) {
           console.warn('Failed to log login attempt:', auditError);
         }
-        setAuthError(error.message);
+        setAuthError(message);
         toast({
           title: "Login Failed",
-          description: error.message,
+          description: message,
           variant: "destructive"
         });
         return false;
+      };
+
+      // The IP allowlist is checked here, before trying the password. The
+      // failed-login lockout is enforced by Supabase Auth, which rejects the
+      // sign-in with the time the account unlocks.
+      const securitySettings = await securitySettingsService.getSettings();
+      const { allowed, ip } = await securitySettingsService.checkIpAllowed(securitySettings);
+      if (!allowed) {
+        return rejectLogin(`Sign-in is not allowed from this network (${ip})`);
       }
 
+      const { data, error } = await supabase.auth.signInWithPassword({
+        email,
+        password
+      });
+
+      if (error) {
+        return rejectLogin(error.message);
+      }
+
+      markActivity();
+
       // Add delay to ensure server state is updated
       await new Promise((resolve) => setTimeout(resolve, 200));
 
@@ -323,6 +414,7 @@ export const AuthProvider: React.FC<{children: React.ReactNode;}> = ({ children
       }
 
       await supabase.auth.signOut();
+      localStorage.removeItem(LAST_ACTIVITY_KEY);
 
       setUser(null);
       setUserProfile(GUEST_PROFILE);
@@ -346,6 +438,23 @@ export const AuthProvider: React.FC<{children: React.ReactNode;}> = ({ children
       setIsLoading(true);
       setAuthError(null);
 
+      const securitySettings = await securitySettingsService.getSettings();
+      const passwordError = formatPasswordErrors(validatePassword(password, securitySettings.passwordPolicy));
+      if (passwordError) {
+        try {
+          await auditLogger.logRegistration(email, false, passwordError);
+        } catch (auditError) {
+          console.warn('Failed to log registration failure:', auditError);
+        }
+        setAuthError(passwordError);
+        toast({
+          title: "Registration Failed",
+          description: passwordError,
+          variant: "destructive"
+        });
+        return false;
+      }
+
       const { data, error } = await supabase.auth.signUp({
         email,
         password,
@@ -519,6 +628,20 @@ export const AuthProvider: React.FC<{children: React.ReactNode;}> = ({ children
            userProfile?.role === 'admin';
   };
 
+  const updatePreferences = async (newPreferences: UserPreferences): Promise<{error: string | null;}> => {
+    // Fallback profiles (no user_profiles row yet) reuse the auth user's id
+    if (!user || !userProfile || userProfile.id === user.ID) {
+      return { error: 'Your profile has not been set up yet; contact an administrator' };
+    }
+    const { error } = await supabaseAdapter.tableUpdate(11725, {
+      id: userProfile.id,
+      preferences: newPreferences
+    });
+    if (error) return { error };
+    setUserProfile((prev) => prev ? { ...prev, preferences: newPreferences } : prev);
+    return { error: null };
+  };
+
   const value: AuthContextType = {
     user,
     userProfile,
@@ -535,7 +658,9 @@ export const AuthProvider: React.FC<{children: React.ReactNode;}> = ({ children
     isManager,
     clearError,
     checkRoleFromBothSources,
-    synchronizeRoles
+    synchronizeRoles,
+    preferences,
+    updatePreferences
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
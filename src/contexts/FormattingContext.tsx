@@ -0,0 +1,71 @@
+import React, { createContext, useContext, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  CurrencyPreference,
+  DateFormatPreference,
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+  isDarkTheme,
+  setActivePreferences,
+  UserPreferences } from
+'@/utils/userPreferences';
+
+/**
+ * Formatting helpers bound to the signed-in user's preferences
+ */
+interface FormattingContextType {
+  preferences: UserPreferences;
+  formatDate: (value: string | Date | null | undefined) => string;
+  formatDateTime: (value: string | Date | null | undefined) => string;
+  formatCurrency: (amount: number | null | undefined) => string;
+}
+
+const FormattingContext = createContext<FormattingContextType | undefined>(undefined);
+
+/**
+ * Applies the user's date format, currency and theme across the app
+ */
+export const FormattingProvider: React.FC<{children: React.ReactNode;}> = ({ children }) => {
+  const { preferences } = useAuth();
+
+  // Code outside React (e.g. exports) reads the module-level preferences.
+  // Children rendered in this pass use the context value below, and exports are
+  // started from event handlers, which run after this effect.
+  useEffect(() => {
+    setActivePreferences(preferences);
+  }, [preferences]);
+
+  const value = useMemo<FormattingContextType>(() => {
+    const dateFormat: DateFormatPreference = preferences.dateFormat;
+    const currency: CurrencyPreference = preferences.currency;
+    return {
+      preferences,
+      formatDate: (date) => formatDate(date, dateFormat),
+      formatDateTime: (date) => formatDateTime(date, dateFormat),
+      formatCurrency: (amount) => formatCurrency(amount, currency)
+    };
+  }, [preferences]);
+
+  // Tailwind uses the class strategy (darkMode: ["class"]), so the theme is the
+  // "dark" class on <html>; 'auto' follows the OS setting
+  useEffect(() => {
+    const media = window.matchMedia?.('(prefers-color-scheme: dark)');
+    const applyTheme = () => {
+      document.documentElement.classList.toggle('dark', isDarkTheme(preferences.theme, !!media?.matches));
+    };
+    applyTheme();
+    media?.addEventListener?.('change', applyTheme);
+    return () => media?.removeEventListener?.('change', applyTheme);
+  }, [preferences.theme]);
+
+  return <FormattingContext.Provider value={value}>{children}</FormattingContext.Provider>;
+};
+
+export const useFormatting = (): FormattingContextType => {
+  const context = useContext(FormattingContext);
+  if (context === undefined) {
+    throw new Error('useFormatting must be used within a FormattingProvider');
+  }
+  return context;
+};
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+
+// USB "keyboard wedge" scanners type the code far faster than a person, then
+// press Enter. Keys further apart than this start a new code.
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_BARCODE_LENGTH = 6;
+
+/**
+ * Calls onScan with each code typed by a keyboard-wedge scanner while enabled.
+ * The terminating Enter is swallowed so it does not submit a surrounding form.
+ */
+export const useBarcodeWedge = (onScan: (barcode: string) => void, enabled: boolean = true) => {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const now = Date.now();
+      if (now - lastKeyAt > MAX_KEY_INTERVAL_MS) {
+        buffer = '';
+      }
+      lastKeyAt = now;
+
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        if (buffer.length >= MIN_BARCODE_LENGTH) {
+          event.preventDefault();
+          event.stopPropagation();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [enabled]);
+};
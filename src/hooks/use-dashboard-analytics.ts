@@ -17,7 +17,11 @@ export interface DashboardMetrics {
   fuelSales: {
     current: number;
     gallonsSold: number;
+    gallonsByGrade: Record<string, number>;
     avgPricePerGallon: number;
+    /** Cents per gallon over the gallons with a pump price and delivery cost */
+    marginPerGallon: number | null;
+    marginTrend: Array<{date: string;gallons: number;centsPerGallon: number | null;}>;
     change: number;
   };
   convenienceStoreSales: {
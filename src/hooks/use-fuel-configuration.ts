@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { fuelConfigurationService } from '@/services/fuelConfigurationService';
+import { buildFuelConfiguration, StationFuelConfiguration } from '@/utils/fuelGrades';
+
+/**
+ * Fuel grades and tanks for a station. Renders with the default layout until
+ * the station's configuration has loaded.
+ */
+export const useFuelConfiguration = (station: string) => {
+  const [configuration, setConfiguration] = useState<StationFuelConfiguration>(() => buildFuelConfiguration(station, [], []));
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setConfiguration(await fuelConfigurationService.getConfiguration(station));
+    } catch (error) {
+      console.error('Error loading fuel configuration:', error);
+      setConfiguration(buildFuelConfiguration(station, [], []));
+    } finally {
+      setLoading(false);
+    }
+  }, [station]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return { configuration, loading, reload: load };
+};
@@ -1,4 +1,4 @@
-import { createEzsiteApiReplacement } from '@/services/supabase/supabaseAdapter';
+import { createEzsiteApiReplacement, TablePageParams } from '@/services/supabase/supabaseAdapter';
 import { supabase } from '@/lib/supabase';
 
 // Declare global window interface for TypeScript
@@ -6,7 +6,7 @@ declare global {
   interface Window {
     ezsite: {
       apis: {
-        tablePage: (tableId: string | number, params: any) => Promise<{data: any, error: string | null}>;
+        tablePage: (tableId: string | number, params: TablePageParams) => Promise<{data: any, error: string | null}>;
         tableCreate: (tableId: string | number, data: any) => Promise<{error: string | null}>;
         tableUpdate: (tableId: string | number, data: any) => Promise<{error: string | null}>;
         tableDelete: (tableId: string | number, data: any) => Promise<{error: string | null}>;
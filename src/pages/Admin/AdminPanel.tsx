@@ -434,6 +434,12 @@ const AdminPanel = () => {
               icon={MessageSquare}
               onClick={() => navigate('/admin/sms')} />
 
+            <QuickAdminAction
+              title="Job Scheduler"
+              description="Scheduled license, stock and analytics checks"
+              icon={Clock}
+              onClick={() => navigate('/admin/job-scheduler')} />
+
             <QuickAdminAction
               title="System Logs"
               description="View and manage system logs"
@@ -0,0 +1,265 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import AccessDenied from '@/components/AccessDenied';
+import useAdminAccess from '@/hooks/use-admin-access';
+import { getRunNowError, jobSchedulerService } from '@/services/jobSchedulerService';
+import type { JobRunRow, ScheduledJobRow } from '@/services/supabase/tableRegistry';
+import { CalendarClock, Loader2, Play, RefreshCw } from 'lucide-react';
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  succeeded: 'default',
+  running: 'secondary',
+  skipped: 'outline',
+  failed: 'destructive'
+};
+
+const formatDateTime = (value: string | null) => value ? new Date(value).toLocaleString() : '—';
+
+const summarizeResult = (run: JobRunRow): string => {
+  if (run.error_message) return run.error_message;
+  if (!run.result) return '';
+  return Object.entries(run.result).
+  filter(([, value]) => typeof value === 'number' || typeof value === 'boolean').
+  map(([key, value]) => `${key}: ${value}`).
+  join(', ');
+};
+
+const JobScheduler: React.FC = () => {
+  const { isAdmin } = useAdminAccess();
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<ScheduledJobRow[]>([]);
+  const [runs, setRuns] = useState<JobRunRow[]>([]);
+  const [intervals, setIntervals] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [runningKey, setRunningKey] = useState<string | null>(null);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [jobList, runList] = await Promise.all([
+      jobSchedulerService.getJobs(),
+      jobSchedulerService.getRecentRuns()]
+      );
+      setJobs(jobList);
+      setRuns(runList);
+      setIntervals(Object.fromEntries(jobList.map((job) => [job.id, String(job.interval_minutes ?? '')])));
+    } catch (error) {
+      console.error('Error loading scheduled jobs:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load scheduled jobs',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const toggleJob = async (job: ScheduledJobRow, isActive: boolean) => {
+    const { error } = await jobSchedulerService.setJobActive(job.id!, isActive);
+    if (error) {
+      toast({ title: 'Error', description: error, variant: 'destructive' });
+      return;
+    }
+    setJobs((current) => current.map((entry) => entry.id === job.id ? { ...entry, is_active: isActive } : entry));
+  };
+
+  const saveInterval = async (job: ScheduledJobRow) => {
+    const minutes = Number(intervals[job.id!]);
+    if (minutes === job.interval_minutes) return;
+
+    const { error } = await jobSchedulerService.setJobInterval(job.id!, minutes);
+    if (error) {
+      toast({ title: 'Invalid interval', description: error, variant: 'destructive' });
+      setIntervals((current) => ({ ...current, [job.id!]: String(job.interval_minutes ?? '') }));
+      return;
+    }
+    setJobs((current) => current.map((entry) => entry.id === job.id ? { ...entry, interval_minutes: minutes } : entry));
+    toast({ title: 'Interval updated', description: `${job.job_key} now runs every ${minutes} minute(s)` });
+  };
+
+  const runNow = async (job: ScheduledJobRow) => {
+    setRunningKey(job.job_key);
+    const result = await jobSchedulerService.runNow(job.job_key);
+    setRunningKey(null);
+
+    const outcome = result.outcomes?.find((entry) => entry.jobKey === job.job_key);
+    if (!result.success || outcome?.status === 'failed') {
+      toast({
+        title: 'Job failed',
+        description: outcome?.error || result.error || 'The job worker returned an error',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: outcome ? 'Job completed' : 'Job queued',
+        description: outcome ?
+        `${job.job_key} finished with status ${outcome.status}` :
+        `${job.job_key} is already being run by another worker`
+      });
+    }
+    loadData();
+  };
+
+  if (!isAdmin) {
+    return (
+      <AccessDenied
+        feature="Job Scheduler"
+        requiredRole="Administrator" />);
+
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <CalendarClock className="w-6 h-6" />
+            Job Scheduler
+          </h1>
+          <p className="text-muted-foreground">
+            Scheduled checks and messages run on the server by the job-worker function
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadData} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Jobs</CardTitle>
+          <CardDescription>Recurring jobs run every interval; one-off jobs deactivate after running.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead>Interval (min)</TableHead>
+                <TableHead>Next Run</TableHead>
+                <TableHead>Last Run</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map((job) =>
+              <TableRow key={job.id}>
+                  <TableCell>
+                    <div className="font-medium">{job.job_key}</div>
+                    <div className="text-xs text-muted-foreground">{job.description}</div>
+                  </TableCell>
+                  <TableCell>
+                    {job.interval_minutes === null ?
+                  <span className="text-muted-foreground">One-off</span> :
+
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-24"
+                    value={intervals[job.id!] ?? ''}
+                    onChange={(e) => setIntervals((current) => ({ ...current, [job.id!]: e.target.value }))}
+                    onBlur={() => saveInterval(job)} />
+
+                  }
+                  </TableCell>
+                  <TableCell>{formatDateTime(job.next_run_at)}</TableCell>
+                  <TableCell>
+                    <div>{formatDateTime(job.last_run_at)}</div>
+                    {job.last_status &&
+                  <Badge variant={STATUS_VARIANTS[job.last_status] || 'outline'}>{job.last_status}</Badge>
+                  }
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                    checked={job.is_active}
+                    disabled={!job.interval_minutes && !job.is_active}
+                    onCheckedChange={(checked) => toggleJob(job, checked)} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                    size="sm"
+                    onClick={() => runNow(job)}
+                    disabled={runningKey !== null || getRunNowError(job) !== null}
+                    title={getRunNowError(job) ?? undefined}>
+                      {runningKey === job.job_key ?
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" /> :
+                    <Play className="w-4 h-4 mr-2" />
+                    }
+                      Run Now
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )}
+              {jobs.length === 0 && !loading &&
+              <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No scheduled jobs found
+                  </TableCell>
+                </TableRow>
+              }
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Runs</CardTitle>
+          <CardDescription>Every run is recorded, including its result or error.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job Type</TableHead>
+                <TableHead>Scheduled For</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Finished</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map((run) =>
+              <TableRow key={run.id}>
+                  <TableCell className="font-medium">{run.job_type}</TableCell>
+                  <TableCell>{formatDateTime(run.scheduled_for)}</TableCell>
+                  <TableCell>{formatDateTime(run.started_at)}</TableCell>
+                  <TableCell>{formatDateTime(run.finished_at)}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[run.status] || 'outline'}>{run.status}</Badge>
+                  </TableCell>
+                  <TableCell className="max-w-md truncate text-sm" title={summarizeResult(run)}>
+                    {summarizeResult(run)}
+                  </TableCell>
+                </TableRow>
+              )}
+              {runs.length === 0 && !loading &&
+              <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No runs recorded yet
+                  </TableCell>
+                </TableRow>
+              }
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>);
+
+};
+
+export default JobScheduler;
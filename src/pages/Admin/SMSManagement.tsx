@@ -23,12 +23,13 @@ import {
   Globe } from
 'lucide-react';
 import SMSDiagnosticTool from '@/components/SMSDiagnosticTool';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { clickSendSmsService } from '@/services/clickSendSmsService';
+import { getSmsProvider, normalizeSmsProviderName, SMS_PROVIDER_INFO, SMS_PROVIDER_NAMES } from '@/services/smsProviders';
 
 interface SMSConfig {
   id?: number;
   service_name: string;
-  username: string;
-  api_key: string;
   from_number: string;
   test_mode: boolean;
   is_enabled: boolean;
@@ -69,8 +70,6 @@ const SMSManagement: React.FC = () => {
   const { toast } = useToast();
   const [config, setConfig] = useState<SMSConfig>({
     service_name: 'ClickSend',
-    username: 'mobil3801beach@gmail.com',
-    api_key: '54DC23E4-34D7-C6B1-0601-112E36A46B49',
     from_number: 'DFS',
     test_mode: false,
     is_enabled: true,
@@ -84,6 +83,7 @@ const SMSManagement: React.FC = () => {
   const [smsLogs, setSmsLogs] = useState<SMSLog[]>([]);
   const [dailyUsage, setDailyUsage] = useState({ used: 0, limit: 100, percentage: 0 });
   const [accountBalance, setAccountBalance] = useState<number | null>(null);
+  const providerInfo = SMS_PROVIDER_INFO[normalizeSmsProviderName(config.service_name)];
 
   useEffect(() => {
     loadConfiguration();
@@ -133,9 +133,7 @@ const SMSManagement: React.FC = () => {
         const loadedConfig = data.List[0];
         setConfig({
           id: loadedConfig.id,
-          service_name: loadedConfig.service_name || 'ClickSend',
-          username: loadedConfig.username || 'mobil3801beach@gmail.com',
-          api_key: loadedConfig.api_key || '54DC23E4-34D7-C6B1-0601-112E36A46B49',
+          service_name: normalizeSmsProviderName(loadedConfig.service_name),
           from_number: loadedConfig.from_number || 'DFS',
           test_mode: loadedConfig.test_mode || false,
           is_enabled: loadedConfig.is_enabled !== false,
@@ -175,9 +173,10 @@ const SMSManagement: React.FC = () => {
         if (error) throw new Error(error);
       }
 
+      clickSendSmsService.setProvider(config.service_name);
       toast({
         title: "Configuration Saved",
-        description: "ClickSend SMS configuration has been saved successfully."
+        description: `${config.service_name} SMS configuration has been saved successfully.`
       });
 
       await loadConfiguration();
@@ -195,42 +194,26 @@ const SMSManagement: React.FC = () => {
   const testConnection = async () => {
     setLoading(true);
     try {
-      if (!config.username || !config.api_key) {
-        throw new Error('Username and API key are required');
-      }
-
-      const credentials = btoa(`${config.username}:${config.api_key}`);
-      const response = await fetch('https://rest.clicksend.com/v3/account', {
-        method: 'GET',
-        headers: {
-          'Authorization': `Basic ${credentials}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      const result = await response.json();
-
-      if (response.ok) {
-        if (result.data) {
-          setConnectionStatus('connected');
-          // Safely convert balance to number
-          const balance = safeNumberConversion(result.data.balance);
-          setAccountBalance(balance);
-          toast({
-            title: "Connection Successful",
-            description: `ClickSend API connection is working correctly. Balance: $${balance.toFixed(4)}`
-          });
-        } else {
-          throw new Error('Invalid response from ClickSend API');
-        }
+      // Credentials live on the SMS relay; a balance lookup verifies them
+      const account = await getSmsProvider(config.service_name).getBalance();
+
+      if (account.success) {
+        setConnectionStatus('connected');
+        // Safely convert balance to number
+        const balance = safeNumberConversion(account.balance);
+        setAccountBalance(balance);
+        toast({
+          title: "Connection Successful",
+          description: `${config.service_name} connection is working correctly. Balance: $${balance.toFixed(4)}`
+        });
       } else {
-        throw new Error(result.response_msg || `HTTP ${response.status}: ${response.statusText}`);
+        throw new Error(account.error || 'Invalid response from SMS relay');
       }
     } catch (error) {
       setConnectionStatus('error');
       toast({
         title: "Connection Failed",
-        description: `Failed to connect to ClickSend API: ${error}`,
+        description: `Failed to connect to ${config.service_name}: ${error}`,
         variant: "destructive"
       });
     } finally {
@@ -281,87 +264,24 @@ const SMSManagement: React.FC = () => {
 
     setLoading(true);
     try {
-      if (!config.username || !config.api_key) {
-        throw new Error('SMS service not configured. Please configure credentials first.');
-      }
-
-      const credentials = btoa(`${config.username}:${config.api_key}`);
-
-      const smsData = {
-        messages: [{
-          source: config.from_number,
-          to: testPhone,
-          body: testMessage
-        }]
-      };
-
-      
-
-      const response = await fetch('https://rest.clicksend.com/v3/sms/send', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${credentials}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(smsData)
-      });
-
-      const result = await response.json();
-      
-
-      if (response.ok && result.data?.messages?.[0]) {
-        const messageResult = result.data.messages[0];
-
-        // Log the test SMS
-        try {
-          await window.ezsite.apis.tableCreate(24202, {
-            recipient_phone: testPhone,
-            message_content: testMessage,
-            sender_name: config.from_number,
-            status: messageResult.status === 'SUCCESS' ? 'Sent' : 'Failed',
-            sent_at: new Date().toISOString(),
-            message_id: messageResult.message_id || '',
-            clicksend_message_id: messageResult.message_id || '',
-            cost: safeNumberConversion(messageResult.message_price),
-            error_message: messageResult.status !== 'SUCCESS' ? messageResult.custom_string || 'Unknown error' : '',
-            message_type: 'test',
-            sent_by_user_id: 1
-          });
-        } catch (logError) {
-          console.error('Failed to log SMS:', logError);
-        }
-
-        if (messageResult.status === 'SUCCESS') {
-          const cost = safeNumberConversion(messageResult.message_price);
-          toast({
-            title: "Test SMS Sent Successfully",
-            description: `Message sent to ${testPhone}. Message ID: ${messageResult.message_id}. Cost: $${cost.toFixed(4)}`
-          });
-        } else {
-          // Handle specific error messages
-          let errorMessage = messageResult.custom_string || messageResult.status || 'Failed to send SMS';
-
-          // Check for country-specific errors
-          if (errorMessage.toLowerCase().includes('country not enable') ||
-          errorMessage.toLowerCase().includes('country is not enabled')) {
-            const countryInfo = validateCountryCode(testPhone);
-            errorMessage = `SMS sending to ${countryInfo.country || 'this country'} is not enabled in your ClickSend account. Please enable this destination country in your ClickSend dashboard.`;
-          }
-
-          throw new Error(errorMessage);
-        }
+      // Relay providers send from the saved sender name and log the result to SMS history
+      const result = await getSmsProvider(config.service_name).send({ to: testPhone, message: testMessage, type: 'test' });
+
+      if (result.success) {
+        const cost = safeNumberConversion(result.cost);
+        toast({
+          title: "Test SMS Sent Successfully",
+          description: `Message sent to ${testPhone}. Message ID: ${result.messageId}. Cost: $${cost.toFixed(4)}`
+        });
       } else {
-        // Handle API errors
-        let errorMessage = result.response_msg ||
-        result.error_message || (
-        result.data && typeof result.data === 'string' ? result.data : '') ||
-        `HTTP ${response.status}: ${response.statusText}`;
+        // Handle specific error messages
+        let errorMessage = result.error || result.status || 'Failed to send SMS';
 
-        // Check for country-specific errors in the main response
+        // Check for country-specific errors
         if (errorMessage.toLowerCase().includes('country not enable') ||
         errorMessage.toLowerCase().includes('country is not enabled')) {
           const countryInfo = validateCountryCode(testPhone);
-          errorMessage = `SMS sending to ${countryInfo.country || 'this country'} is not enabled in your ClickSend account. Please enable this destination country in your ClickSend dashboard or contact ClickSend support.`;
+          errorMessage = `SMS sending to ${countryInfo.country || 'this country'} is not enabled in your ClickSend account. Please enable this destination country in your ClickSend dashboard.`;
         }
 
         throw new Error(errorMessage);
@@ -372,25 +292,6 @@ const SMSManagement: React.FC = () => {
     } catch (error) {
       console.error('SMS sending error:', error);
 
-      // Log failed attempt
-      try {
-        await window.ezsite.apis.tableCreate(24202, {
-          recipient_phone: testPhone,
-          message_content: testMessage,
-          sender_name: config.from_number,
-          status: 'Failed',
-          sent_at: new Date().toISOString(),
-          message_id: '',
-          clicksend_message_id: '',
-          cost: 0,
-          error_message: error instanceof Error ? error.message : 'Unknown error',
-          message_type: 'test',
-          sent_by_user_id: 1
-        });
-      } catch (logError) {
-        console.error('Failed to log SMS error:', logError);
-      }
-
       toast({
         title: "Test SMS Failed",
         description: `Failed to send test SMS: ${error}`,
@@ -475,7 +376,7 @@ const SMSManagement: React.FC = () => {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">SMS Management</h1>
           <p className="text-muted-foreground">
-            Manage ClickSend SMS service configuration and monitor message activity
+            Manage SMS provider configuration and monitor message activity
           </p>
         </div>
         <div className="flex items-center space-x-2">
@@ -527,7 +428,7 @@ const SMSManagement: React.FC = () => {
           <CardContent>
             <div className="text-2xl font-bold">{config.is_enabled ? 'Active' : 'Disabled'}</div>
             <p className="text-xs text-muted-foreground">
-              ClickSend SMS {config.test_mode ? '(Test Mode)' : '(Production)'}
+              {providerInfo.label} SMS {config.test_mode ? '(Test Mode)' : '(Production)'}
             </p>
           </CardContent>
         </Card>
@@ -557,34 +458,42 @@ const SMSManagement: React.FC = () => {
         <TabsContent value="config" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>ClickSend Configuration</CardTitle>
+              <CardTitle>SMS Provider Configuration</CardTitle>
               <CardDescription>
-                Configure your ClickSend SMS service credentials and settings
+                Choose the SMS provider and configure the sender and sending limits
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="username">ClickSend Username/Email</Label>
-                  <Input
-                    id="username"
-                    value={config.username}
-                    onChange={(e) => setConfig({ ...config, username: e.target.value })}
-                    placeholder="your-email@example.com" />
-
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="api_key">API Key</Label>
-                  <Input
-                    id="api_key"
-                    type="password"
-                    value={config.api_key}
-                    onChange={(e) => setConfig({ ...config, api_key: e.target.value })}
-                    placeholder="Your ClickSend API Key" />
-
-                </div>
+              <div className="space-y-2">
+                <Label htmlFor="service_name">SMS Provider</Label>
+                <Select
+                  value={config.service_name}
+                  onValueChange={(value) => setConfig({ ...config, service_name: value })}>
+
+                  <SelectTrigger id="service_name">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SMS_PROVIDER_NAMES.map((name) =>
+                    <SelectItem key={name} value={name}>
+                        {SMS_PROVIDER_INFO[name].label}
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {providerInfo.description}
+                </p>
               </div>
 
+              <Alert>
+                <AlertDescription>
+                  {providerInfo.secrets.length > 0 ?
+                  `${providerInfo.label} credentials are stored as the ${providerInfo.secrets.join(' and ')} secrets of the sms-relay server function and are never sent to the browser.` :
+                  'The mock provider records messages in the browser and SMS history without contacting any carrier.'}
+                </AlertDescription>
+              </Alert>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="from_number">Default Sender Name</Label>
@@ -655,7 +564,7 @@ const SMSManagement: React.FC = () => {
             <CardHeader>
               <CardTitle>Send Test SMS</CardTitle>
               <CardDescription>
-                Send a test SMS message to verify your ClickSend configuration
+                Send a test SMS message to verify your SMS provider configuration
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
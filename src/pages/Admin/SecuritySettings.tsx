@@ -15,6 +15,13 @@ import BatchDeleteDialog from '@/components/BatchDeleteDialog';
 import AccessDenied from '@/components/AccessDenied';
 import useAdminAccess from '@/hooks/use-admin-access';
 import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { securitySettingsService } from '@/services/securitySettingsService';
+import {
+  DEFAULT_SECURITY_SETTINGS,
+  isValidAllowlistEntry,
+  SecuritySettings as SecurityPolicy } from
+'@/utils/securityPolicy';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import {
   Shield,
@@ -38,42 +45,6 @@ import {
   RefreshCw } from
 'lucide-react';
 
-interface SecuritySettings {
-  passwordPolicy: {
-    minLength: number;
-    requireUppercase: boolean;
-    requireLowercase: boolean;
-    requireNumbers: boolean;
-    requireSpecialChars: boolean;
-    passwordExpiry: number;
-    preventReuse: number;
-  };
-  accountSecurity: {
-    maxFailedAttempts: number;
-    lockoutDuration: number;
-    requireEmailVerification: boolean;
-    requireTwoFactor: boolean;
-    sessionTimeout: number;
-    allowMultipleSessions: boolean;
-  };
-  systemSecurity: {
-    enableSSL: boolean;
-    enableFirewall: boolean;
-    enableIPWhitelist: boolean;
-    ipWhitelist: string[];
-    enableAuditLogging: boolean;
-    enableDataEncryption: boolean;
-    enableBackupEncryption: boolean;
-  };
-  accessControl: {
-    enableRoleBasedAccess: boolean;
-    requireApprovalForNewUsers: boolean;
-    defaultUserRole: string;
-    enableGuestAccess: boolean;
-    maxConcurrentUsers: number;
-  };
-}
-
 interface SecurityEvent {
   id: string;
   timestamp: string;
@@ -87,43 +58,11 @@ interface SecurityEvent {
 
 const SecuritySettings: React.FC = () => {
   const { isAdmin } = useAdminAccess();
+  const { user } = useAuth();
   const [realTimeConnected, setRealTimeConnected] = useState(false);
   const [lastSyncTime, setLastSyncTime] = useState<string>('');
-  const [settings, setSettings] = useState<SecuritySettings>({
-    passwordPolicy: {
-      minLength: 8,
-      requireUppercase: true,
-      requireLowercase: true,
-      requireNumbers: true,
-      requireSpecialChars: true,
-      passwordExpiry: 90,
-      preventReuse: 12
-    },
-    accountSecurity: {
-      maxFailedAttempts: 5,
-      lockoutDuration: 30,
-      requireEmailVerification: true,
-      requireTwoFactor: false,
-      sessionTimeout: 60,
-      allowMultipleSessions: false
-    },
-    systemSecurity: {
-      enableSSL: true,
-      enableFirewall: true,
-      enableIPWhitelist: false,
-      ipWhitelist: ['192.168.1.0/24'],
-      enableAuditLogging: true,
-      enableDataEncryption: true,
-      enableBackupEncryption: true
-    },
-    accessControl: {
-      enableRoleBasedAccess: true,
-      requireApprovalForNewUsers: true,
-      defaultUserRole: 'Employee',
-      enableGuestAccess: false,
-      maxConcurrentUsers: 50
-    }
-  });
+  const [settings, setSettings] = useState<SecurityPolicy>(DEFAULT_SECURITY_SETTINGS);
+  const [clientIp, setClientIp] = useState<string | null>(null);
 
   const [securityEvents, setSecurityEvents] = useState<SecurityEvent[]>([]);
   const [newIPAddress, setNewIPAddress] = useState('');
@@ -135,6 +74,10 @@ const SecuritySettings: React.FC = () => {
   // Batch selection hook for security events
   const batchSelection = useBatchSelection<SecurityEvent>();
 
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
   useEffect(() => {
     generateSampleSecurityEvents();
     
@@ -251,11 +194,30 @@ const SecuritySettings: React.FC = () => {
     setSecurityEvents(events);
   };
 
+  const loadSettings = async () => {
+    const [stored, ip] = await Promise.all([
+    securitySettingsService.getSettings(true),
+    securitySettingsService.getClientIp()]
+    );
+    setSettings(stored);
+    setClientIp(ip);
+  };
+
   const handleSaveSettings = async () => {
     setIsSaving(true);
     try {
-      // Simulate API call to save settings
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const { error } = await securitySettingsService.saveSettings(settings, {
+        id: user?.ID,
+        email: user?.Email || 'unknown'
+      });
+      if (error) {
+        toast({
+          title: "Error",
+          description: error,
+          variant: "destructive"
+        });
+        return;
+      }
 
       toast({
         title: "Success",
@@ -274,12 +236,21 @@ const SecuritySettings: React.FC = () => {
   };
 
   const addIPToWhitelist = () => {
-    if (newIPAddress && !settings.systemSecurity.ipWhitelist.includes(newIPAddress)) {
+    const entry = newIPAddress.trim();
+    if (!isValidAllowlistEntry(entry)) {
+      toast({
+        title: "Invalid Address",
+        description: "Enter an IP address (e.g. 203.0.113.10) or an IPv4 range (e.g. 192.168.1.0/24)",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (!settings.systemSecurity.ipWhitelist.includes(entry)) {
       setSettings((prev) => ({
         ...prev,
         systemSecurity: {
           ...prev.systemSecurity,
-          ipWhitelist: [...prev.systemSecurity.ipWhitelist, newIPAddress]
+          ipWhitelist: [...prev.systemSecurity.ipWhitelist, entry]
         }
       }));
       setNewIPAddress('');
@@ -718,6 +689,10 @@ const SecuritySettings: React.FC = () => {
 
             </div>
           </div>
+          <p className="text-xs text-gray-500">
+            Failed attempts are counted and the lockout is enforced by Supabase Auth through the password
+            verification hook. If that hook is not enabled for the project, no lockout applies.
+          </p>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="flex items-center justify-between p-3 border rounded-lg">
@@ -870,6 +845,13 @@ const SecuritySettings: React.FC = () => {
             <div>
               <Label>Enable IP Whitelist</Label>
               <p className="text-sm text-gray-500">Only allow access from specified IP addresses</p>
+              <p className="text-xs text-gray-500">
+                Advisory: checked in the browser only, and skipped when your address cannot be determined.
+                Use a firewall or network policy to enforce it.
+              </p>
+              {clientIp &&
+              <p className="text-xs text-gray-500">Your current address: {clientIp}</p>
+              }
             </div>
             <Switch
               checked={settings.systemSecurity.enableIPWhitelist}
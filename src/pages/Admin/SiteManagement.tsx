@@ -14,6 +14,7 @@ import BatchActionBar from '@/components/BatchActionBar';
 import BatchDeleteDialog from '@/components/BatchDeleteDialog';
 import BatchEditDialog from '@/components/BatchEditDialog';
 import EnhancedStationFormDialog from '@/components/EnhancedStationFormDialog';
+import StationFuelConfigurationDialog from '@/components/StationFuelConfigurationDialog';
 import UniversalStationDropdown from '@/components/UniversalStationDropdown';
 import AccessDenied from '@/components/AccessDenied';
 import useAdminAccess from '@/hooks/use-admin-access';
@@ -40,6 +41,7 @@ import {
   Phone,
   Calendar,
   Edit,
+  Fuel,
   Plus,
   Trash2 } from
 'lucide-react';
@@ -110,6 +112,7 @@ const SiteManagement: React.FC = () => {
   } = useStationStore();
 
   const [editingStation, setEditingStation] = useState<Station | null>(null);
+  const [fuelConfigStation, setFuelConfigStation] = useState<string | null>(null);
   const [stationFormDialogOpen, setStationFormDialogOpen] = useState(false);
   const [dialogMode, setDialogMode] = useState<'add' | 'edit'>('add');
   const [isBatchEditDialogOpen, setIsBatchEditDialogOpen] = useState(false);
@@ -224,7 +227,6 @@ const SiteManagement: React.FC = () => {
   const handleTestEmail = async () => {
     try {
       const { error } = await window.ezsite.apis.sendEmail({
-        from: `${settings.emailFromName} <${settings.emailFromAddress}>`,
         to: [settings.emailFromAddress],
         subject: 'DFS Manager - Email Configuration Test',
         html: `
@@ -601,6 +603,15 @@ const SiteManagement: React.FC = () => {
                           <Button
                         size="sm"
                         variant="outline"
+                        onClick={() => setFuelConfigStation(station.station_name)}
+                        className="h-8 w-8 p-0"
+                        title="Fuel grades & tanks">
+
+                            <Fuel className="w-4 h-4" />
+                          </Button>
+                          <Button
+                        size="sm"
+                        variant="outline"
                         onClick={async () => {
                           if (window.confirm(`Are you sure you want to delete "${station.station_name}"?`)) {
                             const result = await removeStation(station.id.toString());
@@ -918,6 +929,13 @@ const SiteManagement: React.FC = () => {
         }}
       />
 
+      {/* Fuel Grades & Tanks Dialog */}
+      <StationFuelConfigurationDialog
+        station={fuelConfigStation}
+        isOpen={!!fuelConfigStation}
+        onClose={() => setFuelConfigStation(null)} />
+
+
       {/* Batch Edit Dialog */}
       <BatchEditDialog
         isOpen={isBatchEditDialogOpen}
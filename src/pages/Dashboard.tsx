@@ -18,6 +18,7 @@ import {
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
+import FuelMarginTrendCard from '@/components/FuelMarginTrendCard';
 
 interface DashboardStats {
   totalEmployees: number;
@@ -258,6 +259,8 @@ const Dashboard = () => {
             </Card>
           }
 
+          {isManager() && <FuelMarginTrendCard station={userProfile?.station || 'ALL'} />}
+
           {/* Recent Activity */}
           <Card className="p-6">
             <div className="flex items-center space-x-2 mb-4">
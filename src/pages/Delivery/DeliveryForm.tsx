@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -10,37 +10,36 @@ import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { ArrowLeft, Truck, Save, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
 import StationDropdown from '@/components/StationDropdown';
+import { useFuelConfiguration } from '@/hooks/use-fuel-configuration';
+import {
+  getAfterDeliveryFinals,
+  getDeliveryVolumes,
+  getGradeCapacity,
+  getTankGrades,
+  GradeDelivery,
+  GradeGallons,
+  toLegacyDeliveryColumns,
+  toLegacyFinalColumns,
+  withRecordedGrades } from
+'@/utils/fuelGrades';
+import { roundTo } from '@/utils/valueHelpers';
 
 interface DeliveryRecord {
   id?: number;
   delivery_date: string;
   bol_number: string;
   station: string;
-  regular_tank_volume: number;
-  plus_tank_volume: number;
-  super_tank_volume: number;
-  regular_delivered: number;
-  plus_delivered: number;
-  super_delivered: number;
+  fuel_deliveries: Record<string, GradeDelivery>;
   delivery_notes: string;
   created_by: number;
 }
 
-interface AfterDeliveryReport {
-  regular_tank_final: number;
-  plus_tank_final: number;
-  super_tank_final: number;
+interface GradeDiscrepancy {
+  expected: number;
+  discrepancy: number;
 }
 
-interface DiscrepancyData {
-  regular_expected: number;
-  plus_expected: number;
-  super_expected: number;
-  regular_discrepancy: number;
-  plus_discrepancy: number;
-  super_discrepancy: number;
-  has_discrepancy: boolean;
-}
+const DISCREPANCY_TOLERANCE = 5; // 5 gallon tolerance
 
 const DeliveryForm: React.FC = () => {
   const navigate = useNavigate();
@@ -51,58 +50,42 @@ const DeliveryForm: React.FC = () => {
     delivery_date: new Date().toISOString().split('T')[0],
     bol_number: '',
     station: '',
-    regular_tank_volume: 0,
-    plus_tank_volume: 0,
-    super_tank_volume: 0,
-    regular_delivered: 0,
-    plus_delivered: 0,
-    super_delivered: 0,
+    fuel_deliveries: {},
     delivery_notes: '',
     created_by: 1 // This should be set from auth context
   });
 
-  const [afterDeliveryData, setAfterDeliveryData] = useState<AfterDeliveryReport>({
-    regular_tank_final: 0,
-    plus_tank_final: 0,
-    super_tank_final: 0
-  });
+  const [afterDeliveryData, setAfterDeliveryData] = useState<GradeGallons>({});
 
-  const [discrepancyData, setDiscrepancyData] = useState<DiscrepancyData>({
-    regular_expected: 0,
-    plus_expected: 0,
-    super_expected: 0,
-    regular_discrepancy: 0,
-    plus_discrepancy: 0,
-    super_discrepancy: 0,
-    has_discrepancy: false
-  });
+  const { configuration } = useFuelConfiguration(formData.station);
+
+  // Grades kept in tanks at the station, plus any other grade with gallons on this record
+  const grades = useMemo(() => withRecordedGrades(
+    getTankGrades(configuration),
+    Object.keys(formData.fuel_deliveries).filter((grade) =>
+    formData.fuel_deliveries[grade]?.tank_volume || formData.fuel_deliveries[grade]?.delivered
+    )
+  ), [configuration, formData.fuel_deliveries]);
 
   // Calculate expected tank levels and discrepancies
-  useEffect(() => {
-    const regular_expected = formData.regular_tank_volume + formData.regular_delivered;
-    const plus_expected = formData.plus_tank_volume + formData.plus_delivered;
-    const super_expected = formData.super_tank_volume + formData.super_delivered;
-
-    const regular_discrepancy = afterDeliveryData.regular_tank_final - regular_expected;
-    const plus_discrepancy = afterDeliveryData.plus_tank_final - plus_expected;
-    const super_discrepancy = afterDeliveryData.super_tank_final - super_expected;
-
-    const tolerance = 5; // 5 gallon tolerance
-    const has_discrepancy =
-    Math.abs(regular_discrepancy) > tolerance ||
-    Math.abs(plus_discrepancy) > tolerance ||
-    Math.abs(super_discrepancy) > tolerance;
-
-    setDiscrepancyData({
-      regular_expected,
-      plus_expected,
-      super_expected,
-      regular_discrepancy,
-      plus_discrepancy,
-      super_discrepancy,
-      has_discrepancy
-    });
-  }, [formData, afterDeliveryData.regular_tank_final, afterDeliveryData.plus_tank_final, afterDeliveryData.super_tank_final]);
+  const discrepancies = useMemo<Record<string, GradeDiscrepancy>>(() =>
+  Object.fromEntries(grades.map(({ grade }) => {
+    const expected = (formData.fuel_deliveries[grade]?.tank_volume || 0) + (formData.fuel_deliveries[grade]?.delivered || 0);
+    return [grade, { expected, discrepancy: (afterDeliveryData[grade] || 0) - expected }];
+  })),
+  [grades, formData.fuel_deliveries, afterDeliveryData]);
+
+  const hasDiscrepancy = Object.values(discrepancies).some((entry) => Math.abs(entry.discrepancy) > DISCREPANCY_TOLERANCE);
+  const hasFinalReadings = Object.values(afterDeliveryData).some((value) => value > 0);
+
+  // Delivery-wide cost per gallon, weighted by gallons, for grades with a cost entered
+  const averageCostPerGallon = useMemo(() => {
+    const costed = Object.values(formData.fuel_deliveries).filter((entry) => entry.delivered > 0 && entry.cost_per_gallon > 0);
+    const gallons = costed.reduce((sum, entry) => sum + entry.delivered, 0);
+    return gallons > 0 ?
+    roundTo(costed.reduce((sum, entry) => sum + entry.delivered * entry.cost_per_gallon, 0) / gallons, 4) :
+    null;
+  }, [formData.fuel_deliveries]);
 
   useEffect(() => {
     if (id) {
@@ -121,12 +104,7 @@ const DeliveryForm: React.FC = () => {
       if (error) throw error;
 
       if (data?.List?.length > 0) {
-        const report = data.List[0];
-        setAfterDeliveryData({
-          regular_tank_final: report.regular_tank_final || 0,
-          plus_tank_final: report.plus_tank_final || 0,
-          super_tank_final: report.super_tank_final || 0
-        });
+        setAfterDeliveryData(getAfterDeliveryFinals(data.List[0]));
       }
     } catch (error) {
       console.error('Error loading after delivery report:', error);
@@ -147,7 +125,12 @@ const DeliveryForm: React.FC = () => {
       if (data?.List?.length > 0) {
         const record = data.List[0];
         setFormData({
-          ...record,
+          id: record.id,
+          bol_number: record.bol_number || '',
+          station: record.station || '',
+          fuel_deliveries: getDeliveryVolumes(record),
+          delivery_notes: record.delivery_notes || '',
+          created_by: record.created_by,
           delivery_date: record.delivery_date ? new Date(record.delivery_date).toISOString().split('T')[0] : ''
         });
 
@@ -193,6 +176,8 @@ const DeliveryForm: React.FC = () => {
 
       const submitData = {
         ...formData,
+        ...toLegacyDeliveryColumns(formData.fuel_deliveries),
+        price_per_gallon: averageCostPerGallon,
         delivery_date: new Date(formData.delivery_date).toISOString()
       };
 
@@ -222,15 +207,14 @@ const DeliveryForm: React.FC = () => {
       }
 
       // Save after-delivery tank report if any final tank values are provided
-      if (afterDeliveryData.regular_tank_final > 0 || afterDeliveryData.plus_tank_final > 0 || afterDeliveryData.super_tank_final > 0) {
+      if (hasFinalReadings) {
         const afterDeliverySubmitData = {
           report_date: new Date().toISOString(),
           station: formData.station,
           delivery_record_id: deliveryRecordId,
           bol_number: formData.bol_number,
-          regular_tank_final: afterDeliveryData.regular_tank_final,
-          plus_tank_final: afterDeliveryData.plus_tank_final,
-          super_tank_final: afterDeliveryData.super_tank_final,
+          ...toLegacyFinalColumns(afterDeliveryData),
+          tank_finals: afterDeliveryData,
           created_by: formData.created_by
         };
 
@@ -244,7 +228,7 @@ const DeliveryForm: React.FC = () => {
         if (existingReport?.List?.length > 0) {
           // Update existing report
           const { error: afterError } = await window.ezsite.apis.tableUpdate(12331, {
-            ID: existingReport.List[0].ID,
+            ID: existingReport.List[0].id ?? existingReport.List[0].ID,
             ...afterDeliverySubmitData
           });
           if (afterError) throw afterError;
@@ -275,13 +259,25 @@ const DeliveryForm: React.FC = () => {
     }));
   };
 
-  const handleAfterDeliveryChange = (field: keyof AfterDeliveryReport, value: any) => {
+  const handleGradeDeliveryChange = (grade: string, field: keyof GradeDelivery, value: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      fuel_deliveries: {
+        ...prev.fuel_deliveries,
+        [grade]: { tank_volume: 0, delivered: 0, ...prev.fuel_deliveries[grade], [field]: value || 0 }
+      }
+    }));
+  };
+
+  const handleAfterDeliveryChange = (grade: string, value: number) => {
     setAfterDeliveryData((prev) => ({
       ...prev,
-      [field]: value
+      [grade]: value || 0
     }));
   };
 
+  const gridColumns = grades.length >= 3 ? 'md:grid-cols-3' : grades.length === 2 ? 'md:grid-cols-2' : 'md:grid-cols-1';
+
   if (loading && id) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -365,36 +361,21 @@ const DeliveryForm: React.FC = () => {
             <CardTitle>Before Delivery Tank Report</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div>
-                <Label htmlFor="regular_tank_volume">Regular Tank Volume (Gallons)</Label>
-                <NumberInput
-                  id="regular_tank_volume"
-                  step="0.01"
-                  value={formData.regular_tank_volume}
-                  onChange={(value) => handleInputChange('regular_tank_volume', value)} />
-
-              </div>
-              
-              <div>
-                <Label htmlFor="plus_tank_volume">Plus Tank Volume (Gallons)</Label>
-                <NumberInput
-                  id="plus_tank_volume"
-                  step="0.01"
-                  value={formData.plus_tank_volume}
-                  onChange={(value) => handleInputChange('plus_tank_volume', value)} />
-
-              </div>
-              
-              <div>
-                <Label htmlFor="super_tank_volume">Super Tank Volume (Gallons)</Label>
-                <NumberInput
-                  id="super_tank_volume"
+            <div className={`grid grid-cols-1 ${gridColumns} gap-4`}>
+              {grades.map(({ grade, label }) =>
+              <div key={grade}>
+                  <Label htmlFor={`${grade}_tank_volume`}>{label} Tank Volume (Gallons)</Label>
+                  <NumberInput
+                  id={`${grade}_tank_volume`}
                   step="0.01"
-                  value={formData.super_tank_volume}
-                  onChange={(value) => handleInputChange('super_tank_volume', value)} />
+                  value={formData.fuel_deliveries[grade]?.tank_volume || 0}
+                  onChange={(value) => handleGradeDeliveryChange(grade, 'tank_volume', value)} />
 
-              </div>
+                  {getGradeCapacity(configuration, grade) > 0 &&
+                <p className="text-xs text-gray-500 mt-1">Capacity {getGradeCapacity(configuration, grade).toFixed(0)} gal</p>
+                }
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -405,37 +386,31 @@ const DeliveryForm: React.FC = () => {
             <CardTitle>Delivery Amounts</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div>
-                <Label htmlFor="regular_delivered">Regular Delivered (Gallons)</Label>
-                <NumberInput
-                  id="regular_delivered"
-                  step="0.01"
-                  value={formData.regular_delivered}
-                  onChange={(value) => handleInputChange('regular_delivered', value)} />
-
-              </div>
-              
-              <div>
-                <Label htmlFor="plus_delivered">Plus Delivered (Gallons)</Label>
-                <NumberInput
-                  id="plus_delivered"
+            <div className={`grid grid-cols-1 ${gridColumns} gap-4`}>
+              {grades.map(({ grade, label }) =>
+              <div key={grade}>
+                  <Label htmlFor={`${grade}_delivered`}>{label} Delivered (Gallons)</Label>
+                  <NumberInput
+                  id={`${grade}_delivered`}
                   step="0.01"
-                  value={formData.plus_delivered}
-                  onChange={(value) => handleInputChange('plus_delivered', value)} />
+                  value={formData.fuel_deliveries[grade]?.delivered || 0}
+                  onChange={(value) => handleGradeDeliveryChange(grade, 'delivered', value)} />
 
-              </div>
-              
-              <div>
-                <Label htmlFor="super_delivered">Super Delivered (Gallons)</Label>
-                <NumberInput
-                  id="super_delivered"
-                  step="0.01"
-                  value={formData.super_delivered}
-                  onChange={(value) => handleInputChange('super_delivered', value)} />
+                  <Label htmlFor={`${grade}_cost_per_gallon`} className="block mt-3">{label} Cost per Gallon ($)</Label>
+                  <NumberInput
+                  id={`${grade}_cost_per_gallon`}
+                  step="0.0001"
+                  precision={4}
+                  value={formData.fuel_deliveries[grade]?.cost_per_gallon || 0}
+                  onChange={(value) => handleGradeDeliveryChange(grade, 'cost_per_gallon', value)} />
 
-              </div>
+                </div>
+              )}
             </div>
+            <p className="text-sm text-gray-600">
+              Cost per gallon from the BOL or invoice is used to cost gallons sold for the fuel margin.
+              {averageCostPerGallon !== null && ` Average for this delivery: $${averageCostPerGallon.toFixed(4)}/gal.`}
+            </p>
           </CardContent>
         </Card>
 
@@ -445,36 +420,24 @@ const DeliveryForm: React.FC = () => {
             <CardTitle>After Delivery Tank Report</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div>
-                <Label htmlFor="regular_tank_final">Regular Tank Final (Gallons)</Label>
-                <NumberInput
-                  id="regular_tank_final"
-                  step="0.01"
-                  value={afterDeliveryData.regular_tank_final}
-                  onChange={(value) => handleAfterDeliveryChange('regular_tank_final', value)} />
-
-              </div>
-              
-              <div>
-                <Label htmlFor="plus_tank_final">Plus Tank Final (Gallons)</Label>
-                <NumberInput
-                  id="plus_tank_final"
-                  step="0.01"
-                  value={afterDeliveryData.plus_tank_final}
-                  onChange={(value) => handleAfterDeliveryChange('plus_tank_final', value)} />
-
-              </div>
-              
-              <div>
-                <Label htmlFor="super_tank_final">Super Tank Final (Gallons)</Label>
-                <NumberInput
-                  id="super_tank_final"
-                  step="0.01"
-                  value={afterDeliveryData.super_tank_final}
-                  onChange={(value) => handleAfterDeliveryChange('super_tank_final', value)} />
-
-              </div>
+            <div className={`grid grid-cols-1 ${gridColumns} gap-4`}>
+              {grades.map(({ grade, label }) => {
+                const capacity = getGradeCapacity(configuration, grade);
+                return (
+                  <div key={grade}>
+                    <Label htmlFor={`${grade}_tank_final`}>{label} Tank Final (Gallons)</Label>
+                    <NumberInput
+                      id={`${grade}_tank_final`}
+                      step="0.01"
+                      value={afterDeliveryData[grade] || 0}
+                      onChange={(value) => handleAfterDeliveryChange(grade, value)} />
+
+                    {capacity > 0 && (afterDeliveryData[grade] || 0) > capacity &&
+                    <p className="text-xs text-red-600 mt-1">Above the {capacity.toFixed(0)} gal tank capacity</p>
+                    }
+                  </div>);
+
+              })}
             </div>
           </CardContent>
         </Card>
@@ -483,7 +446,7 @@ const DeliveryForm: React.FC = () => {
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              {discrepancyData.has_discrepancy ?
+              {hasDiscrepancy ?
               <AlertTriangle className="h-5 w-5 text-red-500" /> :
 
               <CheckCircle className="h-5 w-5 text-green-500" />
@@ -492,95 +455,60 @@ const DeliveryForm: React.FC = () => {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            {discrepancyData.has_discrepancy &&
+            {hasDiscrepancy &&
             <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
                 <div className="flex items-center gap-2 mb-2">
                   <XCircle className="h-4 w-4 text-red-500" />
                   <span className="font-medium text-red-800">Discrepancies Detected</span>
                 </div>
                 <p className="text-red-700 text-sm">
-                  One or more tank levels show discrepancies greater than 5 gallons. Please review and verify the measurements.
+                  One or more tank levels show discrepancies greater than {DISCREPANCY_TOLERANCE} gallons. Please review and verify the measurements.
                 </p>
               </div>
             }
             
-            {!discrepancyData.has_discrepancy && (afterDeliveryData.regular_tank_final > 0 || afterDeliveryData.plus_tank_final > 0 || afterDeliveryData.super_tank_final > 0) &&
+            {!hasDiscrepancy && hasFinalReadings &&
             <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
                 <div className="flex items-center gap-2 mb-2">
                   <CheckCircle className="h-4 w-4 text-green-500" />
                   <span className="font-medium text-green-800">All Measurements Verified</span>
                 </div>
                 <p className="text-green-700 text-sm">
-                  Tank levels are within acceptable tolerance limits (±5 gallons).
+                  Tank levels are within acceptable tolerance limits (±{DISCREPANCY_TOLERANCE} gallons).
                 </p>
               </div>
             }
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div>
-                <h4 className="font-medium text-gray-700 mb-2">Regular Gas</h4>
-                <div className="space-y-1 text-sm">
-                  <div className="flex justify-between">
-                    <span>Before + Delivered:</span>
-                    <span>{discrepancyData.regular_expected.toFixed(2)} gal</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>After Delivery:</span>
-                    <span>{afterDeliveryData.regular_tank_final.toFixed(2)} gal</span>
-                  </div>
-                  <div className={`flex justify-between font-medium ${
-                  Math.abs(discrepancyData.regular_discrepancy) > 5 ? 'text-red-600' : 'text-green-600'}`
-                  }>
-                    <span>Difference:</span>
-                    <span>{discrepancyData.regular_discrepancy >= 0 ? '+' : ''}{discrepancyData.regular_discrepancy.toFixed(2)} gal</span>
-                  </div>
-                </div>
-              </div>
-              
-              <div>
-                <h4 className="font-medium text-gray-700 mb-2">Plus Gas</h4>
-                <div className="space-y-1 text-sm">
-                  <div className="flex justify-between">
-                    <span>Before + Delivered:</span>
-                    <span>{discrepancyData.plus_expected.toFixed(2)} gal</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>After Delivery:</span>
-                    <span>{afterDeliveryData.plus_tank_final.toFixed(2)} gal</span>
-                  </div>
-                  <div className={`flex justify-between font-medium ${
-                  Math.abs(discrepancyData.plus_discrepancy) > 5 ? 'text-red-600' : 'text-green-600'}`
-                  }>
-                    <span>Difference:</span>
-                    <span>{discrepancyData.plus_discrepancy >= 0 ? '+' : ''}{discrepancyData.plus_discrepancy.toFixed(2)} gal</span>
-                  </div>
-                </div>
-              </div>
-              
-              <div>
-                <h4 className="font-medium text-gray-700 mb-2">Super Gas</h4>
-                <div className="space-y-1 text-sm">
-                  <div className="flex justify-between">
-                    <span>Before + Delivered:</span>
-                    <span>{discrepancyData.super_expected.toFixed(2)} gal</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>After Delivery:</span>
-                    <span>{afterDeliveryData.super_tank_final.toFixed(2)} gal</span>
-                  </div>
-                  <div className={`flex justify-between font-medium ${
-                  Math.abs(discrepancyData.super_discrepancy) > 5 ? 'text-red-600' : 'text-green-600'}`
-                  }>
-                    <span>Difference:</span>
-                    <span>{discrepancyData.super_discrepancy >= 0 ? '+' : ''}{discrepancyData.super_discrepancy.toFixed(2)} gal</span>
-                  </div>
-                </div>
-              </div>
+            <div className={`grid grid-cols-1 ${gridColumns} gap-4`}>
+              {grades.map(({ grade, label }) => {
+                const { expected = 0, discrepancy = 0 } = discrepancies[grade] || {};
+                return (
+                  <div key={grade}>
+                    <h4 className="font-medium text-gray-700 mb-2">{label}</h4>
+                    <div className="space-y-1 text-sm">
+                      <div className="flex justify-between">
+                        <span>Before + Delivered:</span>
+                        <span>{expected.toFixed(2)} gal</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>After Delivery:</span>
+                        <span>{(afterDeliveryData[grade] || 0).toFixed(2)} gal</span>
+                      </div>
+                      <div className={`flex justify-between font-medium ${
+                      Math.abs(discrepancy) > DISCREPANCY_TOLERANCE ? 'text-red-600' : 'text-green-600'}`
+                      }>
+                        <span>Difference:</span>
+                        <span>{discrepancy >= 0 ? '+' : ''}{discrepancy.toFixed(2)} gal</span>
+                      </div>
+                    </div>
+                  </div>);
+
+              })}
             </div>
             
             <div className="bg-gray-50 rounded-lg p-3">
               <p className="text-sm text-gray-600">
-                <strong>Note:</strong> Acceptable tolerance is ±5 gallons. Differences outside this range should be investigated and documented.
+                <strong>Note:</strong> Acceptable tolerance is ±{DISCREPANCY_TOLERANCE} gallons. Differences outside this range should be investigated and documented.
               </p>
             </div>
           </CardContent>
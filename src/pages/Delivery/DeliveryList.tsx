@@ -6,10 +6,11 @@ import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Search, Edit, Trash2, Truck, Filter, Download, Eye } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Truck, Filter, Download, Eye, Fuel } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useStationStore } from '@/hooks/use-station-store';
+import { formatGradeKey, getDeliveryVolumes } from '@/utils/fuelGrades';
 
 import EnhancedDeliveryPrintDialog from '@/components/EnhancedDeliveryPrintDialog';
 
@@ -24,6 +25,7 @@ interface DeliveryRecord {
   regular_delivered: number;
   plus_delivered: number;
   super_delivered: number;
+  fuel_deliveries?: Record<string, {tank_volume: number;delivered: number;}>;
   delivery_notes: string;
   created_by: number;
 }
@@ -194,11 +196,11 @@ const DeliveryList: React.FC = () => {
   };
 
   const getTotalDelivered = (record: DeliveryRecord) => {
-    return record.regular_delivered + record.plus_delivered + record.super_delivered;
+    return Object.values(getDeliveryVolumes(record)).reduce((sum, volume) => sum + volume.delivered, 0);
   };
 
   const getTotalTankVolume = (record: DeliveryRecord) => {
-    return record.regular_tank_volume + record.plus_tank_volume + record.super_tank_volume;
+    return Object.values(getDeliveryVolumes(record)).reduce((sum, volume) => sum + volume.tank_volume, 0);
   };
 
   // Use centralized station text badge color mapping
@@ -231,10 +233,16 @@ const DeliveryList: React.FC = () => {
             <Truck className="h-6 w-6 text-blue-600" />
             <h1 className="text-2xl font-bold text-gray-900">Delivery Records</h1>
           </div>
-          <Button onClick={() => navigate('/delivery/new')}>
-            <Plus className="mr-2 h-4 w-4" />
-            New Delivery
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate('/delivery/reconciliation')}>
+              <Fuel className="mr-2 h-4 w-4" />
+              Tank Reconciliation
+            </Button>
+            <Button onClick={() => navigate('/delivery/new')}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Delivery
+            </Button>
+          </div>
         </div>
 
         {/* Search and Filter */}
@@ -340,9 +348,8 @@ const DeliveryList: React.FC = () => {
                       <TableHead>Date</TableHead>
                       <TableHead>BOL Number</TableHead>
                       <TableHead>Station Name</TableHead>
-                      <TableHead>Regular (Delivered)</TableHead>
-                      <TableHead>Plus Delivered</TableHead>
-                      <TableHead>Super Delivered</TableHead>
+                      <TableHead>Delivered by Grade</TableHead>
+                      <TableHead>Total Delivered</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -363,14 +370,17 @@ const DeliveryList: React.FC = () => {
                             {delivery.station}
                           </Badge>
                         </TableCell>
-                        <TableCell className="font-medium text-blue-600">
-                          {formatNumber(delivery.regular_delivered)} gal
-                        </TableCell>
-                        <TableCell className="font-medium text-green-600">
-                          {formatNumber(delivery.plus_delivered)} gal
+                        <TableCell className="text-sm">
+                          {Object.entries(getDeliveryVolumes(delivery)).
+                      filter(([, volume]) => volume.delivered > 0).
+                      map(([grade, volume]) =>
+                      <div key={grade}>
+                                {formatGradeKey(grade)}: <span className="font-medium text-blue-600">{formatNumber(volume.delivered)} gal</span>
+                              </div>
+                      )}
                         </TableCell>
                         <TableCell className="font-medium text-purple-600">
-                          {formatNumber(delivery.super_delivered)} gal
+                          {formatNumber(getTotalDelivered(delivery))} gal
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center space-x-2">
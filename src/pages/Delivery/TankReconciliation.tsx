@@ -0,0 +1,361 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NumberInput } from '@/components/ui/number-input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStationStore } from '@/hooks/use-station-store';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, ArrowLeft, Fuel, Save, Settings } from 'lucide-react';
+import { tankReconciliationService, TankReconciliation as Reconciliation } from '@/services/tankReconciliationService';
+import { useFuelConfiguration } from '@/hooks/use-fuel-configuration';
+import { getGradeLabel, getTankGrades } from '@/utils/fuelGrades';
+import {
+  DEFAULT_VARIANCE_THRESHOLDS,
+  TankLedgerEntry,
+  VarianceFlag,
+  VarianceThresholds } from
+'@/utils/tankReconciliation';
+
+const today = () => new Date().toISOString().split('T')[0];
+const startOfMonth = () => `${today().slice(0, 8)}01`;
+
+const formatGallons = (value: number | null) =>
+value === null ? '—' : value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const FLAG_LABELS: Record<VarianceFlag, string> = {
+  none: 'Within limit',
+  loss: 'Possible leak or theft',
+  gain: 'Unexplained gain'
+};
+
+const flagBadge = (flag: VarianceFlag) =>
+<Badge className={flag === 'none' ? 'bg-green-500 text-white' : flag === 'loss' ? 'bg-red-500 text-white' : 'bg-yellow-500 text-white'}>
+    {FLAG_LABELS[flag]}
+  </Badge>;
+
+
+const TankReconciliation: React.FC = () => {
+  const { toast } = useToast();
+  const { user, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const { getFilteredStationOptions } = useStationStore();
+  const stations = getFilteredStationOptions(false).map((option) => option.value);
+
+  const [station, setStation] = useState<string>('');
+  const { configuration } = useFuelConfiguration(station);
+  const grades = getTankGrades(configuration);
+  const [fromDate, setFromDate] = useState(startOfMonth());
+  const [toDate, setToDate] = useState(today());
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const [readingDate, setReadingDate] = useState(today());
+  const [readings, setReadings] = useState<Record<string, number>>({});
+  const [savingReadings, setSavingReadings] = useState(false);
+
+  const [thresholds, setThresholds] = useState<VarianceThresholds>(DEFAULT_VARIANCE_THRESHOLDS);
+  const [savingThresholds, setSavingThresholds] = useState(false);
+
+  useEffect(() => {
+    if (!station && stations.length > 0) {
+      setStation(stations[0]);
+    }
+  }, [stations.length]);
+
+  useEffect(() => {
+    if (station) {
+      loadReconciliation();
+    }
+  }, [station, fromDate, toDate]);
+
+  const loadReconciliation = async () => {
+    try {
+      setLoading(true);
+      const result = await tankReconciliationService.getReconciliation(station, fromDate, toDate);
+      setReconciliation(result);
+      setThresholds(result.thresholds);
+    } catch (error) {
+      console.error('Error loading tank reconciliation:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load tank reconciliation',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveReadings = async () => {
+    if (Object.keys(readings).length === 0) {
+      toast({ title: 'No readings', description: 'Enter at least one stick reading', variant: 'destructive' });
+      return;
+    }
+
+    setSavingReadings(true);
+    const { error } = await tankReconciliationService.saveReadings(station, readingDate, readings, user?.Email || 'unknown');
+    setSavingReadings(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Stick readings saved', description: `${station} closing readings for ${readingDate}` });
+    setReadings({});
+    loadReconciliation();
+  };
+
+  const saveThresholds = async () => {
+    setSavingThresholds(true);
+    const { error } = await tankReconciliationService.saveThresholds(station, thresholds);
+    setSavingThresholds(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Thresholds saved', description: `Variance thresholds updated for ${station}` });
+    loadReconciliation();
+  };
+
+  const latestEntries = grades.
+  map(({ grade }) => reconciliation?.ledgers[grade]?.slice(-1)[0]).
+  filter((entry): entry is TankLedgerEntry => Boolean(entry));
+
+  const renderLedger = (entries: TankLedgerEntry[]) =>
+  entries.length === 0 ?
+  <p className="text-center py-8 text-gray-500">No stick readings recorded for this grade in the selected period</p> :
+
+  <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead className="text-right">Opening</TableHead>
+            <TableHead className="text-right">+ Delivered</TableHead>
+            <TableHead className="text-right">− Sold</TableHead>
+            <TableHead className="text-right">Book</TableHead>
+            <TableHead className="text-right">Stick</TableHead>
+            <TableHead className="text-right">Daily Variance</TableHead>
+            <TableHead className="text-right">Cumulative</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.map((entry) => {
+        const flag = entry.dailyFlag !== 'none' ? entry.dailyFlag : entry.cumulativeFlag;
+        return (
+          <TableRow key={entry.date} className={flag === 'loss' ? 'bg-red-50' : flag === 'gain' ? 'bg-yellow-50' : ''}>
+                <TableCell className="font-medium">{new Date(`${entry.date}T00:00:00`).toLocaleDateString()}</TableCell>
+                <TableCell className="text-right">{formatGallons(entry.openingGallons)}</TableCell>
+                <TableCell className="text-right">{formatGallons(entry.deliveredGallons)}</TableCell>
+                <TableCell className="text-right">{formatGallons(entry.soldGallons)}</TableCell>
+                <TableCell className="text-right">{formatGallons(entry.bookGallons)}</TableCell>
+                <TableCell className="text-right">{formatGallons(entry.closingGallons)}</TableCell>
+                <TableCell className={`text-right ${(entry.dailyVariance || 0) < 0 ? 'text-red-600' : ''}`}>
+                  {formatGallons(entry.dailyVariance)}
+                </TableCell>
+                <TableCell className={`text-right ${entry.cumulativeVariance < 0 ? 'text-red-600' : ''}`}>
+                  {formatGallons(entry.cumulativeVariance)}
+                </TableCell>
+                <TableCell>{entry.openingGallons === null ? <Badge variant="outline">Opening reading</Badge> : flagBadge(flag)}</TableCell>
+              </TableRow>);
+
+      })}
+        </TableBody>
+      </Table>;
+
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Fuel className="w-6 h-6" />
+                <span>Tank Reconciliation</span>
+              </CardTitle>
+              <CardDescription>
+                Book inventory (opening stick + deliveries − gallons sold) compared with the closing stick reading
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => navigate('/delivery')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Deliveries
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Station</Label>
+              <Select value={station} onValueChange={setStation}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select station" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stations.map((option) =>
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="from_date">From</Label>
+              <Input id="from_date" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to_date">To</Label>
+              <Input id="to_date" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {latestEntries.some((entry) => entry.cumulativeFlag === 'loss') &&
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+          <div className="text-sm text-red-800">
+            <strong>Cumulative loss above threshold.</strong> Check for leaks or theft on:{' '}
+            {latestEntries.filter((entry) => entry.cumulativeFlag === 'loss').map((entry) => getGradeLabel(grades, entry.grade)).join(', ')}
+          </div>
+        </div>
+      }
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {grades.map(({ grade, label }) => {
+          const entry = latestEntries.find((candidate) => candidate.grade === grade);
+          return (
+            <Card key={grade}>
+              <CardContent className="p-4 space-y-1">
+                <p className="text-sm font-medium text-gray-600">{label}</p>
+                <p className={`text-2xl font-bold ${entry && entry.cumulativeVariance < 0 ? 'text-red-600' : ''}`}>
+                  {entry ? `${formatGallons(entry.cumulativeVariance)} gal` : '—'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {entry ? `Limit ±${formatGallons(entry.cumulativeLimit)} gal on ${formatGallons(entry.cumulativeSold)} sold` : 'No readings'}
+                </p>
+                {entry && flagBadge(entry.cumulativeFlag)}
+              </CardContent>
+            </Card>);
+
+        })}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ledger</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ?
+          <div className="space-y-4">
+              {[...Array(4)].map((_, i) =>
+            <div key={i} className="h-12 bg-gray-100 rounded animate-pulse"></div>
+            )}
+            </div> :
+
+          <Tabs key={grades.map(({ grade }) => grade).join()} defaultValue={grades[0]?.grade}>
+              <TabsList>
+                {grades.map(({ grade, label }) =>
+              <TabsTrigger key={grade} value={grade}>{label}</TabsTrigger>
+              )}
+              </TabsList>
+              {grades.map(({ grade }) =>
+            <TabsContent key={grade} value={grade}>
+                  {renderLedger(reconciliation?.ledgers[grade] || [])}
+                </TabsContent>
+            )}
+            </Tabs>
+          }
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Record Closing Stick Readings</CardTitle>
+            <CardDescription>Gallons in each tank at close of business</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reading_date">Reading Date</Label>
+              <Input id="reading_date" type="date" value={readingDate} onChange={(e) => setReadingDate(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {grades.map(({ grade, label }) =>
+              <div key={grade} className="space-y-2">
+                  <Label htmlFor={`stick_${grade}`}>{label} (gal)</Label>
+                  <NumberInput
+                  id={`stick_${grade}`}
+                  value={readings[grade] ?? ''}
+                  onChange={(value) => setReadings((prev) => ({ ...prev, [grade]: value }))}
+                  step={0.01}
+                  precision={2} />
+                </div>
+              )}
+            </div>
+            <Button onClick={saveReadings} disabled={savingReadings || !station}>
+              <Save className="w-4 h-4 mr-2" />
+              {savingReadings ? 'Saving...' : 'Save Readings'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Settings className="w-5 h-5" />
+              <span>Variance Thresholds</span>
+            </CardTitle>
+            <CardDescription>
+              Flag a day above the daily limit, and the period once cumulative variance exceeds the allowance plus a percentage of gallons sold
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="daily_limit">Daily (gal)</Label>
+                <NumberInput
+                  id="daily_limit"
+                  value={thresholds.daily_variance_gallons}
+                  onChange={(value) => setThresholds((prev) => ({ ...prev, daily_variance_gallons: value || 0 }))}
+                  disabled={!isAdmin()} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cumulative_limit">Cumulative (gal)</Label>
+                <NumberInput
+                  id="cumulative_limit"
+                  value={thresholds.cumulative_variance_gallons}
+                  onChange={(value) => setThresholds((prev) => ({ ...prev, cumulative_variance_gallons: value || 0 }))}
+                  disabled={!isAdmin()} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cumulative_percent">+ % of Sold</Label>
+                <NumberInput
+                  id="cumulative_percent"
+                  value={thresholds.cumulative_variance_percent}
+                  onChange={(value) => setThresholds((prev) => ({ ...prev, cumulative_variance_percent: value || 0 }))}
+                  disabled={!isAdmin()} />
+              </div>
+            </div>
+            {isAdmin() &&
+            <Button variant="outline" onClick={saveThresholds} disabled={savingThresholds || !station}>
+                <Save className="w-4 h-4 mr-2" />
+                {savingThresholds ? 'Saving...' : `Save for ${station || 'station'}`}
+              </Button>
+            }
+          </CardContent>
+        </Card>
+      </div>
+    </div>);
+
+};
+
+export default TankReconciliation;
@@ -320,6 +320,9 @@ const LicenseForm: React.FC = () => {
                 {isExpiringSoon(formData.expiry_date) && !isExpired(formData.expiry_date) &&
                 <p className="text-sm text-yellow-600">⚠️ This license expires within 30 days</p>
                 }
+                {isEditing &&
+                <p className="text-sm text-gray-500">To record a renewal with its cost and new certificate, use Renew on the licenses list.</p>
+                }
               </div>
             </div>
 
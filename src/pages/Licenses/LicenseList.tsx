@@ -6,13 +6,16 @@ import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { toast } from '@/hooks/use-toast';
-import { Plus, Search, Edit, Trash2, FileText, AlertTriangle, CheckCircle, Printer, MessageSquare, Send, Archive } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, FileText, AlertTriangle, CheckCircle, Printer, MessageSquare, Send, Archive, RefreshCcw, History, DollarSign } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import EnhancedLicensePrintDialog from '@/components/EnhancedLicensePrintDialog';
+import LicenseRenewalDialog from '@/components/LicenseRenewalDialog';
+import LicenseRenewalHistoryDialog from '@/components/LicenseRenewalHistoryDialog';
 import { useStationStore } from '@/hooks/use-station-store';
 import { smsService } from '@/services/smsService';
 import licenseAlertService from '@/services/licenseAlertService';
+import { jobSchedulerService, RECURRING_JOB_KEYS } from '@/services/jobSchedulerService';
 
 interface License {
   ID: number;
@@ -41,6 +44,8 @@ const LicenseList: React.FC = () => {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [licenseToDelete, setLicenseToDelete] = useState<License | null>(null);
   const [showCancelled, setShowCancelled] = useState(true);
+  const [licenseToRenew, setLicenseToRenew] = useState<License | null>(null);
+  const [licenseForHistory, setLicenseForHistory] = useState<License | null>(null);
   const navigate = useNavigate();
   const { userProfile, isAdmin } = useAuth();
 
@@ -254,12 +259,21 @@ const LicenseList: React.FC = () => {
         description: "Analyzing licenses for expiry alerts..."
       });
 
-      // Use the enhanced license alert service
-      await licenseAlertService.checkAndSendAlerts();
+      // Run the scheduled license check now; the worker records the run and avoids duplicate sends
+      const result = await jobSchedulerService.runNow(RECURRING_JOB_KEYS.licenseExpiry);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
 
+      const outcome = result.outcomes?.find((entry) => entry.jobKey === RECURRING_JOB_KEYS.licenseExpiry);
+      if (outcome?.status === 'failed') {
+        throw new Error(outcome.error);
+      }
       toast({
         title: "✅ License Alerts Complete",
-        description: "SMS alerts sent for expiring licenses. Check SMS History for details."
+        description: outcome?.status === 'succeeded' ?
+        `${outcome.result?.alertsSent ?? 0} SMS alert(s) sent for expiring licenses. Check SMS History for details.` :
+        "The license check is already running. Check SMS History for details."
       });
 
     } catch (error) {
@@ -469,6 +483,13 @@ const LicenseList: React.FC = () => {
                     <span>{sendingSMS ? 'Sending...' : 'Send SMS Alerts'}</span>
                   </Button>
                   <Button
+                  onClick={() => navigate('/licenses/renewal-spend')}
+                  variant="outline"
+                  className="flex items-center space-x-2">
+                    <DollarSign className="w-4 h-4" />
+                    <span>Renewal Spend</span>
+                  </Button>
+                  <Button
                   onClick={() => navigate('/admin/sms')}
                   variant="outline"
                   className="flex items-center space-x-2">
@@ -582,6 +603,13 @@ const LicenseList: React.FC = () => {
                         title="Print Document">
                             <Printer className="w-4 h-4" />
                           </Button>
+                          <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setLicenseForHistory(license)}
+                        title="Renewal History">
+                            <History className="w-4 h-4" />
+                          </Button>
                           {(isExpiringSoon(license.expiry_date) || isExpired(license.expiry_date)) &&
                       <Button
                         variant="outline"
@@ -594,6 +622,16 @@ const LicenseList: React.FC = () => {
                       }
                           {isAdmin() &&
                       <>
+                              {license.status.toLowerCase() !== 'cancelled' && license.status.toLowerCase() !== 'inactive' &&
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setLicenseToRenew(license)}
+                          className="text-green-600 hover:text-green-700"
+                          title="Renew License">
+                                  <RefreshCcw className="w-4 h-4" />
+                                </Button>
+                        }
                               <Button
                           variant="outline"
                           size="sm"
@@ -693,6 +731,18 @@ const LicenseList: React.FC = () => {
         isOpen={isPrintDialogOpen}
         onClose={closePrintDialog} />
 
+      {/* Renewal Dialogs */}
+      <LicenseRenewalDialog
+        license={licenseToRenew}
+        isOpen={licenseToRenew !== null}
+        onClose={() => setLicenseToRenew(null)}
+        onRenewed={loadLicenses} />
+
+      <LicenseRenewalHistoryDialog
+        license={licenseForHistory}
+        isOpen={licenseForHistory !== null}
+        onClose={() => setLicenseForHistory(null)} />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { ArrowLeft, DollarSign, Download } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { licenseRenewalService } from '@/services/licenseRenewalService';
+import type { RenewalSpendRow } from '@/utils/licenseRenewals';
+
+const ALL_YEARS = 'all';
+
+const formatCurrency = (value: number) =>
+new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const LicenseRenewalReport: React.FC = () => {
+  const [rows, setRows] = useState<RenewalSpendRow[]>([]);
+  const [year, setYear] = useState<string>(String(new Date().getFullYear()));
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    loadSpend();
+  }, []);
+
+  const loadSpend = async () => {
+    try {
+      setLoading(true);
+      setRows(await licenseRenewalService.getRenewalSpend());
+    } catch (error) {
+      console.error('Error loading renewal spend:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load renewal spend",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const years = Array.from(new Set([new Date().getFullYear(), ...rows.map((row) => row.year)])).sort((a, b) => b - a);
+  const visibleRows = year === ALL_YEARS ? rows : rows.filter((row) => String(row.year) === year);
+  const totalCost = visibleRows.reduce((sum, row) => sum + row.totalCost, 0);
+  const totalRenewals = visibleRows.reduce((sum, row) => sum + row.renewals, 0);
+
+  const exportCsv = () => {
+    const lines = [
+    'Year,Station,Renewals,Total Cost',
+    ...visibleRows.map((row) => `${row.year},"${row.station.replace(/"/g, '""')}",${row.renewals},${row.totalCost.toFixed(2)}`)];
+
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `license-renewal-spend-${year}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <DollarSign className="w-6 h-6" />
+                <span>License Renewal Spend</span>
+              </CardTitle>
+              <CardDescription>Renewal costs paid per station and year</CardDescription>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Select value={year} onValueChange={setYear}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_YEARS}>All Years</SelectItem>
+                  {years.map((option) =>
+                  <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={exportCsv} disabled={visibleRows.length === 0}>
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+              <Button variant="outline" onClick={() => navigate('/licenses')}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Licenses
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ?
+          <div className="space-y-4">
+              {[...Array(4)].map((_, i) =>
+            <div key={i} className="h-12 bg-gray-100 rounded animate-pulse"></div>
+            )}
+            </div> :
+          visibleRows.length === 0 ?
+          <p className="text-center py-8 text-gray-500">No renewals recorded for this period</p> :
+
+          <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Year</TableHead>
+                  <TableHead>Station</TableHead>
+                  <TableHead className="text-right">Renewals</TableHead>
+                  <TableHead className="text-right">Total Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map((row) =>
+              <TableRow key={`${row.year}-${row.station}`}>
+                    <TableCell>{row.year}</TableCell>
+                    <TableCell className="font-medium">{row.station}</TableCell>
+                    <TableCell className="text-right">{row.renewals}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.totalCost)}</TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={2}>Total</TableCell>
+                  <TableCell className="text-right">{totalRenewals}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totalCost)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          }
+        </CardContent>
+      </Card>
+    </div>);
+
+};
+
+export default LicenseRenewalReport;
@@ -7,10 +7,12 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useErrorNotification } from '@/contexts/ErrorNotificationContext';
 import { ShoppingCart, Save, ArrowLeft, Camera, Plus, Minus, Trash2 } from 'lucide-react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useNavigate, useParams, useSearchParams, useLocation } from 'react-router-dom';
 import ProductSearchBar from '@/components/ProductSearchBar';
 import ProductSelectionDialog from '@/components/ProductSelectionDialog';
+import BarcodeScanner from '@/components/BarcodeScanner';
 import { useStationStore } from '@/hooks/use-station-store';
+import { purchaseOrderService, OrderLineItem } from '@/services/purchaseOrderService';
 
 interface Product {
   ID: number;
@@ -35,6 +37,13 @@ interface OrderItem {
   subtotal: number;
 }
 
+interface Vendor {
+  ID: number;
+  id?: number;
+  vendor_name: string;
+  is_active: boolean;
+}
+
 interface OrderFormData {
   order_number: string;
   station: string;
@@ -46,6 +55,8 @@ interface OrderFormData {
 const OrderForm: React.FC = () => {
   const { stations } = useStationStore();
   const [selectedStation, setSelectedStation] = useState<string>('');
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [selectedVendorId, setSelectedVendorId] = useState<string>('');
   const [formData, setFormData] = useState<OrderFormData>({
     order_number: '',
     station: stations.length > 0 ? stations[0].name : '',
@@ -54,7 +65,6 @@ const OrderForm: React.FC = () => {
     total_amount: 0
   });
   const [loading, setLoading] = useState(false);
-  const [scannerOpen, setScannerOpen] = useState(false);
   const [matchedProducts, setMatchedProducts] = useState<Product[]>([]);
   const [selectedQuantity, setSelectedQuantity] = useState<{[key: number]: number;}>({});
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
@@ -62,58 +72,157 @@ const OrderForm: React.FC = () => {
 
   const navigate = useNavigate();
   const { id } = useParams();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const isEditing = !!id;
   const { showError, showSuccess, showInfo } = useErrorNotification();
 
-  // Extract station names from store for compatibility with existing logic
-  const stationNames = stations.map(station => station.name);
+  useEffect(() => {
+    loadVendors();
+  }, []);
+
+  useEffect(() => {
+    const vendorParam = searchParams.get('vendor');
+    if (vendorParam && !isEditing) {
+      setSelectedVendorId(vendorParam);
+    }
+  }, [searchParams]);
+
+  useEffect(() => {
+    if (id) {
+      loadOrder(parseInt(id));
+    }
+  }, [id]);
 
-  // Enhanced barcode scanner with camera access
-  const [stream, setStream] = useState<MediaStream | null>(null);
-  const [videoRef, setVideoRef] = useState<HTMLVideoElement | null>(null);
+  // Prefill a new order with draft lines handed over from Suggested Orders
+  useEffect(() => {
+    const draft = location.state as {draftLines?: OrderLineItem[];draftNotes?: string;} | null;
+    if (isEditing || !draft?.draftLines?.length) return;
 
-  const startCamera = async () => {
+    const items = draft.draftLines.map(lineToItem);
+    setFormData((prev) => ({
+      ...prev,
+      notes: draft.draftNotes || prev.notes,
+      items,
+      total_amount: items.reduce((sum, item) => sum + item.subtotal, 0)
+    }));
+  }, [location.state]);
+
+  const getVendorId = (vendor: Vendor) => vendor.id ?? vendor.ID;
+
+  const loadVendors = async () => {
     try {
-      const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: 'environment' }
+      const { data, error } = await window.ezsite.apis.tablePage('11729', {
+        PageNo: 1,
+        PageSize: 100,
+        OrderByField: 'vendor_name',
+        IsAsc: true,
+        Filters: [{ name: 'is_active', op: 'Equal', value: true }]
       });
 
-      if (videoRef) {
-        videoRef.srcObject = mediaStream;
-        setStream(mediaStream);
-      }
+      if (error) throw error;
+      setVendors(data?.List || []);
     } catch (error) {
-      console.error('Error accessing camera:', error);
+      console.error('Error loading vendors:', error);
       showError(
-        error as Error,
-        "Unable to access camera. Please check your browser permissions and try again."
+        "Vendors Unavailable",
+        "Failed to load vendors. Please refresh the page and try again."
       );
     }
   };
 
-  const stopCamera = () => {
-    if (stream) {
-      stream.getTracks().forEach((track) => track.stop());
-      setStream(null);
+  // Rebuild editable order items from stored order lines
+  const lineToItem = (line: OrderLineItem): OrderItem => {
+    const unitsPerCase = line.units_per_case || 1;
+    return {
+      product: {
+        ID: line.product_id,
+        product_name: line.product_name,
+        product_code: line.product_code,
+        bar_code_case: '',
+        bar_code_unit: '',
+        price: line.unit_type === 'cases' ? line.unit_cost / unitsPerCase : line.unit_cost,
+        retail_price: 0,
+        category: '',
+        supplier: '',
+        quantity_in_stock: 0,
+        unit_per_case: unitsPerCase,
+        weight: 0,
+        weight_unit: ''
+      },
+      quantity: line.quantity,
+      unitType: line.unit_type,
+      subtotal: line.subtotal
+    };
+  };
+
+  const itemToLine = (item: OrderItem, index: number): OrderLineItem => ({
+    line_number: index + 1,
+    product_id: item.product.ID,
+    product_name: item.product.product_name,
+    product_code: item.product.product_code,
+    unit_type: item.unitType,
+    units_per_case: item.product.unit_per_case || 1,
+    quantity: item.quantity,
+    unit_cost: item.quantity > 0 ? item.subtotal / item.quantity : 0,
+    subtotal: item.subtotal
+  });
+
+  const loadOrder = async (orderId: number) => {
+    try {
+      setLoading(true);
+      const order = await purchaseOrderService.getOrder(orderId);
+      if (!order) {
+        showError("Order Not Found", "The requested order could not be found.");
+        navigate('/orders');
+        return;
+      }
+
+      const lines = await purchaseOrderService.getOrderLines(orderId);
+      const items = lines.map(lineToItem);
+
+      setSelectedStation(order.station);
+      setSelectedVendorId(order.vendor_id ? order.vendor_id.toString() : '');
+      setFormData({
+        order_number: order.order_number,
+        station: order.station,
+        notes: order.notes || '',
+        items,
+        total_amount: items.reduce((sum, item) => sum + item.subtotal, 0)
+      });
+    } catch (error) {
+      console.error('Error loading order:', error);
+      showError(
+        "Order Unavailable",
+        "Failed to load order. Please refresh the page and try again."
+      );
+    } finally {
+      setLoading(false);
     }
   };
 
+  // Extract station names from store for compatibility with existing logic
+  const stationNames = stations.map(station => station.name);
+
   const searchProductsByBarcode = async (barcode: string) => {
     try {
       setLoading(true);
 
-      // Search for products matching the barcode
-      const { data, error } = await window.ezsite.apis.tablePage('11726', {
-        PageNo: 1,
-        PageSize: 10,
-        Filters: [
-        { name: 'bar_code_case', op: 'Equal', value: barcode },
-        { name: 'bar_code_unit', op: 'Equal', value: barcode }]
+      // Filters are combined with AND, so look up case and unit barcodes separately
+      const products: Product[] = [];
+      for (const column of ['bar_code_case', 'bar_code_unit']) {
+        const { data, error } = await window.ezsite.apis.tablePage('11726', {
+          PageNo: 1,
+          PageSize: 10,
+          Filters: [{ name: column, op: 'Equal', value: barcode }]
+        });
 
-      });
-
-      if (error) throw error;
+        if (error) throw error;
 
-      const products = data?.List || [];
+        (data?.List || []).forEach((product: Product) => {
+          if (!products.some((match) => match.ID === product.ID)) products.push(product);
+        });
+      }
       setMatchedProducts(products);
 
       if (products.length === 0) {
@@ -138,15 +247,6 @@ const OrderForm: React.FC = () => {
     }
   };
 
-  const simulateBarcodeCapture = () => {
-    // Simulate barcode detection for demo purposes
-    // In production, this would use a real barcode detection library
-    const simulatedBarcode = '123456789012';
-    searchProductsByBarcode(simulatedBarcode);
-    setScannerOpen(false);
-    stopCamera();
-  };
-
   const addProductToOrder = (product: Product, quantity: number = 1, unitType: string = 'pieces') => {
     let pricePerUnit = product.price;
 
@@ -283,25 +383,47 @@ const OrderForm: React.FC = () => {
       return;
     }
 
+    if (!selectedVendorId) {
+      showError(
+        "Missing Vendor",
+        "Please select the vendor this order is placed with."
+      );
+      return;
+    }
+
     try {
       setLoading(true);
 
       const orderNumber = formData.order_number || generateOrderNumber();
+      const lines = formData.items.map(itemToLine);
+
+      if (isEditing) {
+        const { error } = await purchaseOrderService.updateOrder(parseInt(id!), {
+          order_number: orderNumber,
+          vendor_id: parseInt(selectedVendorId),
+          station: formData.station,
+          notes: formData.notes
+        }, lines);
+        if (error) throw error;
+
+        showSuccess(
+          "Order Updated Successfully",
+          `Order ${orderNumber} has been updated with ${lines.length} items.`
+        );
+        navigate('/orders');
+        return;
+      }
 
-      const orderData = {
+      const { error } = await purchaseOrderService.createOrder({
         order_number: orderNumber,
-        vendor_id: 1, // Default vendor for barcode orders
+        vendor_id: parseInt(selectedVendorId),
         order_date: new Date().toISOString(),
         station: formData.station,
         total_amount: formData.total_amount,
         status: 'Pending',
-        notes: formData.notes + `\n\nItems:\n${formData.items.map((item) =>
-        `- ${item.product.product_name} (${item.product.product_code}) x${item.quantity} ${item.unitType} = $${item.subtotal.toFixed(2)}`
-        ).join('\n')}`,
+        notes: formData.notes,
         created_by: 1
-      };
-
-      const { error } = await window.ezsite.apis.tableCreate('11730', orderData);
+      }, lines);
       if (error) throw error;
 
       showSuccess(
@@ -314,7 +436,7 @@ const OrderForm: React.FC = () => {
       console.error('Error creating order:', error);
       showError(
         error as Error,
-        "Failed to create order. Please check your data and try again, or contact support if the problem persists."
+        `Failed to ${isEditing ? 'update' : 'create'} order. Please check your data and try again, or contact support if the problem persists.`
       );
     } finally {
       setLoading(false);
@@ -330,7 +452,7 @@ const OrderForm: React.FC = () => {
             <div>
               <CardTitle className="flex items-center space-x-2">
                 <ShoppingCart className="w-6 h-6" />
-                <span>Create Order - Station Selection</span>
+                <span>{isEditing ? 'Edit Order' : 'Create Order'} - Station Selection</span>
               </CardTitle>
               <CardDescription>
                 First, select the station for this order, then add products
@@ -403,19 +525,12 @@ const OrderForm: React.FC = () => {
                   <Camera className="w-12 h-12 mx-auto text-primary" />
                   <h3 className="text-lg font-semibold">Barcode Scanner</h3>
                   <p className="text-muted-foreground">
-                    Click to open camera and scan product barcodes
+                    Scan with the camera or a USB barcode scanner to find products
                   </p>
-                  <Button
-                    onClick={() => {
-                      setScannerOpen(true);
-                      setTimeout(startCamera, 100);
-                    }}
-                    className="w-full sm:w-auto"
-                    disabled={loading}>
-
-                    <Camera className="w-4 h-4 mr-2" />
-                    Open Barcode Scanner
-                  </Button>
+                  <BarcodeScanner
+                    onScan={searchProductsByBarcode}
+                    triggerText="Open Barcode Scanner"
+                    disabled={loading} />
                 </div>
               </CardContent>
             </Card>
@@ -423,47 +538,6 @@ const OrderForm: React.FC = () => {
             {/* Manual Product Search */}
             <ProductSearchBar onProductSelect={handleProductSelect} />
 
-            {/* Camera Dialog */}
-            {scannerOpen &&
-            <Card className="border-primary">
-                <CardHeader>
-                  <CardTitle>Barcode Scanner</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="relative w-full max-w-md mx-auto aspect-video bg-black rounded-lg overflow-hidden">
-                      <video
-                      ref={(ref) => setVideoRef(ref)}
-                      autoPlay
-                      playsInline
-                      className="w-full h-full object-cover" />
-
-                      <div className="absolute inset-0 flex items-center justify-center">
-                        <div className="border-2 border-white border-dashed w-48 h-24 rounded-lg"></div>
-                      </div>
-                    </div>
-                    <div className="flex space-x-2 justify-center">
-                      <Button onClick={simulateBarcodeCapture} disabled={loading}>
-                        Capture Barcode
-                      </Button>
-                      <Button
-                      variant="outline"
-                      onClick={() => {
-                        setScannerOpen(false);
-                        stopCamera();
-                      }}>
-
-                        Cancel
-                      </Button>
-                    </div>
-                    <p className="text-sm text-muted-foreground text-center">
-                      Position the barcode within the frame and click Capture
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
-            }
-
             {/* Matched Products Section */}
             {matchedProducts.length > 0 &&
             <Card>
@@ -594,6 +668,22 @@ const OrderForm: React.FC = () => {
                     </div>
 
                     <div className="space-y-2">
+                      <Label htmlFor="vendor">Vendor *</Label>
+                      <Select value={selectedVendorId} onValueChange={setSelectedVendorId}>
+                        <SelectTrigger id="vendor">
+                          <SelectValue placeholder="Select vendor" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {vendors.map((vendor) =>
+                          <SelectItem key={getVendorId(vendor)} value={getVendorId(vendor).toString()}>
+                              {vendor.vendor_name}
+                            </SelectItem>
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2 md:col-span-2">
                       <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
                         <Label className="text-blue-800 font-medium">Delivery Station</Label>
                         <p className="text-blue-600 font-semibold text-lg">{selectedStation}</p>
@@ -621,10 +711,10 @@ const OrderForm: React.FC = () => {
                       Cancel
                     </Button>
                     <Button type="submit" disabled={loading || formData.items.length === 0}>
-                      {loading ? 'Creating...' :
+                      {loading ? isEditing ? 'Saving...' : 'Creating...' :
                       <>
                           <Save className="w-4 h-4 mr-2" />
-                          Create Order
+                          {isEditing ? 'Save Order' : 'Create Order'}
                         </>
                       }
                     </Button>
@@ -5,12 +5,16 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { toast } from '@/hooks/use-toast';
-import { Plus, Search, Edit, Trash2, ShoppingCart, Calendar, DollarSign, Eye, Download, FileText } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, ShoppingCart, Calendar, DollarSign, Eye, Download, FileText, PackageCheck, PackageSearch } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import ViewModal from '@/components/ViewModal';
 import { useListKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { useStationStore } from '@/hooks/use-station-store';
 import { motion } from 'framer-motion';
+import OrderLineItemsTable from '@/components/OrderLineItemsTable';
+import OrderReceivingDialog from '@/components/OrderReceivingDialog';
+import { purchaseOrderService, OrderLineItem } from '@/services/purchaseOrderService';
 
 interface Order {
   ID: number;
@@ -25,6 +29,12 @@ interface Order {
   created_by: number;
 }
 
+interface Vendor {
+  ID: number;
+  id?: number;
+  vendor_name: string;
+}
+
 const OrderList: React.FC = () => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
@@ -34,6 +44,8 @@ const OrderList: React.FC = () => {
   const [selectedOrderId, setSelectedOrderId] = useState<number | null>(null);
   const [viewModalOpen, setViewModalOpen] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [vendorNames, setVendorNames] = useState<Record<number, string>>({});
+  const [receivingOrder, setReceivingOrder] = useState<Order | null>(null);
   const navigate = useNavigate();
   const { userProfile, isAdmin } = useAuth();
 
@@ -43,6 +55,37 @@ const OrderList: React.FC = () => {
     loadOrders();
   }, [currentPage, searchTerm]);
 
+  useEffect(() => {
+    loadVendorNames();
+  }, []);
+
+  const loadVendorNames = async () => {
+    try {
+      const { data, error } = await window.ezsite.apis.tablePage('11729', {
+        PageNo: 1,
+        PageSize: 500,
+        OrderByField: 'vendor_name',
+        IsAsc: true,
+        Filters: []
+      });
+
+      if (error) throw error;
+
+      const names: Record<number, string> = {};
+      (data?.List || []).forEach((vendor: Vendor) => {
+        names[vendor.id ?? vendor.ID] = vendor.vendor_name;
+      });
+      setVendorNames(names);
+    } catch (error) {
+      console.error('Error loading vendors:', error);
+    }
+  };
+
+  const getVendorName = (vendorId: number) => {
+    if (!vendorId) return 'N/A';
+    return vendorNames[vendorId] || `Vendor #${vendorId}`;
+  };
+
   const loadOrders = async () => {
     try {
       setLoading(true);
@@ -169,20 +212,27 @@ const OrderList: React.FC = () => {
   };
 
 
-  const handleExport = () => {
+  const handleExport = async () => {
     if (!selectedOrder) return;
 
-    const csvContent = [
-    'Field,Value',
-    `Order Number,${selectedOrder.order_number}`,
-    `Vendor ID,${selectedOrder.vendor_id}`,
-    `Order Date,${selectedOrder.order_date}`,
-    `Expected Delivery,${selectedOrder.expected_delivery}`,
-    `Station,${selectedOrder.station}`,
-    `Total Amount,${selectedOrder.total_amount}`,
-    `Status,${selectedOrder.status}`,
-    `Notes,${selectedOrder.notes}`].
-    join('\n');
+    let lines: OrderLineItem[] = [];
+    try {
+      lines = await purchaseOrderService.getOrderLines(selectedOrder.ID);
+    } catch (error) {
+      console.error('Error loading order lines for export:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load order lines for export",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const csvContent = purchaseOrderService.buildOrderCsv(
+      selectedOrder,
+      lines,
+      getVendorName(selectedOrder.vendor_id)
+    );
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -218,6 +268,8 @@ const OrderList: React.FC = () => {
         return 'bg-blue-500';
       case 'shipped':
         return 'bg-purple-500';
+      case 'partially received':
+        return 'bg-orange-500';
       case 'delivered':
         return 'bg-green-500';
       case 'cancelled':
@@ -227,6 +279,11 @@ const OrderList: React.FC = () => {
     }
   };
 
+  const canReceive = (order: Order) => {
+    const status = order.status.toLowerCase();
+    return status !== 'delivered' && status !== 'cancelled';
+  };
+
   // Use centralized station color mapping
   const { getStationBadgeColor } = useStationStore();
 
@@ -266,9 +323,9 @@ const OrderList: React.FC = () => {
   },
   {
     key: 'vendor_id',
-    label: 'Vendor ID',
-    value: order.vendor_id,
-    type: 'number' as const
+    label: 'Vendor',
+    value: getVendorName(order.vendor_id),
+    type: 'text' as const
   },
   {
     key: 'order_date',
@@ -307,6 +364,13 @@ const OrderList: React.FC = () => {
     label: 'Notes',
     value: order.notes,
     type: 'text' as const
+  },
+  {
+    key: 'line_items',
+    label: 'Line Items',
+    value: order.ID,
+    type: 'custom' as const,
+    customComponent: <OrderLineItemsTable orderId={order.ID} />
   }];
 
 
@@ -364,10 +428,16 @@ const OrderList: React.FC = () => {
                 Manage your purchase orders and deliveries
               </CardDescription>
             </div>
-            <Button onClick={() => navigate('/orders/new')} className="flex items-center space-x-2">
-              <Plus className="w-4 h-4" />
-              <span>Create Order</span>
-            </Button>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" onClick={() => navigate('/orders/suggested')} className="flex items-center space-x-2">
+                <PackageSearch className="w-4 h-4" />
+                <span>Suggested Orders</span>
+              </Button>
+              <Button onClick={() => navigate('/orders/new')} className="flex items-center space-x-2">
+                <Plus className="w-4 h-4" />
+                <span>Create Order</span>
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -410,6 +480,7 @@ const OrderList: React.FC = () => {
                   <TableRow>
                     <TableHead>Order Number</TableHead>
                     <TableHead>Order Date</TableHead>
+                    <TableHead>Vendor</TableHead>
                     <TableHead>Station</TableHead>
                     <TableHead>Total Amount</TableHead>
                     <TableHead>Expected Delivery</TableHead>
@@ -438,6 +509,7 @@ const OrderList: React.FC = () => {
                     }
                       </TableCell>
                       <TableCell>{formatDate(order.order_date)}</TableCell>
+                      <TableCell>{getVendorName(order.vendor_id)}</TableCell>
                       <TableCell>
                         <Badge className={`text-white ${getStationBadgeColor(order.station)}`}>
                           {order.station}
@@ -465,6 +537,19 @@ const OrderList: React.FC = () => {
 
                             <Eye className="w-4 h-4" />
                           </Button>
+                          {canReceive(order) &&
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setReceivingOrder(order);
+                        }}
+                        className="text-green-600 hover:text-green-700"
+                        title="Receive Order">
+                              <PackageCheck className="w-4 h-4" />
+                            </Button>
+                      }
                           {/* Only show Edit button if user is Administrator */}
                           {isAdmin() &&
                       <Button
@@ -569,6 +654,17 @@ const OrderList: React.FC = () => {
         canExport={true} />
 
       }
+
+      {/* Receiving Dialog */}
+      {receivingOrder &&
+      <OrderReceivingDialog
+        isOpen={!!receivingOrder}
+        onClose={() => setReceivingOrder(null)}
+        orderId={receivingOrder.ID}
+        orderNumber={receivingOrder.order_number}
+        onReceived={loadOrders} />
+
+      }
     </div>);
 
 
@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { NumberInput } from '@/components/ui/number-input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { ArrowLeft, ClipboardList, PackageSearch, RefreshCw, AlertTriangle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { OrderLineItem } from '@/services/purchaseOrderService';
+import {
+  buildReorderSuggestions,
+  DEFAULT_TARGET_MULTIPLIER,
+  ReorderProduct,
+  SupplierReorderGroup,
+  UNASSIGNED_SUPPLIER } from
+'@/utils/reorderSuggestions';
+
+interface Vendor {
+  ID: number;
+  id?: number;
+  vendor_name: string;
+}
+
+const PRODUCT_PAGE_SIZE = 500;
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount || 0);
+};
+
+const SuggestedOrders: React.FC = () => {
+  const [products, setProducts] = useState<ReorderProduct[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [targetMultiplier, setTargetMultiplier] = useState(DEFAULT_TARGET_MULTIPLIER);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+
+      // Products are read page by page so large catalogs are fully covered
+      const allProducts: ReorderProduct[] = [];
+      let pageNo = 1;
+      let totalCount = 0;
+      do {
+        const { data, error } = await window.ezsite.apis.tablePage(11726, {
+          PageNo: pageNo,
+          PageSize: PRODUCT_PAGE_SIZE,
+          OrderByField: 'product_name',
+          IsAsc: true,
+          Filters: []
+        });
+        if (error) throw error;
+        allProducts.push(...(data?.List || []));
+        totalCount = data?.VirtualCount || 0;
+        if (!data?.List?.length) break;
+        pageNo++;
+      } while (allProducts.length < totalCount);
+
+      const { data: vendorData, error: vendorError } = await window.ezsite.apis.tablePage(11729, {
+        PageNo: 1,
+        PageSize: 500,
+        OrderByField: 'vendor_name',
+        IsAsc: true,
+        Filters: [{ name: 'is_active', op: 'Equal', value: true }]
+      });
+      if (vendorError) throw vendorError;
+
+      setProducts(allProducts);
+      setVendors(vendorData?.List || []);
+    } catch (error) {
+      console.error('Error loading reorder data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load products for reorder suggestions",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const groups = useMemo(
+    () => buildReorderSuggestions(products, targetMultiplier),
+    [products, targetMultiplier]
+  );
+
+  // Products store the supplier by vendor name
+  const findVendor = (supplier: string) => {
+    const name = supplier.trim().toLowerCase();
+    return vendors.find((vendor) => vendor.vendor_name?.trim().toLowerCase() === name);
+  };
+
+  const handleCreateDraft = (group: SupplierReorderGroup) => {
+    const vendor = group.supplier === UNASSIGNED_SUPPLIER ? undefined : findVendor(group.supplier);
+    const draftLines: OrderLineItem[] = group.suggestions.map((suggestion, index) => ({
+      line_number: index + 1,
+      product_id: suggestion.productId,
+      product_name: suggestion.product.product_name,
+      product_code: suggestion.product.product_code || '',
+      unit_type: 'cases',
+      units_per_case: suggestion.unitsPerCase,
+      quantity: suggestion.casesToOrder,
+      unit_cost: suggestion.caseCost,
+      subtotal: suggestion.subtotal
+    }));
+
+    const vendorId = vendor ? vendor.id ?? vendor.ID : null;
+    navigate(vendorId ? `/orders/new?vendor=${vendorId}` : '/orders/new', {
+      state: {
+        draftLines,
+        draftNotes: `Suggested reorder for ${group.supplier}`
+      }
+    });
+  };
+
+  const totalSuggested = groups.reduce((sum, group) => sum + group.suggestions.length, 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <PackageSearch className="w-6 h-6" />
+                <span>Suggested Orders</span>
+              </CardTitle>
+              <CardDescription>
+                Products at or below minimum stock, grouped by supplier, rounded up to whole cases
+              </CardDescription>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" onClick={() => navigate('/orders')}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Orders
+              </Button>
+              <Button variant="outline" onClick={loadData} disabled={loading}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end space-x-4 mb-6">
+            <div className="space-y-2">
+              <Label htmlFor="target-multiplier">Target Level (× minimum stock)</Label>
+              <NumberInput
+                id="target-multiplier"
+                value={targetMultiplier}
+                onChange={(value) => setTargetMultiplier(value || 1)}
+                min={1}
+                step="0.5"
+                className="w-32" />
+            </div>
+            <p className="text-sm text-gray-600 pb-2">
+              {totalSuggested} product{totalSuggested === 1 ? '' : 's'} below minimum across {groups.length} supplier{groups.length === 1 ? '' : 's'}
+            </p>
+          </div>
+
+          {loading ?
+          <div className="space-y-4">
+              {[...Array(3)].map((_, i) =>
+            <div key={i} className="h-24 bg-gray-100 rounded animate-pulse"></div>
+            )}
+            </div> :
+          groups.length === 0 ?
+          <div className="text-center py-8">
+              <PackageSearch className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-500">All products are above their minimum stock levels</p>
+            </div> :
+
+          <div className="space-y-6">
+              {groups.map((group) => {
+              const vendor = group.supplier === UNASSIGNED_SUPPLIER ? undefined : findVendor(group.supplier);
+              return (
+                <div key={group.supplier} className="border rounded-lg overflow-hidden">
+                    <div className="flex items-center justify-between p-4 bg-gray-50 border-b">
+                      <div>
+                        <p className="font-semibold">{group.supplier}</p>
+                        <p className="text-sm text-gray-600">
+                          {group.suggestions.length} products • {group.totalCases} cases • {formatCurrency(group.totalCost)}
+                        </p>
+                        {!vendor &&
+                      <p className="flex items-center text-xs text-amber-600 mt-1">
+                            <AlertTriangle className="w-3 h-3 mr-1" />
+                            No matching vendor — choose one on the order form
+                          </p>
+                      }
+                      </div>
+                      <Button onClick={() => handleCreateDraft(group)}>
+                        <ClipboardList className="w-4 h-4 mr-2" />
+                        Create Draft Order
+                      </Button>
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead className="text-right">In Stock</TableHead>
+                          <TableHead className="text-right">Minimum</TableHead>
+                          <TableHead className="text-right">Target</TableHead>
+                          <TableHead className="text-right">Cases</TableHead>
+                          <TableHead className="text-right">Case Cost</TableHead>
+                          <TableHead className="text-right">Subtotal</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {group.suggestions.map((suggestion) =>
+                      <TableRow key={suggestion.productId}>
+                            <TableCell>
+                              <p className="font-medium">{suggestion.product.product_name}</p>
+                              <p className="text-xs text-gray-500">{suggestion.unitsPerCase} per case</p>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Badge className={suggestion.currentStock <= 0 ? 'bg-red-500 text-white' : 'bg-amber-500 text-white'}>
+                                {suggestion.currentStock}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right">{suggestion.minimumStock}</TableCell>
+                            <TableCell className="text-right">{suggestion.targetStock}</TableCell>
+                            <TableCell className="text-right font-medium">{suggestion.casesToOrder}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(suggestion.caseCost)}</TableCell>
+                            <TableCell className="text-right font-medium">{formatCurrency(suggestion.subtotal)}</TableCell>
+                          </TableRow>
+                      )}
+                      </TableBody>
+                    </Table>
+                  </div>);
+
+            })}
+            </div>
+          }
+        </CardContent>
+      </Card>
+    </div>);
+
+};
+
+export default SuggestedOrders;
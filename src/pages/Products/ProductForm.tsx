@@ -76,7 +76,6 @@ const ProductForm = () => {
     overdue: false
   });
 
-  const [originalData, setOriginalData] = useState<any>(null);
 
   // USA Weight Units
   const weightUnits = [
@@ -264,7 +263,6 @@ const ProductForm = () => {
           overdue: product.overdue || false
         };
         setFormData(productData);
-        setOriginalData(productData);
       }
     } catch (error) {
       console.error('Error fetching product:', error);
@@ -320,6 +318,12 @@ const ProductForm = () => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  // USB scanners type into the focused field and finish with Enter, which
+  // would otherwise submit the form
+  const preventScannerSubmit = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.preventDefault();
+  };
+
   const handleBarcodeScanned = (field: string, barcode: string) => {
     setFormData((prev) => ({ ...prev, [field]: barcode }));
     toast({
@@ -435,7 +439,7 @@ const ProductForm = () => {
         Filters: []
       });
 
-      let lastSerial = serialResponse.data?.List?.[0]?.serial_number || 0;
+      const lastSerial = serialResponse.data?.List?.[0]?.serial_number || 0;
 
       for (const productData of bulkUploadData) {
         try {
@@ -524,40 +528,6 @@ const ProductForm = () => {
     }
   };
 
-  const logFieldChange = async (productId: number, fieldName: string, oldValue: any, newValue: any, userId: number) => {
-    try {
-      // Log to product_logs table (legacy)
-      const { error: legacyError } = await window.ezsite.apis.tableCreate('11756', {
-        product_id: productId,
-        field_name: fieldName,
-        old_value: oldValue?.toString() || '',
-        new_value: newValue?.toString() || '',
-        change_date: new Date().toISOString(),
-        changed_by: userId
-      });
-      if (legacyError) {
-        console.error('Error logging field change to legacy table:', legacyError);
-      }
-
-      // Log to product_changelog table (enhanced)
-      const { error: changelogError } = await window.ezsite.apis.tableCreate('24010', {
-        product_id: productId,
-        field_name: fieldName,
-        old_value: oldValue?.toString() || '',
-        new_value: newValue?.toString() || '',
-        change_timestamp: new Date().toISOString(),
-        changed_by: userId,
-        change_type: 'update',
-        change_summary: `Updated ${fieldName.replace(/_/g, ' ')} from "${oldValue}" to "${newValue}"`
-      });
-      if (changelogError) {
-        console.error('Error logging field change to changelog:', changelogError);
-      }
-    } catch (error) {
-      console.error('Error logging field change:', error);
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -618,35 +588,6 @@ const ProductForm = () => {
 
       if (resultError) throw resultError;
 
-      // Log changes for existing products
-      if (isEdit && originalData && userProfile) {
-        const fieldsToTrack = [
-        'last_shopping_date',
-        'case_price',
-        'unit_per_case',
-        'unit_price',
-        'retail_price'];
-
-
-        for (const field of fieldsToTrack) {
-          const oldValue = originalData[field];
-          const newValue = formData[field];
-
-          if (oldValue !== newValue) {
-            await logFieldChange(parseInt(id!), field, oldValue, newValue, userProfile.user_id);
-          }
-        }
-
-        // Calculate and log profit margin changes
-        const oldProfitMargin = originalData.unit_price > 0 && originalData.retail_price > 0 ?
-        (originalData.retail_price - originalData.unit_price) / originalData.retail_price * 100 : 0;
-        const newProfitMargin = formData.profit_margin;
-
-        if (Math.abs(oldProfitMargin - newProfitMargin) > 0.01) {
-          await logFieldChange(parseInt(id!), 'profit_margin', oldProfitMargin.toFixed(2), newProfitMargin.toFixed(2), userProfile.user_id);
-        }
-      }
-
       toast({
         title: "Success",
         description: `Product ${isEdit ? 'updated' : 'created'} successfully.`
@@ -1128,7 +1069,8 @@ const ProductForm = () => {
                         id="bar_code_case"
                         placeholder="Scan or enter case barcode"
                         value={formData.bar_code_case}
-                        onChange={(e) => handleInputChange('bar_code_case', e.target.value)} />
+                        onChange={(e) => handleInputChange('bar_code_case', e.target.value)}
+                        onKeyDown={preventScannerSubmit} />
 
                       <BarcodeScanner
                         onScan={(barcode) => handleBarcodeScanned('bar_code_case', barcode)} />
@@ -1143,7 +1085,8 @@ const ProductForm = () => {
                         id="bar_code_unit"
                         placeholder="Scan or enter unit barcode"
                         value={formData.bar_code_unit}
-                        onChange={(e) => handleInputChange('bar_code_unit', e.target.value)} />
+                        onChange={(e) => handleInputChange('bar_code_unit', e.target.value)}
+                        onKeyDown={preventScannerSubmit} />
 
                       <BarcodeScanner
                         onScan={(barcode) => handleBarcodeScanned('bar_code_unit', barcode)} />
@@ -5,12 +5,14 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { toast } from '@/hooks/use-toast';
-import { Plus, Search, Edit, Trash2, Package, FileText, Loader2, X, Save, History, RefreshCw } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Package, FileText, Loader2, X, Save, History, RefreshCw, DollarSign, FileSpreadsheet } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useModuleAccess } from '@/contexts/ModuleAccessContext';
 import ProductLogs from '@/components/ProductLogs';
 import ProductChangelogDialog from '@/components/ProductChangelogDialog';
+import PriceChangeReport from '@/components/PriceChangeReport';
+import ProductCatalogImportDialog from '@/components/ProductCatalogImportDialog';
 import HighlightText from '@/components/HighlightText';
 import { ResponsiveTable, ResponsiveStack } from '@/components/ResponsiveWrapper';
 import { useResponsiveLayout } from '@/hooks/use-mobile';
@@ -68,6 +70,8 @@ const ProductList: React.FC = () => {
   const [totalCount, setTotalCount] = useState(0);
   const [logsModalOpen, setLogsModalOpen] = useState(false);
   const [changelogModalOpen, setChangelogModalOpen] = useState(false);
+  const [priceReportOpen, setPriceReportOpen] = useState(false);
+  const [catalogImportOpen, setCatalogImportOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<{id: number;name: string;} | null>(null);
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
   const [isSearching, setIsSearching] = useState(false);
@@ -643,6 +647,24 @@ const ProductList: React.FC = () => {
                 }
               </Button>
 
+              <Button
+                onClick={() => setPriceReportOpen(true)}
+                variant="outline"
+                className={responsive.isMobile ? 'w-full' : ''}>
+                <DollarSign className="w-4 h-4 mr-2" />
+                Price Changes
+              </Button>
+
+              {canCreateProduct && canEditProduct &&
+              <Button
+                onClick={() => setCatalogImportOpen(true)}
+                variant="outline"
+                className={responsive.isMobile ? 'w-full' : ''}>
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  Import Catalog
+                </Button>
+              }
+
               {/* Only show Add Product button if create permission is enabled */}
               {canCreateProduct &&
               <Button
@@ -955,6 +977,13 @@ const ProductList: React.FC = () => {
         productId={selectedProduct.id}
         productName={selectedProduct.name} />
       }
+
+      <PriceChangeReport isOpen={priceReportOpen} onClose={() => setPriceReportOpen(false)} />
+
+      <ProductCatalogImportDialog
+        isOpen={catalogImportOpen}
+        onClose={() => setCatalogImportOpen(false)}
+        onImported={loadAllProducts} />
     </ResponsiveStack>);
 };
 
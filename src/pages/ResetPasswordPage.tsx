@@ -9,6 +9,8 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, Eye, EyeOff, Lock, CheckCircle2, AlertCircle, ArrowLeft } from 'lucide-react';
 import { Logo } from '@/components/Logo';
 import { useToast } from '@/hooks/use-toast';
+import { securitySettingsService } from '@/services/securitySettingsService';
+import { formatPasswordErrors, validatePassword } from '@/utils/securityPolicy';
 
 const ResetPasswordPage: React.FC = () => {
   const [password, setPassword] = useState('');
@@ -50,8 +52,10 @@ const ResetPasswordPage: React.FC = () => {
       return;
     }
 
-    if (password.length < 6) {
-      setMessage('Password must be at least 6 characters long');
+    const { passwordPolicy } = await securitySettingsService.getSettings();
+    const passwordError = formatPasswordErrors(validatePassword(password, passwordPolicy));
+    if (passwordError) {
+      setMessage(passwordError);
       setMessageType('error');
       return;
     }
@@ -9,7 +9,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useStationStore } from '@/hooks/use-station-store';
-import { ArrowLeft, Calculator, Save, DollarSign, Calendar, Clock } from 'lucide-react';
+import { ArrowLeft, Calculator, Save, DollarSign, Calendar, Clock, Scale } from 'lucide-react';
 import { format } from 'date-fns';
 import {
   getCurrentPayPeriod,
@@ -20,6 +20,7 @@ import {
   adjustToPayPeriod,
   formatPayPeriod } from
 '@/utils/payPeriodUtils';
+import { cashShortOverService } from '@/services/cashShortOverService';
 
 interface SalaryRecord {
   id?: number;
@@ -111,6 +112,9 @@ const SalaryForm: React.FC = () => {
     errors: string[];
   }>({ isValid: true, errors: [] });
 
+  // Cash shortages the employee ran on their shifts in this pay period
+  const [cashShortages, setCashShortages] = useState<number | null>(null);
+
   const SALARY_TABLE_ID = '11788';
   const EMPLOYEES_TABLE_ID = '11727';
 
@@ -135,6 +139,29 @@ const SalaryForm: React.FC = () => {
   formData.other_deductions]
   );
 
+  useEffect(() => {
+    if (!formData.employee_id || !formData.pay_period_start || !formData.pay_period_end) {
+      setCashShortages(null);
+      return;
+    }
+    cashShortOverService.getShortageTotal(formData.employee_id, formData.pay_period_start, formData.pay_period_end).
+    then(setCashShortages).
+    catch((error) => {
+      console.error('Error loading cash shortages:', error);
+      setCashShortages(null);
+    });
+  }, [formData.employee_id, formData.pay_period_start, formData.pay_period_end]);
+
+  const applyCashShortages = () => {
+    if (!cashShortages) return;
+    const note = `Cash shortages ${formData.pay_period_start} to ${formData.pay_period_end}: $${cashShortages.toFixed(2)}`;
+    setFormData((prev) => ({
+      ...prev,
+      other_deductions: cashShortages,
+      notes: prev.notes ? `${prev.notes}\n${note}` : note
+    }));
+  };
+
   // Validate pay period whenever dates change
   useEffect(() => {
     if (formData.pay_period_start && formData.pay_period_end) {
@@ -583,6 +610,43 @@ const SalaryForm: React.FC = () => {
 
 
 
+        {/* Deductions */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Deductions</CardTitle>
+            <CardDescription>Other deductions taken from gross pay</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="other_deductions">Other Deductions</Label>
+                <NumberInput
+                  id="other_deductions"
+                  step="0.01"
+                  value={formData.other_deductions}
+                  onChange={(value) => handleInputChange('other_deductions', value)} />
+
+              </div>
+
+              {cashShortages !== null && cashShortages > 0 &&
+              <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Scale className="h-4 w-4" />
+                    Cash Shortages This Pay Period
+                  </Label>
+                  <div className="flex items-center gap-2">
+                    <span className="text-lg font-semibold text-red-600">${cashShortages.toFixed(2)}</span>
+                    <Button type="button" variant="outline" size="sm" onClick={applyCashShortages}>
+                      Apply as Deduction
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">From the short/over on the employee's sales reports</p>
+                </div>
+              }
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Additional Information */}
         <Card>
           <CardHeader>
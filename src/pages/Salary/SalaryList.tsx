@@ -10,16 +10,15 @@ import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { DollarSign, Users, Building, Save, Plus, Calculator, Calendar, Clock, Info, ArrowLeft } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useFormatting } from '@/contexts/FormattingContext';
 import { useStationStore } from '@/hooks/use-station-store';
-import { format } from 'date-fns';
 import {
   getCurrentPayPeriod,
   calculatePayDate,
   validatePayPeriod,
   formatDateForInput,
   generatePayPeriodOptions,
-  adjustToPayPeriod,
-  formatPayPeriod } from
+  adjustToPayPeriod } from
 '@/utils/payPeriodUtils';
 
 interface SalaryRecord {
@@ -70,6 +69,7 @@ const SalaryList: React.FC = () => {
   const [submitting, setSubmitting] = useState<{[key: string]: boolean;}>({});
   const { toast } = useToast();
   const { userProfile, isAdmin } = useAuth();
+  const { formatDate, formatCurrency } = useFormatting();
   
   // Use central station store for real-time updates
   const { stations: storeStations, loading: stationsLoading, getStationColor, getFilteredStationOptions } = useStationStore();
@@ -561,13 +561,13 @@ const SalaryList: React.FC = () => {
                   <div className="space-y-2">
                     <Label>Gross Pay</Label>
                     <div className="p-2 bg-green-50 border border-green-200 rounded-md text-sm font-semibold text-green-700">
-                      ${form.gross_pay.toFixed(2)}
+                      {formatCurrency(form.gross_pay)}
                     </div>
                   </div>
                   <div className="space-y-2">
                     <Label>Net Pay</Label>
                     <div className="p-2 bg-blue-50 border border-blue-200 rounded-md text-sm font-semibold text-blue-700">
-                      ${form.net_pay.toFixed(2)}
+                      {formatCurrency(form.net_pay)}
                     </div>
                   </div>
                 </div>
@@ -677,12 +677,14 @@ const SalaryList: React.FC = () => {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
               <div>
                 <div className="text-sm text-muted-foreground">Pay Period</div>
-                <div className="font-semibold">{formatPayPeriod(getCurrentPayPeriod())}</div>
+                <div className="font-semibold">
+                  {formatDate(getCurrentPayPeriod().startDate)} - {formatDate(getCurrentPayPeriod().endDate)}
+                </div>
               </div>
               <div>
                 <div className="text-sm text-muted-foreground">Pay Date</div>
                 <div className="font-semibold text-green-700">
-                  {format(getCurrentPayPeriod().payDate, 'MMM dd, yyyy')}
+                  {formatDate(getCurrentPayPeriod().payDate)}
                 </div>
               </div>
               <div>
@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStationStore } from '@/hooks/use-station-store';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, ArrowLeft, FileText, Landmark, Plus, Trash2 } from 'lucide-react';
+import { bankDepositService } from '@/services/bankDepositService';
+import type { BankDepositRow } from '@/services/supabase/tableRegistry';
+import { DEFAULT_DEPOSIT_GRACE_DAYS, DepositReconciliationResult } from '@/utils/bankDeposits';
+import { toDateKey } from '@/utils/valueHelpers';
+import BankDepositDialog from '@/components/BankDepositDialog';
+
+const today = () => new Date().toISOString().split('T')[0];
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const varianceClass = (value: number) => value < 0 ? 'text-red-600' : value > 0 ? 'text-green-600' : '';
+
+const emptyResult: DepositReconciliationResult<BankDepositRow> = { deposits: [], undeposited: [], stations: [] };
+
+/**
+ * Deposit slips per station and the reconciliation of cash collected on shift
+ * reports against what reached the bank
+ */
+const BankDeposits: React.FC = () => {
+  const { toast } = useToast();
+  const { user, isManager } = useAuth();
+  const { formatDate, formatCurrency } = useFormatting();
+  const navigate = useNavigate();
+  const { getFilteredStationOptions, getStationBadgeColor } = useStationStore();
+  const stations = getFilteredStationOptions(true).map((option) => option.value);
+
+  const [station, setStation] = useState<string>('');
+  const [fromDate, setFromDate] = useState(daysAgo(30));
+  const [toDate, setToDate] = useState(today());
+  const [result, setResult] = useState<DepositReconciliationResult<BankDepositRow>>(emptyResult);
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  useEffect(() => {
+    if (!station && stations.length > 0) {
+      setStation(stations[0]);
+    }
+  }, [stations.length]);
+
+  useEffect(() => {
+    if (station) {
+      loadReconciliation();
+    }
+  }, [station, fromDate, toDate]);
+
+  const loadReconciliation = async () => {
+    try {
+      setLoading(true);
+      setResult(await bankDepositService.getReconciliation(station, fromDate, toDate));
+    } catch (error) {
+      console.error('Error loading deposit reconciliation:', error);
+      toast({ title: 'Error', description: 'Failed to load bank deposits', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (deposit: BankDepositRow) => {
+    if (!confirm(`Delete the deposit for bag ${deposit.bag_number}? Its shifts will show as undeposited again.`)) {
+      return;
+    }
+    const { error } = await bankDepositService.deleteDeposit(deposit, { id: user?.ID, email: user?.Email || 'unknown' });
+    if (error) {
+      toast({ title: 'Error', description: error, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Deposit deleted', description: `Bag ${deposit.bag_number} was removed` });
+    loadReconciliation();
+  };
+
+  const totals = result.stations.reduce((sum, summary) => ({
+    collected: sum.collected + summary.collected,
+    deposited: sum.deposited + summary.deposited,
+    undeposited: sum.undeposited + summary.undeposited,
+    overdue: sum.overdue + summary.overdueCount,
+    mismatched: sum.mismatched + summary.mismatchedCount
+  }), { collected: 0, deposited: 0, undeposited: 0, overdue: 0, mismatched: 0 });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Landmark className="w-6 h-6" />
+                <span>Bank Deposits</span>
+              </CardTitle>
+              <CardDescription>
+                Deposit slips and the cash collected on shift reports they cover
+              </CardDescription>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" onClick={() => navigate('/sales')}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Sales
+              </Button>
+              <Button onClick={() => setDialogOpen(true)} disabled={!station || station === 'ALL'}>
+                <Plus className="w-4 h-4 mr-2" />
+                Record Deposit
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Station</Label>
+              <Select value={station} onValueChange={setStation}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select station" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stations.map((option) =>
+                  <SelectItem key={option} value={option}>{option === 'ALL' ? 'All Stations' : option}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deposits_from">From</Label>
+              <Input id="deposits_from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deposits_to">To</Label>
+              <Input id="deposits_to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4 space-y-1">
+            <p className="text-sm font-medium text-gray-600">Cash Collected</p>
+            <p className="text-2xl font-bold">{formatCurrency(totals.collected)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 space-y-1">
+            <p className="text-sm font-medium text-gray-600">Deposited</p>
+            <p className="text-2xl font-bold">{formatCurrency(totals.deposited)}</p>
+            <p className="text-xs text-gray-500">{result.deposits.length} deposit(s)</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 space-y-1">
+            <p className="text-sm font-medium text-gray-600">Undeposited</p>
+            <p className={`text-2xl font-bold ${totals.overdue > 0 ? 'text-red-600' : ''}`}>{formatCurrency(totals.undeposited)}</p>
+            <p className="text-xs text-gray-500">{totals.overdue} shift(s) older than {DEFAULT_DEPOSIT_GRACE_DAYS} days</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 space-y-1">
+            <p className="text-sm font-medium text-gray-600">Mismatched Deposits</p>
+            <p className={`text-2xl font-bold ${totals.mismatched > 0 ? 'text-red-600' : ''}`}>{totals.mismatched}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {result.stations.length > 1 &&
+      <Card>
+          <CardHeader>
+            <CardTitle>By Station</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Station</TableHead>
+                  <TableHead className="text-right">Collected</TableHead>
+                  <TableHead className="text-right">Deposited</TableHead>
+                  <TableHead className="text-right">Undeposited</TableHead>
+                  <TableHead className="text-right">Deposit Variance</TableHead>
+                  <TableHead>Flags</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.stations.map((summary) =>
+              <TableRow key={summary.station}>
+                    <TableCell>
+                      <Badge className={`text-white ${getStationBadgeColor(summary.station)}`}>{summary.station}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(summary.collected)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(summary.deposited)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(summary.undeposited)}</TableCell>
+                    <TableCell className={`text-right font-medium ${varianceClass(summary.variance)}`}>{formatCurrency(summary.variance)}</TableCell>
+                    <TableCell className="space-x-1">
+                      {summary.overdueCount > 0 && <Badge variant="destructive">{summary.overdueCount} overdue</Badge>}
+                      {summary.mismatchedCount > 0 && <Badge variant="destructive">{summary.mismatchedCount} mismatched</Badge>}
+                      {summary.overdueCount === 0 && summary.mismatchedCount === 0 &&
+                  <Badge variant="outline" className="text-green-700 border-green-300">Reconciled</Badge>
+                  }
+                    </TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      }
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <AlertTriangle className="w-5 h-5 text-amber-600" />
+            <span>Undeposited Cash</span>
+          </CardTitle>
+          <CardDescription>
+            Shifts whose cash is not on a deposit slip; flagged after {DEFAULT_DEPOSIT_GRACE_DAYS} days
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {result.undeposited.length === 0 ?
+          <p className="text-center py-8 text-gray-500">{loading ? 'Loading...' : 'All cash in this period has been deposited'}</p> :
+
+          <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Station</TableHead>
+                  <TableHead>Shift</TableHead>
+                  <TableHead>Employee</TableHead>
+                  <TableHead className="text-right">Cash Collected</TableHead>
+                  <TableHead className="text-right">Days Outstanding</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.undeposited.map((item) =>
+              <TableRow key={item.report.id} className={item.overdue ? 'bg-red-50' : ''}>
+                    <TableCell>{formatDate(toDateKey(item.report.report_date))}</TableCell>
+                    <TableCell>{item.report.station}</TableCell>
+                    <TableCell>{item.report.shift || 'DAY'}</TableCell>
+                    <TableCell>{item.report.employee_name}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(item.amount)}</TableCell>
+                    <TableCell className="text-right">
+                      {item.daysOutstanding}
+                      {item.overdue && <Badge variant="destructive" className="ml-2">Overdue</Badge>}
+                    </TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          }
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Deposits</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {result.deposits.length === 0 ?
+          <p className="text-center py-8 text-gray-500">{loading ? 'Loading...' : 'No deposits recorded in this period'}</p> :
+
+          <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Station</TableHead>
+                  <TableHead>Bag</TableHead>
+                  <TableHead className="text-right">Shifts</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Deposited</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead>Receipt</TableHead>
+                  {isManager() && <TableHead></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.deposits.map(({ deposit, expected, variance, matched, missingReportIds }) =>
+              <TableRow key={deposit.id}>
+                    <TableCell>{formatDate(toDateKey(deposit.deposit_date))}</TableCell>
+                    <TableCell>{deposit.station}</TableCell>
+                    <TableCell className="font-medium">{deposit.bag_number}</TableCell>
+                    <TableCell className="text-right">{(deposit.report_ids || []).length}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(expected)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(deposit.amount))}</TableCell>
+                    <TableCell className={`text-right font-medium ${varianceClass(variance)}`}>
+                      {formatCurrency(variance)}
+                      {!matched && <Badge variant="destructive" className="ml-2">Mismatch</Badge>}
+                      {missingReportIds.length > 0 &&
+                  <div className="text-xs text-red-600">{missingReportIds.length} report(s) no longer exist</div>
+                  }
+                    </TableCell>
+                    <TableCell>
+                      {deposit.receipt_url ?
+                  <a
+                    href={deposit.receipt_url!}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center text-blue-600 hover:underline text-sm">
+                          <FileText className="w-4 h-4 mr-1" />
+                          {deposit.receipt_file_name || 'Receipt'}
+                        </a> :
+
+                  <span className="text-xs text-gray-400">None</span>
+                  }
+                    </TableCell>
+                    {isManager() &&
+                <TableCell>
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(deposit)}>
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </TableCell>
+                }
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          }
+        </CardContent>
+      </Card>
+
+      <BankDepositDialog
+        station={station}
+        isOpen={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        onSaved={loadReconciliation} />
+    </div>);
+
+};
+
+export default BankDeposits;
@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { useStationStore } from '@/hooks/use-station-store';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, ArrowLeft, CreditCard, Upload } from 'lucide-react';
+import { cardSettlementService } from '@/services/cardSettlementService';
+import type { CardSettlementRow } from '@/services/supabase/tableRegistry';
+import {
+  CARD_TYPE_LABELS,
+  CARD_TYPES,
+  CardType,
+  MATCH_STATUS_LABELS,
+  SettlementDayReconciliation,
+  SettlementMatchStatus } from
+'@/utils/cardSettlements';
+import { toDateKey } from '@/utils/valueHelpers';
+import CardSettlementImportDialog from '@/components/CardSettlementImportDialog';
+
+const today = () => new Date().toISOString().split('T')[0];
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const varianceClass = (value: number) => value < 0 ? 'text-red-600' : value > 0 ? 'text-green-600' : '';
+
+const STATUS_CLASSES: Record<SettlementMatchStatus, string> = {
+  matched: 'bg-green-100 text-green-800',
+  mismatch: 'bg-red-100 text-red-800',
+  missing_settlement: 'bg-amber-100 text-amber-800',
+  no_report: 'bg-gray-100 text-gray-800'
+};
+
+/**
+ * Card totals entered on shift reports against what the processor settled
+ */
+const CardSettlements: React.FC = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { formatDate, formatCurrency } = useFormatting();
+  const { getFilteredStationOptions } = useStationStore();
+  const stations = getFilteredStationOptions(true).map((option) => option.value);
+
+  const [station, setStation] = useState<string>('');
+  const [fromDate, setFromDate] = useState(daysAgo(30));
+  const [toDate, setToDate] = useState(today());
+  const [days, setDays] = useState<SettlementDayReconciliation[]>([]);
+  const [chargebacks, setChargebacks] = useState<CardSettlementRow[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'all' | 'exceptions'>('exceptions');
+  const [loading, setLoading] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+
+  useEffect(() => {
+    if (!station && stations.length > 0) {
+      setStation(stations[0]);
+    }
+  }, [stations.length]);
+
+  useEffect(() => {
+    if (station) {
+      loadReconciliation();
+    }
+  }, [station, fromDate, toDate]);
+
+  const loadReconciliation = async () => {
+    try {
+      setLoading(true);
+      const [reconciliation, settlements] = await Promise.all([
+      cardSettlementService.getReconciliation(station, fromDate, toDate),
+      cardSettlementService.getSettlements(station, fromDate, toDate)]
+      );
+      setDays(reconciliation);
+      setChargebacks(settlements.filter((settlement) => settlement.record_type === 'chargeback'));
+    } catch (error) {
+      console.error('Error loading card settlement reconciliation:', error);
+      toast({ title: 'Error', description: 'Failed to load card settlements', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const countByStatus = (status: SettlementMatchStatus) => days.filter((day) => day.status === status).length;
+  const visibleDays = statusFilter === 'all' ? days : days.filter((day) => day.status !== 'matched');
+  const totalReported = days.reduce((sum, day) => sum + day.reported, 0);
+  const totalSettled = days.reduce((sum, day) => sum + day.settled, 0);
+  const totalChargebacks = chargebacks.reduce((sum, row) => sum + Number(row.gross_amount || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <CreditCard className="w-6 h-6" />
+                <span>Card Settlements</span>
+              </CardTitle>
+              <CardDescription>
+                Credit, debit and mobile totals from shift reports matched to processor settlement batches
+              </CardDescription>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" onClick={() => navigate('/sales')}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Sales
+              </Button>
+              <Button onClick={() => setImportOpen(true)}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import CSV
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Station</Label>
+              <Select value={station} onValueChange={setStation}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select station" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stations.map((option) =>
+                  <SelectItem key={option} value={option}>{option === 'ALL' ? 'All Stations' : option}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlements_from">From</Label>
+              <Input id="settlements_from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlements_to">To</Label>
+              <Input id="settlements_to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4 space-y-1">
+            <p className="text-sm font-medium text-gray-600">Reported on Shifts</p>
+            <p className="text-2xl font-bold">{formatCurrency(totalReported)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 space-y-1">
+            <p className="text-sm font-medium text-gray-600">Settled by Processor</p>
+            <p className="text-2xl font-bold">{formatCurrency(totalSettled)}</p>
+            <p className={`text-xs ${varianceClass(totalSettled - totalReported)}`}>
+              Variance {formatCurrency(totalSettled - totalReported)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 space-y-1">
+            <p className="text-sm font-medium text-gray-600">Exceptions</p>
+            <p className={`text-2xl font-bold ${countByStatus('mismatch') + countByStatus('missing_settlement') > 0 ? 'text-red-600' : ''}`}>
+              {countByStatus('mismatch') + countByStatus('missing_settlement') + countByStatus('no_report')}
+            </p>
+            <p className="text-xs text-gray-500">
+              {countByStatus('mismatch')} mismatched · {countByStatus('missing_settlement')} missing · {countByStatus('no_report')} without report
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 space-y-1">
+            <p className="text-sm font-medium text-gray-600">Chargebacks</p>
+            <p className={`text-2xl font-bold ${chargebacks.length > 0 ? 'text-red-600' : ''}`}>{formatCurrency(totalChargebacks)}</p>
+            <p className="text-xs text-gray-500">{chargebacks.length} chargeback(s)</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Reconciliation by Day</CardTitle>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'all' | 'exceptions')}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="exceptions">Exceptions only</SelectItem>
+                <SelectItem value="all">All days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ?
+          <div className="space-y-4">
+              {[...Array(3)].map((_, i) =>
+            <div key={i} className="h-12 bg-gray-100 rounded animate-pulse"></div>
+            )}
+            </div> :
+          visibleDays.length === 0 ?
+          <p className="text-center py-8 text-gray-500">
+              {days.length === 0 ? 'No shift reports or settlements in this period' : 'Every day in this period matches'}
+            </p> :
+
+          <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Station</TableHead>
+                  {CARD_TYPES.map((cardType) =>
+                <TableHead key={cardType} className="text-right">{CARD_TYPE_LABELS[cardType]} (Reported / Settled)</TableHead>
+                )}
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead>Batches</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleDays.map((day) =>
+              <TableRow key={`${day.station}-${day.date}`}>
+                    <TableCell>{formatDate(toDateKey(day.date))}</TableCell>
+                    <TableCell>{day.station}</TableCell>
+                    {day.cards.map((card) =>
+                <TableCell key={card.cardType} className="text-right text-sm">
+                        {formatCurrency(card.reported)} / {formatCurrency(card.settled)}
+                        {card.variance !== 0 &&
+                  <div className={`text-xs ${varianceClass(card.variance)}`}>{formatCurrency(card.variance)}</div>
+                  }
+                      </TableCell>
+                )}
+                    <TableCell className={`text-right font-medium ${varianceClass(day.variance)}`}>
+                      {formatCurrency(day.variance)}
+                      {day.chargebacks !== 0 &&
+                  <div className="text-xs text-red-600">Chargebacks {formatCurrency(day.chargebacks)}</div>
+                  }
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-600">{day.batches.join(', ') || '—'}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_CLASSES[day.status]}>{MATCH_STATUS_LABELS[day.status]}</Badge>
+                    </TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          }
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <AlertTriangle className="w-5 h-5 text-red-600" />
+            <span>Chargebacks</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {chargebacks.length === 0 ?
+          <p className="text-center py-8 text-gray-500">No chargebacks in this period</p> :
+
+          <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sale Date</TableHead>
+                  <TableHead>Station</TableHead>
+                  <TableHead>Card</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {chargebacks.map((row) =>
+              <TableRow key={row.id}>
+                    <TableCell>{formatDate(toDateKey(row.business_date))}</TableCell>
+                    <TableCell>{row.station}</TableCell>
+                    <TableCell>{CARD_TYPE_LABELS[row.card_type as CardType] || row.card_type}</TableCell>
+                    <TableCell>{row.batch_number}</TableCell>
+                    <TableCell>{row.reference || '—'}</TableCell>
+                    <TableCell className="text-right text-red-600 font-medium">{formatCurrency(row.gross_amount)}</TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          }
+        </CardContent>
+      </Card>
+
+      <CardSettlementImportDialog
+        defaultStation={station}
+        isOpen={importOpen}
+        onClose={() => setImportOpen(false)}
+        onImported={loadReconciliation} />
+    </div>);
+
+};
+
+export default CardSettlements;
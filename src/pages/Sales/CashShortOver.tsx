@@ -0,0 +1,365 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NumberInput } from '@/components/ui/number-input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStationStore } from '@/hooks/use-station-store';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, ArrowLeft, Bell, Save, Scale } from 'lucide-react';
+import { cashShortOverService } from '@/services/cashShortOverService';
+import type { AlertHistoryRow } from '@/services/supabase/tableRegistry';
+import {
+  buildShortOverTrend,
+  DEFAULT_SHORT_OVER_THRESHOLDS,
+  ShortOverEntry,
+  ShortOverThresholds,
+  summarizeByEmployee } from
+'@/utils/cashShortOver';
+import ShortOverTrendChart from '@/components/ShortOverTrendChart';
+
+const today = () => new Date().toISOString().split('T')[0];
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const formatMoney = (value: number) =>
+new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(Number(value) || 0);
+
+const amountClass = (value: number) => value < 0 ? 'text-red-600' : value > 0 ? 'text-green-600' : '';
+
+const CashShortOver: React.FC = () => {
+  const { toast } = useToast();
+  const { user, isManager } = useAuth();
+  const navigate = useNavigate();
+  const { getFilteredStationOptions } = useStationStore();
+  const stations = getFilteredStationOptions(true).map((option) => option.value);
+
+  const [station, setStation] = useState<string>('');
+  const [fromDate, setFromDate] = useState(daysAgo(60));
+  const [toDate, setToDate] = useState(today());
+  const [entries, setEntries] = useState<ShortOverEntry[]>([]);
+  const [alerts, setAlerts] = useState<AlertHistoryRow[]>([]);
+  const [thresholds, setThresholds] = useState<ShortOverThresholds>(DEFAULT_SHORT_OVER_THRESHOLDS);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    if (!station && stations.length > 0) {
+      setStation(stations[0]);
+    }
+  }, [stations.length]);
+
+  useEffect(() => {
+    if (station) {
+      loadLedger();
+    }
+  }, [station, fromDate, toDate]);
+
+  const loadLedger = async () => {
+    try {
+      setLoading(true);
+      const [ledger, alertRows, stationThresholds] = await Promise.all([
+      cashShortOverService.getLedger(station, fromDate, toDate),
+      cashShortOverService.getAlertHistory(station),
+      cashShortOverService.getThresholds(station)]
+      );
+      setEntries(ledger);
+      setAlerts(alertRows);
+      setThresholds(stationThresholds);
+    } catch (error) {
+      console.error('Error loading short/over ledger:', error);
+      toast({ title: 'Error', description: 'Failed to load the short/over ledger', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveThresholds = async () => {
+    setSaving(true);
+    const { error } = await cashShortOverService.saveThresholds(station, thresholds, Number(user?.ID) || 0);
+    setSaving(false);
+    if (error) {
+      toast({ title: 'Error', description: error, variant: 'destructive' });
+      return;
+    }
+    toast({
+      title: 'Tolerances saved',
+      description: station === 'ALL' ? 'Used by every station without its own tolerances' : `Saved for ${station}`
+    });
+  };
+
+  const checkAlerts = async () => {
+    setChecking(true);
+    const { raised, error } = await cashShortOverService.checkAlerts(station);
+    setChecking(false);
+    if (error) {
+      toast({ title: 'Error', description: error, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Check complete', description: raised > 0 ? `${raised} new alert(s) recorded` : 'No new alerts' });
+    loadLedger();
+  };
+
+  const summaries = summarizeByEmployee(entries, thresholds, toDate);
+  const trend = buildShortOverTrend(entries);
+  const netTotal = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const shortTotal = entries.filter((entry) => entry.amount < 0).reduce((sum, entry) => sum + entry.amount, 0);
+  const flaggedShifts = entries.filter((entry) => Math.abs(entry.amount) > thresholds.shift_tolerance).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Scale className="w-6 h-6" />
+                <span>Cash Short / Over</span>
+              </CardTitle>
+              <CardDescription>
+                Short/over per shift with running totals by employee and station
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => navigate('/sales')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Sales
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Station</Label>
+              <Select value={station} onValueChange={setStation}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select station" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stations.map((option) =>
+                  <SelectItem key={option} value={option}>{option === 'ALL' ? 'All Stations' : option}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="short_over_from">From</Label>
+              <Input id="short_over_from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="short_over_to">To</Label>
+              <Input id="short_over_to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4 space-y-1">
+            <p className="text-sm font-medium text-gray-600">Net Short / Over</p>
+            <p className={`text-2xl font-bold ${amountClass(netTotal)}`}>{formatMoney(netTotal)}</p>
+            <p className="text-xs text-gray-500">{entries.length} shifts</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 space-y-1">
+            <p className="text-sm font-medium text-gray-600">Total Shortages</p>
+            <p className="text-2xl font-bold text-red-600">{formatMoney(shortTotal)}</p>
+            <p className="text-xs text-gray-500">{entries.filter((entry) => entry.amount < 0).length} short shifts</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 space-y-1">
+            <p className="text-sm font-medium text-gray-600">Outside Tolerance</p>
+            <p className="text-2xl font-bold">{flaggedShifts}</p>
+            <p className="text-xs text-gray-500">shifts beyond ±{formatMoney(thresholds.shift_tolerance)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Daily Trend</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ShortOverTrendChart trend={trend} loading={loading} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Employee</CardTitle>
+          <CardDescription>
+            Rolling net covers the {thresholds.rolling_days} days to {new Date(`${toDate}T00:00:00`).toLocaleDateString()};
+            flagged when the net shortage passes {formatMoney(thresholds.rolling_tolerance)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {summaries.length === 0 ?
+          <p className="text-center py-8 text-gray-500">No shifts in this period</p> :
+
+          <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Station</TableHead>
+                  <TableHead className="text-right">Shifts</TableHead>
+                  <TableHead className="text-right">Short</TableHead>
+                  <TableHead className="text-right">Over</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead className="text-right">Rolling Net</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summaries.map((summary) =>
+              <TableRow key={`${summary.station}-${summary.employeeKey}`}>
+                    <TableCell className="font-medium">
+                      {summary.employeeName}
+                      {summary.rollingFlagged &&
+                  <Badge variant="destructive" className="ml-2">Over tolerance</Badge>
+                  }
+                    </TableCell>
+                    <TableCell>{summary.station}</TableCell>
+                    <TableCell className="text-right">{summary.shifts} ({summary.shortShifts} short)</TableCell>
+                    <TableCell className="text-right text-red-600">{formatMoney(summary.totalShort)}</TableCell>
+                    <TableCell className="text-right text-green-600">{formatMoney(summary.totalOver)}</TableCell>
+                    <TableCell className={`text-right font-medium ${amountClass(summary.net)}`}>{formatMoney(summary.net)}</TableCell>
+                    <TableCell className={`text-right font-medium ${amountClass(summary.rollingNet)}`}>{formatMoney(summary.rollingNet)}</TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          }
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {isManager() &&
+        <Card>
+            <CardHeader>
+              <CardTitle>Tolerances</CardTitle>
+              <CardDescription>
+                {station === 'ALL' ? 'Default for stations without their own tolerances' : `Tolerances for ${station}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="shift_tolerance">Per Shift ($)</Label>
+                  <NumberInput
+                  id="shift_tolerance"
+                  value={thresholds.shift_tolerance}
+                  onChange={(value) => setThresholds((prev) => ({ ...prev, shift_tolerance: value || 0 }))}
+                  step={0.01}
+                  precision={2} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rolling_tolerance">Rolling Shortage ($)</Label>
+                  <NumberInput
+                  id="rolling_tolerance"
+                  value={thresholds.rolling_tolerance}
+                  onChange={(value) => setThresholds((prev) => ({ ...prev, rolling_tolerance: value || 0 }))}
+                  step={0.01}
+                  precision={2} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rolling_days">Rolling Days</Label>
+                  <NumberInput
+                  id="rolling_days"
+                  value={thresholds.rolling_days}
+                  onChange={(value) => setThresholds((prev) => ({ ...prev, rolling_days: value || 0 }))}
+                  step={1}
+                  precision={0} />
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button onClick={saveThresholds} disabled={saving || !station}>
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? 'Saving...' : 'Save Tolerances'}
+                </Button>
+                <Button variant="outline" onClick={checkAlerts} disabled={checking || !station}>
+                  <Bell className="w-4 h-4 mr-2" />
+                  {checking ? 'Checking...' : 'Check Alerts Now'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        }
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <AlertTriangle className="w-5 h-5 text-amber-600" />
+              <span>Alerts</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {alerts.length === 0 ?
+            <p className="text-center py-8 text-gray-500">No short/over alerts recorded</p> :
+
+            <div className="space-y-3 max-h-80 overflow-y-auto">
+                {alerts.map((alert) =>
+              <div key={alert.id} className="border rounded-lg p-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <Badge variant="outline">{alert.alert_type === 'cash_short_over_rolling' ? 'Rolling' : 'Shift'}</Badge>
+                      <span className="text-xs text-gray-500">{new Date(alert.sent_date).toLocaleString()}</span>
+                    </div>
+                    <p className="mt-1">{alert.message_content}</p>
+                  </div>
+              )}
+              </div>
+            }
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ledger</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ?
+          <p className="text-center py-8 text-gray-500">No shifts in this period</p> :
+
+          <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Station</TableHead>
+                  <TableHead>Shift</TableHead>
+                  <TableHead>Employee</TableHead>
+                  <TableHead className="text-right">Short / Over</TableHead>
+                  <TableHead className="text-right">Running Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...entries].reverse().map((entry, index) =>
+              <TableRow key={entry.reportId ?? `${entry.date}-${entry.employeeKey}-${index}`}>
+                    <TableCell>{new Date(`${entry.date}T00:00:00`).toLocaleDateString()}</TableCell>
+                    <TableCell>{entry.station}</TableCell>
+                    <TableCell>{entry.shift}</TableCell>
+                    <TableCell>{entry.employeeName}</TableCell>
+                    <TableCell className={`text-right font-medium ${amountClass(entry.amount)}`}>
+                      {formatMoney(entry.amount)}
+                      {Math.abs(entry.amount) > thresholds.shift_tolerance &&
+                  <AlertTriangle className="inline w-3 h-3 ml-1 text-amber-600" />
+                  }
+                    </TableCell>
+                    <TableCell className={`text-right ${amountClass(entry.runningTotal)}`}>{formatMoney(entry.runningTotal)}</TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          }
+        </CardContent>
+      </Card>
+    </div>);
+
+};
+
+export default CashShortOver;
@@ -0,0 +1,323 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NumberInput } from '@/components/ui/number-input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStationStore } from '@/hooks/use-station-store';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, DollarSign, Save, Trash2 } from 'lucide-react';
+import { fuelPriceService, FuelMarginReport } from '@/services/fuelPriceService';
+import type { FuelPriceRow } from '@/services/supabase/tableRegistry';
+import { useFuelConfiguration } from '@/hooks/use-fuel-configuration';
+import { getGradeLabel } from '@/utils/fuelGrades';
+import { getCurrentPrices } from '@/utils/fuelMargins';
+import FuelMarginTrendChart from '@/components/FuelMarginTrendChart';
+
+const today = () => new Date().toISOString().split('T')[0];
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const formatCents = (value: number | null) => value === null ? '—' : `${value.toFixed(1)}¢`;
+const formatMoney = (value: number) => `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const FuelPriceBook: React.FC = () => {
+  const { toast } = useToast();
+  const { user, isManager } = useAuth();
+  const navigate = useNavigate();
+  const { getFilteredStationOptions } = useStationStore();
+  const stations = getFilteredStationOptions(false).map((option) => option.value);
+
+  const [station, setStation] = useState<string>('');
+  const { configuration } = useFuelConfiguration(station);
+  const [prices, setPrices] = useState<FuelPriceRow[]>([]);
+  const [margins, setMargins] = useState<FuelMarginReport | null>(null);
+  const [fromDate, setFromDate] = useState(daysAgo(30));
+  const [toDate, setToDate] = useState(today());
+  const [loading, setLoading] = useState(false);
+
+  const [grade, setGrade] = useState('');
+  const [price, setPrice] = useState<number>(0);
+  const [effectiveDate, setEffectiveDate] = useState(today());
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const currentPrices = getCurrentPrices(prices, station, today());
+  // Prices are newest first, so the first change on or before today is the one in effect
+  const currentPriceIds = new Set(
+    Object.keys(currentPrices).map((key) => prices.find((row) => row.grade === key && row.effective_date <= today())?.id)
+  );
+
+  useEffect(() => {
+    if (!station && stations.length > 0) {
+      setStation(stations[0]);
+    }
+  }, [stations.length]);
+
+  useEffect(() => {
+    if (station) {
+      loadPriceBook();
+    }
+  }, [station, fromDate, toDate]);
+
+  const loadPriceBook = async () => {
+    try {
+      setLoading(true);
+      const [priceRows, marginReport] = await Promise.all([
+      fuelPriceService.getPrices(station),
+      fuelPriceService.getMarginReport(station, fromDate, toDate)]
+      );
+      setPrices(priceRows);
+      setMargins(marginReport);
+    } catch (error) {
+      console.error('Error loading fuel price book:', error);
+      toast({ title: 'Error', description: 'Failed to load fuel prices', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const savePrice = async () => {
+    setSaving(true);
+    const { error } = await fuelPriceService.setPrice(station, grade, price, effectiveDate, user?.Email || 'unknown', notes);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error, variant: 'destructive' });
+      return;
+    }
+    toast({
+      title: 'Price recorded',
+      description: `${getGradeLabel(configuration.grades, grade)} at ${station} is $${price.toFixed(3)} from ${effectiveDate}`
+    });
+    setPrice(0);
+    setNotes('');
+    loadPriceBook();
+  };
+
+  const deletePrice = async (row: FuelPriceRow) => {
+    if (!window.confirm(`Remove the ${getGradeLabel(configuration.grades, row.grade)} price change on ${row.effective_date}?`)) return;
+    const { error } = await fuelPriceService.deletePrice(row.id);
+    if (error) {
+      toast({ title: 'Error', description: error, variant: 'destructive' });
+      return;
+    }
+    loadPriceBook();
+  };
+
+  const totals = (margins?.daily || []).reduce((sum, day) => ({
+    gallons: sum.gallons + day.gallons,
+    revenue: sum.revenue + day.revenue,
+    cost: sum.cost + day.cost,
+    unpriced: sum.unpriced + day.unpricedGallons,
+    uncosted: sum.uncosted + day.uncostedGallons
+  }), { gallons: 0, revenue: 0, cost: 0, unpriced: 0, uncosted: 0 });
+  const periodMargin = totals.gallons > 0 ? (totals.revenue - totals.cost) / totals.gallons * 100 : null;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <DollarSign className="w-6 h-6" />
+                <span>Fuel Price Book</span>
+              </CardTitle>
+              <CardDescription>
+                Pump prices by grade and the margin per gallon against delivery costs
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => navigate('/sales')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Sales
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Station</Label>
+              <Select value={station} onValueChange={setStation}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select station" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stations.map((option) =>
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="margin_from">Margin From</Label>
+              <Input id="margin_from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="margin_to">To</Label>
+              <Input id="margin_to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {configuration.grades.map(({ grade: key, label }) =>
+        <Card key={key}>
+            <CardContent className="p-4 space-y-1">
+              <p className="text-sm font-medium text-gray-600">{label}</p>
+              <p className="text-2xl font-bold">{currentPrices[key] ? `$${currentPrices[key].toFixed(3)}` : '—'}</p>
+              <p className="text-xs text-gray-500">{currentPrices[key] ? 'Current pump price' : 'No price recorded'}</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Margin per Gallon</CardTitle>
+          <CardDescription>
+            {formatCents(periodMargin)} over {totals.gallons.toLocaleString()} gal — revenue {formatMoney(totals.revenue)}, cost {formatMoney(totals.cost)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {(totals.unpriced > 0 || totals.uncosted > 0) &&
+          <p className="text-sm text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+              Left out of the margin: {totals.unpriced.toLocaleString()} gal without a pump price and{' '}
+              {totals.uncosted.toLocaleString()} gal without a delivery cost.
+            </p>
+          }
+          <FuelMarginTrendChart trend={margins?.trend || []} loading={loading} />
+          {(margins?.daily.length || 0) > 0 &&
+          <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Gallons</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                  <TableHead className="text-right">Not Included</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {margins!.daily.map((day) =>
+              <TableRow key={`${day.station}-${day.date}`}>
+                    <TableCell className="font-medium">{new Date(`${day.date}T00:00:00`).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">{day.gallons.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatMoney(day.revenue)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(day.cost)}</TableCell>
+                    <TableCell className={`text-right font-medium ${(day.centsPerGallon || 0) < 0 ? 'text-red-600' : ''}`}>
+                      {formatCents(day.centsPerGallon)}
+                    </TableCell>
+                    <TableCell className="text-right text-gray-500">
+                      {day.unpricedGallons + day.uncostedGallons > 0 ? `${(day.unpricedGallons + day.uncostedGallons).toLocaleString()} gal` : '—'}
+                    </TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          }
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {isManager() &&
+        <Card>
+            <CardHeader>
+              <CardTitle>Record Price Change</CardTitle>
+              <CardDescription>The new price applies from the effective date until the next change</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Grade</Label>
+                  <Select value={grade} onValueChange={setGrade}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select grade" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {configuration.grades.map((option) =>
+                    <SelectItem key={option.grade} value={option.grade}>{option.label}</SelectItem>
+                    )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pump_price">Price per Gallon ($)</Label>
+                  <NumberInput id="pump_price" value={price} onChange={(value) => setPrice(value || 0)} step={0.001} precision={3} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="effective_date">Effective Date</Label>
+                  <Input id="effective_date" type="date" value={effectiveDate} onChange={(e) => setEffectiveDate(e.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price_notes">Notes</Label>
+                <Input id="price_notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="e.g. Matched competitor across the street" />
+              </div>
+              <Button onClick={savePrice} disabled={saving || !station || !grade}>
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Price'}
+              </Button>
+            </CardContent>
+          </Card>
+        }
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Price History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {prices.length === 0 ?
+            <p className="text-center py-8 text-gray-500">No pump prices recorded for this station</p> :
+
+            <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Effective</TableHead>
+                    <TableHead>Grade</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead>Changed By</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {prices.map((row) =>
+                <TableRow key={row.id}>
+                      <TableCell>{new Date(`${row.effective_date}T00:00:00`).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {getGradeLabel(configuration.grades, row.grade)}
+                        {currentPriceIds.has(row.id) &&
+                    <Badge variant="outline" className="ml-2">Current</Badge>
+                    }
+                      </TableCell>
+                      <TableCell className="text-right">${Number(row.price_per_gallon).toFixed(3)}</TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {row.changed_by}
+                        {row.notes && <div className="text-xs text-gray-500">{row.notes}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isManager() &&
+                    <Button size="sm" variant="ghost" onClick={() => deletePrice(row)} className="text-red-600 hover:text-red-700">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                    }
+                      </TableCell>
+                    </TableRow>
+                )}
+                </TableBody>
+              </Table>
+            }
+          </CardContent>
+        </Card>
+      </div>
+    </div>);
+
+};
+
+export default FuelPriceBook;
@@ -20,7 +20,8 @@ import {
   CheckCircle2,
   Folder,
   RefreshCw,
-  Printer } from
+  Printer,
+  Lock } from
 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import StationDropdown from '@/components/StationDropdown';
@@ -33,6 +34,15 @@ import CashCollectionSection from '@/components/SalesReportSections/CashCollecti
 import DraftManagementDialog from '@/components/DraftManagementDialog';
 import DraftSavingService from '@/utils/draftSaving';
 import EnhancedSalesReportPrintDialog from '@/components/EnhancedSalesReportPrintDialog';
+import VeederRootImportDialog from '@/components/SalesReportSections/VeederRootImportDialog';
+import { tankReconciliationService } from '@/services/tankReconciliationService';
+import type { GradeTankLevel, VeederRootReport } from '@/utils/veederRoot';
+import { useFuelConfiguration } from '@/hooks/use-fuel-configuration';
+import { getSalesGallons, GradeGallons, sumGallons, toLegacySalesColumns } from '@/utils/fuelGrades';
+import { fuelPriceService } from '@/services/fuelPriceService';
+import { FuelPrice, getCurrentPrices } from '@/utils/fuelMargins';
+import { cashShortOverService } from '@/services/cashShortOverService';
+import { getReportStatus, isReportLocked } from '@/utils/salesReportWorkflow';
 
 export default function SalesReportForm() {
   const navigate = useNavigate();
@@ -42,12 +52,17 @@ export default function SalesReportForm() {
   const isEditing = !!id;
 
   const [selectedStation, setSelectedStation] = useState('');
+  const { configuration: fuelConfiguration } = useFuelConfiguration(selectedStation);
   const [employees, setEmployees] = useState<Array<{id: number;first_name: string;last_name: string;employee_id: string;}>>([]);
   const [isLoadingEmployees, setIsLoadingEmployees] = useState(false);
   const [totalExpenses, setTotalExpenses] = useState(0);
   const [cashExpenses, setCashExpenses] = useState(0);
   const [showDraftDialog, setShowDraftDialog] = useState(false);
   const [showPrintDialog, setShowPrintDialog] = useState(false);
+  const [veederRootReport, setVeederRootReport] = useState<VeederRootReport | null>(null);
+  const [showVeederRootDialog, setShowVeederRootDialog] = useState(false);
+  const [tankLevels, setTankLevels] = useState<GradeTankLevel[]>([]);
+  const [fuelPrices, setFuelPrices] = useState<FuelPrice[]>([]);
   const [draftInfo, setDraftInfo] = useState<{
     savedAt: Date;
     expiresAt: Date;
@@ -78,10 +93,8 @@ export default function SalesReportForm() {
     // Lottery - Manual Entry
     lotteryNetSales: 0,
     scratchOffSales: 0,
-    // Gas Tank Report - Manual Entry
-    regularGallons: 0,
-    superGallons: 0,
-    dieselGallons: 0,
+    // Gas Tank Report - Manual Entry, gallons sold per grade
+    fuelGallons: {} as GradeGallons,
     // Documents
     dayReportFileId: undefined as number | undefined,
     veederRootFileId: undefined as number | undefined,
@@ -114,14 +127,28 @@ export default function SalesReportForm() {
     }
   }, [selectedStation, formData.report_date, isEditing]);
 
+  useEffect(() => {
+    if (!selectedStation) return;
+    fuelPriceService.getPrices(selectedStation).
+    then(setFuelPrices).
+    catch((error) => console.error('Error loading fuel prices:', error));
+  }, [selectedStation]);
+
+  const pumpPrices = useMemo(
+    () => getCurrentPrices(fuelPrices, selectedStation, formData.report_date),
+    [fuelPrices, selectedStation, formData.report_date]
+  );
+
+  // Approved reports stay read-only until a manager reopens them
+  const reportLocked = isEditing && !!currentReport && isReportLocked(currentReport);
+  const reviewStatus = isEditing && currentReport ? getReportStatus(currentReport) : null;
+
   // Auto-calculations with proper synchronization
   const totalSales = useMemo(() => {
     return formData.creditCardAmount + formData.debitCardAmount + formData.mobileAmount + formData.cashAmount + formData.grocerySales;
   }, [formData.creditCardAmount, formData.debitCardAmount, formData.mobileAmount, formData.cashAmount, formData.grocerySales]);
 
-  const totalGallons = useMemo(() => {
-    return formData.regularGallons + formData.superGallons + formData.dieselGallons;
-  }, [formData.regularGallons, formData.superGallons, formData.dieselGallons]);
+  const totalGallons = useMemo(() => sumGallons(formData.fuelGallons), [formData.fuelGallons]);
 
   const totalLotteryCash = useMemo(() => {
     return formData.lotteryNetSales + formData.scratchOffSales;
@@ -185,6 +212,7 @@ export default function SalesReportForm() {
 
         // Parse expenses data if it exists
         let expensesData: { total_expenses: number; cash_expenses: number; grocery_breakdown?: { groceryCashSales: number; groceryCardSales: number } } = { total_expenses: 0, cash_expenses: 0 };
+        let groceryBreakdown = { groceryCashSales: 0, groceryCardSales: 0 };
 
         if (report.expenses_data) {
           try {
@@ -217,9 +245,7 @@ export default function SalesReportForm() {
           groceryCardSales: parseNumeric(groceryBreakdown.groceryCardSales),
           lotteryNetSales: parseNumeric(report.lottery_net_sales),
           scratchOffSales: parseNumeric(report.scratch_off_sales),
-          regularGallons: parseNumeric(report.regular_gallons),
-          superGallons: parseNumeric(report.super_gallons),
-          dieselGallons: parseNumeric(report.diesel_gallons),
+          fuelGallons: getSalesGallons(report),
           dayReportFileId: report.day_report_file_id || undefined,
           veederRootFileId: report.veeder_root_file_id || undefined,
           lottoReportFileId: report.lotto_report_file_id || undefined,
@@ -336,6 +362,11 @@ export default function SalesReportForm() {
       setSelectedStation(station);
       setFormData({
         ...draftData,
+        fuelGallons: draftData.fuelGallons || getSalesGallons({
+          regular_gallons: draftData.regularGallons,
+          super_gallons: draftData.superGallons,
+          diesel_gallons: draftData.dieselGallons
+        }),
         station
       });
 
@@ -373,9 +404,7 @@ export default function SalesReportForm() {
       groceryCardSales: 0,
       lotteryNetSales: 0,
       scratchOffSales: 0,
-      regularGallons: 0,
-      superGallons: 0,
-      dieselGallons: 0,
+      fuelGallons: {},
       dayReportFileId: undefined,
       veederRootFileId: undefined,
       lottoReportFileId: undefined,
@@ -385,10 +414,22 @@ export default function SalesReportForm() {
     setTotalExpenses(0);
     setCashExpenses(0);
     setDraftInfo(null);
+    setVeederRootReport(null);
+    setTankLevels([]);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (reportLocked) {
+      toast({
+        title: 'Report Locked',
+        description: 'This report has been approved. A manager must reopen it before it can be changed.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -440,9 +481,10 @@ export default function SalesReportForm() {
         lottery_net_sales: parseAndRound(formData.lotteryNetSales),
         scratch_off_sales: parseAndRound(formData.scratchOffSales),
         lottery_total_cash: parseAndRound(totalLotteryCash),
-        regular_gallons: parseAndRound(formData.regularGallons),
-        super_gallons: parseAndRound(formData.superGallons),
-        diesel_gallons: parseAndRound(formData.dieselGallons),
+        ...toLegacySalesColumns(formData.fuelGallons),
+        fuel_gallons: Object.fromEntries(
+          Object.entries(formData.fuelGallons).map(([grade, gallons]) => [grade, parseAndRound(gallons)])
+        ),
         total_gallons: parseAndRound(totalGallons),
         expenses_data: JSON.stringify({
           total_expenses: parseAndRound(totalExpenses),
@@ -458,7 +500,11 @@ export default function SalesReportForm() {
         scratch_off_report_file_id: formData.scratchOffReportFileId || null,
         total_sales: parseAndRound(totalSales),
         notes: formData.notes || '',
-        created_by: user?.ID || 0
+        created_by: user?.ID || 0,
+        // Saving sends the report (back) to manager review
+        status: 'submitted',
+        submitted_by: user?.Email || '',
+        submitted_at: new Date().toISOString()
       };
 
       let result;
@@ -481,6 +527,34 @@ export default function SalesReportForm() {
         description: `Sales report has been ${isEditing ? 'updated' : 'created'} successfully.`
       });
 
+      // Record short/over alerts if this shift put anyone outside the station's tolerances
+      const { raised: shortOverAlerts } = await cashShortOverService.checkAlerts(formData.station);
+      if (shortOverAlerts > 0) {
+        toast({
+          title: 'Cash Short/Over Alert',
+          description: `${shortOverAlerts} short/over alert(s) recorded for ${formData.station}.`,
+          variant: 'destructive'
+        });
+      }
+
+      // Save the confirmed Veeder-Root tank levels as the day's tank readings
+      if (tankLevels.length > 0) {
+        const { error: tankError } = await tankReconciliationService.saveTankLevels(
+          formData.station,
+          formData.report_date,
+          tankLevels,
+          user?.Email || '',
+          formData.veederRootFileId
+        );
+        if (tankError) {
+          toast({
+            title: 'Tank Readings Not Saved',
+            description: tankError,
+            variant: 'destructive'
+          });
+        }
+      }
+
       // Delete any existing draft after successful submission
       if (selectedStation && formData.report_date && !isEditing) {
         DraftSavingService.deleteDraft(selectedStation, formData.report_date);
@@ -554,10 +628,24 @@ export default function SalesReportForm() {
     });
   };
 
+  const handleFuelGallonsChange = (grade: string, gallons: number) => {
+    setFormData((prev) => ({ ...prev, fuelGallons: { ...prev.fuelGallons, [grade]: gallons } }));
+  };
+
   const handleDocumentUpload = (field: string, fileId: number) => {
     setFormData((prev) => ({ ...prev, [field]: fileId }));
   };
 
+  const handleVeederRootParsed = (report: VeederRootReport) => {
+    setVeederRootReport(report);
+    setShowVeederRootDialog(true);
+  };
+
+  const handleTankLevelsConfirmed = (levels: GradeTankLevel[]) => {
+    setTankLevels(levels);
+    setShowVeederRootDialog(false);
+  };
+
   const handleExpensesChange = (totalExpenses: number, cashExpenses: number = 0) => {
     setTotalExpenses(totalExpenses);
     setCashExpenses(cashExpenses);
@@ -658,6 +746,27 @@ export default function SalesReportForm() {
           </Alert>
         }
 
+        {/* Review Status */}
+        {reportLocked &&
+        <Alert className="mb-6 border-green-200 bg-green-50">
+            <Lock className="h-4 w-4 text-green-600" />
+            <AlertDescription className="text-green-800">
+              Approved{currentReport.approved_by ? ` by ${currentReport.approved_by}` : ''}
+              {currentReport.approved_at ? ` on ${new Date(currentReport.approved_at).toLocaleString()}` : ''}.
+              This report is locked; a manager must reopen it before it can be changed.
+            </AlertDescription>
+          </Alert>
+        }
+        {(reviewStatus === 'rejected' || reviewStatus === 'reopened') &&
+        <Alert className="mb-6 border-red-200 bg-red-50">
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">
+              {reviewStatus === 'rejected' ? 'Rejected by a manager' : 'Reopened by a manager'}
+              {currentReport.review_comment ? `: ${currentReport.review_comment}` : ''}. Correct the report and save it to submit it for review again.
+            </AlertDescription>
+          </Alert>
+        }
+
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Basic Information */}
           <Card>
@@ -818,12 +927,12 @@ export default function SalesReportForm() {
 
           {/* Gas Tank Report */}
           <GasTankReportSection
-            values={{
-              regularGallons: formData.regularGallons,
-              superGallons: formData.superGallons,
-              dieselGallons: formData.dieselGallons
-            }}
-            onChange={updateFormData} />
+            grades={fuelConfiguration.grades}
+            values={formData.fuelGallons}
+            onChange={handleFuelGallonsChange}
+            tankLevels={tankLevels}
+            onReviewTankLevels={veederRootReport ? () => setShowVeederRootDialog(true) : undefined}
+            pumpPrices={pumpPrices} />
 
           {/* Expenses Section */}
           <ExpensesSection
@@ -839,7 +948,8 @@ export default function SalesReportForm() {
               lottoReportFileId: formData.lottoReportFileId,
               scratchOffReportFileId: formData.scratchOffReportFileId
             }}
-            onChange={handleDocumentUpload} />
+            onChange={handleDocumentUpload}
+            onVeederRootParsed={handleVeederRootParsed} />
 
           {/* Notes */}
           <Card>
@@ -951,7 +1061,7 @@ export default function SalesReportForm() {
               <Button
                 type="submit"
                 className="bg-blue-600 hover:bg-blue-700 gap-2"
-                disabled={isSubmitting}>
+                disabled={isSubmitting || reportLocked}>
                 {isSubmitting ?
                 <RefreshCw className="w-4 h-4 animate-spin" /> :
 
@@ -977,6 +1087,15 @@ export default function SalesReportForm() {
           onOpenChange={setShowPrintDialog}
           report={currentReport} />
 
+        {/* Veeder-Root Import Confirmation */}
+        <VeederRootImportDialog
+          report={veederRootReport}
+          reportDate={formData.report_date}
+          configuration={fuelConfiguration}
+          isOpen={showVeederRootDialog}
+          onClose={() => setShowVeederRootDialog(false)}
+          onConfirm={handleTankLevelsConfirmed} />
+
       </div>
     </div>);
 }
@@ -6,13 +6,18 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { toast } from '@/hooks/use-toast';
-import { Plus, Search, Edit, Trash2, TrendingUp, DollarSign, Calendar, Printer, Filter } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, TrendingUp, DollarSign, Calendar, Printer, Filter, Fuel, ClipboardCheck, Lock, Scale, Landmark, CreditCard } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useFormatting } from '@/contexts/FormattingContext';
 import { useModuleAccess } from '@/contexts/ModuleAccessContext';
 import EnhancedSalesReportPrintDialog from '@/components/EnhancedSalesReportPrintDialog';
 import StationDropdown from '@/components/StationDropdown';
 import { useStationFilter } from '@/hooks/use-station-options';
+import { useStationStore } from '@/hooks/use-station-store';
+import SalesReportReviewDialog from '@/components/SalesReportReviewDialog';
+import SalesReportStatusBadge from '@/components/SalesReportStatusBadge';
+import { getReviewActions, isReportLocked } from '@/utils/salesReportWorkflow';
 
 interface SalesReport {
   ID: number;
@@ -43,6 +48,9 @@ interface SalesReport {
   total_sales: number;
   notes: string;
   created_by: number;
+  status?: string | null;
+  submitted_by?: string | null;
+  submitted_at?: string | null;
 }
 
 const SalesReportList: React.FC = () => {
@@ -54,8 +62,10 @@ const SalesReportList: React.FC = () => {
   const [totalCount, setTotalCount] = useState(0);
   const [printDialogOpen, setPrintDialogOpen] = useState(false);
   const [selectedReport, setSelectedReport] = useState<SalesReport | null>(null);
+  const [reviewReport, setReviewReport] = useState<SalesReport | null>(null);
   const navigate = useNavigate();
-  const { userProfile, isAdmin } = useAuth();
+  const { userProfile, isAdmin, isManager } = useAuth();
+  const { formatDate, formatCurrency } = useFormatting();
 
   // Module Access Control
   const {
@@ -126,7 +136,8 @@ const SalesReportList: React.FC = () => {
     }
   };
 
-  const handleDelete = async (reportId: number) => {
+  const handleDelete = async (report: SalesReport) => {
+    const reportId = report.ID;
     console.log('Attempting to delete report ID:', reportId);
     // Check delete permission - only admin users can delete
     if (!canDeleteSales) {
@@ -139,6 +150,15 @@ const SalesReportList: React.FC = () => {
       return;
     }
 
+    if (isReportLocked(report)) {
+      toast({
+        title: "Report Locked",
+        description: "Approved reports must be reopened by a manager before they can be deleted.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     if (!confirm('Are you sure you want to delete this sales report?')) {
       return;
     }
@@ -165,8 +185,8 @@ const SalesReportList: React.FC = () => {
     }
   };
 
-  const handleEdit = (reportId: number) => {
-    console.log('Attempting to edit report ID:', reportId);
+  const handleEdit = (report: SalesReport) => {
+    console.log('Attempting to edit report ID:', report.ID);
     // Check edit permission - only admin users can edit
     if (!canEditSales) {
       console.warn('Edit permission denied for user');
@@ -178,7 +198,16 @@ const SalesReportList: React.FC = () => {
       return;
     }
 
-    navigate(`/sales/${reportId}/edit`);
+    if (isReportLocked(report)) {
+      toast({
+        title: "Report Locked",
+        description: "Approved reports must be reopened by a manager before they can be edited.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    navigate(`/sales/${report.ID}/edit`);
   };
 
   const handleCreateReport = () => {
@@ -207,17 +236,6 @@ const SalesReportList: React.FC = () => {
   // Use centralized station color mapping
   const { getStationBadgeColor } = useStationStore();
 
-  const formatDate = (dateString: string) => {
-    if (!dateString) return 'N/A';
-    return new Date(dateString).toLocaleDateString();
-  };
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
-  };
 
   const totalPages = Math.ceil(totalCount / pageSize);
 
@@ -356,17 +374,41 @@ const SalesReportList: React.FC = () => {
               </CardDescription>
             </div>
             
-            {/* Only show Add Report button if create permission is enabled */}
-            {canCreateSales && canAddReport ?
-            <Button onClick={handleCreateReport} className="flex items-center space-x-2">
-                <Plus className="w-4 h-4" />
-                <span>Add Report</span>
-              </Button> :
-            isModuleAccessEnabled &&
-            <Badge variant="secondary" className="text-xs">
-                Create access disabled by admin
-              </Badge>
-            }
+            <div className="flex items-center space-x-2">
+              {isManager() &&
+              <Button variant="outline" onClick={() => navigate('/sales/review')} className="flex items-center space-x-2">
+                  <ClipboardCheck className="w-4 h-4" />
+                  <span>Review Queue</span>
+                </Button>
+              }
+              <Button variant="outline" onClick={() => navigate('/sales/short-over')} className="flex items-center space-x-2">
+                <Scale className="w-4 h-4" />
+                <span>Short / Over</span>
+              </Button>
+              <Button variant="outline" onClick={() => navigate('/sales/deposits')} className="flex items-center space-x-2">
+                <Landmark className="w-4 h-4" />
+                <span>Deposits</span>
+              </Button>
+              <Button variant="outline" onClick={() => navigate('/sales/card-settlements')} className="flex items-center space-x-2">
+                <CreditCard className="w-4 h-4" />
+                <span>Card Settlements</span>
+              </Button>
+              <Button variant="outline" onClick={() => navigate('/sales/fuel-prices')} className="flex items-center space-x-2">
+                <Fuel className="w-4 h-4" />
+                <span>Fuel Prices</span>
+              </Button>
+              {/* Only show Add Report button if create permission is enabled */}
+              {canCreateSales && canAddReport ?
+              <Button onClick={handleCreateReport} className="flex items-center space-x-2">
+                  <Plus className="w-4 h-4" />
+                  <span>Add Report</span>
+                </Button> :
+              isModuleAccessEnabled &&
+              <Badge variant="secondary" className="text-xs">
+                  Create access disabled by admin
+                </Badge>
+              }
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -433,6 +475,7 @@ const SalesReportList: React.FC = () => {
                     <TableHead>Grocery</TableHead>
                     <TableHead>Payment Methods</TableHead>
                     <TableHead>Employee</TableHead>
+                    <TableHead>Status</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -492,6 +535,9 @@ const SalesReportList: React.FC = () => {
                         </div>
                       </TableCell>
                       <TableCell>{report.employee_name}</TableCell>
+                      <TableCell>
+                        <SalesReportStatusBadge status={report.status} />
+                      </TableCell>
                       <TableCell>
                         <div className="flex items-center space-x-2">
                           <Button
@@ -508,9 +554,21 @@ const SalesReportList: React.FC = () => {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => handleEdit(report.ID)}
-                        title="Edit Report">
-                              <Edit className="w-4 h-4" />
+                        onClick={() => handleEdit(report)}
+                        disabled={isReportLocked(report)}
+                        title={isReportLocked(report) ? 'Approved reports are locked' : 'Edit Report'}>
+                              {isReportLocked(report) ? <Lock className="w-4 h-4" /> : <Edit className="w-4 h-4" />}
+                            </Button>
+                      }
+
+                          {/* Managers review pending reports and reopen approved ones */}
+                          {isManager() && getReviewActions(report).length > 0 &&
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setReviewReport(report)}
+                        title={isReportLocked(report) ? 'Reopen Report' : 'Review Report'}>
+                              <ClipboardCheck className="w-4 h-4" />
                             </Button>
                       }
                           
@@ -519,9 +577,10 @@ const SalesReportList: React.FC = () => {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => handleDelete(report.ID)}
+                        onClick={() => handleDelete(report)}
+                        disabled={isReportLocked(report)}
                         className="text-red-600 hover:text-red-700"
-                        title="Delete Report">
+                        title={isReportLocked(report) ? 'Approved reports are locked' : 'Delete Report'}>
                               <Trash2 className="w-4 h-4" />
                             </Button>
                       }
@@ -566,6 +625,7 @@ const SalesReportList: React.FC = () => {
                       </TableCell>
                       <TableCell className="text-gray-500">-</TableCell>
                       <TableCell className="text-gray-500">-</TableCell>
+                      <TableCell className="text-gray-500">-</TableCell>
                     </TableRow>
                 }
                 </TableBody>
@@ -625,6 +685,12 @@ const SalesReportList: React.FC = () => {
         onOpenChange={setPrintDialogOpen}
         report={selectedReport} />
 
+      <SalesReportReviewDialog
+        report={reviewReport}
+        isOpen={!!reviewReport}
+        onClose={() => setReviewReport(null)}
+        onReviewed={loadReports} />
+
     </div>);
 
 };
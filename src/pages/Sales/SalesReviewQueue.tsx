@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStationStore } from '@/hooks/use-station-store';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, ClipboardCheck } from 'lucide-react';
+import { salesReportReviewService } from '@/services/salesReportReviewService';
+import SalesReportReviewDialog, { ReviewDialogReport } from '@/components/SalesReportReviewDialog';
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleDateString() : 'N/A';
+
+const formatCurrency = (value: number) =>
+new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(Number(value) || 0);
+
+/**
+ * Sales reports waiting for manager review across the manager's stations
+ */
+const SalesReviewQueue: React.FC = () => {
+  const navigate = useNavigate();
+  const { isManager } = useAuth();
+  const { getFilteredStationOptions, getStationBadgeColor } = useStationStore();
+  const stations = getFilteredStationOptions(false).map((option) => option.value);
+
+  const [reports, setReports] = useState<ReviewDialogReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedReport, setSelectedReport] = useState<ReviewDialogReport | null>(null);
+
+  useEffect(() => {
+    if (stations.length > 0) {
+      loadQueue();
+    }
+  }, [stations.join(',')]);
+
+  const loadQueue = async () => {
+    try {
+      setLoading(true);
+      const rows = await salesReportReviewService.getReviewQueue(stations);
+      setReports(rows.map((row) => ({ ...row, ID: row.id! })));
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load reports pending review",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isManager()) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center text-gray-500">
+          Only managers can review sales reports.
+        </CardContent>
+      </Card>);
+
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <ClipboardCheck className="w-6 h-6" />
+                <span>Sales Reports Pending Review</span>
+                <Badge variant="secondary" className="ml-2">{reports.length}</Badge>
+              </CardTitle>
+              <CardDescription>
+                Approve shift close-outs or send them back with comments
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => navigate('/sales')} className="flex items-center space-x-2">
+              <ArrowLeft className="w-4 h-4" />
+              <span>Back to Sales</span>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ?
+          <div className="space-y-4">
+              {[...Array(3)].map((_, i) =>
+            <div key={i} className="h-14 bg-gray-100 rounded animate-pulse"></div>
+            )}
+            </div> :
+          reports.length === 0 ?
+          <p className="text-center text-gray-500 py-8">No reports are waiting for review.</p> :
+
+          <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Station</TableHead>
+                    <TableHead>Shift</TableHead>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Total Sales</TableHead>
+                    <TableHead>Short / Over</TableHead>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reports.map((report) =>
+                <TableRow key={report.ID}>
+                      <TableCell className="font-medium">{formatDate(report.report_date)}</TableCell>
+                      <TableCell>
+                        <Badge className={`text-white ${getStationBadgeColor(report.station)}`}>{report.station}</Badge>
+                      </TableCell>
+                      <TableCell>{report.shift || 'DAY'}</TableCell>
+                      <TableCell>{report.employee_name}</TableCell>
+                      <TableCell>{formatCurrency(report.total_sales)}</TableCell>
+                      <TableCell className={(report.total_short_over || 0) < 0 ? 'text-red-600' : 'text-green-600'}>
+                        {formatCurrency(report.total_short_over)}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {formatDate(report.submitted_at)}
+                        {report.submitted_by && <div className="text-xs">{report.submitted_by}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Button size="sm" onClick={() => setSelectedReport(report)}>Review</Button>
+                      </TableCell>
+                    </TableRow>
+                )}
+                </TableBody>
+              </Table>
+            </div>
+          }
+        </CardContent>
+      </Card>
+
+      <SalesReportReviewDialog
+        report={selectedReport}
+        isOpen={!!selectedReport}
+        onClose={() => setSelectedReport(null)}
+        onReviewed={loadQueue} />
+    </div>);
+
+};
+
+export default SalesReviewQueue;
@@ -20,34 +20,17 @@ import {
 import { useAuth } from '@/contexts/AuthContext';
 import { useStationStore } from '@/hooks/use-station-store';
 import { useToast } from '@/hooks/use-toast';
+import { UserPreferences } from '@/utils/userPreferences';
 
 const AppSettings = () => {
-  const { user, userProfile, isAdmin, isManager } = useAuth();
+  const { user, userProfile, isAdmin, isManager, preferences, updatePreferences } = useAuth();
   const { toast } = useToast();
   const { getFilteredStationOptions } = useStationStore();
   const [loading, setLoading] = useState(false);
   
   // Get dynamic station options including ALL
   const stationOptions = getFilteredStationOptions(true);
-  const [settings, setSettings] = useState({
-    notifications: {
-      emailAlerts: true,
-      smsAlerts: false,
-      desktopNotifications: true,
-      alertFrequency: 'daily'
-    },
-    preferences: {
-      theme: 'light',
-      language: 'en',
-      dateFormat: 'MM/DD/YYYY',
-      currency: 'USD'
-    },
-    security: {
-      sessionTimeout: 30,
-      requirePasswordChange: false,
-      twoFactorAuth: false
-    }
-  });
+  const [settings, setSettings] = useState<UserPreferences>(preferences);
 
   const [profileData, setProfileData] = useState({
     phone: userProfile?.phone || '',
@@ -55,7 +38,10 @@ const AppSettings = () => {
   });
 
   useEffect(() => {
-    // Load user preferences from database if needed
+    setSettings(preferences);
+  }, [preferences]);
+
+  useEffect(() => {
     if (userProfile) {
       setProfileData({
         phone: userProfile.phone || '',
@@ -100,7 +86,10 @@ const AppSettings = () => {
     try {
       setLoading(true);
 
-      // In a real implementation, you would save settings to a user preferences table
+      const { error } = await updatePreferences(settings);
+      if (error) {
+        throw new Error(error);
+      }
 
       toast({
         title: "Settings Saved",
@@ -110,7 +99,7 @@ const AppSettings = () => {
       console.error('Error saving settings:', error);
       toast({
         title: "Save Failed",
-        description: "Failed to save settings",
+        description: error instanceof Error ? error.message : "Failed to save settings",
         variant: "destructive"
       });
     } finally {
@@ -289,7 +278,7 @@ const AppSettings = () => {
                   onValueChange={(value) =>
                   setSettings({
                     ...settings,
-                    notifications: { ...settings.notifications, alertFrequency: value }
+                    notifications: { ...settings.notifications, alertFrequency: value as UserPreferences['notifications']['alertFrequency'] }
                   })
                   }>
 
@@ -325,12 +314,9 @@ const AppSettings = () => {
               <div>
                 <Label>Theme</Label>
                 <Select
-                  value={settings.preferences.theme}
+                  value={settings.theme}
                   onValueChange={(value) =>
-                  setSettings({
-                    ...settings,
-                    preferences: { ...settings.preferences, theme: value }
-                  })
+                  setSettings({ ...settings, theme: value as UserPreferences['theme'] })
                   }>
 
                   <SelectTrigger className="mt-2">
@@ -347,12 +333,9 @@ const AppSettings = () => {
               <div>
                 <Label>Language</Label>
                 <Select
-                  value={settings.preferences.language}
+                  value={settings.language}
                   onValueChange={(value) =>
-                  setSettings({
-                    ...settings,
-                    preferences: { ...settings.preferences, language: value }
-                  })
+                  setSettings({ ...settings, language: value })
                   }>
 
                   <SelectTrigger className="mt-2">
@@ -368,12 +351,9 @@ const AppSettings = () => {
               <div>
                 <Label>Date Format</Label>
                 <Select
-                  value={settings.preferences.dateFormat}
+                  value={settings.dateFormat}
                   onValueChange={(value) =>
-                  setSettings({
-                    ...settings,
-                    preferences: { ...settings.preferences, dateFormat: value }
-                  })
+                  setSettings({ ...settings, dateFormat: value as UserPreferences['dateFormat'] })
                   }>
 
                   <SelectTrigger className="mt-2">
@@ -390,12 +370,9 @@ const AppSettings = () => {
               <div>
                 <Label>Currency</Label>
                 <Select
-                  value={settings.preferences.currency}
+                  value={settings.currency}
                   onValueChange={(value) =>
-                  setSettings({
-                    ...settings,
-                    preferences: { ...settings.preferences, currency: value }
-                  })
+                  setSettings({ ...settings, currency: value as UserPreferences['currency'] })
                   }>
 
                   <SelectTrigger className="mt-2">
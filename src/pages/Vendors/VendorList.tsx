@@ -5,7 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { toast } from '@/hooks/use-toast';
-import { Plus, Search, Edit, Trash2, Building2, Mail, Phone, MapPin, Eye, Download } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Building2, Mail, Phone, MapPin, Eye, Download, ShoppingCart } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useModuleAccess } from '@/contexts/ModuleAccessContext';
 import { useAuth } from '@/contexts/AuthContext';
@@ -463,6 +463,19 @@ const VendorList: React.FC = () => {
 
                             <Eye className="w-4 h-4" />
                           </Button>
+
+                          {vendor.is_active &&
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          navigate(`/orders/new?vendor=${vendor.ID}`);
+                        }}
+                        title="Create Order">
+                              <ShoppingCart className="w-4 h-4" />
+                            </Button>
+                      }
                           
                           {/* Only show Edit button if user is admin */}
                           {isAdmin() && canEditVendor &&
@@ -0,0 +1,155 @@
+// Bank deposits: deposit slips in bank_deposits (27013) covering the cash
+// collected on sales reports (12356), and the cash-to-bank reconciliation
+// between the two.
+
+import { bankDepositRepository, salesReportRepository } from './repositories';
+import type { BankDepositRow, SalesReportRow } from './supabase/tableRegistry';
+import { supabaseAuditLogger } from './supabaseAuditLogger';
+import {
+  DepositInput,
+  DepositReconciliationResult,
+  DepositReport,
+  getDepositedReportIds,
+  reconcileDeposits,
+  validateDeposit } from
+'@/utils/bankDeposits';
+import { roundMoney } from '@/utils/valueHelpers';
+
+export interface DepositReceipt {
+  url: string;
+  fileName: string;
+}
+
+export interface Depositor {
+  id?: number | string;
+  email: string;
+}
+
+// Shifts this far back are offered when recording a deposit
+const OPEN_REPORT_LOOKBACK_DAYS = 90;
+
+const endOfDay = (date: string) => `${date}T23:59:59`;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+class BankDepositService {
+  /**
+   * Deposits for a station ('ALL' for every station) from a date on, newest first
+   */
+  async getDeposits(station: string, fromDate: string, toDate?: string): Promise<BankDepositRow[]> {
+    const filters = bankDepositRepository.where().greaterThanOrEqual('deposit_date', fromDate);
+    if (toDate) filters.lessThanOrEqual('deposit_date', toDate);
+    if (station && station !== 'ALL') filters.equal('station', station);
+    return bankDepositRepository.findAll({ filters, orderBy: 'deposit_date', ascending: false });
+  }
+
+  private async getReports(station: string, fromDate: string, toDate: string): Promise<SalesReportRow[]> {
+    const filters = salesReportRepository.where().
+    greaterThanOrEqual('report_date', fromDate).
+    lessThanOrEqual('report_date', endOfDay(toDate));
+    if (station && station !== 'ALL') filters.equal('station', station);
+    return salesReportRepository.findAll({ filters, orderBy: 'report_date', ascending: true });
+  }
+
+  /**
+   * Shift reports at a station whose cash is not on a deposit yet, oldest first
+   */
+  async getOpenReports(station: string): Promise<SalesReportRow[]> {
+    const fromDate = daysAgo(OPEN_REPORT_LOOKBACK_DAYS);
+    const [reports, deposits] = await Promise.all([
+    this.getReports(station, fromDate, daysAgo(0)),
+    this.getDeposits(station, fromDate)]
+    );
+    const deposited = getDepositedReportIds(deposits);
+    return reports.filter((report) => !deposited.has(report.id!));
+  }
+
+  /**
+   * Cash collected on the period's reports against deposits made from the start
+   * of the period on. Deposits can only include earlier shifts, so later
+   * deposits are fetched too; reports they list from outside the period are
+   * loaded so their expected amounts are complete.
+   */
+  async getReconciliation(station: string, fromDate: string, toDate: string): Promise<DepositReconciliationResult<BankDepositRow>> {
+    const [reports, deposits] = await Promise.all([
+    this.getReports(station, fromDate, toDate),
+    this.getDeposits(station, fromDate)]
+    );
+
+    const loaded = new Set(reports.map((report) => report.id));
+    const missingIds = Array.from(getDepositedReportIds(deposits)).filter((id) => !loaded.has(id));
+    const earlierReports = missingIds.length > 0 ?
+    await salesReportRepository.findAll({ filters: salesReportRepository.where().in('id', missingIds) }) :
+    [];
+
+    return reconcileDeposits([...reports, ...earlierReports] as DepositReport[], deposits, { from: fromDate, to: toDate });
+  }
+
+  /**
+   * Record a deposit slip after checking it against the reports it includes
+   */
+  async createDeposit(
+  input: DepositInput & {notes?: string;},
+  receipt: DepositReceipt | null,
+  depositor: Depositor)
+  : Promise<{error: string | null;}> {
+    try {
+      const [reports, existing] = await Promise.all([
+      input.report_ids.length > 0 ?
+      salesReportRepository.findAll({ filters: salesReportRepository.where().in('id', input.report_ids) }) :
+      Promise.resolve([] as SalesReportRow[]),
+      bankDepositRepository.findAll({ filters: bankDepositRepository.where().equal('station', input.station) })]
+      );
+
+      const validationError = validateDeposit(input, reports as DepositReport[], existing);
+      if (validationError) return { error: validationError };
+
+      const { error } = await bankDepositRepository.create({
+        station: input.station,
+        deposit_date: input.deposit_date,
+        bag_number: input.bag_number.trim(),
+        amount: roundMoney(input.amount),
+        report_ids: input.report_ids,
+        receipt_url: receipt?.url || null,
+        receipt_file_name: receipt?.fileName || null,
+        notes: input.notes?.trim() || null,
+        deposited_by: depositor.email
+      });
+      if (error) return { error };
+
+      await supabaseAuditLogger.logDataModification(
+        'bank_deposits',
+        'create_bank_deposit',
+        depositor.id !== undefined ? String(depositor.id) : undefined,
+        depositor.email,
+        input.station,
+        { deposit_date: input.deposit_date, bag_number: input.bag_number.trim(), amount: input.amount, report_ids: input.report_ids }
+      );
+      return { error: null };
+    } catch (error) {
+      console.error('Error recording bank deposit:', error);
+      return { error: error instanceof Error ? error.message : 'Failed to record deposit' };
+    }
+  }
+
+  /**
+   * Delete a deposit slip entered in error; its reports become undeposited again
+   */
+  async deleteDeposit(deposit: BankDepositRow, depositor: Depositor): Promise<{error: string | null;}> {
+    const { error } = await bankDepositRepository.remove(deposit.id!);
+    if (error) return { error };
+
+    await supabaseAuditLogger.logDataModification(
+      'bank_deposits',
+      'delete_bank_deposit',
+      depositor.id !== undefined ? String(depositor.id) : undefined,
+      depositor.email,
+      deposit.station,
+      { deposit_id: deposit.id, deposit_date: deposit.deposit_date, bag_number: deposit.bag_number, amount: deposit.amount }
+    );
+    return { error: null };
+  }
+}
+
+// Export singleton instance
+export const bankDepositService = new BankDepositService();
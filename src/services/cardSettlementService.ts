@@ -0,0 +1,105 @@
+// Card settlements: processor settlement batches in card_settlements (27014),
+// imported from CSV and reconciled against the card totals on sales reports
+// (12356).
+
+import { cardSettlementRepository, salesReportRepository } from './repositories';
+import type { CardSettlementRow } from './supabase/tableRegistry';
+import { supabaseAuditLogger } from './supabaseAuditLogger';
+import {
+  CardReport,
+  reconcileCardSettlements,
+  SettlementDayReconciliation,
+  SettlementRecord,
+  settlementKey } from
+'@/utils/cardSettlements';
+
+export interface SettlementImporter {
+  id?: number | string;
+  email: string;
+}
+
+const endOfDay = (date: string) => `${date}T23:59:59`;
+
+class CardSettlementService {
+  /**
+   * Settlement lines for a station ('ALL' for every station) by business date
+   */
+  async getSettlements(station: string, fromDate: string, toDate: string): Promise<CardSettlementRow[]> {
+    const filters = cardSettlementRepository.where().
+    greaterThanOrEqual('business_date', fromDate).
+    lessThanOrEqual('business_date', toDate);
+    if (station && station !== 'ALL') filters.equal('station', station);
+    return cardSettlementRepository.findAll({ filters, orderBy: 'business_date', ascending: false });
+  }
+
+  async getReconciliation(station: string, fromDate: string, toDate: string): Promise<SettlementDayReconciliation[]> {
+    const reportFilters = salesReportRepository.where().
+    greaterThanOrEqual('report_date', fromDate).
+    lessThanOrEqual('report_date', endOfDay(toDate));
+    if (station && station !== 'ALL') reportFilters.equal('station', station);
+
+    const [reports, settlements] = await Promise.all([
+    salesReportRepository.findAll({ filters: reportFilters }),
+    this.getSettlements(station, fromDate, toDate)]
+    );
+    return reconcileCardSettlements(reports as CardReport[], settlements as SettlementRecord[]);
+  }
+
+  /**
+   * Save parsed settlement lines, skipping lines already imported from an
+   * earlier file
+   */
+  async importSettlements(
+  records: SettlementRecord[],
+  fileName: string,
+  importer: SettlementImporter)
+  : Promise<{imported: number;skipped: number;error: string | null;}> {
+    if (records.length === 0) {
+      return { imported: 0, skipped: 0, error: 'There are no settlement lines to import' };
+    }
+
+    try {
+      const dates = records.map((record) => record.business_date).sort();
+      const existing = await cardSettlementRepository.findAll({
+        filters: cardSettlementRepository.where().
+        in('station', Array.from(new Set(records.map((record) => record.station)))).
+        greaterThanOrEqual('business_date', dates[0]).
+        lessThanOrEqual('business_date', dates[dates.length - 1])
+      });
+      const seen = new Set(existing.map((row) => settlementKey(row as SettlementRecord)));
+
+      const importedAt = new Date().toISOString();
+      let imported = 0;
+      for (const record of records) {
+        const key = settlementKey(record);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const { error } = await cardSettlementRepository.create({
+          ...record,
+          source_file_name: fileName,
+          imported_by: importer.email,
+          imported_at: importedAt
+        });
+        if (error) return { imported, skipped: records.length - imported, error };
+        imported += 1;
+      }
+
+      await supabaseAuditLogger.logDataModification(
+        'card_settlements',
+        'import_card_settlements',
+        importer.id !== undefined ? String(importer.id) : undefined,
+        importer.email,
+        records[0].station,
+        { file_name: fileName, imported, skipped: records.length - imported, from: dates[0], to: dates[dates.length - 1] }
+      );
+      return { imported, skipped: records.length - imported, error: null };
+    } catch (error) {
+      console.error('Error importing card settlements:', error);
+      return { imported: 0, skipped: 0, error: error instanceof Error ? error.message : 'Failed to import settlements' };
+    }
+  }
+}
+
+// Export singleton instance
+export const cardSettlementService = new CardSettlementService();
@@ -0,0 +1,153 @@
+// Cash short/over: builds the per-employee ledger from sales reports (12356),
+// keeps tolerances in alert_settings (12611) and records the alerts they raise
+// in alert_history (12613).
+
+import { alertHistoryRepository, alertSettingRepository, salesReportRepository } from './repositories';
+import type { AlertHistoryRow, AlertSettingRow } from './supabase/tableRegistry';
+import {
+  buildShortOverLedger,
+  DEFAULT_SHORT_OVER_THRESHOLDS,
+  evaluateShortOverAlerts,
+  formatShortOverMessage,
+  resolveShortOverThresholds,
+  ShortOverEntry,
+  ShortOverReport,
+  ShortOverThresholds,
+  sumShortages } from
+'@/utils/cashShortOver';
+
+export const SHORT_OVER_SETTING_TYPE = 'cash_short_over';
+export const SHORT_OVER_ALERT_TYPES = ['cash_short_over_shift', 'cash_short_over_rolling'];
+
+// Shifts this far back are checked for alerts, so a rolling window is always complete
+const ALERT_LOOKBACK_DAYS = 90;
+
+const endOfDay = (date: string) => `${date}T23:59:59`;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const toThresholds = (row: AlertSettingRow): ShortOverThresholds & {station: string | null;} => ({
+  station: row.station,
+  shift_tolerance: Number(row.threshold_amount ?? DEFAULT_SHORT_OVER_THRESHOLDS.shift_tolerance),
+  rolling_tolerance: Number(row.rolling_threshold_amount ?? DEFAULT_SHORT_OVER_THRESHOLDS.rolling_tolerance),
+  rolling_days: Number(row.rolling_days || DEFAULT_SHORT_OVER_THRESHOLDS.rolling_days)
+});
+
+class CashShortOverService {
+  async getThresholdRows(): Promise<AlertSettingRow[]> {
+    return alertSettingRepository.findAll({
+      filters: alertSettingRepository.where().equal('alert_type', SHORT_OVER_SETTING_TYPE).equal('is_active', true)
+    });
+  }
+
+  async getThresholds(station: string): Promise<ShortOverThresholds> {
+    return resolveShortOverThresholds((await this.getThresholdRows()).map(toThresholds), station);
+  }
+
+  /**
+   * Save tolerances for a station (or 'ALL' for the default)
+   */
+  async saveThresholds(station: string, thresholds: ShortOverThresholds, createdBy: number = 0): Promise<{error: string | null;}> {
+    if (thresholds.shift_tolerance < 0 || thresholds.rolling_tolerance < 0) {
+      return { error: 'Tolerances cannot be negative' };
+    }
+    if (!(thresholds.rolling_days >= 1)) {
+      return { error: 'The rolling window must be at least one day' };
+    }
+
+    const data = {
+      threshold_amount: thresholds.shift_tolerance,
+      rolling_threshold_amount: thresholds.rolling_tolerance,
+      rolling_days: Math.round(thresholds.rolling_days),
+      is_active: true
+    };
+    const existing = await alertSettingRepository.findOne(
+      alertSettingRepository.where().equal('alert_type', SHORT_OVER_SETTING_TYPE).equal('station', station)
+    );
+    return existing?.id ?
+    alertSettingRepository.update(existing.id, data) :
+    alertSettingRepository.create({
+      ...data,
+      alert_type: SHORT_OVER_SETTING_TYPE,
+      station,
+      setting_name: `Cash short/over tolerance (${station})`,
+      days_before_expiry: 0,
+      alert_frequency_days: 1,
+      message_template: '',
+      created_by: createdBy
+    });
+  }
+
+  /**
+   * Ledger for a station ('ALL' for every station) and date range, oldest first
+   */
+  async getLedger(station: string, fromDate: string, toDate: string): Promise<ShortOverEntry[]> {
+    const filters = salesReportRepository.where().
+    greaterThanOrEqual('report_date', fromDate).
+    lessThanOrEqual('report_date', endOfDay(toDate));
+    if (station && station !== 'ALL') filters.equal('station', station);
+    const reports = await salesReportRepository.findAll({ filters, orderBy: 'report_date', ascending: true });
+    return buildShortOverLedger(reports as ShortOverReport[]);
+  }
+
+  async getAlertHistory(station?: string): Promise<AlertHistoryRow[]> {
+    const filters = alertHistoryRepository.where().in('alert_type', SHORT_OVER_ALERT_TYPES);
+    if (station && station !== 'ALL') filters.equal('station', station);
+    return alertHistoryRepository.findAll({ filters, orderBy: 'sent_date', ascending: false });
+  }
+
+  /**
+   * Record alerts for shifts and rolling shortages past the station's
+   * tolerances. Shifts already alerted on are skipped.
+   */
+  async checkAlerts(station: string): Promise<{raised: number;error: string | null;}> {
+    try {
+      const [entries, thresholdRows, history] = await Promise.all([
+      this.getLedger(station, daysAgo(ALERT_LOOKBACK_DAYS), daysAgo(0)),
+      this.getThresholdRows(),
+      this.getAlertHistory(station)]
+      );
+      const thresholds = thresholdRows.map(toThresholds);
+      const recorded = new Set(history.map((alert) => `${alert.alert_type}|${alert.sales_report_id}|${alert.employee_id}`));
+
+      const alerts = evaluateShortOverAlerts(entries, (name) => resolveShortOverThresholds(thresholds, name)).
+      filter((alert) => !recorded.has(`cash_short_over_${alert.kind}|${alert.reportId}|${alert.employeeKey}`));
+
+      for (const alert of alerts) {
+        const { error } = await alertHistoryRepository.create({
+          alert_type: `cash_short_over_${alert.kind}`,
+          station: alert.station,
+          employee_id: alert.employeeKey,
+          sales_report_id: alert.reportId,
+          amount: alert.amount,
+          message_content: formatShortOverMessage(alert),
+          sent_date: new Date().toISOString(),
+          delivery_status: 'Recorded',
+          days_before_expiry: 0,
+          created_by: 1 // System generated
+        });
+        if (error) return { raised: 0, error };
+      }
+      return { raised: alerts.length, error: null };
+    } catch (error) {
+      console.error('Error checking cash short/over alerts:', error);
+      return { raised: 0, error: error instanceof Error ? error.message : 'Failed to check short/over alerts' };
+    }
+  }
+
+  /**
+   * Shortages an employee ran in a pay period, as a positive amount
+   */
+  async getShortageTotal(employeeId: string, fromDate: string, toDate: string): Promise<number> {
+    const reports = await salesReportRepository.findAll({
+      filters: salesReportRepository.where().
+      equal('employee_id', employeeId).
+      greaterThanOrEqual('report_date', fromDate).
+      lessThanOrEqual('report_date', endOfDay(toDate))
+    });
+    return sumShortages(buildShortOverLedger(reports as ShortOverReport[]), employeeId, fromDate, toDate);
+  }
+}
+
+// Export singleton instance
+export const cashShortOverService = new CashShortOverService();
@@ -0,0 +1,130 @@
+// Email automations: templates in email_templates (27017), automations in
+// email_automations (27018) and their send log (27019). The job-worker edge
+// function runs due automations hourly (email_automation_check); reads go
+// through views that add each automation's and template's send history.
+
+import { emailAutomationLogRepository, emailAutomationRepository, emailTemplateRepository } from './repositories';
+import type { EmailAutomationLogRow, EmailAutomationRow, EmailTemplateRow } from './supabase/tableRegistry';
+import { emailRelayClient, EmailSendResult } from './emailRelayClient';
+import { JobRunNowResult, jobSchedulerService, RECURRING_JOB_KEYS } from './jobSchedulerService';
+
+export type EmailTemplateInput = Pick<EmailTemplateRow,
+'template_name' | 'template_type' | 'subject' | 'html_content' | 'text_content' | 'variables' | 'preview_data' | 'is_active'>;
+
+export interface EmailAutomationStats {
+  totalSent: number;
+  totalFailed: number;
+  successRate: number;
+  lastSent: string;
+  /** Active automations whose next run is due */
+  dueAutomations: number;
+}
+
+/**
+ * Replace {placeholder} variables, leaving unknown ones in place
+ */
+export const renderEmailTemplate = (template: string, variables: Record<string, string>): string =>
+(template || '').replace(/{(\w+)}/g, (placeholder, key: string) => key in variables ? String(variables[key]) : placeholder);
+
+const parsePreviewData = (previewData: string): Record<string, string> => {
+  try {
+    const parsed = JSON.parse(previewData || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Totals across automations, from the send history in email_automations_view
+ */
+export const summarizeEmailStats = (automations: EmailAutomationRow[], now: Date = new Date()): EmailAutomationStats => {
+  const totalSent = automations.reduce((sum, automation) => sum + (Number(automation.total_sent) || 0), 0);
+  const totalFailed = automations.reduce((sum, automation) => sum + (Number(automation.total_failed) || 0), 0);
+  const lastSent = automations.
+  map((automation) => automation.last_sent_at || '').
+  reduce((latest, sentAt) => sentAt > latest ? sentAt : latest, '');
+  return {
+    totalSent,
+    totalFailed,
+    successRate: totalSent + totalFailed > 0 ? totalSent / (totalSent + totalFailed) * 100 : 0,
+    lastSent,
+    dueAutomations: automations.filter((automation) =>
+    automation.is_active && (!automation.next_run || new Date(automation.next_run).getTime() <= now.getTime())
+    ).length
+  };
+};
+
+class EmailAutomationService {
+  async getAutomations(): Promise<EmailAutomationRow[]> {
+    return emailAutomationRepository.findAll({ orderBy: 'automation_name', ascending: true });
+  }
+
+  async getTemplates(): Promise<EmailTemplateRow[]> {
+    return emailTemplateRepository.findAll({ orderBy: 'template_name', ascending: true });
+  }
+
+  /**
+   * Most recent automated sends, newest first
+   */
+  async getRecentLogs(limit: number = 20): Promise<EmailAutomationLogRow[]> {
+    const { rows, error } = await emailAutomationLogRepository.page({ orderBy: 'sent_at', ascending: false, pageSize: limit });
+    if (error) throw new Error(error);
+    return rows;
+  }
+
+  async setAutomationActive(id: number, isActive: boolean): Promise<{error: string | null;}> {
+    return emailAutomationRepository.update(id, { is_active: isActive });
+  }
+
+  async saveTemplate(template: EmailTemplateInput & {id?: number;}, createdBy?: string): Promise<{error: string | null;}> {
+    if (!template.template_name.trim() || !template.subject.trim()) {
+      return { error: 'Template name and subject are required' };
+    }
+    if (!template.html_content.trim() && !template.text_content.trim()) {
+      return { error: 'An HTML or text body is required' };
+    }
+    const values: EmailTemplateInput = {
+      template_name: template.template_name.trim(),
+      template_type: template.template_type,
+      subject: template.subject,
+      html_content: template.html_content,
+      text_content: template.text_content,
+      variables: template.variables,
+      preview_data: template.preview_data || '{}',
+      is_active: template.is_active
+    };
+    return template.id ?
+    emailTemplateRepository.update(template.id, values) :
+    emailTemplateRepository.create({ ...values, created_by: createdBy || null });
+  }
+
+  async deleteTemplate(id: number): Promise<{error: string | null;}> {
+    return emailTemplateRepository.remove(id);
+  }
+
+  /**
+   * Send a template rendered with its preview data to one address. The relay
+   * sends from EMAIL_FROM and only accepts a replyTo listed in EMAIL_REPLY_TO.
+   */
+  async sendTestEmail(template: EmailTemplateRow, to: string, replyTo?: string): Promise<EmailSendResult> {
+    const variables = parsePreviewData(template.preview_data);
+    return emailRelayClient.send({
+      replyTo,
+      to,
+      subject: `TEST: ${renderEmailTemplate(template.subject, variables)}`,
+      html: renderEmailTemplate(template.html_content, variables),
+      text: renderEmailTemplate(template.text_content, variables)
+    }, 'test');
+  }
+
+  /**
+   * Run due automations now instead of waiting for the hourly job
+   */
+  async runNow(): Promise<JobRunNowResult> {
+    return jobSchedulerService.runNow(RECURRING_JOB_KEYS.emailAutomations);
+  }
+}
+
+// Export singleton instance
+export const emailAutomationService = new EmailAutomationService();
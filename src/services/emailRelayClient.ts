@@ -0,0 +1,78 @@
+// Client for the email-relay edge function.
+// Transport credentials live only in the relay; the browser sends the signed-in
+// user's session and the relay retries failed sends and logs every message to
+// email_delivery_log. The relay always sends from its configured EMAIL_FROM and
+// enforces the daily send limits.
+
+import { supabase } from '@/lib/supabase';
+
+export const EMAIL_RELAY_FUNCTION = 'email-relay';
+
+export interface EmailAttachment {
+  filename: string;
+  /** Base64-encoded file content */
+  content: string;
+  contentType?: string;
+}
+
+export interface EmailMessage {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  replyTo?: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  messageId?: string;
+  attempts?: number;
+  error?: string;
+}
+
+/**
+ * Read a Blob (or a blob: / data: URL) into an attachment
+ */
+export const toEmailAttachment = async (source: Blob | string, filename: string, contentType?: string): Promise<EmailAttachment> => {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error(`Failed to read ${filename}`));
+    reader.readAsDataURL(blob);
+  });
+  return {
+    filename,
+    content: dataUrl.slice(dataUrl.indexOf(',') + 1),
+    contentType: contentType || blob.type || 'application/octet-stream'
+  };
+};
+
+class EmailRelayClient {
+  /**
+   * Send one message through the relay. type labels the entry in the delivery log.
+   */
+  async send(message: EmailMessage, type: string = 'custom'): Promise<EmailSendResult> {
+    try {
+      const { data, error } = await supabase.functions.invoke(EMAIL_RELAY_FUNCTION, {
+        body: { action: 'send', message, type }
+      });
+      if (error) {
+        // Non-2xx responses still carry the relay's JSON error body
+        const context = (error as {context?: Response;}).context;
+        const details = context && typeof context.json === 'function' ? await context.json().catch(() => null) : null;
+        return { success: false, ...details, error: details?.error || error.message };
+      }
+      return data as EmailSendResult;
+    } catch (error) {
+      console.error('Email relay request failed:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Email relay unavailable' };
+    }
+  }
+}
+
+// Export singleton instance
+export const emailRelayClient = new EmailRelayClient();
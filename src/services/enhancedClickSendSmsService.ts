@@ -2,6 +2,9 @@
 // Updated to use the main ClickSend service with provided credentials
 
 import { clickSendSmsService, SMSResponse, SMSMessage, ClickSendConfig } from './clickSendSmsService';
+import { smsOptOutService } from './smsOptOutService';
+import { normalizePhoneKey } from '../../supabase/functions/_shared/phone';
+import { jobSchedulerService } from './jobSchedulerService';
 
 export interface AdvancedSMSOptions {
   priority?: 'low' | 'normal' | 'high';
@@ -29,6 +32,7 @@ export interface BulkSMSJob {
   totalMessages: number;
   sentMessages: number;
   failedMessages: number;
+  skippedMessages: number; // Recipients who have opted out
   createdAt: Date;
   completedAt?: Date;
   error?: string;
@@ -114,22 +118,16 @@ class EnhancedClickSendSMSService {
   message: string,
   options: AdvancedSMSOptions)
   : Promise<SMSResponse> {
-    // In a real implementation, this would integrate with a job scheduler
-    // For now, we'll use setTimeout for simple scheduling
-    const delay = options.scheduledTime!.getTime() - Date.now();
-
-    if (delay > 0) {
-      setTimeout(async () => {
-        await this.baseService.sendSMS({
-          to: phoneNumber,
-          message: message,
-          type: 'scheduled'
-        });
-      }, delay);
+    // Queue future messages with the job scheduler so they survive page reloads
+    if (options.scheduledTime!.getTime() > Date.now()) {
+      const { jobKey, error } = await jobSchedulerService.scheduleSms(phoneNumber, message, options.scheduledTime!);
+      if (error) {
+        return { success: false, error: `Failed to schedule SMS: ${error}` };
+      }
 
       return {
         success: true,
-        messageId: `scheduled_${Date.now()}`,
+        messageId: jobKey!,
         status: 'scheduled'
       };
     }
@@ -183,6 +181,7 @@ class EnhancedClickSendSMSService {
       totalMessages: messages.length,
       sentMessages: 0,
       failedMessages: 0,
+      skippedMessages: 0,
       createdAt: new Date()
     };
 
@@ -203,7 +202,24 @@ class EnhancedClickSendSMSService {
 
     job.status = 'processing';
 
+    // Without the opt-out list there is no way to honour STOP replies, so nothing is sent
+    let optedOut: Set<string>;
+    try {
+      optedOut = await smsOptOutService.getOptedOutNumbers();
+    } catch (error) {
+      console.error('Failed to load SMS opt-outs:', error);
+      job.status = 'failed';
+      job.error = `Bulk send cancelled: the opt-out list could not be loaded (${error instanceof Error ? error.message : String(error)})`;
+      job.completedAt = new Date();
+      return;
+    }
+
     for (const { phoneNumber, message, options } of messages) {
+      if (optedOut.has(normalizePhoneKey(phoneNumber))) {
+        job.skippedMessages++;
+        continue;
+      }
+
       try {
         const response = await this.sendAdvancedSMS(phoneNumber, message, options || {});
 
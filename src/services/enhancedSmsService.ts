@@ -2,6 +2,9 @@
 // This file is kept for backward compatibility
 
 import { smsService, SMSResponse, SMSMessage, SinchClickSendConfig } from './smsService';
+import { smsOptOutService } from './smsOptOutService';
+import { normalizePhoneKey } from '../../supabase/functions/_shared/phone';
+import { jobSchedulerService } from './jobSchedulerService';
 
 export interface AdvancedSMSOptions {
   priority?: 'low' | 'normal' | 'high';
@@ -29,6 +32,7 @@ export interface BulkSMSJob {
   totalMessages: number;
   sentMessages: number;
   failedMessages: number;
+  skippedMessages: number; // Recipients who have opted out
   createdAt: Date;
   completedAt?: Date;
   error?: string;
@@ -102,22 +106,16 @@ class EnhancedSMSService {
   message: string,
   options: AdvancedSMSOptions)
   : Promise<SMSResponse> {
-    // In a real implementation, this would integrate with a job scheduler
-    // For now, we'll use setTimeout for simple scheduling
-    const delay = options.scheduledTime!.getTime() - Date.now();
-
-    if (delay > 0) {
-      setTimeout(async () => {
-        await this.baseService.sendSMS({
-          to: phoneNumber,
-          message: message,
-          type: 'scheduled'
-        });
-      }, delay);
+    // Queue future messages with the job scheduler so they survive page reloads
+    if (options.scheduledTime!.getTime() > Date.now()) {
+      const { jobKey, error } = await jobSchedulerService.scheduleSms(phoneNumber, message, options.scheduledTime!);
+      if (error) {
+        return { success: false, error: `Failed to schedule SMS: ${error}` };
+      }
 
       return {
         success: true,
-        messageId: `scheduled_${Date.now()}`,
+        messageId: jobKey!,
         status: 'scheduled'
       };
     }
@@ -171,6 +169,7 @@ class EnhancedSMSService {
       totalMessages: messages.length,
       sentMessages: 0,
       failedMessages: 0,
+      skippedMessages: 0,
       createdAt: new Date()
     };
 
@@ -191,7 +190,24 @@ class EnhancedSMSService {
 
     job.status = 'processing';
 
+    // Without the opt-out list there is no way to honour STOP replies, so nothing is sent
+    let optedOut: Set<string>;
+    try {
+      optedOut = await smsOptOutService.getOptedOutNumbers();
+    } catch (error) {
+      console.error('Failed to load SMS opt-outs:', error);
+      job.status = 'failed';
+      job.error = `Bulk send cancelled: the opt-out list could not be loaded (${error instanceof Error ? error.message : String(error)})`;
+      job.completedAt = new Date();
+      return;
+    }
+
     for (const { phoneNumber, message, options } of messages) {
+      if (optedOut.has(normalizePhoneKey(phoneNumber))) {
+        job.skippedMessages++;
+        continue;
+      }
+
       try {
         const response = await this.sendAdvancedSMS(phoneNumber, message, options || {});
 
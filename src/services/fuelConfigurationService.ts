@@ -0,0 +1,90 @@
+// Station fuel configuration: the grades each station sells and the tanks that
+// hold them. Stations without any grades fall back to the default layout.
+
+import { stationFuelGradeRepository, stationFuelTankRepository } from './repositories';
+import {
+  buildFuelConfiguration,
+  FuelGradeConfig,
+  FuelTankConfig,
+  StationFuelConfiguration,
+  validateFuelConfiguration } from
+'@/utils/fuelGrades';
+
+class FuelConfigurationService {
+  private cache = new Map<string, StationFuelConfiguration>();
+
+  async getConfiguration(station: string): Promise<StationFuelConfiguration> {
+    if (!station || station === 'ALL') {
+      return buildFuelConfiguration(station, [], []);
+    }
+    const cached = this.cache.get(station);
+    if (cached) return cached;
+
+    const [grades, tanks] = await Promise.all([
+    stationFuelGradeRepository.findAll({ filters: stationFuelGradeRepository.where().equal('station', station) }),
+    stationFuelTankRepository.findAll({ filters: stationFuelTankRepository.where().equal('station', station) })]
+    );
+    const configuration = buildFuelConfiguration(station, grades, tanks);
+    this.cache.set(station, configuration);
+    return configuration;
+  }
+
+  /**
+   * Replace a station's grades and tanks. Rows no longer listed are removed.
+   */
+  async saveConfiguration(
+  station: string,
+  grades: FuelGradeConfig[],
+  tanks: FuelTankConfig[])
+  : Promise<{error: string | null;}> {
+    const errors = validateFuelConfiguration(grades, tanks);
+    if (errors.length > 0) return { error: errors.join('. ') };
+
+    this.cache.delete(station);
+    const [existingGrades, existingTanks] = await Promise.all([
+    stationFuelGradeRepository.findAll({ filters: stationFuelGradeRepository.where().equal('station', station) }),
+    stationFuelTankRepository.findAll({ filters: stationFuelTankRepository.where().equal('station', station) })]
+    );
+
+    for (const [index, grade] of grades.entries()) {
+      const data = {
+        label: grade.label.trim(),
+        is_blended: grade.is_blended,
+        blend_low_grade: grade.is_blended ? grade.blend_low_grade : null,
+        blend_high_grade: grade.is_blended ? grade.blend_high_grade : null,
+        blend_high_percent: grade.is_blended ? grade.blend_high_percent : null,
+        sort_order: index + 1
+      };
+      const existing = existingGrades.find((row) => row.grade === grade.grade);
+      const { error } = existing ?
+      await stationFuelGradeRepository.update(existing.id, data) :
+      await stationFuelGradeRepository.create({ station, grade: grade.grade, ...data });
+      if (error) return { error };
+    }
+
+    for (const tank of tanks) {
+      const data = { grade: tank.grade, capacity_gallons: tank.capacity_gallons };
+      const existing = existingTanks.find((row) => Number(row.tank_number) === Number(tank.tank_number));
+      const { error } = existing ?
+      await stationFuelTankRepository.update(existing.id, data) :
+      await stationFuelTankRepository.create({ station, tank_number: tank.tank_number, ...data });
+      if (error) return { error };
+    }
+
+    const removedTanks = existingTanks.filter((row) => !tanks.some((tank) => Number(tank.tank_number) === Number(row.tank_number)));
+    const removedGrades = existingGrades.filter((row) => !grades.some((grade) => grade.grade === row.grade));
+    for (const tank of removedTanks) {
+      const { error } = await stationFuelTankRepository.remove(tank.id);
+      if (error) return { error };
+    }
+    for (const grade of removedGrades) {
+      const { error } = await stationFuelGradeRepository.remove(grade.id);
+      if (error) return { error };
+    }
+
+    return { error: null };
+  }
+}
+
+// Export singleton instance
+export const fuelConfigurationService = new FuelConfigurationService();
@@ -0,0 +1,104 @@
+// Fuel price book: effective-dated pump prices per station and grade, and the
+// daily margin per gallon they give against delivery cost layers.
+
+import { deliveryRepository, fuelPriceRepository, salesReportRepository } from './repositories';
+import type { FuelPriceRow } from './supabase/tableRegistry';
+import { fuelConfigurationService } from './fuelConfigurationService';
+import {
+  calculateDailyFuelMargins,
+  DailyFuelMargin,
+  MarginTrendPoint,
+  summarizeMarginTrend } from
+'@/utils/fuelMargins';
+
+export interface FuelMarginReport {
+  daily: DailyFuelMargin[];
+  trend: MarginTrendPoint[];
+}
+
+// Deliveries and sales this far before the period are replayed so the cost
+// layers being drawn at its start are the right ones
+export const MARGIN_LOOKBACK_DAYS = 60;
+
+const endOfDay = (date: string) => `${date}T23:59:59`;
+
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00`);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted.toISOString().split('T')[0];
+};
+
+class FuelPriceService {
+  /**
+   * Price changes, newest first; all stations when station is empty or 'ALL'
+   */
+  async getPrices(station?: string): Promise<FuelPriceRow[]> {
+    const filters = fuelPriceRepository.where();
+    if (station && station !== 'ALL') filters.equal('station', station);
+    return fuelPriceRepository.findAll({ filters, orderBy: 'effective_date', ascending: false });
+  }
+
+  /**
+   * Record a pump price change. A change for the same station, grade and day
+   * replaces the earlier one.
+   */
+  async setPrice(
+  station: string,
+  grade: string,
+  pricePerGallon: number,
+  effectiveDate: string,
+  changedBy: string,
+  notes?: string)
+  : Promise<{error: string | null;}> {
+    if (!station || station === 'ALL') return { error: 'Select a station' };
+    if (!grade) return { error: 'Select a grade' };
+    if (!effectiveDate) return { error: 'Effective date is required' };
+    if (!(pricePerGallon > 0)) return { error: 'Price per gallon must be greater than zero' };
+
+    const data = { price_per_gallon: pricePerGallon, changed_by: changedBy, notes: notes?.trim() || null };
+    const existing = await fuelPriceRepository.findOne(
+      fuelPriceRepository.where().equal('station', station).equal('grade', grade).equal('effective_date', effectiveDate)
+    );
+    return existing?.id ?
+    fuelPriceRepository.update(existing.id, data) :
+    fuelPriceRepository.create({ station, grade, effective_date: effectiveDate, ...data });
+  }
+
+  async deletePrice(id: number): Promise<{error: string | null;}> {
+    return fuelPriceRepository.remove(id);
+  }
+
+  /**
+   * Daily margin per station and the combined trend for a date range
+   */
+  async getMarginReport(station: string, fromDate: string, toDate: string): Promise<FuelMarginReport> {
+    const replayFrom = shiftDate(fromDate, -MARGIN_LOOKBACK_DAYS);
+    const salesFilters = salesReportRepository.where().
+    greaterThanOrEqual('report_date', replayFrom).
+    lessThanOrEqual('report_date', endOfDay(toDate));
+    const deliveryFilters = deliveryRepository.where().
+    greaterThanOrEqual('delivery_date', replayFrom).
+    lessThanOrEqual('delivery_date', endOfDay(toDate));
+    if (station && station !== 'ALL') {
+      salesFilters.equal('station', station);
+      deliveryFilters.equal('station', station);
+    }
+
+    const [sales, deliveries, prices] = await Promise.all([
+    salesReportRepository.findAll({ filters: salesFilters }),
+    deliveryRepository.findAll({ filters: deliveryFilters }),
+    this.getPrices(station)]
+    );
+
+    const stations = Array.from(new Set(sales.map((sale) => sale.station).filter(Boolean)));
+    const configurations = await Promise.all(stations.map((name) => fuelConfigurationService.getConfiguration(name)));
+    const gradesByStation = Object.fromEntries(configurations.map((config) => [config.station, config.grades]));
+
+    const daily = calculateDailyFuelMargins({ sales, deliveries, prices, gradesByStation }).
+    filter((margin) => margin.date >= fromDate && margin.date <= toDate);
+    return { daily, trend: summarizeMarginTrend(daily) };
+  }
+}
+
+// Export singleton instance
+export const fuelPriceService = new FuelPriceService();
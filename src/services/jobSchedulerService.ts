@@ -0,0 +1,91 @@
+// Client for the durable job scheduler.
+// Jobs live in scheduled_jobs and are run by the job-worker edge function
+// (every minute via pg_cron), so checks and scheduled SMS no longer depend on
+// an open browser tab. Every run is recorded in job_runs.
+
+import { supabase } from '@/lib/supabase';
+import { jobRunRepository, scheduledJobRepository } from './repositories';
+import type { JobRunRow, ScheduledJobRow } from './supabase/tableRegistry';
+
+export { getRunNowError } from '../../supabase/functions/_shared/jobs';
+
+export const JOB_WORKER_FUNCTION = 'job-worker';
+
+export const RECURRING_JOB_KEYS = {
+  licenseExpiry: 'license_expiry_check',
+  lowStock: 'low_stock_check',
+  analyticsThresholds: 'analytics_threshold_check',
+  emailAutomations: 'email_automation_check'
+} as const;
+
+export interface JobRunNowResult {
+  success: boolean;
+  outcomes?: {jobId: number;jobKey: string;status: string;result?: Record<string, any>;error?: string;}[];
+  error?: string;
+}
+
+class JobSchedulerService {
+  async getJobs(): Promise<ScheduledJobRow[]> {
+    return scheduledJobRepository.findAll({ orderBy: 'next_run_at', ascending: true });
+  }
+
+  /**
+   * Most recent runs across all jobs, or for one job
+   */
+  async getRecentRuns(jobId?: number, limit: number = 50): Promise<JobRunRow[]> {
+    const { rows, error } = await jobRunRepository.page({
+      filters: jobId ? jobRunRepository.where().equal('job_id', jobId) : [],
+      orderBy: 'started_at',
+      ascending: false,
+      pageSize: limit
+    });
+    if (error) throw new Error(error);
+    return rows;
+  }
+
+  async setJobActive(jobId: number, isActive: boolean): Promise<{error: string | null;}> {
+    return scheduledJobRepository.update(jobId, { is_active: isActive });
+  }
+
+  async setJobInterval(jobId: number, intervalMinutes: number): Promise<{error: string | null;}> {
+    if (!Number.isInteger(intervalMinutes) || intervalMinutes <= 0) {
+      return { error: 'Interval must be a whole number of minutes greater than zero' };
+    }
+    return scheduledJobRepository.update(jobId, { interval_minutes: intervalMinutes });
+  }
+
+  /**
+   * Ask the worker to run a recurring job now. The worker leases the job, so
+   * clicking Run Now in several tabs still produces a single run. Admins only;
+   * one-off and paused jobs are refused by the worker.
+   */
+  async runNow(jobKey: string): Promise<JobRunNowResult> {
+    try {
+      const { data, error } = await supabase.functions.invoke(JOB_WORKER_FUNCTION, { body: { jobKey } });
+      if (error) {
+        return { success: false, error: error.message };
+      }
+      return data as JobRunNowResult;
+    } catch (error) {
+      console.error('Job worker request failed:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Job worker unavailable' };
+    }
+  }
+
+  /**
+   * Queue a one-off SMS for the worker to send at runAt. Goes through
+   * schedule_sms_job since only admins can write scheduled_jobs directly.
+   */
+  async scheduleSms(to: string, message: string, runAt: Date, type: string = 'scheduled'): Promise<{jobKey: string | null;error: string | null;}> {
+    const { data, error } = await supabase.rpc('schedule_sms_job', {
+      p_to: to,
+      p_message: message,
+      p_run_at: runAt.toISOString(),
+      p_type: type
+    });
+    return error ? { jobKey: null, error: error.message } : { jobKey: data as string, error: null };
+  }
+}
+
+// Export singleton instance
+export const jobSchedulerService = new JobSchedulerService();
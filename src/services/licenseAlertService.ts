@@ -33,6 +33,7 @@ interface SMSContact {
   station: string;
   is_active: boolean;
   contact_role: string;
+  opt_out?: boolean;
   created_by: number;
 }
 
@@ -50,7 +51,8 @@ class LicenseAlertService {
         OrderByField: 'id',
         IsAsc: false,
         Filters: [
-        { name: 'is_active', op: 'Equal', value: true }]
+        { name: 'is_active', op: 'Equal', value: true },
+        { name: 'alert_type', op: 'Equal', value: 'license_expiry' }]
 
       });
 
@@ -188,11 +190,11 @@ class LicenseAlertService {
   }
 
   /**
-   * Get contacts relevant to a specific station
+   * Get contacts relevant to a specific station, leaving out contacts who replied STOP
    */
   private getRelevantContacts(contacts: SMSContact[], station: string): SMSContact[] {
     return contacts.filter((contact) =>
-    contact.station === 'ALL' || contact.station === station
+    !contact.opt_out && (contact.station === 'ALL' || contact.station === station)
     );
   }
 
@@ -0,0 +1,106 @@
+// License renewals: records each renewal (old and new expiry, cost paid, payment
+// date) and keeps every certificate as a numbered version instead of
+// overwriting the license row.
+
+import { supabase } from '@/lib/supabase';
+import { licenseDocumentRepository, licenseRenewalRepository } from './repositories';
+import type { LicenseDocumentRow, LicenseRenewalRow } from './supabase/tableRegistry';
+import {
+  buildRenewalTimeline,
+  RenewalInput,
+  RenewalRecord,
+  RenewalTimelineEntry,
+  summarizeRenewalSpend,
+  RenewalSpendRow,
+  validateRenewalInput } from
+'@/utils/licenseRenewals';
+
+export interface RenewableLicense {
+  ID: number;
+  station: string;
+  issue_date: string;
+  expiry_date: string;
+  document_file_id?: number;
+}
+
+export interface RenewalDocument {
+  url: string;
+  fileName: string;
+}
+
+const toIsoDate = (value: string) => value ? new Date(value).toISOString() : null;
+
+class LicenseRenewalService {
+  async getRenewals(licenseId: number): Promise<LicenseRenewalRow[]> {
+    return licenseRenewalRepository.findAll({
+      filters: licenseRenewalRepository.where().equal('license_id', licenseId),
+      orderBy: 'renewed_at',
+      ascending: false
+    });
+  }
+
+  async getDocuments(licenseId: number): Promise<LicenseDocumentRow[]> {
+    return licenseDocumentRepository.findAll({
+      filters: licenseDocumentRepository.where().equal('license_id', licenseId),
+      orderBy: 'version_number',
+      ascending: false
+    });
+  }
+
+  async getTimeline(licenseId: number): Promise<{timeline: RenewalTimelineEntry[];documents: LicenseDocumentRow[];}> {
+    const [renewals, documents] = await Promise.all([this.getRenewals(licenseId), this.getDocuments(licenseId)]);
+    return { timeline: buildRenewalTimeline(renewals as RenewalRecord[], documents), documents };
+  }
+
+  /**
+   * Renewal spend per station and year, optionally limited to one year
+   */
+  async getRenewalSpend(year?: number): Promise<RenewalSpendRow[]> {
+    const renewals = await licenseRenewalRepository.findAll({ orderBy: 'renewed_at', ascending: false });
+    const rows = summarizeRenewalSpend(renewals as RenewalRecord[]);
+    return year ? rows.filter((row) => row.year === year) : rows;
+  }
+
+  /**
+   * Renew a license: record the renewal, store the new certificate as the current
+   * version and move the license to its new dates. Every write runs in one
+   * database transaction (renew_license), which returns the new renewal's ID.
+   */
+  async renewLicense(
+  license: RenewableLicense,
+  input: RenewalInput,
+  document: RenewalDocument | null,
+  renewedBy: string)
+  : Promise<{renewalId: number | null;error: string | null;}> {
+    const validationError = validateRenewalInput(input, license.expiry_date);
+    if (validationError) {
+      return { renewalId: null, error: validationError };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('renew_license', {
+        p_license_id: license.ID,
+        p_renewal: {
+          new_issue_date: toIsoDate(input.newIssueDate),
+          new_expiry_date: toIsoDate(input.newExpiryDate),
+          renewal_cost: Number(input.renewalCost) || 0,
+          payment_date: input.paymentDate || null,
+          payment_reference: input.paymentReference,
+          notes: input.notes,
+          renewed_by: renewedBy
+        },
+        p_document: document ? { document_url: document.url, file_name: document.fileName } : null
+      });
+      if (error) {
+        return { renewalId: null, error: error.message };
+      }
+      return { renewalId: Number(data), error: null };
+    } catch (error) {
+      console.error('Error renewing license:', error);
+      return { renewalId: null, error: error instanceof Error ? error.message : 'Failed to renew license' };
+    }
+  }
+}
+
+// Export singleton instance
+export const licenseRenewalService = new LicenseRenewalService();
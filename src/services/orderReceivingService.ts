@@ -0,0 +1,160 @@
+// Purchase order receiving: records partial receipts and backorders per order line
+// and posts the received stock to the products table (11726). Each line is posted
+// by the receive_order_line database function, which writes the receipt, the
+// line's received quantity and the stock increment in one transaction. The stock
+// and cost changes are recorded in the product's history by the products trigger.
+
+import { supabase } from '@/lib/supabase';
+import {
+  purchaseOrderService,
+  ORDERS_TABLE_ID,
+  OrderLineItem } from
+'@/services/purchaseOrderService';
+import {
+  getCaseCost,
+  getOrderStatus,
+  getReceiptQuantityError,
+  getRemainingQuantity,
+  getUnitsForQuantity } from
+'@/utils/purchaseOrders';
+
+export const ORDER_RECEIPTS_TABLE_ID = 27002;
+export const PRODUCTS_TABLE_ID = 11726;
+
+export interface ReceiptLineInput {
+  line: OrderLineItem;
+  quantityReceived: number;
+  unitCost: number;
+}
+
+export interface OrderReceipt {
+  id?: number;
+  receipt_number: string;
+  order_id: number;
+  order_item_id: number;
+  product_id: number;
+  quantity_received: number;
+  units_added: number;
+  unit_cost: number;
+  backorder_quantity: number;
+  received_by: string | null;
+  received_at: string;
+  notes: string;
+}
+
+export interface ReceivingResult {
+  receiptNumber: string;
+  linesReceived: number;
+  unitsAdded: number;
+  orderStatus: string;
+  errors: string[];
+}
+
+class OrderReceivingService {
+  /**
+   * Quantity still outstanding on a line, in the line's own unit type
+   */
+  getRemainingQuantity(line: OrderLineItem): number {
+    return getRemainingQuantity(line);
+  }
+
+  /**
+   * Convert a received quantity into stock units (cases are expanded by units per case)
+   */
+  getUnitsForQuantity(line: OrderLineItem, quantity: number): number {
+    return getUnitsForQuantity(line, quantity);
+  }
+
+  /**
+   * Case cost implied by a received line cost
+   */
+  getCaseCost(line: OrderLineItem, unitCost: number): number {
+    return getCaseCost(line, unitCost);
+  }
+
+  /**
+   * Order status once the given lines have been received
+   */
+  getOrderStatus(lines: OrderLineItem[]): string {
+    return getOrderStatus(lines);
+  }
+
+  generateReceiptNumber(): string {
+    const date = new Date();
+    const timestamp = date.getTime().toString().slice(-6);
+    return `RCV-${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}-${timestamp}`;
+  }
+
+  async getReceipts(orderId: number): Promise<OrderReceipt[]> {
+    const { data, error } = await window.ezsite.apis.tablePage(ORDER_RECEIPTS_TABLE_ID, {
+      PageNo: 1,
+      PageSize: 500,
+      OrderByField: 'received_at',
+      IsAsc: false,
+      Filters: [{ name: 'order_id', op: 'Equal', value: orderId }]
+    });
+    if (error) throw new Error(error);
+    return data?.List || [];
+  }
+
+  /**
+   * Record a receiving session against an order.
+   * Each received line writes a receipt, updates the line's received quantity and
+   * posts the stock increment to the product. The order status is then recalculated.
+   * receivedBy is the receiving user's auth ID, or null when it is not known.
+   */
+  async receiveOrder(orderId: number, inputs: ReceiptLineInput[], receivedBy: string | null, notes: string = ''): Promise<ReceivingResult> {
+    const receiptNumber = this.generateReceiptNumber();
+    const result: ReceivingResult = {
+      receiptNumber,
+      linesReceived: 0,
+      unitsAdded: 0,
+      orderStatus: 'Pending',
+      errors: []
+    };
+
+    for (const input of inputs) {
+      const { line, quantityReceived, unitCost } = input;
+      if (!line.id || quantityReceived <= 0) continue;
+
+      const quantityError = getReceiptQuantityError(line, quantityReceived);
+      if (quantityError) {
+        result.errors.push(quantityError);
+        continue;
+      }
+
+      const { data: unitsAdded, error } = await supabase.rpc('receive_order_line', {
+        p_receipt_number: receiptNumber,
+        p_order_item_id: line.id,
+        p_quantity: quantityReceived,
+        p_unit_cost: unitCost,
+        p_received_by: receivedBy || null,
+        p_notes: notes
+      });
+      if (error) {
+        result.errors.push(`${line.product_name}: ${error.message}`);
+        continue;
+      }
+
+      result.linesReceived++;
+      result.unitsAdded += Number(unitsAdded) || 0;
+    }
+
+    try {
+      const lines = await purchaseOrderService.getOrderLines(orderId);
+      result.orderStatus = this.getOrderStatus(lines);
+      const { error } = await window.ezsite.apis.tableUpdate(ORDERS_TABLE_ID, {
+        ID: orderId,
+        status: result.orderStatus
+      });
+      if (error) result.errors.push(`Order status: ${error}`);
+    } catch (error) {
+      result.errors.push(`Order status: ${String(error)}`);
+    }
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const orderReceivingService = new OrderReceivingService();
@@ -0,0 +1,42 @@
+// Product change history. The products_log_changes trigger records every
+// change to a product's prices, stock and barcodes in product_logs (11756),
+// whichever page or import made it; reads go through product_logs_view, which
+// adds the product name.
+
+import { productLogRepository } from './repositories';
+import type { ProductLogRow } from './supabase/tableRegistry';
+import { PRICE_FIELDS, PriceChange, toPriceChange } from '@/utils/productHistory';
+
+class ProductHistoryService {
+  /**
+   * A product's changes, newest first
+   */
+  async getProductHistory(productId: number, limit: number = 200): Promise<ProductLogRow[]> {
+    const { rows, error } = await productLogRepository.page({
+      filters: productLogRepository.where().equal('product_id', productId),
+      orderBy: 'change_date',
+      ascending: false,
+      pageSize: limit
+    });
+    if (error) throw new Error(error);
+    return rows;
+  }
+
+  /**
+   * Price changes across all products between two dates, newest first
+   */
+  async getPriceChanges(from: Date, to: Date, fields: string[] = PRICE_FIELDS): Promise<PriceChange[]> {
+    const logs = await productLogRepository.findAll({
+      filters: productLogRepository.where().
+      in('field_name', fields).
+      greaterThanOrEqual('change_date', from.toISOString()).
+      lessThanOrEqual('change_date', to.toISOString()),
+      orderBy: 'change_date',
+      ascending: false
+    });
+    return logs.map(toPriceChange);
+  }
+}
+
+// Export singleton instance
+export const productHistoryService = new ProductHistoryService();
@@ -0,0 +1,135 @@
+// Product catalog import: loads the products an import is matched against and
+// commits a planned import (see utils/productImport) in batches. Updates go
+// through the products table, so their price changes are recorded in product
+// history by the products trigger like any other edit.
+
+import { productRepository } from './repositories';
+import type { ProductRow } from './supabase/tableRegistry';
+import {
+  chunk,
+  ImportExistingProduct,
+  ImportRowError,
+  PlannedProductCreate,
+  PlannedProductUpdate,
+  ProductImportPlan } from
+'@/utils/productImport';
+
+export const IMPORT_BATCH_SIZE = 25;
+
+export interface ProductImportResult {
+  created: number;
+  updated: number;
+  errors: ImportRowError[];
+}
+
+interface CommitOptions {
+  createdBy?: ProductRow['created_by'];
+  batchSize?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+type ImportOperation =
+{kind: 'create';row: PlannedProductCreate;serialNumber: number;} |
+{kind: 'update';row: PlannedProductUpdate;};
+
+class ProductImportService {
+  async getExistingProducts(): Promise<ImportExistingProduct[]> {
+    const products = await productRepository.findAll({ orderBy: 'id', ascending: true });
+    return products.map((product) => ({
+      id: product.id,
+      product_name: product.product_name,
+      bar_code_unit: product.bar_code_unit,
+      bar_code_case: product.bar_code_case,
+      case_price: product.case_price,
+      unit_per_case: product.unit_per_case,
+      unit_price: product.unit_price,
+      retail_price: product.retail_price,
+      supplier: product.supplier,
+      category: product.category
+    }));
+  }
+
+  /**
+   * Create and update the planned products, a batch at a time. Rows that fail
+   * are returned as errors alongside the plan's own invalid rows.
+   */
+  async commitImport(plan: ProductImportPlan, options: CommitOptions = {}): Promise<ProductImportResult> {
+    const result: ProductImportResult = { created: 0, updated: 0, errors: [...plan.errors] };
+
+    const { rows: [lastProduct], error: serialError } = await productRepository.page({
+      orderBy: 'serial_number',
+      ascending: false,
+      pageSize: 1
+    });
+    if (serialError) throw new Error(serialError);
+    let nextSerial = (lastProduct?.serial_number || 0) + 1;
+
+    const operations: ImportOperation[] = [
+    ...plan.creates.map((row) => ({ kind: 'create' as const, row, serialNumber: nextSerial++ })),
+    ...plan.updates.map((row) => ({ kind: 'update' as const, row }))];
+
+    let done = 0;
+    options.onProgress?.(done, operations.length);
+
+    for (const batch of chunk(operations, options.batchSize || IMPORT_BATCH_SIZE)) {
+      await Promise.all(batch.map(async (operation) => {
+        const { error } = operation.kind === 'create' ?
+        await this.createProduct(operation.row, operation.serialNumber, options.createdBy) :
+        await this.updateProduct(operation.row);
+
+        if (error) {
+          result.errors.push({
+            rowNumber: operation.row.rowNumber,
+            productName: operation.kind === 'create' ? String(operation.row.values.product_name || '') : operation.row.productName,
+            barcode: operation.kind === 'create' ? String(operation.row.values.bar_code_unit || '') : '',
+            message: error
+          });
+        } else if (operation.kind === 'create') {
+          result.created++;
+        } else {
+          result.updated++;
+        }
+      }));
+      done += batch.length;
+      options.onProgress?.(done, operations.length);
+    }
+
+    return result;
+  }
+
+  private async createProduct(row: PlannedProductCreate, serialNumber: number, createdBy?: ProductRow['created_by']) {
+    const values = row.values;
+    return productRepository.create({
+      serial_number: serialNumber,
+      product_name: String(values.product_name),
+      bar_code_unit: String(values.bar_code_unit || ''),
+      bar_code_case: '',
+      case_price: Number(values.case_price) || 0,
+      unit_per_case: Number(values.unit_per_case) || 1,
+      unit_price: Number(values.unit_price) || 0,
+      retail_price: Number(values.retail_price) || 0,
+      supplier: String(values.supplier || ''),
+      category: String(values.category || 'General'),
+      department: 'Convenience Store',
+      description: '',
+      quantity_in_stock: 0,
+      minimum_stock: 0,
+      weight: 0,
+      weight_unit: 'lb',
+      overdue: false,
+      last_updated_date: new Date().toISOString(),
+      created_by: createdBy ?? null
+    });
+  }
+
+  private async updateProduct(row: PlannedProductUpdate) {
+    const changes = Object.fromEntries(row.changes.map((change) => [change.field, change.newValue]));
+    return productRepository.update(row.productId, {
+      ...changes,
+      last_updated_date: new Date().toISOString()
+    });
+  }
+}
+
+// Export singleton instance
+export const productImportService = new ProductImportService();
@@ -0,0 +1,171 @@
+// Purchase order persistence: order headers (table 11730) and their line items (table 27001)
+
+import { supabase } from '@/lib/supabase';
+import { orderRepository, orderItemRepository } from '@/services/repositories';
+import { areOrderLinesLocked, calculateOrderTotal, ORDER_LINES_LOCKED_MESSAGE } from '@/utils/purchaseOrders';
+
+export const ORDERS_TABLE_ID = 11730;
+export const ORDER_ITEMS_TABLE_ID = 27001;
+
+export interface PurchaseOrder {
+  ID?: number;
+  id?: number;
+  order_number: string;
+  vendor_id: number | null;
+  order_date: string;
+  expected_delivery?: string | null;
+  station: string;
+  total_amount: number;
+  status: string;
+  notes: string;
+  created_by: number;
+}
+
+export interface OrderLineItem {
+  id?: number;
+  order_id?: number;
+  line_number: number;
+  product_id: number;
+  product_name: string;
+  product_code: string;
+  unit_type: string;
+  units_per_case: number;
+  quantity: number;
+  unit_cost: number;
+  subtotal: number;
+  quantity_received?: number;
+}
+
+class PurchaseOrderService {
+  /**
+   * Create an order header and its line items in one database transaction
+   * (create_order), which returns the new order's ID.
+   */
+  async createOrder(order: PurchaseOrder, lines: OrderLineItem[]): Promise<{orderId: number | null;error: string | null;}> {
+    try {
+      const { data, error } = await supabase.rpc('create_order', {
+        p_order: { ...order, total_amount: this.calculateTotal(lines) },
+        p_lines: this.toLinePayload(lines)
+      });
+      if (error) {
+        return { orderId: null, error: error.message };
+      }
+      return { orderId: Number(data), error: null };
+    } catch (error) {
+      console.error('Error creating purchase order:', error);
+      return { orderId: null, error: String(error) };
+    }
+  }
+
+  /**
+   * Replace an order's line items and update its header.
+   * The lines go first so an order that can no longer be edited keeps its header.
+   */
+  async updateOrder(orderId: number, order: Partial<PurchaseOrder>, lines: OrderLineItem[]): Promise<{error: string | null;}> {
+    try {
+      const linesError = await this.replaceLines(orderId, lines);
+      if (linesError) {
+        return { error: linesError };
+      }
+
+      const { error } = await orderRepository.update(orderId, {
+        ...order,
+        total_amount: this.calculateTotal(lines)
+      });
+      return { error };
+    } catch (error) {
+      console.error('Error updating purchase order:', error);
+      return { error: String(error) };
+    }
+  }
+
+  async getOrder(orderId: number): Promise<PurchaseOrder | null> {
+    return orderRepository.findById(orderId);
+  }
+
+  /**
+   * Get the line items for an order, in line order
+   */
+  async getOrderLines(orderId: number): Promise<OrderLineItem[]> {
+    return orderItemRepository.findAll({
+      filters: orderItemRepository.where().equal('order_id', orderId),
+      orderBy: 'line_number'
+    });
+  }
+
+  /**
+   * Replace all line items of an order with the given lines.
+   * The delete and insert run in one database transaction (replace_order_items),
+   * so a failure leaves the existing lines in place.
+   */
+  async replaceLines(orderId: number, lines: OrderLineItem[]): Promise<string | null> {
+    const existing = await this.getOrderLines(orderId);
+    if (areOrderLinesLocked(existing)) {
+      return ORDER_LINES_LOCKED_MESSAGE;
+    }
+    const { error } = await supabase.rpc('replace_order_items', {
+      p_order_id: orderId,
+      p_lines: this.toLinePayload(lines)
+    });
+    return error ? error.message : null;
+  }
+
+  calculateTotal(lines: OrderLineItem[]): number {
+    return calculateOrderTotal(lines);
+  }
+
+  /**
+   * Build a CSV export of an order header followed by its line items
+   */
+  buildOrderCsv(order: PurchaseOrder, lines: OrderLineItem[], vendorName?: string): string {
+    const escape = (value: unknown) => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const header = [
+    'Field,Value',
+    `Order Number,${escape(order.order_number)}`,
+    `Vendor,${escape(vendorName || order.vendor_id)}`,
+    `Order Date,${escape(order.order_date)}`,
+    `Expected Delivery,${escape(order.expected_delivery)}`,
+    `Station,${escape(order.station)}`,
+    `Total Amount,${escape(order.total_amount)}`,
+    `Status,${escape(order.status)}`,
+    `Notes,${escape(order.notes)}`];
+
+    const lineRows = [
+    'Line,Product ID,Product,Product Code,Unit Type,Units Per Case,Quantity,Unit Cost,Subtotal',
+    ...lines.map((line) => [
+    line.line_number,
+    line.product_id,
+    line.product_name,
+    line.product_code,
+    line.unit_type,
+    line.units_per_case,
+    line.quantity,
+    line.unit_cost,
+    line.subtotal].
+    map(escape).join(','))];
+
+    return [...header, '', ...lineRows].join('\n');
+  }
+
+  // Line objects in the format replace_order_items and create_order read;
+  // lines are numbered by the database in array order
+  private toLinePayload(lines: OrderLineItem[]) {
+    return lines.map((line) => ({
+      product_id: line.product_id,
+      product_name: line.product_name,
+      product_code: line.product_code || '',
+      unit_type: line.unit_type,
+      units_per_case: line.units_per_case || 1,
+      quantity: line.quantity,
+      unit_cost: line.unit_cost,
+      subtotal: line.subtotal
+    }));
+  }
+}
+
+// Export singleton instance
+export const purchaseOrderService = new PurchaseOrderService();
@@ -0,0 +1,89 @@
+// Typed filter builder for tablePage queries.
+// Column names are checked against the row type, so a misspelled column is a
+// compile error rather than a Postgres 42703 at runtime.
+
+export type FilterOperator =
+'Equal' |
+'NotEqual' |
+'GreaterThan' |
+'GreaterThanOrEqual' |
+'LessThan' |
+'LessThanOrEqual' |
+'Like' |
+'StringStartsWith' |
+'StringEndsWith' |
+'In' |
+'IsNull' |
+'IsNotNull';
+
+export type RowColumn<Row> = keyof Row & string;
+
+export interface TableFilter<Row = any> {
+  name: RowColumn<Row>;
+  op: FilterOperator;
+  value?: unknown;
+}
+
+export class FilterBuilder<Row> {
+  private readonly filters: TableFilter<Row>[] = [];
+
+  equal<C extends RowColumn<Row>>(column: C, value: Row[C]): this {
+    return this.add(column, 'Equal', value);
+  }
+
+  notEqual<C extends RowColumn<Row>>(column: C, value: Row[C]): this {
+    return this.add(column, 'NotEqual', value);
+  }
+
+  greaterThan<C extends RowColumn<Row>>(column: C, value: Row[C]): this {
+    return this.add(column, 'GreaterThan', value);
+  }
+
+  greaterThanOrEqual<C extends RowColumn<Row>>(column: C, value: Row[C]): this {
+    return this.add(column, 'GreaterThanOrEqual', value);
+  }
+
+  lessThan<C extends RowColumn<Row>>(column: C, value: Row[C]): this {
+    return this.add(column, 'LessThan', value);
+  }
+
+  lessThanOrEqual<C extends RowColumn<Row>>(column: C, value: Row[C]): this {
+    return this.add(column, 'LessThanOrEqual', value);
+  }
+
+  /**
+   * Contains match on a text column
+   */
+  like(column: RowColumn<Row>, value: string): this {
+    return this.add(column, 'Like', value);
+  }
+
+  startsWith(column: RowColumn<Row>, value: string): this {
+    return this.add(column, 'StringStartsWith', value);
+  }
+
+  endsWith(column: RowColumn<Row>, value: string): this {
+    return this.add(column, 'StringEndsWith', value);
+  }
+
+  in<C extends RowColumn<Row>>(column: C, values: Row[C][]): this {
+    return this.add(column, 'In', values);
+  }
+
+  isNull(column: RowColumn<Row>): this {
+    return this.add(column, 'IsNull');
+  }
+
+  isNotNull(column: RowColumn<Row>): this {
+    return this.add(column, 'IsNotNull');
+  }
+
+  build(): TableFilter<Row>[] {
+    return [...this.filters];
+  }
+
+  private add(name: RowColumn<Row>, op: FilterOperator, value?: unknown): this {
+    this.filters.push(value === undefined ? { name, op } : { name, op, value });
+    return this;
+  }
+}
@@ -0,0 +1,43 @@
+// Typed repositories for the core business tables.
+// Pages can move off window.ezsite.apis one at a time by switching to these.
+
+import { TableRepository } from './tableRepository';
+
+export const stationRepository = new TableRepository('stations');
+export const employeeRepository = new TableRepository('employees');
+export const productRepository = new TableRepository('products');
+export const productLogRepository = new TableRepository('productLogs');
+export const salesReportRepository = new TableRepository('salesReports');
+export const salesReportReviewRepository = new TableRepository('salesReportReviews');
+export const bankDepositRepository = new TableRepository('bankDeposits');
+export const cardSettlementRepository = new TableRepository('cardSettlements');
+export const deliveryRepository = new TableRepository('deliveries');
+export const afterDeliveryReportRepository = new TableRepository('afterDeliveryTankReports');
+export const tankStickReadingRepository = new TableRepository('tankStickReadings');
+export const tankVarianceThresholdRepository = new TableRepository('tankVarianceThresholds');
+export const stationFuelGradeRepository = new TableRepository('stationFuelGrades');
+export const stationFuelTankRepository = new TableRepository('stationFuelTanks');
+export const fuelPriceRepository = new TableRepository('fuelPrices');
+export const licenseRepository = new TableRepository('licenses');
+export const licenseRenewalRepository = new TableRepository('licenseRenewals');
+export const licenseDocumentRepository = new TableRepository('licenseDocuments');
+export const salaryRepository = new TableRepository('salaryRecords');
+export const vendorRepository = new TableRepository('vendors');
+export const orderRepository = new TableRepository('orders');
+export const orderItemRepository = new TableRepository('orderItems');
+export const smsContactRepository = new TableRepository('smsContacts');
+export const smsConfigRepository = new TableRepository('smsConfig');
+export const alertSettingRepository = new TableRepository('alertSettings');
+export const alertHistoryRepository = new TableRepository('alertHistory');
+export const scheduledJobRepository = new TableRepository('scheduledJobs');
+export const jobRunRepository = new TableRepository('jobRuns');
+export const securitySettingRepository = new TableRepository('securitySettings');
+export const emailDeliveryLogRepository = new TableRepository('emailDeliveryLog');
+export const emailTemplateRepository = new TableRepository('emailTemplates');
+export const emailAutomationRepository = new TableRepository('emailAutomations');
+export const emailAutomationLogRepository = new TableRepository('emailAutomationLogs');
+
+export { TableRepository } from './tableRepository';
+export type { QueryOptions, PageResult, RowInsert } from './tableRepository';
+export { FilterBuilder } from './filterBuilder';
+export type { FilterOperator, TableFilter, RowColumn } from './filterBuilder';
@@ -0,0 +1,100 @@
+// Generic typed repository over a registered table.
+// Wraps the same adapter that backs window.ezsite.apis, so repositories and
+// legacy callers read and write through one code path.
+
+import { createEzsiteApiReplacement } from '@/services/supabase/supabaseAdapter';
+import { TABLE_REGISTRY, TableKey, TableRow } from '@/services/supabase/tableRegistry';
+import { FilterBuilder, RowColumn, TableFilter } from './filterBuilder';
+
+export type RowInsert<Row> = Partial<Omit<Row, 'id' | 'created_at' | 'updated_at'>>;
+
+export interface QueryOptions<Row> {
+  filters?: FilterBuilder<Row> | TableFilter<Row>[];
+  orderBy?: RowColumn<Row>;
+  ascending?: boolean;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface PageResult<Row> {
+  rows: Row[];
+  total: number;
+  error: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+export class TableRepository<K extends TableKey, Row = TableRow<K>> {
+  private readonly api = createEzsiteApiReplacement();
+  readonly tableId: number | string;
+
+  constructor(readonly table: K) {
+    this.tableId = TABLE_REGISTRY[table].id;
+  }
+
+  /**
+   * Start a typed filter for this table
+   */
+  where(): FilterBuilder<Row> {
+    return new FilterBuilder<Row>();
+  }
+
+  /**
+   * Fetch one page of rows
+   */
+  async page(options: QueryOptions<Row> = {}): Promise<PageResult<Row>> {
+    const filters = options.filters instanceof FilterBuilder ? options.filters.build() : options.filters || [];
+    const { data, error } = await this.api.tablePage(this.tableId, {
+      PageNo: options.page || 1,
+      PageSize: options.pageSize || DEFAULT_PAGE_SIZE,
+      OrderByField: options.orderBy,
+      IsAsc: options.ascending !== false,
+      Filters: filters
+    });
+
+    if (error) {
+      return { rows: [], total: 0, error };
+    }
+    return { rows: data?.List || [], total: data?.VirtualCount || 0, error: null };
+  }
+
+  /**
+   * Fetch every matching row, reading page by page
+   */
+  async findAll(options: Omit<QueryOptions<Row>, 'page'> = {}): Promise<Row[]> {
+    const rows: Row[] = [];
+    let page = 1;
+    let total = 0;
+    do {
+      const result = await this.page({ ...options, page, pageSize: options.pageSize || 500 });
+      if (result.error) throw new Error(result.error);
+      rows.push(...result.rows);
+      total = result.total;
+      if (result.rows.length === 0) break;
+      page++;
+    } while (rows.length < total);
+    return rows;
+  }
+
+  async findOne(filters: FilterBuilder<Row> | TableFilter<Row>[]): Promise<Row | null> {
+    const result = await this.page({ filters, pageSize: 1 });
+    if (result.error) throw new Error(result.error);
+    return result.rows[0] || null;
+  }
+
+  async findById(id: number | string): Promise<Row | null> {
+    return this.findOne([{ name: 'id' as RowColumn<Row>, op: 'Equal', value: id }]);
+  }
+
+  async create(data: RowInsert<Row>): Promise<{error: string | null;}> {
+    return this.api.tableCreate(this.tableId, { ...data });
+  }
+
+  async update(id: number | string, data: RowInsert<Row>): Promise<{error: string | null;}> {
+    return this.api.tableUpdate(this.tableId, { ...data, id });
+  }
+
+  async remove(id: number | string): Promise<{error: string | null;}> {
+    return this.api.tableDelete(this.tableId, { id });
+  }
+}
@@ -0,0 +1,103 @@
+// Sales report close-out review: moves reports through approve, reject and
+// reopen and audits the manager decisions. Submissions happen when the report
+// form saves; the database trigger keeps every step in sales_report_reviews.
+
+import { salesReportRepository, salesReportReviewRepository } from './repositories';
+import type { SalesReportRow, SalesReportReviewRow } from './supabase/tableRegistry';
+import { supabaseAuditLogger } from './supabaseAuditLogger';
+import {
+  getNextStatus,
+  getReportStatus,
+  ReviewAction,
+  validateReviewAction } from
+'@/utils/salesReportWorkflow';
+import { toDateKey } from '@/utils/valueHelpers';
+
+export interface ReviewReport {
+  id: number;
+  station: string;
+  report_date: string;
+  status?: string | null;
+}
+
+export interface Reviewer {
+  id?: number | string;
+  email: string;
+}
+
+class SalesReportReviewService {
+  /**
+   * Reports waiting for review at the given stations, oldest first; every
+   * station when the list is empty
+   */
+  async getReviewQueue(stations: string[] = []): Promise<SalesReportRow[]> {
+    const filters = salesReportRepository.where().equal('status', 'submitted');
+    if (stations.length > 0) filters.in('station', stations);
+    return salesReportRepository.findAll({ filters, orderBy: 'report_date', ascending: true });
+  }
+
+  async getReviews(reportId: number): Promise<SalesReportReviewRow[]> {
+    return salesReportReviewRepository.findAll({
+      filters: salesReportReviewRepository.where().equal('report_id', reportId),
+      orderBy: 'performed_at',
+      ascending: false
+    });
+  }
+
+  async approve(report: ReviewReport, comment: string, reviewer: Reviewer): Promise<{error: string | null;}> {
+    return this.review(report, 'approve', comment, reviewer);
+  }
+
+  async reject(report: ReviewReport, comment: string, reviewer: Reviewer): Promise<{error: string | null;}> {
+    return this.review(report, 'reject', comment, reviewer);
+  }
+
+  /**
+   * Unlock an approved report so it can be corrected and submitted again
+   */
+  async reopen(report: ReviewReport, reason: string, reviewer: Reviewer): Promise<{error: string | null;}> {
+    return this.review(report, 'reopen', reason, reviewer);
+  }
+
+  private async review(
+  report: ReviewReport,
+  action: ReviewAction,
+  comment: string,
+  reviewer: Reviewer)
+  : Promise<{error: string | null;}> {
+    const validationError = validateReviewAction(report, action, comment);
+    if (validationError) {
+      return { error: validationError };
+    }
+
+    try {
+      const fromStatus = getReportStatus(report);
+      const toStatus = getNextStatus(action);
+
+      // The database records the step in sales_report_reviews with the status change
+      const { error } = await salesReportRepository.update(report.id, {
+        status: toStatus,
+        review_comment: comment.trim() || null,
+        approved_by: action === 'approve' ? reviewer.email : null,
+        approved_at: action === 'approve' ? new Date().toISOString() : null
+      });
+      if (error) return { error };
+
+      await supabaseAuditLogger.logDataModification(
+        'sales_reports',
+        `${action}_sales_report`,
+        reviewer.id !== undefined ? String(reviewer.id) : undefined,
+        reviewer.email,
+        report.station,
+        { report_id: report.id, report_date: toDateKey(report.report_date), from_status: fromStatus, to_status: toStatus, comment: comment.trim() }
+      );
+      return { error: null };
+    } catch (error) {
+      console.error(`Error on sales report ${action}:`, error);
+      return { error: error instanceof Error ? error.message : 'Failed to update report review' };
+    }
+  }
+}
+
+// Export singleton instance
+export const salesReportReviewService = new SalesReportReviewService();
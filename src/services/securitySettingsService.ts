@@ -0,0 +1,128 @@
+// Security settings: the policy document in security_settings (27015) and the
+// client IP for the allowlist. The failed-login lockout is not checked here: it
+// is enforced by Supabase Auth through hook_password_verification_attempt,
+// which also records the attempts.
+
+import { supabase } from '@/lib/supabase';
+import { securitySettingRepository } from './repositories';
+import type { SecuritySettingRow } from './supabase/tableRegistry';
+import { supabaseAuditLogger } from './supabaseAuditLogger';
+import {
+  diffSecuritySettings,
+  isClientIpAllowed,
+  isIpAllowed,
+  isValidAllowlistEntry,
+  mergeSecuritySettings,
+  SecuritySettings } from
+'@/utils/securityPolicy';
+
+// Settings are re-read at most this often
+const CACHE_TTL_MS = 60 * 1000;
+
+export interface SecurityAdmin {
+  id?: number | string;
+  email: string;
+}
+
+class SecuritySettingsService {
+  private cached: {settings: SecuritySettings;loadedAt: number;} | null = null;
+  private clientIp: string | null | undefined;
+
+  // The settings live in a single row, normally the one seeded by the migration
+  private async getRow(): Promise<SecuritySettingRow | null> {
+    const { rows, error } = await securitySettingRepository.page({ orderBy: 'id', ascending: true, pageSize: 1 });
+    if (error) throw new Error(error);
+    return rows[0] || null;
+  }
+
+  /**
+   * Current settings, falling back to the defaults when none are stored
+   */
+  async getSettings(force: boolean = false): Promise<SecuritySettings> {
+    if (!force && this.cached && Date.now() - this.cached.loadedAt < CACHE_TTL_MS) {
+      return this.cached.settings;
+    }
+    try {
+      const row = await this.getRow();
+      const settings = mergeSecuritySettings(row?.settings);
+      this.cached = { settings, loadedAt: Date.now() };
+      return settings;
+    } catch (error) {
+      console.error('Error loading security settings:', error);
+      return this.cached?.settings || mergeSecuritySettings(null);
+    }
+  }
+
+  async saveSettings(settings: SecuritySettings, admin: SecurityAdmin): Promise<{error: string | null;}> {
+    if (settings.passwordPolicy.minLength < 6) {
+      return { error: 'Passwords must be at least 6 characters' };
+    }
+    if (settings.accountSecurity.maxFailedAttempts < 0 || settings.accountSecurity.lockoutDuration < 0) {
+      return { error: 'Lockout settings cannot be negative' };
+    }
+    if (settings.accountSecurity.sessionTimeout < 0) {
+      return { error: 'Session timeout cannot be negative' };
+    }
+    const invalidEntry = settings.systemSecurity.ipWhitelist.find((entry) => !isValidAllowlistEntry(entry));
+    if (invalidEntry) {
+      return { error: `"${invalidEntry}" is not an IP address or range` };
+    }
+    if (settings.systemSecurity.enableIPWhitelist) {
+      const ip = await this.getClientIp();
+      if (ip && !isIpAllowed(ip, settings.systemSecurity.ipWhitelist)) {
+        return { error: `Your address (${ip}) is not on the allowlist; add it before enabling the allowlist` };
+      }
+    }
+
+    try {
+      const before = await this.getSettings(true);
+      const existing = await this.getRow();
+      const data = { settings, updated_by: admin.email };
+      const { error } = existing?.id ?
+      await securitySettingRepository.update(existing.id, data) :
+      await securitySettingRepository.create(data);
+      if (error) return { error };
+
+      this.cached = { settings, loadedAt: Date.now() };
+      await supabaseAuditLogger.logDataModification(
+        'security_settings',
+        'update_security_settings',
+        admin.id !== undefined ? String(admin.id) : undefined,
+        admin.email,
+        undefined,
+        diffSecuritySettings(before, settings)
+      );
+      return { error: null };
+    } catch (error) {
+      console.error('Error saving security settings:', error);
+      return { error: error instanceof Error ? error.message : 'Failed to save security settings' };
+    }
+  }
+
+  /**
+   * The client's public IP as seen by the API, or null when it cannot be told
+   */
+  async getClientIp(): Promise<string | null> {
+    if (this.clientIp !== undefined) return this.clientIp;
+    const { data, error } = await supabase.rpc('get_client_ip');
+    if (error) {
+      console.warn('Could not determine client IP:', error);
+      return null;
+    }
+    this.clientIp = data || null;
+    return this.clientIp;
+  }
+
+  /**
+   * Allowlist check, made in the browser only. Passes when the client IP cannot
+   * be determined (see isClientIpAllowed).
+   */
+  async checkIpAllowed(settings: SecuritySettings): Promise<{allowed: boolean;ip: string | null;}> {
+    if (!settings.systemSecurity.enableIPWhitelist) return { allowed: true, ip: null };
+    const ip = await this.getClientIp();
+    return { allowed: isClientIpAllowed(ip, settings.systemSecurity), ip };
+  }
+}
+
+// Export singleton instance
+export const securitySettingsService = new SecuritySettingsService();
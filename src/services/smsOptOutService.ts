@@ -0,0 +1,28 @@
+// SMS opt-out lookups.
+// sms_contacts.opt_out is maintained by the sms-inbound webhook when a contact
+// replies STOP or START; senders use this service to skip opted-out numbers.
+// Numbers are matched with the same normalizePhoneKey as those functions.
+
+import { smsContactRepository } from './repositories';
+import { normalizePhoneKey } from '../../supabase/functions/_shared/phone';
+
+class SmsOptOutService {
+  /**
+   * Normalised numbers of every contact who has opted out. Throws when the
+   * contacts cannot be read, so callers can refuse to send.
+   */
+  async getOptedOutNumbers(): Promise<Set<string>> {
+    const contacts = await smsContactRepository.findAll({
+      filters: smsContactRepository.where().equal('opt_out', true)
+    });
+    return new Set(contacts.map((contact) => normalizePhoneKey(contact.mobile_number)));
+  }
+
+  async isOptedOut(phoneNumber: string): Promise<boolean> {
+    const optedOut = await this.getOptedOutNumbers();
+    return optedOut.has(normalizePhoneKey(phoneNumber));
+  }
+}
+
+// Export singleton instance
+export const smsOptOutService = new SmsOptOutService();
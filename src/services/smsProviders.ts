@@ -0,0 +1,241 @@
+// SMS provider abstraction.
+// ClickSend and Twilio send through the sms-relay edge function, which holds their
+// credentials. The mock provider never leaves the browser, so the alert pipeline
+// can run end to end in development without sending real texts. It is only used
+// when the build sets VITE_SMS_PROVIDER=Mock; otherwise Mock goes to the relay,
+// which refuses it unless the relay itself runs with SMS_RELAY_PROVIDER=mock.
+
+import { smsRelayClient } from './smsRelayClient';
+import { MOCK_SENT_STATUS } from '../../supabase/functions/_shared/smsStatus';
+
+export const SMS_PROVIDER_NAMES = ['ClickSend', 'Twilio', 'Mock'] as const;
+export type SMSProviderName = typeof SMS_PROVIDER_NAMES[number];
+
+export const DEFAULT_SMS_PROVIDER: SMSProviderName = 'ClickSend';
+
+export interface SMSProviderMessage {
+  to: string;
+  message: string;
+  type?: string;
+}
+
+export interface SMSSendResult {
+  success: boolean;
+  messageId?: string;
+  status?: string;
+  cost?: number;
+  error?: string;
+}
+
+export interface SMSDeliveryStatus {
+  status: string;
+  delivered: boolean;
+  error?: string;
+}
+
+export interface SMSBalanceResult {
+  success: boolean;
+  balance: number;
+  error?: string;
+}
+
+export interface SMSProvider {
+  readonly name: SMSProviderName;
+  send(message: SMSProviderMessage): Promise<SMSSendResult>;
+  sendBulk(messages: SMSProviderMessage[]): Promise<SMSSendResult[]>;
+  getDeliveryStatus(messageId: string): Promise<SMSDeliveryStatus>;
+  getBalance(): Promise<SMSBalanceResult>;
+  getFromNumbers(): Promise<string[]>;
+}
+
+export interface SMSProviderInfo {
+  name: SMSProviderName;
+  label: string;
+  description: string;
+  secrets: string[];
+}
+
+export const SMS_PROVIDER_INFO: Record<SMSProviderName, SMSProviderInfo> = {
+  ClickSend: {
+    name: 'ClickSend',
+    label: 'ClickSend',
+    description: 'Sends through ClickSend via the SMS relay',
+    secrets: ['CLICKSEND_USERNAME', 'CLICKSEND_API_KEY']
+  },
+  Twilio: {
+    name: 'Twilio',
+    label: 'Twilio',
+    description: 'Sends through Twilio Programmable Messaging via the SMS relay',
+    secrets: ['TWILIO_ACCOUNT_SID', 'TWILIO_AUTH_TOKEN']
+  },
+  Mock: {
+    name: 'Mock',
+    label: 'Mock (development)',
+    description: 'Records messages without sending real texts. Requires VITE_SMS_PROVIDER=Mock or SMS_RELAY_PROVIDER=mock',
+    secrets: []
+  }
+};
+
+// Delay between bulk messages to respect provider rate limits
+const BULK_SEND_DELAY_MS = 500;
+
+const sendSequentially = async (provider: SMSProvider, messages: SMSProviderMessage[], delayMs: number) => {
+  const results: SMSSendResult[] = [];
+  for (const message of messages) {
+    try {
+      results.push(await provider.send(message));
+    } catch (error) {
+      results.push({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+  return results;
+};
+
+/**
+ * Provider backed by the sms-relay edge function. The relay picks the same
+ * provider from sms_config.service_name, so this class only labels the calls.
+ */
+class RelaySMSProvider implements SMSProvider {
+  constructor(readonly name: SMSProviderName) {}
+
+  async send(message: SMSProviderMessage): Promise<SMSSendResult> {
+    return smsRelayClient.send(message.to, message.message, message.type);
+  }
+
+  async sendBulk(messages: SMSProviderMessage[]): Promise<SMSSendResult[]> {
+    return sendSequentially(this, messages, BULK_SEND_DELAY_MS);
+  }
+
+  async getDeliveryStatus(messageId: string): Promise<SMSDeliveryStatus> {
+    const result = await smsRelayClient.getMessageStatus(messageId);
+    return { status: result.success ? result.status : 'error', delivered: result.delivered, error: result.error };
+  }
+
+  async getBalance(): Promise<SMSBalanceResult> {
+    const account = await smsRelayClient.getAccount();
+    return { success: account.success, balance: account.balance || 0, error: account.error };
+  }
+
+  async getFromNumbers(): Promise<string[]> {
+    const result = await smsRelayClient.getFromNumbers();
+    return result.success ? result.numbers || [] : [];
+  }
+}
+
+export interface MockSentMessage extends SMSProviderMessage {
+  messageId: string;
+  sentAt: string;
+}
+
+const MOCK_OUTBOX_KEY = 'dfs-mock-sms-outbox';
+const MOCK_OUTBOX_LIMIT = 200;
+
+/**
+ * Development provider that keeps an outbox in memory and mirrors it to
+ * localStorage so messages survive a reload. Messages are also written to SMS
+ * history, tagged with a mock- message ID and the Simulated status, so the logs
+ * page shows them without counting them toward the daily limit.
+ */
+export class MockSMSProvider implements SMSProvider {
+  readonly name = 'Mock' as const;
+  private outbox: MockSentMessage[] = this.readOutbox();
+
+  async send(message: SMSProviderMessage): Promise<SMSSendResult> {
+    const sent: MockSentMessage = {
+      ...message,
+      messageId: `mock-${Date.now()}-${this.outbox.length + 1}`,
+      sentAt: new Date().toISOString()
+    };
+    this.outbox = [...this.outbox, sent].slice(-MOCK_OUTBOX_LIMIT);
+    this.writeOutbox();
+    console.warn(`[Mock SMS] to ${message.to}: ${message.message}`);
+
+    try {
+      await window.ezsite.apis.tableCreate(24202, {
+        recipient_phone: message.to,
+        message_content: message.message,
+        sender_name: 'Mock',
+        status: MOCK_SENT_STATUS,
+        sent_at: sent.sentAt,
+        message_id: sent.messageId,
+        cost: 0,
+        error_message: '',
+        message_type: message.type || 'custom'
+      });
+    } catch (error) {
+      console.error('Failed to log mock SMS:', error);
+    }
+
+    return { success: true, messageId: sent.messageId, status: 'SUCCESS', cost: 0 };
+  }
+
+  async sendBulk(messages: SMSProviderMessage[]): Promise<SMSSendResult[]> {
+    return sendSequentially(this, messages, 0);
+  }
+
+  async getDeliveryStatus(messageId: string): Promise<SMSDeliveryStatus> {
+    const delivered = this.outbox.some((message) => message.messageId === messageId);
+    return { status: delivered ? 'Delivered' : 'unknown', delivered };
+  }
+
+  async getBalance(): Promise<SMSBalanceResult> {
+    return { success: true, balance: 0 };
+  }
+
+  async getFromNumbers(): Promise<string[]> {
+    return ['Mock'];
+  }
+
+  /**
+   * Messages recorded by the mock provider, oldest first
+   */
+  getSentMessages(): MockSentMessage[] {
+    return [...this.outbox];
+  }
+
+  clearSentMessages(): void {
+    this.outbox = [];
+    this.writeOutbox();
+  }
+
+  private readOutbox(): MockSentMessage[] {
+    try {
+      return JSON.parse(localStorage.getItem(MOCK_OUTBOX_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private writeOutbox(): void {
+    try {
+      localStorage.setItem(MOCK_OUTBOX_KEY, JSON.stringify(this.outbox));
+    } catch {
+      // Storage unavailable; the in-memory outbox still works
+    }
+  }
+}
+
+export const mockSmsProvider = new MockSMSProvider();
+
+/**
+ * True when this build opted in to the in-browser mock provider
+ */
+export const isMockSmsEnabled = (): boolean =>
+(import.meta.env.VITE_SMS_PROVIDER || '').trim().toLowerCase() === 'mock';
+
+const providers: Record<SMSProviderName, SMSProvider> = {
+  ClickSend: new RelaySMSProvider('ClickSend'),
+  Twilio: new RelaySMSProvider('Twilio'),
+  Mock: isMockSmsEnabled() ? mockSmsProvider : new RelaySMSProvider('Mock')
+};
+
+/**
+ * Map a stored service_name (which may be a legacy label) onto a provider name
+ */
+export const normalizeSmsProviderName = (serviceName: string | null | undefined): SMSProviderName =>
+SMS_PROVIDER_NAMES.find((name) => name.toLowerCase() === (serviceName || '').trim().toLowerCase()) || DEFAULT_SMS_PROVIDER;
+
+export const getSmsProvider = (name: string | null | undefined): SMSProvider => providers[normalizeSmsProviderName(name)];
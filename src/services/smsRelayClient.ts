@@ -0,0 +1,83 @@
+// Client for the sms-relay edge function.
+// Provider credentials live only in the relay; the browser sends the signed-in
+// user's session and the relay enforces the daily limit and logs to sms_history.
+
+import { supabase } from '@/lib/supabase';
+
+export const SMS_RELAY_FUNCTION = 'sms-relay';
+
+export interface RelaySendResult {
+  success: boolean;
+  messageId?: string;
+  status?: string;
+  cost?: number;
+  error?: string;
+}
+
+export interface RelayAccountResult {
+  success: boolean;
+  provider?: string;
+  balance?: number;
+  error?: string;
+}
+
+export interface RelayNumbersResult {
+  success: boolean;
+  provider?: string;
+  numbers?: string[];
+  error?: string;
+}
+
+export interface RelayStatusResult {
+  success: boolean;
+  status: string;
+  delivered: boolean;
+  error?: string;
+}
+
+class SmsRelayClient {
+  /**
+   * Send one SMS through the relay
+   */
+  async send(to: string, message: string, type: string = 'custom'): Promise<RelaySendResult> {
+    return this.invoke<RelaySendResult>({ action: 'send', to, message, type });
+  }
+
+  /**
+   * Provider account status and balance, used to check connectivity
+   */
+  async getAccount(): Promise<RelayAccountResult> {
+    return this.invoke<RelayAccountResult>({ action: 'account' });
+  }
+
+  async getMessageStatus(messageId: string): Promise<RelayStatusResult> {
+    const result = await this.invoke<RelayStatusResult>({ action: 'status', messageId });
+    return { status: 'unknown', delivered: false, ...result };
+  }
+
+  /**
+   * Sender numbers registered with the active provider
+   */
+  async getFromNumbers(): Promise<RelayNumbersResult> {
+    return this.invoke<RelayNumbersResult>({ action: 'numbers' });
+  }
+
+  private async invoke<T extends {success: boolean;error?: string;}>(body: Record<string, unknown>): Promise<T> {
+    try {
+      const { data, error } = await supabase.functions.invoke(SMS_RELAY_FUNCTION, { body });
+      if (error) {
+        // Non-2xx responses still carry the relay's JSON error body
+        const context = (error as {context?: Response;}).context;
+        const details = context && typeof context.json === 'function' ? await context.json().catch(() => null) : null;
+        return { success: false, ...details, error: details?.error || error.message } as T;
+      }
+      return data as T;
+    } catch (error) {
+      console.error('SMS relay request failed:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'SMS relay unavailable' } as T;
+    }
+  }
+}
+
+// Export singleton instance
+export const smsRelayClient = new SmsRelayClient();
@@ -6,8 +6,8 @@ import { clickSendSmsService } from './clickSendSmsService';
 
 // Type definitions for backward compatibility
 export interface ClickSendConfig {
-  username: string;
-  apiKey: string;
+  username?: string;
+  apiKey?: string;
   fromNumber: string;
   testMode: boolean;
   webhookUrl?: string;
@@ -148,5 +148,5 @@ console.warn(`
 ⚠️  DEPRECATION NOTICE: smsService.ts is deprecated
 📱 All SMS functionality now uses ClickSend exclusively
 🔄 Please migrate to: import { clickSendSmsService } from './clickSendSmsService'
-✅ Your provided ClickSend credentials are active: mobil3801beach@gmail.com
+🔐 ClickSend credentials are held by the sms-relay server function
 `);
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { supabase } from '@/lib/supabase'
 import { translateError, getErrorMessage } from '@/utils/errorMessageTranslations'
+import { resolveTableName, getRegisteredTableIds, UnknownTableIdError } from './tableRegistry'
+import { emailRelayClient, EmailMessage } from '@/services/emailRelayClient'
 
 // Debug flag to enable verbose logging
 const DEBUG_MODE = true;
@@ -28,38 +30,22 @@ const PG_ERROR_CODES = {
   '57P05': 'Idle session timeout',
 };
 
-// Table ID to table name mapping - Updated with compatibility views
+// Table IDs are resolved through the typed table registry
 // The Supabase client automatically handles schema resolution via db.schema config
-const TABLE_ID_MAPPING: Record<string | number, string> = {
-  11725: 'user_profiles',     // User profiles with UUID foreign keys
-  11726: 'products',          // Products management
-  11727: 'employees_view',    // Employee management (using compatibility view)
-  11731: 'licenses',          // License tracking
-  12196: 'deliveries',        // Delivery management
-  12356: 'sales_reports',     // Sales reporting
-  12599: 'stations',          // Station management
-  12611: 'alert_settings',    // Alert configuration
-  12612: 'sms_contacts',      // SMS contact management
-  12613: 'alert_history',     // Alert history
-  12706: 'audit_logs',        // Audit logging
-  24061: 'sms_settings',      // SMS provider settings
-  24062: 'sms_history',       // SMS delivery history
-  24201: 'sms_config',        // SMS configuration
-  24202: 'sms_history',       // Alternative SMS history mapping
-  25712: 'module_access',     // Module permissions
-  26928: 'file_uploads',      // File upload tracking
-  'User': 'auth.users'        // Supabase auth users (explicitly qualified)
-}
 
-// Special handling for tables that need write operations on base tables
-const WRITE_TABLE_MAPPING: Record<string | number, string> = {
-  11727: 'employees',         // Write operations go to base table
+// Query parameters accepted by tablePage
+export interface TablePageParams {
+  PageNo?: number
+  PageSize?: number
+  OrderByField?: string
+  IsAsc?: boolean
+  Filters?: {name: string, op: string, value?: any}[]
 }
 
 // Interface matching the existing window.ezsite.apis
 // cspell:ignore ezsite
 export interface EzsiteApiAdapter {
-  tablePage(tableId: string | number, params: any): Promise<{data: any, error: string | null}>
+  tablePage(tableId: string | number, params: TablePageParams): Promise<{data: any, error: string | null}>
   tableCreate(tableId: string | number, data: any): Promise<{error: string | null}>
   tableUpdate(tableId: string | number, data: any): Promise<{error: string | null}>
   tableDelete(tableId: string | number, data: any): Promise<{error: string | null}>
@@ -192,30 +178,38 @@ async function checkTableInAllSchemas(tableName: string): Promise<{found: boolea
   }
 }
 
+/**
+ * Message returned for unexpected adapter errors.
+ * Unknown table IDs are reported verbatim so unregistered tables fail loudly.
+ * @param error The caught error
+ * @param context Description of the operation for the translated message
+ */
+function getUnexpectedErrorMessage(error: any, context: string): string {
+  if (error instanceof UnknownTableIdError) {
+    return error.message;
+  }
+  return getErrorMessage(error, context);
+}
+
 // Supabase Adapter Implementation
 // cspell:ignore Ezsite
 class SupabaseAdapter implements EzsiteApiAdapter {
   private getTableName(tableId: string | number, forWrite: boolean = false): string {
-    // For write operations, use the base table if a special mapping exists
-    const tableName = forWrite && WRITE_TABLE_MAPPING[tableId]
-      ? WRITE_TABLE_MAPPING[tableId]
-      : TABLE_ID_MAPPING[tableId];
-      
-    if (!tableName) {
+    try {
+      return resolveTableName(tableId, forWrite)
+    } catch (error) {
       console.error('Table ID mapping failed')
       console.error('Requested table ID:', tableId)
-      console.error('Available mappings:', Object.keys(TABLE_ID_MAPPING))
-      console.error('Mapping values:', Object.values(TABLE_ID_MAPPING))
-      throw new Error(`Unknown table ID: ${tableId}`)
+      console.error('Registered table IDs:', getRegisteredTableIds())
+      throw error
     }
-    return tableName
   }
 
-  async tablePage(tableId: string | number, params: any): Promise<{data: any, error: string | null}> {
+  async tablePage(tableId: string | number, params: TablePageParams): Promise<{data: any, error: string | null}> {
     const context: {
       operation: string;
       tableId: string | number;
-      params: any;
+      params: TablePageParams;
       tableName?: string;
     } = {
       operation: 'tablePage',
@@ -296,7 +290,7 @@ class SupabaseAdapter implements EzsiteApiAdapter {
       console.error('======================================');
       
       // Use user-friendly error messages for unexpected errors
-      const userFriendlyMessage = getErrorMessage(error, `loading data from ${context.tableName || 'table'}`);
+      const userFriendlyMessage = getUnexpectedErrorMessage(error, `loading data from ${context.tableName || 'table'}`);
       
       return {
         data: null,
@@ -360,7 +354,7 @@ class SupabaseAdapter implements EzsiteApiAdapter {
       console.error('======================================');
       
       // Use user-friendly error messages for unexpected errors
-      const userFriendlyMessage = getErrorMessage(error, `creating record in ${context.tableName || 'table'}`);
+      const userFriendlyMessage = getUnexpectedErrorMessage(error, `creating record in ${context.tableName || 'table'}`);
       return { error: userFriendlyMessage };
     }
   }
@@ -431,7 +425,7 @@ class SupabaseAdapter implements EzsiteApiAdapter {
       console.error('======================================');
       
       // Use user-friendly error messages for unexpected errors
-      const userFriendlyMessage = getErrorMessage(error, `updating record in ${context.tableName || 'table'}`);
+      const userFriendlyMessage = getUnexpectedErrorMessage(error, `updating record in ${context.tableName || 'table'}`);
       return { error: userFriendlyMessage };
     }
   }
@@ -493,22 +487,18 @@ class SupabaseAdapter implements EzsiteApiAdapter {
       console.error('======================================');
       
       // Use user-friendly error messages for unexpected errors
-      const userFriendlyMessage = getErrorMessage(error, `deleting record from ${context.tableName || 'table'}`);
+      const userFriendlyMessage = getUnexpectedErrorMessage(error, `deleting record from ${context.tableName || 'table'}`);
       return { error: userFriendlyMessage };
     }
   }
 
-  async sendEmail(emailData: any): Promise<{error: string | null}> {
+  // Sent by the email-relay edge function, which holds the transport credentials,
+  // retries failures and logs each message to email_delivery_log
+  async sendEmail(emailData: EmailMessage & {type?: string}): Promise<{error: string | null}> {
     try {
-      // For now, log the email data as Supabase doesn't have built-in email service
-      // This would need to be implemented using a service like Resend, SendGrid, etc.
-      console.log('Email would be sent:', emailData)
-      
-      // NOTE: Email service implementation requires external service integration
-      // Consider using Resend, SendGrid, or Supabase Edge Functions for production
-      return {
-        error: 'Email service not yet implemented in Supabase migration'
-      }
+      const { type, ...message } = emailData
+      const result = await emailRelayClient.send(message, type)
+      return { error: result.success ? null : result.error || 'Failed to send email' }
 
     } catch (error: any) {
       console.error('SupabaseAdapter.sendEmail error:', error)
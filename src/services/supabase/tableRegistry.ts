@@ -0,0 +1,968 @@
+// Typed table registry: maps each logical entity to its legacy table ID, its
+// Supabase table and the row shape the application reads and writes.
+// The Supabase adapter resolves table IDs exclusively through this registry.
+
+interface BaseRow {
+  id?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface UserProfileRow extends Omit<BaseRow, 'id'> {
+  id?: string;
+  user_id: string;
+  role: string;
+  station: string;
+  employee_id: string;
+  phone: string;
+  hire_date: string;
+  is_active: boolean;
+  detailed_permissions: any;
+  profile_image_id?: string | null;
+  preferences?: Record<string, any> | null;
+}
+
+export interface ProductRow extends BaseRow {
+  product_name: string;
+  product_code: string;
+  category: string;
+  department: string;
+  description: string;
+  supplier: string;
+  serial_number: number;
+  merchant_id: number;
+  bar_code_case: string;
+  bar_code_unit: string;
+  quantity_in_stock: number;
+  minimum_stock: number;
+  weight: number;
+  weight_unit: string;
+  price: number;
+  case_price: number;
+  unit_per_case: number;
+  unit_price: number;
+  retail_price: number;
+  last_updated_date: string;
+  last_shopping_date: string;
+  overdue: boolean;
+  /** Legacy numeric user ID, or the creating user's UUID */
+  created_by: number | string | null;
+}
+
+export interface EmployeeRow extends BaseRow {
+  employee_id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  position: string;
+  station: string;
+  shift: string;
+  hire_date: string;
+  salary: number;
+  is_active: boolean;
+  employment_status: string;
+  date_of_birth?: string;
+  current_address?: string;
+  mailing_address?: string;
+  reference_name?: string;
+  id_document_type?: string;
+  profile_image_id?: number | null;
+  id_document_file_id?: number | null;
+  id_document_2_file_id?: number | null;
+  id_document_3_file_id?: number | null;
+  id_document_4_file_id?: number | null;
+  created_by: number;
+}
+
+export interface VendorRow extends BaseRow {
+  vendor_name: string;
+  contact_person: string;
+  email: string;
+  phone: string;
+  address: string;
+  category: string;
+  payment_terms: string;
+  is_active: boolean;
+  created_by: number;
+}
+
+export interface OrderRow extends BaseRow {
+  order_number: string;
+  vendor_id: number | null;
+  order_date: string;
+  expected_delivery: string | null;
+  station: string;
+  total_amount: number;
+  status: string;
+  notes: string;
+  created_by: number;
+}
+
+export interface OrderItemRow extends BaseRow {
+  order_id: number;
+  line_number: number;
+  product_id: number;
+  product_name: string;
+  product_code: string;
+  unit_type: string;
+  units_per_case: number;
+  quantity: number;
+  unit_cost: number;
+  subtotal: number;
+  quantity_received: number;
+}
+
+export interface OrderReceiptRow extends BaseRow {
+  receipt_number: string;
+  order_id: number;
+  order_item_id: number;
+  product_id: number;
+  quantity_received: number;
+  units_added: number;
+  unit_cost: number;
+  backorder_quantity: number;
+  received_by: string;
+  received_at: string;
+  notes: string;
+}
+
+export interface LicenseRow extends BaseRow {
+  license_name: string;
+  license_number: string;
+  issuing_authority: string;
+  issue_date: string;
+  expiry_date: string;
+  station: string;
+  category: string;
+  status: string;
+  document_file_id: number;
+  created_by: number;
+}
+
+export interface LicenseRenewalRow extends BaseRow {
+  license_id: number;
+  station: string;
+  previous_issue_date: string | null;
+  previous_expiry_date: string | null;
+  new_issue_date: string | null;
+  new_expiry_date: string;
+  renewal_cost: number;
+  payment_date: string | null;
+  payment_reference: string;
+  notes: string;
+  renewed_by: string;
+  renewed_at: string;
+}
+
+export interface LicenseDocumentRow extends BaseRow {
+  license_id: number;
+  renewal_id: number | null;
+  version_number: number;
+  document_file_id: number | null;
+  document_url: string | null;
+  file_name: string;
+  valid_from: string | null;
+  valid_until: string | null;
+  is_current: boolean;
+  uploaded_by: string;
+  uploaded_at: string;
+}
+
+export interface ProductLogRow extends BaseRow {
+  product_id: number;
+  field_name: string;
+  old_value: string;
+  new_value: string;
+  change_date: string;
+  changed_by: string | null;
+  changed_by_name: string | null;
+  /** Read-only, from product_logs_view */
+  product_name?: string;
+}
+
+export interface SalaryRecordRow extends BaseRow {
+  employee_id: string;
+  pay_period_start: string;
+  pay_period_end: string;
+  pay_date: string;
+  pay_frequency: string;
+  hourly_rate: number;
+  regular_hours: number;
+  assign_hours: number;
+  overtime_hours: number;
+  overtime_rate: number;
+  overtime_pay: number;
+  bonus_amount: number;
+  commission: number;
+  gross_pay: number;
+  federal_tax: number;
+  state_tax: number;
+  social_security: number;
+  medicare: number;
+  health_insurance: number;
+  retirement_401k: number;
+  other_deductions: number;
+  total_deductions: number;
+  net_pay: number;
+  station: string;
+  status: string;
+  notes: string;
+  created_by: number;
+}
+
+export interface DeliveryRow extends BaseRow {
+  delivery_date: string;
+  bol_number: string;
+  station: string;
+  regular_tank_volume: number;
+  plus_tank_volume: number;
+  super_tank_volume: number;
+  regular_delivered: number;
+  plus_delivered: number;
+  super_delivered: number;
+  fuel_deliveries: Record<string, {tank_volume: number;delivered: number;cost_per_gallon?: number;}>;
+  price_per_gallon: number;
+  delivery_notes: string;
+  created_by: number;
+}
+
+export interface AfterDeliveryTankReportRow extends BaseRow {
+  report_date: string;
+  station: string;
+  delivery_record_id: number;
+  bol_number: string;
+  regular_tank_final: number;
+  plus_tank_final: number;
+  super_tank_final: number;
+  tank_finals: Record<string, number>;
+  created_by: number;
+}
+
+export interface SalesReportRow extends BaseRow {
+  report_date: string;
+  station: string;
+  shift: string;
+  employee_name: string;
+  employee_id: string | null;
+  cash_collection_on_hand: number;
+  total_short_over: number;
+  credit_card_amount: number;
+  debit_card_amount: number;
+  mobile_amount: number;
+  cash_amount: number;
+  grocery_sales: number;
+  ebt_sales: number;
+  lottery_net_sales: number;
+  scratch_off_sales: number;
+  lottery_total_cash: number;
+  regular_gallons: number;
+  super_gallons: number;
+  diesel_gallons: number;
+  fuel_gallons: Record<string, number>;
+  total_gallons: number;
+  expenses_data: string;
+  day_report_file_id?: number;
+  veeder_root_file_id?: number;
+  lotto_report_file_id?: number;
+  scratch_off_report_file_id?: number;
+  total_sales: number;
+  notes: string;
+  created_by: number;
+  status: string;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  review_comment: string | null;
+}
+
+export interface StationRow extends BaseRow {
+  station_name: string;
+  address: string;
+  phone: string;
+  operating_hours: string;
+  manager_name: string;
+  status: string;
+  last_updated: string;
+  created_by: number;
+}
+
+export interface AlertSettingRow extends BaseRow {
+  setting_name: string;
+  days_before_expiry: number;
+  alert_frequency_days: number;
+  is_active: boolean;
+  message_template: string;
+  created_by: number;
+  alert_type: string;
+  station: string | null;
+  threshold_amount: number | null;
+  rolling_threshold_amount: number | null;
+  rolling_days: number | null;
+}
+
+export interface SmsContactRow extends BaseRow {
+  contact_name: string;
+  mobile_number: string;
+  station: string;
+  is_active: boolean;
+  contact_role: string;
+  opt_out: boolean;
+  opted_out_at: string | null;
+  created_by: number;
+}
+
+export interface AlertHistoryRow extends BaseRow {
+  license_id: number;
+  contact_id: number;
+  mobile_number: string;
+  message_content: string;
+  days_before_expiry: number;
+  sent_date: string;
+  delivery_status: string;
+  created_by: number;
+  alert_type: string;
+  station: string | null;
+  employee_id: string | null;
+  sales_report_id: number | null;
+  amount: number | null;
+}
+
+export interface AuditLogRow extends Omit<BaseRow, 'id'> {
+  id?: string;
+  event_type: string;
+  event_status: string;
+  event_timestamp: string;
+  risk_level: string;
+  ip_address: string;
+  user_agent: string;
+  session_id: string;
+  username: string;
+  user_id: string;
+  action_performed: string;
+  additional_data: any;
+  sensitive_fields_removed: boolean;
+}
+
+export interface SmsSettingRow extends BaseRow {
+  setting_name: string;
+  setting_value: string;
+  description: string;
+  is_emergency: boolean;
+  is_active: boolean;
+}
+
+export interface SmsHistoryRow extends BaseRow {
+  recipient_phone: string;
+  message_content: string;
+  sender_name: string;
+  status: string;
+  sent_at: string;
+  message_id: string;
+  clicksend_message_id: string;
+  cost: number;
+  error_message: string;
+  message_type: string;
+  sent_by_user_id: number;
+}
+
+export interface SmsConfigRow extends BaseRow {
+  service_name: string;
+  username: string;
+  api_key: string;
+  from_number: string;
+  test_mode: boolean;
+  is_enabled: boolean;
+  daily_limit: number;
+  webhook_url: string;
+}
+
+export interface ModuleAccessRow extends BaseRow {
+  user_id: string;
+  module_name: string;
+  display_name: string;
+  create_enabled: boolean;
+  edit_enabled: boolean;
+  delete_enabled: boolean;
+  is_active: boolean;
+}
+
+export interface FileUploadRow extends BaseRow {
+  file_name: string;
+  file_size: number;
+  file_type: string;
+  store_file_id: number;
+  uploaded_by: number;
+  upload_date: string;
+  associated_table: string;
+  associated_record_id: number;
+  file_category: string;
+  is_active: boolean;
+  description: string;
+  file_url: string;
+}
+
+export interface ScheduledJobRow extends BaseRow {
+  job_key: string;
+  job_type: string;
+  description: string;
+  interval_minutes: number | null;
+  payload: Record<string, any>;
+  is_active: boolean;
+  next_run_at: string;
+  last_run_at: string | null;
+  last_status: string | null;
+  locked_by: string | null;
+  locked_until: string | null;
+  created_by: string | null;
+}
+
+export interface JobRunRow extends BaseRow {
+  job_id: number;
+  job_type: string;
+  scheduled_for: string;
+  status: 'running' | 'succeeded' | 'failed';
+  worker_id: string;
+  started_at: string;
+  finished_at: string | null;
+  result: Record<string, any> | null;
+  error_message: string | null;
+}
+
+export interface TankStickReadingRow extends BaseRow {
+  station: string;
+  reading_date: string;
+  grade: string;
+  stick_gallons: number;
+  water_inches: number;
+  notes: string;
+  recorded_by: string;
+  source: 'manual' | 'veeder_root';
+  delivery_increase_gallons: number;
+  source_file_id: string | null;
+}
+
+export interface TankVarianceThresholdRow extends BaseRow {
+  station: string;
+  daily_variance_gallons: number;
+  cumulative_variance_gallons: number;
+  cumulative_variance_percent: number;
+}
+
+export interface StationFuelGradeRow extends BaseRow {
+  station: string;
+  grade: string;
+  label: string;
+  is_blended: boolean;
+  blend_low_grade: string | null;
+  blend_high_grade: string | null;
+  blend_high_percent: number | null;
+  sort_order: number;
+}
+
+export interface StationFuelTankRow extends BaseRow {
+  station: string;
+  tank_number: number;
+  grade: string;
+  capacity_gallons: number;
+}
+
+export interface FuelPriceRow extends BaseRow {
+  station: string;
+  grade: string;
+  price_per_gallon: number;
+  effective_date: string;
+  changed_by: string;
+  notes: string | null;
+}
+
+export interface SalesReportReviewRow extends BaseRow {
+  report_id: number;
+  station: string;
+  report_date: string;
+  action: string;
+  from_status: string | null;
+  to_status: string;
+  comment: string | null;
+  performed_by: string;
+  performed_at: string;
+}
+
+export interface BankDepositRow extends BaseRow {
+  station: string;
+  deposit_date: string;
+  bag_number: string;
+  amount: number;
+  report_ids: number[];
+  receipt_url: string | null;
+  receipt_file_name: string | null;
+  notes: string | null;
+  deposited_by: string;
+}
+
+export interface CardSettlementRow extends BaseRow {
+  station: string;
+  business_date: string;
+  settlement_date: string | null;
+  processor: string | null;
+  batch_number: string;
+  card_type: string;
+  record_type: string;
+  gross_amount: number;
+  fee_amount: number | null;
+  net_amount: number | null;
+  transaction_count: number | null;
+  reference: string | null;
+  source_file_name: string | null;
+  imported_by: string;
+  imported_at: string;
+}
+
+export interface SecuritySettingRow extends BaseRow {
+  settings: Record<string, any>;
+  updated_by: string | null;
+}
+
+export interface EmailDeliveryLogRow extends BaseRow {
+  message_id: string;
+  from_address: string;
+  recipients: string;
+  subject: string;
+  transport: string;
+  status: 'Sent' | 'Failed';
+  attempts: number;
+  attachment_count: number;
+  provider_message_id: string | null;
+  error_message: string | null;
+  email_type: string;
+  sent_by_user_id: string | null;
+  sent_at: string;
+}
+
+export interface EmailTemplateRow extends BaseRow {
+  template_name: string;
+  template_type: string;
+  subject: string;
+  html_content: string;
+  text_content: string;
+  variables: string;
+  preview_data: string;
+  is_active: boolean;
+  created_by: string | null;
+  /** Read-only, from email_templates_view */
+  usage_count?: number;
+  last_used?: string | null;
+}
+
+export interface EmailAutomationRow extends BaseRow {
+  automation_name: string;
+  email_type: string;
+  is_active: boolean;
+  from_email: string;
+  from_name: string;
+  trigger_condition: 'days_before_expiry' | 'daily_schedule';
+  trigger_value: number;
+  frequency_hours: number;
+  template_id: number | null;
+  recipient_groups: string;
+  last_run: string | null;
+  next_run: string | null;
+  created_by: string | null;
+  /** Read-only send history, from email_automations_view */
+  total_sent?: number;
+  total_failed?: number;
+  success_rate?: number;
+  last_sent_at?: string | null;
+}
+
+export interface EmailAutomationLogRow extends BaseRow {
+  automation_id: number;
+  template_id: number | null;
+  reference_key: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  subject: string;
+  status: 'Sent' | 'Failed';
+  error_message: string | null;
+  message_id: string | null;
+  sent_at: string;
+}
+
+export interface TableDefinition<Row = any> {
+  /** Legacy table ID used by window.ezsite.apis callers */
+  id: number | string;
+  /** Additional legacy IDs that resolve to the same table */
+  aliases?: readonly (number | string)[];
+  /** Table (or view) used for reads */
+  table: string;
+  /** Base table used for writes when reads go through a view */
+  writeTable?: string;
+  columns: readonly (keyof Row & string)[];
+  description: string;
+}
+
+const defineTable = <Row>(definition: TableDefinition<Row>): TableDefinition<Row> => definition;
+
+export const TABLE_REGISTRY = {
+  userProfiles: defineTable<UserProfileRow>({
+    id: 11725,
+    table: 'user_profiles',
+    columns: ['user_id', 'role', 'station', 'employee_id', 'phone', 'hire_date', 'is_active', 'detailed_permissions', 'profile_image_id', 'preferences'],
+    description: 'User profiles with UUID foreign keys'
+  }),
+  products: defineTable<ProductRow>({
+    id: 11726,
+    table: 'products',
+    columns: [
+    'product_name', 'product_code', 'category', 'department', 'description', 'supplier', 'serial_number',
+    'merchant_id', 'bar_code_case', 'bar_code_unit', 'quantity_in_stock', 'minimum_stock', 'weight',
+    'weight_unit', 'price', 'case_price', 'unit_per_case', 'unit_price', 'retail_price',
+    'last_updated_date', 'last_shopping_date', 'overdue', 'created_by'],
+    description: 'Products management'
+  }),
+  employees: defineTable<EmployeeRow>({
+    id: 11727,
+    table: 'employees_view',
+    writeTable: 'employees',
+    columns: [
+    'employee_id', 'first_name', 'last_name', 'email', 'phone', 'position', 'station', 'shift', 'hire_date',
+    'salary', 'is_active', 'employment_status', 'date_of_birth', 'current_address', 'mailing_address',
+    'reference_name', 'id_document_type', 'profile_image_id', 'id_document_file_id', 'id_document_2_file_id',
+    'id_document_3_file_id', 'id_document_4_file_id', 'created_by'],
+    description: 'Employee management (reads use the compatibility view)'
+  }),
+  vendors: defineTable<VendorRow>({
+    id: 11729,
+    table: 'vendors',
+    columns: ['vendor_name', 'contact_person', 'email', 'phone', 'address', 'category', 'payment_terms', 'is_active', 'created_by'],
+    description: 'Vendor management'
+  }),
+  orders: defineTable<OrderRow>({
+    id: 11730,
+    table: 'orders',
+    columns: ['order_number', 'vendor_id', 'order_date', 'expected_delivery', 'station', 'total_amount', 'status', 'notes', 'created_by'],
+    description: 'Purchase orders'
+  }),
+  licenses: defineTable<LicenseRow>({
+    id: 11731,
+    table: 'licenses',
+    columns: [
+    'license_name', 'license_number', 'issuing_authority', 'issue_date', 'expiry_date', 'station',
+    'category', 'status', 'document_file_id', 'created_by'],
+    description: 'License tracking'
+  }),
+  productLogs: defineTable<ProductLogRow>({
+    id: 11756,
+    table: 'product_logs_view',
+    writeTable: 'product_logs',
+    columns: ['product_id', 'field_name', 'old_value', 'new_value', 'change_date', 'changed_by', 'changed_by_name'],
+    description: 'Product field change logs, recorded by a trigger on products (reads include the product name)'
+  }),
+  salaryRecords: defineTable<SalaryRecordRow>({
+    id: 11788,
+    table: 'salary_records',
+    columns: [
+    'employee_id', 'pay_period_start', 'pay_period_end', 'pay_date', 'pay_frequency', 'hourly_rate',
+    'regular_hours', 'assign_hours', 'overtime_hours', 'overtime_rate', 'overtime_pay', 'bonus_amount',
+    'commission', 'gross_pay', 'federal_tax', 'state_tax', 'social_security', 'medicare',
+    'health_insurance', 'retirement_401k', 'other_deductions', 'total_deductions', 'net_pay',
+    'station', 'status', 'notes', 'created_by'],
+    description: 'Employee salary and payroll records'
+  }),
+  deliveries: defineTable<DeliveryRow>({
+    id: 12196,
+    table: 'deliveries',
+    columns: [
+    'delivery_date', 'bol_number', 'station', 'regular_tank_volume', 'plus_tank_volume', 'super_tank_volume',
+    'regular_delivered', 'plus_delivered', 'super_delivered', 'fuel_deliveries', 'price_per_gallon', 'delivery_notes', 'created_by'],
+    description: 'Delivery management'
+  }),
+  afterDeliveryTankReports: defineTable<AfterDeliveryTankReportRow>({
+    id: 12331,
+    table: 'after_delivery_tank_reports',
+    columns: [
+    'report_date', 'station', 'delivery_record_id', 'bol_number', 'regular_tank_final',
+    'plus_tank_final', 'super_tank_final', 'tank_finals', 'created_by'],
+    description: 'Tank readings taken after a fuel delivery'
+  }),
+  salesReports: defineTable<SalesReportRow>({
+    id: 12356,
+    table: 'sales_reports',
+    columns: [
+    'report_date', 'station', 'shift', 'employee_name', 'employee_id', 'cash_collection_on_hand', 'total_short_over',
+    'credit_card_amount', 'debit_card_amount', 'mobile_amount', 'cash_amount', 'grocery_sales', 'ebt_sales',
+    'lottery_net_sales', 'scratch_off_sales', 'lottery_total_cash', 'regular_gallons', 'super_gallons',
+    'diesel_gallons', 'fuel_gallons', 'total_gallons', 'expenses_data', 'day_report_file_id', 'veeder_root_file_id',
+    'lotto_report_file_id', 'scratch_off_report_file_id', 'total_sales', 'notes', 'created_by', 'status',
+    'submitted_by', 'submitted_at', 'approved_by', 'approved_at', 'review_comment'],
+    description: 'Sales reporting'
+  }),
+  stations: defineTable<StationRow>({
+    id: 12599,
+    table: 'stations',
+    columns: ['station_name', 'address', 'phone', 'operating_hours', 'manager_name', 'status', 'last_updated', 'created_by'],
+    description: 'Station management'
+  }),
+  alertSettings: defineTable<AlertSettingRow>({
+    id: 12611,
+    table: 'alert_settings',
+    columns: [
+    'setting_name', 'days_before_expiry', 'alert_frequency_days', 'is_active', 'message_template', 'created_by',
+    'alert_type', 'station', 'threshold_amount', 'rolling_threshold_amount', 'rolling_days'],
+    description: 'Alert configuration'
+  }),
+  smsContacts: defineTable<SmsContactRow>({
+    id: 12612,
+    table: 'sms_contacts',
+    columns: ['contact_name', 'mobile_number', 'station', 'is_active', 'contact_role', 'opt_out', 'opted_out_at', 'created_by'],
+    description: 'SMS contact management'
+  }),
+  alertHistory: defineTable<AlertHistoryRow>({
+    id: 12613,
+    table: 'alert_history',
+    columns: [
+    'license_id', 'contact_id', 'mobile_number', 'message_content', 'days_before_expiry',
+    'sent_date', 'delivery_status', 'created_by', 'alert_type', 'station', 'employee_id', 'sales_report_id', 'amount'],
+    description: 'Alert history'
+  }),
+  auditLogs: defineTable<AuditLogRow>({
+    id: 12706,
+    table: 'audit_logs',
+    columns: [
+    'event_type', 'event_status', 'event_timestamp', 'risk_level', 'ip_address', 'user_agent', 'session_id',
+    'username', 'user_id', 'action_performed', 'additional_data', 'sensitive_fields_removed'],
+    description: 'Audit logging'
+  }),
+  smsSettings: defineTable<SmsSettingRow>({
+    id: 24061,
+    table: 'sms_settings',
+    columns: ['setting_name', 'setting_value', 'description', 'is_emergency', 'is_active'],
+    description: 'SMS provider settings'
+  }),
+  smsHistory: defineTable<SmsHistoryRow>({
+    id: 24062,
+    aliases: [24202],
+    table: 'sms_history',
+    columns: [
+    'recipient_phone', 'message_content', 'sender_name', 'status', 'sent_at', 'message_id',
+    'clicksend_message_id', 'cost', 'error_message', 'message_type', 'sent_by_user_id'],
+    description: 'SMS delivery history'
+  }),
+  smsConfig: defineTable<SmsConfigRow>({
+    id: 24201,
+    table: 'sms_config',
+    columns: ['service_name', 'username', 'api_key', 'from_number', 'test_mode', 'is_enabled', 'daily_limit', 'webhook_url'],
+    description: 'SMS configuration'
+  }),
+  moduleAccess: defineTable<ModuleAccessRow>({
+    id: 25712,
+    table: 'module_access',
+    columns: ['user_id', 'module_name', 'display_name', 'create_enabled', 'edit_enabled', 'delete_enabled', 'is_active'],
+    description: 'Module permissions'
+  }),
+  fileUploads: defineTable<FileUploadRow>({
+    id: 26928,
+    table: 'file_uploads',
+    columns: [
+    'file_name', 'file_size', 'file_type', 'store_file_id', 'uploaded_by', 'upload_date', 'associated_table',
+    'associated_record_id', 'file_category', 'is_active', 'description', 'file_url'],
+    description: 'File upload tracking'
+  }),
+  orderItems: defineTable<OrderItemRow>({
+    id: 27001,
+    table: 'order_items',
+    columns: [
+    'order_id', 'line_number', 'product_id', 'product_name', 'product_code', 'unit_type',
+    'units_per_case', 'quantity', 'unit_cost', 'subtotal', 'quantity_received'],
+    description: 'Purchase order line items'
+  }),
+  orderReceipts: defineTable<OrderReceiptRow>({
+    id: 27002,
+    table: 'order_receipts',
+    columns: [
+    'receipt_number', 'order_id', 'order_item_id', 'product_id', 'quantity_received', 'units_added',
+    'unit_cost', 'backorder_quantity', 'received_by', 'received_at', 'notes'],
+    description: 'Purchase order receiving records'
+  }),
+  scheduledJobs: defineTable<ScheduledJobRow>({
+    id: 27003,
+    table: 'scheduled_jobs',
+    columns: [
+    'job_key', 'job_type', 'description', 'interval_minutes', 'payload', 'is_active', 'next_run_at',
+    'last_run_at', 'last_status', 'locked_by', 'locked_until', 'created_by'],
+    description: 'Durable job scheduler'
+  }),
+  jobRuns: defineTable<JobRunRow>({
+    id: 27004,
+    table: 'job_runs',
+    columns: [
+    'job_id', 'job_type', 'scheduled_for', 'status', 'worker_id', 'started_at', 'finished_at', 'result',
+    'error_message'],
+    description: 'Scheduled job run records'
+  }),
+  licenseRenewals: defineTable<LicenseRenewalRow>({
+    id: 27005,
+    table: 'license_renewals',
+    columns: [
+    'license_id', 'station', 'previous_issue_date', 'previous_expiry_date', 'new_issue_date', 'new_expiry_date',
+    'renewal_cost', 'payment_date', 'payment_reference', 'notes', 'renewed_by', 'renewed_at'],
+    description: 'License renewal history'
+  }),
+  licenseDocuments: defineTable<LicenseDocumentRow>({
+    id: 27006,
+    table: 'license_documents',
+    columns: [
+    'license_id', 'renewal_id', 'version_number', 'document_file_id', 'document_url', 'file_name', 'valid_from',
+    'valid_until', 'is_current', 'uploaded_by', 'uploaded_at'],
+    description: 'License certificate versions'
+  }),
+  tankStickReadings: defineTable<TankStickReadingRow>({
+    id: 27007,
+    table: 'tank_stick_readings',
+    columns: ['station', 'reading_date', 'grade', 'stick_gallons', 'water_inches', 'notes', 'recorded_by', 'source', 'delivery_increase_gallons', 'source_file_id'],
+    description: 'Daily closing tank stick readings'
+  }),
+  tankVarianceThresholds: defineTable<TankVarianceThresholdRow>({
+    id: 27008,
+    table: 'tank_variance_thresholds',
+    columns: ['station', 'daily_variance_gallons', 'cumulative_variance_gallons', 'cumulative_variance_percent'],
+    description: 'Tank variance alert thresholds'
+  }),
+  stationFuelGrades: defineTable<StationFuelGradeRow>({
+    id: 27009,
+    table: 'station_fuel_grades',
+    columns: ['station', 'grade', 'label', 'is_blended', 'blend_low_grade', 'blend_high_grade', 'blend_high_percent', 'sort_order'],
+    description: 'Fuel grades sold at each station'
+  }),
+  stationFuelTanks: defineTable<StationFuelTankRow>({
+    id: 27010,
+    table: 'station_fuel_tanks',
+    columns: ['station', 'tank_number', 'grade', 'capacity_gallons'],
+    description: 'Fuel tanks at each station'
+  }),
+  fuelPrices: defineTable<FuelPriceRow>({
+    id: 27011,
+    table: 'fuel_prices',
+    columns: ['station', 'grade', 'price_per_gallon', 'effective_date', 'changed_by', 'notes'],
+    description: 'Effective-dated pump prices per station and grade'
+  }),
+  salesReportReviews: defineTable<SalesReportReviewRow>({
+    id: 27012,
+    table: 'sales_report_reviews',
+    columns: [
+    'report_id', 'station', 'report_date', 'action', 'from_status', 'to_status', 'comment', 'performed_by',
+    'performed_at'],
+    description: 'Sales report submit, approve, reject and reopen history'
+  }),
+  bankDeposits: defineTable<BankDepositRow>({
+    id: 27013,
+    table: 'bank_deposits',
+    columns: [
+    'station', 'deposit_date', 'bag_number', 'amount', 'report_ids', 'receipt_url', 'receipt_file_name', 'notes',
+    'deposited_by'],
+    description: 'Bank deposit slips and the shift reports they cover'
+  }),
+  cardSettlements: defineTable<CardSettlementRow>({
+    id: 27014,
+    table: 'card_settlements',
+    columns: [
+    'station', 'business_date', 'settlement_date', 'processor', 'batch_number', 'card_type', 'record_type',
+    'gross_amount', 'fee_amount', 'net_amount', 'transaction_count', 'reference', 'source_file_name', 'imported_by',
+    'imported_at'],
+    description: 'Card processor settlement batches imported from CSV'
+  }),
+  securitySettings: defineTable<SecuritySettingRow>({
+    id: 27015,
+    table: 'security_settings',
+    columns: ['settings', 'updated_by'],
+    description: 'Security policy settings (single row)'
+  }),
+  emailDeliveryLog: defineTable<EmailDeliveryLogRow>({
+    id: 27016,
+    table: 'email_delivery_log',
+    columns: [
+    'message_id', 'from_address', 'recipients', 'subject', 'transport', 'status', 'attempts',
+    'attachment_count', 'provider_message_id', 'error_message', 'email_type', 'sent_by_user_id', 'sent_at'],
+    description: 'Email delivery log written by the email-relay function'
+  }),
+  emailTemplates: defineTable<EmailTemplateRow>({
+    id: 27017,
+    table: 'email_templates_view',
+    writeTable: 'email_templates',
+    columns: [
+    'template_name', 'template_type', 'subject', 'html_content', 'text_content', 'variables', 'preview_data',
+    'is_active', 'created_by'],
+    description: 'Email templates (reads include usage from the send log)'
+  }),
+  emailAutomations: defineTable<EmailAutomationRow>({
+    id: 27018,
+    table: 'email_automations_view',
+    writeTable: 'email_automations',
+    columns: [
+    'automation_name', 'email_type', 'is_active', 'from_email', 'from_name', 'trigger_condition', 'trigger_value',
+    'frequency_hours', 'template_id', 'recipient_groups', 'last_run', 'next_run', 'created_by'],
+    description: 'Email automations (reads include send history)'
+  }),
+  emailAutomationLogs: defineTable<EmailAutomationLogRow>({
+    id: 27019,
+    table: 'email_automation_logs',
+    columns: [
+    'automation_id', 'template_id', 'reference_key', 'recipient_email', 'recipient_name', 'subject', 'status',
+    'error_message', 'message_id', 'sent_at'],
+    description: 'Email automation send log written by the job worker'
+  }),
+  authUsers: defineTable<{id: string;email: string;}>({
+    id: 'User',
+    table: 'auth.users',
+    columns: ['id', 'email'],
+    description: 'Supabase auth users (explicitly qualified)'
+  })
+};
+
+export type TableKey = keyof typeof TABLE_REGISTRY;
+
+export type TableRow<K extends TableKey> = (typeof TABLE_REGISTRY)[K] extends TableDefinition<infer Row> ? Row : never;
+
+/**
+ * Legacy table IDs by logical entity, for callers still using window.ezsite.apis
+ */
+export const TABLE_IDS = Object.fromEntries(
+  Object.entries(TABLE_REGISTRY).map(([key, definition]) => [key, definition.id])
+) as {[K in TableKey]: (typeof TABLE_REGISTRY)[K]['id']};
+
+/**
+ * Raised when a table ID is not registered. Callers get this message verbatim
+ * instead of a generic error so missing registrations are caught immediately.
+ */
+export class UnknownTableIdError extends Error {
+  constructor(public readonly tableId: string | number) {
+    super(`Unknown table ID: ${tableId}. Register it in services/supabase/tableRegistry.ts before using it.`);
+    this.name = 'UnknownTableIdError';
+  }
+}
+
+const definitionsById = new Map<string, TableDefinition>();
+Object.values(TABLE_REGISTRY).forEach((definition: TableDefinition) => {
+  [definition.id, ...(definition.aliases || [])].forEach((id) => {
+    definitionsById.set(String(id), definition);
+  });
+});
+
+export const findTableDefinition = (tableId: string | number): TableDefinition | undefined => {
+  return definitionsById.get(String(tableId));
+};
+
+/**
+ * Resolve a legacy table ID to its Supabase table name.
+ * Throws UnknownTableIdError for IDs that are not registered.
+ */
+export const resolveTableName = (tableId: string | number, forWrite: boolean = false): string => {
+  const definition = findTableDefinition(tableId);
+  if (!definition) {
+    throw new UnknownTableIdError(tableId);
+  }
+  return forWrite && definition.writeTable ? definition.writeTable : definition.table;
+};
+
+export const getRegisteredTableIds = (): string[] => Array.from(definitionsById.keys());
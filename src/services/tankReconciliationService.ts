@@ -0,0 +1,167 @@
+// Tank inventory reconciliation: stores daily closing stick readings and builds
+// the book-vs-stick ledger from deliveries (12196) and sales reports (12356).
+
+import {
+  deliveryRepository,
+  salesReportRepository,
+  tankStickReadingRepository,
+  tankVarianceThresholdRepository } from
+'./repositories';
+import type { TankStickReadingRow, TankVarianceThresholdRow } from './supabase/tableRegistry';
+import {
+  buildTankLedger,
+  deliveriesToMovements,
+  resolveThresholds,
+  salesToMovements,
+  TankLedgerEntry,
+  VarianceThresholds } from
+'@/utils/tankReconciliation';
+import type { GradeTankLevel } from '@/utils/veederRoot';
+import { FuelGradeConfig, getTankGrades } from '@/utils/fuelGrades';
+import { fuelConfigurationService } from './fuelConfigurationService';
+
+export interface TankReconciliation {
+  grades: FuelGradeConfig[];
+  thresholds: VarianceThresholds;
+  ledgers: Record<string, TankLedgerEntry[]>;
+}
+
+const endOfDay = (date: string) => `${date}T23:59:59`;
+
+class TankReconciliationService {
+  async getThresholdRows(): Promise<TankVarianceThresholdRow[]> {
+    return tankVarianceThresholdRepository.findAll();
+  }
+
+  async getThresholds(station: string): Promise<VarianceThresholds> {
+    return resolveThresholds(await this.getThresholdRows(), station);
+  }
+
+  /**
+   * Save thresholds for a station (or 'ALL' for the default)
+   */
+  async saveThresholds(station: string, thresholds: VarianceThresholds): Promise<{error: string | null;}> {
+    const existing = await tankVarianceThresholdRepository.findOne(
+      tankVarianceThresholdRepository.where().equal('station', station)
+    );
+    return existing?.id ?
+    tankVarianceThresholdRepository.update(existing.id, thresholds) :
+    tankVarianceThresholdRepository.create({ station, ...thresholds });
+  }
+
+  async getReadings(station: string, fromDate: string, toDate: string): Promise<TankStickReadingRow[]> {
+    return tankStickReadingRepository.findAll({
+      filters: tankStickReadingRepository.where().
+      equal('station', station).
+      greaterThanOrEqual('reading_date', fromDate).
+      lessThanOrEqual('reading_date', toDate),
+      orderBy: 'reading_date',
+      ascending: true
+    });
+  }
+
+  private async upsertReading(
+  station: string,
+  readingDate: string,
+  grade: string,
+  data: Partial<TankStickReadingRow>)
+  : Promise<{error: string | null;}> {
+    const existing = await tankStickReadingRepository.findOne(
+      tankStickReadingRepository.where().equal('station', station).equal('reading_date', readingDate).equal('grade', grade)
+    );
+    return existing?.id ?
+    tankStickReadingRepository.update(existing.id, data) :
+    tankStickReadingRepository.create({ station, reading_date: readingDate, grade, ...data });
+  }
+
+  /**
+   * Record closing stick readings for a day; an existing reading for the same
+   * station, grade and day is replaced
+   */
+  async saveReadings(
+  station: string,
+  readingDate: string,
+  gallonsByGrade: Partial<Record<string, number>>,
+  recordedBy: string)
+  : Promise<{error: string | null;}> {
+    for (const [grade, gallons] of Object.entries(gallonsByGrade)) {
+      if (gallons === undefined || gallons === null || isNaN(gallons)) continue;
+      if (gallons < 0) {
+        return { error: `Stick reading for ${grade} cannot be negative` };
+      }
+
+      const { error } = await this.upsertReading(station, readingDate, grade, {
+        stick_gallons: gallons,
+        recorded_by: recordedBy,
+        source: 'manual'
+      });
+      if (error) return { error };
+    }
+    return { error: null };
+  }
+
+  /**
+   * Record tank levels the operator confirmed from a Veeder-Root report as the
+   * day's readings
+   */
+  async saveTankLevels(
+  station: string,
+  readingDate: string,
+  levels: GradeTankLevel[],
+  recordedBy: string,
+  sourceFileId?: number | string | null)
+  : Promise<{error: string | null;}> {
+    for (const level of levels) {
+      if (level.volume < 0 || level.waterInches < 0) {
+        return { error: `Tank level for ${level.grade} cannot be negative` };
+      }
+
+      const { error } = await this.upsertReading(station, readingDate, level.grade, {
+        stick_gallons: level.volume,
+        water_inches: level.waterInches,
+        delivery_increase_gallons: level.deliveryIncrease,
+        notes: `Veeder-Root tank ${level.tanks.join(', ')}`,
+        recorded_by: recordedBy,
+        source: 'veeder_root',
+        source_file_id: sourceFileId ? String(sourceFileId) : null
+      });
+      if (error) return { error };
+    }
+    return { error: null };
+  }
+
+  /**
+   * Ledger per grade for a station over a date range. The first reading in the
+   * range opens the ledger, so cumulative variance covers the selected period.
+   */
+  async getReconciliation(station: string, fromDate: string, toDate: string): Promise<TankReconciliation> {
+    const [readings, deliveries, sales, thresholds, configuration] = await Promise.all([
+    this.getReadings(station, fromDate, toDate),
+    deliveryRepository.findAll({
+      filters: deliveryRepository.where().
+      equal('station', station).
+      greaterThanOrEqual('delivery_date', fromDate).
+      lessThanOrEqual('delivery_date', endOfDay(toDate))
+    }),
+    salesReportRepository.findAll({
+      filters: salesReportRepository.where().
+      equal('station', station).
+      greaterThanOrEqual('report_date', fromDate).
+      lessThanOrEqual('report_date', endOfDay(toDate))
+    }),
+    this.getThresholds(station),
+    fuelConfigurationService.getConfiguration(station)]
+    );
+
+    const grades = getTankGrades(configuration);
+    const deliveryMovements = deliveriesToMovements(deliveries);
+    const salesMovements = salesToMovements(sales, configuration.grades);
+    const ledgers = Object.fromEntries(
+      grades.map(({ grade }) => [grade, buildTankLedger(station, grade, readings, deliveryMovements, salesMovements, thresholds)])
+    );
+    return { grades, thresholds, ledgers };
+  }
+}
+
+// Export singleton instance
+export const tankReconciliationService = new TankReconciliationService();
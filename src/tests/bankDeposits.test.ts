@@ -0,0 +1,89 @@
+import { describe, test, expect } from '@jest/globals';
+import { BankDeposit, DepositReport, reconcileDeposits, validateDeposit } from '@/utils/bankDeposits';
+
+const report = (id: number, date: string, cash: number, station = 'MOBIL'): DepositReport => ({
+  id,
+  report_date: `${date}T00:00:00`,
+  station,
+  shift: 'DAY',
+  employee_name: 'Alex Smith',
+  cash_collection_on_hand: cash
+});
+
+const deposit = (id: number, date: string, amount: number, reportIds: number[], station = 'MOBIL'): BankDeposit => ({
+  id,
+  station,
+  deposit_date: date,
+  bag_number: `B${id}`,
+  amount,
+  report_ids: reportIds
+});
+
+const period = { from: '2026-10-01', to: '2026-10-10' };
+
+describe('bank deposit reconciliation', () => {
+  test('deposits match the cash collected on the reports they list', () => {
+    const result = reconcileDeposits(
+      [report(1, '2026-10-01', 500), report(2, '2026-10-02', 300.25)],
+      [deposit(1, '2026-10-03', 800.25, [1, 2])],
+      period
+    );
+
+    expect(result.deposits[0]).toMatchObject({ expected: 800.25, variance: 0, matched: true });
+    expect(result.stations[0]).toMatchObject({ collected: 800.25, deposited: 800.25, undeposited: 0, mismatchedCount: 0 });
+  });
+
+  test('short deposits and deleted reports are flagged as mismatched', () => {
+    const result = reconcileDeposits(
+      [report(1, '2026-10-01', 500), report(2, '2026-10-02', 300)],
+      [deposit(1, '2026-10-03', 480, [1]), deposit(2, '2026-10-04', 300, [2, 99])],
+      period
+    );
+
+    const [later, earlier] = result.deposits;
+    expect(earlier).toMatchObject({ variance: -20, matched: false });
+    expect(later).toMatchObject({ variance: 0, matched: false, missingReportIds: [99] });
+    expect(result.stations[0].mismatchedCount).toBe(2);
+  });
+
+  test('undeposited cash is overdue after the grace period', () => {
+    const result = reconcileDeposits(
+      [report(1, '2026-10-02', 200), report(2, '2026-10-08', 150), report(3, '2026-10-09', 0)],
+      [],
+      period
+    );
+
+    expect(result.undeposited.map((item) => [item.report.id, item.daysOutstanding, item.overdue])).toEqual([
+    [1, 8, true],
+    [2, 2, false]]
+    );
+    expect(result.stations[0]).toMatchObject({ undeposited: 350, overdueCount: 1 });
+  });
+
+  test('reports outside the period only price the deposits that list them', () => {
+    const result = reconcileDeposits(
+      [report(1, '2026-09-30', 100), report(2, '2026-10-01', 50)],
+      [deposit(1, '2026-10-01', 150, [1, 2])],
+      period
+    );
+
+    expect(result.deposits[0].matched).toBe(true);
+    expect(result.stations[0].collected).toBe(50);
+  });
+});
+
+describe('bank deposit validation', () => {
+  const reports = [report(1, '2026-10-01', 500), report(2, '2026-10-02', 300, 'AMOCO')];
+  const input = { station: 'MOBIL', deposit_date: '2026-10-02', bag_number: 'B7', amount: 500, report_ids: [1] };
+
+  test('accepts a deposit of the station\'s own undeposited shifts', () => {
+    expect(validateDeposit(input, reports, [])).toBeNull();
+  });
+
+  test('rejects shifts from another station, later shifts and reports already deposited', () => {
+    expect(validateDeposit({ ...input, report_ids: [2] }, reports, [])).toMatch(/AMOCO/);
+    expect(validateDeposit({ ...input, deposit_date: '2026-09-30' }, reports, [])).toMatch(/before/);
+    expect(validateDeposit(input, reports, [deposit(5, '2026-10-01', 500, [1])])).toMatch(/already on another deposit/);
+    expect(validateDeposit(input, reports, [{ ...deposit(5, '2026-09-20', 90, []), bag_number: 'b7' }])).toMatch(/Bag B7/);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, test, expect } from '@jest/globals';
+import { decodeImage, expandUpcE, isValidCheckDigit } from '@/utils/barcodeDecoder';
+import { code128Modules, ean13Modules, ean8Modules, renderBarcode, upcEModules } from './fixtures/barcodeImages';
+
+describe('check digits', () => {
+  test('GTIN check digits and UPC-E expansion', () => {
+    expect(isValidCheckDigit('4006381333931')).toBe(true);
+    expect(isValidCheckDigit('4006381333932')).toBe(false);
+    expect(isValidCheckDigit('036000291452')).toBe(true);
+    expect(expandUpcE('01234565')).toBe('012345000065');
+    expect(expandUpcE('04252614')).toBe('042100005264');
+  });
+});
+
+describe('UPC/EAN decoding', () => {
+  test('EAN-13 and UPC-A', () => {
+    expect(decodeImage(renderBarcode(ean13Modules('4006381333931')))).toEqual({ text: '4006381333931', format: 'EAN_13' });
+    expect(decodeImage(renderBarcode(ean13Modules('0036000291452'), { moduleWidth: 2.6, noise: 30, gradient: 60 }))).
+    toEqual({ text: '036000291452', format: 'UPC_A' });
+  });
+
+  test('EAN-8 and UPC-E', () => {
+    expect(decodeImage(renderBarcode(ean8Modules('96385074'), { moduleWidth: 2 }))).toEqual({ text: '96385074', format: 'EAN_8' });
+    expect(decodeImage(renderBarcode(upcEModules('01234565'), { moduleWidth: 3.3, noise: 20 }))).toEqual({ text: '01234565', format: 'UPC_E' });
+  });
+
+  test('upside-down symbols are read and bad check digits rejected', () => {
+    expect(decodeImage(renderBarcode(ean13Modules('4006381333931'), { mirrored: true }))).toEqual({ text: '4006381333931', format: 'EAN_13' });
+    expect(decodeImage(renderBarcode(ean13Modules('4006381333932')))).toBeNull();
+  });
+});
+
+describe('Code 128 decoding', () => {
+  test('code set B text', () => {
+    const values = [104, 36, 38, 51, 13, 17, 16, 20, 18, 62, 106];
+    expect(decodeImage(renderBarcode(code128Modules(values), { moduleWidth: 2.4, noise: 25, gradient: 50 }))).
+    toEqual({ text: 'DFS-1042', format: 'CODE_128' });
+  });
+
+  test('code set C digits, and a wrong checksum is rejected', () => {
+    expect(decodeImage(renderBarcode(code128Modules([105, 12, 34, 56, 78, 47, 106]), { mirrored: true }))).
+    toEqual({ text: '12345678', format: 'CODE_128' });
+    expect(decodeImage(renderBarcode(code128Modules([105, 12, 34, 56, 78, 12, 106])))).toBeNull();
+  });
+
+  test('blank frames decode to nothing', () => {
+    expect(decodeImage(renderBarcode('', { noise: 20 }))).toBeNull();
+  });
+});
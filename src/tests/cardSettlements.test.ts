@@ -0,0 +1,105 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  CardReport,
+  parseCardType,
+  parseSettlementCsv,
+  reconcileCardSettlements,
+  SettlementRecord } from
+'@/utils/cardSettlements';
+import { parseAmount, parseCsv } from '@/utils/csv';
+
+const settlement = (overrides: Partial<SettlementRecord>): SettlementRecord => ({
+  station: 'MOBIL',
+  business_date: '2026-10-01',
+  settlement_date: '2026-10-03',
+  processor: null,
+  batch_number: '101',
+  card_type: 'credit',
+  record_type: 'sale',
+  gross_amount: 0,
+  fee_amount: 0,
+  net_amount: null,
+  transaction_count: null,
+  reference: null,
+  ...overrides
+});
+
+const report = (date: string, credit: number, debit = 0, mobile = 0, station = 'MOBIL'): CardReport => ({
+  report_date: `${date}T00:00:00`,
+  station,
+  credit_card_amount: credit,
+  debit_card_amount: debit,
+  mobile_amount: mobile
+});
+
+describe('settlement CSV parsing', () => {
+  test('quoted fields keep their commas and escaped quotes', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\n')).toEqual([['a', 'b, c', 'say "hi"'], ['1', '2', '3']]);
+  });
+
+  test('amounts, card brands and processor headers are recognised', () => {
+    expect(parseAmount('$1,234.50')).toBe(1234.5);
+    expect(parseAmount('(12.00)')).toBe(-12);
+    expect(parseCardType('Mastercard Debit')).toBe('debit');
+    expect(parseCardType('AMEX')).toBe('credit');
+    expect(parseCardType('Apple Pay')).toBe('mobile');
+
+    const { records, errors } = parseSettlementCsv(
+      [
+      'Batch Date,Settlement Date,Batch #,Card Brand,Transaction Type,Gross Amount,Fees,Case Number',
+      '10/01/2026,10/03/2026,101,Visa,Sale,"$1,000.00",25.10,',
+      '10/01/2026,10/03/2026,101,Visa,Chargeback,75.00,,CB-9',
+      '10/01/2026,10/03/2026,101,Gift Card,Sale,10.00,,'].
+      join('\n'),
+      'MOBIL',
+      'Worldpay'
+    );
+
+    expect(errors).toEqual(['Line 4: unknown card type "Gift Card"']);
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      station: 'MOBIL', business_date: '2026-10-01', settlement_date: '2026-10-03', processor: 'Worldpay',
+      card_type: 'credit', record_type: 'sale', gross_amount: 1000, fee_amount: 25.1
+    });
+    expect(records[1]).toMatchObject({ record_type: 'chargeback', gross_amount: -75, reference: 'CB-9' });
+  });
+
+  test('files without a station column need a station to be chosen', () => {
+    const { records, errors } = parseSettlementCsv('Date,Batch,Card Type,Amount\n2026-10-01,7,Debit,5', 'ALL');
+
+    expect(records).toHaveLength(0);
+    expect(errors[0]).toMatch(/select the station/);
+  });
+});
+
+describe('card settlement reconciliation', () => {
+  test('shift totals for the day are matched per card type', () => {
+    const [day] = reconcileCardSettlements(
+      [report('2026-10-01', 600, 100), report('2026-10-01', 400, 50, 20)],
+      [
+      settlement({ card_type: 'credit', gross_amount: 1000 }),
+      settlement({ card_type: 'debit', gross_amount: 150 }),
+      settlement({ card_type: 'mobile', gross_amount: 20 })]
+    );
+
+    expect(day).toMatchObject({ reportCount: 2, reported: 1170, settled: 1170, variance: 0, status: 'matched' });
+  });
+
+  test('mismatches, missing settlements and settlements without reports are flagged', () => {
+    const days = reconcileCardSettlements(
+      [report('2026-10-01', 500), report('2026-10-02', 300)],
+      [
+      settlement({ business_date: '2026-10-01', gross_amount: 480 }),
+      settlement({ business_date: '2026-10-01', record_type: 'refund', gross_amount: -10 }),
+      settlement({ business_date: '2026-10-01', record_type: 'chargeback', gross_amount: -60 }),
+      settlement({ business_date: '2026-10-03', batch_number: '103', gross_amount: 90 })]
+    );
+
+    expect(days.map((day) => [day.date, day.status])).toEqual([
+    ['2026-10-03', 'no_report'],
+    ['2026-10-02', 'missing_settlement'],
+    ['2026-10-01', 'mismatch']]
+    );
+    expect(days[2]).toMatchObject({ settled: 470, variance: -30, chargebacks: -60 });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildShortOverLedger,
+  buildShortOverTrend,
+  evaluateShortOverAlerts,
+  resolveShortOverThresholds,
+  ShortOverReport,
+  ShortOverThresholds,
+  sumShortages,
+  summarizeByEmployee } from
+'@/utils/cashShortOver';
+
+const thresholds: ShortOverThresholds = { shift_tolerance: 10, rolling_tolerance: 25, rolling_days: 7 };
+
+const report = (id: number, date: string, amount: number, employee = 'E1', station = 'MOBIL'): ShortOverReport => ({
+  id,
+  report_date: `${date}T00:00:00`,
+  station,
+  employee_id: employee,
+  employee_name: employee === 'E1' ? 'Alex Smith' : 'Sam Lee',
+  total_short_over: amount
+});
+
+describe('cash short/over ledger', () => {
+  test('running totals are kept per employee and station', () => {
+    const ledger = buildShortOverLedger([
+    report(3, '2026-10-03', 4),
+    report(1, '2026-10-01', -8),
+    report(2, '2026-10-02', 2, 'E2'),
+    report(4, '2026-10-04', -1, 'E1', 'AMOCO')]
+    );
+
+    expect(ledger.map((entry) => entry.reportId)).toEqual([1, 2, 3, 4]);
+    expect(ledger.map((entry) => entry.runningTotal)).toEqual([-8, 2, -4, -1]);
+  });
+
+  test('reports without an employee ID are grouped by name', () => {
+    const [entry] = buildShortOverLedger([{ report_date: '2026-10-01', station: 'MOBIL', employee_name: 'Alex Smith', total_short_over: '-3.5' }]);
+
+    expect(entry.employeeKey).toBe('Alex Smith');
+    expect(entry.amount).toBe(-3.5);
+  });
+
+  test('the rolling window only counts recent shifts', () => {
+    const ledger = buildShortOverLedger([
+    report(1, '2026-09-20', -40),
+    report(2, '2026-10-05', -15),
+    report(3, '2026-10-08', -12),
+    report(4, '2026-10-09', 5)]
+    );
+    const [summary] = summarizeByEmployee(ledger, thresholds, '2026-10-10');
+
+    expect(summary.net).toBe(-62);
+    expect(summary.rollingNet).toBe(-22);
+    expect(summary.rollingFlagged).toBe(false);
+    expect(summary.totalShort).toBe(-67);
+    expect(summary.shortShifts).toBe(3);
+  });
+
+  test('alerts are raised for a shift past tolerance and once when the rolling shortage crosses', () => {
+    const ledger = buildShortOverLedger([
+    report(1, '2026-10-01', -12),
+    report(2, '2026-10-02', -9),
+    report(3, '2026-10-03', -8),
+    report(4, '2026-10-04', -3)]
+    );
+    const alerts = evaluateShortOverAlerts(ledger, () => thresholds);
+
+    expect(alerts.map((alert) => [alert.kind, alert.reportId, alert.amount])).toEqual([
+    ['shift', 1, -12],
+    ['rolling', 3, -29]]
+    );
+  });
+
+  test('station tolerances fall back to the ALL setting, then the defaults', () => {
+    const rows = [{ station: 'ALL', ...thresholds }, { station: 'MOBIL', ...thresholds, shift_tolerance: 5 }];
+
+    expect(resolveShortOverThresholds(rows, 'MOBIL').shift_tolerance).toBe(5);
+    expect(resolveShortOverThresholds(rows, 'AMOCO').shift_tolerance).toBe(10);
+    expect(resolveShortOverThresholds([], 'AMOCO').shift_tolerance).toBe(20);
+  });
+
+  test('shortages in a pay period and the daily trend', () => {
+    const ledger = buildShortOverLedger([
+    report(1, '2026-10-01', -12),
+    report(2, '2026-10-01', 6, 'E2'),
+    report(3, '2026-10-15', -4)]
+    );
+
+    expect(sumShortages(ledger, 'E1', '2026-10-01', '2026-10-14')).toBe(12);
+    expect(buildShortOverTrend(ledger)[0]).toEqual({ date: '2026-10-01', net: -6, short: -12, over: 6 });
+  });
+});
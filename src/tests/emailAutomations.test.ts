@@ -0,0 +1,115 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  AutomationTemplate,
+  AutomationUser,
+  computeNextRun,
+  EmailAutomation,
+  isAutomationDue,
+  planDailySalesEmails,
+  planLicenseExpiryEmails,
+  renderTemplate,
+  resolveRecipients } from
+'../../supabase/functions/job-worker/emailAutomations';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const users: AutomationUser[] = [
+{ email: 'owner@example.com', name: 'Owner', role: 'admin', station: 'ALL', is_active: true },
+{ email: 'mobil.manager@example.com', name: 'Mobil Manager', role: 'manager', station: 'MOBIL', is_active: true },
+{ email: 'amoco.manager@example.com', name: 'Amoco Manager', role: 'Manager', station: 'AMOCO ROSEDALE', is_active: true },
+{ email: 'former@example.com', name: 'Former', role: 'manager', station: 'MOBIL', is_active: false },
+{ email: 'clerk@example.com', name: 'Clerk', role: 'Employee', station: 'MOBIL', is_active: true }];
+
+
+const licenseAutomation: EmailAutomation = {
+  id: 1,
+  automation_name: 'License Expiry Alerts',
+  is_active: true,
+  from_email: 'alerts@dfsmanager.com',
+  from_name: 'DFS Manager Alerts',
+  trigger_condition: 'days_before_expiry',
+  trigger_value: 30,
+  frequency_hours: 24,
+  template_id: 1,
+  recipient_groups: 'station_managers,admin',
+  next_run: null
+};
+
+const salesAutomation: EmailAutomation = {
+  ...licenseAutomation,
+  id: 2,
+  automation_name: 'Daily Sales Reports',
+  trigger_condition: 'daily_schedule',
+  trigger_value: 8,
+  recipient_groups: 'station_managers'
+};
+
+const template: AutomationTemplate = {
+  id: 1,
+  subject: 'License {license_name} expires in {days_remaining} days',
+  html_content: '<p>Dear {recipient_name}, {license_name} at {station_name}</p>',
+  text_content: '{license_name} at {station_name}: {unknown_value}',
+  is_active: true
+};
+
+describe('Email automations', () => {
+  test('renders placeholders, escaping values in HTML and keeping unknown placeholders', () => {
+    expect(renderTemplate('Hi {name} {other}', { name: 'A & B' })).toBe('Hi A & B {other}');
+    expect(renderTemplate('<b>{name}</b>', { name: '<A & B>' }, true)).toBe('<b>&lt;A &amp; B&gt;</b>');
+  });
+
+  test('resolves recipient groups by role and station', () => {
+    expect(resolveRecipients('station_managers,admin', users, 'MOBIL').map((r) => r.email)).toEqual([
+    'mobil.manager@example.com', 'owner@example.com']
+    );
+    expect(resolveRecipients('management, extra@example.com', users).map((r) => r.email)).toEqual([
+    'owner@example.com', 'mobil.manager@example.com', 'amoco.manager@example.com', 'extra@example.com']
+    );
+  });
+
+  test('emails each recipient about licenses inside the window, once per frequency', () => {
+    const licenses = [
+    { id: 10, license_name: 'Fire Permit', license_number: 'FP-1', station: 'MOBIL', category: 'Safety', expiry_date: '2026-11-03T12:00:00Z' },
+    { id: 11, license_name: 'Tobacco', license_number: 'TB-1', station: 'MOBIL', category: 'Retail', expiry_date: '2027-03-01T12:00:00Z' }];
+
+    const logs = [{ automation_id: 1, reference_key: 'license:10', recipient_email: 'Owner@example.com', status: 'Sent', sent_at: '2026-10-19T06:00:00Z' }];
+
+    const planned = planLicenseExpiryEmails(licenseAutomation, template, licenses, users, logs, now);
+
+    expect(planned).toHaveLength(1);
+    expect(planned[0]).toMatchObject({
+      referenceKey: 'license:10',
+      recipient: { email: 'mobil.manager@example.com' },
+      replyTo: 'DFS Manager Alerts <alerts@dfsmanager.com>',
+      subject: 'License Fire Permit expires in 15 days',
+      html: '<p>Dear Mobil Manager, Fire Permit at MOBIL</p>',
+      text: 'Fire Permit at MOBIL: {unknown_value}'
+    });
+  });
+
+  test('sends one sales report per station to that station\'s recipients', () => {
+    const reports = [
+    { station: 'MOBIL', total_sales: 1000, grocery_sales: 300, lottery_net_sales: 100 },
+    { station: 'MOBIL', total_sales: 500, grocery_sales: 200, lottery_net_sales: 0 },
+    { station: 'AMOCO ROSEDALE', total_sales: 800, grocery_sales: 100, lottery_net_sales: 0 }];
+
+    const salesTemplate = { ...template, subject: '{station_name} {report_date}', text_content: '${total_sales} ${fuel_sales} ${store_sales}' };
+
+    const planned = planDailySalesEmails(salesAutomation, salesTemplate, '2026-10-18', reports, users, [], now);
+
+    expect(planned.map((email) => [email.recipient.email, email.subject, email.text])).toEqual([
+    ['mobil.manager@example.com', 'MOBIL 2026-10-18', '$1,500.00 $900.00 $500.00'],
+    ['amoco.manager@example.com', 'AMOCO ROSEDALE 2026-10-18', '$800.00 $700.00 $100.00']]
+    );
+  });
+
+  test('runs daily schedules at their UTC hour and expiry checks every frequency', () => {
+    expect(isAutomationDue({ ...salesAutomation, trigger_value: 13 }, now)).toBe(false);
+    expect(isAutomationDue(salesAutomation, now)).toBe(true);
+    expect(isAutomationDue({ ...salesAutomation, next_run: '2026-10-20T08:00:00Z' }, now)).toBe(false);
+    expect(isAutomationDue({ ...licenseAutomation, is_active: false }, now)).toBe(false);
+
+    expect(computeNextRun(salesAutomation, now)).toBe('2026-10-20T08:00:00.000Z');
+    expect(computeNextRun(licenseAutomation, now)).toBe('2026-10-20T12:00:00.000Z');
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildMimeMessage,
+  createMockTransport,
+  createSmtpTransport,
+  EmailDeliveryEntry,
+  EmailStore,
+  handleEmailRequest,
+  prepareEmail,
+  SmtpSocket } from
+'../../supabase/functions/email-relay/mailer';
+
+const createMemoryStore = (sentToday: {total: number;byUser: number;} = { total: 0, byUser: 0 }) => {
+  const log: EmailDeliveryEntry[] = [];
+  const store: EmailStore = {
+    async logDelivery(entry) {
+      log.push(entry);
+    },
+    async countSentSince() {
+      return sentToday;
+    }
+  };
+  return { store, log };
+};
+
+const now = () => new Date('2026-10-19T12:00:00Z');
+const noSleep = async () => undefined;
+const from = 'DFS Manager <noreply@dfsmanager.com>';
+const limits = { daily: 500, dailyPerUser: 100 };
+
+// Scripted SMTP server: answers each command with the next reply in order
+const createFakeSmtpSocket = (replies: string[]) => {
+  const written: string[] = [];
+  let pending = ['220 mail.test ESMTP ready\r\n'];
+  const socket: SmtpSocket = {
+    async read() {
+      return pending.shift() ?? null;
+    },
+    async write(data) {
+      written.push(data);
+      const reply = replies.shift();
+      if (reply) pending = [reply];
+    },
+    async startTls() {
+      return socket;
+    },
+    close() {}
+  };
+  return { socket, written };
+};
+
+describe('Email relay', () => {
+  test('sends through the transport and logs the delivery', async () => {
+    const transport = createMockTransport();
+    const { store, log } = createMemoryStore();
+
+    const result = await handleEmailRequest(
+      { action: 'send', message: { to: ['owner@example.com'], subject: 'Daily report', html: '<p>Sales</p>' }, type: 'report' },
+      { transport, store, from, limits, now }
+    );
+
+    expect(result.success).toBe(true);
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].from).toBe(from);
+    expect(log).toEqual([expect.objectContaining({
+      status: 'Sent', attempts: 1, email_type: 'report', recipients: 'owner@example.com', transport: 'Mock'
+    })]);
+  });
+
+  test('rejects invalid recipients without calling the transport', async () => {
+    const transport = createMockTransport();
+    const { store, log } = createMemoryStore();
+
+    const result = await handleEmailRequest(
+      { action: 'send', message: { to: 'not-an-address', subject: 'Hi', text: 'Hello' } },
+      { transport, store, from, limits }
+    );
+
+    expect(result).toMatchObject({ success: false, error: 'Invalid recipient address: not-an-address' });
+    expect(transport.calls).toBe(0);
+    expect(log).toHaveLength(0);
+  });
+
+  test('rejects line breaks that would inject headers', () => {
+    const message = { to: 'owner@example.com', subject: 'Hi', text: 'Hello' };
+
+    expect(prepareEmail({ ...message, subject: 'Hi\r\nBcc: attacker@example.com' }, from)).toBe('Subject cannot contain line breaks');
+    expect(prepareEmail({ ...message, to: 'Owner\r\nBcc: attacker@example.com <owner@example.com>' }, from)).toBe(
+      'Invalid recipient address: Owner\r\nBcc: attacker@example.com <owner@example.com>'
+    );
+    expect(prepareEmail({ ...message, to: '<owner@example.com\r\nBcc: attacker@example.com>' }, from)).toMatch(/^Invalid recipient address/);
+    expect(prepareEmail({ ...message, replyTo: 'Help <help@example.com>\nX-Spam: no' }, from)).toMatch(/^Invalid reply-to address/);
+    expect(prepareEmail(message, 'Sender\r\nBcc: attacker@example.com <noreply@example.com>')).toMatch(/^Invalid sender address/);
+    expect(prepareEmail({ ...message, attachments: [{ filename: 'report.csv\r\nX-Injected: 1', content: 'YQ==' }] }, from)).toBe(
+      'Attachment names and types cannot contain line breaks'
+    );
+    expect(prepareEmail({ ...message, attachments: [{ filename: 'report.csv', content: 'YQ==', contentType: 'text/csv\r\nX-Injected: 1' }] }, from)).toBe(
+      'Attachment names and types cannot contain line breaks'
+    );
+  });
+
+  test('always sends from the configured sender and only accepts configured reply addresses', async () => {
+    const transport = createMockTransport();
+    const { store } = createMemoryStore();
+    const message = { to: 'owner@example.com', subject: 'Hi', text: 'Hello', from: 'CEO <ceo@bank.example>' } as Parameters<typeof prepareEmail>[0];
+    const allowedReplyTo = ['Support <support@dfsmanager.com>'];
+
+    const result = await handleEmailRequest({ action: 'send', message }, { transport, store, from, allowedReplyTo, limits });
+
+    expect(result.success).toBe(true);
+    expect(transport.sent[0].from).toBe(from);
+    expect(prepareEmail({ ...message, replyTo: 'SUPPORT@dfsmanager.com' }, from, allowedReplyTo)).toMatchObject({ replyTo: 'SUPPORT@dfsmanager.com' });
+    expect(prepareEmail({ ...message, replyTo: 'Help <help@attacker.example>' }, from, allowedReplyTo)).toBe(
+      'Reply-to address is not one of the configured reply addresses: help@attacker.example'
+    );
+    expect(prepareEmail({ ...message, replyTo: 'support@dfsmanager.com' }, from)).toMatch(/^Reply-to address is not one of/);
+  });
+
+  test('stops sending at the daily and per-user limits', async () => {
+    const transport = createMockTransport();
+    const message = { to: 'owner@example.com', subject: 'Hi', text: 'Hello' };
+
+    const relayFull = createMemoryStore({ total: 500, byUser: 3 });
+    expect(await handleEmailRequest({ action: 'send', message }, { transport, store: relayFull.store, from, limits, now })).toEqual({
+      success: false, error: 'Daily email limit exceeded. Please contact administrator or wait for tomorrow.'
+    });
+
+    const userFull = createMemoryStore({ total: 120, byUser: 100 });
+    expect(await handleEmailRequest({ action: 'send', message }, { transport, store: userFull.store, from, limits, now })).toEqual({
+      success: false, error: 'You have reached the limit of 100 emails per day'
+    });
+
+    expect(transport.calls).toBe(0);
+    expect(relayFull.log).toHaveLength(0);
+  });
+
+  test('retries transient failures with backoff', async () => {
+    const transport = createMockTransport({ transientFailures: 2 });
+    const { store, log } = createMemoryStore();
+    const delays: number[] = [];
+
+    const result = await handleEmailRequest(
+      { action: 'send', message: { to: 'owner@example.com', subject: 'Alert', text: 'Tank low' } },
+      { transport, store, from, limits, retryDelayMs: 100, sleep: async (ms) => {delays.push(ms);} }
+    );
+
+    expect(result).toMatchObject({ success: true, attempts: 3 });
+    expect(delays).toEqual([100, 200]);
+    expect(log[0]).toMatchObject({ status: 'Sent', attempts: 3 });
+  });
+
+  test('does not retry permanent failures and logs them as failed', async () => {
+    const transport = createMockTransport({ failAddresses: ['bounce@example.com'] });
+    const { store, log } = createMemoryStore();
+
+    const result = await handleEmailRequest(
+      { action: 'send', message: { to: 'bounce@example.com', subject: 'Alert', text: 'Tank low' } },
+      { transport, store, from, limits, sleep: noSleep }
+    );
+
+    expect(result.success).toBe(false);
+    expect(transport.calls).toBe(1);
+    expect(log[0]).toMatchObject({ status: 'Failed', attempts: 1, error_message: 'Mock transport rejected bounce@example.com' });
+  });
+
+  test('builds a multipart message with both bodies and the attachment, leaving out Bcc', () => {
+    const email = prepareEmail({
+      to: 'owner@example.com',
+      bcc: 'audit@example.com',
+      subject: 'Rapport café',
+      html: '<p>Report</p>',
+      text: 'Report',
+      attachments: [{ filename: 'report.pdf', content: btoa('%PDF-1.4'), contentType: 'application/pdf' }]
+    }, from);
+    if (typeof email === 'string') throw new Error(email);
+
+    const mime = buildMimeMessage(email, now(), 'test');
+
+    expect(mime).toContain('Subject: =?UTF-8?B?');
+    expect(mime).toContain('Content-Type: multipart/mixed; boundary="mixed-test"');
+    expect(mime).toContain('Content-Type: multipart/alternative; boundary="alt-test"');
+    expect(mime).toContain('Content-Type: application/pdf; name="report.pdf"');
+    expect(mime).toContain(btoa('%PDF-1.4'));
+    expect(mime).not.toContain('audit@example.com');
+  });
+
+  test('speaks SMTP with AUTH and sends the envelope to every recipient', async () => {
+    const { socket, written } = createFakeSmtpSocket([
+    '250-mail.test\r\n250 AUTH LOGIN PLAIN\r\n',
+    '235 Authenticated\r\n',
+    '250 OK\r\n',
+    '250 OK\r\n',
+    '250 OK\r\n',
+    '354 Go ahead\r\n',
+    '250 OK queued as ABC123\r\n',
+    '221 Bye\r\n']
+    );
+    const transport = createSmtpTransport(
+      { hostname: 'mail.test', port: 1025, security: 'none', username: 'user', password: 'secret' },
+      async () => socket
+    );
+    const email = prepareEmail({ to: 'owner@example.com', bcc: 'audit@example.com', subject: 'Hi', text: '.hidden line' }, from);
+    if (typeof email === 'string') throw new Error(email);
+
+    const result = await transport.send(email);
+
+    expect(result).toEqual({ success: true, messageId: 'ABC123' });
+    expect(written.slice(0, 5)).toEqual([
+    'EHLO localhost\r\n',
+    `AUTH PLAIN ${btoa('\u0000user\u0000secret')}\r\n`,
+    'MAIL FROM:<noreply@dfsmanager.com>\r\n',
+    'RCPT TO:<owner@example.com>\r\n',
+    'RCPT TO:<audit@example.com>\r\n']
+    );
+    expect(written[6].endsWith('\r\n.\r\n')).toBe(true);
+  });
+
+  test('treats SMTP 5xx replies as permanent failures', async () => {
+    const { socket } = createFakeSmtpSocket(['250 mail.test\r\n', '550 Mailbox unavailable\r\n']);
+    const transport = createSmtpTransport({ hostname: 'mail.test', port: 25, security: 'none' }, async () => socket);
+    const email = prepareEmail({ to: 'owner@example.com', subject: 'Hi', text: 'Hello' }, from);
+    if (typeof email === 'string') throw new Error(email);
+
+    const result = await transport.send(email);
+
+    expect(result).toMatchObject({ success: false, retryable: false, error: 'SMTP 550: Mailbox unavailable' });
+  });
+});
@@ -0,0 +1,93 @@
+// Synthetic barcode images for the decoder tests. Symbols are built from the
+// module bit patterns in the UPC/EAN and Code 128 specifications (kept separate
+// from the decoder's width tables) and rendered with anti-aliased edges,
+// uneven lighting and noise, like a camera frame.
+
+import type { BarcodeImage } from '@/utils/barcodeDecoder';
+
+const L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const R_CODES = L_CODES.map((code) => code.replace(/./g, (bit) => bit === '1' ? '0' : '1'));
+const G_CODES = R_CODES.map((code) => code.split('').reverse().join(''));
+
+const EAN13_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLG', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+// Number system 0, by check digit; E is even parity (G codes)
+const UPCE_PARITY = ['EEEOOO', 'EEOEOO', 'EEOOEO', 'EEOOOE', 'EOEEOO', 'EOOEEO', 'EOOOEE', 'EOEOEO', 'EOEOOE', 'EOOEOE'];
+
+const digitCode = (digit: string, parity: string) => (parity === 'G' || parity === 'E' ? G_CODES : L_CODES)[Number(digit)];
+
+export const ean13Modules = (code: string): string => {
+  const parity = EAN13_PARITY[Number(code[0])];
+  const left = code.slice(1, 7).split('').map((digit, i) => digitCode(digit, parity[i])).join('');
+  const right = code.slice(7).split('').map((digit) => R_CODES[Number(digit)]).join('');
+  return `101${left}01010${right}101`;
+};
+
+export const ean8Modules = (code: string): string => {
+  const left = code.slice(0, 4).split('').map((digit) => L_CODES[Number(digit)]).join('');
+  const right = code.slice(4).split('').map((digit) => R_CODES[Number(digit)]).join('');
+  return `101${left}01010${right}101`;
+};
+
+/** 8-digit UPC-E in number system 0 */
+export const upcEModules = (code: string): string => {
+  const parity = UPCE_PARITY[Number(code[7])];
+  return `101${code.slice(1, 7).split('').map((digit, i) => digitCode(digit, parity[i])).join('')}010101`;
+};
+
+// Code 128 bar/space widths for the symbols used in the tests
+const CODE128_WIDTHS: Record<number, string> = {
+  12: '112232', 13: '122132', 16: '123122', 17: '123221', 18: '223211', 20: '221231', 34: '131123',
+  36: '112313', 38: '132311', 47: '133121', 51: '213113', 56: '331121', 62: '431111', 78: '241112',
+  104: '211214', 105: '211232', 106: '2331112'
+};
+
+const widthsToModules = (widths: string) =>
+widths.split('').map((width, i) => (i % 2 === 0 ? '1' : '0').repeat(Number(width))).join('');
+
+/** Code 128 symbol values (start, data, checksum, stop) as modules */
+export const code128Modules = (values: number[]): string => values.map((value) => widthsToModules(CODE128_WIDTHS[value])).join('');
+
+interface RenderOptions {
+  moduleWidth?: number;
+  quietModules?: number;
+  height?: number;
+  noise?: number;
+  /** Brightness change across the image, 0-255 */
+  gradient?: number;
+  mirrored?: boolean;
+}
+
+/**
+ * Render a module string as an RGBA image. Pixels straddling a bar edge get
+ * the share of dark they cover, so module widths need not be whole pixels.
+ */
+export const renderBarcode = (modules: string, options: RenderOptions = {}): BarcodeImage => {
+  const { moduleWidth = 3, quietModules = 12, height = 24, noise = 0, gradient = 0, mirrored = false } = options;
+  const padded = `${'0'.repeat(quietModules)}${modules}${'0'.repeat(quietModules)}`;
+  const bits = mirrored ? padded.split('').reverse().join('') : padded;
+  const width = Math.ceil(bits.length * moduleWidth);
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  // Deterministic noise so failures are reproducible
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+
+  for (let x = 0; x < width; x++) {
+    let dark = 0;
+    for (let m = Math.floor(x / moduleWidth); m <= Math.floor((x + 1) / moduleWidth) && m < bits.length; m++) {
+      const overlap = Math.min(x + 1, (m + 1) * moduleWidth) - Math.max(x, m * moduleWidth);
+      if (bits[m] === '1' && overlap > 0) dark += overlap;
+    }
+    for (let y = 0; y < height; y++) {
+      const light = 230 - gradient * x / width;
+      const value = light - dark * (light - 40) + (random() - 0.5) * noise;
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = value;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
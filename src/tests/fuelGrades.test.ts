@@ -0,0 +1,71 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  allocateToTankGrades,
+  buildFuelConfiguration,
+  FuelGradeConfig,
+  FuelTankConfig,
+  getDeliveryVolumes,
+  getSalesGallons,
+  getTankGrades,
+  toGradeKey,
+  validateFuelConfiguration,
+  withRecordedGrades } from
+'@/utils/fuelGrades';
+
+const blendedGrades: FuelGradeConfig[] = [
+{ grade: 'regular', label: 'Regular', is_blended: false, sort_order: 1 },
+{ grade: 'plus', label: 'Plus', is_blended: true, blend_low_grade: 'regular', blend_high_grade: 'super', blend_high_percent: 40, sort_order: 2 },
+{ grade: 'super', label: 'Super', is_blended: false, sort_order: 3 }];
+
+
+const blendedTanks: FuelTankConfig[] = [
+{ tank_number: 1, grade: 'regular', capacity_gallons: 12000 },
+{ tank_number: 2, grade: 'regular', capacity_gallons: 8000 },
+{ tank_number: 3, grade: 'super', capacity_gallons: 10000 }];
+
+
+describe('fuel grade configuration', () => {
+  test('unconfigured stations fall back to the default layout', () => {
+    const configuration = buildFuelConfiguration('MOBIL', [], []);
+
+    expect(configuration.isDefault).toBe(true);
+    expect(configuration.grades.map((grade) => grade.grade)).toEqual(['regular', 'plus', 'super', 'diesel']);
+  });
+
+  test('blended grades have no tank of their own', () => {
+    const configuration = buildFuelConfiguration('MOBIL', blendedGrades, blendedTanks);
+
+    expect(getTankGrades(configuration).map((grade) => grade.grade)).toEqual(['regular', 'super']);
+    expect(validateFuelConfiguration(blendedGrades, blendedTanks)).toEqual([]);
+    expect(toGradeKey(' Super 93 ')).toBe('super_93');
+  });
+
+  test('flags blends without tanks and duplicate tank numbers', () => {
+    const tanks: FuelTankConfig[] = [
+    { tank_number: 1, grade: 'regular', capacity_gallons: 12000 },
+    { tank_number: 1, grade: 'regular', capacity_gallons: 8000 }];
+
+    const errors = validateFuelConfiguration(blendedGrades, tanks);
+
+    expect(errors).toContain('Plus: blended grades must draw from grades that have a tank');
+    expect(errors).toContain('Tank 1 is listed more than once');
+  });
+
+  test('splits blended gallons between the low and high grade tanks', () => {
+    expect(allocateToTankGrades({ regular: 100, plus: 50, super: 10 }, blendedGrades)).toEqual({
+      regular: 130,
+      super: 30
+    });
+  });
+
+  test('reads legacy columns when a record has no grade map', () => {
+    const legacyReport = { regular_gallons: 120.5, super_gallons: '30', diesel_gallons: null };
+    const legacyDelivery = { regular_tank_volume: 2000, regular_delivered: 3000, plus_tank_volume: 0, plus_delivered: 0, super_tank_volume: 900, super_delivered: 1000 };
+    const storedReport = { regular_gallons: 1, fuel_gallons: '{"regular": 80, "e85": 20}' };
+
+    expect(getSalesGallons(legacyReport)).toEqual({ regular: 120.5, super: 30, diesel: 0 });
+    expect(getDeliveryVolumes(legacyDelivery).super).toEqual({ tank_volume: 900, delivered: 1000 });
+    expect(getSalesGallons(storedReport)).toEqual({ regular: 80, e85: 20 });
+    expect(withRecordedGrades(blendedGrades, ['e85']).map((grade) => grade.label)).toEqual(['Regular', 'Plus', 'Super', 'E85']);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildCostLayers,
+  calculateDailyFuelMargins,
+  FuelPrice,
+  getCurrentPrices,
+  getPriceOn,
+  summarizeMarginTrend } from
+'@/utils/fuelMargins';
+import { FuelGradeConfig } from '@/utils/fuelGrades';
+
+const blendedGrades: FuelGradeConfig[] = [
+{ grade: 'regular', label: 'Regular', is_blended: false, sort_order: 1 },
+{ grade: 'plus', label: 'Plus', is_blended: true, blend_low_grade: 'regular', blend_high_grade: 'super', blend_high_percent: 50, sort_order: 2 },
+{ grade: 'super', label: 'Super', is_blended: false, sort_order: 3 }];
+
+
+const prices: FuelPrice[] = [
+{ station: 'MOBIL', grade: 'regular', price_per_gallon: 3.0, effective_date: '2026-10-01' },
+{ station: 'MOBIL', grade: 'regular', price_per_gallon: 3.2, effective_date: '2026-10-10' },
+{ station: 'MOBIL', grade: 'super', price_per_gallon: 4.0, effective_date: '2026-10-01' },
+{ station: 'MOBIL', grade: 'plus', price_per_gallon: 3.5, effective_date: '2026-10-01' },
+{ station: 'AMOCO', grade: 'regular', price_per_gallon: 2.9, effective_date: '2026-10-01' }];
+
+
+const delivery = (date: string, deliveries: Record<string, {delivered: number;cost_per_gallon?: number;}>) => ({
+  station: 'MOBIL',
+  delivery_date: `${date}T08:00:00`,
+  fuel_deliveries: JSON.stringify(
+    Object.fromEntries(Object.entries(deliveries).map(([grade, entry]) => [grade, { tank_volume: 1000, ...entry }]))
+  )
+});
+
+const sale = (date: string, gallons: Record<string, number>, station = 'MOBIL') => ({
+  station,
+  report_date: `${date}T00:00:00`,
+  fuel_gallons: JSON.stringify(gallons)
+});
+
+describe('fuel price book', () => {
+  test('the latest change on or before the date is in effect', () => {
+    expect(getPriceOn(prices, 'MOBIL', 'regular', '2026-09-30')).toBeNull();
+    expect(getPriceOn(prices, 'MOBIL', 'regular', '2026-10-09')).toBe(3.0);
+    expect(getPriceOn(prices, 'MOBIL', 'regular', '2026-10-10')).toBe(3.2);
+    expect(getCurrentPrices(prices, 'AMOCO', '2026-10-15')).toEqual({ regular: 2.9 });
+  });
+});
+
+describe('fuel margins', () => {
+  test('deliveries without a cost add no layer', () => {
+    const layers = buildCostLayers([
+    delivery('2026-10-05', { regular: { delivered: 500, cost_per_gallon: 2.6 } }),
+    delivery('2026-10-01', { regular: { delivered: 1000, cost_per_gallon: 2.5 }, super: { delivered: 800 } })]
+    );
+
+    expect(layers.MOBIL.regular.map((layer) => layer.date)).toEqual(['2026-10-01', '2026-10-05']);
+    expect(layers.MOBIL.super).toBeUndefined();
+  });
+
+  test('gallons sold draw the oldest cost layer first', () => {
+    const [day] = calculateDailyFuelMargins({
+      sales: [sale('2026-10-06', { regular: 1200 })],
+      deliveries: [
+      delivery('2026-10-01', { regular: { delivered: 1000, cost_per_gallon: 2.5 } }),
+      delivery('2026-10-05', { regular: { delivered: 1000, cost_per_gallon: 2.7 } })],
+
+      prices
+    });
+
+    // 1000 gal at 2.50 and 200 gal at 2.70 against a 3.00 pump price
+    expect(day.cost).toBe(3040);
+    expect(day.revenue).toBe(3600);
+    expect(day.centsPerGallon).toBe(46.7);
+  });
+
+  test('blended grades cost a mix of their tank grades', () => {
+    const [day] = calculateDailyFuelMargins({
+      sales: [sale('2026-10-06', { plus: 100 })],
+      deliveries: [delivery('2026-10-01', {
+        regular: { delivered: 1000, cost_per_gallon: 2.5 },
+        super: { delivered: 1000, cost_per_gallon: 3.1 }
+      })],
+      prices,
+      gradesByStation: { MOBIL: blendedGrades }
+    });
+
+    expect(day.byGrade.plus.cost).toBe(280);
+    expect(day.byGrade.plus.centsPerGallon).toBe(70);
+  });
+
+  test('unpriced and uncosted gallons are left out of the margin', () => {
+    const [day] = calculateDailyFuelMargins({
+      sales: [sale('2026-10-06', { regular: 100, super: 50, diesel: 20 })],
+      deliveries: [delivery('2026-10-01', { regular: { delivered: 1000, cost_per_gallon: 2.5 } })],
+      prices
+    });
+
+    expect(day.gallons).toBe(100);
+    expect(day.uncostedGallons).toBe(50);
+    expect(day.unpricedGallons).toBe(20);
+    expect(day.centsPerGallon).toBe(50);
+  });
+
+  test('the daily trend is weighted by gallons across stations', () => {
+    const margins = calculateDailyFuelMargins({
+      sales: [sale('2026-10-06', { regular: 300 }), sale('2026-10-06', { regular: 100 }, 'AMOCO')],
+      deliveries: [
+      delivery('2026-10-01', { regular: { delivered: 1000, cost_per_gallon: 2.5 } }),
+      { ...delivery('2026-10-01', { regular: { delivered: 1000, cost_per_gallon: 2.5 } }), station: 'AMOCO' }],
+
+      prices
+    });
+
+    expect(margins.map((margin) => margin.centsPerGallon)).toEqual([40, 50]);
+    expect(summarizeMarginTrend(margins)).toEqual([
+    { date: '2026-10-06', gallons: 400, revenue: 1190, cost: 1000, centsPerGallon: 47.5 }]
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, test, expect } from '@jest/globals';
+import { computeNextRunAt, JobResult, JobRunStore, runJob, ScheduledJob } from '../../supabase/functions/job-worker/worker';
+import { getRunNowError } from '../../supabase/functions/_shared/jobs';
+import {
+  AlertContact,
+  buildDailyMetrics,
+  evaluateThresholds,
+  lowStockChanged,
+  planLicenseAlerts } from
+'../../supabase/functions/job-worker/checks';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const job = (overrides: Partial<ScheduledJob> = {}): ScheduledJob => ({
+  id: 1,
+  job_key: 'license_expiry_check',
+  job_type: 'license_expiry_check',
+  interval_minutes: 60,
+  payload: {},
+  is_active: true,
+  next_run_at: '2026-10-19T11:30:00.000Z',
+  ...overrides
+});
+
+// In-memory job_runs with the same (job_id, scheduled_for) uniqueness as the table
+const createMemoryStore = () => {
+  const runs: {id: number;jobId: number;scheduledFor: string;status: string;result: JobResult | null;error: string | null;}[] = [];
+  const jobUpdates: {jobId: number;update: Record<string, unknown>;}[] = [];
+  const store: JobRunStore = {
+    async startRun(scheduledJob, scheduledFor) {
+      if (runs.some((run) => run.jobId === scheduledJob.id && run.scheduledFor === scheduledFor)) {
+        return null;
+      }
+      const id = runs.length + 1;
+      runs.push({ id, jobId: scheduledJob.id, scheduledFor, status: 'running', result: null, error: null });
+      return id;
+    },
+    async finishRun(runId, status, result, errorMessage) {
+      Object.assign(runs[runId - 1], { status, result, error: errorMessage });
+    },
+    async getPreviousResult(jobId) {
+      const previous = runs.filter((run) => run.jobId === jobId && run.status === 'succeeded').pop();
+      return previous?.result || null;
+    },
+    async completeJob(jobId, update) {
+      jobUpdates.push({ jobId, update });
+    }
+  };
+  return { store, runs, jobUpdates };
+};
+
+describe('computeNextRunAt', () => {
+  test('returns the next slot after now, skipping missed slots', () => {
+    expect(computeNextRunAt(job(), NOW)).toBe('2026-10-19T12:30:00.000Z');
+    expect(computeNextRunAt(job({ next_run_at: '2026-10-19T08:30:00.000Z' }), NOW)).toBe('2026-10-19T12:30:00.000Z');
+  });
+
+  test('returns null for one-off jobs', () => {
+    expect(computeNextRunAt(job({ interval_minutes: null }), NOW)).toBeNull();
+  });
+});
+
+describe('getRunNowError', () => {
+  test('allows active recurring jobs and refuses one-off and paused jobs', () => {
+    expect(getRunNowError(job())).toBeNull();
+    expect(getRunNowError(job({ job_type: 'send_sms', interval_minutes: null }))).toBe(
+      'One-off jobs run once at their scheduled time and cannot be run now'
+    );
+    expect(getRunNowError(job({ is_active: false }))).toBe('This job is paused; resume it before running it now');
+  });
+});
+
+describe('runJob', () => {
+  test('records a successful run and schedules the next slot', async () => {
+    const { store, runs, jobUpdates } = createMemoryStore();
+    const outcome = await runJob(job(), { license_expiry_check: async () => ({ alertsSent: 2 }) }, store, 'worker-a', NOW);
+
+    expect(outcome.status).toBe('succeeded');
+    expect(runs[0]).toMatchObject({ status: 'succeeded', result: { alertsSent: 2 } });
+    expect(jobUpdates[0].update).toMatchObject({ next_run_at: '2026-10-19T12:30:00.000Z', is_active: true, last_status: 'succeeded' });
+  });
+
+  test('records failures with the error message', async () => {
+    const { store, runs } = createMemoryStore();
+    const outcome = await runJob(job(), { license_expiry_check: async () => {throw new Error('relay down');} }, store, 'worker-a', NOW);
+
+    expect(outcome).toMatchObject({ status: 'failed', error: 'relay down' });
+    expect(runs[0]).toMatchObject({ status: 'failed', error: 'relay down' });
+  });
+
+  test('skips a slot another worker already ran, without calling the handler', async () => {
+    const { store, runs } = createMemoryStore();
+    let calls = 0;
+    const handlers = { license_expiry_check: async () => {calls++;return {};} };
+
+    await runJob(job(), handlers, store, 'worker-a', NOW);
+    const second = await runJob(job(), handlers, store, 'worker-b', NOW);
+
+    expect(second.status).toBe('skipped');
+    expect(calls).toBe(1);
+    expect(runs).toHaveLength(1);
+  });
+
+  test('deactivates one-off jobs after they run', async () => {
+    const { store, jobUpdates } = createMemoryStore();
+    await runJob(job({ job_type: 'send_sms', interval_minutes: null }), { send_sms: async () => ({}) }, store, 'worker-a', NOW);
+
+    expect(jobUpdates[0].update).toMatchObject({ is_active: false });
+  });
+
+  test('passes the previous successful result to the handler', async () => {
+    const { store } = createMemoryStore();
+    const seen: (JobResult | null)[] = [];
+    const handlers = { low_stock_check: async ({ previousResult }) => {seen.push(previousResult);return { notifiedProductIds: [3] };} };
+    const lowStockJob = job({ job_type: 'low_stock_check' });
+
+    await runJob(lowStockJob, handlers, store, 'worker-a', NOW);
+    await runJob({ ...lowStockJob, next_run_at: '2026-10-19T12:30:00.000Z' }, handlers, store, 'worker-a', NOW);
+
+    expect(seen).toEqual([null, { notifiedProductIds: [3] }]);
+  });
+});
+
+describe('scheduled checks', () => {
+  const contacts: AlertContact[] = [
+  { id: 1, contact_name: 'Manager', mobile_number: '+15550000001', station: 'MOBIL', is_active: true },
+  { id: 2, contact_name: 'Owner', mobile_number: '+15550000002', station: 'ALL', is_active: true },
+  { id: 3, contact_name: 'Opted out', mobile_number: '+15550000003', station: 'ALL', is_active: true, opt_out: true }];
+
+  const license = {
+    id: 10,
+    license_name: 'Tobacco',
+    license_number: 'T-1',
+    station: 'MOBIL',
+    category: 'Retail',
+    expiry_date: '2026-10-29T12:00:00Z'
+  };
+  const settings = [{ id: 1, days_before_expiry: 30, alert_frequency_days: 7, message_template: '{license_name} expires in {days_remaining} days' }];
+
+  test('plans license alerts for opted-in station contacts', () => {
+    const planned = planLicenseAlerts([license], settings, contacts, new Map(), NOW);
+
+    expect(planned.map((alert) => alert.contact.id)).toEqual([1, 2]);
+    expect(planned[0].message).toBe('Tobacco expires in 10 days');
+  });
+
+  test('does not re-alert a license within the alert frequency', () => {
+    const lastAlert = new Map([[10, '2026-10-17T12:00:00Z']]);
+    expect(planLicenseAlerts([license], settings, contacts, lastAlert, NOW)).toEqual([]);
+  });
+
+  test('detects changes in the low-stock set', () => {
+    const products = [{ id: 2, product_name: 'A', quantity_in_stock: 0, minimum_stock: 5 }, { id: 1, product_name: 'B', quantity_in_stock: 1, minimum_stock: 5 }];
+    expect(lowStockChanged(products, [1, 2])).toBe(false);
+    expect(lowStockChanged(products, [1])).toBe(true);
+  });
+
+  test('evaluates thresholds with cooldown and reports unsupported metrics', () => {
+    const metrics = buildDailyMetrics([{ total_sales: 1200, total_gallons: 300, total_short_over: -5 }], 12);
+    const thresholds = [
+    { id: 'low_sales', metric: 'totalSales.current', operator: 'less_than' as const, threshold: 5000 },
+    { id: 'low_stock', metric: 'inventoryMetrics.lowStockItems', operator: 'greater_than' as const, threshold: 10 },
+    { id: 'unknown', metric: 'employees.active', operator: 'equals' as const, threshold: 0 }];
+
+    const { triggered, unsupported } = evaluateThresholds(metrics, thresholds, { low_stock: '2026-10-19T06:00:00Z' }, NOW);
+
+    expect(triggered.map((alert) => alert.id)).toEqual(['low_sales']);
+    expect(unsupported).toEqual(['employees.active']);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildRenewalTimeline,
+  RenewalInput,
+  RenewalRecord,
+  summarizeRenewalSpend,
+  validateRenewalInput } from
+'@/utils/licenseRenewals';
+
+const makeInput = (overrides: Partial<RenewalInput> = {}): RenewalInput => ({
+  newIssueDate: '2026-10-01',
+  newExpiryDate: '2027-10-01',
+  renewalCost: 250,
+  paymentDate: '2026-09-28',
+  paymentReference: 'CHK-1001',
+  notes: '',
+  ...overrides
+});
+
+const makeRenewal = (overrides: Partial<RenewalRecord>): RenewalRecord => ({
+  id: 1,
+  license_id: 10,
+  station: 'MOBIL',
+  previous_expiry_date: '2026-10-01T00:00:00Z',
+  new_issue_date: '2026-10-01T00:00:00Z',
+  new_expiry_date: '2027-10-01T00:00:00Z',
+  renewal_cost: 250,
+  payment_date: '2026-09-28',
+  renewed_at: '2026-09-28T15:00:00Z',
+  ...overrides
+});
+
+describe('validateRenewalInput', () => {
+  test('accepts a renewal that extends the license', () => {
+    expect(validateRenewalInput(makeInput(), '2026-10-01T00:00:00Z')).toBeNull();
+  });
+
+  test('rejects a new expiry that does not extend the current one', () => {
+    expect(validateRenewalInput(makeInput({ newExpiryDate: '2026-09-01' }), '2026-10-01T00:00:00Z')).toMatch(/after the current expiry/);
+  });
+
+  test('requires a payment date when a cost is entered', () => {
+    expect(validateRenewalInput(makeInput({ paymentDate: '' }), null)).toMatch(/Payment date/);
+    expect(validateRenewalInput(makeInput({ paymentDate: '', renewalCost: 0 }), null)).toBeNull();
+  });
+});
+
+describe('renewal history', () => {
+  test('lists renewals newest first with their certificates', () => {
+    const timeline = buildRenewalTimeline(
+      [makeRenewal({ id: 1, renewed_at: '2025-09-28T00:00:00Z' }), makeRenewal({ id: 2, renewed_at: '2026-09-28T00:00:00Z' })],
+      [{ renewal_id: 2, version_number: 2, document_url: 'https://example.com/v2.pdf', file_name: 'v2.pdf', valid_from: null, valid_until: null, is_current: true, uploaded_at: '2026-09-28T00:00:00Z' }]
+    );
+
+    expect(timeline.map((entry) => entry.renewal.id)).toEqual([2, 1]);
+    expect(timeline[0].document?.version_number).toBe(2);
+    expect(timeline[1].document).toBeNull();
+  });
+
+  test('totals renewal spend per station and payment year', () => {
+    const rows = summarizeRenewalSpend([
+    makeRenewal({ station: 'MOBIL', renewal_cost: 250 }),
+    makeRenewal({ station: 'MOBIL', renewal_cost: 100.5 }),
+    makeRenewal({ station: 'AMOCO ROSEDALE', renewal_cost: 75 }),
+    makeRenewal({ station: 'MOBIL', renewal_cost: 300, payment_date: null, renewed_at: '2025-03-01T00:00:00Z' })]
+    );
+
+    expect(rows).toEqual([
+    { year: 2026, station: 'AMOCO ROSEDALE', renewals: 1, totalCost: 75 },
+    { year: 2026, station: 'MOBIL', renewals: 2, totalCost: 350.5 },
+    { year: 2025, station: 'MOBIL', renewals: 1, totalCost: 300 }]
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, test, expect } from '@jest/globals';
+import { changedByLabel, groupChangesByDay, summarizePriceChanges, toPriceChange } from '@/utils/productHistory';
+import type { ProductLogRow } from '@/services/supabase/tableRegistry';
+
+const makeLog = (overrides: Partial<ProductLogRow>): ProductLogRow => ({
+  id: 1,
+  product_id: 10,
+  field_name: 'retail_price',
+  old_value: '1.99',
+  new_value: '2.49',
+  change_date: '2026-10-19T15:00:00Z',
+  changed_by: 'user-1',
+  changed_by_name: 'Store Manager',
+  product_name: 'Cola 12oz',
+  ...overrides
+});
+
+describe('product history', () => {
+  test('turns a logged price edit into a price change', () => {
+    expect(toPriceChange(makeLog({}))).toEqual({
+      id: 1,
+      productId: 10,
+      productName: 'Cola 12oz',
+      field: 'retail_price',
+      oldPrice: 1.99,
+      newPrice: 2.49,
+      change: 0.5,
+      changePercent: 25.13,
+      changedAt: '2026-10-19T15:00:00Z',
+      changedBy: 'Store Manager'
+    });
+  });
+
+  test('leaves the change empty when a price was not set before', () => {
+    expect(toPriceChange(makeLog({ old_value: null, product_name: undefined }))).toMatchObject({
+      productName: 'Product 10',
+      oldPrice: null,
+      change: null,
+      changePercent: null
+    });
+    expect(toPriceChange(makeLog({ old_value: '0', new_value: '3' }))).toMatchObject({ change: 3, changePercent: null });
+  });
+
+  test('labels changes made without a signed-in user as system changes', () => {
+    expect(changedByLabel({ changed_by: null, changed_by_name: null })).toBe('System');
+    expect(changedByLabel({ changed_by: 'user-2', changed_by_name: null })).toBe('Unknown user');
+  });
+
+  test('summarizes increases, decreases and the products affected', () => {
+    const changes = [
+    makeLog({ id: 1 }),
+    makeLog({ id: 2, field_name: 'case_price', old_value: '24.00', new_value: '20.00' }),
+    makeLog({ id: 3, product_id: 11, old_value: '', new_value: '5.00' })].
+    map(toPriceChange);
+
+    expect(summarizePriceChanges(changes)).toEqual({
+      totalChanges: 3,
+      increases: 1,
+      decreases: 1,
+      productsAffected: 2,
+      averageChangePercent: 4.23
+    });
+  });
+
+  test('groups a product\'s changes by day, newest day first', () => {
+    const groups = groupChangesByDay([
+    makeLog({ id: 1, change_date: new Date(2026, 9, 18, 9).toISOString() }),
+    makeLog({ id: 2, change_date: new Date(2026, 9, 19, 8).toISOString() }),
+    makeLog({ id: 3, change_date: new Date(2026, 9, 18, 17).toISOString() })]
+    );
+
+    expect(groups.map(([day, logs]) => [day, logs.map((log) => log.id)])).toEqual([
+    ['2026-10-19', [2]],
+    ['2026-10-18', [1, 3]]]
+    );
+  });
+});
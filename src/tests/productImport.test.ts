@@ -0,0 +1,178 @@
+import { describe, test, expect } from '@jest/globals';
+import { Buffer } from 'buffer';
+import { TextDecoder, TextEncoder } from 'util';
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import {
+  buildImportErrorReport,
+  chunk,
+  ImportExistingProduct,
+  planProductImport,
+  suggestColumnMapping } from
+'@/utils/productImport';
+import { parseXlsxSheet, readXlsx } from '@/utils/spreadsheet';
+
+Object.assign(globalThis, { TextDecoder, TextEncoder });
+
+const existing: ImportExistingProduct[] = [
+{
+  id: 1,
+  product_name: 'Cola 12oz',
+  bar_code_unit: '049000028911',
+  bar_code_case: '10049000028918',
+  case_price: 12,
+  unit_per_case: 24,
+  unit_price: 0.5,
+  retail_price: 1.29,
+  supplier: 'Coca-Cola',
+  category: 'Beverages'
+},
+{
+  id: 2,
+  product_name: 'Chips',
+  bar_code_unit: '028400090896',
+  bar_code_case: '',
+  case_price: 18,
+  unit_per_case: 36,
+  unit_price: 0.5,
+  retail_price: 1.99,
+  supplier: 'Frito Lay',
+  category: 'Snacks'
+}];
+
+
+const headers = ['UPC', 'Item Description', 'Case Cost', 'Pack', 'SRP', 'Vendor', 'Category'];
+const mapping = suggestColumnMapping(headers);
+
+// Minimal zip with deflated entries, as Excel writes them
+const buildZip = (files: Record<string, string>): Uint8Array => {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt16LE(nameBytes.length, 26);
+    local.push(header, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBytes);
+    offset += header.length + nameBytes.length + data.length;
+  }
+  const centralSize = central.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...local, ...central, end]));
+};
+
+describe('product catalog import', () => {
+  test('maps common vendor price list headers to product fields', () => {
+    expect(mapping).toEqual({
+      product_name: 1,
+      bar_code_unit: 0,
+      case_price: 2,
+      unit_per_case: 3,
+      retail_price: 4,
+      supplier: 5,
+      category: 6
+    });
+  });
+
+  test('plans updates for barcode matches, creates for new barcodes and skips unchanged rows', () => {
+    const plan = planProductImport([
+    ['49000028911', 'COKE 12OZ CAN', '$13.20', '24', '1.29', 'Coca-Cola', 'Beverages'],
+    ['10049000028918', 'COKE CASE', '13.20', '24', '1.29', 'Coca-Cola', 'Beverages'],
+    ['028400090896', 'Chips', '18.00', '36', '1.99', 'Frito Lay', 'Snacks'],
+    ['012000001291', 'Water 16oz', '9.60', '24', '0.99', 'Pepsi', 'Beverages'],
+    ['0012000001291', 'Water 16oz', '9.60', '24', '0.99', 'Pepsi', 'Beverages']],
+    mapping, existing);
+
+    expect(plan.updates).toEqual([{
+      rowNumber: 2,
+      productId: 1,
+      productName: 'Cola 12oz',
+      changes: [
+      { field: 'case_price', oldValue: 12, newValue: 13.2 },
+      { field: 'unit_price', oldValue: 0.5, newValue: 0.55 }]
+
+    }]);
+    expect(plan.creates).toEqual([{
+      rowNumber: 5,
+      values: {
+        product_name: 'Water 16oz',
+        bar_code_unit: '012000001291',
+        case_price: 9.6,
+        unit_per_case: 24,
+        retail_price: 0.99,
+        supplier: 'Pepsi',
+        category: 'Beverages',
+        unit_price: 0.4
+      }
+    }]);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.errors).toEqual([
+    expect.objectContaining({ rowNumber: 3, message: 'Matches the same product as row 2' }),
+    expect.objectContaining({ rowNumber: 6, message: 'Barcode also appears on row 5' })]
+    );
+  });
+
+  test('reports rows that cannot be imported', () => {
+    const plan = planProductImport([
+    ['', 'Chips', '18.00', '36', '1.99', '', ''],
+    ['011111111111', '', '5.00', '12', '', '', ''],
+    ['022222222222', 'Gum', 'abc', '0', '', '', '']],
+    mapping, existing);
+
+    expect(plan.creates).toHaveLength(0);
+    expect(plan.errors.map((error) => error.message)).toEqual([
+    'No barcode to match on and a product with this name already exists',
+    'Product name is required for new products',
+    'Case Price "abc" is not a valid amount; Units Per Case must be a whole number of at least 1']
+    );
+    expect(buildImportErrorReport(plan.errors).split('\n')).toEqual([
+    'Row,Product Name,Barcode,Error',
+    '2,Chips,,No barcode to match on and a product with this name already exists',
+    '3,,011111111111,Product name is required for new products',
+    '4,Gum,022222222222,"Case Price ""abc"" is not a valid amount; Units Per Case must be a whole number of at least 1"']
+    );
+  });
+
+  test('splits commits into batches', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  test('reads the first worksheet of an xlsx workbook, resolving shared strings', async () => {
+    const sharedStrings = '<sst><si><t>UPC</t></si><si><t>Item Description</t></si><si><r><t>Cola </t></r><r><t>12oz</t></r></si></sst>';
+    const sheet = '<worksheet><sheetData>' +
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+    '<row r="2"><c r="A2"><v>49000028911</v></c><c r="C2" t="inlineStr"><is><t>note</t></is></c></row>' +
+    '<row r="3"><c r="B3" t="s"><v>2</v></c></row>' +
+    '</sheetData></worksheet>';
+
+    expect(parseXlsxSheet(sheet, sharedStrings)).toEqual([
+    ['UPC', 'Item Description'],
+    ['49000028911', '', 'note'],
+    ['', 'Cola 12oz']]
+    );
+
+    const workbook = buildZip({
+      'xl/worksheets/sheet2.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Other</t></is></c></row></sheetData></worksheet>',
+      'xl/worksheets/sheet1.xml': sheet,
+      'xl/sharedStrings.xml': sharedStrings
+    });
+    const rows = await readXlsx(workbook, async (data) => new Uint8Array(inflateRawSync(data)));
+    expect(rows[0]).toEqual(['UPC', 'Item Description']);
+    expect(rows).toHaveLength(3);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  areOrderLinesLocked,
+  calculateOrderTotal,
+  getCaseCost,
+  getOrderStatus,
+  getReceiptQuantityError,
+  getRemainingQuantity,
+  getUnitsForQuantity,
+  ReceivableLine } from
+'@/utils/purchaseOrders';
+
+describe('Purchase orders', () => {
+  test('Order totals add line subtotals and round to cents', () => {
+    expect(calculateOrderTotal([{ subtotal: 10.1 }, { subtotal: 20.2 }, { subtotal: 4.444 }])).toBe(34.74);
+    expect(calculateOrderTotal([])).toBe(0);
+  });
+
+  test('Status moves from pending to partially received to delivered', () => {
+    const lines = [
+    { quantity: 5, subtotal: 50, quantity_received: 0 },
+    { quantity: 2, subtotal: 30, quantity_received: 0 }];
+
+    expect(getOrderStatus(lines)).toBe('Pending');
+
+    lines[0].quantity_received = 3;
+    expect(getOrderStatus(lines)).toBe('Partially Received');
+    expect(getRemainingQuantity(lines[0])).toBe(2);
+
+    lines[0].quantity_received = 5;
+    lines[1].quantity_received = 2;
+    expect(getOrderStatus(lines)).toBe('Delivered');
+  });
+
+  test('Over-received lines count as complete', () => {
+    const line = { quantity: 4, subtotal: 40, quantity_received: 6 };
+    expect(getRemainingQuantity(line)).toBe(0);
+    expect(getOrderStatus([line])).toBe('Delivered');
+  });
+
+  test('Lines are locked once anything has been received', () => {
+    expect(areOrderLinesLocked([{ quantity_received: 0 }, {}])).toBe(false);
+    expect(areOrderLinesLocked([{ quantity_received: 0 }, { quantity_received: 0.5 }])).toBe(true);
+  });
+
+  describe('Receiving', () => {
+    const caseLine: ReceivableLine = { product_name: 'Cola 12oz', unit_type: 'cases', units_per_case: 24, quantity: 3, quantity_received: 1 };
+    const pieceLine: ReceivableLine = { product_name: 'Chips', unit_type: 'pieces', units_per_case: 36, quantity: 10, quantity_received: 0 };
+
+    test('Cases are expanded to stock units, including part cases', () => {
+      expect(getUnitsForQuantity(caseLine, 2)).toBe(48);
+      expect(getUnitsForQuantity(caseLine, 1.5)).toBe(36);
+      expect(getUnitsForQuantity(pieceLine, 7)).toBe(7);
+    });
+
+    test('Received cost is converted to a case cost', () => {
+      expect(getCaseCost(caseLine, 13.2)).toBe(13.2);
+      expect(getCaseCost(pieceLine, 0.5)).toBe(18);
+    });
+
+    test('Quantities above what is outstanding are rejected', () => {
+      expect(getReceiptQuantityError(caseLine, 2)).toBeNull();
+      expect(getReceiptQuantityError(caseLine, 2.5)).toBe('Cola 12oz: cannot receive 2.5, only 2 outstanding');
+      expect(getReceiptQuantityError({ ...caseLine, quantity_received: 3 }, 1)).toBe('Cola 12oz: cannot receive 1, only 0 outstanding');
+      expect(getReceiptQuantityError(pieceLine, 0)).toBe('Chips: received quantity must be greater than zero');
+    });
+  });
+});
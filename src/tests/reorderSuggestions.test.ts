@@ -0,0 +1,57 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildReorderSuggestions,
+  calculateReorderSuggestion,
+  getTargetStock,
+  UNASSIGNED_SUPPLIER,
+  ReorderProduct } from
+'@/utils/reorderSuggestions';
+
+const makeProduct = (overrides: Partial<ReorderProduct>): ReorderProduct => ({
+  id: 1,
+  product_name: 'Test Product',
+  supplier: 'Acme Distributors',
+  quantity_in_stock: 0,
+  minimum_stock: 10,
+  unit_per_case: 12,
+  case_price: 24,
+  unit_price: 2,
+  ...overrides
+});
+
+describe('Reorder suggestions', () => {
+  test('Target stock scales minimum stock and never drops below it', () => {
+    expect(getTargetStock(10, 2)).toBe(20);
+    expect(getTargetStock(10, 0.5)).toBe(10);
+  });
+
+  test('Products above minimum or without a minimum are not suggested', () => {
+    expect(calculateReorderSuggestion(makeProduct({ quantity_in_stock: 11 }))).toBeNull();
+    expect(calculateReorderSuggestion(makeProduct({ minimum_stock: 0 }))).toBeNull();
+  });
+
+  test('Rounds the shortfall up to whole cases', () => {
+    const suggestion = calculateReorderSuggestion(makeProduct({ quantity_in_stock: 5 }), 2);
+    expect(suggestion?.unitsNeeded).toBe(15);
+    expect(suggestion?.casesToOrder).toBe(2);
+    expect(suggestion?.subtotal).toBe(48);
+  });
+
+  test('Falls back to unit price when no case price is set', () => {
+    const suggestion = calculateReorderSuggestion(makeProduct({ case_price: 0, unit_price: 1.5, unit_per_case: 6 }));
+    expect(suggestion?.caseCost).toBe(9);
+  });
+
+  test('Groups suggestions by supplier with unassigned products last', () => {
+    const groups = buildReorderSuggestions([
+    makeProduct({ id: 1, supplier: 'Zeta Supply' }),
+    makeProduct({ id: 2, supplier: '' }),
+    makeProduct({ id: 3, supplier: 'Acme Distributors' }),
+    makeProduct({ id: 4, supplier: 'Acme Distributors', quantity_in_stock: 50 })]
+    );
+
+    expect(groups.map((group) => group.supplier)).toEqual(['Acme Distributors', 'Zeta Supply', UNASSIGNED_SUPPLIER]);
+    expect(groups[0].suggestions).toHaveLength(1);
+    expect(groups[0].totalCases).toBe(2);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  getReportStatus,
+  getReviewActions,
+  isReportLocked,
+  validateReviewAction } from
+'@/utils/salesReportWorkflow';
+
+describe('sales report review workflow', () => {
+  test('reports saved without a status are awaiting review', () => {
+    expect(getReportStatus({ status: null })).toBe('submitted');
+    expect(getReportStatus({ status: 'Approved' })).toBe('approved');
+    expect(getReviewActions({})).toEqual(['approve', 'reject']);
+  });
+
+  test('approved reports are locked until reopened', () => {
+    const approved = { status: 'approved' };
+
+    expect(isReportLocked(approved)).toBe(true);
+    expect(getReviewActions(approved)).toEqual(['reopen']);
+    expect(isReportLocked({ status: 'reopened' })).toBe(false);
+  });
+
+  test('rejecting needs a comment and reopening needs a reason', () => {
+    expect(validateReviewAction({ status: 'submitted' }, 'reject', '  ')).toMatch(/comment/);
+    expect(validateReviewAction({ status: 'submitted' }, 'reject', 'Cash count is off')).toBeNull();
+    expect(validateReviewAction({ status: 'approved' }, 'reopen')).toMatch(/reason/);
+    expect(validateReviewAction({ status: 'submitted' }, 'approve')).toBeNull();
+  });
+
+  test('steps out of order are refused', () => {
+    expect(validateReviewAction({ status: 'approved' }, 'approve')).toBe('A report that is approved cannot be approved');
+    expect(validateReviewAction({ status: 'rejected' }, 'reopen', 'Wrong date')).toMatch(/cannot be reopened/);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  DEFAULT_SECURITY_SETTINGS,
+  diffSecuritySettings,
+  formatPasswordErrors,
+  isClientIpAllowed,
+  isIpAllowed,
+  isSessionExpired,
+  isValidAllowlistEntry,
+  mergeSecuritySettings,
+  validatePassword } from
+'@/utils/securityPolicy';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('password policy', () => {
+  test('every rule that is not met is reported', () => {
+    const policy = DEFAULT_SECURITY_SETTINGS.passwordPolicy;
+
+    expect(validatePassword('Str0ng!pass', policy)).toEqual([]);
+    expect(formatPasswordErrors(validatePassword('short', policy))).toBe(
+      'Password must contain at least 8 characters, an uppercase letter, a number, a special character'
+    );
+    expect(validatePassword('longenough', { ...policy, requireUppercase: false, requireNumbers: false, requireSpecialChars: false })).toEqual([]);
+  });
+});
+
+describe('session timeout and IP allowlist', () => {
+  test('sessions expire only after the idle timeout', () => {
+    const last = now.getTime() - 61 * 60 * 1000;
+    expect(isSessionExpired(last, 60, now.getTime())).toBe(true);
+    expect(isSessionExpired(last, 90, now.getTime())).toBe(false);
+    expect(isSessionExpired(last, 0, now.getTime())).toBe(false);
+  });
+
+  test('addresses are matched exactly or by IPv4 range', () => {
+    const allowlist = ['192.168.1.0/24', '203.0.113.10', '2001:db8::1'];
+
+    expect(isIpAllowed('192.168.1.77', allowlist)).toBe(true);
+    expect(isIpAllowed('192.168.2.1', allowlist)).toBe(false);
+    expect(isIpAllowed('203.0.113.10', allowlist)).toBe(true);
+    expect(isIpAllowed('2001:DB8::1', allowlist)).toBe(true);
+    expect(isValidAllowlistEntry('10.0.0.0/8')).toBe(true);
+    expect(isValidAllowlistEntry('10.0.0.256')).toBe(false);
+    expect(isValidAllowlistEntry('10.0.0.0/33')).toBe(false);
+  });
+
+  test('the allowlist fails open when it is off or the client IP is unknown', () => {
+    const systemSecurity = { ...DEFAULT_SECURITY_SETTINGS.systemSecurity, enableIPWhitelist: true, ipWhitelist: ['192.168.1.0/24'] };
+
+    expect(isClientIpAllowed('192.168.1.5', systemSecurity)).toBe(true);
+    expect(isClientIpAllowed('198.51.100.7', systemSecurity)).toBe(false);
+    expect(isClientIpAllowed(null, systemSecurity)).toBe(true);
+    expect(isClientIpAllowed('198.51.100.7', { ...systemSecurity, enableIPWhitelist: false })).toBe(true);
+  });
+});
+
+describe('stored settings', () => {
+  test('missing fields fall back to defaults and changes are diffed per field', () => {
+    const stored = mergeSecuritySettings({ passwordPolicy: { minLength: 12 } } as any);
+
+    expect(stored.passwordPolicy.minLength).toBe(12);
+    expect(stored.passwordPolicy.requireUppercase).toBe(true);
+    expect(stored.accountSecurity).toEqual(DEFAULT_SECURITY_SETTINGS.accountSecurity);
+    expect(diffSecuritySettings(DEFAULT_SECURITY_SETTINGS, stored)).toEqual({
+      'passwordPolicy.minLength': { from: 8, to: 12 }
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildTwimlResponse,
+  classifyKeyword,
+  handleInboundMessage,
+  InboundHistoryEntry,
+  InboundMessage,
+  InboundStore,
+  parseInboundMessage } from
+'../../supabase/functions/sms-inbound/inbound';
+import { normalizePhoneKey, phoneNumbersMatch } from '../../supabase/functions/_shared/phone';
+
+const createMemoryStore = (contacts: {mobile_number: string;opt_out: boolean;}[]) => {
+  const history: InboundHistoryEntry[] = [];
+  const store: InboundStore = {
+    async setOptOut(phoneNumber, optOut) {
+      const matches = contacts.filter((contact) => phoneNumbersMatch(contact.mobile_number, phoneNumber));
+      matches.forEach((contact) => contact.opt_out = optOut);
+      return matches.length;
+    },
+    async logMessage(entry) {
+      history.push(entry);
+    }
+  };
+  return { store, history };
+};
+
+const inbound = (body: string): InboundMessage => ({
+  provider: 'ClickSend',
+  from: '+15551234567',
+  to: '+15557654321',
+  body,
+  messageId: 'in-1'
+});
+
+describe('inbound SMS keywords', () => {
+  test('recognises compliance keywords regardless of case and punctuation', () => {
+    expect(classifyKeyword('stop')).toBe('STOP');
+    expect(classifyKeyword(' Unsubscribe. ')).toBe('STOP');
+    expect(classifyKeyword('START')).toBe('START');
+    expect(classifyKeyword('help?')).toBe('HELP');
+    expect(classifyKeyword('please stop sending')).toBeNull();
+    expect(classifyKeyword('')).toBeNull();
+  });
+
+  test('parses Twilio and ClickSend webhook payloads', () => {
+    expect(parseInboundMessage({ MessageSid: 'SM1', From: '+15551234567', To: '+15557654321', Body: 'STOP' })).toEqual({
+      provider: 'Twilio', from: '+15551234567', to: '+15557654321', body: 'STOP', messageId: 'SM1'
+    });
+    expect(parseInboundMessage({ from: '+15551234567', body: 'HELP', message_id: 'abc' })).toMatchObject({
+      provider: 'ClickSend', from: '+15551234567', body: 'HELP', messageId: 'abc'
+    });
+    expect(parseInboundMessage({ unexpected: true })).toBeNull();
+  });
+});
+
+describe('handleInboundMessage', () => {
+  test('STOP opts out every contact with the number and logs the reply', async () => {
+    const contacts = [
+    { mobile_number: '(555) 123-4567', opt_out: false },
+    { mobile_number: '+1 555 123 4567', opt_out: false },
+    { mobile_number: '+15559999999', opt_out: false }];
+
+    const { store, history } = createMemoryStore(contacts);
+
+    const result = await handleInboundMessage(inbound('Stop'), store, { now: new Date('2026-10-19T12:00:00Z') });
+
+    expect(result.keyword).toBe('STOP');
+    expect(result.contactsUpdated).toBe(2);
+    expect(contacts.map((contact) => contact.opt_out)).toEqual([true, true, false]);
+    expect(history[0]).toMatchObject({ status: 'Received', message_type: 'inbound_stop', recipient_phone: '+15551234567' });
+    expect(result.reply).toMatch(/unsubscribed/);
+  });
+
+  test('START clears the opt-out', async () => {
+    const contacts = [{ mobile_number: '+15551234567', opt_out: true }];
+    const { store } = createMemoryStore(contacts);
+
+    const result = await handleInboundMessage(inbound('start'), store);
+
+    expect(result.keyword).toBe('START');
+    expect(contacts[0].opt_out).toBe(false);
+  });
+
+  test('HELP replies without changing opt-out and includes the help contact', async () => {
+    const contacts = [{ mobile_number: '+15551234567', opt_out: true }];
+    const { store, history } = createMemoryStore(contacts);
+
+    const result = await handleInboundMessage(inbound('HELP'), store, { helpContact: '555-0100' });
+
+    expect(contacts[0].opt_out).toBe(true);
+    expect(result.reply).toMatch(/Contact: 555-0100$/);
+    expect(history[0].message_type).toBe('inbound_help');
+  });
+
+  test('other replies are logged without a response', async () => {
+    const { store, history } = createMemoryStore([]);
+
+    const result = await handleInboundMessage(inbound('On my way'), store);
+
+    expect(result).toEqual({ keyword: null, contactsUpdated: 0, reply: null });
+    expect(history[0].message_type).toBe('inbound');
+  });
+});
+
+describe('phone helpers and TwiML', () => {
+  test('normalises formatting and the North American country code', () => {
+    expect(normalizePhoneKey('(555) 123-4567')).toBe('15551234567');
+    expect(normalizePhoneKey('+44 20 7946 0958')).toBe('442079460958');
+    expect(phoneNumbersMatch('', '')).toBe(false);
+  });
+
+  test('escapes the reply inside the TwiML message', () => {
+    expect(buildTwimlResponse('Msg & data <rates>')).toContain('<Message>Msg &amp; data &lt;rates&gt;</Message>');
+    expect(buildTwimlResponse(null)).toContain('<Response></Response>');
+  });
+});
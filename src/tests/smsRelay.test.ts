@@ -0,0 +1,178 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  createMockProvider,
+  createProviderFromEnv,
+  createTwilioProvider,
+  handleRelayRequest,
+  normalizeProviderName,
+  RelayHistoryEntry,
+  RelayStore } from
+'../../supabase/functions/sms-relay/relay';
+import { MOCK_SENT_STATUS } from '../../supabase/functions/_shared/smsStatus';
+
+const createMemoryStore = (dailyLimit: number, sentToday: number = 0, optedOut: string[] = []) => {
+  const history: RelayHistoryEntry[] = [];
+  const store: RelayStore = {
+    async getSettings() {
+      return { provider: 'Mock' as const, fromNumber: 'DFS', dailyLimit };
+    },
+    async isOptedOut(phoneNumber) {
+      return optedOut.includes(phoneNumber);
+    },
+    async countSentSince() {
+      return sentToday + history.filter((entry) => entry.status === 'Sent').length;
+    },
+    async logMessage(entry) {
+      history.push(entry);
+    }
+  };
+  return { store, history };
+};
+
+const now = () => new Date('2026-10-19T12:00:00Z');
+
+// The mock provider under a real provider's name, for the paths that log real sends
+const createTestProvider = (options: Parameters<typeof createMockProvider>[0] = {}) => ({
+  ...createMockProvider(options),
+  name: 'ClickSend'
+});
+
+describe('SMS relay', () => {
+  test('sends through the provider and logs the message as sent', async () => {
+    const provider = createTestProvider();
+    const { store, history } = createMemoryStore(10);
+
+    const result = await handleRelayRequest(
+      { action: 'send', to: '+15551234567', message: 'Tank low', type: 'alert' },
+      { provider, store, now }
+    );
+
+    expect(result.success).toBe(true);
+    expect(provider.sent).toEqual([{ to: '+15551234567', body: 'Tank low', from: 'DFS' }]);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ status: 'Sent', message_type: 'alert', sender_name: 'DFS' });
+  });
+
+  test('rejects numbers that are not E.164 without calling the provider', async () => {
+    const provider = createMockProvider();
+    const { store, history } = createMemoryStore(10);
+
+    const result = await handleRelayRequest({ action: 'send', to: '5551234567', message: 'Hi' }, { provider, store, now });
+
+    expect(result.success).toBe(false);
+    expect(provider.sent).toHaveLength(0);
+    expect(history).toHaveLength(0);
+  });
+
+  test('enforces the daily limit', async () => {
+    const provider = createTestProvider();
+    const { store } = createMemoryStore(2, 1);
+
+    const first = await handleRelayRequest({ action: 'send', to: '+15551234567', message: 'One' }, { provider, store, now });
+    const second = await handleRelayRequest({ action: 'send', to: '+15551234567', message: 'Two' }, { provider, store, now });
+
+    expect(first.success).toBe(true);
+    expect(second.success).toBe(false);
+    expect(second.error).toMatch(/Daily SMS limit exceeded/);
+    expect(provider.sent).toHaveLength(1);
+  });
+
+  test('refuses to send to recipients who opted out', async () => {
+    const provider = createMockProvider();
+    const { store, history } = createMemoryStore(10, 0, ['+15551234567']);
+
+    const result = await handleRelayRequest({ action: 'send', to: '+15551234567', message: 'Hi' }, { provider, store, now });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/opted out/);
+    expect(provider.sent).toHaveLength(0);
+    expect(history).toHaveLength(0);
+  });
+
+  test('logs provider failures', async () => {
+    const provider = createMockProvider({ failNumbers: ['+15550000000'] });
+    const { store, history } = createMemoryStore(10);
+
+    const result = await handleRelayRequest({ action: 'send', to: '+15550000000', message: 'Hi' }, { provider, store, now });
+
+    expect(result.success).toBe(false);
+    expect(history[0]).toMatchObject({ status: 'Failed', error_message: 'Mock provider rejected the number' });
+  });
+
+  test('logs mock sends as simulated without counting them toward the limit', async () => {
+    const provider = createMockProvider();
+    const { store, history } = createMemoryStore(1);
+
+    const first = await handleRelayRequest({ action: 'send', to: '+15551234567', message: 'One' }, { provider, store, now });
+    const second = await handleRelayRequest({ action: 'send', to: '+15551234567', message: 'Two' }, { provider, store, now });
+
+    expect(first.success).toBe(true);
+    expect(second.success).toBe(true);
+    expect(history.map((entry) => entry.status)).toEqual([MOCK_SENT_STATUS, MOCK_SENT_STATUS]);
+  });
+
+  test('only uses the mock provider when the relay flag is set', () => {
+    const noSecrets = (): undefined => undefined;
+    const mockFlag = (key: string) => key === 'SMS_RELAY_PROVIDER' ? 'mock' : undefined;
+
+    expect(createProviderFromEnv('Mock', noSecrets)).toBeNull();
+    expect(createProviderFromEnv('Mock', mockFlag)?.name).toBe('Mock');
+    expect(createProviderFromEnv('ClickSend', mockFlag)?.name).toBe('Mock');
+  });
+
+  test('reports the provider account', async () => {
+    const { store } = createMemoryStore(10);
+    const result = await handleRelayRequest({ action: 'account' }, { provider: createMockProvider({ balance: 12.5 }), store });
+
+    expect(result).toEqual({ success: true, balance: 12.5, provider: 'Mock' });
+  });
+
+  test('maps stored service names onto known providers', () => {
+    expect(normalizeProviderName('twilio')).toBe('Twilio');
+    expect(normalizeProviderName('Mock')).toBe('Mock');
+    expect(normalizeProviderName('Sinch ClickSend')).toBe('ClickSend');
+    expect(normalizeProviderName(null)).toBe('ClickSend');
+  });
+});
+
+describe('Twilio provider', () => {
+  type FetchInit = Parameters<typeof fetch>[1];
+
+  const createFetch = (payload: unknown, ok: boolean = true) => {
+    const calls: {url: string;init: FetchInit;}[] = [];
+    const fetchImpl = (async (url: string, init: FetchInit) => {
+      calls.push({ url, init });
+      return { ok, status: ok ? 201 : 400, statusText: ok ? 'Created' : 'Bad Request', json: async () => payload };
+    }) as unknown as typeof fetch;
+    return { calls, fetchImpl };
+  };
+
+  test('posts a form-encoded message and reads the SID and price', async () => {
+    const { calls, fetchImpl } = createFetch({ sid: 'SM123', status: 'queued', price: '-0.0079' });
+    const provider = createTwilioProvider('AC1', 'token', fetchImpl, 'https://twilio.test');
+
+    const result = await provider.send('+15551234567', 'Hello', '+15557654321');
+
+    expect(result).toEqual({ success: true, messageId: 'SM123', status: 'queued', cost: 0.0079, error: undefined });
+    expect(calls[0].url).toBe('https://twilio.test/Accounts/AC1/Messages.json');
+    expect(String(calls[0].init.body)).toBe('To=%2B15551234567&Body=Hello&From=%2B15557654321');
+  });
+
+  test('uses a messaging service SID as the sender', async () => {
+    const { calls, fetchImpl } = createFetch({ sid: 'SM1', status: 'accepted' });
+    const provider = createTwilioProvider('AC1', 'token', fetchImpl, 'https://twilio.test');
+
+    await provider.send('+15551234567', 'Hi', 'MG0001');
+
+    expect(String(calls[0].init.body)).toContain('MessagingServiceSid=MG0001');
+  });
+
+  test('returns the API error message on failure', async () => {
+    const { fetchImpl } = createFetch({ message: 'The number is unverified' }, false);
+    const provider = createTwilioProvider('AC1', 'token', fetchImpl, 'https://twilio.test');
+
+    const result = await provider.send('+15551234567', 'Hi', '+15557654321');
+
+    expect(result).toEqual({ success: false, error: 'The number is unverified' });
+  });
+});
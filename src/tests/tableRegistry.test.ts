@@ -0,0 +1,53 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  findTableDefinition,
+  getRegisteredTableIds,
+  resolveTableName,
+  TABLE_IDS,
+  TABLE_REGISTRY,
+  UnknownTableIdError } from
+'@/services/supabase/tableRegistry';
+
+describe('Table registry', () => {
+  test('Legacy table IDs resolve to their Supabase tables', () => {
+    expect(resolveTableName(11726)).toBe('products');
+    expect(resolveTableName('27001')).toBe('order_items');
+    expect(findTableDefinition(12356)?.table).toBe('sales_reports');
+  });
+
+  test('Tables read through a view are written to their base table', () => {
+    expect(resolveTableName(11727)).toBe('employees_view');
+    expect(resolveTableName(11727, true)).toBe('employees');
+    expect(resolveTableName(11726, true)).toBe('products');
+  });
+
+  test('Aliases resolve to the same table as the primary ID', () => {
+    expect(resolveTableName(24202)).toBe('sms_history');
+    expect(findTableDefinition(24202)).toBe(findTableDefinition(24062));
+  });
+
+  test('Unknown IDs raise UnknownTableIdError naming the ID', () => {
+    expect(findTableDefinition(99999)).toBeUndefined();
+    expect(() => resolveTableName(99999)).toThrow(UnknownTableIdError);
+
+    let error: unknown = null;
+    try {
+      resolveTableName('99999', true);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(UnknownTableIdError);
+    expect((error as UnknownTableIdError).tableId).toBe('99999');
+    expect((error as Error).message).toContain('Unknown table ID: 99999');
+  });
+
+  test('Every registered ID is unique and listed', () => {
+    const ids = Object.values(TABLE_REGISTRY).flatMap((definition) => [
+    definition.id,
+    ...('aliases' in definition ? definition.aliases : [])].
+    map(String));
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(getRegisteredTableIds().sort()).toEqual([...ids].sort());
+    expect(TABLE_IDS.products).toBe(11726);
+  });
+});
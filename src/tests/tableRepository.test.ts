@@ -0,0 +1,109 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+
+// Records the query builder calls the adapter makes and answers with the rows
+// queued for the next query
+const calls: [string, ...unknown[]][] = [];
+const responses: {data: unknown[];count: number;error: unknown;}[] = [];
+
+const queryBuilder: Record<string, unknown> = {};
+['select', 'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'in', 'is', 'not', 'order', 'range'].forEach((method) => {
+  queryBuilder[method] = (...args: unknown[]) => {
+    calls.push([method, ...args]);
+    return queryBuilder;
+  };
+});
+queryBuilder.then = (resolve: (value: unknown) => unknown) =>
+resolve(responses.shift() || { data: [], count: 0, error: null });
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: (table: string) => {
+      calls.push(['from', table]);
+      return queryBuilder;
+    }
+  }
+}));
+
+import { FilterBuilder } from '@/services/repositories/filterBuilder';
+import { TableRepository } from '@/services/repositories/tableRepository';
+import type { ProductRow } from '@/services/supabase/tableRegistry';
+
+describe('Table repositories', () => {
+  beforeEach(() => {
+    calls.length = 0;
+    responses.length = 0;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  test('Filter builder collects filters in order, omitting values for null checks', () => {
+    const filters = new FilterBuilder<ProductRow>().
+    equal('category', 'Beverages').
+    greaterThanOrEqual('quantity_in_stock', 5).
+    like('product_name', 'cola').
+    in('supplier', ['Pepsi', 'Coca-Cola']).
+    isNull('bar_code_case').
+    build();
+
+    expect(filters).toEqual([
+    { name: 'category', op: 'Equal', value: 'Beverages' },
+    { name: 'quantity_in_stock', op: 'GreaterThanOrEqual', value: 5 },
+    { name: 'product_name', op: 'Like', value: 'cola' },
+    { name: 'supplier', op: 'In', value: ['Pepsi', 'Coca-Cola'] },
+    { name: 'bar_code_case', op: 'IsNull' }]
+    );
+  });
+
+  test('Filter operators are translated to Supabase query methods', async () => {
+    const products = new TableRepository('products');
+    await products.page({
+      filters: products.where().
+      equal('category', 'Snacks').
+      notEqual('supplier', 'Frito Lay').
+      greaterThan('retail_price', 1).
+      lessThanOrEqual('case_price', 20).
+      startsWith('product_name', 'Ch').
+      endsWith('bar_code_unit', '96').
+      in('id', [1, 2]).
+      isNotNull('bar_code_unit')
+    });
+
+    expect(calls.filter(([method]) => !['from', 'select', 'order', 'range'].includes(method))).toEqual([
+    ['eq', 'category', 'Snacks'],
+    ['neq', 'supplier', 'Frito Lay'],
+    ['gt', 'retail_price', 1],
+    ['lte', 'case_price', 20],
+    ['like', 'product_name', 'Ch%'],
+    ['like', 'bar_code_unit', '%96'],
+    ['in', 'id', [1, 2]],
+    ['not', 'bar_code_unit', 'is', null]]
+    );
+  });
+
+  test('Pages are read from the registered table with ordering and a row range', async () => {
+    responses.push({ data: [{ id: 3 }], count: 41, error: null });
+    const result = await new TableRepository('employees').page({ orderBy: 'last_name', ascending: false, page: 3, pageSize: 20 });
+
+    expect(result).toEqual({ rows: [{ id: 3 }], total: 41, error: null });
+    expect(calls).toEqual([
+    ['from', 'employees_view'],
+    ['select', '*', { count: 'exact' }],
+    ['order', 'last_name', { ascending: false }],
+    ['range', 40, 59]]
+    );
+  });
+
+  test('findAll keeps reading pages until every row is loaded', async () => {
+    responses.push(
+      { data: [{ id: 1 }, { id: 2 }], count: 3, error: null },
+      { data: [{ id: 3 }], count: 3, error: null }
+    );
+    const rows = await new TableRepository('products').findAll({ orderBy: 'id', pageSize: 2 });
+
+    expect(rows.map((row) => row.id)).toEqual([1, 2, 3]);
+    expect(calls.filter(([method]) => method === 'range')).toEqual([['range', 0, 1], ['range', 2, 3]]);
+    expect(calls.filter(([method]) => method === 'order')).toEqual([
+    ['order', 'id', { ascending: true }],
+    ['order', 'id', { ascending: true }]]
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildTankLedger,
+  deliveriesToMovements,
+  resolveThresholds,
+  salesToMovements,
+  StickReading } from
+'@/utils/tankReconciliation';
+
+const reading = (reading_date: string, stick_gallons: number, grade: string = 'regular'): StickReading => ({
+  station: 'MOBIL',
+  reading_date,
+  grade,
+  stick_gallons
+});
+
+const salesReports = [
+{ station: 'MOBIL', report_date: '2026-10-02T00:00:00Z', regular_gallons: 1000, super_gallons: 200, diesel_gallons: 0 },
+{ station: 'MOBIL', report_date: '2026-10-03T00:00:00Z', regular_gallons: 900, super_gallons: 150, diesel_gallons: 0 },
+{ station: 'MOBIL', report_date: '2026-10-04T00:00:00Z', regular_gallons: 800, super_gallons: 100, diesel_gallons: 0 },
+{ station: 'AMOCO', report_date: '2026-10-02T00:00:00Z', regular_gallons: 5000, super_gallons: 0, diesel_gallons: 0 }];
+
+const deliveryRecords = [
+{ station: 'MOBIL', delivery_date: '2026-10-03T09:30:00Z', regular_delivered: 3000, plus_delivered: 0, super_delivered: 500 }];
+
+const sales = salesToMovements(salesReports);
+const deliveries = deliveriesToMovements(deliveryRecords);
+
+describe('buildTankLedger', () => {
+  test('reconciles opening + deliveries - sales against the closing stick', () => {
+    const ledger = buildTankLedger('MOBIL', 'regular', [
+    reading('2026-10-01', 5000),
+    reading('2026-10-02', 3990),
+    reading('2026-10-03', 6100)],
+    deliveries, sales);
+
+    expect(ledger[0]).toMatchObject({ openingGallons: null, bookGallons: null, dailyVariance: null, cumulativeVariance: 0 });
+    expect(ledger[1]).toMatchObject({ openingGallons: 5000, soldGallons: 1000, bookGallons: 4000, dailyVariance: -10, cumulativeVariance: -10 });
+    expect(ledger[2]).toMatchObject({ deliveredGallons: 3000, soldGallons: 900, bookGallons: 6090, dailyVariance: 10, cumulativeVariance: 0 });
+  });
+
+  test('carries movements across days without a reading', () => {
+    const ledger = buildTankLedger('MOBIL', 'regular', [reading('2026-10-01', 5000), reading('2026-10-04', 5250)], deliveries, sales);
+
+    expect(ledger[1]).toMatchObject({ deliveredGallons: 3000, soldGallons: 2700, bookGallons: 5300, dailyVariance: -50 });
+  });
+
+  test('flags daily and cumulative losses past the thresholds', () => {
+    const thresholds = { daily_variance_gallons: 50, cumulative_variance_gallons: 100, cumulative_variance_percent: 1 };
+    const ledger = buildTankLedger('MOBIL', 'regular', [
+    reading('2026-10-01', 5000),
+    reading('2026-10-02', 3940),
+    reading('2026-10-03', 5960)],
+    deliveries, sales, thresholds);
+
+    expect(ledger[1]).toMatchObject({ dailyVariance: -60, dailyFlag: 'loss', cumulativeLimit: 110, cumulativeFlag: 'none' });
+    expect(ledger[2]).toMatchObject({ dailyVariance: -80, cumulativeVariance: -140, cumulativeLimit: 119, cumulativeFlag: 'loss' });
+  });
+
+  test('only uses movements for the requested station and grade', () => {
+    const ledger = buildTankLedger('MOBIL', 'super', [reading('2026-10-01', 1000, 'super'), reading('2026-10-03', 1150, 'super')], deliveries, sales);
+
+    expect(ledger[1]).toMatchObject({ deliveredGallons: 500, soldGallons: 350, dailyVariance: 0 });
+  });
+});
+
+describe('resolveThresholds', () => {
+  test('prefers the station row over the ALL default', () => {
+    const rows = [
+    { station: 'ALL', daily_variance_gallons: 50, cumulative_variance_gallons: 130, cumulative_variance_percent: 1 },
+    { station: 'MOBIL', daily_variance_gallons: 25, cumulative_variance_gallons: 80, cumulative_variance_percent: 0.5 }];
+
+    expect(resolveThresholds(rows, 'MOBIL').daily_variance_gallons).toBe(25);
+    expect(resolveThresholds(rows, 'AMOCO').daily_variance_gallons).toBe(50);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  DEFAULT_USER_PREFERENCES,
+  formatCurrency,
+  formatDate,
+  isDarkTheme,
+  mergeUserPreferences } from
+'@/utils/userPreferences';
+
+describe('user preferences', () => {
+  test('stored preferences fill in defaults and drop unknown formats', () => {
+    const merged = mergeUserPreferences({ dateFormat: 'DD.MM.YY' as any, currency: 'EUR', notifications: { smsAlerts: true } as any });
+
+    expect(merged.dateFormat).toBe(DEFAULT_USER_PREFERENCES.dateFormat);
+    expect(merged.currency).toBe('EUR');
+    expect(merged.notifications).toEqual({ ...DEFAULT_USER_PREFERENCES.notifications, smsAlerts: true });
+    expect(mergeUserPreferences(null)).toEqual(DEFAULT_USER_PREFERENCES);
+  });
+
+  test('dates follow the chosen format without shifting date-only values', () => {
+    expect(formatDate('2026-03-07', 'MM/DD/YYYY')).toBe('03/07/2026');
+    expect(formatDate('2026-03-07', 'DD/MM/YYYY')).toBe('07/03/2026');
+    expect(formatDate('2026-03-07T15:30:00', 'YYYY-MM-DD')).toBe('2026-03-07');
+    expect(formatDate('', 'YYYY-MM-DD')).toBe('N/A');
+    expect(formatDate('not a date')).toBe('N/A');
+  });
+
+  test('amounts use the chosen currency', () => {
+    expect(formatCurrency(1234.5, 'USD')).toBe('$1,234.50');
+    expect(formatCurrency(1234.5, 'EUR')).toBe('€1,234.50');
+    expect(formatCurrency(null, 'GBP')).toBe('£0.00');
+  });
+
+  test('auto theme follows the system setting', () => {
+    expect(isDarkTheme('dark', false)).toBe(true);
+    expect(isDarkTheme('auto', true)).toBe(true);
+    expect(isDarkTheme('auto', false)).toBe(false);
+    expect(isDarkTheme('light', true)).toBe(false);
+  });
+});
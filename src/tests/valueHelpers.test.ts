@@ -0,0 +1,29 @@
+import { describe, test, expect } from '@jest/globals';
+import { roundMoney, roundTo, toDateKey, toNumber } from '@/utils/valueHelpers';
+
+describe('Value helpers', () => {
+  test('numeric columns read as numbers, with 0 for missing values', () => {
+    expect(toNumber('12.50')).toBe(12.5);
+    expect(toNumber(7)).toBe(7);
+    expect(toNumber(null)).toBe(0);
+    expect(toNumber('n/a')).toBe(0);
+  });
+
+  test('amounts round to cents', () => {
+    expect(roundMoney(10.1 + 20.2)).toBe(30.3);
+    expect(roundMoney(4.444)).toBe(4.44);
+  });
+
+  test('values round to the requested number of decimals', () => {
+    expect(roundTo(1234.5678, 2)).toBe(1234.57);
+    expect(roundTo(3.14159, 4)).toBe(3.1416);
+    expect(roundTo(2.5, 0)).toBe(3);
+  });
+
+  test('dates and timestamps share a YYYY-MM-DD key', () => {
+    expect(toDateKey('2026-10-19T08:30:00Z')).toBe('2026-10-19');
+    expect(toDateKey('2026-10-19 08:30:00')).toBe('2026-10-19');
+    expect(toDateKey('2026-10-19')).toBe('2026-10-19');
+    expect(toDateKey(null)).toBe('');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, test, expect } from '@jest/globals';
+import { gradeForProduct, parseVeederRootReport, summarizeTankLevels } from '@/utils/veederRoot';
+
+const inventoryBlocks = `
+I20100
+OCT 18, 2026  6:00 AM
+
+MOBIL
+123 MAIN ST
+
+IN-TANK INVENTORY
+
+T 1:UNLEADED REGULAR
+VOLUME     =   5,234 GALS
+ULLAGE     =   4766 GALS
+90% ULLAGE =   3766 GALS
+TC VOLUME  =   5201 GALS
+HEIGHT     =  48.23 INCHES
+WATER VOL  =      0 GALS
+WATER      =   0.00 INCHES
+TEMP       =  62.15 DEG F
+
+T 2:UNLEADED REGULAR
+VOLUME     =   4100 GALS
+WATER      =   0.40 INCHES
+
+T 3:SUPER UNLEADED
+VOLUME     =   2100 GALS
+WATER      =   0.35 INCHES
+
+T 4:KEROSENE
+VOLUME     =    300 GALS
+`;
+
+const inventoryTable = `
+IN-TANK INVENTORY
+TANK PRODUCT             VOLUME TC VOLUME   ULLAGE   HEIGHT    WATER     TEMP
+  1  REGULAR               5234      5201     4766    48.23     0.00    62.15
+  2  DIESEL                3100      3080     6900    30.10     0.50    60.00
+`;
+
+const deliveryReport = `
+DELIVERY REPORT
+
+T 1:UNLEADED REGULAR
+INCREASE   DATE / TIME             GALLONS TC GALLONS WATER  TEMP DEG F  HEIGHT
+
+     END:  OCT 18, 2026  2:10 PM    8012      7980     0.00    60.12    68.40
+   START:  OCT 18, 2026  1:42 PM    3004      2990     0.00    61.05    32.10
+  AMOUNT:                           5008      4990
+
+     END:  OCT 18, 2026  9:10 PM    9012      8980     0.00    60.12    74.40
+   START:  OCT 18, 2026  8:42 PM    7000      6990     0.00    61.05    60.10
+`;
+
+describe('parseVeederRootReport', () => {
+  test('reads the block inventory format and the report date', () => {
+    const report = parseVeederRootReport(inventoryBlocks);
+
+    expect(report.reportDate).toBe('2026-10-18');
+    expect(report.inventory).toHaveLength(4);
+    expect(report.inventory[0]).toMatchObject({ tankNumber: 1, grade: 'regular', volume: 5234, tcVolume: 5201, height: 48.23, waterInches: 0, temperature: 62.15 });
+    expect(report.warnings).toEqual(['Tank 4: product "KEROSENE" does not match a fuel grade']);
+  });
+
+  test('reads the tabular inventory format', () => {
+    const report = parseVeederRootReport(inventoryTable);
+
+    expect(report.inventory.map((entry) => [entry.tankNumber, entry.grade, entry.volume, entry.waterInches])).toEqual([
+    [1, 'regular', 5234, 0],
+    [2, 'diesel', 3100, 0.5]]
+    );
+  });
+
+  test('reads delivery increases, falling back to end minus start', () => {
+    const report = parseVeederRootReport(deliveryReport);
+
+    expect(report.deliveries).toHaveLength(2);
+    expect(report.deliveries[0]).toMatchObject({ tankNumber: 1, grade: 'regular', startVolume: 3004, endVolume: 8012, increase: 5008, tcIncrease: 4990 });
+    expect(report.deliveries[1]).toMatchObject({ startedAt: 'OCT 18, 2026  8:42 PM', increase: 2012, tcIncrease: null });
+  });
+});
+
+describe('summarizeTankLevels', () => {
+  test('adds up manifolded tanks and deliveries per grade', () => {
+    const levels = summarizeTankLevels(parseVeederRootReport(inventoryBlocks + deliveryReport));
+
+    expect(levels).toEqual([
+    { grade: 'regular', tanks: [1, 2], volume: 9334, waterInches: 0.4, deliveryIncrease: 7020 },
+    { grade: 'super', tanks: [3], volume: 2100, waterInches: 0.35, deliveryIncrease: 0 }]
+    );
+  });
+});
+
+describe('gradeForProduct', () => {
+  test('checks specific grades before regular', () => {
+    expect(gradeForProduct('SUPER UNLEADED')).toBe('super');
+    expect(gradeForProduct('MIDGRADE UNL')).toBe('plus');
+    expect(gradeForProduct('ULSD DIESEL')).toBe('diesel');
+    expect(gradeForProduct('UNLEADED')).toBe('regular');
+  });
+});
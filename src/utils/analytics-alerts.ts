@@ -103,11 +103,11 @@ class AnalyticsAlerts {
       const emailContent = this.generateEmailAlertContent(alert, metricValue, metrics);
 
       const { error } = await window.ezsite.apis.sendEmail({
-        from: 'support@ezsite.ai',
         to: alert.recipients,
         subject: `Analytics Alert: ${alert.metric}`,
         html: emailContent.html,
-        text: emailContent.text
+        text: emailContent.text,
+        type: 'alert'
       });
 
       if (error) {
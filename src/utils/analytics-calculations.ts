@@ -1,5 +1,8 @@
 // Analytics calculation utilities for dashboard metrics
 import { useStationStore } from '@/hooks/use-station-store';
+import { getSalesGallons, GradeGallons } from '@/utils/fuelGrades';
+import { DailyFuelMargin, marginCentsPerGallon, summarizeMarginTrend } from '@/utils/fuelMargins';
+import { fuelPriceService } from '@/services/fuelPriceService';
 
 interface CalculationOptions {
   timeframe: string;
@@ -7,6 +10,9 @@ interface CalculationOptions {
   customDateRange?: {start: Date;end: Date;};
 }
 
+// Used for fuel revenue when no pump prices have been recorded
+const ESTIMATED_PRICE_PER_GALLON = 3.50;
+
 interface MetricCalculation {
   current: number;
   previous: number;
@@ -35,17 +41,18 @@ class AnalyticsCalculations {
       const dateRanges = this.getDateRanges(timeframe, customDateRange);
 
       // Fetch data in parallel
-      const [currentSales, previousSales, currentDeliveries, employees, products] = await Promise.all([
+      const [currentSales, previousSales, currentDeliveries, employees, products, fuelMargins] = await Promise.all([
       this.fetchSalesData(dateRanges.current, stations),
       this.fetchSalesData(dateRanges.previous, stations),
       this.fetchDeliveryData(dateRanges.current, stations),
       this.fetchEmployeeData(stations),
-      this.fetchProductData()]
+      this.fetchProductData(),
+      this.fetchFuelMargins(dateRanges.current, stations)]
       );
 
       // Calculate metrics
       const totalSales = this.calculateSalesMetrics(currentSales, previousSales);
-      const fuelSales = this.calculateFuelMetrics(currentSales, currentDeliveries);
+      const fuelSales = this.calculateFuelMetrics(currentSales, currentDeliveries, fuelMargins);
       const convenienceStoreSales = this.calculateConvenienceMetrics(currentSales, previousSales);
       const expenses = this.calculateExpenseMetrics(currentSales, previousSales);
       const profitMargin = this.calculateProfitMetrics(currentSales, expenses);
@@ -190,6 +197,22 @@ class AnalyticsCalculations {
     }
   }
 
+  // Fetch daily fuel margins from the price book and delivery costs
+  private async fetchFuelMargins(dateRange: {start: Date;end: Date;}, stations: string[]): Promise<DailyFuelMargin[]> {
+    try {
+      const allStations = stations.length === 0 || stations.includes('ALL');
+      const { daily } = await fuelPriceService.getMarginReport(
+        !allStations && stations.length === 1 ? stations[0] : 'ALL',
+        dateRange.start.toISOString().split('T')[0],
+        dateRange.end.toISOString().split('T')[0]
+      );
+      return allStations ? daily : daily.filter((margin) => stations.includes(margin.station));
+    } catch (error) {
+      console.error('Error fetching fuel margins:', error);
+      return [];
+    }
+  }
+
   // Fetch employee data
   private async fetchEmployeeData(stations: string[]) {
     try {
@@ -257,27 +280,32 @@ class AnalyticsCalculations {
   }
 
   // Calculate fuel metrics
-  private calculateFuelMetrics(salesData: any[], deliveryData: any[]) {
-    const fuelSales = salesData.reduce((sum, sale) => {
-      const regularGallons = parseFloat(sale.regular_gallons) || 0;
-      const superGallons = parseFloat(sale.super_gallons) || 0;
-      const dieselGallons = parseFloat(sale.diesel_gallons) || 0;
-      return sum + (regularGallons + superGallons + dieselGallons);
-    }, 0);
+  private calculateFuelMetrics(salesData: any[], deliveryData: any[], fuelMargins: DailyFuelMargin[] = []) {
+    // Gallons per grade, whichever grades each station sells
+    const gallonsByGrade = salesData.reduce((totals: GradeGallons, sale) => {
+      Object.entries(getSalesGallons(sale)).forEach(([grade, gallons]) => {
+        totals[grade] = (totals[grade] || 0) + gallons;
+      });
+      return totals;
+    }, {});
 
     const totalGallons = salesData.reduce((sum, sale) => sum + (parseFloat(sale.total_gallons) || 0), 0);
-    const fuelRevenue = salesData.reduce((sum, sale) => {
-      // Estimate fuel revenue (this would need price data for accuracy)
-      const gallons = parseFloat(sale.total_gallons) || 0;
-      return sum + gallons * 3.50; // Estimated average price per gallon
-    }, 0);
 
-    const avgPricePerGallon = totalGallons > 0 ? fuelRevenue / totalGallons : 0;
+    // Pump prices and delivery costs cover the gallons in fuelMargins
+    const pricedGallons = fuelMargins.reduce((sum, margin) => sum + margin.gallons, 0);
+    const pricedRevenue = fuelMargins.reduce((sum, margin) => sum + margin.revenue, 0);
+    const pricedCost = fuelMargins.reduce((sum, margin) => sum + margin.cost, 0);
+
+    const avgPricePerGallon = pricedGallons > 0 ? pricedRevenue / pricedGallons : ESTIMATED_PRICE_PER_GALLON;
+    const fuelRevenue = totalGallons * avgPricePerGallon;
 
     return {
       current: fuelRevenue,
       gallonsSold: totalGallons,
+      gallonsByGrade,
       avgPricePerGallon,
+      marginPerGallon: marginCentsPerGallon(pricedRevenue, pricedCost, pricedGallons),
+      marginTrend: summarizeMarginTrend(fuelMargins).map(({ date, gallons, centsPerGallon }) => ({ date, gallons, centsPerGallon })),
       change: 0 // Would need previous period data
     };
   }
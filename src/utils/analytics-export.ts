@@ -1,5 +1,8 @@
 // Analytics export utilities for data export and reporting
 
+import { formatCurrency, formatDate, formatDateTime } from '@/utils/userPreferences';
+import { toEmailAttachment } from '@/services/emailRelayClient';
+
 interface ExportOptions {
   metrics: any;
   comparison?: any;
@@ -190,14 +193,17 @@ class AnalyticsExport {
         includeCharts: true
       });
 
+      const attachment = await toEmailAttachment(pdfAttachment.downloadUrl, pdfAttachment.filename, 'application/pdf');
+      URL.revokeObjectURL(pdfAttachment.downloadUrl);
+
       // Send email using the email API
       const emailContent = {
-        from: 'support@ezsite.ai',
         to: recipients,
         subject: this.generateEmailSubject(reportType, timeframe, stations),
         html: reportContent.html,
-        text: reportContent.text
-        // Note: Attachment handling would need to be implemented based on email service
+        text: reportContent.text,
+        attachments: [attachment],
+        type: 'report'
       };
 
       const { error } = await window.ezsite.apis.sendEmail(emailContent);
@@ -268,6 +274,17 @@ class AnalyticsExport {
     'All'].
     join(','));
 
+    rows.push([
+    'Fuel',
+    'Margin (cents per gallon)',
+    metrics.fuelSales.marginPerGallon ?? '',
+    '',
+    '',
+    '',
+    new Date().toISOString(),
+    'All'].
+    join(','));
+
     // Convenience Store Sales
     rows.push([
     'Convenience',
@@ -439,26 +456,26 @@ class AnalyticsExport {
         <div class="header">
           <h1>Dashboard Analytics Report</h1>
           <p>Timeframe: ${timeframe} | Stations: ${stations.join(', ')}</p>
-          <p>Generated: ${new Date().toLocaleString()}</p>
+          <p>Generated: ${formatDateTime(new Date())}</p>
         </div>
         
         <div class="metrics-section">
           <h2>Current Metrics</h2>
           <div class="metric">
             <span>Total Sales:</span>
-            <span>$${metrics.totalSales.current.toLocaleString()}</span>
+            <span>${formatCurrency(metrics.totalSales.current)}</span>
           </div>
           <div class="metric">
             <span>Fuel Revenue:</span>
-            <span>$${metrics.fuelSales.current.toLocaleString()}</span>
+            <span>${formatCurrency(metrics.fuelSales.current)}</span>
           </div>
           <div class="metric">
             <span>Convenience Sales:</span>
-            <span>$${metrics.convenienceStoreSales.current.toLocaleString()}</span>
+            <span>${formatCurrency(metrics.convenienceStoreSales.current)}</span>
           </div>
           <div class="metric">
             <span>Total Expenses:</span>
-            <span>$${metrics.expenses.total.toLocaleString()}</span>
+            <span>${formatCurrency(metrics.expenses.total)}</span>
           </div>
           <div class="metric">
             <span>Profit Margin:</span>
@@ -482,10 +499,10 @@ class AnalyticsExport {
 
     forecast.sales.slice(0, 7).forEach((item: any) => {
       html += `<tr>
-        <td>${item.date}</td>
-        <td>$${item.predicted.toLocaleString()}</td>
+        <td>${formatDate(item.date)}</td>
+        <td>${formatCurrency(item.predicted)}</td>
         <td>${(item.confidence * 100).toFixed(1)}%</td>
-        <td>$${item.lowerBound.toLocaleString()} - $${item.upperBound.toLocaleString()}</td>
+        <td>${formatCurrency(item.lowerBound)} - ${formatCurrency(item.upperBound)}</td>
       </tr>`;
     });
 
@@ -501,16 +518,16 @@ class AnalyticsExport {
         <div class="metrics-section">
           <div class="metric">
             <span>Current Period:</span>
-            <span>$${comparison.current.totalSales.current.toLocaleString()}</span>
+            <span>${formatCurrency(comparison.current.totalSales.current)}</span>
           </div>
           <div class="metric">
             <span>Previous Period:</span>
-            <span>$${comparison.previous.totalSales.current.toLocaleString()}</span>
+            <span>${formatCurrency(comparison.previous.totalSales.current)}</span>
           </div>
           <div class="metric">
             <span>Change:</span>
             <span style="color: ${comparison.current.totalSales.change >= 0 ? 'green' : 'red'}">
-              ${comparison.current.totalSales.change >= 0 ? '+' : ''}$${comparison.current.totalSales.change.toLocaleString()}
+              ${comparison.current.totalSales.change >= 0 ? '+' : ''}${formatCurrency(comparison.current.totalSales.change)}
               (${comparison.current.totalSales.changePercent.toFixed(1)}%)
             </span>
           </div>
@@ -568,12 +585,12 @@ ${200 + html.length}
           
           <div style="display: flex; justify-content: space-between; margin: 10px 0; padding: 10px; background: white; border-radius: 4px;">
             <span style="font-weight: bold;">Total Sales:</span>
-            <span style="color: #007bff;">$${metrics.totalSales.current.toLocaleString()}</span>
+            <span style="color: #007bff;">${formatCurrency(metrics.totalSales.current)}</span>
           </div>
           
           <div style="display: flex; justify-content: space-between; margin: 10px 0; padding: 10px; background: white; border-radius: 4px;">
             <span style="font-weight: bold;">Fuel Revenue:</span>
-            <span style="color: #007bff;">$${metrics.fuelSales.current.toLocaleString()}</span>
+            <span style="color: #007bff;">${formatCurrency(metrics.fuelSales.current)}</span>
           </div>
           
           <div style="display: flex; justify-content: space-between; margin: 10px 0; padding: 10px; background: white; border-radius: 4px;">
@@ -595,8 +612,8 @@ Dashboard Analytics Report
 ${reportType.charAt(0).toUpperCase() + reportType.slice(1)} Report | ${timeframe} | ${stations.join(', ')}
 
 Key Metrics Summary:
-- Total Sales: $${metrics.totalSales.current.toLocaleString()}
-- Fuel Revenue: $${metrics.fuelSales.current.toLocaleString()}
+- Total Sales: ${formatCurrency(metrics.totalSales.current)}
+- Fuel Revenue: ${formatCurrency(metrics.fuelSales.current)}
 - Profit Margin: ${metrics.profitMargin.current.toFixed(1)}%
 
 This is an automated report generated by the DFS Manager system.
@@ -615,7 +632,7 @@ This is an automated report generated by the DFS Manager system.
   // Generate email subject
   private generateEmailSubject(reportType: string, timeframe: string, stations: string[]): string {
     const stationStr = stations.length === 1 && stations[0] !== 'ALL' ? stations[0] : 'All Stations';
-    return `${reportType.charAt(0).toUpperCase() + reportType.slice(1)} Analytics Report - ${stationStr} - ${new Date().toLocaleDateString()}`;
+    return `${reportType.charAt(0).toUpperCase() + reportType.slice(1)} Analytics Report - ${stationStr} - ${formatDate(new Date())}`;
   }
 
   // Schedule automated reports
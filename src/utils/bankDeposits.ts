@@ -0,0 +1,201 @@
+// Cash-to-bank reconciliation: the cash collected on each shift report against
+// the deposit slips that carry it to the bank. A deposit matches when its amount
+// equals the cash collected on the reports it lists; a report is undeposited
+// until a slip lists it, and overdue once the grace period has passed.
+
+import { roundMoney, toDateKey, toNumber } from './valueHelpers';
+
+export interface DepositReport {
+  id: number;
+  report_date: string;
+  station: string;
+  shift?: string;
+  employee_name?: string;
+  cash_collection_on_hand: number | string;
+}
+
+export interface BankDeposit {
+  id?: number;
+  station: string;
+  deposit_date: string;
+  bag_number: string;
+  amount: number | string;
+  report_ids: number[] | null;
+}
+
+export interface DepositReconciliation<D extends BankDeposit = BankDeposit> {
+  deposit: D;
+  expected: number;
+  variance: number;
+  matched: boolean;
+  /** Listed report IDs that were not found (deleted reports) */
+  missingReportIds: number[];
+}
+
+export interface UndepositedReport {
+  report: DepositReport;
+  amount: number;
+  daysOutstanding: number;
+  overdue: boolean;
+}
+
+export interface StationDepositSummary {
+  station: string;
+  collected: number;
+  deposited: number;
+  undeposited: number;
+  overdueCount: number;
+  mismatchedCount: number;
+  variance: number;
+}
+
+export interface DepositReconciliationResult<D extends BankDeposit = BankDeposit> {
+  deposits: DepositReconciliation<D>[];
+  undeposited: UndepositedReport[];
+  stations: StationDepositSummary[];
+}
+
+export interface DepositInput {
+  station: string;
+  deposit_date: string;
+  bag_number: string;
+  amount: number;
+  report_ids: number[];
+}
+
+/** Days a shift's cash may sit in the safe before it is flagged */
+export const DEFAULT_DEPOSIT_GRACE_DAYS = 3;
+
+/** Differences up to this amount are treated as rounding */
+export const DEPOSIT_MATCH_TOLERANCE = 0.01;
+
+const daysBetween = (from: string, to: string): number =>
+Math.round((Date.parse(`${toDateKey(to)}T00:00:00Z`) - Date.parse(`${toDateKey(from)}T00:00:00Z`)) / 86400000);
+
+/**
+ * Cash collected on the reports given
+ */
+export const sumCashCollected = (reports: DepositReport[]): number =>
+roundMoney(reports.reduce((sum, report) => sum + toNumber(report.cash_collection_on_hand), 0));
+
+/**
+ * IDs of every report already listed on a deposit
+ */
+export const getDepositedReportIds = (deposits: BankDeposit[]): Set<number> => {
+  const ids = new Set<number>();
+  deposits.forEach((deposit) => (deposit.report_ids || []).forEach((id) => ids.add(Number(id))));
+  return ids;
+};
+
+/**
+ * Returns an error message, or null when the deposit slip can be saved
+ */
+export const validateDeposit = (
+input: DepositInput,
+reports: DepositReport[],
+existingDeposits: BankDeposit[])
+: string | null => {
+  if (!input.station || input.station === 'ALL') return 'Select the station the deposit was made for';
+  if (!input.deposit_date) return 'Deposit date is required';
+  if (!input.bag_number?.trim()) return 'Bag number is required';
+  if (!(input.amount > 0)) return 'Deposit amount must be greater than zero';
+  if (input.report_ids.length === 0) return 'Select the shift reports included in this deposit';
+
+  const byId = new Map(reports.map((report) => [report.id, report]));
+  for (const id of input.report_ids) {
+    const report = byId.get(id);
+    if (!report) return `Sales report #${id} was not found`;
+    if (report.station !== input.station) return `Sales report #${id} belongs to ${report.station}`;
+    if (toDateKey(report.report_date) > toDateKey(input.deposit_date)) {
+      return `The deposit date is before the ${toDateKey(report.report_date)} shift it includes`;
+    }
+  }
+
+  const deposited = getDepositedReportIds(existingDeposits);
+  const alreadyDeposited = input.report_ids.find((id) => deposited.has(id));
+  if (alreadyDeposited !== undefined) return `Sales report #${alreadyDeposited} is already on another deposit`;
+
+  const duplicateBag = existingDeposits.find((deposit) =>
+  deposit.station === input.station && deposit.bag_number.trim().toLowerCase() === input.bag_number.trim().toLowerCase()
+  );
+  if (duplicateBag) return `Bag ${input.bag_number.trim()} was already deposited on ${toDateKey(duplicateBag.deposit_date)}`;
+
+  return null;
+};
+
+/**
+ * Match deposits against the cash collected on their reports and flag the
+ * period's cash that has not been deposited. Reports outside the period that a
+ * deposit lists should be passed too; they only price that deposit.
+ */
+export const reconcileDeposits = <D extends BankDeposit>(
+reports: DepositReport[],
+deposits: D[],
+period: {from: string;to: string;},
+graceDays: number = DEFAULT_DEPOSIT_GRACE_DAYS)
+: DepositReconciliationResult<D> => {
+  const byId = new Map(reports.map((report) => [report.id, report]));
+  const periodReports = reports.filter((report) =>
+  toDateKey(report.report_date) >= period.from && toDateKey(report.report_date) <= period.to
+  );
+
+  const depositResults = [...deposits].
+  sort((a, b) => toDateKey(b.deposit_date).localeCompare(toDateKey(a.deposit_date))).
+  map((deposit) => {
+    const ids = (deposit.report_ids || []).map(Number);
+    const listed = ids.map((id) => byId.get(id)).filter(Boolean) as DepositReport[];
+    const expected = sumCashCollected(listed);
+    const variance = roundMoney(toNumber(deposit.amount) - expected);
+    return {
+      deposit,
+      expected,
+      variance,
+      matched: Math.abs(variance) <= DEPOSIT_MATCH_TOLERANCE && listed.length === ids.length,
+      missingReportIds: ids.filter((id) => !byId.has(id))
+    };
+  });
+
+  const depositedIds = getDepositedReportIds(deposits);
+  const undeposited = periodReports.
+  filter((report) => !depositedIds.has(report.id) && toNumber(report.cash_collection_on_hand) !== 0).
+  map((report) => {
+    const daysOutstanding = Math.max(0, daysBetween(report.report_date, period.to));
+    return {
+      report,
+      amount: roundMoney(toNumber(report.cash_collection_on_hand)),
+      daysOutstanding,
+      overdue: daysOutstanding > graceDays
+    };
+  }).
+  sort((a, b) => b.daysOutstanding - a.daysOutstanding);
+
+  const stations = new Map<string, StationDepositSummary>();
+  const summaryFor = (station: string) => {
+    if (!stations.has(station)) {
+      stations.set(station, { station, collected: 0, deposited: 0, undeposited: 0, overdueCount: 0, mismatchedCount: 0, variance: 0 });
+    }
+    return stations.get(station)!;
+  };
+
+  periodReports.forEach((report) => {
+    const summary = summaryFor(report.station);
+    summary.collected = roundMoney(summary.collected + toNumber(report.cash_collection_on_hand));
+  });
+  depositResults.forEach((result) => {
+    const summary = summaryFor(result.deposit.station);
+    summary.deposited = roundMoney(summary.deposited + toNumber(result.deposit.amount));
+    summary.variance = roundMoney(summary.variance + result.variance);
+    if (!result.matched) summary.mismatchedCount += 1;
+  });
+  undeposited.forEach((item) => {
+    const summary = summaryFor(item.report.station);
+    summary.undeposited = roundMoney(summary.undeposited + item.amount);
+    if (item.overdue) summary.overdueCount += 1;
+  });
+
+  return {
+    deposits: depositResults,
+    undeposited,
+    stations: Array.from(stations.values()).sort((a, b) => a.station.localeCompare(b.station))
+  };
+};
@@ -0,0 +1,347 @@
+// Barcode decoding for UPC-A, UPC-E, EAN-13, EAN-8 and Code 128. Scanlines of a
+// camera frame are binarised into bar/space run widths and matched against
+// each symbology's patterns. A result is only returned when it passes the
+// check digit (UPC/EAN) or the checksum (Code 128).
+
+export type BarcodeFormat = 'UPC_A' | 'UPC_E' | 'EAN_13' | 'EAN_8' | 'CODE_128';
+
+export interface BarcodeResult {
+  text: string;
+  format: BarcodeFormat;
+}
+
+/** RGBA pixels, as in ImageData */
+export interface BarcodeImage {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+export const BARCODE_FORMAT_LABELS: Record<BarcodeFormat, string> = {
+  UPC_A: 'UPC-A',
+  UPC_E: 'UPC-E',
+  EAN_13: 'EAN-13',
+  EAN_8: 'EAN-8',
+  CODE_128: 'Code 128'
+};
+
+// Element widths of the odd-parity (L) digits, space first. R digits have the
+// same widths starting with a bar; even-parity (G) digits are L reversed.
+const L_PATTERNS = [
+[3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+[1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2]];
+
+const G_PATTERNS = L_PATTERNS.map((pattern) => [...pattern].reverse());
+
+// EAN-13 encodes its first digit in the L/G parity of the next six
+const EAN13_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLG', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// UPC-E encodes its check digit in the parity of its six digits (number
+// system 0; number system 1 uses the inverse)
+const UPCE_PARITY = ['GGGLLL', 'GGLGLL', 'GGLLGL', 'GGLLLG', 'GLGGLL', 'GLLGGL', 'GLLLGG', 'GLGLGL', 'GLGLLG', 'GLLGLG'];
+
+// Code 128 symbol widths (bar, space, bar, space, bar, space), values 0-105
+const CODE128_PATTERNS = [
+'212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+'221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+'221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+'212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+'231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+'231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+'314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+'112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+'111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+'214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+'114131', '311141', '411131', '211412', '211214', '211232'].
+map((pattern) => pattern.split('').map(Number));
+
+// The stop symbol is 233111 followed by a two-module termination bar
+const CODE128_STOP = [2, 3, 3, 1, 1, 1];
+const CODE128_START_A = 103;
+const CODE128_START_C = 105;
+
+// Average deviation per module above which a run does not match a pattern
+const MAX_PATTERN_ERROR = 0.3;
+// Rows whose darkest and lightest pixels differ by less than this hold no barcode
+const MIN_CONTRAST = 40;
+// Quiet zone required before a start guard, in modules
+const MIN_QUIET_ZONE = 5;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Whether the last digit of a UPC/EAN/GTIN code is its correct check digit
+ */
+export const isValidCheckDigit = (code: string): boolean => {
+  if (!/^\d{8,14}$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const check = digits.pop() as number;
+  const total = digits.reverse().reduce((acc, digit, index) => acc + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - total % 10) % 10 === check;
+};
+
+/**
+ * The 12-digit UPC-A equivalent of an 8-digit UPC-E code
+ */
+export const expandUpcE = (code: string): string => {
+  const [numberSystem, d1, d2, d3, d4, d5, d6, check] = code.split('');
+  let body: string;
+  switch (d6) {
+    case '0':
+    case '1':
+    case '2':
+      body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+      break;
+    case '3':
+      body = `${d1}${d2}${d3}00000${d4}${d5}`;
+      break;
+    case '4':
+      body = `${d1}${d2}${d3}${d4}00000${d5}`;
+      break;
+    default:
+      body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+  return `${numberSystem}${body}${check}`;
+};
+
+const patternError = (widths: number[], pattern: number[]): number => {
+  const total = sum(widths);
+  const modules = sum(pattern);
+  let error = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    error += Math.abs(widths[i] * modules / total - pattern[i]);
+  }
+  return error / modules;
+};
+
+// Index of the closest pattern, or -1 when none is close enough
+const bestMatch = (widths: number[], patterns: number[][]): number => {
+  let best = -1;
+  let bestError = MAX_PATTERN_ERROR;
+  patterns.forEach((pattern, index) => {
+    const error = patternError(widths, pattern);
+    if (error < bestError) {
+      best = index;
+      bestError = error;
+    }
+  });
+  return best;
+};
+
+// Guards are runs of single modules
+const isGuard = (runs: number[], start: number, count: number, module: number): boolean => {
+  if (start + count > runs.length) return false;
+  for (let i = start; i < start + count; i++) {
+    if (runs[i] < module * 0.5 || runs[i] > module * 1.5) return false;
+  }
+  return true;
+};
+
+const hasQuietZone = (runs: number[], index: number, module: number): boolean =>
+index < 0 || index >= runs.length || runs[index] >= module * MIN_QUIET_ZONE;
+
+// Digits of one UPC/EAN half; parity is 'L'/'G' per digit (always 'L' for right halves)
+const decodeDigits = (
+runs: number[],
+start: number,
+count: number,
+module: number,
+allowEvenParity: boolean)
+: {digits: string;parity: string;} | null => {
+  let digits = '';
+  let parity = '';
+  for (let k = 0; k < count; k++) {
+    const widths = runs.slice(start + k * 4, start + k * 4 + 4);
+    if (widths.length < 4) return null;
+    const total = sum(widths);
+    if (total < module * 5 || total > module * 9) return null;
+    const patterns = allowEvenParity ? [...L_PATTERNS, ...G_PATTERNS] : L_PATTERNS;
+    const match = bestMatch(widths, patterns);
+    if (match < 0) return null;
+    digits += String(match % 10);
+    parity += match < 10 ? 'L' : 'G';
+  }
+  return { digits, parity };
+};
+
+// EAN-13 / UPC-A with the first digit's runs at `start`
+const decodeEan13 = (runs: number[], start: number, module: number): BarcodeResult | null => {
+  const left = decodeDigits(runs, start, 6, module, true);
+  if (!left || !isGuard(runs, start + 24, 5, module)) return null;
+  const right = decodeDigits(runs, start + 29, 6, module, false);
+  if (!right || !isGuard(runs, start + 53, 3, module) || !hasQuietZone(runs, start + 56, module)) return null;
+
+  const firstDigit = EAN13_PARITY.indexOf(left.parity);
+  if (firstDigit < 0) return null;
+  const code = `${firstDigit}${left.digits}${right.digits}`;
+  if (!isValidCheckDigit(code)) return null;
+  return code.startsWith('0') ? { text: code.slice(1), format: 'UPC_A' } : { text: code, format: 'EAN_13' };
+};
+
+const decodeEan8 = (runs: number[], start: number, module: number): BarcodeResult | null => {
+  const left = decodeDigits(runs, start, 4, module, false);
+  if (!left || !isGuard(runs, start + 16, 5, module)) return null;
+  const right = decodeDigits(runs, start + 21, 4, module, false);
+  if (!right || !isGuard(runs, start + 37, 3, module) || !hasQuietZone(runs, start + 40, module)) return null;
+
+  const code = `${left.digits}${right.digits}`;
+  return isValidCheckDigit(code) ? { text: code, format: 'EAN_8' } : null;
+};
+
+const decodeUpcE = (runs: number[], start: number, module: number): BarcodeResult | null => {
+  const digits = decodeDigits(runs, start, 6, module, true);
+  if (!digits || !isGuard(runs, start + 24, 6, module) || !hasQuietZone(runs, start + 30, module)) return null;
+
+  const inverse = digits.parity.replace(/[LG]/g, (p) => p === 'L' ? 'G' : 'L');
+  let numberSystem = 0;
+  let check = UPCE_PARITY.indexOf(digits.parity);
+  if (check < 0) {
+    numberSystem = 1;
+    check = UPCE_PARITY.indexOf(inverse);
+  }
+  if (check < 0) return null;
+  const code = `${numberSystem}${digits.digits}${check}`;
+  return isValidCheckDigit(expandUpcE(code)) ? { text: code, format: 'UPC_E' } : null;
+};
+
+const decodeUpcEan = (runs: number[], firstIsBar: boolean): BarcodeResult | null => {
+  for (let i = firstIsBar ? 0 : 1; i + 2 < runs.length; i += 2) {
+    const module = (runs[i] + runs[i + 1] + runs[i + 2]) / 3;
+    if (!isGuard(runs, i, 3, module) || !hasQuietZone(runs, i - 1, module)) continue;
+    const result = decodeEan13(runs, i + 3, module) || decodeEan8(runs, i + 3, module) || decodeUpcE(runs, i + 3, module);
+    if (result) return result;
+  }
+  return null;
+};
+
+// Text of Code 128 data symbols, following code set switches and shifts
+const code128Text = (startValue: number, values: number[]): string => {
+  let set: 'A' | 'B' | 'C' = startValue === CODE128_START_A ? 'A' : startValue === CODE128_START_C ? 'C' : 'B';
+  let shifted = false;
+  let text = '';
+  for (const value of values) {
+    const current = shifted ? set === 'A' ? 'B' : 'A' : set;
+    shifted = false;
+    if (current === 'C') {
+      if (value < 100) text += String(value).padStart(2, '0');else
+      if (value === 100) set = 'B';else
+      if (value === 101) set = 'A';
+      continue;
+    }
+    if (value < 96) {
+      text += String.fromCharCode(current === 'A' && value >= 64 ? value - 64 : value + 32);
+      continue;
+    }
+    // 96, 97 and 102 are FNC3, FNC2 and FNC1; 100 in B and 101 in A are FNC4
+    if (value === 98) shifted = true;else
+    if (value === 99) set = 'C';else
+    if (value === 100 && current === 'A') set = 'B';else
+    if (value === 101 && current === 'B') set = 'A';
+  }
+  return text;
+};
+
+const decodeCode128 = (runs: number[], firstIsBar: boolean): BarcodeResult | null => {
+  const startPatterns = CODE128_PATTERNS.slice(CODE128_START_A);
+  const symbolPatterns = [...CODE128_PATTERNS.slice(0, CODE128_START_A), CODE128_STOP];
+  const stopIndex = symbolPatterns.length - 1;
+
+  for (let i = firstIsBar ? 0 : 1; i + 6 <= runs.length; i += 2) {
+    const startWidths = runs.slice(i, i + 6);
+    const module = sum(startWidths) / 11;
+    const start = bestMatch(startWidths, startPatterns);
+    if (start < 0 || !hasQuietZone(runs, i - 1, module)) continue;
+
+    const values = [CODE128_START_A + start];
+    let position = i + 6;
+    let stopped = false;
+    while (position + 6 <= runs.length) {
+      const widths = runs.slice(position, position + 6);
+      if (Math.abs(sum(widths) / 11 - module) > module * 0.4) break;
+      const value = bestMatch(widths, symbolPatterns);
+      if (value < 0) break;
+      if (value === stopIndex) {
+        const terminationBar = runs[position + 6] || 0;
+        stopped = terminationBar > module * 1.5 && terminationBar < module * 2.5;
+        break;
+      }
+      values.push(value);
+      position += 6;
+    }
+    // Start, at least one data symbol and the checksum
+    if (!stopped || values.length < 3) continue;
+
+    const checksum = values[values.length - 1];
+    const data = values.slice(1, -1);
+    const total = data.reduce((acc, value, index) => acc + value * (index + 1), values[0]);
+    if (total % 103 !== checksum) continue;
+    return { text: code128Text(values[0], data), format: 'CODE_128' };
+  }
+  return null;
+};
+
+// Bar/space run widths of a row of luminance values
+const toRuns = (row: number[]): {runs: number[];firstIsBar: boolean;} | null => {
+  let min = 255;
+  let max = 0;
+  row.forEach((value) => {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+  if (max - min < MIN_CONTRAST) return null;
+
+  const threshold = (min + max) / 2;
+  const runs: number[] = [];
+  let dark = row[0] < threshold;
+  const firstIsBar = dark;
+  let length = 0;
+  row.forEach((value) => {
+    const isDark = value < threshold;
+    if (isDark === dark) {
+      length++;
+    } else {
+      runs.push(length);
+      dark = isDark;
+      length = 1;
+    }
+  });
+  runs.push(length);
+  return { runs, firstIsBar };
+};
+
+/**
+ * Decode one scanline of luminance values (0-255), in either direction
+ */
+export const decodeRow = (row: number[]): BarcodeResult | null => {
+  for (const pixels of [row, [...row].reverse()]) {
+    const scan = toRuns(pixels);
+    if (!scan) return null;
+    const result = decodeUpcEan(scan.runs, scan.firstIsBar) || decodeCode128(scan.runs, scan.firstIsBar);
+    if (result) return result;
+  }
+  return null;
+};
+
+/**
+ * Decode the first barcode found on horizontal scanlines, working outwards
+ * from the middle of the image
+ */
+export const decodeImage = (image: BarcodeImage, scanlines: number = 32): BarcodeResult | null => {
+  const { width, height, data } = image;
+  const step = Math.max(1, Math.floor(height / scanlines));
+  const middle = Math.floor(height / 2);
+
+  for (let offset = 0; offset <= middle; offset += step) {
+    for (const y of offset === 0 ? [middle] : [middle - offset, middle + offset]) {
+      if (y < 0 || y >= height) continue;
+      const row: number[] = new Array(width);
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        row[x] = (data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000;
+      }
+      const result = decodeRow(row);
+      if (result) return result;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,294 @@
+// Card settlement reconciliation: parses the processor's settlement CSV into
+// batch lines and matches them, per station and business date, to the credit,
+// debit and mobile totals entered on the shift reports. Column names vary by
+// processor, so headers are matched against a list of common aliases.
+
+import { parseAmount, parseCsv } from './csv';
+import { roundMoney, toDateKey, toNumber } from './valueHelpers';
+
+export type CardType = 'credit' | 'debit' | 'mobile';
+export type SettlementRecordType = 'sale' | 'refund' | 'chargeback';
+
+export interface SettlementRecord {
+  station: string;
+  business_date: string;
+  settlement_date: string | null;
+  processor: string | null;
+  batch_number: string;
+  card_type: CardType;
+  record_type: SettlementRecordType;
+  gross_amount: number;
+  fee_amount: number;
+  net_amount: number | null;
+  transaction_count: number | null;
+  reference: string | null;
+}
+
+export interface SettlementParseResult {
+  records: SettlementRecord[];
+  /** Problems with individual lines, by 1-based line number */
+  errors: string[];
+}
+
+export interface CardReport {
+  report_date: string;
+  station: string;
+  credit_card_amount: number | string;
+  debit_card_amount: number | string;
+  mobile_amount: number | string;
+}
+
+export type SettlementMatchStatus = 'matched' | 'mismatch' | 'missing_settlement' | 'no_report';
+
+export interface CardTypeComparison {
+  cardType: CardType;
+  reported: number;
+  settled: number;
+  variance: number;
+}
+
+export interface SettlementDayReconciliation {
+  station: string;
+  date: string;
+  reportCount: number;
+  cards: CardTypeComparison[];
+  reported: number;
+  settled: number;
+  variance: number;
+  chargebacks: number;
+  fees: number;
+  batches: string[];
+  status: SettlementMatchStatus;
+}
+
+export const CARD_TYPES: CardType[] = ['credit', 'debit', 'mobile'];
+
+export const CARD_TYPE_LABELS: Record<CardType, string> = {
+  credit: 'Credit',
+  debit: 'Debit',
+  mobile: 'Mobile'
+};
+
+export const MATCH_STATUS_LABELS: Record<SettlementMatchStatus, string> = {
+  matched: 'Matched',
+  mismatch: 'Mismatch',
+  missing_settlement: 'Missing Settlement',
+  no_report: 'No Shift Report'
+};
+
+/** Differences up to this amount per card type are treated as rounding */
+export const SETTLEMENT_MATCH_TOLERANCE = 0.01;
+
+const HEADER_ALIASES: Record<string, string[]> = {
+  business_date: ['business date', 'batch date', 'transaction date', 'sales date', 'date'],
+  settlement_date: ['settlement date', 'settle date', 'deposit date', 'funded date', 'paid date'],
+  station: ['station', 'location', 'store', 'site', 'dba', 'merchant name'],
+  processor: ['processor', 'acquirer'],
+  batch_number: ['batch number', 'batch no', 'batch #', 'batch id', 'batch'],
+  card_type: ['card type', 'card brand', 'tender type', 'tender', 'brand', 'payment type', 'card'],
+  record_type: ['record type', 'transaction type', 'type', 'category'],
+  gross_amount: ['gross amount', 'gross sales', 'sales amount', 'batch amount', 'gross', 'amount'],
+  fee_amount: ['fees', 'fee amount', 'fee', 'discount', 'processing fees'],
+  net_amount: ['net amount', 'net deposit', 'net', 'deposit amount'],
+  transaction_count: ['transaction count', 'item count', 'count', 'transactions', 'items'],
+  reference: ['reference', 'case number', 'case id', 'reference number', 'ref']
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+/**
+ * YYYY-MM-DD from ISO dates or US style M/D/YYYY and M/D/YY
+ */
+export const parseSettlementDate = (value: string | undefined): string | null => {
+  const trimmed = (value || '').trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/);
+  if (us) {
+    const year = us[3].length === 2 ? `20${us[3]}` : us[3];
+    return `${year}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  }
+  return null;
+};
+
+/**
+ * Card type from the processor's brand or tender name. Visa, Mastercard, Amex
+ * and Discover settle as credit, PIN and signature debit as debit, wallets as mobile.
+ */
+export const parseCardType = (value: string | undefined): CardType | null => {
+  const name = (value || '').toLowerCase();
+  if (!name.trim()) return null;
+  if (/apple|google|samsung|wallet|mobile|paypal|venmo|contactless app/.test(name)) return 'mobile';
+  if (/debit|pin/.test(name)) return 'debit';
+  if (/credit|visa|master|\bmc\b|amex|american express|discover|diners|jcb/.test(name)) return 'credit';
+  return null;
+};
+
+const parseRecordType = (value: string | undefined): SettlementRecordType => {
+  const name = (value || '').toLowerCase();
+  if (/charge\s*back|dispute|retrieval/.test(name)) return 'chargeback';
+  if (/refund|return|credit voucher/.test(name)) return 'refund';
+  return 'sale';
+};
+
+const findColumns = (headers: string[]): Record<string, number> => {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Record<string, number> = {};
+  const used = new Set<number>();
+  // Longer aliases first so "batch date" is not taken by "batch" or "date"
+  Object.entries(HEADER_ALIASES).
+  flatMap(([field, aliases]) => aliases.map((alias) => ({ field, alias }))).
+  sort((a, b) => b.alias.length - a.alias.length).
+  forEach(({ field, alias }) => {
+    if (columns[field] !== undefined) return;
+    const index = normalized.findIndex((header, i) => !used.has(i) && header === alias);
+    if (index >= 0) {
+      columns[field] = index;
+      used.add(index);
+    }
+  });
+  return columns;
+};
+
+/**
+ * Parse a settlement CSV. Files without a station column are assigned to
+ * defaultStation; refunds and chargebacks are stored as negative amounts.
+ */
+export const parseSettlementCsv = (
+text: string,
+defaultStation: string,
+processor: string | null = null)
+: SettlementParseResult => {
+  const rows = parseCsv(text);
+  const errors: string[] = [];
+  if (rows.length < 2) {
+    return { records: [], errors: ['The file has no settlement lines'] };
+  }
+
+  const columns = findColumns(rows[0]);
+  const missing = ['business_date', 'batch_number', 'card_type', 'gross_amount'].filter((field) => columns[field] === undefined);
+  if (missing.length > 0) {
+    return { records: [], errors: [`Missing column(s): ${missing.map((field) => field.replace(/_/g, ' ')).join(', ')}`] };
+  }
+  if (columns.station === undefined && (!defaultStation || defaultStation === 'ALL')) {
+    return { records: [], errors: ['The file has no station column; select the station it belongs to'] };
+  }
+
+  const records: SettlementRecord[] = [];
+  rows.slice(1).forEach((fields, index) => {
+    const line = index + 2;
+    const get = (field: string) => columns[field] !== undefined ? fields[columns[field]]?.trim() : undefined;
+
+    const businessDate = parseSettlementDate(get('business_date'));
+    const cardType = parseCardType(get('card_type'));
+    const gross = parseAmount(get('gross_amount'));
+    const batchNumber = get('batch_number');
+    const lineError = !businessDate ? `unreadable date "${get('business_date') || ''}"` :
+    !cardType ? `unknown card type "${get('card_type') || ''}"` :
+    gross === null ? `unreadable amount "${get('gross_amount') || ''}"` :
+    !batchNumber ? 'batch number is missing' :
+    null;
+    if (lineError) {
+      errors.push(`Line ${line}: ${lineError}`);
+      return;
+    }
+
+    const recordType = parseRecordType(get('record_type'));
+    const sign = recordType === 'sale' ? 1 : -1;
+    const net = parseAmount(get('net_amount'));
+    const count = parseAmount(get('transaction_count'));
+    records.push({
+      station: get('station') || defaultStation,
+      business_date: businessDate,
+      settlement_date: parseSettlementDate(get('settlement_date')),
+      processor: get('processor') || processor,
+      batch_number: batchNumber,
+      card_type: cardType,
+      record_type: recordType,
+      gross_amount: roundMoney(sign * Math.abs(gross)),
+      fee_amount: roundMoney(Math.abs(parseAmount(get('fee_amount')) || 0)),
+      net_amount: net === null ? null : roundMoney(sign * Math.abs(net)),
+      transaction_count: count === null ? null : Math.round(count),
+      reference: get('reference') || null
+    });
+  });
+
+  return { records, errors };
+};
+
+/**
+ * Key used to skip batch lines that were already imported
+ */
+export const settlementKey = (record: Pick<SettlementRecord, 'station' | 'batch_number' | 'card_type' | 'record_type' | 'business_date'>): string =>
+[record.station, record.batch_number, record.card_type, record.record_type, toDateKey(record.business_date)].join('|');
+
+/**
+ * Card totals from the shift reports against the settlements for the same
+ * station and business date, newest first. Chargebacks are listed separately
+ * and do not count against the day's sales; refunds do.
+ */
+export const reconcileCardSettlements = (
+reports: CardReport[],
+settlements: SettlementRecord[])
+: SettlementDayReconciliation[] => {
+  const days = new Map<string, SettlementDayReconciliation>();
+  const dayFor = (station: string, date: string) => {
+    const key = `${station}|${date}`;
+    if (!days.has(key)) {
+      days.set(key, {
+        station,
+        date,
+        reportCount: 0,
+        cards: CARD_TYPES.map((cardType) => ({ cardType, reported: 0, settled: 0, variance: 0 })),
+        reported: 0,
+        settled: 0,
+        variance: 0,
+        chargebacks: 0,
+        fees: 0,
+        batches: [],
+        status: 'matched'
+      });
+    }
+    return days.get(key)!;
+  };
+
+  reports.forEach((report) => {
+    const day = dayFor(report.station, toDateKey(report.report_date));
+    day.reportCount += 1;
+    const amounts: Record<CardType, number> = {
+      credit: toNumber(report.credit_card_amount),
+      debit: toNumber(report.debit_card_amount),
+      mobile: toNumber(report.mobile_amount)
+    };
+    day.cards.forEach((card) => {card.reported = roundMoney(card.reported + amounts[card.cardType]);});
+  });
+
+  settlements.forEach((settlement) => {
+    const day = dayFor(settlement.station, toDateKey(settlement.business_date));
+    if (!day.batches.includes(settlement.batch_number)) day.batches.push(settlement.batch_number);
+    day.fees = roundMoney(day.fees + toNumber(settlement.fee_amount));
+    if (settlement.record_type === 'chargeback') {
+      day.chargebacks = roundMoney(day.chargebacks + toNumber(settlement.gross_amount));
+      return;
+    }
+    const card = day.cards.find((item) => item.cardType === settlement.card_type);
+    if (card) card.settled = roundMoney(card.settled + toNumber(settlement.gross_amount));
+  });
+
+  return Array.from(days.values()).map((day) => {
+    day.cards.forEach((card) => {card.variance = roundMoney(card.settled - card.reported);});
+    day.reported = roundMoney(day.cards.reduce((sum, card) => sum + card.reported, 0));
+    day.settled = roundMoney(day.cards.reduce((sum, card) => sum + card.settled, 0));
+    day.variance = roundMoney(day.settled - day.reported);
+
+    const hasSettlement = day.batches.length > 0;
+    day.status = day.reportCount === 0 ?
+    'no_report' :
+    !hasSettlement && day.reported !== 0 ?
+    'missing_settlement' :
+    day.cards.some((card) => Math.abs(card.variance) > SETTLEMENT_MATCH_TOLERANCE) ?
+    'mismatch' :
+    'matched';
+    return day;
+  }).sort((a, b) => b.date.localeCompare(a.date) || a.station.localeCompare(b.station));
+};
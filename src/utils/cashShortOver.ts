@@ -0,0 +1,231 @@
+// Cash short/over ledger: the short/over recorded on each shift's sales report,
+// with running totals per employee and station, rolling-window tolerances and
+// the alerts they raise. Negative amounts are shortages, positive are overages.
+
+import { roundMoney, toDateKey, toNumber } from './valueHelpers';
+
+export interface ShortOverThresholds {
+  /** Largest short or over on a single shift before it is flagged */
+  shift_tolerance: number;
+  /** Largest net shortage over the rolling window before it is flagged */
+  rolling_tolerance: number;
+  rolling_days: number;
+}
+
+export interface ShortOverReport {
+  id?: number;
+  report_date: string;
+  station: string;
+  shift?: string;
+  employee_id?: string | null;
+  employee_name?: string;
+  total_short_over: number | string;
+}
+
+export interface ShortOverEntry {
+  reportId: number | null;
+  date: string;
+  station: string;
+  shift: string;
+  employeeKey: string;
+  employeeName: string;
+  amount: number;
+  /** Net short/over for this employee at this station up to and including this shift */
+  runningTotal: number;
+}
+
+export interface EmployeeShortOverSummary {
+  employeeKey: string;
+  employeeName: string;
+  station: string;
+  shifts: number;
+  shortShifts: number;
+  totalShort: number;
+  totalOver: number;
+  net: number;
+  rollingNet: number;
+  rollingFlagged: boolean;
+}
+
+export interface ShortOverTrendPoint {
+  date: string;
+  net: number;
+  short: number;
+  over: number;
+}
+
+export type ShortOverAlertKind = 'shift' | 'rolling';
+
+export interface ShortOverAlert {
+  kind: ShortOverAlertKind;
+  employeeKey: string;
+  employeeName: string;
+  station: string;
+  date: string;
+  reportId: number | null;
+  amount: number;
+  tolerance: number;
+}
+
+export const DEFAULT_SHORT_OVER_THRESHOLDS: ShortOverThresholds = {
+  shift_tolerance: 20,
+  rolling_tolerance: 50,
+  rolling_days: 30
+};
+
+const shiftDate = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+/**
+ * Thresholds for a station: its own setting, else the ALL setting, else the defaults
+ */
+export const resolveShortOverThresholds = (
+rows: (ShortOverThresholds & {station: string | null;})[],
+station: string)
+: ShortOverThresholds =>
+rows.find((row) => row.station === station) ||
+rows.find((row) => !row.station || row.station === 'ALL') ||
+DEFAULT_SHORT_OVER_THRESHOLDS;
+
+/**
+ * Ledger entries oldest first. Reports without an employee ID (filed before it
+ * was recorded) are grouped by employee name.
+ */
+export const buildShortOverLedger = (reports: ShortOverReport[]): ShortOverEntry[] => {
+  const running = new Map<string, number>();
+  return [...reports].
+  sort((a, b) => toDateKey(a.report_date).localeCompare(toDateKey(b.report_date)) || (a.id || 0) - (b.id || 0)).
+  map((report) => {
+    const employeeKey = String(report.employee_id || report.employee_name || 'unknown').trim();
+    const amount = roundMoney(toNumber(report.total_short_over));
+    const runningKey = `${report.station}|${employeeKey}`;
+    const runningTotal = roundMoney((running.get(runningKey) || 0) + amount);
+    running.set(runningKey, runningTotal);
+    return {
+      reportId: report.id ?? null,
+      date: toDateKey(report.report_date),
+      station: report.station,
+      shift: report.shift || 'DAY',
+      employeeKey,
+      employeeName: report.employee_name || employeeKey,
+      amount,
+      runningTotal
+    };
+  });
+};
+
+/**
+ * Net short/over in the rolling window ending on asOf
+ */
+const rollingNet = (entries: ShortOverEntry[], days: number, asOf: string): number => {
+  const from = shiftDate(asOf, -(days - 1));
+  return roundMoney(entries.
+  filter((entry) => entry.date >= from && entry.date <= asOf).
+  reduce((sum, entry) => sum + entry.amount, 0));
+};
+
+/**
+ * Totals per employee and station, largest shortage first
+ */
+export const summarizeByEmployee = (
+entries: ShortOverEntry[],
+thresholds: ShortOverThresholds,
+asOf: string)
+: EmployeeShortOverSummary[] => {
+  const groups = new Map<string, ShortOverEntry[]>();
+  entries.forEach((entry) => {
+    const key = `${entry.station}|${entry.employeeKey}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(entry);
+  });
+
+  return Array.from(groups.values()).map((group) => {
+    const shorts = group.filter((entry) => entry.amount < 0);
+    const overs = group.filter((entry) => entry.amount > 0);
+    const windowNet = rollingNet(group, thresholds.rolling_days, asOf);
+    return {
+      employeeKey: group[0].employeeKey,
+      employeeName: group[group.length - 1].employeeName,
+      station: group[0].station,
+      shifts: group.length,
+      shortShifts: shorts.length,
+      totalShort: roundMoney(shorts.reduce((sum, entry) => sum + entry.amount, 0)),
+      totalOver: roundMoney(overs.reduce((sum, entry) => sum + entry.amount, 0)),
+      net: group[group.length - 1].runningTotal,
+      rollingNet: windowNet,
+      rollingFlagged: -windowNet > thresholds.rolling_tolerance
+    };
+  }).sort((a, b) => a.rollingNet - b.rollingNet || a.employeeName.localeCompare(b.employeeName));
+};
+
+/**
+ * Net, short and over per day across the entries given
+ */
+export const buildShortOverTrend = (entries: ShortOverEntry[]): ShortOverTrendPoint[] => {
+  const points = new Map<string, ShortOverTrendPoint>();
+  entries.forEach((entry) => {
+    if (!points.has(entry.date)) points.set(entry.date, { date: entry.date, net: 0, short: 0, over: 0 });
+    const point = points.get(entry.date)!;
+    point.net = roundMoney(point.net + entry.amount);
+    if (entry.amount < 0) point.short = roundMoney(point.short + entry.amount);
+    if (entry.amount > 0) point.over = roundMoney(point.over + entry.amount);
+  });
+  return Array.from(points.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Alerts for shifts outside the per-shift tolerance and for employees whose net
+ * shortage over the rolling window (ending on each shift) passes the rolling
+ * tolerance. A rolling alert is raised on the shift that crossed the line.
+ */
+export const evaluateShortOverAlerts = (
+entries: ShortOverEntry[],
+thresholdsFor: (station: string) => ShortOverThresholds)
+: ShortOverAlert[] => {
+  const alerts: ShortOverAlert[] = [];
+  const byEmployee = new Map<string, ShortOverEntry[]>();
+
+  entries.forEach((entry) => {
+    const thresholds = thresholdsFor(entry.station);
+    const key = `${entry.station}|${entry.employeeKey}`;
+    if (!byEmployee.has(key)) byEmployee.set(key, []);
+    const history = byEmployee.get(key)!;
+    const wasFlagged = history.length > 0 &&
+    -rollingNet(history, thresholds.rolling_days, history[history.length - 1].date) > thresholds.rolling_tolerance;
+    history.push(entry);
+
+    const base = {
+      employeeKey: entry.employeeKey,
+      employeeName: entry.employeeName,
+      station: entry.station,
+      date: entry.date,
+      reportId: entry.reportId
+    };
+    if (Math.abs(entry.amount) > thresholds.shift_tolerance) {
+      alerts.push({ ...base, kind: 'shift', amount: entry.amount, tolerance: thresholds.shift_tolerance });
+    }
+    const windowNet = rollingNet(history, thresholds.rolling_days, entry.date);
+    if (!wasFlagged && -windowNet > thresholds.rolling_tolerance) {
+      alerts.push({ ...base, kind: 'rolling', amount: windowNet, tolerance: thresholds.rolling_tolerance });
+    }
+  });
+
+  return alerts;
+};
+
+/**
+ * Shortages (as a positive amount) an employee ran in a pay period, for an
+ * optional payroll deduction
+ */
+export const sumShortages = (entries: ShortOverEntry[], employeeKey: string, fromDate: string, toDate: string): number =>
+roundMoney(-entries.
+filter((entry) => entry.employeeKey === employeeKey && entry.amount < 0 && entry.date >= fromDate && entry.date <= toDate).
+reduce((sum, entry) => sum + entry.amount, 0));
+
+export const formatShortOverMessage = (alert: ShortOverAlert): string =>
+alert.kind === 'shift' ?
+`${alert.employeeName} was ${alert.amount < 0 ? 'short' : 'over'} $${Math.abs(alert.amount).toFixed(2)} at ${alert.station} on ${alert.date} (tolerance $${alert.tolerance.toFixed(2)})` :
+`${alert.employeeName} is short $${Math.abs(alert.amount).toFixed(2)} net at ${alert.station} over the rolling window ending ${alert.date} (tolerance $${alert.tolerance.toFixed(2)})`;
@@ -0,0 +1,59 @@
+// CSV reading shared by the settlement, spreadsheet and product imports: splits
+// text into rows of fields and reads amounts written the way spreadsheets and
+// processor exports format them.
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields with commas,
+ * escaped quotes and line breaks
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+};
+
+/**
+ * Amount from "$1,234.56", "-12.00" or accounting style "(12.00)"
+ */
+export const parseAmount = (value: string | undefined): number | null => {
+  if (value === undefined) return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+  const parsed = parseFloat(trimmed.replace(/[()$,\s-]/g, ''));
+  if (isNaN(parsed)) return null;
+  return negative ? -parsed : parsed;
+};
@@ -0,0 +1,274 @@
+// Station fuel configuration: the grades a station sells and the tanks that
+// hold them. A blended grade (e.g. a mid-grade mixed at the dispenser) has no
+// tank of its own and draws from a low and a high grade tank.
+//
+// Sales reports store gallons per grade in fuel_gallons, deliveries store tank
+// volume and delivered gallons per grade in fuel_deliveries. Rows saved before
+// that still only have the fixed regular/plus/super/diesel columns, so the
+// readers below fall back to those.
+
+import { roundTo, toNumber } from './valueHelpers';
+
+export interface FuelGradeConfig {
+  grade: string;
+  label: string;
+  is_blended: boolean;
+  blend_low_grade?: string | null;
+  blend_high_grade?: string | null;
+  /** Share of each blended gallon drawn from the high grade tank, 0-100 */
+  blend_high_percent?: number | null;
+  sort_order: number;
+}
+
+export interface FuelTankConfig {
+  tank_number: number;
+  grade: string;
+  capacity_gallons: number;
+}
+
+export interface StationFuelConfiguration {
+  station: string;
+  grades: FuelGradeConfig[];
+  tanks: FuelTankConfig[];
+  /** True when the station has not been configured and the defaults apply */
+  isDefault: boolean;
+}
+
+export type GradeGallons = Record<string, number>;
+
+export interface GradeDelivery {
+  tank_volume: number;
+  delivered: number;
+  /** What the delivered gallons cost, when it was recorded */
+  cost_per_gallon?: number;
+}
+
+export const DEFAULT_FUEL_GRADES: FuelGradeConfig[] = [
+{ grade: 'regular', label: 'Regular', is_blended: false, sort_order: 1 },
+{ grade: 'plus', label: 'Plus', is_blended: false, sort_order: 2 },
+{ grade: 'super', label: 'Super', is_blended: false, sort_order: 3 },
+{ grade: 'diesel', label: 'Diesel', is_blended: false, sort_order: 4 }];
+
+
+export const DEFAULT_FUEL_TANKS: FuelTankConfig[] = DEFAULT_FUEL_GRADES.map((grade, index) => ({
+  tank_number: index + 1,
+  grade: grade.grade,
+  capacity_gallons: 0
+}));
+
+const LEGACY_SALES_GRADES = ['regular', 'super', 'diesel'];
+const LEGACY_DELIVERY_GRADES = ['regular', 'plus', 'super'];
+
+/**
+ * Grade key for a label, e.g. "Super 93" -> "super_93"
+ */
+export const toGradeKey = (label: string): string =>
+String(label || '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * Readable name for a grade key when the station's labels are not at hand
+ */
+export const formatGradeKey = (grade: string): string =>
+grade.charAt(0).toUpperCase() + grade.slice(1).replace(/_/g, ' ');
+
+/**
+ * Configuration for a station from its grade and tank rows, or the default
+ * four-grade layout when nothing has been configured yet
+ */
+export const buildFuelConfiguration = (
+station: string,
+gradeRows: FuelGradeConfig[],
+tankRows: FuelTankConfig[])
+: StationFuelConfiguration => {
+  if (gradeRows.length === 0) {
+    return { station, grades: DEFAULT_FUEL_GRADES, tanks: DEFAULT_FUEL_TANKS, isDefault: true };
+  }
+  return {
+    station,
+    grades: [...gradeRows].sort((a, b) => toNumber(a.sort_order) - toNumber(b.sort_order)),
+    tanks: [...tankRows].sort((a, b) => toNumber(a.tank_number) - toNumber(b.tank_number)),
+    isDefault: false
+  };
+};
+
+/**
+ * Grades stored in tanks (deliveries, stick readings and the tank ledger)
+ */
+export const getTankGrades = (config: StationFuelConfiguration): FuelGradeConfig[] =>
+config.grades.filter((grade) => !grade.is_blended && config.tanks.some((tank) => tank.grade === grade.grade));
+
+export const getGradeLabel = (grades: FuelGradeConfig[], grade: string): string =>
+grades.find((entry) => entry.grade === grade)?.label || grade;
+
+/**
+ * Configured grades followed by any other grade a saved record has figures
+ * for, so reports from before a grade was removed still show all their gallons
+ */
+export const withRecordedGrades = (grades: FuelGradeConfig[], recordedGrades: string[]): FuelGradeConfig[] => [
+...grades,
+...recordedGrades.
+filter((grade, index) => recordedGrades.indexOf(grade) === index && !grades.some((entry) => entry.grade === grade)).
+map((grade, index) => ({
+  grade,
+  label: formatGradeKey(grade),
+  is_blended: false,
+  sort_order: grades.length + index + 1
+}))];
+
+
+/**
+ * Total capacity of the tanks holding a grade
+ */
+export const getGradeCapacity = (config: StationFuelConfiguration, grade: string): number =>
+config.tanks.filter((tank) => tank.grade === grade).reduce((sum, tank) => sum + toNumber(tank.capacity_gallons), 0);
+
+/**
+ * Problems with a configuration before it is saved; empty when it is valid
+ */
+export const validateFuelConfiguration = (grades: FuelGradeConfig[], tanks: FuelTankConfig[]): string[] => {
+  const errors: string[] = [];
+  const keys = grades.map((grade) => grade.grade);
+
+  if (grades.length === 0) errors.push('Add at least one fuel grade');
+  grades.forEach((grade) => {
+    if (!grade.grade || !grade.label?.trim()) errors.push('Every grade needs a name');
+  });
+  keys.
+  filter((key, index) => key && keys.indexOf(key) !== index).
+  forEach((key) => errors.push(`Grade "${key}" is listed more than once`));
+
+  const tankedGrades = new Set(tanks.map((tank) => tank.grade));
+  grades.filter((grade) => grade.is_blended).forEach((grade) => {
+    const { blend_low_grade: low, blend_high_grade: high } = grade;
+    if (!low || !high || low === high) {
+      errors.push(`${grade.label}: choose two different grades to blend`);
+    } else if (!tankedGrades.has(low) || !tankedGrades.has(high)) {
+      errors.push(`${grade.label}: blended grades must draw from grades that have a tank`);
+    }
+    const percent = toNumber(grade.blend_high_percent);
+    if (percent < 0 || percent > 100) errors.push(`${grade.label}: blend percentage must be between 0 and 100`);
+    if (tankedGrades.has(grade.grade)) errors.push(`${grade.label}: a blended grade cannot have its own tank`);
+  });
+
+  const tankNumbers = tanks.map((tank) => toNumber(tank.tank_number));
+  tanks.forEach((tank) => {
+    if (!keys.includes(tank.grade)) errors.push(`Tank ${tank.tank_number}: choose a grade`);
+    if (toNumber(tank.tank_number) <= 0) errors.push('Tank numbers must be positive');
+    if (toNumber(tank.capacity_gallons) < 0) errors.push(`Tank ${tank.tank_number}: capacity cannot be negative`);
+  });
+  tankNumbers.
+  filter((number, index) => tankNumbers.indexOf(number) !== index).
+  forEach((number) => errors.push(`Tank ${number} is listed more than once`));
+
+  return Array.from(new Set(errors));
+};
+
+/**
+ * Parse a JSONB grade map that may arrive as an object or a JSON string
+ */
+const parseGradeMap = <T>(value: unknown): Record<string, T> | null => {
+  if (!value) return null;
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed) || Object.keys(parsed as object).length === 0) return null;
+  return parsed as Record<string, T>;
+};
+
+/**
+ * Gallons sold per grade on a sales report
+ */
+export const getSalesGallons = (report: object): GradeGallons => {
+  const row = report as Record<string, unknown>;
+  const stored = parseGradeMap<number>(row.fuel_gallons);
+  if (stored) {
+    return Object.fromEntries(Object.entries(stored).map(([grade, gallons]) => [grade, toNumber(gallons)]));
+  }
+  return Object.fromEntries(LEGACY_SALES_GRADES.map((grade) => [grade, toNumber(row[`${grade}_gallons`])]));
+};
+
+/**
+ * Tank volume before the drop, gallons delivered and (when known) cost per
+ * gallon per grade on a delivery. A grade without its own cost takes the
+ * delivery's price_per_gallon.
+ */
+export const getDeliveryVolumes = (delivery: object): Record<string, GradeDelivery> => {
+  const row = delivery as Record<string, unknown>;
+  const stored = parseGradeMap<GradeDelivery>(row.fuel_deliveries);
+  const entries = stored ?
+  Object.entries(stored).map(([grade, entry]) => [grade, entry?.tank_volume, entry?.delivered, entry?.cost_per_gallon]) :
+  LEGACY_DELIVERY_GRADES.map((grade) => [grade, row[`${grade}_tank_volume`], row[`${grade}_delivered`], null]);
+  return Object.fromEntries(entries.map(([grade, tankVolume, delivered, cost]) => {
+    const costPerGallon = toNumber(cost) || toNumber(row.price_per_gallon);
+    return [
+    grade as string,
+    {
+      tank_volume: toNumber(tankVolume),
+      delivered: toNumber(delivered),
+      ...(costPerGallon > 0 ? { cost_per_gallon: costPerGallon } : {})
+    }];
+
+  }));
+};
+
+/**
+ * Tank readings per grade taken after a delivery
+ */
+export const getAfterDeliveryFinals = (report: object): GradeGallons => {
+  const row = report as Record<string, unknown>;
+  const stored = parseGradeMap<number>(row.tank_finals);
+  if (stored) {
+    return Object.fromEntries(Object.entries(stored).map(([grade, gallons]) => [grade, toNumber(gallons)]));
+  }
+  return Object.fromEntries(LEGACY_DELIVERY_GRADES.map((grade) => [grade, toNumber(row[`${grade}_tank_final`])]));
+};
+
+/**
+ * Legacy per-grade columns, still written so older reports and exports keep working
+ */
+export const toLegacySalesColumns = (gallons: GradeGallons) => ({
+  regular_gallons: roundTo(toNumber(gallons.regular), 2),
+  super_gallons: roundTo(toNumber(gallons.super), 2),
+  diesel_gallons: roundTo(toNumber(gallons.diesel), 2)
+});
+
+export const toLegacyDeliveryColumns = (volumes: Record<string, GradeDelivery>) =>
+Object.fromEntries(LEGACY_DELIVERY_GRADES.flatMap((grade) => [
+[`${grade}_tank_volume`, toNumber(volumes[grade]?.tank_volume)],
+[`${grade}_delivered`, toNumber(volumes[grade]?.delivered)]]
+)) as Record<'regular_tank_volume' | 'plus_tank_volume' | 'super_tank_volume' | 'regular_delivered' | 'plus_delivered' | 'super_delivered', number>;
+
+export const toLegacyFinalColumns = (finals: GradeGallons) =>
+Object.fromEntries(LEGACY_DELIVERY_GRADES.map((grade) => [`${grade}_tank_final`, toNumber(finals[grade])])) as
+Record<'regular_tank_final' | 'plus_tank_final' | 'super_tank_final', number>;
+
+export const sumGallons = (gallons: GradeGallons): number =>
+roundTo(Object.values(gallons).reduce((sum, value) => sum + toNumber(value), 0), 2);
+
+/**
+ * Gallons drawn from each tank grade: blended grades are split between their
+ * low and high grade by the blend percentage
+ */
+export const allocateToTankGrades = (gallons: GradeGallons, grades: FuelGradeConfig[]): GradeGallons => {
+  const allocated: GradeGallons = {};
+  const add = (grade: string, value: number) => {
+    allocated[grade] = roundTo((allocated[grade] || 0) + value, 2);
+  };
+
+  Object.entries(gallons).forEach(([grade, value]) => {
+    const config = grades.find((entry) => entry.grade === grade);
+    if (config?.is_blended && config.blend_low_grade && config.blend_high_grade) {
+      const highShare = toNumber(config.blend_high_percent) / 100;
+      add(config.blend_high_grade, toNumber(value) * highShare);
+      add(config.blend_low_grade, toNumber(value) * (1 - highShare));
+    } else {
+      add(grade, toNumber(value));
+    }
+  });
+  return allocated;
+};
@@ -0,0 +1,212 @@
+// Fuel margin per gallon: pump prices from the price book against what the
+// gallons sold cost. Every delivery adds a cost layer per grade and gallons
+// sold draw down the oldest layer first (FIFO). Blended grades draw from their
+// low and high grade tanks, so their cost is a mix of both grades' layers.
+
+import {
+  allocateToTankGrades,
+  DEFAULT_FUEL_GRADES,
+  FuelGradeConfig,
+  getDeliveryVolumes,
+  getSalesGallons } from
+'./fuelGrades';
+import { roundMoney, toDateKey, toNumber } from './valueHelpers';
+
+export interface FuelPrice {
+  station: string;
+  grade: string;
+  price_per_gallon: number;
+  effective_date: string;
+}
+
+export interface CostLayer {
+  date: string;
+  gallons: number;
+  cost_per_gallon: number;
+}
+
+export interface GradeMargin {
+  gallons: number;
+  revenue: number;
+  cost: number;
+  centsPerGallon: number | null;
+}
+
+/**
+ * Margin for one station and day. Gallons without a pump price or without any
+ * cost layer to draw from are counted separately and left out of the margin.
+ */
+export interface DailyFuelMargin extends GradeMargin {
+  station: string;
+  date: string;
+  byGrade: Record<string, GradeMargin>;
+  unpricedGallons: number;
+  uncostedGallons: number;
+}
+
+export interface MarginTrendPoint extends GradeMargin {
+  date: string;
+}
+
+export interface FuelMarginInput {
+  sales: object[];
+  deliveries: object[];
+  prices: FuelPrice[];
+  /** Grade setup per station, used to split blended grades; defaults apply otherwise */
+  gradesByStation?: Record<string, FuelGradeConfig[]>;
+}
+
+/**
+ * Margin in cents per gallon, or null when no gallons were sold
+ */
+export const marginCentsPerGallon = (revenue: number, cost: number, gallons: number): number | null =>
+gallons > 0 ? Math.round((revenue - cost) / gallons * 1000) / 10 : null;
+
+/**
+ * Pump price in effect for a grade on a date: the latest change on or before it
+ */
+export const getPriceOn = (prices: FuelPrice[], station: string, grade: string, date: string): number | null => {
+  const current = prices.
+  filter((price) => price.station === station && price.grade === grade && toDateKey(price.effective_date) <= date).
+  sort((a, b) => toDateKey(b.effective_date).localeCompare(toDateKey(a.effective_date)))[0];
+  return current ? toNumber(current.price_per_gallon) : null;
+};
+
+/**
+ * Prices in effect on a date for every grade the station has a price for
+ */
+export const getCurrentPrices = (prices: FuelPrice[], station: string, date: string): Record<string, number> => {
+  const grades = Array.from(new Set(prices.filter((price) => price.station === station).map((price) => price.grade)));
+  return Object.fromEntries(
+    grades.
+    map((grade) => [grade, getPriceOn(prices, station, grade, date)] as const).
+    filter(([, price]) => price !== null)
+  );
+};
+
+/**
+ * Cost layers per station and grade, oldest first. Deliveries without a cost
+ * per gallon add no layer.
+ */
+export const buildCostLayers = (deliveries: object[]): Record<string, Record<string, CostLayer[]>> => {
+  const layers: Record<string, Record<string, CostLayer[]>> = {};
+  deliveries.forEach((delivery) => {
+    const row = delivery as Record<string, unknown>;
+    const station = String(row.station || '');
+    Object.entries(getDeliveryVolumes(delivery)).forEach(([grade, volume]) => {
+      if (volume.delivered <= 0 || !volume.cost_per_gallon) return;
+      layers[station] = layers[station] || {};
+      layers[station][grade] = layers[station][grade] || [];
+      layers[station][grade].push({
+        date: toDateKey(row.delivery_date),
+        gallons: volume.delivered,
+        cost_per_gallon: volume.cost_per_gallon
+      });
+    });
+  });
+  Object.values(layers).forEach((grades) =>
+  Object.values(grades).forEach((gradeLayers) => gradeLayers.sort((a, b) => a.date.localeCompare(b.date)))
+  );
+  return layers;
+};
+
+const emptyMargin = (): GradeMargin => ({ gallons: 0, revenue: 0, cost: 0, centsPerGallon: null });
+
+const addToMargin = (margin: GradeMargin, gallons: number, revenue: number, cost: number) => {
+  margin.gallons = roundMoney(margin.gallons + gallons);
+  margin.revenue = roundMoney(margin.revenue + revenue);
+  margin.cost = roundMoney(margin.cost + cost);
+  margin.centsPerGallon = marginCentsPerGallon(margin.revenue, margin.cost, margin.gallons);
+};
+
+/**
+ * Daily margin per station from sales reports, deliveries and the price book.
+ * Pass deliveries and sales from before the period of interest so the layers
+ * being drawn down at its start are the right ones.
+ */
+export const calculateDailyFuelMargins = ({
+  sales,
+  deliveries,
+  prices,
+  gradesByStation = {}
+}: FuelMarginInput): DailyFuelMargin[] => {
+  const layersByStation = buildCostLayers(deliveries);
+  const days = new Map<string, DailyFuelMargin>();
+
+  const salesByStation = new Map<string, Record<string, unknown>[]>();
+  sales.forEach((sale) => {
+    const row = sale as Record<string, unknown>;
+    const station = String(row.station || '');
+    if (!salesByStation.has(station)) salesByStation.set(station, []);
+    salesByStation.get(station)!.push(row);
+  });
+
+  salesByStation.forEach((stationSales, station) => {
+    const grades = gradesByStation[station] || DEFAULT_FUEL_GRADES;
+    const layers = Object.fromEntries(
+      Object.entries(layersByStation[station] || {}).map(([grade, gradeLayers]) => [grade, gradeLayers.map((layer) => ({ ...layer }))])
+    );
+    const lastCost: Record<string, number> = {};
+
+    // Cost of drawing gallons from a tank grade; null when nothing has been costed yet
+    const drawCost = (grade: string, gallons: number, date: string): number | null => {
+      let remaining = gallons;
+      let cost = 0;
+      for (const layer of layers[grade] || []) {
+        if (remaining <= 0 || layer.date > date) break;
+        const taken = Math.min(layer.gallons, remaining);
+        if (taken <= 0) continue;
+        layer.gallons -= taken;
+        remaining -= taken;
+        cost += taken * layer.cost_per_gallon;
+        lastCost[grade] = layer.cost_per_gallon;
+      }
+      if (remaining <= 0) return cost;
+      // Sold more than the costed layers hold: use the latest cost seen
+      return lastCost[grade] !== undefined ? cost + remaining * lastCost[grade] : null;
+    };
+
+    [...stationSales].
+    sort((a, b) => toDateKey(a.report_date).localeCompare(toDateKey(b.report_date))).
+    forEach((sale) => {
+      const date = toDateKey(sale.report_date);
+      const key = `${station}|${date}`;
+      if (!days.has(key)) {
+        days.set(key, { station, date, ...emptyMargin(), byGrade: {}, unpricedGallons: 0, uncostedGallons: 0 });
+      }
+      const day = days.get(key)!;
+
+      Object.entries(getSalesGallons(sale)).forEach(([grade, gallons]) => {
+        if (gallons <= 0) return;
+        const drawn = Object.entries(allocateToTankGrades({ [grade]: gallons }, grades)).
+        map(([tankGrade, tankGallons]) => drawCost(tankGrade, tankGallons, date));
+        const price = getPriceOn(prices, station, grade, date);
+
+        if (price === null) {
+          day.unpricedGallons = roundMoney(day.unpricedGallons + gallons);
+        } else if (drawn.some((cost) => cost === null)) {
+          day.uncostedGallons = roundMoney(day.uncostedGallons + gallons);
+        } else {
+          const cost = drawn.reduce((sum, value) => sum + (value as number), 0);
+          day.byGrade[grade] = day.byGrade[grade] || emptyMargin();
+          addToMargin(day.byGrade[grade], gallons, gallons * price, cost);
+          addToMargin(day, gallons, gallons * price, cost);
+        }
+      });
+    });
+  });
+
+  return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date) || a.station.localeCompare(b.station));
+};
+
+/**
+ * Margin per day across stations, weighted by gallons
+ */
+export const summarizeMarginTrend = (margins: DailyFuelMargin[]): MarginTrendPoint[] => {
+  const points = new Map<string, MarginTrendPoint>();
+  margins.forEach((margin) => {
+    if (!points.has(margin.date)) points.set(margin.date, { date: margin.date, ...emptyMargin() });
+    addToMargin(points.get(margin.date)!, margin.gallons, margin.revenue, margin.cost);
+  });
+  return Array.from(points.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
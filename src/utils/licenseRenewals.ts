@@ -0,0 +1,115 @@
+// License renewal utilities: validate a renewal, build a license's renewal
+// timeline and total renewal spend per station and year
+
+import { roundMoney, toNumber } from './valueHelpers';
+
+export interface RenewalInput {
+  newIssueDate: string;
+  newExpiryDate: string;
+  renewalCost: number;
+  paymentDate: string;
+  paymentReference: string;
+  notes: string;
+}
+
+export interface RenewalRecord {
+  id?: number;
+  license_id: number;
+  station: string;
+  previous_expiry_date: string | null;
+  new_issue_date: string | null;
+  new_expiry_date: string;
+  renewal_cost: number;
+  payment_date: string | null;
+  payment_reference?: string;
+  notes?: string;
+  renewed_by?: string;
+  renewed_at: string;
+}
+
+export interface DocumentVersion {
+  id?: number;
+  renewal_id: number | null;
+  version_number: number;
+  document_file_id?: number | null;
+  document_url: string | null;
+  file_name: string;
+  valid_from: string | null;
+  valid_until: string | null;
+  is_current: boolean;
+  uploaded_at: string;
+}
+
+export interface RenewalTimelineEntry {
+  renewal: RenewalRecord;
+  document: DocumentVersion | null;
+}
+
+export interface RenewalSpendRow {
+  year: number;
+  station: string;
+  renewals: number;
+  totalCost: number;
+}
+
+/**
+ * Check a renewal before it is saved; returns an error message or null
+ */
+export const validateRenewalInput = (input: RenewalInput, currentExpiryDate: string | null): string | null => {
+  if (!input.newExpiryDate) {
+    return 'New expiry date is required';
+  }
+  const newExpiry = new Date(input.newExpiryDate);
+  if (isNaN(newExpiry.getTime())) {
+    return 'New expiry date is invalid';
+  }
+  if (currentExpiryDate && newExpiry <= new Date(currentExpiryDate)) {
+    return 'New expiry date must be after the current expiry date';
+  }
+  if (input.newIssueDate && new Date(input.newIssueDate) >= newExpiry) {
+    return 'New issue date must be before the new expiry date';
+  }
+  if (toNumber(input.renewalCost) < 0) {
+    return 'Renewal cost cannot be negative';
+  }
+  if (toNumber(input.renewalCost) > 0 && !input.paymentDate) {
+    return 'Payment date is required when a renewal cost is entered';
+  }
+  return null;
+};
+
+/**
+ * Renewals newest first, each with the certificate uploaded for it
+ */
+export const buildRenewalTimeline = (renewals: RenewalRecord[], documents: DocumentVersion[]): RenewalTimelineEntry[] =>
+[...renewals].
+sort((a, b) => new Date(b.renewed_at).getTime() - new Date(a.renewed_at).getTime()).
+map((renewal) => ({
+  renewal,
+  document: documents.find((document) => renewal.id !== undefined && document.renewal_id === renewal.id) || null
+}));
+
+/**
+ * Year a renewal's spend counts towards: the payment date, or when it was recorded
+ */
+export const getRenewalYear = (renewal: Pick<RenewalRecord, 'payment_date' | 'renewed_at'>): number =>
+Number(String(renewal.payment_date || renewal.renewed_at).slice(0, 4));
+
+/**
+ * Total renewal spend per station and year, newest year first
+ */
+export const summarizeRenewalSpend = (renewals: RenewalRecord[]): RenewalSpendRow[] => {
+  const rows = new Map<string, RenewalSpendRow>();
+
+  for (const renewal of renewals) {
+    const year = getRenewalYear(renewal);
+    const station = renewal.station || 'Unassigned';
+    const key = `${year}|${station}`;
+    const row = rows.get(key) || { year, station, renewals: 0, totalCost: 0 };
+    row.renewals++;
+    row.totalCost = roundMoney(row.totalCost + toNumber(renewal.renewal_cost));
+    rows.set(key, row);
+  }
+
+  return Array.from(rows.values()).sort((a, b) => b.year - a.year || a.station.localeCompare(b.station));
+};
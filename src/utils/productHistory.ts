@@ -0,0 +1,92 @@
+// Product change history helpers: turns product_logs rows into price changes
+// for the price change report and groups a product's changes by day.
+
+import type { ProductLogRow } from '@/services/supabase/tableRegistry';
+import { roundMoney, roundTo } from './valueHelpers';
+
+/** Columns reported on by the price change report */
+export const PRICE_FIELDS = ['price', 'case_price', 'unit_price', 'retail_price'];
+
+export interface PriceChange {
+  id: number;
+  productId: number;
+  productName: string;
+  field: string;
+  oldPrice: number | null;
+  newPrice: number | null;
+  /** newPrice - oldPrice, when both are known */
+  change: number | null;
+  /** Change relative to the old price, when it was above zero */
+  changePercent: number | null;
+  changedAt: string;
+  changedBy: string;
+}
+
+export interface PriceChangeSummary {
+  totalChanges: number;
+  increases: number;
+  decreases: number;
+  productsAffected: number;
+  averageChangePercent: number;
+}
+
+const parsePrice = (value: string | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const price = parseFloat(value);
+  return isNaN(price) ? null : price;
+};
+
+/**
+ * Who made a logged change. Changes without a user were made by the system
+ * (edge functions and scheduled jobs).
+ */
+export const changedByLabel = (log: Pick<ProductLogRow, 'changed_by' | 'changed_by_name'>): string =>
+log.changed_by_name || (log.changed_by ? 'Unknown user' : 'System');
+
+export const toPriceChange = (log: ProductLogRow): PriceChange => {
+  const oldPrice = parsePrice(log.old_value);
+  const newPrice = parsePrice(log.new_value);
+  const change = oldPrice !== null && newPrice !== null ? roundMoney(newPrice - oldPrice) : null;
+  return {
+    id: log.id,
+    productId: log.product_id,
+    productName: log.product_name || `Product ${log.product_id}`,
+    field: log.field_name,
+    oldPrice,
+    newPrice,
+    change,
+    changePercent: change !== null && oldPrice > 0 ? roundTo(change / oldPrice * 100, 2) : null,
+    changedAt: log.change_date,
+    changedBy: changedByLabel(log)
+  };
+};
+
+export const summarizePriceChanges = (changes: PriceChange[]): PriceChangeSummary => {
+  const percents = changes.map((change) => change.changePercent).filter((percent): percent is number => percent !== null);
+  return {
+    totalChanges: changes.length,
+    increases: changes.filter((change) => (change.change || 0) > 0).length,
+    decreases: changes.filter((change) => (change.change || 0) < 0).length,
+    productsAffected: new Set(changes.map((change) => change.productId)).size,
+    averageChangePercent: percents.length > 0 ?
+    roundTo(percents.reduce((sum, percent) => sum + percent, 0) / percents.length, 2) :
+    0
+  };
+};
+
+/**
+ * Group a product's changes by local calendar day, newest day first
+ */
+export const groupChangesByDay = (logs: ProductLogRow[]): [string, ProductLogRow[]][] => {
+  const groups = new Map<string, ProductLogRow[]>();
+  for (const log of logs) {
+    const date = new Date(log.change_date);
+    const day = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0')].
+    join('-');
+    groups.set(day, [...(groups.get(day) || []), log]);
+  }
+  return [...groups.entries()].sort(([a], [b]) => b.localeCompare(a));
+};
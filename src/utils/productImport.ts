@@ -0,0 +1,249 @@
+// Product catalog import: maps spreadsheet columns to product fields and plans
+// a dry run of the creates and updates an import would make. Rows are matched
+// to existing products by barcode (unit or case); matched products are only
+// updated where a value actually differs, and keep their own names.
+
+import { parseAmount } from './csv';
+import { roundMoney } from './valueHelpers';
+
+export type ProductImportField =
+'product_name' |
+'bar_code_unit' |
+'case_price' |
+'unit_per_case' |
+'retail_price' |
+'supplier' |
+'category';
+
+export const PRODUCT_IMPORT_FIELDS: {field: ProductImportField;label: string;numeric?: boolean;}[] = [
+{ field: 'product_name', label: 'Product Name' },
+{ field: 'bar_code_unit', label: 'Barcode (UPC)' },
+{ field: 'case_price', label: 'Case Price', numeric: true },
+{ field: 'unit_per_case', label: 'Units Per Case', numeric: true },
+{ field: 'retail_price', label: 'Retail Price', numeric: true },
+{ field: 'supplier', label: 'Supplier' },
+{ field: 'category', label: 'Category' }];
+
+
+// Common header names in vendor price lists, compared without case or punctuation
+const HEADER_ALIASES: Record<ProductImportField, string[]> = {
+  product_name: ['productname', 'name', 'description', 'itemdescription', 'item', 'product'],
+  bar_code_unit: ['barcodeunit', 'barcode', 'upc', 'unitupc', 'upccode', 'ean', 'gtin', 'unitbarcode'],
+  case_price: ['caseprice', 'casecost', 'cost', 'wholesaleprice', 'wholesale'],
+  unit_per_case: ['unitpercase', 'unitspercase', 'pack', 'packsize', 'casepack', 'qtypercase'],
+  retail_price: ['retailprice', 'retail', 'srp', 'msrp', 'sellprice'],
+  supplier: ['supplier', 'vendor', 'vendorname', 'suppliername'],
+  category: ['category', 'cat', 'productcategory', 'itemcategory']
+};
+
+/** Column index for each field, or null when the field is not imported */
+export type ColumnMapping = Record<ProductImportField, number | null>;
+
+export interface ImportExistingProduct {
+  id: number;
+  product_name: string;
+  bar_code_unit: string;
+  bar_code_case: string;
+  case_price: number;
+  unit_per_case: number;
+  unit_price: number;
+  retail_price: number;
+  supplier: string;
+  category: string;
+}
+
+export interface ProductFieldChange {
+  field: string;
+  oldValue: string | number | null;
+  newValue: string | number;
+}
+
+export interface PlannedProductCreate {
+  rowNumber: number;
+  values: Partial<Record<ProductImportField | 'unit_price', string | number>>;
+}
+
+export interface PlannedProductUpdate {
+  rowNumber: number;
+  productId: number;
+  productName: string;
+  changes: ProductFieldChange[];
+}
+
+export interface ImportRowError {
+  /** Spreadsheet row number, counting the header as row 1 */
+  rowNumber: number;
+  productName: string;
+  barcode: string;
+  message: string;
+}
+
+export interface ProductImportPlan {
+  creates: PlannedProductCreate[];
+  updates: PlannedProductUpdate[];
+  unchanged: number;
+  errors: ImportRowError[];
+}
+
+const headerKey = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Suggest a column for each field from the header row. A column is only used
+ * for one field.
+ */
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const keys = headers.map(headerKey);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  for (const { field } of PRODUCT_IMPORT_FIELDS) {
+    const candidates = [headerKey(field), ...HEADER_ALIASES[field]];
+    const index = candidates.
+    map((candidate) => keys.findIndex((key, i) => key === candidate && !used.has(i))).
+    find((i) => i >= 0);
+    mapping[field] = index === undefined ? null : index;
+    if (index !== undefined) used.add(index);
+  }
+  return mapping;
+};
+
+/**
+ * Barcode for matching: digits only, without leading zeros, since spreadsheets
+ * often drop them from UPCs stored as numbers
+ */
+export const normalizeBarcode = (barcode: string | null | undefined): string =>
+String(barcode ?? '').replace(/\D/g, '').replace(/^0+/, '');
+
+const differs = (oldValue: string | number | null | undefined, newValue: string | number): boolean =>
+typeof newValue === 'number' ?
+Math.abs((Number(oldValue) || 0) - newValue) >= 0.005 :
+String(oldValue ?? '').trim() !== newValue;
+
+/**
+ * Dry run of an import: the products each data row would create or update and
+ * the rows that cannot be imported. rows excludes the header row.
+ */
+export const planProductImport = (
+rows: string[][],
+mapping: ColumnMapping,
+existing: ImportExistingProduct[])
+: ProductImportPlan => {
+  const byBarcode = new Map<string, ImportExistingProduct>();
+  for (const product of existing) {
+    for (const barcode of [product.bar_code_unit, product.bar_code_case].map(normalizeBarcode)) {
+      if (barcode && !byBarcode.has(barcode)) byBarcode.set(barcode, product);
+    }
+  }
+  const existingNames = new Set(existing.map((product) => (product.product_name || '').trim().toLowerCase()));
+
+  const plan: ProductImportPlan = { creates: [], updates: [], unchanged: 0, errors: [] };
+  const seenBarcodes = new Map<string, number>();
+  const seenProducts = new Map<number, number>();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const cell = (field: ProductImportField) => mapping[field] === null ? '' : (row[mapping[field]!] ?? '').trim();
+    const productName = cell('product_name');
+    const barcode = cell('bar_code_unit').replace(/^'/, '');
+    const fail = (message: string) => {
+      plan.errors.push({ rowNumber, productName, barcode, message });
+    };
+
+    const values: PlannedProductCreate['values'] = {};
+    const problems: string[] = [];
+    for (const { field, label, numeric } of PRODUCT_IMPORT_FIELDS) {
+      const text = field === 'bar_code_unit' ? barcode : cell(field);
+      if (!text) continue;
+      if (!numeric) {
+        values[field] = text;
+        continue;
+      }
+      const amount = parseAmount(text);
+      if (amount === null || amount < 0) {
+        problems.push(`${label} "${text}" is not a valid amount`);
+      } else if (field === 'unit_per_case' && (amount < 1 || !Number.isInteger(amount))) {
+        problems.push(`${label} must be a whole number of at least 1`);
+      } else {
+        values[field] = field === 'unit_per_case' ? amount : roundMoney(amount);
+      }
+    }
+    if (problems.length > 0) return fail(problems.join('; '));
+
+    const barcodeKey = normalizeBarcode(barcode);
+    if (barcodeKey) {
+      if (seenBarcodes.has(barcodeKey)) {
+        return fail(`Barcode also appears on row ${seenBarcodes.get(barcodeKey)}`);
+      }
+      seenBarcodes.set(barcodeKey, rowNumber);
+    }
+
+    const match = barcodeKey ? byBarcode.get(barcodeKey) : undefined;
+    if (!match) {
+      if (!productName) return fail('Product name is required for new products');
+      if (!barcodeKey && existingNames.has(productName.toLowerCase())) {
+        return fail('No barcode to match on and a product with this name already exists');
+      }
+      const casePrice = values.case_price as number | undefined;
+      if (casePrice !== undefined) {
+        values.unit_price = roundMoney(casePrice / ((values.unit_per_case as number) || 1));
+      }
+      plan.creates.push({ rowNumber, values });
+      return;
+    }
+
+    if (seenProducts.has(match.id)) {
+      return fail(`Matches the same product as row ${seenProducts.get(match.id)}`);
+    }
+    seenProducts.set(match.id, rowNumber);
+
+    const changes: ProductFieldChange[] = [];
+    // The barcode is what matched the row, so it is never changed
+    for (const field of ['case_price', 'unit_per_case', 'retail_price', 'supplier', 'category'] as const) {
+      const newValue = values[field];
+      if (newValue === undefined) continue;
+      if (differs(match[field], newValue)) {
+        changes.push({ field, oldValue: match[field] ?? null, newValue });
+      }
+    }
+    if (changes.some((change) => change.field === 'case_price' || change.field === 'unit_per_case')) {
+      const casePrice = (values.case_price as number | undefined) ?? match.case_price ?? 0;
+      const unitsPerCase = (values.unit_per_case as number | undefined) ?? (match.unit_per_case || 1);
+      const unitPrice = roundMoney(casePrice / unitsPerCase);
+      if (differs(match.unit_price, unitPrice)) {
+        changes.push({ field: 'unit_price', oldValue: match.unit_price ?? null, newValue: unitPrice });
+      }
+    }
+
+    if (changes.length === 0) {
+      plan.unchanged++;
+    } else {
+      plan.updates.push({ rowNumber, productId: match.id, productName: match.product_name, changes });
+    }
+  });
+
+  return plan;
+};
+
+/**
+ * Split items into batches of at most size
+ */
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += Math.max(1, size)) {
+    batches.push(items.slice(i, i + Math.max(1, size)));
+  }
+  return batches;
+};
+
+const csvField = (value: string | number): string => {
+  const text = String(value ?? '');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV of the rows that were not imported, for download
+ */
+export const buildImportErrorReport = (errors: ImportRowError[]): string =>
+[
+['Row', 'Product Name', 'Barcode', 'Error'],
+...[...errors].sort((a, b) => a.rowNumber - b.rowNumber).map((error) => [error.rowNumber, error.productName, error.barcode, error.message])].
+map((fields) => fields.map(csvField).join(',')).join('\n');
@@ -0,0 +1,76 @@
+// Purchase order calculations shared by the order form, the order list and
+// receiving: order totals, the status implied by received quantities, and
+// whether an order's lines can still be edited.
+
+import { roundMoney } from './valueHelpers';
+
+export const ORDER_LINES_LOCKED_MESSAGE = 'Order lines cannot be changed after items have been received';
+
+export interface OrderLineAmounts {
+  quantity: number;
+  subtotal: number;
+  quantity_received?: number;
+}
+
+/**
+ * Order total, rounded to cents
+ */
+export const calculateOrderTotal = (lines: Pick<OrderLineAmounts, 'subtotal'>[]): number =>
+roundMoney(lines.reduce((sum, line) => sum + (line.subtotal || 0), 0));
+
+/**
+ * Quantity still outstanding on a line, in the line's own unit type
+ */
+export const getRemainingQuantity = (line: Pick<OrderLineAmounts, 'quantity' | 'quantity_received'>): number =>
+Math.max(0, (line.quantity || 0) - (line.quantity_received || 0));
+
+/**
+ * Order status once the given lines have been received
+ */
+export const getOrderStatus = (lines: Pick<OrderLineAmounts, 'quantity' | 'quantity_received'>[]): string => {
+  const received = lines.reduce((sum, line) => sum + (line.quantity_received || 0), 0);
+  if (received <= 0) {
+    return 'Pending';
+  }
+  return lines.every((line) => getRemainingQuantity(line) <= 0) ? 'Delivered' : 'Partially Received';
+};
+
+/**
+ * Lines are locked once anything has been received against them, since the
+ * receipts refer to the lines
+ */
+export const areOrderLinesLocked = (lines: Pick<OrderLineAmounts, 'quantity_received'>[]): boolean =>
+lines.some((line) => (line.quantity_received || 0) > 0);
+
+export interface ReceivableLine extends Pick<OrderLineAmounts, 'quantity' | 'quantity_received'> {
+  product_name: string;
+  unit_type: string;
+  units_per_case: number;
+}
+
+/**
+ * Convert a received quantity into stock units (cases are expanded by units per case)
+ */
+export const getUnitsForQuantity = (line: Pick<ReceivableLine, 'unit_type' | 'units_per_case'>, quantity: number): number =>
+line.unit_type === 'cases' ? quantity * (line.units_per_case || 1) : quantity;
+
+/**
+ * Case cost implied by a received line cost
+ */
+export const getCaseCost = (line: Pick<ReceivableLine, 'unit_type' | 'units_per_case'>, unitCost: number): number =>
+line.unit_type === 'cases' ? unitCost : unitCost * (line.units_per_case || 1);
+
+/**
+ * Why a quantity cannot be received against a line, or null when it can.
+ * A line cannot be received beyond what is still outstanding on it.
+ */
+export const getReceiptQuantityError = (line: ReceivableLine, quantity: number): string | null => {
+  if (!(quantity > 0)) {
+    return `${line.product_name}: received quantity must be greater than zero`;
+  }
+  const remaining = getRemainingQuantity(line);
+  if (quantity > remaining) {
+    return `${line.product_name}: cannot receive ${quantity}, only ${remaining} outstanding`;
+  }
+  return null;
+};
@@ -0,0 +1,117 @@
+// Reorder suggestion utilities: find products at or below minimum stock and
+// propose whole-case quantities per supplier to bring them back to a target level
+
+import { roundMoney, toNumber } from './valueHelpers';
+
+export const DEFAULT_TARGET_MULTIPLIER = 2;
+export const UNASSIGNED_SUPPLIER = 'No Supplier';
+
+export interface ReorderProduct {
+  ID?: number;
+  id?: number;
+  product_name: string;
+  product_code?: string;
+  supplier: string;
+  quantity_in_stock: number;
+  minimum_stock: number;
+  unit_per_case: number;
+  case_price: number;
+  unit_price: number;
+}
+
+export interface ReorderSuggestion {
+  product: ReorderProduct;
+  productId: number;
+  currentStock: number;
+  minimumStock: number;
+  targetStock: number;
+  unitsNeeded: number;
+  unitsPerCase: number;
+  casesToOrder: number;
+  caseCost: number;
+  subtotal: number;
+}
+
+export interface SupplierReorderGroup {
+  supplier: string;
+  suggestions: ReorderSuggestion[];
+  totalCases: number;
+  totalCost: number;
+}
+
+/**
+ * Target stock level for a product: its minimum stock scaled by the target multiplier
+ */
+export const getTargetStock = (minimumStock: number, targetMultiplier: number = DEFAULT_TARGET_MULTIPLIER): number => {
+  return Math.ceil(minimumStock * Math.max(1, targetMultiplier));
+};
+
+/**
+ * Build a reorder suggestion for a single product.
+ * Returns null when the product has no minimum stock set or is above its minimum.
+ */
+export const calculateReorderSuggestion = (
+product: ReorderProduct,
+targetMultiplier: number = DEFAULT_TARGET_MULTIPLIER)
+: ReorderSuggestion | null => {
+  const currentStock = toNumber(product.quantity_in_stock);
+  const minimumStock = toNumber(product.minimum_stock);
+
+  // Same low-stock rule as calculateInventoryMetrics: at or below the minimum
+  if (minimumStock <= 0 || currentStock > minimumStock) {
+    return null;
+  }
+
+  const unitsPerCase = Math.max(1, Math.round(toNumber(product.unit_per_case)) || 1);
+  const targetStock = getTargetStock(minimumStock, targetMultiplier);
+  const unitsNeeded = Math.max(0, targetStock - Math.max(0, currentStock));
+  const casesToOrder = Math.max(1, Math.ceil(unitsNeeded / unitsPerCase));
+  const caseCost = toNumber(product.case_price) || toNumber(product.unit_price) * unitsPerCase;
+
+  return {
+    product,
+    productId: product.id ?? product.ID ?? 0,
+    currentStock,
+    minimumStock,
+    targetStock,
+    unitsNeeded,
+    unitsPerCase,
+    casesToOrder,
+    caseCost: roundMoney(caseCost),
+    subtotal: roundMoney(caseCost * casesToOrder)
+  };
+};
+
+/**
+ * Group reorder suggestions by supplier, sorted by supplier name.
+ * Products without a supplier are collected under UNASSIGNED_SUPPLIER, listed last.
+ */
+export const buildReorderSuggestions = (
+products: ReorderProduct[],
+targetMultiplier: number = DEFAULT_TARGET_MULTIPLIER)
+: SupplierReorderGroup[] => {
+  const groups = new Map<string, SupplierReorderGroup>();
+
+  products.forEach((product) => {
+    const suggestion = calculateReorderSuggestion(product, targetMultiplier);
+    if (!suggestion) return;
+
+    const supplier = product.supplier?.trim() || UNASSIGNED_SUPPLIER;
+    const group = groups.get(supplier) || { supplier, suggestions: [], totalCases: 0, totalCost: 0 };
+    group.suggestions.push(suggestion);
+    group.totalCases += suggestion.casesToOrder;
+    group.totalCost = roundMoney(group.totalCost + suggestion.subtotal);
+    groups.set(supplier, group);
+  });
+
+  return Array.from(groups.values()).
+  map((group) => ({
+    ...group,
+    suggestions: group.suggestions.sort((a, b) => a.product.product_name.localeCompare(b.product.product_name))
+  })).
+  sort((a, b) => {
+    if (a.supplier === UNASSIGNED_SUPPLIER) return 1;
+    if (b.supplier === UNASSIGNED_SUPPLIER) return -1;
+    return a.supplier.localeCompare(b.supplier);
+  });
+};
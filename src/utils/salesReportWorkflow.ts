@@ -0,0 +1,82 @@
+// Sales report close-out: a shift report is submitted, a manager approves or
+// rejects it, and an approved report stays locked until it is reopened.
+
+export type SalesReportStatus = 'submitted' | 'approved' | 'rejected' | 'reopened';
+
+export type ReviewAction = 'submit' | 'approve' | 'reject' | 'reopen';
+
+export interface ReviewableReport {
+  status?: string | null;
+}
+
+export const STATUS_LABELS: Record<SalesReportStatus, string> = {
+  submitted: 'Pending Review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  reopened: 'Reopened'
+};
+
+export const ACTION_LABELS: Record<ReviewAction, string> = {
+  submit: 'Submitted',
+  approve: 'Approved',
+  reject: 'Rejected',
+  reopen: 'Reopened'
+};
+
+const NEXT_STATUS: Record<ReviewAction, SalesReportStatus> = {
+  submit: 'submitted',
+  approve: 'approved',
+  reject: 'rejected',
+  reopen: 'reopened'
+};
+
+// Statuses each action can be taken from
+const ALLOWED_FROM: Record<ReviewAction, SalesReportStatus[]> = {
+  submit: ['submitted', 'rejected', 'reopened'],
+  approve: ['submitted'],
+  reject: ['submitted'],
+  reopen: ['approved']
+};
+
+/**
+ * Workflow status of a report; reports saved without one are awaiting review
+ */
+export const getReportStatus = (report: ReviewableReport): SalesReportStatus => {
+  const status = String(report.status || '').toLowerCase();
+  return status in STATUS_LABELS ? status as SalesReportStatus : 'submitted';
+};
+
+/**
+ * Approved reports cannot be edited until a manager reopens them
+ */
+export const isReportLocked = (report: ReviewableReport): boolean => getReportStatus(report) === 'approved';
+
+export const getNextStatus = (action: ReviewAction): SalesReportStatus => NEXT_STATUS[action];
+
+/**
+ * Review actions a manager can take on a report
+ */
+export const getReviewActions = (report: ReviewableReport): ReviewAction[] =>
+(['approve', 'reject', 'reopen'] as ReviewAction[]).filter((action) => ALLOWED_FROM[action].includes(getReportStatus(report)));
+
+/**
+ * Check a workflow step before it is recorded. Rejecting needs a comment for the
+ * employee and reopening needs a reason for the audit trail.
+ */
+export const validateReviewAction = (
+report: ReviewableReport,
+action: ReviewAction,
+comment = '')
+: string | null => {
+  const status = getReportStatus(report);
+  if (!ALLOWED_FROM[action].includes(status)) {
+    return `A report that is ${STATUS_LABELS[status].toLowerCase()} cannot be ${ACTION_LABELS[action].toLowerCase()}`;
+  }
+  if (action === 'reject' && !comment.trim()) {
+    return 'Add a comment explaining what needs to be corrected';
+  }
+  if (action === 'reopen' && !comment.trim()) {
+    return 'A reason is required to reopen an approved report';
+  }
+  return null;
+};
@@ -0,0 +1,181 @@
+// Security policy: the settings edited on the admin Security Settings page and
+// the checks that enforce them in the app — password rules, idle session
+// timeout and the IP allowlist. The failed-login lockout is enforced by the
+// Supabase Auth password verification hook.
+
+export interface SecuritySettings {
+  passwordPolicy: {
+    minLength: number;
+    requireUppercase: boolean;
+    requireLowercase: boolean;
+    requireNumbers: boolean;
+    requireSpecialChars: boolean;
+    passwordExpiry: number;
+    preventReuse: number;
+  };
+  accountSecurity: {
+    maxFailedAttempts: number;
+    /** Minutes */
+    lockoutDuration: number;
+    requireEmailVerification: boolean;
+    requireTwoFactor: boolean;
+    /** Minutes of inactivity before signing out; 0 disables */
+    sessionTimeout: number;
+    allowMultipleSessions: boolean;
+  };
+  systemSecurity: {
+    enableSSL: boolean;
+    enableFirewall: boolean;
+    enableIPWhitelist: boolean;
+    ipWhitelist: string[];
+    enableAuditLogging: boolean;
+    enableDataEncryption: boolean;
+    enableBackupEncryption: boolean;
+  };
+  accessControl: {
+    enableRoleBasedAccess: boolean;
+    requireApprovalForNewUsers: boolean;
+    defaultUserRole: string;
+    enableGuestAccess: boolean;
+    maxConcurrentUsers: number;
+  };
+}
+
+export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  passwordPolicy: {
+    minLength: 8,
+    requireUppercase: true,
+    requireLowercase: true,
+    requireNumbers: true,
+    requireSpecialChars: true,
+    passwordExpiry: 90,
+    preventReuse: 12
+  },
+  accountSecurity: {
+    maxFailedAttempts: 5,
+    lockoutDuration: 30,
+    requireEmailVerification: true,
+    requireTwoFactor: false,
+    sessionTimeout: 60,
+    allowMultipleSessions: false
+  },
+  systemSecurity: {
+    enableSSL: true,
+    enableFirewall: true,
+    enableIPWhitelist: false,
+    ipWhitelist: ['192.168.1.0/24'],
+    enableAuditLogging: true,
+    enableDataEncryption: true,
+    enableBackupEncryption: true
+  },
+  accessControl: {
+    enableRoleBasedAccess: true,
+    requireApprovalForNewUsers: true,
+    defaultUserRole: 'Employee',
+    enableGuestAccess: false,
+    maxConcurrentUsers: 50
+  }
+};
+
+/**
+ * Stored settings over the defaults, so sections added later still have values
+ */
+export const mergeSecuritySettings = (stored: Partial<SecuritySettings> | null | undefined): SecuritySettings => {
+  const merged = { ...DEFAULT_SECURITY_SETTINGS } as SecuritySettings;
+  (Object.keys(DEFAULT_SECURITY_SETTINGS) as (keyof SecuritySettings)[]).forEach((section) => {
+    merged[section] = { ...DEFAULT_SECURITY_SETTINGS[section], ...(stored?.[section] || {}) } as any;
+  });
+  return merged;
+};
+
+/**
+ * Password rule violations, empty when the password meets the policy
+ */
+export const validatePassword = (password: string, policy: SecuritySettings['passwordPolicy']): string[] => {
+  const errors: string[] = [];
+  if ((password || '').length < policy.minLength) errors.push(`at least ${policy.minLength} characters`);
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) errors.push('an uppercase letter');
+  if (policy.requireLowercase && !/[a-z]/.test(password)) errors.push('a lowercase letter');
+  if (policy.requireNumbers && !/\d/.test(password)) errors.push('a number');
+  if (policy.requireSpecialChars && !/[^A-Za-z0-9]/.test(password)) errors.push('a special character');
+  return errors;
+};
+
+export const formatPasswordErrors = (errors: string[]): string =>
+errors.length === 0 ? '' : `Password must contain ${errors.join(', ')}`;
+
+/**
+ * True when there has been no activity for the timeout (in minutes)
+ */
+export const isSessionExpired = (lastActivity: number, timeoutMinutes: number, now: number = Date.now()): boolean =>
+timeoutMinutes > 0 && lastActivity > 0 && now - lastActivity > timeoutMinutes * 60 * 1000;
+
+const ipv4ToNumber = (ip: string): number | null => {
+  const parts = ip.trim().split('.');
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = value * 256 + Number(part);
+  }
+  return value;
+};
+
+/**
+ * Whether an allowlist entry is an IPv4 address, an IPv4 CIDR range or an
+ * exact IPv6 address
+ */
+export const isValidAllowlistEntry = (entry: string): boolean => {
+  const [address, bits, extra] = entry.trim().split('/');
+  if (extra !== undefined) return false;
+  if (address.includes(':')) return bits === undefined && /^[0-9a-f:]+$/i.test(address);
+  if (ipv4ToNumber(address) === null) return false;
+  return bits === undefined || /^\d{1,2}$/.test(bits) && Number(bits) <= 32;
+};
+
+/**
+ * Whether the IP is on the allowlist. IPv4 entries may be CIDR ranges; IPv6
+ * addresses must match exactly.
+ */
+export const isIpAllowed = (ip: string, allowlist: string[]): boolean => {
+  const address = ip.trim().toLowerCase();
+  const numeric = ipv4ToNumber(address);
+  return allowlist.some((entry) => {
+    const [range, bitsText] = entry.trim().toLowerCase().split('/');
+    if (bitsText === undefined) return range === address;
+    const base = ipv4ToNumber(range);
+    const bits = Number(bitsText);
+    if (numeric === null || base === null || isNaN(bits)) return false;
+    if (bits === 0) return true;
+    const size = 2 ** (32 - bits);
+    return Math.floor(numeric / size) === Math.floor(base / size);
+  });
+};
+
+/**
+ * Allowlist decision for the client's address. The allowlist is checked in the
+ * browser only, so it is advisory: it fails open when the allowlist is off or
+ * the address could not be determined (ip is null), rather than locking every
+ * user out when get_client_ip is unavailable.
+ */
+export const isClientIpAllowed = (ip: string | null, systemSecurity: SecuritySettings['systemSecurity']): boolean =>
+!systemSecurity.enableIPWhitelist || !ip || isIpAllowed(ip, systemSecurity.ipWhitelist);
+
+/**
+ * Changed fields as "section.field" with old and new values, for the audit log
+ */
+export const diffSecuritySettings = (
+before: SecuritySettings,
+after: SecuritySettings)
+: Record<string, {from: unknown;to: unknown;}> => {
+  const changes: Record<string, {from: unknown;to: unknown;}> = {};
+  (Object.keys(after) as (keyof SecuritySettings)[]).forEach((section) => {
+    Object.entries(after[section]).forEach(([field, value]) => {
+      const previous = (before[section] as Record<string, unknown>)?.[field];
+      if (JSON.stringify(previous) !== JSON.stringify(value)) {
+        changes[`${section}.${field}`] = { from: previous, to: value };
+      }
+    });
+  });
+  return changes;
+};
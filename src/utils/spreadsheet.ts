@@ -0,0 +1,136 @@
+// Reads uploaded CSV and Excel (.xlsx) files into rows of text cells.
+// An .xlsx file is a zip of XML parts: the zip is read here and its entries are
+// inflated with the browser's DecompressionStream, then the first worksheet is
+// parsed with DOMParser. Legacy binary .xls files are not supported.
+
+import { parseCsv } from './csv';
+
+export type Inflate = (data: Uint8Array) => Promise<Uint8Array>;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Raw DEFLATE decompression using the browser's DecompressionStream
+ */
+export const inflateRaw: Inflate = async (data) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Files in a zip archive, by name. Only stored and deflated entries are read.
+ */
+export const readZipEntries = async (bytes: Uint8Array, inflate: Inflate = inflateRaw): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('The file is not a valid .xlsx workbook');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) throw new Error('Corrupt .xlsx workbook');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) throw new Error('Corrupt .xlsx workbook');
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      entries.set(name, await inflate(data));
+    }
+  }
+  return entries;
+};
+
+// Zero-based column index from a cell reference such as "AB12"
+const columnIndex = (reference: string): number => {
+  const letters = (reference.match(/^[A-Z]+/i)?.[0] || 'A').toUpperCase();
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const textOf = (element: Element | null): string =>
+element ? [...element.getElementsByTagName('t')].map((t) => t.textContent || '').join('') : '';
+
+/**
+ * Rows of a worksheet part, resolving shared strings. Empty cells are filled in
+ * so every value stays in its column.
+ */
+export const parseXlsxSheet = (sheetXml: string, sharedStringsXml: string = ''): string[][] => {
+  const parser = new DOMParser();
+  const sharedStrings = sharedStringsXml ?
+  [...parser.parseFromString(sharedStringsXml, 'application/xml').getElementsByTagName('si')].map(textOf) :
+  [];
+  const sheet = parser.parseFromString(sheetXml, 'application/xml');
+
+  const rows: string[][] = [];
+  for (const rowElement of [...sheet.getElementsByTagName('row')]) {
+    const row: string[] = [];
+    for (const cell of [...rowElement.getElementsByTagName('c')]) {
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[parseInt(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = textOf(cell.getElementsByTagName('is')[0] || null);
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        text = value;
+      }
+      const index = cell.getAttribute('r') ? columnIndex(cell.getAttribute('r')!) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = text;
+    }
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+};
+
+/**
+ * Rows of the first worksheet in an .xlsx workbook
+ */
+export const readXlsx = async (bytes: Uint8Array, inflate: Inflate = inflateRaw): Promise<string[][]> => {
+  const entries = await readZipEntries(bytes, inflate);
+  const sheetName = [...entries.keys()].
+  filter((name) => /^xl\/worksheets\/sheet\d+\.xml$/.test(name)).
+  sort((a, b) => parseInt(a.replace(/\D/g, '')) - parseInt(b.replace(/\D/g, '')))[0];
+  if (!sheetName) throw new Error('The workbook has no worksheets');
+
+  const decoder = new TextDecoder();
+  const sharedStrings = entries.get('xl/sharedStrings.xml');
+  return parseXlsxSheet(decoder.decode(entries.get(sheetName)), sharedStrings ? decoder.decode(sharedStrings) : '');
+};
+
+/**
+ * Rows of an uploaded .csv or .xlsx file
+ */
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx')) {
+    return readXlsx(new Uint8Array(await file.arrayBuffer()));
+  }
+  if (name.endsWith('.xls')) {
+    throw new Error('Legacy .xls files are not supported. Save the file as .xlsx or .csv and try again.');
+  }
+  return parseCsv(await file.text());
+};
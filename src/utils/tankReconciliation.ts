@@ -0,0 +1,179 @@
+// Tank inventory reconciliation: a running book-vs-stick ledger per station and
+// grade. Book inventory is the previous closing stick reading plus deliveries
+// minus gallons sold; variance is the closing stick reading minus book.
+
+import {
+  allocateToTankGrades,
+  DEFAULT_FUEL_GRADES,
+  FuelGradeConfig,
+  getDeliveryVolumes,
+  getSalesGallons } from
+'./fuelGrades';
+import { roundTo, toDateKey, toNumber } from './valueHelpers';
+
+export interface StickReading {
+  station: string;
+  reading_date: string;
+  grade: string;
+  stick_gallons: number;
+}
+
+/** Gallons moved on one day for one grade (delivered in, or sold out) */
+export interface GradeMovement {
+  station: string;
+  date: string;
+  grade: string;
+  gallons: number;
+}
+
+export interface VarianceThresholds {
+  daily_variance_gallons: number;
+  cumulative_variance_gallons: number;
+  cumulative_variance_percent: number;
+}
+
+export type VarianceFlag = 'none' | 'loss' | 'gain';
+
+export interface TankLedgerEntry {
+  station: string;
+  grade: string;
+  date: string;
+  openingGallons: number | null;
+  deliveredGallons: number;
+  soldGallons: number;
+  bookGallons: number | null;
+  closingGallons: number;
+  dailyVariance: number | null;
+  cumulativeVariance: number;
+  cumulativeSold: number;
+  cumulativeLimit: number;
+  dailyFlag: VarianceFlag;
+  cumulativeFlag: VarianceFlag;
+}
+
+export const DEFAULT_VARIANCE_THRESHOLDS: VarianceThresholds = {
+  daily_variance_gallons: 50,
+  cumulative_variance_gallons: 130,
+  cumulative_variance_percent: 1
+};
+
+const flagFor = (variance: number, limit: number): VarianceFlag => {
+  if (Math.abs(variance) <= limit) return 'none';
+  return variance < 0 ? 'loss' : 'gain';
+};
+
+/**
+ * Split sales report rows into gallons drawn from each tank grade; blended
+ * grades count against the grades they are blended from
+ */
+export const salesToMovements = (
+reports: {station: string;report_date: string;}[],
+grades: FuelGradeConfig[] = DEFAULT_FUEL_GRADES)
+: GradeMovement[] =>
+reports.flatMap((report) =>
+Object.entries(allocateToTankGrades(getSalesGallons(report), grades)).map(([grade, gallons]) => ({
+  station: report.station,
+  date: toDateKey(report.report_date),
+  grade,
+  gallons
+}))
+);
+
+/**
+ * Split delivery rows into per-grade gallons delivered
+ */
+export const deliveriesToMovements = (deliveries: {station: string;delivery_date: string;}[]): GradeMovement[] =>
+deliveries.flatMap((delivery) =>
+Object.entries(getDeliveryVolumes(delivery)).map(([grade, volume]) => ({
+  station: delivery.station,
+  date: toDateKey(delivery.delivery_date),
+  grade,
+  gallons: volume.delivered
+}))
+);
+
+/**
+ * Thresholds for a station: its own row, else the ALL row, else the defaults
+ */
+export const resolveThresholds = (rows: (VarianceThresholds & {station: string;})[], station: string): VarianceThresholds =>
+rows.find((row) => row.station === station) || rows.find((row) => row.station === 'ALL') || DEFAULT_VARIANCE_THRESHOLDS;
+
+const sumMovements = (movements: GradeMovement[], after: string | null, upTo: string): number =>
+roundTo(movements.
+filter((movement) => (after === null || movement.date > after) && movement.date <= upTo).
+reduce((sum, movement) => sum + toNumber(movement.gallons), 0), 2);
+
+/**
+ * Ledger for one station and grade, oldest first. Each closing reading becomes
+ * the next day's opening; deliveries and sales between two readings (including
+ * days without a reading) count towards the later one. The first reading only
+ * opens the ledger.
+ */
+export const buildTankLedger = (
+station: string,
+grade: string,
+readings: StickReading[],
+deliveries: GradeMovement[],
+sales: GradeMovement[],
+thresholds: VarianceThresholds = DEFAULT_VARIANCE_THRESHOLDS)
+: TankLedgerEntry[] => {
+  const matches = <T extends {station: string;grade: string;}>(entry: T) => entry.station === station && entry.grade === grade;
+  const gradeReadings = readings.filter(matches).sort((a, b) => toDateKey(a.reading_date).localeCompare(toDateKey(b.reading_date)));
+  const gradeDeliveries = deliveries.filter(matches);
+  const gradeSales = sales.filter(matches);
+
+  const ledger: TankLedgerEntry[] = [];
+  let previousDate: string | null = null;
+  let openingGallons: number | null = null;
+  let cumulativeVariance = 0;
+  let cumulativeSold = 0;
+
+  for (const reading of gradeReadings) {
+    const date = toDateKey(reading.reading_date);
+    const closingGallons = toNumber(reading.stick_gallons);
+    const deliveredGallons = previousDate === null ? 0 : sumMovements(gradeDeliveries, previousDate, date);
+    const soldGallons = previousDate === null ? 0 : sumMovements(gradeSales, previousDate, date);
+
+    let bookGallons: number | null = null;
+    let dailyVariance: number | null = null;
+    if (openingGallons !== null) {
+      bookGallons = roundTo(openingGallons + deliveredGallons - soldGallons, 2);
+      dailyVariance = roundTo(closingGallons - bookGallons, 2);
+      cumulativeVariance = roundTo(cumulativeVariance + dailyVariance, 2);
+      cumulativeSold = roundTo(cumulativeSold + soldGallons, 2);
+    }
+
+    const cumulativeLimit = roundTo(
+      toNumber(thresholds.cumulative_variance_gallons) + cumulativeSold * toNumber(thresholds.cumulative_variance_percent) / 100,
+      2
+    );
+
+    ledger.push({
+      station,
+      grade,
+      date,
+      openingGallons,
+      deliveredGallons,
+      soldGallons,
+      bookGallons,
+      closingGallons,
+      dailyVariance,
+      cumulativeVariance,
+      cumulativeSold,
+      cumulativeLimit,
+      dailyFlag: dailyVariance === null ? 'none' : flagFor(dailyVariance, toNumber(thresholds.daily_variance_gallons)),
+      cumulativeFlag: flagFor(cumulativeVariance, cumulativeLimit)
+    });
+
+    previousDate = date;
+    openingGallons = closingGallons;
+  }
+
+  return ledger;
+};
+
+/**
+ * Latest ledger entry per grade, for the reconciliation summary
+ */
+export const summarizeLedgers = (ledgers: TankLedgerEntry[][]): TankLedgerEntry[] =>
+ledgers.filter((ledger) => ledger.length > 0).map((ledger) => ledger[ledger.length - 1]);
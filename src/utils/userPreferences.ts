@@ -0,0 +1,117 @@
+// Per-user preferences stored on user_profiles.preferences, and the date and
+// currency formatting that applies them. The FormattingProvider keeps the
+// active preferences here so non-React code (exports, print templates) formats
+// the same way as the screens.
+
+export type ThemePreference = 'light' | 'dark' | 'auto';
+export type DateFormatPreference = 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD';
+export type CurrencyPreference = 'USD' | 'EUR' | 'GBP';
+
+export interface UserPreferences {
+  notifications: {
+    emailAlerts: boolean;
+    smsAlerts: boolean;
+    desktopNotifications: boolean;
+    alertFrequency: 'immediate' | 'daily' | 'weekly';
+  };
+  theme: ThemePreference;
+  language: string;
+  dateFormat: DateFormatPreference;
+  currency: CurrencyPreference;
+}
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  notifications: {
+    emailAlerts: true,
+    smsAlerts: false,
+    desktopNotifications: true,
+    alertFrequency: 'daily'
+  },
+  theme: 'light',
+  language: 'en',
+  dateFormat: 'MM/DD/YYYY',
+  currency: 'USD'
+};
+
+export const DATE_FORMATS: DateFormatPreference[] = ['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD'];
+export const CURRENCIES: CurrencyPreference[] = ['USD', 'EUR', 'GBP'];
+
+/**
+ * Stored preferences over the defaults; unknown formats fall back to the default
+ */
+export const mergeUserPreferences = (stored: Partial<UserPreferences> | null | undefined): UserPreferences => {
+  const merged: UserPreferences = {
+    ...DEFAULT_USER_PREFERENCES,
+    ...(stored || {}),
+    notifications: { ...DEFAULT_USER_PREFERENCES.notifications, ...(stored?.notifications || {}) }
+  };
+  if (!DATE_FORMATS.includes(merged.dateFormat)) merged.dateFormat = DEFAULT_USER_PREFERENCES.dateFormat;
+  if (!CURRENCIES.includes(merged.currency)) merged.currency = DEFAULT_USER_PREFERENCES.currency;
+  if (!['light', 'dark', 'auto'].includes(merged.theme)) merged.theme = DEFAULT_USER_PREFERENCES.theme;
+  return merged;
+};
+
+let activePreferences: UserPreferences = DEFAULT_USER_PREFERENCES;
+
+export const setActivePreferences = (preferences: UserPreferences) => {
+  activePreferences = preferences;
+};
+
+export const getActivePreferences = (): UserPreferences => activePreferences;
+
+// Date-only strings are calendar days, not UTC midnight, so they must not shift
+// a day in time zones west of UTC
+const toDate = (value: string | Date): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (!value) return null;
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  const date = dateOnly ?
+  new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3])) :
+  new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * A date in the user's format, or 'N/A' when there is no valid date
+ */
+export const formatDate = (
+value: string | Date | null | undefined,
+dateFormat: DateFormatPreference = activePreferences.dateFormat)
+: string => {
+  const date = toDate(value as string | Date);
+  if (!date) return 'N/A';
+  const day = pad(date.getDate());
+  const month = pad(date.getMonth() + 1);
+  const year = date.getFullYear();
+  switch (dateFormat) {
+    case 'DD/MM/YYYY':return `${day}/${month}/${year}`;
+    case 'YYYY-MM-DD':return `${year}-${month}-${day}`;
+    default:return `${month}/${day}/${year}`;
+  }
+};
+
+export const formatDateTime = (
+value: string | Date | null | undefined,
+dateFormat: DateFormatPreference = activePreferences.dateFormat)
+: string => {
+  const date = toDate(value as string | Date);
+  if (!date) return 'N/A';
+  return `${formatDate(date, dateFormat)} ${date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+/**
+ * An amount in the user's currency
+ */
+export const formatCurrency = (
+amount: number | null | undefined,
+currency: CurrencyPreference = activePreferences.currency)
+: string =>
+new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Number(amount) || 0);
+
+/**
+ * Whether the dark theme applies, given the OS preference for 'auto'
+ */
+export const isDarkTheme = (theme: ThemePreference, systemPrefersDark: boolean): boolean =>
+theme === 'dark' || theme === 'auto' && systemPrefersDark;
@@ -0,0 +1,29 @@
+// Value coercion shared by the reconciliation and report utils: numeric columns
+// arrive as strings or null, money and volumes are rounded to a fixed number of
+// decimals, and dates are matched on their YYYY-MM-DD key.
+
+/**
+ * Number from a database value; 0 when it is missing or not numeric
+ */
+export const toNumber = (value: unknown): number => {
+  const parsed = parseFloat(value as string);
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+/**
+ * Round to the given number of decimal places
+ */
+export const roundTo = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Round an amount to cents
+ */
+export const roundMoney = (value: number): number => roundTo(value, 2);
+
+/**
+ * YYYY-MM-DD part of a date or timestamp
+ */
+export const toDateKey = (value: unknown): string => String(value || '').slice(0, 10);
@@ -0,0 +1,269 @@
+// Parser for Veeder-Root TLS text exports (TLS-300/350/450 printer and serial
+// formats). Recognizes the in-tank inventory report, either as per-tank
+// "VOLUME = 5234 GALS" blocks or as a VOLUME/ULLAGE/HEIGHT/WATER/TEMP table,
+// and the delivery report with its END/START/AMOUNT lines per tank.
+
+import type { FuelTankConfig } from './fuelGrades';
+import { roundTo } from './valueHelpers';
+
+export interface ParsedTankInventory {
+  tankNumber: number;
+  product: string;
+  grade: string | null;
+  volume: number | null;
+  tcVolume: number | null;
+  ullage: number | null;
+  height: number | null;
+  waterInches: number | null;
+  waterVolume: number | null;
+  temperature: number | null;
+}
+
+export interface ParsedTankDelivery {
+  tankNumber: number;
+  product: string;
+  grade: string | null;
+  startedAt: string;
+  endedAt: string;
+  startVolume: number | null;
+  endVolume: number | null;
+  increase: number;
+  tcIncrease: number | null;
+}
+
+export interface VeederRootReport {
+  reportDate: string | null;
+  inventory: ParsedTankInventory[];
+  deliveries: ParsedTankDelivery[];
+  warnings: string[];
+}
+
+/** Confirmed figures per grade, as saved with the sales report */
+export interface GradeTankLevel {
+  grade: string;
+  tanks: number[];
+  volume: number;
+  waterInches: number;
+  deliveryIncrease: number;
+}
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const NUMBER = '(-?[\\d,]*\\.?\\d+)';
+const DATE_LINE = /^\s*([A-Z]{3})\s+(\d{1,2}),\s*(\d{4})\s+\d{1,2}:\d{2}/i;
+const TANK_HEADER = /^\s*T\s*(\d+)\s*:\s*(.+?)\s*$/i;
+const BLOCK_FIELD = new RegExp(`^\\s*(90% ULLAGE|TC VOLUME|WATER VOL|VOLUME|ULLAGE|HEIGHT|WATER|TEMP)\\s*=\\s*${NUMBER}`, 'i');
+const TABLE_ROW = new RegExp(`^\\s*(\\d+)\\s+(.*?[A-Z].*?)\\s+${NUMBER}\\s+${NUMBER}\\s+${NUMBER}\\s+${NUMBER}\\s+${NUMBER}\\s+${NUMBER}\\s*$`, 'i');
+const DELIVERY_POINT = new RegExp(`^\\s*(START|END)\\s*:\\s*(.*?)\\s+${NUMBER}\\s+${NUMBER}\\s+${NUMBER}\\s+${NUMBER}\\s+${NUMBER}\\s*$`, 'i');
+const DELIVERY_AMOUNT = new RegExp(`^\\s*AMOUNT\\s*:\\s*${NUMBER}(?:\\s+${NUMBER})?`, 'i');
+
+const toNumber = (value: string | undefined): number | null => {
+  if (value === undefined) return null;
+  const parsed = parseFloat(value.replace(/,/g, ''));
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Map a TLS product label to a fuel grade key, or null when it is not recognized
+ */
+export const gradeForProduct = (product: string): string | null => {
+  const label = product.toUpperCase();
+  if (/DIESEL|DSL/.test(label)) return 'diesel';
+  if (/PLUS|MID/.test(label)) return 'plus';
+  if (/SUPER|PREM/.test(label)) return 'super';
+  if (/REG|UNL|GAS/.test(label)) return 'regular';
+  return null;
+};
+
+/**
+ * Whether a file looks like a TLS text export rather than a scan or PDF
+ */
+export const isVeederRootTextFile = (file: {name: string;type: string;}): boolean =>
+file.type.startsWith('text/') || /\.(txt|prn|log|csv)$/i.test(file.name);
+
+const blankInventory = (tankNumber: number, product: string): ParsedTankInventory => ({
+  tankNumber,
+  product,
+  grade: gradeForProduct(product),
+  volume: null,
+  tcVolume: null,
+  ullage: null,
+  height: null,
+  waterInches: null,
+  waterVolume: null,
+  temperature: null
+});
+
+/**
+ * Parse a Veeder-Root TLS text export. Unrecognized lines are ignored, so a
+ * file holding several reports (or console noise) still yields what it can.
+ */
+export const parseVeederRootReport = (text: string): VeederRootReport => {
+  const report: VeederRootReport = { reportDate: null, inventory: [], deliveries: [], warnings: [] };
+  const lines = String(text || '').replace(/\r\n?/g, '\n').split('\n');
+
+  let section: 'inventory' | 'delivery' | null = null;
+  let tank: {tankNumber: number;product: string;} | null = null;
+  let inventory: ParsedTankInventory | null = null;
+  let delivery: Partial<Record<'START' | 'END', {at: string;volume: number | null;}>> | null = null;
+
+  const finishDelivery = (amount?: number | null, tcAmount?: number | null) => {
+    if (!delivery || !tank) {
+      delivery = null;
+      return;
+    }
+    const startVolume = delivery.START?.volume ?? null;
+    const endVolume = delivery.END?.volume ?? null;
+    const increase = amount ?? (startVolume !== null && endVolume !== null ? endVolume - startVolume : null);
+    if (increase === null) {
+      report.warnings.push(`Tank ${tank.tankNumber}: delivery without an increase amount was skipped`);
+    } else {
+      report.deliveries.push({
+        tankNumber: tank.tankNumber,
+        product: tank.product,
+        grade: gradeForProduct(tank.product),
+        startedAt: delivery.START?.at || '',
+        endedAt: delivery.END?.at || '',
+        startVolume,
+        endVolume,
+        increase: roundTo(increase, 2),
+        tcIncrease: tcAmount ?? null
+      });
+    }
+    delivery = null;
+  };
+
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+
+    if (!report.reportDate) {
+      const dateMatch = line.match(DATE_LINE);
+      const month = dateMatch ? MONTHS.indexOf(dateMatch[1].toUpperCase()) : -1;
+      if (dateMatch && month >= 0) {
+        report.reportDate = `${dateMatch[3]}-${String(month + 1).padStart(2, '0')}-${dateMatch[2].padStart(2, '0')}`;
+        continue;
+      }
+    }
+
+    if (/IN-TANK INVENTORY|INVENTORY REPORT/.test(upper)) {
+      finishDelivery();
+      section = 'inventory';
+      tank = null;
+      inventory = null;
+      continue;
+    }
+    if (/DELIVERY REPORT/.test(upper)) {
+      finishDelivery();
+      section = 'delivery';
+      tank = null;
+      inventory = null;
+      continue;
+    }
+    if (!section) continue;
+
+    const tankMatch = line.match(TANK_HEADER);
+    if (tankMatch) {
+      finishDelivery();
+      tank = { tankNumber: parseInt(tankMatch[1], 10), product: tankMatch[2] };
+      if (section === 'inventory') {
+        inventory = blankInventory(tank.tankNumber, tank.product);
+        report.inventory.push(inventory);
+      }
+      continue;
+    }
+
+    if (section === 'inventory') {
+      const fieldMatch = line.match(BLOCK_FIELD);
+      if (fieldMatch && inventory) {
+        const value = toNumber(fieldMatch[2]);
+        switch (fieldMatch[1].toUpperCase()) {
+          case 'VOLUME':inventory.volume = value;break;
+          case 'TC VOLUME':inventory.tcVolume = value;break;
+          case 'ULLAGE':inventory.ullage = value;break;
+          case 'HEIGHT':inventory.height = value;break;
+          case 'WATER':inventory.waterInches = value;break;
+          case 'WATER VOL':inventory.waterVolume = value;break;
+          case 'TEMP':inventory.temperature = value;break;
+        }
+        continue;
+      }
+
+      // Serial (I201) layout: TANK PRODUCT VOLUME TC-VOLUME ULLAGE HEIGHT WATER TEMP
+      const rowMatch = line.match(TABLE_ROW);
+      if (rowMatch) {
+        report.inventory.push({
+          ...blankInventory(parseInt(rowMatch[1], 10), rowMatch[2]),
+          volume: toNumber(rowMatch[3]),
+          tcVolume: toNumber(rowMatch[4]),
+          ullage: toNumber(rowMatch[5]),
+          height: toNumber(rowMatch[6]),
+          waterInches: toNumber(rowMatch[7]),
+          temperature: toNumber(rowMatch[8])
+        });
+      }
+      continue;
+    }
+
+    if (!tank) continue;
+
+    // Delivery columns: DATE / TIME, GALLONS, TC GALLONS, WATER, TEMP, HEIGHT.
+    // END is printed before START, so a repeated point starts a new delivery.
+    const pointMatch = line.match(DELIVERY_POINT);
+    if (pointMatch) {
+      const point = pointMatch[1].toUpperCase() as 'START' | 'END';
+      if (delivery?.[point]) finishDelivery();
+      delivery = { ...(delivery || {}), [point]: { at: pointMatch[2].trim(), volume: toNumber(pointMatch[3]) } };
+      continue;
+    }
+
+    const amountMatch = line.match(DELIVERY_AMOUNT);
+    if (amountMatch) {
+      delivery = delivery || {};
+      finishDelivery(toNumber(amountMatch[1]), toNumber(amountMatch[2]));
+    }
+  }
+  finishDelivery();
+
+  report.inventory.
+  filter((entry) => !entry.grade).
+  forEach((entry) => report.warnings.push(`Tank ${entry.tankNumber}: product "${entry.product}" does not match a fuel grade`));
+
+  return report;
+};
+
+/**
+ * Per-grade totals for the confirmation step. Manifolded tanks of the same
+ * grade add up their volumes and deliveries; water is the highest level.
+ * Tanks configured for the station decide the grade by tank number, otherwise
+ * the grade is guessed from the product label.
+ */
+export const summarizeTankLevels = (report: VeederRootReport, tanks: FuelTankConfig[] = []): GradeTankLevel[] => {
+  const gradeFor = (entry: {tankNumber: number;grade: string | null;}) =>
+  tanks.find((tank) => Number(tank.tank_number) === entry.tankNumber)?.grade || (tanks.length === 0 ? entry.grade : null);
+  const levels = new Map<string, GradeTankLevel>();
+  const levelFor = (grade: string) => {
+    if (!levels.has(grade)) {
+      levels.set(grade, { grade, tanks: [], volume: 0, waterInches: 0, deliveryIncrease: 0 });
+    }
+    return levels.get(grade)!;
+  };
+
+  report.inventory.forEach((entry) => {
+    const grade = gradeFor(entry);
+    if (!grade || entry.volume === null) return;
+    const level = levelFor(grade);
+    level.tanks.push(entry.tankNumber);
+    level.volume = roundTo(level.volume + entry.volume, 2);
+    level.waterInches = Math.max(level.waterInches, entry.waterInches || 0);
+  });
+
+  report.deliveries.forEach((entry) => {
+    const grade = gradeFor(entry);
+    if (!grade) return;
+    const level = levelFor(grade);
+    if (!level.tanks.includes(entry.tankNumber)) level.tanks.push(entry.tankNumber);
+    level.deliveryIncrease = roundTo(level.deliveryIncrease + entry.increase, 2);
+  });
+
+  return Array.from(levels.values());
+};
@@ -0,0 +1,69 @@
+// Email transport and delivery log shared by the edge functions that send email
+// (email-relay, job-worker).
+/* global Deno */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createTransportFromEnv, DEFAULT_EMAIL_LIMITS, EmailLimits, EmailStore, EmailTransport } from '../email-relay/mailer.ts';
+import { connectSmtp } from '../email-relay/socket.ts';
+
+const DEFAULT_EMAIL_FROM = 'DFS Manager <noreply@dfsmanager.com>';
+
+const readLimit = (key: string, fallback: number): number => {
+  const value = Number.parseInt(Deno.env.get(key) ?? '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * Sender, allowed Reply-To addresses and daily limits from the EMAIL_FROM,
+ * EMAIL_REPLY_TO (comma separated), EMAIL_DAILY_LIMIT and EMAIL_USER_DAILY_LIMIT secrets
+ */
+export const getEmailSettings = (): {from: string;allowedReplyTo: string[];limits: EmailLimits;} => ({
+  from: Deno.env.get('EMAIL_FROM') || DEFAULT_EMAIL_FROM,
+  allowedReplyTo: (Deno.env.get('EMAIL_REPLY_TO') ?? '').split(',').map((entry) => entry.trim()).filter(Boolean),
+  limits: {
+    daily: readLimit('EMAIL_DAILY_LIMIT', DEFAULT_EMAIL_LIMITS.daily),
+    dailyPerUser: readLimit('EMAIL_USER_DAILY_LIMIT', DEFAULT_EMAIL_LIMITS.dailyPerUser)
+  }
+});
+
+/**
+ * Transport chosen by the EMAIL_TRANSPORT secret; null when it is not configured
+ */
+export const createEmailTransport = (): EmailTransport | null =>
+createTransportFromEnv((key) => Deno.env.get(key), {
+  connect: connectSmtp,
+  writeFile: (path, content) => Deno.writeTextFile(path, content)
+});
+
+// email_delivery_log is written with the service role so callers cannot forge entries.
+// userId is null for messages sent by the job worker.
+export function createEmailStore(admin: SupabaseClient, userId: string | null): EmailStore {
+  return {
+    async logDelivery(entry) {
+      const { error } = await admin.from('email_delivery_log').insert({
+        ...entry,
+        sent_by_user_id: userId,
+        created_at: new Date().toISOString()
+      });
+      if (error) console.error('Failed to log email delivery:', error.message);
+    },
+
+    async countSentSince(since) {
+      const countSent = async (byUser: boolean): Promise<number> => {
+        let query = admin.
+        from('email_delivery_log').
+        select('id', { count: 'exact', head: true }).
+        eq('status', 'Sent').
+        gte('sent_at', since.toISOString());
+        if (byUser) query = query.eq('sent_by_user_id', userId);
+        const { count, error } = await query;
+        if (error) throw new Error(`Failed to count sent emails: ${error.message}`);
+        return count ?? 0;
+      };
+      return {
+        total: await countSent(false),
+        byUser: userId ? await countSent(true) : 0
+      };
+    }
+  };
+}
@@ -0,0 +1,18 @@
+// Scheduled job rules shared by the job-worker edge function and the Job Scheduler page.
+// Kept free of Deno imports so the browser bundle can use them too.
+
+/**
+ * Why a job cannot be run on demand, or null when it can. Only active recurring
+ * jobs can: running a one-off job early (or again, once it has deactivated)
+ * would repeat its side effect, e.g. resend a scheduled SMS, and a paused job
+ * stays paused until an admin resumes it.
+ */
+export const getRunNowError = (job: {interval_minutes: number | null;is_active: boolean;}): string | null => {
+  if (!job.interval_minutes) {
+    return 'One-off jobs run once at their scheduled time and cannot be run now';
+  }
+  if (!job.is_active) {
+    return 'This job is paused; resume it before running it now';
+  }
+  return null;
+};
@@ -0,0 +1,17 @@
+// Phone number helpers shared by the SMS edge functions and the app's opt-out checks.
+// Kept free of Deno imports so the browser bundle can use them too.
+
+/**
+ * Reduce a phone number to its digits so stored contacts and provider numbers
+ * compare equal regardless of formatting. Ten-digit numbers are treated as
+ * North American numbers without the country code.
+ */
+export const normalizePhoneKey = (phoneNumber: string | null | undefined): string => {
+  const digits = (phoneNumber || '').replace(/\D/g, '');
+  return digits.length === 10 ? `1${digits}` : digits;
+};
+
+export const phoneNumbersMatch = (a: string | null | undefined, b: string | null | undefined): boolean => {
+  const key = normalizePhoneKey(a);
+  return key.length > 0 && key === normalizePhoneKey(b);
+};
@@ -0,0 +1,65 @@
+// Relay store shared by the edge functions that send SMS (sms-relay, job-worker).
+/* global Deno */
+
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { phoneNumbersMatch } from './phone.ts';
+import {
+  DEFAULT_DAILY_LIMIT,
+  DEFAULT_FROM_NUMBER,
+  normalizeProviderName,
+  RelayStore } from
+'../sms-relay/relay.ts';
+
+/**
+ * Service-role client for the edge functions
+ */
+export const createAdminClient = () => createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+// sms_config / sms_history access with the service role, so the limit cannot be bypassed by RLS
+export function createRelayStore(admin: SupabaseClient): RelayStore {
+  return {
+    async getSettings() {
+      const { data } = await admin.
+      from('sms_config').
+      select('service_name, from_number, daily_limit').
+      eq('is_enabled', true).
+      order('id', { ascending: false }).
+      limit(1).
+      maybeSingle();
+
+      return {
+        provider: normalizeProviderName(data?.service_name),
+        fromNumber: data?.from_number || DEFAULT_FROM_NUMBER,
+        dailyLimit: data?.daily_limit || DEFAULT_DAILY_LIMIT
+      };
+    },
+    async isOptedOut(phoneNumber) {
+      const { data, error } = await admin.
+      from('sms_contacts').
+      select('mobile_number').
+      eq('opt_out', true);
+      if (error) throw new Error(error.message);
+      return (data || []).some((contact) => phoneNumbersMatch(contact.mobile_number, phoneNumber));
+    },
+    async countSentSince(since) {
+      const { count, error } = await admin.
+      from('sms_history').
+      select('id', { count: 'exact', head: true }).
+      eq('status', 'Sent').
+      gte('sent_at', since.toISOString());
+      if (error) throw new Error(error.message);
+      return count || 0;
+    },
+    async logMessage(entry) {
+      const { error } = await admin.from('sms_history').insert({
+        ...entry,
+        clicksend_message_id: entry.message_id,
+        created_at: new Date().toISOString()
+      });
+      if (error) console.error('Failed to log SMS history:', error.message);
+    }
+  };
+}
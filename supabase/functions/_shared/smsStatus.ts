@@ -0,0 +1,9 @@
+// SMS history statuses shared by the SMS edge functions and the app's mock provider.
+// Kept free of Deno imports so the browser bundle can use them too.
+
+/**
+ * History status of messages the mock provider accepted. They were never
+ * delivered, so they are kept apart from 'Sent' and do not count toward the
+ * daily limit.
+ */
+export const MOCK_SENT_STATUS = 'Simulated';
@@ -0,0 +1,71 @@
+// Supabase edge function: server-side transactional email.
+// Holds the transport credentials and requires an authenticated caller. The
+// transport is chosen with the EMAIL_TRANSPORT secret:
+//   smtp   - SMTP_HOST, SMTP_PORT, SMTP_SECURITY (tls | starttls | none),
+//            SMTP_USERNAME, SMTP_PASSWORD
+//   resend - RESEND_API_KEY
+//   file   - writes .eml files to EMAIL_FILE_DIR
+// Every message is sent from EMAIL_FROM; callers may only set a Reply-To listed
+// in EMAIL_REPLY_TO (comma separated). EMAIL_DAILY_LIMIT (default 500) caps the
+// messages sent per day and EMAIL_USER_DAILY_LIMIT (default 100) the messages
+// per user per day. Every message is logged to email_delivery_log.
+//
+// Local testing against MailCatcher or Mailpit (SMTP on port 1025):
+//   EMAIL_TRANSPORT=smtp SMTP_HOST=host.docker.internal SMTP_SECURITY=none supabase functions serve email-relay
+/* global Deno */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createAdminClient } from '../_shared/relayStore.ts';
+import { createEmailStore, createEmailTransport, getEmailSettings } from '../_shared/emailStore.ts';
+import { handleEmailRequest } from './mailer.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const jsonResponse = (body: unknown, status: number = 200) =>
+new Response(JSON.stringify(body), {
+  status,
+  headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+});
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  // Only signed-in application users may send
+  const authHeader = req.headers.get('Authorization') ?? '';
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  );
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const transport = createEmailTransport();
+    if (!transport) {
+      return jsonResponse({ success: false, error: 'Email relay has no transport configured' }, 503);
+    }
+
+    const request = await req.json();
+    const result = await handleEmailRequest(request, {
+      transport,
+      store: createEmailStore(createAdminClient(), user.id),
+      ...getEmailSettings()
+    });
+    return jsonResponse(result);
+  } catch (error) {
+    console.error('Email relay error:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,672 @@
+// Email relay core: validates messages, enforces the daily limits, builds the
+// MIME document, sends through a transport with retry and records one delivery
+// log entry per message. Kept free of Deno and Supabase imports so it can run in
+// the edge function and in unit tests against the mock transport; sockets and
+// file writes are injected.
+
+export interface EmailAttachment {
+  filename: string;
+  /** Base64-encoded file content */
+  content: string;
+  contentType?: string;
+}
+
+export interface EmailMessage {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  replyTo?: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailSendRequest {
+  action: 'send';
+  message: EmailMessage;
+  type?: string;
+}
+
+export type EmailRequest = EmailSendRequest;
+
+export interface EmailSendResponse {
+  success: boolean;
+  messageId?: string;
+  attempts?: number;
+  error?: string;
+}
+
+/** A message after validation, with every address list resolved */
+export interface OutgoingEmail {
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  replyTo?: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  attachments: EmailAttachment[];
+  messageId: string;
+}
+
+export interface TransportSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  /** False for permanent failures (rejected address, bad credentials) that retrying cannot fix */
+  retryable?: boolean;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(email: OutgoingEmail): Promise<TransportSendResult>;
+}
+
+export interface EmailDeliveryEntry {
+  message_id: string;
+  from_address: string;
+  recipients: string;
+  subject: string;
+  transport: string;
+  status: string;
+  attempts: number;
+  attachment_count: number;
+  provider_message_id: string;
+  error_message: string;
+  email_type: string;
+  sent_at: string;
+}
+
+export interface EmailStore {
+  logDelivery(entry: EmailDeliveryEntry): Promise<void>;
+  /** Messages sent since the given time, in total and by the user the store sends for */
+  countSentSince(since: Date): Promise<{total: number;byUser: number;}>;
+}
+
+export interface EmailLimits {
+  /** Messages the relay sends per day across all users */
+  daily: number;
+  /** Messages one signed-in user can send per day */
+  dailyPerUser: number;
+}
+
+export interface EmailDependencies {
+  transport: EmailTransport;
+  store: EmailStore;
+  /** Sender of every message (EMAIL_FROM); callers cannot choose their own */
+  from: string;
+  /** Addresses callers may use as Reply-To */
+  allowedReplyTo?: string[];
+  limits: EmailLimits;
+  maxAttempts?: number;
+  /** Delay before the first retry; doubled for each further attempt */
+  retryDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => Date;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const DEFAULT_EMAIL_LIMITS: EmailLimits = { daily: 500, dailyPerUser: 100 };
+export const DEFAULT_RETRY_DELAY_MS = 1000;
+const MAX_RECIPIENTS = 50;
+// Most providers reject messages over 10 MB once base64 overhead is included
+const MAX_ATTACHMENT_BYTES = 7 * 1024 * 1024;
+
+// No whitespace or control characters anywhere in the address
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>\p{Cc}]+@[^\s@<>\p{Cc}]+\.[^\s@<>\p{Cc}]+$/u;
+
+// Header values are written as-is when they are ASCII, so a line break in one
+// would start a new header (e.g. an injected Bcc)
+const LINE_BREAK_PATTERN = /[\r\n]/;
+
+/**
+ * The bare address from "Name <address>" or "address"
+ */
+export const extractAddress = (mailbox: string): string => {
+  const match = mailbox.match(/<([^>]+)>\s*$/);
+  return (match ? match[1] : mailbox).trim();
+};
+
+export const isValidMailbox = (mailbox: string): boolean =>
+!LINE_BREAK_PATTERN.test(mailbox) && EMAIL_ADDRESS_PATTERN.test(extractAddress(mailbox));
+
+const toList = (value: string | string[] | undefined): string[] =>
+(Array.isArray(value) ? value : value ? value.split(',') : []).map((entry) => entry.trim()).filter(Boolean);
+
+/** Decoded size of a base64 string */
+const base64Size = (content: string): number => {
+  const clean = content.replace(/\s/g, '');
+  return Math.floor(clean.length * 3 / 4) - (clean.endsWith('==') ? 2 : clean.endsWith('=') ? 1 : 0);
+};
+
+const isAllowedReplyTo = (mailbox: string, allowed: string[]): boolean => {
+  const address = extractAddress(mailbox).toLowerCase();
+  return allowed.some((entry) => extractAddress(entry).toLowerCase() === address);
+};
+
+const startOfDay = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+/**
+ * Returns an error message when today's sent count has reached the relay's or
+ * the user's daily limit
+ */
+export const checkEmailLimits = async (store: EmailStore, limits: EmailLimits, now: Date): Promise<string | null> => {
+  const { total, byUser } = await store.countSentSince(startOfDay(now));
+  if (total >= limits.daily) {
+    return 'Daily email limit exceeded. Please contact administrator or wait for tomorrow.';
+  }
+  if (byUser >= limits.dailyPerUser) {
+    return `You have reached the limit of ${limits.dailyPerUser} emails per day`;
+  }
+  return null;
+};
+
+const randomToken = (): string => `${Date.now().toString(36)}.${Math.random().toString(36).slice(2, 12)}`;
+
+/**
+ * Check a message and resolve its recipients; returns an error message instead
+ * when it cannot be sent. Every message is sent from the relay's own sender so
+ * the company's mail account cannot be used to impersonate other addresses;
+ * a Reply-To is only accepted when it is one of allowedReplyTo.
+ */
+export const prepareEmail = (message: EmailMessage, sender: string, allowedReplyTo: string[] = []): OutgoingEmail | string => {
+  if (!message) {
+    return 'Email message is required';
+  }
+
+  const from = (sender || '').trim();
+  if (!isValidMailbox(from)) {
+    return `Invalid sender address: ${from || '(none)'}`;
+  }
+
+  const to = toList(message.to);
+  const cc = toList(message.cc);
+  const bcc = toList(message.bcc);
+  const recipients = [...to, ...cc, ...bcc];
+  if (to.length === 0) {
+    return 'At least one recipient is required';
+  }
+  if (recipients.length > MAX_RECIPIENTS) {
+    return `A message can have at most ${MAX_RECIPIENTS} recipients`;
+  }
+  const invalid = recipients.find((mailbox) => !isValidMailbox(mailbox));
+  if (invalid) {
+    return `Invalid recipient address: ${invalid}`;
+  }
+  if (message.replyTo && !isValidMailbox(message.replyTo)) {
+    return `Invalid reply-to address: ${message.replyTo}`;
+  }
+  if (message.replyTo && !isAllowedReplyTo(message.replyTo, allowedReplyTo)) {
+    return `Reply-to address is not one of the configured reply addresses: ${extractAddress(message.replyTo)}`;
+  }
+
+  if (!message.subject || !message.subject.trim()) {
+    return 'Subject is required';
+  }
+  if (LINE_BREAK_PATTERN.test(message.subject)) {
+    return 'Subject cannot contain line breaks';
+  }
+  if (!message.html?.trim() && !message.text?.trim()) {
+    return 'An HTML or text body is required';
+  }
+
+  const attachments = message.attachments || [];
+  const unnamed = attachments.find((attachment) => !attachment.filename || !attachment.content);
+  if (unnamed) {
+    return 'Attachments need a filename and base64 content';
+  }
+  const unsafe = attachments.find((attachment) =>
+  LINE_BREAK_PATTERN.test(attachment.filename) || LINE_BREAK_PATTERN.test(attachment.contentType || ''));
+  if (unsafe) {
+    return 'Attachment names and types cannot contain line breaks';
+  }
+  const attachmentBytes = attachments.reduce((total, attachment) => total + base64Size(attachment.content), 0);
+  if (attachmentBytes > MAX_ATTACHMENT_BYTES) {
+    return `Attachments exceed ${Math.round(MAX_ATTACHMENT_BYTES / 1024 / 1024)} MB`;
+  }
+
+  const domain = extractAddress(from).split('@')[1];
+  return {
+    from,
+    to,
+    cc,
+    bcc,
+    replyTo: message.replyTo,
+    subject: message.subject.trim(),
+    html: message.html,
+    text: message.text,
+    attachments,
+    messageId: `<${randomToken()}@${domain}>`
+  };
+};
+
+/**
+ * Send with retry. Failures the transport marks as permanent are not retried.
+ */
+export async function sendWithRetry(
+email: OutgoingEmail,
+transport: EmailTransport,
+options: {maxAttempts?: number;retryDelayMs?: number;sleep?: (ms: number) => Promise<void>;} = {})
+: Promise<TransportSendResult & {attempts: number;}> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const sleep = options.sleep || ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  let result: TransportSendResult = { success: false, error: 'Email was not sent' };
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      result = await transport.send(email);
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    if (result.success || result.retryable === false || attempt === maxAttempts) {
+      return { ...result, attempts: attempt };
+    }
+    await sleep(retryDelayMs * 2 ** (attempt - 1));
+  }
+  return { ...result, attempts: maxAttempts };
+}
+
+async function handleSend(request: EmailSendRequest, deps: EmailDependencies): Promise<EmailSendResponse> {
+  const prepared = prepareEmail(request.message, deps.from, deps.allowedReplyTo);
+  if (typeof prepared === 'string') {
+    return { success: false, error: prepared };
+  }
+
+  const now = deps.now ? deps.now() : new Date();
+  const limitError = await checkEmailLimits(deps.store, deps.limits, now);
+  if (limitError) {
+    return { success: false, error: limitError };
+  }
+
+  const result = await sendWithRetry(prepared, deps.transport, deps);
+
+  await deps.store.logDelivery({
+    message_id: prepared.messageId,
+    from_address: prepared.from,
+    recipients: [...prepared.to, ...prepared.cc, ...prepared.bcc].join(', '),
+    subject: prepared.subject,
+    transport: deps.transport.name,
+    status: result.success ? 'Sent' : 'Failed',
+    attempts: result.attempts,
+    attachment_count: prepared.attachments.length,
+    provider_message_id: result.messageId || '',
+    error_message: result.error || '',
+    email_type: request.type || 'custom',
+    sent_at: now.toISOString()
+  });
+
+  return {
+    success: result.success,
+    messageId: result.messageId || prepared.messageId,
+    attempts: result.attempts,
+    error: result.error
+  };
+}
+
+/**
+ * Dispatch a relay request to the matching handler
+ */
+export async function handleEmailRequest(request: EmailRequest, deps: EmailDependencies): Promise<EmailSendResponse> {
+  switch (request?.action) {
+    case 'send':
+      return handleSend(request, deps);
+    default:
+      return { success: false, error: 'Unknown email relay action' };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// MIME
+
+const CRLF = '\r\n';
+
+/** Base64 of a string's UTF-8 bytes, without TextEncoder so it runs anywhere */
+export const utf8ToBase64 = (value: string): string =>
+btoa(encodeURIComponent(value).replace(/%([0-9A-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))));
+
+const wrapBase64 = (content: string): string => (content.replace(/\s/g, '').match(/.{1,76}/g) || []).join(CRLF);
+
+// RFC 2047 encoded word for headers that are not plain ASCII
+const encodeHeader = (value: string): string =>
+/^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${utf8ToBase64(value)}?=`;
+
+const encodeMailbox = (mailbox: string): string => {
+  const match = mailbox.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return extractAddress(mailbox);
+  return `${encodeHeader(match[1])} <${match[2].trim()}>`;
+};
+
+const bodyPart = (contentType: string, body: string): string[] => [
+`Content-Type: ${contentType}; charset=UTF-8`,
+'Content-Transfer-Encoding: base64',
+'',
+wrapBase64(utf8ToBase64(body))];
+
+
+/**
+ * Build the RFC 5322 message. Bcc recipients are left out of the headers; they
+ * only appear in the SMTP envelope.
+ */
+export const buildMimeMessage = (email: OutgoingEmail, date: Date, boundarySeed: string = randomToken()): string => {
+  const headers = [
+  `From: ${encodeMailbox(email.from)}`,
+  `To: ${email.to.map(encodeMailbox).join(', ')}`,
+  ...(email.cc.length ? [`Cc: ${email.cc.map(encodeMailbox).join(', ')}`] : []),
+  ...(email.replyTo ? [`Reply-To: ${encodeMailbox(email.replyTo)}`] : []),
+  `Subject: ${encodeHeader(email.subject)}`,
+  `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+  `Message-ID: ${email.messageId}`,
+  'MIME-Version: 1.0'];
+
+
+  const alternative = `alt-${boundarySeed}`;
+  const bodies: string[][] = [];
+  if (email.text) bodies.push(bodyPart('text/plain', email.text));
+  if (email.html) bodies.push(bodyPart('text/html', email.html));
+
+  const bodyLines = bodies.length === 1 ?
+  bodies[0] :
+  [
+  `Content-Type: multipart/alternative; boundary="${alternative}"`,
+  '',
+  ...bodies.flatMap((part) => [`--${alternative}`, ...part]),
+  `--${alternative}--`];
+
+
+  if (email.attachments.length === 0) {
+    return [...headers, ...bodyLines].join(CRLF);
+  }
+
+  const mixed = `mixed-${boundarySeed}`;
+  return [
+  ...headers,
+  `Content-Type: multipart/mixed; boundary="${mixed}"`,
+  '',
+  `--${mixed}`,
+  ...bodyLines,
+  ...email.attachments.flatMap((attachment) => {
+    const filename = encodeHeader(attachment.filename.replace(/"/g, ''));
+    return [
+    `--${mixed}`,
+    `Content-Type: ${attachment.contentType || 'application/octet-stream'}; name="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: attachment; filename="${filename}"`,
+    '',
+    wrapBase64(attachment.content)];
+
+  }),
+  `--${mixed}--`].
+  join(CRLF);
+};
+
+// ---------------------------------------------------------------------------
+// Transports
+
+/** A connected TCP (or TLS) stream, supplied by the edge function */
+export interface SmtpSocket {
+  /** Next chunk of text from the server; null once the connection closes */
+  read(): Promise<string | null>;
+  write(data: string): Promise<void>;
+  /** Upgrade the connection after STARTTLS */
+  startTls(hostname: string): Promise<SmtpSocket>;
+  close(): void;
+}
+
+export type SmtpConnect = (options: {hostname: string;port: number;tls: boolean;}) => Promise<SmtpSocket>;
+
+export interface SmtpOptions {
+  hostname: string;
+  port: number;
+  /** 'tls' connects over TLS (port 465), 'starttls' upgrades a plain connection, 'none' is for local catchers */
+  security: 'tls' | 'starttls' | 'none';
+  username?: string;
+  password?: string;
+  /** Name sent with EHLO */
+  clientName?: string;
+}
+
+class SmtpError extends Error {
+  constructor(message: string, readonly code: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+// Reads multi-line replies ("250-..." continuation lines, "250 ..." final line)
+const createReplyReader = (getSocket: () => SmtpSocket) => {
+  let buffer = '';
+  return async (): Promise<{code: number;text: string;}> => {
+    const lines: string[] = [];
+    for (;;) {
+      const newline = buffer.indexOf('\n');
+      if (newline === -1) {
+        const chunk = await getSocket().read();
+        if (chunk === null) throw new SmtpError('SMTP server closed the connection', 421);
+        buffer += chunk;
+        continue;
+      }
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      lines.push(line.slice(4));
+      if (line[3] !== '-') {
+        return { code: parseInt(line.slice(0, 3), 10) || 0, text: lines.join(' ') };
+      }
+    }
+  };
+};
+
+/**
+ * SMTP submission transport. With security 'none' and port 1025 it also
+ * delivers to MailCatcher or Mailpit for local development.
+ */
+export function createSmtpTransport(options: SmtpOptions, connect: SmtpConnect): EmailTransport {
+  return {
+    name: 'SMTP',
+    async send(email) {
+      let socket: SmtpSocket | null = null;
+      try {
+        socket = await connect({ hostname: options.hostname, port: options.port, tls: options.security === 'tls' });
+        const readReply = createReplyReader(() => socket as SmtpSocket);
+        const command = async (line: string | null, expected: number[]) => {
+          if (line !== null) await (socket as SmtpSocket).write(`${line}${CRLF}`);
+          const reply = await readReply();
+          if (!expected.includes(reply.code)) {
+            throw new SmtpError(`SMTP ${reply.code}: ${reply.text}`, reply.code);
+          }
+          return reply;
+        };
+
+        const clientName = options.clientName || 'localhost';
+        await command(null, [220]);
+        let greeting = await command(`EHLO ${clientName}`, [250]);
+        if (options.security === 'starttls') {
+          await command('STARTTLS', [220]);
+          socket = await socket.startTls(options.hostname);
+          greeting = await command(`EHLO ${clientName}`, [250]);
+        }
+
+        if (options.username) {
+          if (/AUTH[ =][^\n]*PLAIN/i.test(greeting.text)) {
+            await command(`AUTH PLAIN ${utf8ToBase64(`\u0000${options.username}\u0000${options.password || ''}`)}`, [235]);
+          } else {
+            await command('AUTH LOGIN', [334]);
+            await command(utf8ToBase64(options.username), [334]);
+            await command(utf8ToBase64(options.password || ''), [235]);
+          }
+        }
+
+        await command(`MAIL FROM:<${extractAddress(email.from)}>`, [250]);
+        for (const recipient of [...email.to, ...email.cc, ...email.bcc]) {
+          await command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+        }
+        await command('DATA', [354]);
+        // Dot-stuff lines that start with "." so they are not read as the terminator
+        const data = buildMimeMessage(email, new Date()).replace(/^\./gm, '..');
+        const accepted = await command(`${data}${CRLF}.`, [250]);
+        await command('QUIT', [221]).catch(() => undefined);
+
+        const queuedId = accepted.text.match(/queued as\s+(\S+)/i);
+        return { success: true, messageId: queuedId ? queuedId[1] : email.messageId };
+      } catch (error) {
+        // 5xx replies are permanent; connection problems and 4xx are worth retrying
+        const code = error instanceof SmtpError ? error.code : 0;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          retryable: !(code >= 500 && code < 600)
+        };
+      } finally {
+        socket?.close();
+      }
+    }
+  };
+}
+
+/**
+ * Resend HTTP API transport. The API key is only ever read on the server.
+ */
+export function createResendTransport(
+apiKey: string,
+fetchImpl: typeof fetch = fetch,
+apiBaseUrl: string = 'https://api.resend.com')
+: EmailTransport {
+  return {
+    name: 'Resend',
+    async send(email) {
+      try {
+        const response = await fetchImpl(`${apiBaseUrl}/emails`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            from: email.from,
+            to: email.to,
+            cc: email.cc.length ? email.cc : undefined,
+            bcc: email.bcc.length ? email.bcc : undefined,
+            reply_to: email.replyTo,
+            subject: email.subject,
+            html: email.html,
+            text: email.text,
+            headers: { 'Message-ID': email.messageId },
+            attachments: email.attachments.length ?
+            email.attachments.map((attachment) => ({ filename: attachment.filename, content: attachment.content })) :
+            undefined
+          })
+        });
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          return {
+            success: false,
+            error: result.message || `HTTP ${response.status}: ${response.statusText}`,
+            // Rate limits and server errors are transient; other 4xx are not
+            retryable: response.status === 429 || response.status >= 500
+          };
+        }
+        return { success: true, messageId: result.id };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }
+  };
+}
+
+/**
+ * Writes each message as an .eml file instead of sending it, for development
+ */
+export function createFileTransport(
+directory: string,
+writeFile: (path: string, content: string) => Promise<void>)
+: EmailTransport {
+  return {
+    name: 'File',
+    async send(email) {
+      try {
+        const now = new Date();
+        const name = `${now.toISOString().replace(/[:.]/g, '-')}-${email.messageId.replace(/[<>@]/g, '_')}.eml`;
+        await writeFile(`${directory.replace(/\/$/, '')}/${name}`, buildMimeMessage(email, now));
+        return { success: true, messageId: email.messageId };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error', retryable: false };
+      }
+    }
+  };
+}
+
+/**
+ * Transport that never leaves the process, for tests. Addresses listed in
+ * failAddresses are rejected permanently; the first transientFailures sends fail
+ * and may be retried.
+ */
+export function createMockTransport(options: {failAddresses?: string[];transientFailures?: number;} = {}): EmailTransport & {sent: OutgoingEmail[];calls: number;} {
+  const transport = {
+    name: 'Mock',
+    sent: [] as OutgoingEmail[],
+    calls: 0,
+    async send(email: OutgoingEmail): Promise<TransportSendResult> {
+      transport.calls++;
+      const rejected = email.to.find((recipient) => options.failAddresses?.includes(extractAddress(recipient)));
+      if (rejected) {
+        return { success: false, error: `Mock transport rejected ${rejected}`, retryable: false };
+      }
+      if (transport.calls <= (options.transientFailures || 0)) {
+        return { success: false, error: 'Mock transport temporarily unavailable' };
+      }
+      transport.sent.push(email);
+      return { success: true, messageId: `mock-${transport.sent.length}` };
+    }
+  };
+  return transport;
+}
+
+export const EMAIL_TRANSPORT_NAMES = ['smtp', 'resend', 'file', 'mock'] as const;
+export type EmailTransportName = typeof EMAIL_TRANSPORT_NAMES[number];
+
+/**
+ * Build the transport named by EMAIL_TRANSPORT from environment secrets; null
+ * when it is not configured. Without EMAIL_TRANSPORT, Resend is used when
+ * RESEND_API_KEY is set, otherwise SMTP when SMTP_HOST is set.
+ */
+export function createTransportFromEnv(
+getEnv: (key: string) => string | undefined,
+io: {connect: SmtpConnect;writeFile: (path: string, content: string) => Promise<void>;})
+: EmailTransport | null {
+  const configured = (getEnv('EMAIL_TRANSPORT') || '').trim().toLowerCase();
+  const name = EMAIL_TRANSPORT_NAMES.find((entry) => entry === configured) || (
+  getEnv('RESEND_API_KEY') ? 'resend' : getEnv('SMTP_HOST') ? 'smtp' : null);
+
+  switch (name) {
+    case 'mock':
+      return createMockTransport();
+    case 'file':
+      return createFileTransport(getEnv('EMAIL_FILE_DIR') || '/tmp/emails', io.writeFile);
+    case 'resend':{
+        const apiKey = getEnv('RESEND_API_KEY');
+        return apiKey ? createResendTransport(apiKey) : null;
+      }
+    case 'smtp':{
+        const hostname = getEnv('SMTP_HOST');
+        if (!hostname) return null;
+        const security = (getEnv('SMTP_SECURITY') || 'starttls').toLowerCase() as SmtpOptions['security'];
+        const port = parseInt(getEnv('SMTP_PORT') || '', 10) || (security === 'tls' ? 465 : security === 'none' ? 1025 : 587);
+        return createSmtpTransport({
+          hostname,
+          port,
+          security: ['tls', 'starttls', 'none'].includes(security) ? security : 'starttls',
+          username: getEnv('SMTP_USERNAME'),
+          password: getEnv('SMTP_PASSWORD'),
+          clientName: getEnv('SMTP_CLIENT_NAME')
+        }, io.connect);
+      }
+    default:
+      return null;
+  }
+}
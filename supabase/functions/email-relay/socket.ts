@@ -0,0 +1,37 @@
+// Deno TCP/TLS connections for the SMTP transport.
+/* global Deno */
+
+import { SmtpConnect, SmtpSocket } from './mailer.ts';
+
+const wrapConnection = (conn: Deno.Conn): SmtpSocket => {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const buffer = new Uint8Array(4096);
+
+  return {
+    async read() {
+      const count = await conn.read(buffer);
+      return count === null ? null : decoder.decode(buffer.subarray(0, count), { stream: true });
+    },
+    async write(data) {
+      const bytes = encoder.encode(data);
+      let written = 0;
+      while (written < bytes.length) {
+        written += await conn.write(bytes.subarray(written));
+      }
+    },
+    async startTls(hostname) {
+      return wrapConnection(await Deno.startTls(conn as Deno.TcpConn, { hostname }));
+    },
+    close() {
+      try {
+        conn.close();
+      } catch {
+        // Already closed by the server
+      }
+    }
+  };
+};
+
+export const connectSmtp: SmtpConnect = async ({ hostname, port, tls }) =>
+wrapConnection(tls ? await Deno.connectTls({ hostname, port }) : await Deno.connect({ hostname, port }));
@@ -0,0 +1,234 @@
+// Pure decision logic for the scheduled checks run by the job worker.
+// Mirrors the browser-side licenseAlertService and analytics alert rules so both
+// paths send the same messages.
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface AlertContact {
+  id: number;
+  contact_name: string;
+  mobile_number: string;
+  station: string;
+  is_active: boolean;
+  opt_out?: boolean;
+}
+
+export interface ExpiringLicense {
+  id: number;
+  license_name: string;
+  license_number: string;
+  station: string;
+  category: string;
+  expiry_date: string;
+}
+
+export interface LicenseAlertSetting {
+  id: number;
+  days_before_expiry: number;
+  alert_frequency_days: number;
+  message_template: string;
+}
+
+export interface PlannedLicenseAlert {
+  licenseId: number;
+  contact: AlertContact;
+  daysUntilExpiry: number;
+  message: string;
+}
+
+export const daysUntil = (date: string, now: Date): number =>
+Math.ceil((new Date(date).getTime() - now.getTime()) / DAY_MS);
+
+/**
+ * Active, opted-in contacts for a station; contacts on ALL receive every station's alerts
+ */
+export const contactsForStation = (contacts: AlertContact[], station: string): AlertContact[] =>
+contacts.filter((contact) =>
+contact.is_active && !contact.opt_out && (contact.station === 'ALL' || contact.station === station)
+);
+
+export const renderLicenseTemplate = (template: string, license: ExpiringLicense, daysUntilExpiry: number): string =>
+template.
+replace(/{license_name}/g, license.license_name).
+replace(/{station}/g, license.station).
+replace(/{expiry_date}/g, new Date(license.expiry_date).toLocaleDateString('en-US')).
+replace(/{days_remaining}/g, daysUntilExpiry.toString()).
+replace(/{license_number}/g, license.license_number || '').
+replace(/{category}/g, license.category || '');
+
+/**
+ * Decide which license alerts are due. A license gets at most one alert per run,
+ * from the first setting whose window it is in, and only once that setting's
+ * frequency has passed since the license was last alerted.
+ */
+export const planLicenseAlerts = (
+licenses: ExpiringLicense[],
+settings: LicenseAlertSetting[],
+contacts: AlertContact[],
+lastAlertByLicense: Map<number, string>,
+now: Date)
+: PlannedLicenseAlert[] => {
+  const planned: PlannedLicenseAlert[] = [];
+
+  for (const license of licenses) {
+    const daysUntilExpiry = daysUntil(license.expiry_date, now);
+    if (daysUntilExpiry <= 0) continue;
+
+    const lastAlert = lastAlertByLicense.get(license.id);
+    const daysSinceLastAlert = lastAlert ? Math.ceil((now.getTime() - new Date(lastAlert).getTime()) / DAY_MS) : Infinity;
+
+    const setting = settings.find((candidate) =>
+    daysUntilExpiry <= candidate.days_before_expiry && daysSinceLastAlert >= candidate.alert_frequency_days
+    );
+    if (!setting) continue;
+
+    const message = renderLicenseTemplate(setting.message_template, license, daysUntilExpiry);
+    for (const contact of contactsForStation(contacts, license.station)) {
+      planned.push({ licenseId: license.id, contact, daysUntilExpiry, message });
+    }
+  }
+
+  return planned;
+};
+
+export interface StockProduct {
+  id: number;
+  product_name: string;
+  quantity_in_stock: number;
+  minimum_stock: number;
+}
+
+export const findLowStockProducts = (products: StockProduct[]): StockProduct[] =>
+products.filter((product) => (product.minimum_stock || 0) > 0 && (product.quantity_in_stock || 0) <= product.minimum_stock);
+
+const LOW_STOCK_MESSAGE_ITEMS = 5;
+
+export const buildLowStockMessage = (products: StockProduct[]): string => {
+  const listed = products.
+  slice(0, LOW_STOCK_MESSAGE_ITEMS).
+  map((product) => `${product.product_name} (${product.quantity_in_stock || 0}/${product.minimum_stock})`);
+  const more = products.length > LOW_STOCK_MESSAGE_ITEMS ? ` and ${products.length - LOW_STOCK_MESSAGE_ITEMS} more` : '';
+  return `DFS Manager: ${products.length} product(s) at or below minimum stock: ${listed.join(', ')}${more}.`;
+};
+
+/**
+ * True when the low-stock set differs from the one already notified
+ */
+export const lowStockChanged = (products: StockProduct[], previouslyNotified: number[] | undefined): boolean => {
+  const current = products.map((product) => product.id).sort((a, b) => a - b);
+  const previous = [...(previouslyNotified || [])].sort((a, b) => a - b);
+  return current.length !== previous.length || current.some((id, index) => id !== previous[index]);
+};
+
+export interface DailySalesRow {
+  total_sales: number;
+  total_gallons: number;
+  total_short_over: number;
+}
+
+export interface DailyMetrics {
+  totalSales: {current: number;};
+  fuelGallons: {current: number;};
+  shortOver: {current: number;};
+  inventoryMetrics: {lowStockItems: number;};
+}
+
+export const buildDailyMetrics = (reports: DailySalesRow[], lowStockItems: number): DailyMetrics => {
+  const sum = (key: keyof DailySalesRow) => reports.reduce((total, report) => total + (Number(report[key]) || 0), 0);
+  return {
+    totalSales: { current: sum('total_sales') },
+    fuelGallons: { current: sum('total_gallons') },
+    shortOver: { current: sum('total_short_over') },
+    inventoryMetrics: { lowStockItems }
+  };
+};
+
+export interface MetricThreshold {
+  id: string;
+  name?: string;
+  metric: string;
+  operator: 'greater_than' | 'less_than' | 'equals' | 'not_equals';
+  threshold: number;
+  /** Minimum time between notifications for this threshold; defaults to one day */
+  cooldownMinutes?: number;
+}
+
+export interface TriggeredThreshold {
+  id: string;
+  name: string;
+  metric: string;
+  value: number;
+  threshold: number;
+  operator: MetricThreshold['operator'];
+}
+
+// Same dotted-path lookup as the dashboard analytics alerts
+export const extractMetricValue = (metrics: unknown, path: string): number | null => {
+  let value: unknown = metrics;
+  for (const key of path.split('.')) {
+    if (value && typeof value === 'object' && key in value) {
+      value = (value as Record<string, unknown>)[key];
+    } else {
+      return null;
+    }
+  }
+  return typeof value === 'number' ? value : null;
+};
+
+const compare = (value: number, threshold: number, operator: MetricThreshold['operator']): boolean => {
+  switch (operator) {
+    case 'greater_than':
+      return value > threshold;
+    case 'less_than':
+      return value < threshold;
+    case 'equals':
+      return value === threshold;
+    case 'not_equals':
+      return value !== threshold;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Thresholds that are breached and out of cooldown. Metrics the worker cannot
+ * compute are returned as unsupported so the run record shows them.
+ */
+export const evaluateThresholds = (
+metrics: DailyMetrics,
+thresholds: MetricThreshold[],
+lastTriggeredAt: Record<string, string>,
+now: Date)
+: {triggered: TriggeredThreshold[];unsupported: string[];} => {
+  const triggered: TriggeredThreshold[] = [];
+  const unsupported: string[] = [];
+
+  for (const threshold of thresholds) {
+    const value = extractMetricValue(metrics, threshold.metric);
+    if (value === null) {
+      unsupported.push(threshold.metric);
+      continue;
+    }
+    if (!compare(value, threshold.threshold, threshold.operator)) continue;
+
+    const cooldownMs = (threshold.cooldownMinutes ?? 1440) * 60 * 1000;
+    const last = lastTriggeredAt[threshold.id];
+    if (last && now.getTime() - new Date(last).getTime() < cooldownMs) continue;
+
+    triggered.push({
+      id: threshold.id,
+      name: threshold.name || threshold.metric,
+      metric: threshold.metric,
+      value,
+      threshold: threshold.threshold,
+      operator: threshold.operator
+    });
+  }
+
+  return { triggered, unsupported };
+};
+
+export const buildThresholdMessage = (triggered: TriggeredThreshold[], reportDate: string): string =>
+`DFS Manager alert for ${reportDate}: ${triggered.
+map((alert) => `${alert.name} is ${alert.value.toLocaleString('en-US')} (${alert.operator.replace('_', ' ')} ${alert.threshold.toLocaleString('en-US')})`).
+join('; ')}.`;
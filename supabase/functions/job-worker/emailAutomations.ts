@@ -0,0 +1,272 @@
+// Pure planning logic for the email automations run by the job worker: decides
+// which automations are due, resolves their recipient groups to users and
+// renders their templates. Sending and logging happen in index.ts.
+
+import { daysUntil, ExpiringLicense } from './checks.ts';
+
+const HOUR_MS = 1000 * 60 * 60;
+const DAY_MS = HOUR_MS * 24;
+
+export type AutomationTrigger = 'days_before_expiry' | 'daily_schedule';
+
+export interface EmailAutomation {
+  id: number;
+  automation_name: string;
+  is_active: boolean;
+  from_email: string;
+  from_name: string;
+  /** days_before_expiry: trigger_value is the alert window in days; daily_schedule: the UTC hour to send at */
+  trigger_condition: AutomationTrigger | string;
+  trigger_value: number;
+  frequency_hours: number;
+  template_id: number | null;
+  recipient_groups: string;
+  next_run: string | null;
+}
+
+export interface AutomationTemplate {
+  id: number;
+  subject: string;
+  html_content: string;
+  text_content: string;
+  is_active: boolean;
+}
+
+export interface AutomationUser {
+  email: string;
+  name: string;
+  role: string;
+  station: string;
+  is_active: boolean;
+}
+
+export interface AutomationSendLog {
+  automation_id: number;
+  reference_key: string;
+  recipient_email: string;
+  status: string;
+  sent_at: string;
+}
+
+export interface AutomationSalesRow {
+  station: string;
+  total_sales: number;
+  grocery_sales: number;
+  lottery_net_sales: number;
+}
+
+export interface PlannedAutomationEmail {
+  automationId: number;
+  templateId: number;
+  /** What the email is about (a license or a station's report date), for de-duplication */
+  referenceKey: string;
+  recipient: {email: string;name: string;};
+  /** The automation's from address; the relay only accepts it when it is in EMAIL_REPLY_TO */
+  replyTo: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Recipient group names used in email_automations.recipient_groups. Station
+// scoped groups only include users of the station the email is about.
+const RECIPIENT_GROUP_ROLES: Record<string, string[]> = {
+  admin: ['admin', 'administrator'],
+  management: ['admin', 'administrator', 'manager', 'management'],
+  station_managers: ['manager', 'management'],
+  employees: ['employee'],
+  all_users: []
+};
+const STATION_SCOPED_GROUPS = ['station_managers', 'employees', 'all_users'];
+
+export const RECIPIENT_GROUPS = Object.keys(RECIPIENT_GROUP_ROLES);
+
+const escapeHtml = (value: string): string =>
+value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Replace {placeholder} variables. Unknown placeholders are left as they are so
+ * a template typo shows up in the email instead of silently disappearing.
+ */
+export const renderTemplate = (template: string, variables: Record<string, string>, html: boolean = false): string =>
+(template || '').replace(/{(\w+)}/g, (placeholder, key: string) =>
+key in variables ? html ? escapeHtml(variables[key]) : variables[key] : placeholder
+);
+
+/**
+ * Users in the listed groups, de-duplicated by address. Entries containing "@"
+ * are taken as literal addresses. station limits station-scoped groups; users
+ * assigned to ALL stations are always included.
+ */
+export const resolveRecipients = (
+recipientGroups: string,
+users: AutomationUser[],
+station?: string)
+: {email: string;name: string;}[] => {
+  const recipients = new Map<string, {email: string;name: string;}>();
+  const add = (email: string, name: string) => {
+    const key = email.trim().toLowerCase();
+    if (key && !recipients.has(key)) recipients.set(key, { email: email.trim(), name });
+  };
+
+  for (const group of recipientGroups.split(',').map((entry) => entry.trim()).filter(Boolean)) {
+    if (group.includes('@')) {
+      add(group, group.split('@')[0]);
+      continue;
+    }
+    const roles = RECIPIENT_GROUP_ROLES[group.toLowerCase()];
+    if (!roles) continue;
+    const stationScoped = station !== undefined && STATION_SCOPED_GROUPS.includes(group.toLowerCase());
+
+    for (const user of users) {
+      if (!user.is_active || !user.email) continue;
+      if (roles.length > 0 && !roles.includes((user.role || '').toLowerCase())) continue;
+      if (stationScoped && user.station !== station && user.station !== 'ALL') continue;
+      add(user.email, user.name || user.email.split('@')[0]);
+    }
+  }
+
+  return [...recipients.values()];
+};
+
+// The daily_schedule slot on the given UTC day
+const dailySlot = (automation: EmailAutomation, day: Date): Date => {
+  const slot = new Date(day);
+  slot.setUTCHours(Math.min(23, Math.max(0, automation.trigger_value || 0)), 0, 0, 0);
+  return slot;
+};
+
+export const isAutomationDue = (automation: EmailAutomation, now: Date): boolean => {
+  if (!automation.is_active) return false;
+  if (automation.next_run) return new Date(automation.next_run).getTime() <= now.getTime();
+  if (automation.trigger_condition === 'daily_schedule') return now.getTime() >= dailySlot(automation, now).getTime();
+  return true;
+};
+
+/**
+ * When the automation should next run after a run at now
+ */
+export const computeNextRun = (automation: EmailAutomation, now: Date): string => {
+  if (automation.trigger_condition === 'daily_schedule') {
+    const today = dailySlot(automation, now);
+    return (today.getTime() > now.getTime() ? today : new Date(today.getTime() + DAY_MS)).toISOString();
+  }
+  return new Date(now.getTime() + Math.max(1, automation.frequency_hours || 24) * HOUR_MS).toISOString();
+};
+
+const replyToHeader = (automation: EmailAutomation): string =>
+automation.from_name ? `${automation.from_name} <${automation.from_email}>` : automation.from_email;
+
+const formatAmount = (amount: number): string =>
+amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Skips recipients already sent this reference, within the window when one is given
+const alreadySent = (logs: AutomationSendLog[], automationId: number, referenceKey: string, email: string, since?: Date) =>
+logs.some((log) =>
+log.automation_id === automationId &&
+log.reference_key === referenceKey &&
+log.status === 'Sent' &&
+log.recipient_email.toLowerCase() === email.toLowerCase() && (
+!since || new Date(log.sent_at).getTime() >= since.getTime())
+);
+
+const buildEmail = (
+automation: EmailAutomation,
+template: AutomationTemplate,
+referenceKey: string,
+recipient: {email: string;name: string;},
+variables: Record<string, string>)
+: PlannedAutomationEmail => {
+  const values = { ...variables, recipient_name: recipient.name };
+  return {
+    automationId: automation.id,
+    templateId: template.id,
+    referenceKey,
+    recipient,
+    replyTo: replyToHeader(automation),
+    subject: renderTemplate(template.subject, values),
+    html: renderTemplate(template.html_content, values, true),
+    text: renderTemplate(template.text_content, values)
+  };
+};
+
+/**
+ * One email per recipient for each active license expiring within the window.
+ * A license is not emailed to the same recipient again within frequency_hours.
+ */
+export const planLicenseExpiryEmails = (
+automation: EmailAutomation,
+template: AutomationTemplate,
+licenses: ExpiringLicense[],
+users: AutomationUser[],
+logs: AutomationSendLog[],
+now: Date)
+: PlannedAutomationEmail[] => {
+  const since = new Date(now.getTime() - Math.max(1, automation.frequency_hours || 24) * HOUR_MS);
+  const planned: PlannedAutomationEmail[] = [];
+
+  for (const license of licenses) {
+    const daysRemaining = daysUntil(license.expiry_date, now);
+    if (daysRemaining <= 0 || daysRemaining > automation.trigger_value) continue;
+
+    const referenceKey = `license:${license.id}`;
+    const variables = {
+      license_name: license.license_name,
+      license_number: license.license_number || '',
+      category: license.category || '',
+      station: license.station,
+      station_name: license.station,
+      expiry_date: new Date(license.expiry_date).toLocaleDateString('en-US'),
+      days_remaining: daysRemaining.toString()
+    };
+    for (const recipient of resolveRecipients(automation.recipient_groups, users, license.station)) {
+      if (alreadySent(logs, automation.id, referenceKey, recipient.email, since)) continue;
+      planned.push(buildEmail(automation, template, referenceKey, recipient, variables));
+    }
+  }
+
+  return planned;
+};
+
+/**
+ * One report per station for the previous UTC day, to that station's recipients.
+ * Fuel sales are total sales less grocery and lottery, as on the dashboard.
+ */
+export const planDailySalesEmails = (
+automation: EmailAutomation,
+template: AutomationTemplate,
+reportDate: string,
+reports: AutomationSalesRow[],
+users: AutomationUser[],
+logs: AutomationSendLog[],
+now: Date)
+: PlannedAutomationEmail[] => {
+  const byStation = new Map<string, AutomationSalesRow[]>();
+  for (const report of reports) {
+    byStation.set(report.station, [...(byStation.get(report.station) || []), report]);
+  }
+
+  const planned: PlannedAutomationEmail[] = [];
+  for (const [station, stationReports] of byStation) {
+    const sum = (key: keyof AutomationSalesRow) => stationReports.reduce((total, report) => total + (Number(report[key]) || 0), 0);
+    const totalSales = sum('total_sales');
+    const storeSales = sum('grocery_sales');
+    const fuelSales = Math.max(0, totalSales - storeSales - sum('lottery_net_sales'));
+
+    const referenceKey = `sales:${reportDate}:${station}`;
+    const variables = {
+      report_date: reportDate,
+      station_name: station,
+      total_sales: formatAmount(totalSales),
+      fuel_sales: formatAmount(fuelSales),
+      store_sales: formatAmount(storeSales),
+      timestamp: now.toISOString().replace('T', ' ').slice(0, 16) + ' UTC'
+    };
+    for (const recipient of resolveRecipients(automation.recipient_groups, users, station)) {
+      if (alreadySent(logs, automation.id, referenceKey, recipient.email)) continue;
+      planned.push(buildEmail(automation, template, referenceKey, recipient, variables));
+    }
+  }
+
+  return planned;
+};
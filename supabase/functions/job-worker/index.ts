@@ -0,0 +1,444 @@
+// Supabase edge function: durable job worker.
+// Leases due rows from scheduled_jobs, runs them and records each run in job_runs.
+// Invoked every few minutes by pg_cron with the service role key, and by signed-in
+// admins from the Job Scheduler page to run a recurring job immediately ({ jobKey }).
+// Because jobs are leased with claim_due_jobs and each slot can only be recorded
+// once, overlapping invocations never send the same alert twice.
+/* global Deno */
+
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createAdminClient, createRelayStore } from '../_shared/relayStore.ts';
+import { createEmailStore, createEmailTransport, getEmailSettings } from '../_shared/emailStore.ts';
+import { getRunNowError } from '../_shared/jobs.ts';
+import { handleEmailRequest } from '../email-relay/mailer.ts';
+import { createProviderFromEnv, handleRelayRequest, providerUnavailableMessage, RelaySendResponse } from '../sms-relay/relay.ts';
+import {
+  AlertContact,
+  buildDailyMetrics,
+  buildLowStockMessage,
+  buildThresholdMessage,
+  contactsForStation,
+  evaluateThresholds,
+  findLowStockProducts,
+  lowStockChanged,
+  MetricThreshold,
+  planLicenseAlerts } from
+'./checks.ts';
+import {
+  AutomationUser,
+  computeNextRun,
+  EmailAutomation,
+  isAutomationDue,
+  PlannedAutomationEmail,
+  planDailySalesEmails,
+  planLicenseExpiryEmails } from
+'./emailAutomations.ts';
+import { JobHandler, JobRunStore, runJob, ScheduledJob } from './worker.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const jsonResponse = (body: unknown, status: number = 200) =>
+new Response(JSON.stringify(body), {
+  status,
+  headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+});
+
+const LEASE_SECONDS = 300;
+const MAX_JOBS_PER_INVOCATION = 10;
+
+function createRunStore(admin: SupabaseClient): JobRunStore {
+  return {
+    async startRun(job, scheduledFor, workerId) {
+      const { data, error } = await admin.
+      from('job_runs').
+      insert({ job_id: job.id, job_type: job.job_type, scheduled_for: scheduledFor, worker_id: workerId, status: 'running' }).
+      select('id').
+      single();
+      if (error) {
+        // Unique (job_id, scheduled_for): this slot was already run
+        if (error.code === '23505') return null;
+        throw new Error(error.message);
+      }
+      return data.id;
+    },
+    async finishRun(runId, status, result, errorMessage) {
+      const { error } = await admin.
+      from('job_runs').
+      update({ status, result, error_message: errorMessage, finished_at: new Date().toISOString() }).
+      eq('id', runId);
+      if (error) console.error('Failed to record job run:', error.message);
+    },
+    async getPreviousResult(jobId) {
+      const { data } = await admin.
+      from('job_runs').
+      select('result').
+      eq('job_id', jobId).
+      eq('status', 'succeeded').
+      order('started_at', { ascending: false }).
+      limit(1).
+      maybeSingle();
+      return data?.result || null;
+    },
+    async completeJob(jobId, update) {
+      const { error } = await admin.
+      from('scheduled_jobs').
+      update({ ...update, locked_by: null, locked_until: null, updated_at: new Date().toISOString() }).
+      eq('id', jobId);
+      if (error) console.error('Failed to update scheduled job:', error.message);
+    }
+  };
+}
+
+function createHandlers(admin: SupabaseClient): Record<string, JobHandler> {
+  const relayStore = createRelayStore(admin);
+
+  // Every message goes through the relay core, so the daily limit, opt-outs and sms_history apply
+  const sendSms = async (to: string, message: string, type: string): Promise<RelaySendResponse> => {
+    const settings = await relayStore.getSettings();
+    const provider = createProviderFromEnv(settings.provider, (key) => Deno.env.get(key));
+    if (!provider) {
+      return { success: false, error: providerUnavailableMessage(settings.provider) };
+    }
+    return handleRelayRequest({ action: 'send', to, message, type }, { provider, store: relayStore }) as Promise<RelaySendResponse>;
+  };
+
+  const loadContacts = async (): Promise<AlertContact[]> => {
+    const { data, error } = await admin.
+    from('sms_contacts').
+    select('id, contact_name, mobile_number, station, is_active, opt_out').
+    eq('is_active', true);
+    if (error) throw new Error(error.message);
+    return data || [];
+  };
+
+  const loadProducts = async () => {
+    const { data, error } = await admin.from('products').select('id, product_name, quantity_in_stock, minimum_stock');
+    if (error) throw new Error(error.message);
+    return data || [];
+  };
+
+  // Application users with their sign-in address, for email recipient groups
+  const loadAutomationUsers = async (): Promise<AutomationUser[]> => {
+    const [profilesResult, authResult] = await Promise.all([
+    admin.from('user_profiles').select('user_id, role, station, is_active'),
+    admin.auth.admin.listUsers({ perPage: 1000 })]
+    );
+    if (profilesResult.error) throw new Error(profilesResult.error.message);
+    if (authResult.error) throw new Error(authResult.error.message);
+
+    const authUsers = new Map(authResult.data.users.map((user) => [user.id, user]));
+    return (profilesResult.data || []).map((profile) => {
+      const authUser = authUsers.get(profile.user_id);
+      return {
+        email: authUser?.email || '',
+        name: authUser?.user_metadata?.full_name || authUser?.user_metadata?.name || '',
+        role: profile.role,
+        station: profile.station,
+        is_active: profile.is_active
+      };
+    });
+  };
+
+  const notifyContacts = async (contacts: AlertContact[], message: string, type: string) => {
+    let sent = 0;
+    let failed = 0;
+    for (const contact of contacts) {
+      const result = await sendSms(contact.mobile_number, message, type);
+      if (result.success) {
+        sent++;
+      } else {
+        failed++;
+      }
+    }
+    return { sent, failed };
+  };
+
+  return {
+    async license_expiry_check({ now }) {
+      const [settingsResult, licensesResult, historyResult, contacts] = await Promise.all([
+      admin.from('alert_settings').select('id, days_before_expiry, alert_frequency_days, message_template').eq('is_active', true).eq('alert_type', 'license_expiry').order('days_before_expiry', { ascending: true }),
+      admin.from('licenses').select('id, license_name, license_number, station, category, expiry_date').eq('status', 'Active'),
+      admin.from('alert_history').select('license_id, sent_date').eq('alert_type', 'license_expiry').order('sent_date', { ascending: false }).limit(5000),
+      loadContacts()]
+      );
+      for (const result of [settingsResult, licensesResult, historyResult]) {
+        if (result.error) throw new Error(result.error.message);
+      }
+
+      const lastAlertByLicense = new Map<number, string>();
+      for (const entry of historyResult.data || []) {
+        if (!lastAlertByLicense.has(entry.license_id)) {
+          lastAlertByLicense.set(entry.license_id, entry.sent_date);
+        }
+      }
+
+      const planned = planLicenseAlerts(licensesResult.data || [], settingsResult.data || [], contacts, lastAlertByLicense, now);
+      let alertsSent = 0;
+      let alertsFailed = 0;
+      for (const alert of planned) {
+        const result = await sendSms(alert.contact.mobile_number, alert.message, 'license_alert');
+        await admin.from('alert_history').insert({
+          license_id: alert.licenseId,
+          contact_id: alert.contact.id,
+          mobile_number: alert.contact.mobile_number,
+          message_content: alert.message,
+          sent_date: now.toISOString(),
+          delivery_status: result.success ? 'Sent' : `Failed - ${result.error}`,
+          days_before_expiry: alert.daysUntilExpiry,
+          created_by: 1 // System generated
+        });
+        if (result.success) {
+          alertsSent++;
+        } else {
+          alertsFailed++;
+        }
+      }
+
+      return { licensesAlerted: new Set(planned.map((alert) => alert.licenseId)).size, alertsSent, alertsFailed };
+    },
+
+    async low_stock_check({ job, previousResult }) {
+      const lowStock = findLowStockProducts(await loadProducts());
+      const notifiedProductIds = (previousResult?.notifiedProductIds as number[] | undefined) || [];
+
+      if (lowStock.length === 0 || !lowStockChanged(lowStock, notifiedProductIds)) {
+        return { lowStockItems: lowStock.length, notified: false, notifiedProductIds: lowStock.length ? notifiedProductIds : [] };
+      }
+
+      const station = String(job.payload?.contactStation || 'ALL');
+      const recipients = contactsForStation(await loadContacts(), station);
+      const { sent, failed } = await notifyContacts(recipients, buildLowStockMessage(lowStock), 'low_stock_alert');
+      return {
+        lowStockItems: lowStock.length,
+        notified: sent > 0,
+        sent,
+        failed,
+        notifiedProductIds: sent > 0 ? lowStock.map((product) => product.id) : notifiedProductIds
+      };
+    },
+
+    async analytics_threshold_check({ job, now, previousResult }) {
+      const reportDate = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const { data: reports, error } = await admin.
+      from('sales_reports').
+      select('total_sales, total_gallons, total_short_over').
+      eq('report_date', reportDate);
+      if (error) throw new Error(error.message);
+
+      const metrics = buildDailyMetrics(reports || [], findLowStockProducts(await loadProducts()).length);
+      const thresholds = (job.payload?.thresholds as MetricThreshold[] | undefined) || [];
+      const lastTriggeredAt = { ...((previousResult?.lastTriggeredAt as Record<string, string> | undefined) || {}) };
+      const { triggered, unsupported } = evaluateThresholds(metrics, thresholds, lastTriggeredAt, now);
+
+      let delivery = { sent: 0, failed: 0 };
+      if (triggered.length > 0) {
+        const station = String(job.payload?.contactStation || 'ALL');
+        const recipients = contactsForStation(await loadContacts(), station);
+        delivery = await notifyContacts(recipients, buildThresholdMessage(triggered, reportDate), 'analytics_alert');
+        triggered.forEach((alert) => lastTriggeredAt[alert.id] = now.toISOString());
+      }
+
+      return { reportDate, metrics, triggered, unsupported, lastTriggeredAt, ...delivery };
+    },
+
+    async email_automation_check({ now }) {
+      const { data: automations, error } = await admin.
+      from('email_automations').
+      select('id, automation_name, is_active, from_email, from_name, trigger_condition, trigger_value, frequency_hours, template_id, recipient_groups, next_run').
+      eq('is_active', true);
+      if (error) throw new Error(error.message);
+
+      const due = ((automations || []) as EmailAutomation[]).filter((automation) => isAutomationDue(automation, now));
+      if (due.length === 0) {
+        return { automationsRun: 0, sent: 0, failed: 0 };
+      }
+
+      const transport = createEmailTransport();
+      if (!transport) {
+        throw new Error('Email relay has no transport configured');
+      }
+      // Every message goes through the relay core, so retries and email_delivery_log apply
+      const emailDeps = { transport, store: createEmailStore(admin, null), ...getEmailSettings() };
+      const users = await loadAutomationUsers();
+      const reportDate = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+      let sent = 0;
+      let failed = 0;
+      const skipped: string[] = [];
+      for (const automation of due) {
+        const { data: template } = await admin.
+        from('email_templates').
+        select('id, subject, html_content, text_content, is_active').
+        eq('id', automation.template_id ?? 0).
+        maybeSingle();
+
+        // Logs from the last two days (or frequency window) are enough to skip repeats
+        const since = new Date(now.getTime() - Math.max(48, automation.frequency_hours || 0) * 60 * 60 * 1000);
+        const { data: logs, error: logsError } = await admin.
+        from('email_automation_logs').
+        select('automation_id, reference_key, recipient_email, status, sent_at').
+        eq('automation_id', automation.id).
+        gte('sent_at', since.toISOString());
+        if (logsError) throw new Error(logsError.message);
+
+        let planned: PlannedAutomationEmail[] = [];
+        if (!template || !template.is_active) {
+          skipped.push(`${automation.automation_name}: no active template`);
+        } else if (automation.trigger_condition === 'days_before_expiry') {
+          const { data: licenses, error: licensesError } = await admin.
+          from('licenses').
+          select('id, license_name, license_number, station, category, expiry_date').
+          eq('status', 'Active');
+          if (licensesError) throw new Error(licensesError.message);
+          planned = planLicenseExpiryEmails(automation, template, licenses || [], users, logs || [], now);
+        } else if (automation.trigger_condition === 'daily_schedule') {
+          const { data: reports, error: reportsError } = await admin.
+          from('sales_reports').
+          select('station, total_sales, grocery_sales, lottery_net_sales').
+          eq('report_date', reportDate);
+          if (reportsError) throw new Error(reportsError.message);
+          planned = planDailySalesEmails(automation, template, reportDate, reports || [], users, logs || [], now);
+        } else {
+          skipped.push(`${automation.automation_name}: unknown trigger ${automation.trigger_condition}`);
+        }
+
+        for (const email of planned) {
+          const result = await handleEmailRequest({
+            action: 'send',
+            message: { replyTo: email.replyTo, to: email.recipient.email, subject: email.subject, html: email.html, text: email.text },
+            type: 'automation'
+          }, emailDeps);
+          await admin.from('email_automation_logs').insert({
+            automation_id: email.automationId,
+            template_id: email.templateId,
+            reference_key: email.referenceKey,
+            recipient_email: email.recipient.email,
+            recipient_name: email.recipient.name,
+            subject: email.subject,
+            status: result.success ? 'Sent' : 'Failed',
+            error_message: result.error || null,
+            message_id: result.messageId || null,
+            sent_at: now.toISOString()
+          });
+          if (result.success) {
+            sent++;
+          } else {
+            failed++;
+          }
+        }
+
+        const { error: updateError } = await admin.
+        from('email_automations').
+        update({ last_run: now.toISOString(), next_run: computeNextRun(automation, now), updated_at: new Date().toISOString() }).
+        eq('id', automation.id);
+        if (updateError) console.error('Failed to update email automation:', updateError.message);
+      }
+
+      return { automationsRun: due.length, sent, failed, skipped };
+    },
+
+    async send_sms({ job }) {
+      const { to, message, type } = (job.payload || {}) as {to?: string;message?: string;type?: string;};
+      if (!to || !message) {
+        throw new Error('Scheduled SMS is missing a recipient or message');
+      }
+      const result = await sendSms(to, message, type || 'scheduled');
+      if (!result.success) {
+        throw new Error(result.error || 'SMS send failed');
+      }
+      return { messageId: result.messageId, cost: result.cost || 0 };
+    }
+  };
+}
+
+type Caller = {isServiceRole: true;} | {isServiceRole: false;isAdmin: boolean;};
+
+// pg_cron calls with the service role key; anyone else must be a signed-in
+// user, and only admins may run a particular job
+async function getCaller(req: Request): Promise<Caller | null> {
+  const authHeader = req.headers.get('Authorization') ?? '';
+  if (authHeader === `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`) {
+    return { isServiceRole: true };
+  }
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  );
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) return null;
+  const { data: isAdmin, error } = await userClient.rpc('is_admin_user');
+  if (error) console.warn('Could not check admin access:', error.message);
+  return { isServiceRole: false, isAdmin: isAdmin === true };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+  const caller = await getCaller(req);
+  if (!caller) {
+    return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const admin = createAdminClient();
+
+    // Run-now requests bring an active job's next slot forward; the lease still
+    // prevents double runs. The worker writes with the service role, so the
+    // admin-only scheduled_jobs policies are checked here.
+    if (body?.jobKey) {
+      if (!caller.isServiceRole && !caller.isAdmin) {
+        return jsonResponse({ success: false, error: 'Only administrators can run jobs on demand' }, 403);
+      }
+      const { data: requested, error: lookupError } = await admin.
+      from('scheduled_jobs').
+      select('interval_minutes, is_active').
+      eq('job_key', body.jobKey).
+      maybeSingle();
+      if (lookupError) throw new Error(lookupError.message);
+      if (!requested) {
+        return jsonResponse({ success: false, error: `Unknown job ${body.jobKey}` }, 404);
+      }
+      const runNowError = getRunNowError(requested);
+      if (runNowError) {
+        return jsonResponse({ success: false, error: runNowError }, 400);
+      }
+
+      const { error } = await admin.
+      from('scheduled_jobs').
+      update({ next_run_at: new Date().toISOString(), updated_at: new Date().toISOString() }).
+      eq('job_key', body.jobKey).
+      eq('is_active', true);
+      if (error) throw new Error(error.message);
+    }
+
+    const workerId = `job-worker-${crypto.randomUUID()}`;
+    const { data: jobs, error } = await admin.rpc('claim_due_jobs', {
+      p_worker_id: workerId,
+      p_limit: MAX_JOBS_PER_INVOCATION,
+      p_lock_seconds: LEASE_SECONDS
+    });
+    if (error) throw new Error(error.message);
+
+    const store = createRunStore(admin);
+    const handlers = createHandlers(admin);
+    const outcomes = [];
+    for (const job of (jobs || []) as ScheduledJob[]) {
+      outcomes.push(await runJob(job, handlers, store, workerId));
+    }
+
+    return jsonResponse({ success: true, workerId, outcomes });
+  } catch (error) {
+    console.error('Job worker error:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,101 @@
+// Job worker core: runs leased jobs, records each run and schedules the next one.
+// Free of Deno and Supabase imports so it can be unit tested with in-memory stores.
+
+export type JobType = 'license_expiry_check' | 'low_stock_check' | 'analytics_threshold_check' | 'email_automation_check' | 'send_sms';
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface ScheduledJob {
+  id: number;
+  job_key: string;
+  job_type: JobType | string;
+  interval_minutes: number | null;
+  payload: Record<string, unknown> | null;
+  is_active: boolean;
+  next_run_at: string;
+}
+
+export type JobResult = Record<string, unknown>;
+
+export interface JobContext {
+  job: ScheduledJob;
+  now: Date;
+  /** Result of the job's last successful run, for checks that only notify on change */
+  previousResult: JobResult | null;
+}
+
+export type JobHandler = (context: JobContext) => Promise<JobResult>;
+
+export interface JobRunStore {
+  /** Insert a running row; resolves null when this slot already has a run */
+  startRun(job: ScheduledJob, scheduledFor: string, workerId: string): Promise<number | null>;
+  finishRun(runId: number, status: JobRunStatus, result: JobResult | null, errorMessage: string | null): Promise<void>;
+  getPreviousResult(jobId: number): Promise<JobResult | null>;
+  /** Store the next run time and status, and release the worker's lease */
+  completeJob(jobId: number, update: {next_run_at: string;is_active: boolean;last_run_at: string;last_status: JobRunStatus | 'skipped';}): Promise<void>;
+}
+
+export interface JobRunOutcome {
+  jobId: number;
+  jobKey: string;
+  status: JobRunStatus | 'skipped';
+  result?: JobResult;
+  error?: string;
+}
+
+/**
+ * Next slot after now for a recurring job. Missed slots (for example while the
+ * worker was down) are skipped rather than replayed. One-off jobs return null.
+ */
+export const computeNextRunAt = (job: ScheduledJob, now: Date): string | null => {
+  if (!job.interval_minutes) {
+    return null;
+  }
+  const intervalMs = job.interval_minutes * 60 * 1000;
+  const scheduled = new Date(job.next_run_at).getTime();
+  const elapsed = Math.max(0, now.getTime() - scheduled);
+  const slotsPassed = Math.floor(elapsed / intervalMs) + 1;
+  return new Date(scheduled + slotsPassed * intervalMs).toISOString();
+};
+
+/**
+ * Run one leased job and record the outcome
+ */
+export async function runJob(
+job: ScheduledJob,
+handlers: Partial<Record<string, JobHandler>>,
+store: JobRunStore,
+workerId: string,
+now: Date = new Date())
+: Promise<JobRunOutcome> {
+  const nextRunAt = computeNextRunAt(job, now);
+  const schedule = {
+    next_run_at: nextRunAt || job.next_run_at,
+    is_active: nextRunAt !== null,
+    last_run_at: now.toISOString()
+  };
+
+  const runId = await store.startRun(job, job.next_run_at, workerId);
+  if (runId === null) {
+    // Another worker already ran this slot; just move the schedule on
+    await store.completeJob(job.id, { ...schedule, last_status: 'skipped' });
+    return { jobId: job.id, jobKey: job.job_key, status: 'skipped' };
+  }
+
+  const handler = handlers[job.job_type];
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.job_type}`);
+    }
+    const previousResult = await store.getPreviousResult(job.id);
+    const result = await handler({ job, now, previousResult });
+
+    await store.finishRun(runId, 'succeeded', result, null);
+    await store.completeJob(job.id, { ...schedule, last_status: 'succeeded' });
+    return { jobId: job.id, jobKey: job.job_key, status: 'succeeded', result };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await store.finishRun(runId, 'failed', null, message);
+    await store.completeJob(job.id, { ...schedule, last_status: 'failed' });
+    return { jobId: job.id, jobKey: job.job_key, status: 'failed', error: message };
+  }
+}
@@ -0,0 +1,136 @@
+// Inbound SMS core: parses provider webhooks, recognises the STOP / START / HELP
+// compliance keywords and decides the reply. Free of Deno and Supabase imports so
+// it can be unit tested.
+
+export type InboundKeyword = 'STOP' | 'START' | 'HELP';
+
+export interface InboundMessage {
+  provider: 'ClickSend' | 'Twilio';
+  from: string;
+  to: string;
+  body: string;
+  messageId: string;
+}
+
+export interface InboundHistoryEntry {
+  recipient_phone: string;
+  message_content: string;
+  sender_name: string;
+  status: string;
+  sent_at: string;
+  message_id: string;
+  cost: number;
+  error_message: string;
+  message_type: string;
+}
+
+export interface InboundStore {
+  /** Set opt_out on every contact with this number; returns the number of contacts updated */
+  setOptOut(phoneNumber: string, optOut: boolean): Promise<number>;
+  logMessage(entry: InboundHistoryEntry): Promise<void>;
+}
+
+export interface InboundResult {
+  keyword: InboundKeyword | null;
+  contactsUpdated: number;
+  reply: string | null;
+}
+
+// Carrier (CTIA) standard keywords; the whole message must be the keyword
+const KEYWORDS: Record<InboundKeyword, string[]> = {
+  STOP: ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT'],
+  START: ['START', 'UNSTOP', 'YES', 'SUBSCRIBE'],
+  HELP: ['HELP', 'INFO']
+};
+
+export const DEFAULT_REPLIES: Record<InboundKeyword, string> = {
+  STOP: 'DFS Manager: You are unsubscribed and will receive no further alerts. Reply START to resubscribe.',
+  START: 'DFS Manager: You are resubscribed to station alerts. Reply HELP for help or STOP to unsubscribe.',
+  HELP: 'DFS Manager station and license alerts. Reply STOP to unsubscribe or START to resubscribe. Msg & data rates may apply.'
+};
+
+/**
+ * Match a message body against the compliance keywords, ignoring case and punctuation
+ */
+export const classifyKeyword = (body: string | null | undefined): InboundKeyword | null => {
+  const word = (body || '').toUpperCase().replace(/[^A-Z]/g, '');
+  const match = (Object.keys(KEYWORDS) as InboundKeyword[]).find((keyword) => KEYWORDS[keyword].includes(word));
+  return match || null;
+};
+
+/**
+ * Read a webhook payload from either provider. Twilio posts form fields with a
+ * MessageSid; ClickSend posts from / body / message_id as form fields or JSON.
+ */
+export const parseInboundMessage = (fields: Record<string, unknown>): InboundMessage | null => {
+  const read = (key: string) => fields[key] === undefined || fields[key] === null ? '' : String(fields[key]);
+
+  if (read('MessageSid')) {
+    return {
+      provider: 'Twilio',
+      from: read('From'),
+      to: read('To'),
+      body: read('Body'),
+      messageId: read('MessageSid')
+    };
+  }
+
+  if (read('from')) {
+    return {
+      provider: 'ClickSend',
+      from: read('from'),
+      to: read('to'),
+      body: read('body') || read('message'),
+      messageId: read('message_id')
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Apply the keyword to the sender's contacts and log the reply in SMS history
+ */
+export async function handleInboundMessage(
+message: InboundMessage,
+store: InboundStore,
+options: {now?: Date;helpContact?: string;} = {})
+: Promise<InboundResult> {
+  const keyword = classifyKeyword(message.body);
+  const now = options.now || new Date();
+
+  let contactsUpdated = 0;
+  if (keyword === 'STOP' || keyword === 'START') {
+    contactsUpdated = await store.setOptOut(message.from, keyword === 'STOP');
+  }
+
+  await store.logMessage({
+    recipient_phone: message.from,
+    message_content: message.body,
+    sender_name: message.from,
+    status: 'Received',
+    sent_at: now.toISOString(),
+    message_id: message.messageId,
+    cost: 0,
+    error_message: '',
+    message_type: keyword ? `inbound_${keyword.toLowerCase()}` : 'inbound'
+  });
+
+  let reply: string | null = keyword ? DEFAULT_REPLIES[keyword] : null;
+  if (keyword === 'HELP' && options.helpContact) {
+    reply = `${reply} Contact: ${options.helpContact}`;
+  }
+
+  return { keyword, contactsUpdated, reply };
+}
+
+const escapeXml = (value: string) =>
+value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * TwiML response body; Twilio sends the reply itself when one is included
+ */
+export const buildTwimlResponse = (reply: string | null): string =>
+reply ?
+`<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(reply)}</Message></Response>` :
+'<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
@@ -0,0 +1,103 @@
+// Supabase edge function: inbound SMS webhook for ClickSend and Twilio.
+// Handles the STOP / START / HELP keywords by updating sms_contacts.opt_out and
+// logs every reply in sms_history. Providers cannot send a Supabase session, so
+// the webhook URL carries a shared token instead:
+//   https://<project>.supabase.co/functions/v1/sms-inbound?token=<SMS_INBOUND_TOKEN>
+// Deploy with: supabase functions deploy sms-inbound --no-verify-jwt
+/* global Deno */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { phoneNumbersMatch } from '../_shared/phone.ts';
+import { createAdminClient } from '../_shared/relayStore.ts';
+import { createProviderFromEnv, DEFAULT_FROM_NUMBER } from '../sms-relay/relay.ts';
+import { buildTwimlResponse, handleInboundMessage, InboundStore, parseInboundMessage } from './inbound.ts';
+
+const jsonResponse = (body: unknown, status: number = 200) =>
+new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json' }
+});
+
+const readFields = async (req: Request): Promise<Record<string, unknown>> => {
+  const contentType = req.headers.get('Content-Type') || '';
+  if (contentType.includes('application/json')) {
+    return await req.json();
+  }
+  const form = new URLSearchParams(await req.text());
+  return Object.fromEntries(form.entries());
+};
+
+function createStore(admin: SupabaseClient): InboundStore {
+  return {
+    async setOptOut(phoneNumber, optOut) {
+      const { data, error } = await admin.from('sms_contacts').select('id, mobile_number');
+      if (error) throw new Error(error.message);
+
+      const ids = (data || []).
+      filter((contact) => phoneNumbersMatch(contact.mobile_number, phoneNumber)).
+      map((contact) => contact.id);
+      if (ids.length === 0) return 0;
+
+      const { error: updateError } = await admin.
+      from('sms_contacts').
+      update({ opt_out: optOut, opted_out_at: optOut ? new Date().toISOString() : null, updated_at: new Date().toISOString() }).
+      in('id', ids);
+      if (updateError) throw new Error(updateError.message);
+      return ids.length;
+    },
+    async logMessage(entry) {
+      const { error } = await admin.from('sms_history').insert({ ...entry, created_at: new Date().toISOString() });
+      if (error) console.error('Failed to log inbound SMS:', error.message);
+    }
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  const expectedToken = Deno.env.get('SMS_INBOUND_TOKEN');
+  if (!expectedToken || new URL(req.url).searchParams.get('token') !== expectedToken) {
+    return jsonResponse({ success: false, error: 'Invalid webhook token' }, 401);
+  }
+
+  try {
+    const message = parseInboundMessage(await readFields(req));
+    if (!message) {
+      return jsonResponse({ success: false, error: 'Unrecognised inbound payload' }, 400);
+    }
+
+    const store = createStore(createAdminClient());
+    const result = await handleInboundMessage(message, store, { helpContact: Deno.env.get('SMS_HELP_CONTACT') });
+
+    // Twilio delivers the reply from the TwiML response
+    if (message.provider === 'Twilio') {
+      return new Response(buildTwimlResponse(result.reply), { headers: { 'Content-Type': 'text/xml' } });
+    }
+
+    // ClickSend expects a plain acknowledgement, so the reply is sent separately
+    if (result.reply) {
+      const provider = createProviderFromEnv('ClickSend', (key) => Deno.env.get(key));
+      if (provider) {
+        const sent = await provider.send(message.from, result.reply, message.to || DEFAULT_FROM_NUMBER);
+        await store.logMessage({
+          recipient_phone: message.from,
+          message_content: result.reply,
+          sender_name: message.to || DEFAULT_FROM_NUMBER,
+          status: sent.success ? 'Sent' : 'Failed',
+          sent_at: new Date().toISOString(),
+          message_id: sent.messageId || '',
+          cost: sent.cost || 0,
+          error_message: sent.error || '',
+          message_type: 'keyword_reply'
+        });
+      }
+    }
+
+    return jsonResponse({ success: true, keyword: result.keyword, contactsUpdated: result.contactsUpdated });
+  } catch (error) {
+    console.error('Inbound SMS error:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
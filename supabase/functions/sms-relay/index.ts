@@ -0,0 +1,62 @@
+// Supabase edge function: server-side SMS relay.
+// Holds the provider credentials (CLICKSEND_USERNAME / CLICKSEND_API_KEY or
+// TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN secrets), requires an authenticated caller
+// and enforces the daily limit from sms_config. The provider follows
+// sms_config.service_name, as selected in SMS Management.
+//
+// Local testing against the mock provider:
+//   SMS_RELAY_PROVIDER=mock supabase functions serve sms-relay
+/* global Deno */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createAdminClient, createRelayStore } from '../_shared/relayStore.ts';
+import { createProviderFromEnv, handleRelayRequest, providerUnavailableMessage } from './relay.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const jsonResponse = (body: unknown, status: number = 200) =>
+new Response(JSON.stringify(body), {
+  status,
+  headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+});
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  // Only signed-in application users may send
+  const authHeader = req.headers.get('Authorization') ?? '';
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  );
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const store = createRelayStore(createAdminClient());
+    const settings = await store.getSettings();
+    const provider = createProviderFromEnv(settings.provider, (key) => Deno.env.get(key));
+    if (!provider) {
+      return jsonResponse({ success: false, error: providerUnavailableMessage(settings.provider) }, 503);
+    }
+
+    const request = await req.json();
+    const result = await handleRelayRequest(request, { provider, store });
+    return jsonResponse(result);
+  } catch (error) {
+    console.error('SMS relay error:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
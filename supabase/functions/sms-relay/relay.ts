@@ -0,0 +1,428 @@
+// SMS relay core: validates requests, enforces the daily limit, sends through a
+// provider and records the result. Kept free of Deno and Supabase imports so it
+// can run in the edge function and in unit tests against the mock provider.
+
+import { MOCK_SENT_STATUS } from '../_shared/smsStatus.ts';
+
+export interface RelaySendRequest {
+  action: 'send';
+  to: string;
+  message: string;
+  type?: string;
+}
+
+export interface RelayAccountRequest {
+  action: 'account';
+}
+
+export interface RelayStatusRequest {
+  action: 'status';
+  messageId: string;
+}
+
+export interface RelayNumbersRequest {
+  action: 'numbers';
+}
+
+export type RelayRequest = RelaySendRequest | RelayAccountRequest | RelayStatusRequest | RelayNumbersRequest;
+
+export interface RelaySendResponse {
+  success: boolean;
+  messageId?: string;
+  status?: string;
+  cost?: number;
+  error?: string;
+}
+
+export interface RelayAccountResponse {
+  success: boolean;
+  provider: string;
+  balance?: number;
+  error?: string;
+}
+
+export interface RelayStatusResponse {
+  success: boolean;
+  status: string;
+  delivered: boolean;
+  error?: string;
+}
+
+export interface RelayNumbersResponse {
+  success: boolean;
+  provider: string;
+  numbers: string[];
+  error?: string;
+}
+
+export interface ProviderSendResult {
+  success: boolean;
+  messageId?: string;
+  status?: string;
+  cost?: number;
+  error?: string;
+}
+
+export interface RelayProvider {
+  name: string;
+  send(to: string, body: string, from: string): Promise<ProviderSendResult>;
+  getAccount(): Promise<{success: boolean;balance?: number;error?: string;}>;
+  getStatus(messageId: string): Promise<{success: boolean;status: string;error?: string;}>;
+  getFromNumbers(): Promise<{success: boolean;numbers: string[];error?: string;}>;
+}
+
+export const RELAY_PROVIDER_NAMES = ['ClickSend', 'Twilio', 'Mock'] as const;
+export type RelayProviderName = typeof RELAY_PROVIDER_NAMES[number];
+
+export interface RelaySettings {
+  provider: RelayProviderName;
+  fromNumber: string;
+  dailyLimit: number;
+}
+
+export interface RelayHistoryEntry {
+  recipient_phone: string;
+  message_content: string;
+  sender_name: string;
+  status: string;
+  sent_at: string;
+  message_id: string;
+  cost: number;
+  error_message: string;
+  message_type: string;
+}
+
+export interface RelayStore {
+  getSettings(): Promise<RelaySettings>;
+  /** True when a contact with this number replied STOP */
+  isOptedOut(phoneNumber: string): Promise<boolean>;
+  countSentSince(since: Date): Promise<number>;
+  logMessage(entry: RelayHistoryEntry): Promise<void>;
+}
+
+export interface RelayDependencies {
+  provider: RelayProvider;
+  store: RelayStore;
+  now?: () => Date;
+}
+
+export const DEFAULT_FROM_NUMBER = 'DFS';
+export const DEFAULT_DAILY_LIMIT = 100;
+export const DEFAULT_PROVIDER: RelayProviderName = 'ClickSend';
+const MAX_MESSAGE_LENGTH = 1600;
+
+/**
+ * Map the service_name stored in sms_config onto a known provider
+ */
+export const normalizeProviderName = (serviceName: string | null | undefined): RelayProviderName =>
+RELAY_PROVIDER_NAMES.find((name) => name.toLowerCase() === (serviceName || '').trim().toLowerCase()) || DEFAULT_PROVIDER;
+
+export const isValidPhoneNumber = (phoneNumber: string): boolean => /^\+[1-9]\d{1,14}$/.test(phoneNumber);
+
+const startOfDay = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+/**
+ * Returns an error message when today's sent count has reached the configured limit
+ */
+export const checkDailyLimit = async (store: RelayStore, settings: RelaySettings, now: Date): Promise<string | null> => {
+  const sentToday = await store.countSentSince(startOfDay(now));
+  if (sentToday >= settings.dailyLimit) {
+    return 'Daily SMS limit exceeded. Please contact administrator or wait for tomorrow.';
+  }
+  return null;
+};
+
+const validateSendRequest = (request: RelaySendRequest): string | null => {
+  if (!request.to || !isValidPhoneNumber(request.to)) {
+    return 'Invalid phone number format. Use E.164 format (+1234567890)';
+  }
+  if (!request.message || !request.message.trim()) {
+    return 'Message body is required';
+  }
+  if (request.message.length > MAX_MESSAGE_LENGTH) {
+    return `Message exceeds ${MAX_MESSAGE_LENGTH} characters`;
+  }
+  return null;
+};
+
+async function handleSend(request: RelaySendRequest, deps: RelayDependencies): Promise<RelaySendResponse> {
+  const validationError = validateSendRequest(request);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  if (await deps.store.isOptedOut(request.to)) {
+    return { success: false, error: 'Recipient has opted out of SMS messages (replied STOP)' };
+  }
+
+  const now = deps.now ? deps.now() : new Date();
+  const settings = await deps.store.getSettings();
+  const limitError = await checkDailyLimit(deps.store, settings, now);
+  if (limitError) {
+    return { success: false, error: limitError };
+  }
+
+  const result = await deps.provider.send(request.to, request.message, settings.fromNumber);
+
+  await deps.store.logMessage({
+    recipient_phone: request.to,
+    message_content: request.message,
+    sender_name: settings.fromNumber,
+    status: !result.success ? 'Failed' : deps.provider.name === 'Mock' ? MOCK_SENT_STATUS : 'Sent',
+    sent_at: now.toISOString(),
+    message_id: result.messageId || '',
+    cost: result.cost || 0,
+    error_message: result.error || '',
+    message_type: request.type || 'custom'
+  });
+
+  return {
+    success: result.success,
+    messageId: result.messageId,
+    status: result.status,
+    cost: result.cost,
+    error: result.error
+  };
+}
+
+/**
+ * Dispatch a relay request to the matching handler
+ */
+export async function handleRelayRequest(
+request: RelayRequest,
+deps: RelayDependencies)
+: Promise<RelaySendResponse | RelayAccountResponse | RelayStatusResponse | RelayNumbersResponse> {
+  switch (request?.action) {
+    case 'send':
+      return handleSend(request, deps);
+    case 'account':{
+        const account = await deps.provider.getAccount();
+        return { ...account, provider: deps.provider.name };
+      }
+    case 'status':{
+        if (!request.messageId) {
+          return { success: false, status: 'unknown', delivered: false, error: 'Message ID is required' };
+        }
+        const result = await deps.provider.getStatus(request.messageId);
+        return { ...result, delivered: result.status === 'Delivered' };
+      }
+    case 'numbers':{
+        const result = await deps.provider.getFromNumbers();
+        return { ...result, provider: deps.provider.name };
+      }
+    default:
+      return { success: false, error: 'Unknown relay action' };
+  }
+}
+
+/**
+ * ClickSend REST provider. Credentials are only ever read on the server.
+ */
+export function createClickSendProvider(
+username: string,
+apiKey: string,
+fetchImpl: typeof fetch = fetch,
+apiBaseUrl: string = 'https://rest.clicksend.com/v3')
+: RelayProvider {
+  const request = async (method: string, endpoint: string, body?: unknown) => {
+    const response = await fetchImpl(`${apiBaseUrl}${endpoint}`, {
+      method,
+      headers: {
+        'Authorization': `Basic ${btoa(`${username}:${apiKey}`)}`,
+        'Content-Type': 'application/json'
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.response_msg || result.error_message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return result;
+  };
+
+  return {
+    name: 'ClickSend',
+    async send(to, body, from) {
+      try {
+        const result = await request('POST', '/sms/send', { messages: [{ source: from, to, body }] });
+        const message = result?.data?.messages?.[0];
+        if (!message) {
+          return { success: false, error: 'ClickSend returned no message result' };
+        }
+        return {
+          success: message.status === 'SUCCESS',
+          messageId: message.message_id,
+          status: message.status,
+          cost: parseFloat(message.message_price) || 0,
+          error: message.status !== 'SUCCESS' ? message.custom_string || message.status : undefined
+        };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    },
+    async getAccount() {
+      try {
+        const result = await request('GET', '/account');
+        return { success: true, balance: parseFloat(result?.data?.balance) || 0 };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    },
+    async getStatus(messageId) {
+      try {
+        const result = await request('GET', `/sms/history/${encodeURIComponent(messageId)}`);
+        return { success: true, status: result?.data?.status || 'unknown' };
+      } catch (error) {
+        return { success: false, status: 'error', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    },
+    async getFromNumbers() {
+      try {
+        const result = await request('GET', '/numbers');
+        const numbers = (result?.data?.data || []).map((entry: {dedicated_number: string;}) => entry.dedicated_number);
+        return { success: true, numbers };
+      } catch (error) {
+        return { success: false, numbers: [], error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }
+  };
+}
+
+const TWILIO_DELIVERED_STATUSES = ['delivered'];
+
+/**
+ * Twilio Programmable Messaging provider. When the sender is not an E.164 number
+ * it is treated as a Messaging Service SID or alphanumeric sender ID.
+ */
+export function createTwilioProvider(
+accountSid: string,
+authToken: string,
+fetchImpl: typeof fetch = fetch,
+apiBaseUrl: string = 'https://api.twilio.com/2010-04-01')
+: RelayProvider {
+  const accountUrl = `${apiBaseUrl}/Accounts/${encodeURIComponent(accountSid)}`;
+  const request = async (method: string, endpoint: string, form?: Record<string, string>) => {
+    const response = await fetchImpl(`${accountUrl}${endpoint}`, {
+      method,
+      headers: {
+        'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: form ? new URLSearchParams(form).toString() : undefined
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return result;
+  };
+
+  return {
+    name: 'Twilio',
+    async send(to, body, from) {
+      try {
+        const sender: Record<string, string> = from.startsWith('MG') ? { MessagingServiceSid: from } : { From: from };
+        const message = await request('POST', '/Messages.json', { To: to, Body: body, ...sender });
+        return {
+          success: !message.error_code,
+          messageId: message.sid,
+          status: message.status,
+          cost: Math.abs(parseFloat(message.price)) || 0,
+          error: message.error_code ? message.error_message || `Twilio error ${message.error_code}` : undefined
+        };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    },
+    async getAccount() {
+      try {
+        const result = await request('GET', '/Balance.json');
+        return { success: true, balance: parseFloat(result?.balance) || 0 };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    },
+    async getStatus(messageId) {
+      try {
+        const message = await request('GET', `/Messages/${encodeURIComponent(messageId)}.json`);
+        const status = TWILIO_DELIVERED_STATUSES.includes(message.status) ? 'Delivered' : message.status || 'unknown';
+        return { success: true, status };
+      } catch (error) {
+        return { success: false, status: 'error', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    },
+    async getFromNumbers() {
+      try {
+        const result = await request('GET', '/IncomingPhoneNumbers.json');
+        const numbers = (result?.incoming_phone_numbers || []).map((entry: {phone_number: string;}) => entry.phone_number);
+        return { success: true, numbers };
+      } catch (error) {
+        return { success: false, numbers: [], error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }
+  };
+}
+
+/**
+ * Build the named provider from environment secrets; null when its credentials are missing.
+ * The mock provider only runs when SMS_RELAY_PROVIDER=mock is set, which then
+ * applies to every send; selecting Mock in sms_config alone does not enable it.
+ */
+export function createProviderFromEnv(name: RelayProviderName, getEnv: (key: string) => string | undefined): RelayProvider | null {
+  if (getEnv('SMS_RELAY_PROVIDER') === 'mock') {
+    return createMockProvider();
+  }
+  if (name === 'Mock') {
+    return null;
+  }
+
+  if (name === 'Twilio') {
+    const accountSid = getEnv('TWILIO_ACCOUNT_SID');
+    const authToken = getEnv('TWILIO_AUTH_TOKEN');
+    return accountSid && authToken ? createTwilioProvider(accountSid, authToken) : null;
+  }
+
+  const username = getEnv('CLICKSEND_USERNAME');
+  const apiKey = getEnv('CLICKSEND_API_KEY');
+  return username && apiKey ? createClickSendProvider(username, apiKey) : null;
+}
+
+/**
+ * Why createProviderFromEnv returned no provider, for the relay's error response
+ */
+export const providerUnavailableMessage = (name: RelayProviderName): string =>
+name === 'Mock' ?
+'The mock SMS provider is disabled. Set SMS_RELAY_PROVIDER=mock on the relay to use it.' :
+`SMS relay is not configured with ${name} credentials`;
+
+/**
+ * Provider that never leaves the process, for local development and tests.
+ * Numbers listed in failNumbers are rejected so failure paths can be exercised.
+ */
+export function createMockProvider(options: {failNumbers?: string[];balance?: number;} = {}): RelayProvider & {sent: {to: string;body: string;from: string;}[];} {
+  const sent: {to: string;body: string;from: string;}[] = [];
+  return {
+    name: 'Mock',
+    sent,
+    async send(to, body, from) {
+      if (options.failNumbers?.includes(to)) {
+        return { success: false, status: 'FAILED', error: 'Mock provider rejected the number' };
+      }
+      sent.push({ to, body, from });
+      return { success: true, messageId: `mock-${sent.length}`, status: 'SUCCESS', cost: 0 };
+    },
+    async getAccount() {
+      return { success: true, balance: options.balance ?? 100 };
+    },
+    async getStatus() {
+      return { success: true, status: 'Delivered' };
+    },
+    async getFromNumbers() {
+      return { success: true, numbers: ['+15550000000'] };
+    }
+  };
+}
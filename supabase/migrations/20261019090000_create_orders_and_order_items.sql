@@ -0,0 +1,90 @@
+-- Migration: Create vendors, purchase orders and structured order line items
+-- Orders (Table ID: 11730) previously stored their items as text appended to notes.
+-- Each line now keeps its product, case-or-unit choice, quantity, cost and subtotal.
+
+-- Create vendors table if not exists (Table ID: 11729)
+CREATE TABLE IF NOT EXISTS vendors (
+  id BIGSERIAL PRIMARY KEY,
+  vendor_name VARCHAR(255) NOT NULL,
+  contact_person VARCHAR(255),
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  address TEXT,
+  category VARCHAR(100),
+  payment_terms VARCHAR(100),
+  is_active BOOLEAN DEFAULT true,
+  station VARCHAR(100),
+  created_by BIGINT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create orders table if not exists (Table ID: 11730)
+CREATE TABLE IF NOT EXISTS orders (
+  id BIGSERIAL PRIMARY KEY,
+  order_number VARCHAR(100) UNIQUE NOT NULL,
+  vendor_id BIGINT REFERENCES vendors(id),
+  order_date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expected_delivery TIMESTAMPTZ,
+  station VARCHAR(100),
+  total_amount NUMERIC(12,2) DEFAULT 0,
+  status VARCHAR(50) DEFAULT 'Pending',
+  notes TEXT,
+  created_by BIGINT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS vendor_id BIGINT;
+
+-- Create order_items table (Table ID: 27001)
+CREATE TABLE IF NOT EXISTS order_items (
+  id BIGSERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  line_number INTEGER NOT NULL DEFAULT 1,
+  product_id BIGINT NOT NULL,
+  product_name VARCHAR(255) NOT NULL,
+  product_code VARCHAR(100),
+  unit_type VARCHAR(50) NOT NULL DEFAULT 'pieces',
+  units_per_case INTEGER DEFAULT 1,
+  quantity NUMERIC(12,2) NOT NULL CHECK (quantity > 0),
+  unit_cost NUMERIC(12,4) NOT NULL DEFAULT 0,
+  subtotal NUMERIC(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_orders_vendor_id ON orders(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_orders_order_date ON orders(order_date);
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON order_items(product_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE vendors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage vendors" ON vendors;
+CREATE POLICY "Authenticated users can manage vendors" ON vendors
+  FOR ALL USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can manage orders" ON orders;
+CREATE POLICY "Authenticated users can manage orders" ON orders
+  FOR ALL USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can manage order items" ON order_items;
+CREATE POLICY "Authenticated users can manage order items" ON order_items
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT ALL ON vendors TO authenticated;
+GRANT ALL ON vendors TO service_role;
+GRANT ALL ON orders TO authenticated;
+GRANT ALL ON orders TO service_role;
+GRANT ALL ON order_items TO authenticated;
+GRANT ALL ON order_items TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE vendors_id_seq TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE orders_id_seq TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE order_items_id_seq TO authenticated;
@@ -0,0 +1,64 @@
+-- Migration: Receive purchase orders against inventory
+-- Tracks partial receipts and backorders per order line and records stock postings
+-- in product_logs (Table ID: 11756) so they appear in the product change history.
+
+-- Track cumulative received quantity on each order line
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS quantity_received NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+-- Create order_receipts table (Table ID: 27002)
+-- One row per order line per receiving session
+CREATE TABLE IF NOT EXISTS order_receipts (
+  id BIGSERIAL PRIMARY KEY,
+  receipt_number VARCHAR(100) NOT NULL,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id BIGINT NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  product_id BIGINT NOT NULL,
+  quantity_received NUMERIC(12,2) NOT NULL CHECK (quantity_received > 0),
+  units_added INTEGER NOT NULL DEFAULT 0,
+  unit_cost NUMERIC(12,4) NOT NULL DEFAULT 0,
+  backorder_quantity NUMERIC(12,2) NOT NULL DEFAULT 0,
+  received_by UUID,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create product_logs table if not exists (Table ID: 11756)
+CREATE TABLE IF NOT EXISTS product_logs (
+  id BIGSERIAL PRIMARY KEY,
+  product_id BIGINT NOT NULL,
+  field_name VARCHAR(100) NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  change_date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  changed_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_order_receipts_order_id ON order_receipts(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_receipts_receipt_number ON order_receipts(receipt_number);
+CREATE INDEX IF NOT EXISTS idx_order_receipts_product_id ON order_receipts(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_logs_product_id ON product_logs(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_logs_change_date ON product_logs(change_date);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE order_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage order receipts" ON order_receipts;
+CREATE POLICY "Authenticated users can manage order receipts" ON order_receipts
+  FOR ALL USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can manage product logs" ON product_logs;
+CREATE POLICY "Authenticated users can manage product logs" ON product_logs
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT ALL ON order_receipts TO authenticated;
+GRANT ALL ON order_receipts TO service_role;
+GRANT ALL ON product_logs TO authenticated;
+GRANT ALL ON product_logs TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE order_receipts_id_seq TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE product_logs_id_seq TO authenticated;
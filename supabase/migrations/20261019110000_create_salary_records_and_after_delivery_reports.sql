@@ -0,0 +1,80 @@
+-- Migration: Create tables referenced by the table registry that have no migration yet
+-- salary_records (Table ID: 11788) backs SalaryForm/SalaryList and analytics salary metrics.
+-- after_delivery_tank_reports (Table ID: 12331) backs the after-delivery readings in DeliveryForm.
+
+-- Create salary_records table (Table ID: 11788)
+CREATE TABLE IF NOT EXISTS salary_records (
+  id BIGSERIAL PRIMARY KEY,
+  employee_id VARCHAR(50) NOT NULL,
+  pay_period_start DATE NOT NULL,
+  pay_period_end DATE NOT NULL,
+  pay_date DATE NOT NULL,
+  pay_frequency VARCHAR(50) NOT NULL DEFAULT 'Weekly',
+  hourly_rate NUMERIC(10,2) NOT NULL DEFAULT 0,
+  regular_hours NUMERIC(8,2) NOT NULL DEFAULT 0,
+  assign_hours NUMERIC(8,2) NOT NULL DEFAULT 0,
+  overtime_hours NUMERIC(8,2) NOT NULL DEFAULT 0,
+  overtime_rate NUMERIC(10,2) NOT NULL DEFAULT 0,
+  overtime_pay NUMERIC(12,2) NOT NULL DEFAULT 0,
+  bonus_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  commission NUMERIC(12,2) NOT NULL DEFAULT 0,
+  gross_pay NUMERIC(12,2) NOT NULL DEFAULT 0,
+  federal_tax NUMERIC(12,2) NOT NULL DEFAULT 0,
+  state_tax NUMERIC(12,2) NOT NULL DEFAULT 0,
+  social_security NUMERIC(12,2) NOT NULL DEFAULT 0,
+  medicare NUMERIC(12,2) NOT NULL DEFAULT 0,
+  health_insurance NUMERIC(12,2) NOT NULL DEFAULT 0,
+  retirement_401k NUMERIC(12,2) NOT NULL DEFAULT 0,
+  other_deductions NUMERIC(12,2) NOT NULL DEFAULT 0,
+  total_deductions NUMERIC(12,2) NOT NULL DEFAULT 0,
+  net_pay NUMERIC(12,2) NOT NULL DEFAULT 0,
+  station VARCHAR(255),
+  status VARCHAR(50) NOT NULL DEFAULT 'Pending',
+  notes TEXT,
+  created_by INTEGER,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create after_delivery_tank_reports table (Table ID: 12331)
+-- One report per delivery record, holding the final tank readings
+CREATE TABLE IF NOT EXISTS after_delivery_tank_reports (
+  id BIGSERIAL PRIMARY KEY,
+  report_date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  station VARCHAR(255) NOT NULL,
+  delivery_record_id BIGINT NOT NULL UNIQUE,
+  bol_number VARCHAR(100),
+  regular_tank_final NUMERIC(12,2) NOT NULL DEFAULT 0,
+  plus_tank_final NUMERIC(12,2) NOT NULL DEFAULT 0,
+  super_tank_final NUMERIC(12,2) NOT NULL DEFAULT 0,
+  created_by INTEGER,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_salary_records_employee_id ON salary_records(employee_id);
+CREATE INDEX IF NOT EXISTS idx_salary_records_pay_date ON salary_records(pay_date);
+CREATE INDEX IF NOT EXISTS idx_salary_records_station ON salary_records(station);
+CREATE INDEX IF NOT EXISTS idx_after_delivery_tank_reports_station ON after_delivery_tank_reports(station);
+CREATE INDEX IF NOT EXISTS idx_after_delivery_tank_reports_report_date ON after_delivery_tank_reports(report_date);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE salary_records ENABLE ROW LEVEL SECURITY;
+ALTER TABLE after_delivery_tank_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage salary records" ON salary_records;
+CREATE POLICY "Authenticated users can manage salary records" ON salary_records
+  FOR ALL USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can manage after delivery tank reports" ON after_delivery_tank_reports;
+CREATE POLICY "Authenticated users can manage after delivery tank reports" ON after_delivery_tank_reports
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT ALL ON salary_records TO authenticated;
+GRANT ALL ON salary_records TO service_role;
+GRANT ALL ON after_delivery_tank_reports TO authenticated;
+GRANT ALL ON after_delivery_tank_reports TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE salary_records_id_seq TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE after_delivery_tank_reports_id_seq TO authenticated;
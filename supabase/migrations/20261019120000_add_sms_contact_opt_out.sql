@@ -0,0 +1,12 @@
+-- Migration: SMS opt-out compliance
+-- The sms-inbound webhook sets opt_out when a contact replies STOP and clears it
+-- on START. Alert and bulk sends skip opted-out contacts, and the sms-relay
+-- refuses to send to them.
+
+ALTER TABLE sms_contacts
+  ADD COLUMN IF NOT EXISTS opt_out BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS opted_out_at TIMESTAMPTZ;
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_sms_contacts_opt_out ON sms_contacts(opt_out);
+CREATE INDEX IF NOT EXISTS idx_sms_history_message_type ON sms_history(message_type);
@@ -0,0 +1,102 @@
+-- Migration: Durable job scheduler
+-- Recurring checks (license expiry, low stock, analytics thresholds) and one-off
+-- scheduled SMS are stored as jobs and run by the job-worker edge function, so
+-- they no longer depend on a browser tab being open.
+
+-- Create scheduled_jobs table (Table ID: 27003)
+-- interval_minutes is NULL for one-off jobs, which deactivate after running
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  job_key VARCHAR(150) NOT NULL UNIQUE,
+  job_type VARCHAR(50) NOT NULL,
+  description TEXT,
+  interval_minutes INTEGER CHECK (interval_minutes IS NULL OR interval_minutes > 0),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_run_at TIMESTAMPTZ,
+  last_status VARCHAR(20),
+  locked_by VARCHAR(100),
+  locked_until TIMESTAMPTZ,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create job_runs table (Table ID: 27004)
+-- One row per job per scheduled slot; the unique key stops a slot running twice
+CREATE TABLE IF NOT EXISTS job_runs (
+  id BIGSERIAL PRIMARY KEY,
+  job_id BIGINT NOT NULL REFERENCES scheduled_jobs(id) ON DELETE CASCADE,
+  job_type VARCHAR(50) NOT NULL,
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'succeeded', 'failed')),
+  worker_id VARCHAR(100),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  result JSONB,
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (job_id, scheduled_for)
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_due ON scheduled_jobs(is_active, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_job_type ON scheduled_jobs(job_type);
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_id ON job_runs(job_id);
+CREATE INDEX IF NOT EXISTS idx_job_runs_started_at ON job_runs(started_at);
+
+-- Atomically lease due jobs to one worker. SKIP LOCKED lets concurrent workers
+-- pick up different jobs instead of both running the same one.
+CREATE OR REPLACE FUNCTION claim_due_jobs(p_worker_id TEXT, p_limit INTEGER DEFAULT 10, p_lock_seconds INTEGER DEFAULT 300)
+RETURNS SETOF scheduled_jobs
+LANGUAGE sql
+AS $$
+  UPDATE scheduled_jobs
+  SET locked_by = p_worker_id,
+      locked_until = now() + make_interval(secs => p_lock_seconds)
+  WHERE id IN (
+    SELECT id FROM scheduled_jobs
+    WHERE is_active
+      AND next_run_at <= now()
+      AND (locked_until IS NULL OR locked_until < now())
+    ORDER BY next_run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE scheduled_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage scheduled jobs" ON scheduled_jobs;
+CREATE POLICY "Authenticated users can manage scheduled jobs" ON scheduled_jobs
+  FOR ALL USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can view job runs" ON job_runs;
+CREATE POLICY "Authenticated users can view job runs" ON job_runs
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT ALL ON scheduled_jobs TO authenticated;
+GRANT ALL ON scheduled_jobs TO service_role;
+GRANT SELECT ON job_runs TO authenticated;
+GRANT ALL ON job_runs TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE scheduled_jobs_id_seq TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE job_runs_id_seq TO service_role;
+GRANT EXECUTE ON FUNCTION claim_due_jobs(TEXT, INTEGER, INTEGER) TO service_role;
+
+-- Seed the recurring checks
+INSERT INTO scheduled_jobs (job_key, job_type, description, interval_minutes, payload)
+VALUES
+  ('license_expiry_check', 'license_expiry_check', 'Send SMS alerts for licenses approaching expiry', 1440, '{}'::jsonb),
+  ('low_stock_check', 'low_stock_check', 'Notify contacts when products fall to their minimum stock', 1440, '{"contactStation": "ALL"}'::jsonb),
+  ('analytics_threshold_check', 'analytics_threshold_check', 'Compare the previous day''s station metrics with alert thresholds', 1440,
+    '{"contactStation": "ALL", "thresholds": [
+      {"id": "low_sales_alert", "name": "Low daily sales", "metric": "totalSales.current", "operator": "less_than", "threshold": 5000},
+      {"id": "low_inventory_alert", "name": "Many low-stock items", "metric": "inventoryMetrics.lowStockItems", "operator": "greater_than", "threshold": 10}
+    ]}'::jsonb)
+ON CONFLICT (job_key) DO NOTHING;
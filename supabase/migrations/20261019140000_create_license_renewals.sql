@@ -0,0 +1,70 @@
+-- Migration: License renewal history and document versions
+-- Renewing a license records the old and new expiry, the cost paid and the new
+-- certificate, instead of overwriting the license row. Earlier certificates are
+-- kept as numbered versions.
+
+-- Create license_renewals table (Table ID: 27005)
+-- station is copied from the license so renewal spend can be reported per station
+CREATE TABLE IF NOT EXISTS license_renewals (
+  id BIGSERIAL PRIMARY KEY,
+  license_id BIGINT NOT NULL,
+  station VARCHAR(255),
+  previous_issue_date TIMESTAMPTZ,
+  previous_expiry_date TIMESTAMPTZ,
+  new_issue_date TIMESTAMPTZ,
+  new_expiry_date TIMESTAMPTZ NOT NULL,
+  renewal_cost NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (renewal_cost >= 0),
+  payment_date DATE,
+  payment_reference VARCHAR(100),
+  notes TEXT,
+  renewed_by VARCHAR(255),
+  renewed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create license_documents table (Table ID: 27006)
+-- One row per certificate; is_current marks the version matching the license row
+CREATE TABLE IF NOT EXISTS license_documents (
+  id BIGSERIAL PRIMARY KEY,
+  license_id BIGINT NOT NULL,
+  renewal_id BIGINT REFERENCES license_renewals(id) ON DELETE SET NULL,
+  version_number INTEGER NOT NULL,
+  document_file_id BIGINT,
+  document_url TEXT,
+  file_name VARCHAR(255),
+  valid_from TIMESTAMPTZ,
+  valid_until TIMESTAMPTZ,
+  is_current BOOLEAN NOT NULL DEFAULT true,
+  uploaded_by VARCHAR(255),
+  uploaded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (license_id, version_number)
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_license_renewals_license_id ON license_renewals(license_id);
+CREATE INDEX IF NOT EXISTS idx_license_renewals_station ON license_renewals(station);
+CREATE INDEX IF NOT EXISTS idx_license_renewals_payment_date ON license_renewals(payment_date);
+CREATE INDEX IF NOT EXISTS idx_license_documents_license_id ON license_documents(license_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE license_renewals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE license_documents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage license renewals" ON license_renewals;
+CREATE POLICY "Authenticated users can manage license renewals" ON license_renewals
+  FOR ALL USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can manage license documents" ON license_documents;
+CREATE POLICY "Authenticated users can manage license documents" ON license_documents
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT ALL ON license_renewals TO authenticated;
+GRANT ALL ON license_renewals TO service_role;
+GRANT ALL ON license_documents TO authenticated;
+GRANT ALL ON license_documents TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE license_renewals_id_seq TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE license_documents_id_seq TO authenticated;
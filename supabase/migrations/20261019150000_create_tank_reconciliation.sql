@@ -0,0 +1,61 @@
+-- Migration: Fuel tank inventory reconciliation
+-- Daily closing stick readings per station and grade are compared with the book
+-- inventory (previous reading + deliveries - gallons sold) to track variance.
+
+-- Create tank_stick_readings table (Table ID: 27007)
+-- One closing reading per station, grade and day
+CREATE TABLE IF NOT EXISTS tank_stick_readings (
+  id BIGSERIAL PRIMARY KEY,
+  station VARCHAR(255) NOT NULL,
+  reading_date DATE NOT NULL,
+  grade VARCHAR(50) NOT NULL,
+  stick_gallons NUMERIC(12,2) NOT NULL CHECK (stick_gallons >= 0),
+  water_inches NUMERIC(6,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  recorded_by VARCHAR(255),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (station, reading_date, grade)
+);
+
+-- Create tank_variance_thresholds table (Table ID: 27008)
+-- station 'ALL' is the default; a station row overrides it.
+-- The cumulative limit follows the usual inventory control rule of a fixed
+-- allowance plus a percentage of gallons sold.
+CREATE TABLE IF NOT EXISTS tank_variance_thresholds (
+  id BIGSERIAL PRIMARY KEY,
+  station VARCHAR(255) NOT NULL UNIQUE,
+  daily_variance_gallons NUMERIC(10,2) NOT NULL DEFAULT 50,
+  cumulative_variance_gallons NUMERIC(10,2) NOT NULL DEFAULT 130,
+  cumulative_variance_percent NUMERIC(5,2) NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_tank_stick_readings_station_date ON tank_stick_readings(station, reading_date);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE tank_stick_readings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tank_variance_thresholds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage tank stick readings" ON tank_stick_readings;
+CREATE POLICY "Authenticated users can manage tank stick readings" ON tank_stick_readings
+  FOR ALL USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can manage tank variance thresholds" ON tank_variance_thresholds;
+CREATE POLICY "Authenticated users can manage tank variance thresholds" ON tank_variance_thresholds
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT ALL ON tank_stick_readings TO authenticated;
+GRANT ALL ON tank_stick_readings TO service_role;
+GRANT ALL ON tank_variance_thresholds TO authenticated;
+GRANT ALL ON tank_variance_thresholds TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE tank_stick_readings_id_seq TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE tank_variance_thresholds_id_seq TO authenticated;
+
+-- Default thresholds for every station
+INSERT INTO tank_variance_thresholds (station)
+VALUES ('ALL')
+ON CONFLICT (station) DO NOTHING;
@@ -0,0 +1,9 @@
+-- Migration: Veeder-Root tank monitor import
+-- Tank readings confirmed from a Veeder-Root TLS export are stored alongside
+-- hand stick readings, with the delivery increase the monitor measured and the
+-- uploaded report they came from.
+
+ALTER TABLE tank_stick_readings
+  ADD COLUMN IF NOT EXISTS source VARCHAR(50) NOT NULL DEFAULT 'manual',
+  ADD COLUMN IF NOT EXISTS delivery_increase_gallons NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS source_file_id VARCHAR(500);
@@ -0,0 +1,69 @@
+-- Migration: Configurable fuel grades and tanks per station
+-- Stations declare the grades they sell and the tanks holding them. Sales
+-- reports, deliveries and after-delivery tank reports store their per-grade
+-- figures as JSONB maps keyed by grade; the fixed regular/plus/super/diesel
+-- columns are kept for reports saved before this.
+
+-- Create station_fuel_grades table (Table ID: 27009)
+-- A blended grade has no tank and draws blend_high_percent of each gallon from
+-- blend_high_grade and the rest from blend_low_grade.
+CREATE TABLE IF NOT EXISTS station_fuel_grades (
+  id BIGSERIAL PRIMARY KEY,
+  station VARCHAR(255) NOT NULL,
+  grade VARCHAR(50) NOT NULL,
+  label VARCHAR(100) NOT NULL,
+  is_blended BOOLEAN NOT NULL DEFAULT false,
+  blend_low_grade VARCHAR(50),
+  blend_high_grade VARCHAR(50),
+  blend_high_percent NUMERIC(5,2) CHECK (blend_high_percent IS NULL OR (blend_high_percent >= 0 AND blend_high_percent <= 100)),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (station, grade)
+);
+
+-- Create station_fuel_tanks table (Table ID: 27010)
+CREATE TABLE IF NOT EXISTS station_fuel_tanks (
+  id BIGSERIAL PRIMARY KEY,
+  station VARCHAR(255) NOT NULL,
+  tank_number INTEGER NOT NULL CHECK (tank_number > 0),
+  grade VARCHAR(50) NOT NULL,
+  capacity_gallons NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (capacity_gallons >= 0),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (station, tank_number)
+);
+
+-- Per-grade figures on existing tables
+ALTER TABLE sales_reports
+  ADD COLUMN IF NOT EXISTS fuel_gallons JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE deliveries
+  ADD COLUMN IF NOT EXISTS fuel_deliveries JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE after_delivery_tank_reports
+  ADD COLUMN IF NOT EXISTS tank_finals JSONB NOT NULL DEFAULT '{}';
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_station_fuel_grades_station ON station_fuel_grades(station);
+CREATE INDEX IF NOT EXISTS idx_station_fuel_tanks_station ON station_fuel_tanks(station);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE station_fuel_grades ENABLE ROW LEVEL SECURITY;
+ALTER TABLE station_fuel_tanks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage station fuel grades" ON station_fuel_grades;
+CREATE POLICY "Authenticated users can manage station fuel grades" ON station_fuel_grades
+  FOR ALL USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can manage station fuel tanks" ON station_fuel_tanks;
+CREATE POLICY "Authenticated users can manage station fuel tanks" ON station_fuel_tanks
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT ALL ON station_fuel_grades TO authenticated;
+GRANT ALL ON station_fuel_grades TO service_role;
+GRANT ALL ON station_fuel_tanks TO authenticated;
+GRANT ALL ON station_fuel_tanks TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE station_fuel_grades_id_seq TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE station_fuel_tanks_id_seq TO authenticated;
@@ -0,0 +1,38 @@
+-- Migration: Fuel price book and delivery cost per gallon
+-- Pump prices are effective-dated per station and grade: a price applies from
+-- its effective date until the next change. Deliveries record what each grade
+-- cost so gallons sold can be costed against delivery cost layers.
+
+-- Create fuel_prices table (Table ID: 27011)
+CREATE TABLE IF NOT EXISTS fuel_prices (
+  id BIGSERIAL PRIMARY KEY,
+  station VARCHAR(255) NOT NULL,
+  grade VARCHAR(50) NOT NULL,
+  price_per_gallon NUMERIC(10,4) NOT NULL CHECK (price_per_gallon > 0),
+  effective_date DATE NOT NULL,
+  changed_by VARCHAR(255) NOT NULL DEFAULT '',
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (station, grade, effective_date)
+);
+
+-- Average cost per gallon for the delivery; per-grade costs are kept in
+-- fuel_deliveries as cost_per_gallon
+ALTER TABLE deliveries
+  ADD COLUMN IF NOT EXISTS price_per_gallon NUMERIC(10,4);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_fuel_prices_station_grade_date ON fuel_prices(station, grade, effective_date);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE fuel_prices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage fuel prices" ON fuel_prices;
+CREATE POLICY "Authenticated users can manage fuel prices" ON fuel_prices
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT ALL ON fuel_prices TO authenticated;
+GRANT ALL ON fuel_prices TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE fuel_prices_id_seq TO authenticated;
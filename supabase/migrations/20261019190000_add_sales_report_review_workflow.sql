@@ -0,0 +1,52 @@
+-- Migration: Sales report close-out review
+-- Shift reports are submitted for manager review, then approved or rejected
+-- with comments. Approved reports are locked until a manager reopens them with
+-- a reason. Every step is kept in sales_report_reviews.
+
+-- Reports filed before the review workflow count as already closed out; new
+-- reports start as submitted
+ALTER TABLE sales_reports
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'approved';
+ALTER TABLE sales_reports
+  ALTER COLUMN status SET DEFAULT 'submitted';
+
+ALTER TABLE sales_reports
+  ADD COLUMN IF NOT EXISTS submitted_by VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS approved_by VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS review_comment TEXT;
+
+-- Create sales_report_reviews table (Table ID: 27012)
+-- One row per workflow step; station and report_date are copied from the
+-- report so the history survives the report being deleted
+CREATE TABLE IF NOT EXISTS sales_report_reviews (
+  id BIGSERIAL PRIMARY KEY,
+  report_id BIGINT NOT NULL,
+  station VARCHAR(255),
+  report_date DATE,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('submit', 'approve', 'reject', 'reopen')),
+  from_status VARCHAR(20),
+  to_status VARCHAR(20) NOT NULL,
+  comment TEXT,
+  performed_by VARCHAR(255),
+  performed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_sales_reports_status ON sales_reports(status);
+CREATE INDEX IF NOT EXISTS idx_sales_report_reviews_report_id ON sales_report_reviews(report_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE sales_report_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage sales report reviews" ON sales_report_reviews;
+CREATE POLICY "Authenticated users can manage sales report reviews" ON sales_report_reviews
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT ALL ON sales_report_reviews TO authenticated;
+GRANT ALL ON sales_report_reviews TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE sales_report_reviews_id_seq TO authenticated;
@@ -0,0 +1,35 @@
+-- Migration: Cash short/over tolerances and alerts
+-- Short/over tolerances live in alert_settings next to the license expiry
+-- settings, and the alerts they raise are recorded in alert_history. alert_type
+-- tells the two apart; existing rows are license expiry alerts.
+
+ALTER TABLE alert_settings
+  ADD COLUMN IF NOT EXISTS alert_type VARCHAR(50) NOT NULL DEFAULT 'license_expiry',
+  ADD COLUMN IF NOT EXISTS station VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS threshold_amount NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS rolling_threshold_amount NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS rolling_days INTEGER;
+
+-- cash_short_over_shift: one shift outside the tolerance
+-- cash_short_over_rolling: net shortage over the rolling window past the tolerance
+ALTER TABLE alert_history
+  ADD COLUMN IF NOT EXISTS alert_type VARCHAR(50) NOT NULL DEFAULT 'license_expiry',
+  ADD COLUMN IF NOT EXISTS station VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS employee_id VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS sales_report_id BIGINT,
+  ADD COLUMN IF NOT EXISTS amount NUMERIC(12,2);
+
+-- Short/over alerts are not about a license and are not sent to a contact
+ALTER TABLE alert_history ALTER COLUMN license_id DROP NOT NULL;
+ALTER TABLE alert_history ALTER COLUMN contact_id DROP NOT NULL;
+ALTER TABLE alert_history ALTER COLUMN mobile_number DROP NOT NULL;
+
+-- The ledger groups shifts by the employee who ran them
+ALTER TABLE sales_reports
+  ADD COLUMN IF NOT EXISTS employee_id VARCHAR(50);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_alert_settings_alert_type ON alert_settings(alert_type);
+CREATE INDEX IF NOT EXISTS idx_alert_history_alert_type ON alert_history(alert_type);
+CREATE INDEX IF NOT EXISTS idx_alert_history_sales_report_id ON alert_history(sales_report_id);
+CREATE INDEX IF NOT EXISTS idx_sales_reports_employee_id ON sales_reports(employee_id);
@@ -0,0 +1,37 @@
+-- Migration: Bank deposits
+-- Deposit slips record when the cash collected on shift reports goes to the
+-- bank: deposit date, bag number, amount, the shift reports it covers and the
+-- uploaded bank receipt. Cash collected is reconciled against these slips.
+
+-- Create bank_deposits table (Table ID: 27013)
+-- report_ids lists the sales_reports whose cash_collection_on_hand the bag holds
+CREATE TABLE IF NOT EXISTS bank_deposits (
+  id BIGSERIAL PRIMARY KEY,
+  station VARCHAR(255) NOT NULL,
+  deposit_date DATE NOT NULL,
+  bag_number VARCHAR(100) NOT NULL,
+  amount DECIMAL(12,2) NOT NULL,
+  report_ids BIGINT[] NOT NULL DEFAULT '{}',
+  receipt_url TEXT,
+  receipt_file_name VARCHAR(255),
+  notes TEXT,
+  deposited_by VARCHAR(255),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_bank_deposits_station_date ON bank_deposits(station, deposit_date);
+CREATE INDEX IF NOT EXISTS idx_bank_deposits_report_ids ON bank_deposits USING GIN (report_ids);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE bank_deposits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage bank deposits" ON bank_deposits;
+CREATE POLICY "Authenticated users can manage bank deposits" ON bank_deposits
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT ALL ON bank_deposits TO authenticated;
+GRANT ALL ON bank_deposits TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE bank_deposits_id_seq TO authenticated;
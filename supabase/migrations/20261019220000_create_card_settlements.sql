@@ -0,0 +1,47 @@
+-- Migration: Card settlement reconciliation
+-- Settlement batches imported from the card processor's CSV files. Each row is
+-- one batch total for a card type (or a chargeback/refund) and is matched to
+-- the card totals entered on the shift reports for the same station and date.
+
+-- Create card_settlements table (Table ID: 27014)
+-- business_date is the day the card sales were taken; settlement_date is when
+-- the bank paid the batch
+CREATE TABLE IF NOT EXISTS card_settlements (
+  id BIGSERIAL PRIMARY KEY,
+  station VARCHAR(255) NOT NULL,
+  business_date DATE NOT NULL,
+  settlement_date DATE,
+  processor VARCHAR(100),
+  batch_number VARCHAR(100) NOT NULL,
+  card_type VARCHAR(20) NOT NULL CHECK (card_type IN ('credit', 'debit', 'mobile')),
+  record_type VARCHAR(20) NOT NULL DEFAULT 'sale' CHECK (record_type IN ('sale', 'refund', 'chargeback')),
+  gross_amount DECIMAL(12,2) NOT NULL,
+  fee_amount DECIMAL(12,2) DEFAULT 0,
+  net_amount DECIMAL(12,2),
+  transaction_count INTEGER,
+  reference VARCHAR(255),
+  source_file_name VARCHAR(255),
+  imported_by VARCHAR(255),
+  imported_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- The same batch line imported twice is skipped
+CREATE UNIQUE INDEX IF NOT EXISTS idx_card_settlements_batch_line
+  ON card_settlements(station, batch_number, card_type, record_type, business_date);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_card_settlements_station_date ON card_settlements(station, business_date);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE card_settlements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage card settlements" ON card_settlements;
+CREATE POLICY "Authenticated users can manage card settlements" ON card_settlements
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT ALL ON card_settlements TO authenticated;
+GRANT ALL ON card_settlements TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE card_settlements_id_seq TO authenticated;
@@ -0,0 +1,94 @@
+-- Migration: Security policy settings
+-- Persists the admin Security Settings (password policy, lockout, session
+-- timeout, IP allowlist) and records login attempts so the lockout can be
+-- enforced before a user is signed in.
+
+-- Create security_settings table (Table ID: 27015)
+-- A single row holding the settings document edited on the admin page
+CREATE TABLE IF NOT EXISTS security_settings (
+  id BIGSERIAL PRIMARY KEY,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_by VARCHAR(255),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+INSERT INTO security_settings (settings)
+SELECT '{}'::jsonb
+WHERE NOT EXISTS (SELECT 1 FROM security_settings);
+
+-- Create login_attempts table
+-- Written and read only through the functions below, so attempts can be
+-- recorded and checked before sign-in without exposing the table to anon
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  succeeded BOOLEAN NOT NULL,
+  ip_address VARCHAR(100),
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_login_attempts_email_time ON login_attempts(lower(email), attempted_at DESC);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE security_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE login_attempts ENABLE ROW LEVEL SECURITY;
+
+-- The password policy and allowlist are needed on the login and registration
+-- pages, before anyone is signed in
+DROP POLICY IF EXISTS "Anyone can read security settings" ON security_settings;
+CREATE POLICY "Anyone can read security settings" ON security_settings
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can update security settings" ON security_settings;
+CREATE POLICY "Admins can update security settings" ON security_settings
+  FOR UPDATE USING (is_admin_user());
+
+DROP POLICY IF EXISTS "Admins can insert security settings" ON security_settings;
+CREATE POLICY "Admins can insert security settings" ON security_settings
+  FOR INSERT WITH CHECK (is_admin_user());
+
+-- Client IP as seen by the API gateway
+CREATE OR REPLACE FUNCTION get_client_ip()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(trim(split_part(
+    coalesce(current_setting('request.headers', true)::json->>'x-forwarded-for', ''), ',', 1)), '');
+$$;
+
+CREATE OR REPLACE FUNCTION record_login_attempt(p_email TEXT, p_succeeded BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO login_attempts (email, succeeded, ip_address)
+  VALUES (lower(trim(p_email)), p_succeeded, get_client_ip());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_recent_login_attempts(p_email TEXT, p_since TIMESTAMPTZ)
+RETURNS TABLE (succeeded BOOLEAN, attempted_at TIMESTAMPTZ)
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  SELECT la.succeeded, la.attempted_at
+  FROM login_attempts la
+  WHERE lower(la.email) = lower(trim(p_email))
+    AND la.attempted_at >= p_since
+  ORDER BY la.attempted_at DESC
+  LIMIT 100;
+$$;
+
+-- Grant permissions
+GRANT SELECT ON security_settings TO anon;
+GRANT SELECT, INSERT, UPDATE ON security_settings TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE security_settings_id_seq TO authenticated;
+GRANT ALL ON security_settings TO service_role;
+GRANT ALL ON login_attempts TO service_role;
+GRANT EXECUTE ON FUNCTION get_client_ip TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_login_attempt TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_recent_login_attempts TO anon, authenticated;
@@ -0,0 +1,9 @@
+-- Migration: Per-user display and notification preferences
+-- Stored on user_profiles (Table ID: 11725) and loaded with the profile by AuthContext.
+-- Missing keys fall back to the application defaults, so '{}' is a valid value.
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS preferences JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN user_profiles.preferences IS
+  'Theme, language, date format, currency and notification preferences edited on the App Settings page';
@@ -0,0 +1,41 @@
+-- Migration: Email delivery log
+-- The email-relay edge function records one row per message it sends (or fails
+-- to send after retrying), so reports, alerts and test emails can be traced.
+
+-- Create email_delivery_log table (Table ID: 27016)
+-- recipients holds To, Cc and Bcc addresses as a comma-separated list
+CREATE TABLE IF NOT EXISTS email_delivery_log (
+  id BIGSERIAL PRIMARY KEY,
+  message_id VARCHAR(255) NOT NULL,
+  from_address VARCHAR(255) NOT NULL,
+  recipients TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  transport VARCHAR(50) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('Sent', 'Failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  attachment_count INTEGER NOT NULL DEFAULT 0,
+  provider_message_id VARCHAR(255),
+  error_message TEXT,
+  email_type VARCHAR(50) NOT NULL DEFAULT 'custom',
+  sent_by_user_id UUID,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_email_delivery_log_sent_at ON email_delivery_log(sent_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_delivery_log_status ON email_delivery_log(status);
+CREATE INDEX IF NOT EXISTS idx_email_delivery_log_email_type ON email_delivery_log(email_type);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE email_delivery_log ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the relay with the service role
+DROP POLICY IF EXISTS "Authenticated users can view email delivery log" ON email_delivery_log;
+CREATE POLICY "Authenticated users can view email delivery log" ON email_delivery_log
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT SELECT ON email_delivery_log TO authenticated;
+GRANT ALL ON email_delivery_log TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE email_delivery_log_id_seq TO service_role;
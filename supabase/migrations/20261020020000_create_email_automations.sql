@@ -0,0 +1,222 @@
+-- Migration: Email automations
+-- Stores the email templates and automations edited in the Email Automation
+-- manager and logs every automated send. The email_automation_check job runs
+-- due automations through the job-worker edge function.
+
+-- Create email_templates table (Table ID: 27017)
+-- Subjects and bodies use {placeholder} variables; preview_data is sample JSON
+-- used for previews and test sends
+CREATE TABLE IF NOT EXISTS email_templates (
+  id BIGSERIAL PRIMARY KEY,
+  template_name VARCHAR(255) NOT NULL,
+  template_type VARCHAR(100) NOT NULL DEFAULT 'Custom',
+  subject TEXT NOT NULL,
+  html_content TEXT NOT NULL DEFAULT '',
+  text_content TEXT NOT NULL DEFAULT '',
+  variables TEXT NOT NULL DEFAULT '',
+  preview_data TEXT NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create email_automations table (Table ID: 27018)
+-- trigger_value is the alert window in days for days_before_expiry and the UTC
+-- hour to send at for daily_schedule. recipient_groups is a comma-separated
+-- list of groups (admin, management, station_managers, employees, all_users)
+-- and/or email addresses.
+CREATE TABLE IF NOT EXISTS email_automations (
+  id BIGSERIAL PRIMARY KEY,
+  automation_name VARCHAR(255) NOT NULL,
+  email_type VARCHAR(100) NOT NULL DEFAULT 'Custom',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  from_email VARCHAR(255) NOT NULL,
+  from_name VARCHAR(255) NOT NULL DEFAULT '',
+  trigger_condition VARCHAR(50) NOT NULL
+    CHECK (trigger_condition IN ('days_before_expiry', 'daily_schedule')),
+  trigger_value INTEGER NOT NULL DEFAULT 0,
+  frequency_hours INTEGER NOT NULL DEFAULT 24 CHECK (frequency_hours > 0),
+  template_id BIGINT REFERENCES email_templates(id) ON DELETE SET NULL,
+  recipient_groups TEXT NOT NULL DEFAULT '',
+  last_run TIMESTAMPTZ,
+  next_run TIMESTAMPTZ,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create email_automation_logs table (Table ID: 27019)
+-- One row per recipient per automated email; reference_key identifies what the
+-- email was about (license:<id>, sales:<date>:<station>) so it is not repeated
+CREATE TABLE IF NOT EXISTS email_automation_logs (
+  id BIGSERIAL PRIMARY KEY,
+  automation_id BIGINT NOT NULL REFERENCES email_automations(id) ON DELETE CASCADE,
+  template_id BIGINT REFERENCES email_templates(id) ON DELETE SET NULL,
+  reference_key VARCHAR(255) NOT NULL,
+  recipient_email VARCHAR(255) NOT NULL,
+  recipient_name VARCHAR(255),
+  subject TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('Sent', 'Failed')),
+  error_message TEXT,
+  message_id VARCHAR(255),
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_email_automations_due ON email_automations(is_active, next_run);
+CREATE INDEX IF NOT EXISTS idx_email_automation_logs_automation ON email_automation_logs(automation_id, sent_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_automation_logs_template ON email_automation_logs(template_id);
+CREATE INDEX IF NOT EXISTS idx_email_automation_logs_sent_at ON email_automation_logs(sent_at DESC);
+
+-- Send history per automation, read by the Email Automation manager
+CREATE OR REPLACE VIEW email_automations_view AS
+SELECT
+  a.*,
+  COALESCE(stats.total_sent, 0) AS total_sent,
+  COALESCE(stats.total_failed, 0) AS total_failed,
+  CASE WHEN COALESCE(stats.total_sent, 0) + COALESCE(stats.total_failed, 0) = 0 THEN 0
+    ELSE round(100.0 * stats.total_sent / (stats.total_sent + stats.total_failed), 1)
+  END AS success_rate,
+  stats.last_sent_at
+FROM email_automations a
+LEFT JOIN (
+  SELECT
+    automation_id,
+    COUNT(*) FILTER (WHERE status = 'Sent') AS total_sent,
+    COUNT(*) FILTER (WHERE status = 'Failed') AS total_failed,
+    MAX(sent_at) FILTER (WHERE status = 'Sent') AS last_sent_at
+  FROM email_automation_logs
+  GROUP BY automation_id
+) stats ON stats.automation_id = a.id;
+
+-- Usage per template
+CREATE OR REPLACE VIEW email_templates_view AS
+SELECT
+  t.*,
+  COALESCE(usage.usage_count, 0) AS usage_count,
+  usage.last_used
+FROM email_templates t
+LEFT JOIN (
+  SELECT template_id, COUNT(*) AS usage_count, MAX(sent_at) AS last_used
+  FROM email_automation_logs
+  WHERE status = 'Sent'
+  GROUP BY template_id
+) usage ON usage.template_id = t.id;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_automations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_automation_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage email templates" ON email_templates;
+CREATE POLICY "Authenticated users can manage email templates" ON email_templates
+  FOR ALL USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can manage email automations" ON email_automations;
+CREATE POLICY "Authenticated users can manage email automations" ON email_automations
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Log rows are only written by the job worker with the service role
+DROP POLICY IF EXISTS "Authenticated users can view email automation logs" ON email_automation_logs;
+CREATE POLICY "Authenticated users can view email automation logs" ON email_automation_logs
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Grant permissions
+GRANT ALL ON email_templates TO authenticated;
+GRANT ALL ON email_templates TO service_role;
+GRANT ALL ON email_automations TO authenticated;
+GRANT ALL ON email_automations TO service_role;
+GRANT SELECT ON email_automation_logs TO authenticated;
+GRANT ALL ON email_automation_logs TO service_role;
+GRANT SELECT ON email_automations_view TO authenticated;
+GRANT SELECT ON email_templates_view TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE email_templates_id_seq TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE email_automations_id_seq TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE email_automation_logs_id_seq TO service_role;
+
+-- Seed the templates and automations the manager previously showed as samples
+INSERT INTO email_templates (template_name, template_type, subject, html_content, text_content, variables, preview_data)
+SELECT * FROM (VALUES
+  (
+    'License Expiry Alert',
+    'License Alert',
+    'URGENT: License "{license_name}" expires in {days_remaining} days',
+    $html$<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; text-align: center;">
+    <h1 style="margin: 0; font-size: 24px;">License Expiry Alert</h1>
+  </div>
+  <div style="padding: 30px; background: #f8f9fa;">
+    <h2 style="color: #333; margin-top: 0;">Dear {recipient_name},</h2>
+    <div style="background: #fff; padding: 20px; border-left: 4px solid #ff6b6b; margin: 20px 0;">
+      <h3 style="color: #ff6b6b; margin-top: 0;">License Expiring Soon!</h3>
+      <p><strong>License:</strong> {license_name}</p>
+      <p><strong>Station:</strong> {station_name}</p>
+      <p><strong>Expiry Date:</strong> {expiry_date}</p>
+      <p><strong>Days Remaining:</strong> <span style="color: #ff6b6b; font-size: 18px; font-weight: bold;">{days_remaining}</span></p>
+    </div>
+    <p>Please take immediate action to renew this license to avoid any business disruption.</p>
+  </div>
+  <div style="background: #333; color: #ccc; padding: 20px; text-align: center; font-size: 12px;">
+    <p>This is an automated message from DFS Manager System</p>
+  </div>
+</div>$html$,
+    'URGENT: License "{license_name}" for {station_name} expires on {expiry_date}. Days remaining: {days_remaining}. Please renew immediately.',
+    'license_name,station_name,expiry_date,days_remaining,recipient_name',
+    '{"license_name": "Business License 2024", "station_name": "MOBIL", "expiry_date": "2024-03-15", "days_remaining": "15", "recipient_name": "John Manager"}'
+  ),
+  (
+    'Daily Sales Summary',
+    'Sales Report',
+    'Daily Sales Report - {station_name} ({report_date})',
+    $html$<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <div style="background: linear-gradient(135deg, #4facfe 0%, #00f2fe 100%); color: white; padding: 20px; text-align: center;">
+    <h1 style="margin: 0; font-size: 24px;">Daily Sales Report</h1>
+  </div>
+  <div style="padding: 30px; background: #f8f9fa;">
+    <h2 style="color: #333; margin-top: 0;">Sales Summary for {report_date}</h2>
+    <h3 style="color: #666;">Station: {station_name}</h3>
+    <div style="background: #fff; padding: 20px; border-radius: 8px; margin: 20px 0;">
+      <table style="width: 100%; border-collapse: collapse;">
+        <tr style="background: #f1f5f9;">
+          <th style="padding: 12px; text-align: left; border-bottom: 2px solid #e2e8f0;">Category</th>
+          <th style="padding: 12px; text-align: right; border-bottom: 2px solid #e2e8f0;">Amount</th>
+        </tr>
+        <tr>
+          <td style="padding: 12px; border-bottom: 1px solid #e2e8f0;">Total Sales</td>
+          <td style="padding: 12px; text-align: right; border-bottom: 1px solid #e2e8f0; font-weight: bold; color: #059669;">${total_sales}</td>
+        </tr>
+        <tr>
+          <td style="padding: 12px; border-bottom: 1px solid #e2e8f0;">Fuel Sales</td>
+          <td style="padding: 12px; text-align: right; border-bottom: 1px solid #e2e8f0;">${fuel_sales}</td>
+        </tr>
+        <tr>
+          <td style="padding: 12px; border-bottom: 1px solid #e2e8f0;">Store Sales</td>
+          <td style="padding: 12px; text-align: right; border-bottom: 1px solid #e2e8f0;">${store_sales}</td>
+        </tr>
+      </table>
+    </div>
+    <p style="color: #666; font-style: italic;">Generated automatically by DFS Manager at {timestamp}</p>
+  </div>
+</div>$html$,
+    'Daily Sales Report for {station_name} on {report_date}: Total Sales: ${total_sales}, Fuel: ${fuel_sales}, Store: ${store_sales}',
+    'report_date,station_name,total_sales,fuel_sales,store_sales,timestamp',
+    '{"report_date": "2024-02-15", "station_name": "AMOCO ROSEDALE", "total_sales": "12,450.75", "fuel_sales": "8,230.50", "store_sales": "4,220.25", "timestamp": "2024-02-16 08:00 UTC"}'
+  )
+) AS seed(template_name, template_type, subject, html_content, text_content, variables, preview_data)
+WHERE NOT EXISTS (SELECT 1 FROM email_templates);
+
+INSERT INTO email_automations (automation_name, email_type, from_email, from_name, trigger_condition, trigger_value, frequency_hours, template_id, recipient_groups)
+SELECT seed.automation_name, seed.email_type, seed.from_email, seed.from_name, seed.trigger_condition, seed.trigger_value, seed.frequency_hours, t.id, seed.recipient_groups
+FROM (VALUES
+  ('License Expiry Alerts', 'License Alert', 'alerts@dfsmanager.com', 'DFS Manager Alerts', 'days_before_expiry', 30, 24, 'License Expiry Alert', 'station_managers,admin'),
+  ('Daily Sales Reports', 'Sales Report', 'reports@dfsmanager.com', 'DFS Manager Reports', 'daily_schedule', 8, 24, 'Daily Sales Summary', 'management')
+) AS seed(automation_name, email_type, from_email, from_name, trigger_condition, trigger_value, frequency_hours, template_name, recipient_groups)
+JOIN email_templates t ON t.template_name = seed.template_name
+WHERE NOT EXISTS (SELECT 1 FROM email_automations);
+
+-- Check for due automations every hour so daily_schedule hours are honoured
+INSERT INTO scheduled_jobs (job_key, job_type, description, interval_minutes, payload)
+VALUES ('email_automation_check', 'email_automation_check', 'Send due email automations (license expiry alerts, daily sales reports)', 60, '{}'::jsonb)
+ON CONFLICT (job_key) DO NOTHING;
@@ -0,0 +1,69 @@
+-- Migration: Capture product changes in the database
+-- Every update to a product's prices, stock or barcodes is written to
+-- product_logs (Table ID: 11756) by a trigger, so the product form, batch edit,
+-- CSV imports and order receiving all record history the same way without
+-- logging from the browser.
+
+-- Who made the change, resolved when it is recorded
+ALTER TABLE product_logs
+  ADD COLUMN IF NOT EXISTS changed_by_name VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_product_logs_field_date ON product_logs(field_name, change_date DESC);
+
+-- Record one product_logs row per tracked column whose value changed. Empty
+-- and NULL count as the same value, since the product pages save cleared
+-- barcodes and dates either way. changed_by is the signed-in user; updates
+-- made with the service role (edge functions) are recorded without a user.
+CREATE OR REPLACE FUNCTION log_product_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tracked_fields TEXT[] := ARRAY[
+    'price', 'case_price', 'unit_per_case', 'unit_price', 'retail_price',
+    'quantity_in_stock', 'minimum_stock', 'bar_code_case', 'bar_code_unit', 'last_shopping_date'
+  ];
+  v_old JSONB := to_jsonb(OLD);
+  v_new JSONB := to_jsonb(NEW);
+  v_field TEXT;
+  v_user UUID := auth.uid();
+  v_user_name TEXT;
+BEGIN
+  IF v_user IS NOT NULL THEN
+    SELECT COALESCE(u.raw_user_meta_data->>'full_name', u.raw_user_meta_data->>'name', u.email)
+    INTO v_user_name
+    FROM auth.users u
+    WHERE u.id = v_user;
+  END IF;
+
+  FOREACH v_field IN ARRAY v_tracked_fields LOOP
+    IF v_new ? v_field AND COALESCE(v_old->>v_field, '') <> COALESCE(v_new->>v_field, '') THEN
+      INSERT INTO product_logs (product_id, field_name, old_value, new_value, change_date, changed_by, changed_by_name)
+      VALUES (NEW.id, v_field, v_old->>v_field, v_new->>v_field, now(), v_user, v_user_name);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_log_changes ON products;
+CREATE TRIGGER products_log_changes
+  AFTER UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION log_product_changes();
+
+-- Change history with the product name, for the per-product timeline and the
+-- price change report
+CREATE OR REPLACE VIEW product_logs_view AS
+SELECT
+  pl.*,
+  p.product_name
+FROM product_logs pl
+LEFT JOIN products p ON p.id = pl.product_id;
+
+-- Grant permissions
+GRANT SELECT ON product_logs_view TO authenticated;
+GRANT SELECT ON product_logs_view TO service_role;
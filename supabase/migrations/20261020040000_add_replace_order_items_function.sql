@@ -0,0 +1,51 @@
+-- Migration: Replace purchase order lines in one transaction
+-- Editing an order used to delete its order_items (Table ID: 27001) and insert
+-- the new ones in separate requests, so a failed insert left the order without
+-- lines. The replacement now runs in a single function call.
+
+-- Replace every line of an order with p_lines, a JSON array of line objects
+-- (product_id, product_name, product_code, unit_type, units_per_case, quantity,
+-- unit_cost, subtotal). Lines are numbered in array order. Runs as the caller,
+-- so the order_items policies still apply. Orders with received lines cannot
+-- be changed, since their receipts refer to those lines.
+CREATE OR REPLACE FUNCTION replace_order_items(p_order_id BIGINT, p_lines JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialise with other edits and receiving sessions on the same order
+  PERFORM 1 FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM order_items WHERE order_id = p_order_id AND quantity_received > 0) THEN
+    RAISE EXCEPTION 'Order lines cannot be changed after items have been received';
+  END IF;
+
+  DELETE FROM order_items WHERE order_id = p_order_id;
+
+  INSERT INTO order_items (
+    order_id, line_number, product_id, product_name, product_code,
+    unit_type, units_per_case, quantity, unit_cost, subtotal
+  )
+  SELECT
+    p_order_id,
+    line.ordinality,
+    (line.value->>'product_id')::BIGINT,
+    line.value->>'product_name',
+    COALESCE(line.value->>'product_code', ''),
+    COALESCE(line.value->>'unit_type', 'pieces'),
+    COALESCE((line.value->>'units_per_case')::INTEGER, 1),
+    (line.value->>'quantity')::NUMERIC,
+    COALESCE((line.value->>'unit_cost')::NUMERIC, 0),
+    COALESCE((line.value->>'subtotal')::NUMERIC, 0)
+  FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB)) WITH ORDINALITY AS line(value, ordinality);
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION replace_order_items(BIGINT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION replace_order_items(BIGINT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION replace_order_items(BIGINT, JSONB) TO service_role;
@@ -0,0 +1,94 @@
+-- Migration: Post order receipts in one transaction
+-- Receiving used to read a product's stock in the browser and write back the
+-- sum, so two sessions receiving the same product could lose an increment, and
+-- a failure part way left a receipt without its stock. The receipt row
+-- (Table ID: 27002), the line's received quantity (Table ID: 27001) and the
+-- product stock increment (Table ID: 11726) are now written together.
+
+-- Cases of a fractional unit count (e.g. 1.5 cases of 12) are no longer truncated
+ALTER TABLE order_receipts
+  ALTER COLUMN units_added TYPE NUMERIC(12,2);
+
+-- Receive p_quantity of an order line, in the line's own unit type, at
+-- p_unit_cost per that unit. Receiving more than is outstanding on the line is
+-- rejected. The product's case and unit price are only replaced when the
+-- received cost differs. Runs as the caller, so the table policies still apply.
+-- Returns the number of stock units added.
+CREATE OR REPLACE FUNCTION receive_order_line(
+  p_receipt_number TEXT,
+  p_order_item_id BIGINT,
+  p_quantity NUMERIC,
+  p_unit_cost NUMERIC,
+  p_received_by UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_line order_items%ROWTYPE;
+  v_remaining NUMERIC;
+  v_units NUMERIC;
+  v_case_cost NUMERIC;
+BEGIN
+  SELECT * INTO v_line FROM order_items WHERE id = p_order_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order line % not found', p_order_item_id;
+  END IF;
+
+  v_remaining := GREATEST(0, v_line.quantity - COALESCE(v_line.quantity_received, 0));
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be greater than zero';
+  END IF;
+  IF p_quantity > v_remaining THEN
+    RAISE EXCEPTION 'Cannot receive % of %: only % outstanding', p_quantity, v_line.product_name, v_remaining;
+  END IF;
+
+  IF v_line.unit_type = 'cases' THEN
+    v_units := p_quantity * COALESCE(NULLIF(v_line.units_per_case, 0), 1);
+    v_case_cost := p_unit_cost;
+  ELSE
+    v_units := p_quantity;
+    v_case_cost := p_unit_cost * COALESCE(NULLIF(v_line.units_per_case, 0), 1);
+  END IF;
+
+  INSERT INTO order_receipts (
+    receipt_number, order_id, order_item_id, product_id, quantity_received, units_added,
+    unit_cost, backorder_quantity, received_by, received_at, notes
+  ) VALUES (
+    p_receipt_number, v_line.order_id, v_line.id, v_line.product_id, p_quantity, v_units,
+    COALESCE(p_unit_cost, 0), v_remaining - p_quantity, p_received_by, now(), COALESCE(p_notes, '')
+  );
+
+  UPDATE order_items
+  SET quantity_received = COALESCE(quantity_received, 0) + p_quantity,
+      updated_at = now()
+  WHERE id = v_line.id;
+
+  UPDATE products
+  SET quantity_in_stock = COALESCE(quantity_in_stock, 0) + v_units,
+      case_price = CASE
+        WHEN v_case_cost > 0 AND abs(COALESCE(case_price, 0) - v_case_cost) >= 0.005 THEN round(v_case_cost, 2)
+        ELSE case_price
+      END,
+      unit_price = CASE
+        WHEN v_case_cost > 0 AND abs(COALESCE(case_price, 0) - v_case_cost) >= 0.005
+          THEN round(v_case_cost / COALESCE(NULLIF(unit_per_case, 0), 1), 2)
+        ELSE unit_price
+      END,
+      last_shopping_date = now(),
+      last_updated_date = now()
+  WHERE id = v_line.product_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', v_line.product_id;
+  END IF;
+
+  RETURN v_units;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION receive_order_line(TEXT, BIGINT, NUMERIC, NUMERIC, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION receive_order_line(TEXT, BIGINT, NUMERIC, NUMERIC, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION receive_order_line(TEXT, BIGINT, NUMERIC, NUMERIC, UUID, TEXT) TO service_role;
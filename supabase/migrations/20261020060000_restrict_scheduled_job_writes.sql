@@ -0,0 +1,87 @@
+-- Migration: Restrict scheduled job writes
+-- Any signed-in user could previously insert or edit scheduled_jobs (Table ID:
+-- 27003), e.g. point a job at any payload, and call claim_due_jobs to lease jobs
+-- away from the worker. Jobs are now written by admins and the service role
+-- only; other users schedule SMS through schedule_sms_job.
+
+DROP POLICY IF EXISTS "Authenticated users can manage scheduled jobs" ON scheduled_jobs;
+
+DROP POLICY IF EXISTS "Authenticated users can view scheduled jobs" ON scheduled_jobs;
+CREATE POLICY "Authenticated users can view scheduled jobs" ON scheduled_jobs
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Admins can insert scheduled jobs" ON scheduled_jobs;
+CREATE POLICY "Admins can insert scheduled jobs" ON scheduled_jobs
+  FOR INSERT WITH CHECK (is_admin_user());
+
+DROP POLICY IF EXISTS "Admins can update scheduled jobs" ON scheduled_jobs;
+CREATE POLICY "Admins can update scheduled jobs" ON scheduled_jobs
+  FOR UPDATE USING (is_admin_user());
+
+DROP POLICY IF EXISTS "Admins can delete scheduled jobs" ON scheduled_jobs;
+CREATE POLICY "Admins can delete scheduled jobs" ON scheduled_jobs
+  FOR DELETE USING (is_admin_user());
+
+-- Functions are executable by PUBLIC by default; only the worker may lease jobs
+REVOKE EXECUTE ON FUNCTION claim_due_jobs(TEXT, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_due_jobs(TEXT, INTEGER, INTEGER) TO service_role;
+
+-- One-off jobs run once: they cannot be brought forward or reactivated after
+-- running, which would repeat their side effect (e.g. resend a scheduled SMS)
+CREATE OR REPLACE FUNCTION prevent_one_off_job_rerun()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.interval_minutes IS NULL AND NEW.interval_minutes IS NULL THEN
+    IF NOT OLD.is_active AND NEW.is_active THEN
+      RAISE EXCEPTION 'One-off job % has already run and cannot be reactivated', OLD.job_key;
+    END IF;
+    IF NEW.next_run_at < OLD.next_run_at THEN
+      RAISE EXCEPTION 'One-off job % cannot be run before its scheduled time', OLD.job_key;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_one_off_job_rerun ON scheduled_jobs;
+CREATE TRIGGER prevent_one_off_job_rerun
+  BEFORE UPDATE ON scheduled_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_one_off_job_rerun();
+
+-- Queue a one-off SMS for the worker. Runs as the owner so users who cannot
+-- write scheduled_jobs can still schedule messages, but only send_sms jobs.
+-- Returns the new job's key.
+CREATE OR REPLACE FUNCTION schedule_sms_job(p_to TEXT, p_message TEXT, p_run_at TIMESTAMPTZ, p_type TEXT DEFAULT 'scheduled')
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job_key TEXT;
+BEGIN
+  IF coalesce(trim(p_to), '') = '' OR coalesce(trim(p_message), '') = '' THEN
+    RAISE EXCEPTION 'A phone number and message are required';
+  END IF;
+  IF p_run_at IS NULL THEN
+    RAISE EXCEPTION 'A send time is required';
+  END IF;
+
+  v_job_key := 'send_sms_' || (extract(epoch FROM p_run_at) * 1000)::BIGINT || '_' || substr(md5(random()::TEXT), 1, 8);
+  INSERT INTO scheduled_jobs (job_key, job_type, description, interval_minutes, payload, is_active, next_run_at, created_by)
+  VALUES (
+    v_job_key, 'send_sms', 'Scheduled SMS to ' || p_to, NULL,
+    jsonb_build_object('to', p_to, 'message', p_message, 'type', coalesce(p_type, 'scheduled')),
+    true, p_run_at, auth.uid()
+  );
+  RETURN v_job_key;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION schedule_sms_job(TEXT, TEXT, TIMESTAMPTZ, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION schedule_sms_job(TEXT, TEXT, TIMESTAMPTZ, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION schedule_sms_job(TEXT, TEXT, TIMESTAMPTZ, TEXT) TO service_role;
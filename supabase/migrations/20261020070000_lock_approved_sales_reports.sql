@@ -0,0 +1,87 @@
+-- Migration: Enforce the sales report review in the database
+-- The approval lock and the manager-only review actions were only applied in
+-- the browser, so an approved report could still be edited or deleted through
+-- the API, and any user could approve their own report. sales_reports (Table
+-- ID: 12356) now rejects changes to approved rows other than a manager
+-- reopening them, and only managers can record review decisions in
+-- sales_report_reviews (Table ID: 27012).
+
+-- Managers and admins, matching isManager() in the app
+CREATE OR REPLACE FUNCTION is_manager_user(user_uuid UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_id = user_uuid
+      AND role IN ('admin', 'manager')
+  ) OR is_admin_user(user_uuid);
+END;
+$$;
+
+-- Approving, rejecting and reopening are manager decisions. An approved report
+-- is locked: it cannot be deleted, and the only change allowed is a reopen that
+-- touches nothing but the review columns.
+CREATE OR REPLACE FUNCTION enforce_sales_report_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_review_columns TEXT[] := ARRAY['status', 'review_comment', 'approved_by', 'approved_at', 'updated_at'];
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'approved' THEN
+      RAISE EXCEPTION 'Approved sales reports cannot be deleted; reopen the report first';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NEW.status IN ('approved', 'rejected', 'reopened')
+     AND auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT is_manager_user() THEN
+    RAISE EXCEPTION 'Only managers can approve, reject or reopen sales reports';
+  END IF;
+
+  IF OLD.status = 'approved' THEN
+    IF NEW.status IS DISTINCT FROM 'reopened'
+       OR (to_jsonb(NEW) - v_review_columns) IS DISTINCT FROM (to_jsonb(OLD) - v_review_columns) THEN
+      RAISE EXCEPTION 'Approved sales reports are locked until a manager reopens them';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_sales_report_review ON sales_reports;
+CREATE TRIGGER enforce_sales_report_review
+  BEFORE UPDATE OR DELETE ON sales_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_sales_report_review();
+
+-- Anyone can read the history and record a submission; only managers record
+-- decisions, and recorded steps are not edited afterwards
+DROP POLICY IF EXISTS "Authenticated users can manage sales report reviews" ON sales_report_reviews;
+
+DROP POLICY IF EXISTS "Authenticated users can view sales report reviews" ON sales_report_reviews;
+CREATE POLICY "Authenticated users can view sales report reviews" ON sales_report_reviews
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Users can record sales report reviews" ON sales_report_reviews;
+CREATE POLICY "Users can record sales report reviews" ON sales_report_reviews
+  FOR INSERT WITH CHECK (
+    auth.role() = 'authenticated'
+    AND (action = 'submit' OR is_manager_user())
+  );
+
+-- Grant permissions
+REVOKE UPDATE, DELETE ON sales_report_reviews FROM authenticated;
+REVOKE EXECUTE ON FUNCTION is_manager_user(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION is_manager_user(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_manager_user(UUID) TO service_role;
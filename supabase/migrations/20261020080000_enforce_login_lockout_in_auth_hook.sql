@@ -0,0 +1,91 @@
+-- Migration: Enforce the failed-login lockout in Supabase Auth
+-- Login attempts were recorded and checked from the browser through functions
+-- granted to anon, so anyone could lock out an account, clear their own lockout
+-- by posting a success, or list which emails had tried to sign in. Attempts
+-- are now recorded by the password verification hook, which runs inside
+-- Supabase Auth for every password sign-in and rejects it while the account is
+-- locked. The hook must be enabled under Authentication → Hooks (Password
+-- Verification Attempt → public.hook_password_verification_attempt).
+
+DROP FUNCTION IF EXISTS record_login_attempt(TEXT, BOOLEAN);
+DROP FUNCTION IF EXISTS get_recent_login_attempts(TEXT, TIMESTAMPTZ);
+
+ALTER TABLE login_attempts
+  ADD COLUMN IF NOT EXISTS user_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_user_time ON login_attempts(user_id, attempted_at DESC);
+
+-- The account locks once maxFailedAttempts failures in a row (since the last
+-- success) fall within lockoutDuration minutes, and unlocks lockoutDuration
+-- minutes after the last of them. A correct password during the lockout is
+-- rejected and not recorded as a success, so it cannot clear the lockout.
+CREATE OR REPLACE FUNCTION hook_password_verification_attempt(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := (event->>'user_id')::UUID;
+  v_valid BOOLEAN := coalesce((event->>'valid')::BOOLEAN, false);
+  v_settings JSONB;
+  v_max_failures INTEGER;
+  v_lockout_minutes INTEGER;
+  v_failures INTEGER := 0;
+  v_last_failure TIMESTAMPTZ;
+  v_locked_until TIMESTAMPTZ;
+  v_attempt RECORD;
+BEGIN
+  SELECT settings->'accountSecurity' INTO v_settings
+  FROM security_settings
+  ORDER BY id
+  LIMIT 1;
+
+  -- Same defaults as DEFAULT_SECURITY_SETTINGS in the app
+  v_max_failures := coalesce((v_settings->>'maxFailedAttempts')::INTEGER, 5);
+  v_lockout_minutes := coalesce((v_settings->>'lockoutDuration')::INTEGER, 30);
+
+  IF v_max_failures > 0 AND v_lockout_minutes > 0 THEN
+    FOR v_attempt IN
+      SELECT succeeded, attempted_at
+      FROM login_attempts
+      WHERE user_id = v_user_id
+        AND attempted_at >= now() - make_interval(mins => v_lockout_minutes)
+      ORDER BY attempted_at DESC
+      LIMIT 100
+    LOOP
+      EXIT WHEN v_attempt.succeeded;
+      v_failures := v_failures + 1;
+      v_last_failure := coalesce(v_last_failure, v_attempt.attempted_at);
+    END LOOP;
+
+    IF v_failures >= v_max_failures THEN
+      v_locked_until := v_last_failure + make_interval(mins => v_lockout_minutes);
+    END IF;
+  END IF;
+
+  IF v_locked_until IS NULL OR NOT v_valid THEN
+    INSERT INTO login_attempts (user_id, email, succeeded)
+    SELECT v_user_id, lower(coalesce(u.email, '')), v_valid
+    FROM auth.users u
+    WHERE u.id = v_user_id;
+  END IF;
+
+  IF v_locked_until IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Too many failed attempts. This account is locked until ' ||
+        to_char(v_locked_until AT TIME ZONE 'UTC', 'HH24:MI') || ' UTC',
+      'should_logout_user', false
+    );
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+-- Grant permissions
+-- Only Supabase Auth calls the hook; attempts are never readable by clients
+REVOKE EXECUTE ON FUNCTION hook_password_verification_attempt(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
+REVOKE ALL ON login_attempts FROM anon, authenticated;
@@ -0,0 +1,141 @@
+-- Migration: Record the sales report review history in the database
+-- The review trigger only checked updates and deletes, so any user could insert
+-- a report that was already approved, and the history row was written by the
+-- browser in a separate call after the status change. sales_reports (Table ID:
+-- 12356) now checks inserts too and writes every submit, approve, reject and
+-- reopen to sales_report_reviews (Table ID: 27012) in the same statement.
+
+-- Databases built from the unified schema have status as the report_status
+-- enum, which has no 'reopened' and defaults to 'draft', so the close-out
+-- migration left it unchanged. Store it as text like the other workflow
+-- columns; reports filed before the workflow count as already closed out.
+ALTER TABLE sales_reports
+  ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE sales_reports
+  ALTER COLUMN status TYPE VARCHAR(20) USING status::TEXT;
+UPDATE sales_reports
+  SET status = 'approved'
+  WHERE status IS NULL OR status NOT IN ('submitted', 'approved', 'rejected', 'reopened');
+ALTER TABLE sales_reports
+  ALTER COLUMN status SET DEFAULT 'submitted',
+  ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE sales_reports
+  DROP CONSTRAINT IF EXISTS sales_reports_status_check;
+ALTER TABLE sales_reports
+  ADD CONSTRAINT sales_reports_status_check
+  CHECK (status IN ('submitted', 'approved', 'rejected', 'reopened'));
+
+-- Approving, rejecting and reopening are manager decisions, so other users can
+-- only file reports as submitted. An approved report is locked: it cannot be
+-- deleted, and the only change allowed is a reopen that touches nothing but the
+-- review columns.
+CREATE OR REPLACE FUNCTION enforce_sales_report_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_review_columns TEXT[] := ARRAY['status', 'review_comment', 'approved_by', 'approved_at', 'updated_at'];
+  v_is_manager BOOLEAN := auth.role() IS NOT DISTINCT FROM 'service_role' OR is_manager_user();
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'approved' THEN
+      RAISE EXCEPTION 'Approved sales reports cannot be deleted; reopen the report first';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'submitted' AND NOT v_is_manager THEN
+      RAISE EXCEPTION 'New sales reports must be submitted for review';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NEW.status IN ('approved', 'rejected', 'reopened')
+     AND NOT v_is_manager THEN
+    RAISE EXCEPTION 'Only managers can approve, reject or reopen sales reports';
+  END IF;
+
+  IF OLD.status = 'approved' THEN
+    IF NEW.status IS DISTINCT FROM 'reopened'
+       OR (to_jsonb(NEW) - v_review_columns) IS DISTINCT FROM (to_jsonb(OLD) - v_review_columns) THEN
+      RAISE EXCEPTION 'Approved sales reports are locked until a manager reopens them';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_sales_report_review ON sales_reports;
+CREATE TRIGGER enforce_sales_report_review
+  BEFORE INSERT OR UPDATE OR DELETE ON sales_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_sales_report_review();
+
+-- Every save of the report form is a submission (a new submitted_at); a status
+-- change to approved, rejected or reopened is a manager decision. Decisions are
+-- attributed to the signed-in user rather than a name sent by the browser.
+CREATE OR REPLACE FUNCTION record_sales_report_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from_status VARCHAR(20);
+  v_action VARCHAR(20);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_action := 'submit';
+  ELSE
+    v_from_status := OLD.status;
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      v_action := CASE NEW.status
+        WHEN 'submitted' THEN 'submit'
+        WHEN 'approved' THEN 'approve'
+        WHEN 'rejected' THEN 'reject'
+        WHEN 'reopened' THEN 'reopen'
+      END;
+    ELSIF NEW.status = 'submitted' AND NEW.submitted_at IS DISTINCT FROM OLD.submitted_at THEN
+      v_action := 'submit';
+    END IF;
+  END IF;
+
+  IF v_action IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO sales_report_reviews (
+    report_id, station, report_date, action, from_status, to_status, comment, performed_by, performed_at
+  ) VALUES (
+    NEW.id,
+    NEW.station,
+    NEW.report_date,
+    v_action,
+    v_from_status,
+    NEW.status,
+    CASE WHEN v_action = 'submit' THEN NULL ELSE NEW.review_comment END,
+    CASE WHEN v_action = 'submit' THEN NEW.submitted_by ELSE COALESCE(auth.jwt() ->> 'email', NEW.approved_by) END,
+    CASE WHEN v_action = 'submit' THEN COALESCE(NEW.submitted_at, now()) ELSE now() END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_sales_report_review ON sales_reports;
+CREATE TRIGGER record_sales_report_review
+  AFTER INSERT OR UPDATE ON sales_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sales_report_review();
+
+-- The history is only written by the trigger
+DROP POLICY IF EXISTS "Users can record sales report reviews" ON sales_report_reviews;
+
+-- Grant permissions
+REVOKE INSERT, UPDATE, DELETE ON sales_report_reviews FROM authenticated;
+REVOKE EXECUTE ON FUNCTION record_sales_report_review() FROM PUBLIC;
@@ -0,0 +1,44 @@
+-- Migration: Create purchase orders in one transaction
+-- Creating an order inserted the header in orders (Table ID: 11730), looked it
+-- up again by order number and then inserted each order_items (Table ID: 27001)
+-- line in its own request, so a failed line left a partial order behind. The
+-- header and lines are now written by a single function call.
+
+-- Insert an order header from p_order (order_number, vendor_id, order_date,
+-- expected_delivery, station, total_amount, status, notes, created_by) and its
+-- lines from p_lines, in the format of replace_order_items. Returns the new
+-- order's id. Runs as the caller, so the orders and order_items policies apply.
+CREATE OR REPLACE FUNCTION create_order(p_order JSONB, p_lines JSONB)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id BIGINT;
+BEGIN
+  INSERT INTO orders (
+    order_number, vendor_id, order_date, expected_delivery, station,
+    total_amount, status, notes, created_by
+  ) VALUES (
+    p_order->>'order_number',
+    (p_order->>'vendor_id')::BIGINT,
+    COALESCE(NULLIF(p_order->>'order_date', '')::TIMESTAMPTZ, now()),
+    NULLIF(p_order->>'expected_delivery', '')::TIMESTAMPTZ,
+    p_order->>'station',
+    COALESCE((p_order->>'total_amount')::NUMERIC, 0),
+    COALESCE(p_order->>'status', 'Pending'),
+    p_order->>'notes',
+    (p_order->>'created_by')::BIGINT
+  )
+  RETURNING id INTO v_order_id;
+
+  PERFORM replace_order_items(v_order_id, p_lines);
+
+  RETURN v_order_id;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION create_order(JSONB, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_order(JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order(JSONB, JSONB) TO service_role;
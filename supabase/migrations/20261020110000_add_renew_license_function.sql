@@ -0,0 +1,108 @@
+-- Migration: Renew licenses in one transaction
+-- A renewal wrote the original certificate, the license_renewals (Table ID:
+-- 27005) row, the license_documents (Table ID: 27006) versions and the license
+-- in separate requests, and found the new renewal again by its timestamp. A
+-- failure part way left a renewal without its certificate or a license on its
+-- old dates. All of it now runs in a single function call.
+
+-- Renew p_license_id with p_renewal (new_issue_date, new_expiry_date,
+-- renewal_cost, payment_date, payment_reference, notes, renewed_by) and, when
+-- p_document is given (document_url, file_name), store it as the new current
+-- certificate. Licenses created before versioning keep their original
+-- certificate as version 1. Returns the new renewal's id. Runs as the caller,
+-- so the table policies still apply.
+CREATE OR REPLACE FUNCTION renew_license(p_license_id BIGINT, p_renewal JSONB, p_document JSONB DEFAULT NULL)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_license RECORD;
+  v_renewal_id BIGINT;
+  v_new_issue_date TIMESTAMPTZ := NULLIF(p_renewal->>'new_issue_date', '')::TIMESTAMPTZ;
+  v_new_expiry_date TIMESTAMPTZ := NULLIF(p_renewal->>'new_expiry_date', '')::TIMESTAMPTZ;
+  v_renewed_by VARCHAR(255) := p_renewal->>'renewed_by';
+BEGIN
+  -- Serialise with other renewals of the same license
+  SELECT id, station, issue_date, expiry_date, document_file_id
+    INTO v_license
+    FROM licenses
+    WHERE id = p_license_id
+    FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'License % not found', p_license_id;
+  END IF;
+
+  IF v_new_expiry_date IS NULL THEN
+    RAISE EXCEPTION 'A new expiry date is required';
+  END IF;
+
+  IF v_license.document_file_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM license_documents WHERE license_id = p_license_id) THEN
+    INSERT INTO license_documents (
+      license_id, renewal_id, version_number, document_file_id, document_url, file_name,
+      valid_from, valid_until, is_current, uploaded_by, uploaded_at
+    ) VALUES (
+      p_license_id, NULL, 1, v_license.document_file_id, NULL, 'Original certificate',
+      v_license.issue_date, v_license.expiry_date, true, v_renewed_by, COALESCE(v_license.issue_date, now())
+    );
+  END IF;
+
+  INSERT INTO license_renewals (
+    license_id, station, previous_issue_date, previous_expiry_date, new_issue_date, new_expiry_date,
+    renewal_cost, payment_date, payment_reference, notes, renewed_by, renewed_at
+  ) VALUES (
+    p_license_id,
+    v_license.station,
+    v_license.issue_date,
+    v_license.expiry_date,
+    v_new_issue_date,
+    v_new_expiry_date,
+    COALESCE((p_renewal->>'renewal_cost')::NUMERIC, 0),
+    NULLIF(p_renewal->>'payment_date', '')::DATE,
+    p_renewal->>'payment_reference',
+    p_renewal->>'notes',
+    v_renewed_by,
+    now()
+  )
+  RETURNING id INTO v_renewal_id;
+
+  IF p_document IS NOT NULL THEN
+    UPDATE license_documents
+      SET is_current = false, updated_at = now()
+      WHERE license_id = p_license_id AND is_current;
+
+    INSERT INTO license_documents (
+      license_id, renewal_id, version_number, document_url, file_name,
+      valid_from, valid_until, is_current, uploaded_by, uploaded_at
+    )
+    SELECT
+      p_license_id,
+      v_renewal_id,
+      COALESCE(MAX(version_number), 0) + 1,
+      p_document->>'document_url',
+      p_document->>'file_name',
+      v_new_issue_date,
+      v_new_expiry_date,
+      true,
+      v_renewed_by,
+      now()
+    FROM license_documents
+    WHERE license_id = p_license_id;
+  END IF;
+
+  UPDATE licenses
+    SET expiry_date = v_new_expiry_date,
+        issue_date = COALESCE(v_new_issue_date, issue_date),
+        status = 'Active',
+        updated_at = now()
+    WHERE id = p_license_id;
+
+  RETURN v_renewal_id;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION renew_license(BIGINT, JSONB, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION renew_license(BIGINT, JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION renew_license(BIGINT, JSONB, JSONB) TO service_role;